@@ -0,0 +1,5 @@
+-- AlterTable: IANA time zone used to resolve event wall-clock times
+ALTER TABLE "Organization" ADD COLUMN "timezone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- AlterTable: optional per-venue override
+ALTER TABLE "Venue" ADD COLUMN "timezone" TEXT;
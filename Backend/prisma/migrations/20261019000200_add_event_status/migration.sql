@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "EventStatus" AS ENUM ('SCHEDULED', 'CANCELLED', 'POSTPONED');
+
+-- AlterEnum: notifications for cancelled/rescheduled events
+ALTER TYPE "NotificationType" ADD VALUE 'EVENT_UPDATE';
+
+-- AlterTable: cancellation/postponement as event states instead of deletion
+ALTER TABLE "Event" ADD COLUMN "status" "EventStatus" NOT NULL DEFAULT 'SCHEDULED';
+ALTER TABLE "Event" ADD COLUMN "statusReason" TEXT;
+ALTER TABLE "Event" ADD COLUMN "statusChangedAt" TIMESTAMP(3);
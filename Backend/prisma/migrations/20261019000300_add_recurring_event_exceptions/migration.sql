@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "RecurringEventException" (
+    "id" TEXT NOT NULL,
+    "recurringEventId" TEXT NOT NULL,
+    "originalDate" TIMESTAMP(3) NOT NULL,
+    "eventId" TEXT,
+    "overriddenFields" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringEventException_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecurringEventException_eventId_key" ON "RecurringEventException"("eventId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecurringEventException_recurringEventId_originalDate_key" ON "RecurringEventException"("recurringEventId", "originalDate");
+
+-- AddForeignKey
+ALTER TABLE "RecurringEventException" ADD CONSTRAINT "RecurringEventException_recurringEventId_fkey" FOREIGN KEY ("recurringEventId") REFERENCES "RecurringEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringEventException" ADD CONSTRAINT "RecurringEventException_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE SET NULL ON UPDATE CASCADE;
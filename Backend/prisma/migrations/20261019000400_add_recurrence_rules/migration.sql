@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "RecurringEvent" ADD COLUMN "rrule" TEXT,
+ADD COLUMN "exdates" TIMESTAMP(3)[];
+
+-- CreateTable
+CREATE TABLE "BlackoutDate" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BlackoutDate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BlackoutDate_organizationId_startDate_idx" ON "BlackoutDate"("organizationId", "startDate");
+
+-- AddForeignKey
+ALTER TABLE "BlackoutDate" ADD CONSTRAINT "BlackoutDate_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
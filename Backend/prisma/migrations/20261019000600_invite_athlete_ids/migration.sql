@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Invite" ADD COLUMN "athleteIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- Carry existing guardian invites over before dropping the single-athlete column
+UPDATE "Invite" SET "athleteIds" = ARRAY["athleteId"] WHERE "athleteId" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Invite" DROP COLUMN "athleteId";
@@ -0,0 +1,52 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "phoneVerifiedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN "smsMonthlyQuota" INTEGER NOT NULL DEFAULT 500;
+
+-- AlterTable
+ALTER TABLE "Announcement" ADD COLUMN "urgent" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "SmsUsage" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "month" TEXT NOT NULL,
+    "sent" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SmsUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SmsOptOut" (
+    "phone" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SmsOptOut_pkey" PRIMARY KEY ("phone")
+);
+
+-- CreateTable
+CREATE TABLE "PhoneVerification" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PhoneVerification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SmsUsage_organizationId_month_key" ON "SmsUsage"("organizationId", "month");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PhoneVerification_userId_key" ON "PhoneVerification"("userId");
+
+-- AddForeignKey
+ALTER TABLE "SmsUsage" ADD CONSTRAINT "SmsUsage_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PhoneVerification" ADD CONSTRAINT "PhoneVerification_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CheckIn" ADD COLUMN "offlineSyncedAt" TIMESTAMP(3);
@@ -0,0 +1,30 @@
+-- AlterEnum
+ALTER TYPE "AttendanceStatus" ADD VALUE 'LEFT_EARLY';
+
+-- CreateTable
+CREATE TABLE "AttendancePolicy" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "teamId" TEXT,
+    "eventType" "EventType",
+    "checkInWindowMinutes" INTEGER,
+    "lateGraceMinutes" INTEGER,
+    "minPresencePercent" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AttendancePolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AttendancePolicy_organizationId_idx" ON "AttendancePolicy"("organizationId");
+
+-- One policy per scope; the org default and event-type rows have a NULL teamId,
+-- so NULLs must compare equal (not expressible in the Prisma schema)
+CREATE UNIQUE INDEX "AttendancePolicy_scope_key" ON "AttendancePolicy"("organizationId", "teamId", "eventType") NULLS NOT DISTINCT;
+
+-- AddForeignKey
+ALTER TABLE "AttendancePolicy" ADD CONSTRAINT "AttendancePolicy_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AttendancePolicy" ADD CONSTRAINT "AttendancePolicy_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,76 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'ATTENDANCE_ESCALATION';
+
+-- CreateEnum
+CREATE TYPE "EscalationTrigger" AS ENUM ('ABSENCES_IN_PERIOD', 'LATE_STREAK', 'ATTENDANCE_BELOW');
+
+-- CreateEnum
+CREATE TYPE "EscalationStatus" AS ENUM ('OPEN', 'RESOLVED', 'DISMISSED');
+
+-- CreateTable
+CREATE TABLE "EscalationRule" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "teamId" TEXT,
+    "name" TEXT NOT NULL,
+    "trigger" "EscalationTrigger" NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "periodDays" INTEGER,
+    "notifyCoaches" BOOLEAN NOT NULL DEFAULT true,
+    "notifyGuardians" BOOLEAN NOT NULL DEFAULT false,
+    "createFollowUp" BOOLEAN NOT NULL DEFAULT false,
+    "proposedStatus" "AthleteStatus",
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EscalationRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EscalationFiring" (
+    "id" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "detail" TEXT NOT NULL,
+    "followUp" BOOLEAN NOT NULL DEFAULT false,
+    "proposedStatus" "AthleteStatus",
+    "status" "EscalationStatus",
+    "resolvedByUserId" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolutionNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EscalationFiring_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EscalationRule_organizationId_idx" ON "EscalationRule"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "EscalationFiring_ruleId_userId_idx" ON "EscalationFiring"("ruleId", "userId");
+
+-- CreateIndex
+CREATE INDEX "EscalationFiring_organizationId_status_idx" ON "EscalationFiring"("organizationId", "status");
+
+-- CreateIndex
+CREATE INDEX "EscalationFiring_userId_organizationId_idx" ON "EscalationFiring"("userId", "organizationId");
+
+-- AddForeignKey
+ALTER TABLE "EscalationRule" ADD CONSTRAINT "EscalationRule_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EscalationRule" ADD CONSTRAINT "EscalationRule_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EscalationFiring" ADD CONSTRAINT "EscalationFiring_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "EscalationRule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EscalationFiring" ADD CONSTRAINT "EscalationFiring_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EscalationFiring" ADD CONSTRAINT "EscalationFiring_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EscalationFiring" ADD CONSTRAINT "EscalationFiring_resolvedByUserId_fkey" FOREIGN KEY ("resolvedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
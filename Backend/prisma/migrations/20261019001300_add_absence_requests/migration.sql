@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "AbsenceRequest" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" "ExcuseRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "requestedByUserId" TEXT NOT NULL,
+    "reviewedByUserId" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AbsenceRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_AbsenceRequestTeams" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_AbsenceRequestTeams_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "AbsenceRequest_userId_organizationId_idx" ON "AbsenceRequest"("userId", "organizationId");
+
+-- CreateIndex
+CREATE INDEX "AbsenceRequest_organizationId_status_idx" ON "AbsenceRequest"("organizationId", "status");
+
+-- CreateIndex
+CREATE INDEX "_AbsenceRequestTeams_B_index" ON "_AbsenceRequestTeams"("B");
+
+-- AddForeignKey
+ALTER TABLE "AbsenceRequest" ADD CONSTRAINT "AbsenceRequest_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AbsenceRequest" ADD CONSTRAINT "AbsenceRequest_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AbsenceRequest" ADD CONSTRAINT "AbsenceRequest_requestedByUserId_fkey" FOREIGN KEY ("requestedByUserId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AbsenceRequest" ADD CONSTRAINT "AbsenceRequest_reviewedByUserId_fkey" FOREIGN KEY ("reviewedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_AbsenceRequestTeams" ADD CONSTRAINT "_AbsenceRequestTeams_A_fkey" FOREIGN KEY ("A") REFERENCES "AbsenceRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_AbsenceRequestTeams" ADD CONSTRAINT "_AbsenceRequestTeams_B_fkey" FOREIGN KEY ("B") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "ExcuseAutoApproval" AS ENUM ('NEVER', 'ALWAYS', 'WITH_ATTACHMENT');
+
+-- AlterTable
+ALTER TABLE "ExcuseRequest" ADD COLUMN     "categoryId" TEXT,
+ADD COLUMN     "autoApproved" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ExcuseCategory" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "autoApprove" "ExcuseAutoApproval" NOT NULL DEFAULT 'NEVER',
+    "requiresAttachment" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExcuseCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExcuseAttachment" (
+    "id" TEXT NOT NULL,
+    "excuseRequestId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "uploadedByUserId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExcuseAttachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExcuseRequest_categoryId_idx" ON "ExcuseRequest"("categoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExcuseCategory_organizationId_name_key" ON "ExcuseCategory"("organizationId", "name");
+
+-- CreateIndex
+CREATE INDEX "ExcuseAttachment_excuseRequestId_idx" ON "ExcuseAttachment"("excuseRequestId");
+
+-- AddForeignKey
+ALTER TABLE "ExcuseRequest" ADD CONSTRAINT "ExcuseRequest_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "ExcuseCategory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExcuseCategory" ADD CONSTRAINT "ExcuseCategory_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExcuseAttachment" ADD CONSTRAINT "ExcuseAttachment_excuseRequestId_fkey" FOREIGN KEY ("excuseRequestId") REFERENCES "ExcuseRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExcuseAttachment" ADD CONSTRAINT "ExcuseAttachment_uploadedByUserId_fkey" FOREIGN KEY ("uploadedByUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
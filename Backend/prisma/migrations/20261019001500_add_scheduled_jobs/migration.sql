@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "JobRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "JobRunTrigger" AS ENUM ('SCHEDULE', 'STARTUP', 'RETRY', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "ScheduledJob" (
+    "name" TEXT NOT NULL,
+    "schedule" TEXT NOT NULL,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "lockedBy" TEXT,
+    "lockedUntil" TIMESTAMP(3),
+    "lastScheduledFor" TIMESTAMP(3),
+    "retryAt" TIMESTAMP(3),
+    "retryAttempt" INTEGER NOT NULL DEFAULT 0,
+    "lastRunAt" TIMESTAMP(3),
+    "lastSucceededAt" TIMESTAMP(3),
+    "lastFailedAt" TIMESTAMP(3),
+    "lastDurationMs" INTEGER,
+    "lastError" TEXT,
+    "runCount" INTEGER NOT NULL DEFAULT 0,
+    "failureCount" INTEGER NOT NULL DEFAULT 0,
+    "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScheduledJob_pkey" PRIMARY KEY ("name")
+);
+
+-- CreateTable
+CREATE TABLE "JobRun" (
+    "id" TEXT NOT NULL,
+    "jobName" TEXT NOT NULL,
+    "trigger" "JobRunTrigger" NOT NULL,
+    "attempt" INTEGER NOT NULL DEFAULT 1,
+    "status" "JobRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "workerId" TEXT NOT NULL,
+    "triggeredByUserId" TEXT,
+    "result" JSONB,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+
+    CONSTRAINT "JobRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "JobRun_jobName_startedAt_idx" ON "JobRun"("jobName", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "JobRun_startedAt_idx" ON "JobRun"("startedAt");
+
+-- AddForeignKey
+ALTER TABLE "JobRun" ADD CONSTRAINT "JobRun_jobName_fkey" FOREIGN KEY ("jobName") REFERENCES "ScheduledJob"("name") ON DELETE CASCADE ON UPDATE CASCADE;
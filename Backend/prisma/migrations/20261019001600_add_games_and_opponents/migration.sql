@@ -0,0 +1,41 @@
+-- AlterEnum
+ALTER TYPE "EventType" ADD VALUE 'GAME';
+
+-- CreateEnum
+CREATE TYPE "HomeAway" AS ENUM ('HOME', 'AWAY', 'NEUTRAL');
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "opponentId" TEXT,
+ADD COLUMN     "homeAway" "HomeAway",
+ADD COLUMN     "teamScore" INTEGER,
+ADD COLUMN     "opponentScore" INTEGER,
+ADD COLUMN     "resultRecordedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "Opponent" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "shortName" TEXT,
+    "notes" TEXT,
+    "archivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Opponent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Event_opponentId_idx" ON "Event"("opponentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Opponent_organizationId_name_key" ON "Opponent"("organizationId", "name");
+
+-- CreateIndex
+CREATE INDEX "Opponent_organizationId_idx" ON "Opponent"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "Event" ADD CONSTRAINT "Event_opponentId_fkey" FOREIGN KEY ("opponentId") REFERENCES "Opponent"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Opponent" ADD CONSTRAINT "Opponent_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
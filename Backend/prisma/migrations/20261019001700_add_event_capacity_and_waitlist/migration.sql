@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "RsvpStatus" ADD VALUE 'WAITLISTED';
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "capacity" INTEGER,
+ADD COLUMN     "rsvpDeadline" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "EventRsvp" ADD COLUMN     "waitlistedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "EventRsvp_eventId_status_idx" ON "EventRsvp"("eventId", "status");
@@ -0,0 +1,54 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "eventGroupId" TEXT,
+ADD COLUMN     "pool" TEXT,
+ADD COLUMN     "bracketRound" INTEGER,
+ADD COLUMN     "bracketSlot" INTEGER;
+
+-- CreateTable
+CREATE TABLE "EventGroup" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "travelNotes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EventGroup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EventGroupDocument" (
+    "id" TEXT NOT NULL,
+    "eventGroupId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "uploadedByUserId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventGroupDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Event_eventGroupId_idx" ON "Event"("eventGroupId");
+
+-- CreateIndex
+CREATE INDEX "EventGroup_organizationId_startDate_idx" ON "EventGroup"("organizationId", "startDate");
+
+-- CreateIndex
+CREATE INDEX "EventGroupDocument_eventGroupId_idx" ON "EventGroupDocument"("eventGroupId");
+
+-- AddForeignKey
+ALTER TABLE "Event" ADD CONSTRAINT "Event_eventGroupId_fkey" FOREIGN KEY ("eventGroupId") REFERENCES "EventGroup"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventGroup" ADD CONSTRAINT "EventGroup_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventGroupDocument" ADD CONSTRAINT "EventGroupDocument_eventGroupId_fkey" FOREIGN KEY ("eventGroupId") REFERENCES "EventGroup"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventGroupDocument" ADD CONSTRAINT "EventGroupDocument_uploadedByUserId_fkey" FOREIGN KEY ("uploadedByUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,86 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "reminderMinutes" INTEGER;
+
+-- AlterTable
+ALTER TABLE "RecurringEvent" ADD COLUMN     "reminderMinutes" INTEGER;
+
+-- CreateTable
+CREATE TABLE "EventStaff" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventStaff_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RecurringEventStaff" (
+    "id" TEXT NOT NULL,
+    "recurringEventId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RecurringEventStaff_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EventTemplate" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "teamId" TEXT,
+    "name" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "type" "EventType" NOT NULL,
+    "durationMinutes" INTEGER NOT NULL,
+    "venueId" TEXT,
+    "location" TEXT,
+    "description" TEXT,
+    "reminderMinutes" INTEGER,
+    "includedAthleteIds" TEXT[],
+    "excludedAthleteIds" TEXT[],
+    "staffUserIds" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EventTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EventStaff_eventId_idx" ON "EventStaff"("eventId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventStaff_eventId_userId_key" ON "EventStaff"("eventId", "userId");
+
+-- CreateIndex
+CREATE INDEX "RecurringEventStaff_recurringEventId_idx" ON "RecurringEventStaff"("recurringEventId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecurringEventStaff_recurringEventId_userId_key" ON "RecurringEventStaff"("recurringEventId", "userId");
+
+-- CreateIndex
+CREATE INDEX "EventTemplate_organizationId_idx" ON "EventTemplate"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "EventTemplate_teamId_idx" ON "EventTemplate"("teamId");
+
+-- AddForeignKey
+ALTER TABLE "EventStaff" ADD CONSTRAINT "EventStaff_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventStaff" ADD CONSTRAINT "EventStaff_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringEventStaff" ADD CONSTRAINT "RecurringEventStaff_recurringEventId_fkey" FOREIGN KEY ("recurringEventId") REFERENCES "RecurringEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringEventStaff" ADD CONSTRAINT "RecurringEventStaff_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventTemplate" ADD CONSTRAINT "EventTemplate_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventTemplate" ADD CONSTRAINT "EventTemplate_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventTemplate" ADD CONSTRAINT "EventTemplate_venueId_fkey" FOREIGN KEY ("venueId") REFERENCES "Venue"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "externalUid" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Event_organizationId_externalUid_key" ON "Event"("organizationId", "externalUid");
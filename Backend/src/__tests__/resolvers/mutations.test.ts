@@ -2,12 +2,12 @@
  * Integration tests for GraphQL Mutation resolvers.
  * Prisma and external services are fully mocked — no DB or network required.
  */
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 
 // ─── Mock all external dependencies ─────────────────────────────────────────
 vi.mock("../../db.js", () => ({
   prisma: {
-    user: { findUnique: vi.fn(), create: vi.fn(), update: vi.fn(), upsert: vi.fn() },
+    user: { findUnique: vi.fn(), findMany: vi.fn(), create: vi.fn(), update: vi.fn(), upsert: vi.fn() },
     organization: { create: vi.fn(), findUnique: vi.fn(), findUniqueOrThrow: vi.fn(), update: vi.fn(), updateMany: vi.fn(), delete: vi.fn() },
     organizationMember: {
       create: vi.fn(),
@@ -15,11 +15,12 @@ vi.mock("../../db.js", () => ({
       findMany: vi.fn(),
       update: vi.fn(),
       delete: vi.fn(),
+      count: vi.fn(),
     },
-    team: { create: vi.fn(), findUnique: vi.fn(), update: vi.fn(), delete: vi.fn() },
+    team: { create: vi.fn(), findUnique: vi.fn(), findMany: vi.fn(), update: vi.fn(), delete: vi.fn() },
     teamMember: { findMany: vi.fn(), deleteMany: vi.fn() },
-    checkIn: { deleteMany: vi.fn() },
-    event: { findMany: vi.fn(), deleteMany: vi.fn() },
+    checkIn: { deleteMany: vi.fn(), updateMany: vi.fn(), upsert: vi.fn() },
+    event: { findMany: vi.fn(), findUnique: vi.fn(), create: vi.fn(), update: vi.fn(), deleteMany: vi.fn() },
     auditLog: { create: vi.fn() },
     customRole: { create: vi.fn(), findUnique: vi.fn(), update: vi.fn(), delete: vi.fn() },
     teamChallenge: { create: vi.fn(), findUnique: vi.fn(), delete: vi.fn() },
@@ -34,6 +35,27 @@ vi.mock("../../db.js", () => ({
       count: vi.fn(),
     },
     payment: { create: vi.fn(), findFirst: vi.fn() },
+    conversation: { create: vi.fn(), findFirst: vi.fn(), findUnique: vi.fn() },
+    conversationParticipant: { findMany: vi.fn(), createMany: vi.fn(), deleteMany: vi.fn() },
+    guardianLink: { findMany: vi.fn(), findFirst: vi.fn() },
+    notificationPreferences: { upsert: vi.fn(), findUnique: vi.fn() },
+    phoneVerification: { findUnique: vi.fn(), upsert: vi.fn() },
+    smsOptOut: { findUnique: vi.fn() },
+    kioskPin: { findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn(), upsert: vi.fn() },
+    attendancePolicy: { findFirst: vi.fn(), create: vi.fn(), update: vi.fn() },
+    athleteStatusRecord: { create: vi.fn() },
+    escalationRule: { create: vi.fn() },
+    escalationFiring: { findUnique: vi.fn(), update: vi.fn() },
+    absenceRequest: { findUnique: vi.fn(), create: vi.fn(), update: vi.fn() },
+    excuseRequest: { findUnique: vi.fn(), create: vi.fn(), update: vi.fn(), upsert: vi.fn(), deleteMany: vi.fn() },
+    eventRsvp: { findUnique: vi.fn(), upsert: vi.fn(), count: vi.fn(), findMany: vi.fn(), updateMany: vi.fn() },
+    excuseCategory: { findUnique: vi.fn() },
+    eventGroup: { findUnique: vi.fn() },
+    eventTemplate: { findUnique: vi.fn() },
+    venue: { findUnique: vi.fn(), findMany: vi.fn(), create: vi.fn() },
+    opponent: { findMany: vi.fn(), create: vi.fn() },
+    scheduledJob: { findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    $queryRaw: vi.fn(),
     $transaction: vi.fn((fn: (tx: any) => Promise<any>) => fn({
       invoice: { findUnique: vi.fn(), update: vi.fn() },
       payment: { create: vi.fn(), findFirst: vi.fn() },
@@ -47,14 +69,24 @@ vi.mock("../../email.js", () => ({
   sendInvoiceEmail: vi.fn().mockResolvedValue(undefined),
   sendPaymentReminderEmail: vi.fn().mockResolvedValue(undefined),
 }));
-vi.mock("../../s3.js", () => ({ generateProfilePictureUploadUrl: vi.fn() }));
+vi.mock("../../s3.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../../s3.js")>();
+  return {
+    ...actual,
+    generateProfilePictureUploadUrl: vi.fn(),
+    generateExcuseAttachmentUploadUrl: vi.fn(),
+    generateExcuseAttachmentDownloadUrl: vi.fn(),
+    getAttachmentContentType: vi.fn(),
+  };
+});
 vi.mock("../../utils/time.js", async (importOriginal) => {
   const actual = await importOriginal<typeof import("../../utils/time.js")>();
   return { ...actual, parseTimeString: vi.fn() };
 });
 vi.mock("../../services/markAbsent.js", () => ({ markAbsentForEndedEvents: vi.fn() }));
 vi.mock("../../notifications/sns.js", () => ({ registerPushToken: vi.fn(), sendPushToEndpoint: vi.fn() }));
-vi.mock("../../notifications/pushNotifications.js", () => ({ sendPushNotification: vi.fn() }));
+vi.mock("../../notifications/pushNotifications.js", () => ({ sendPushNotification: vi.fn().mockResolvedValue(undefined) }));
+vi.mock("../../notifications/eventUpdates.js", () => ({ notifyEventChange: vi.fn().mockResolvedValue(undefined) }));
 vi.mock("../../notifications/announcements.js", () => ({ broadcastAnnouncement: vi.fn() }));
 vi.mock("../../notifications/emailReports.js", () => ({ generateGuardianReport: vi.fn() }));
 vi.mock("../../notifications/emailNotifications.js", () => ({ sendExcuseStatusEmail: vi.fn() }));
@@ -75,6 +107,9 @@ vi.mock("stripe", () => ({
 
 import { resolvers } from "../../resolvers/index.js";
 import { prisma } from "../../db.js";
+import { StubSmsTransport, setSmsTransport } from "../../notifications/sms.js";
+import { getAttachmentContentType } from "../../s3.js";
+import { sendPushNotification } from "../../notifications/pushNotifications.js";
 
 // ─── Typed mocks ─────────────────────────────────────────────────────────────
 const mockOrgCreate = vi.mocked(prisma.organization.create);
@@ -93,6 +128,63 @@ const mockAthleteRecognitionDeleteMany = vi.mocked(prisma.athleteRecognition.del
 const mockInvoiceCreate = vi.mocked(prisma.invoice.create);
 const mockInvoiceFindUniqueOrThrow = vi.mocked(prisma.invoice.findUniqueOrThrow);
 const mockInvoiceUpdate = vi.mocked(prisma.invoice.update);
+const mockOrgMemberCount = vi.mocked(prisma.organizationMember.count);
+const mockConversationCreate = vi.mocked(prisma.conversation.create);
+const mockConversationFindFirst = vi.mocked(prisma.conversation.findFirst);
+const mockConversationFindUnique = vi.mocked(prisma.conversation.findUnique);
+const mockParticipantFindMany = vi.mocked(prisma.conversationParticipant.findMany);
+const mockParticipantCreateMany = vi.mocked(prisma.conversationParticipant.createMany);
+const mockUserFindMany = vi.mocked(prisma.user.findMany);
+const mockGuardianLinkFindMany = vi.mocked(prisma.guardianLink.findMany);
+const mockTeamFindMany = vi.mocked(prisma.team.findMany);
+const mockOrgMemberFindMany = vi.mocked(prisma.organizationMember.findMany);
+const mockTransaction = vi.mocked(prisma.$transaction);
+const mockUserFindUnique = vi.mocked(prisma.user.findUnique);
+const mockPrefsUpsert = vi.mocked(prisma.notificationPreferences.upsert);
+const mockPhoneVerificationFindUnique = vi.mocked(prisma.phoneVerification.findUnique);
+const mockPhoneVerificationUpsert = vi.mocked(prisma.phoneVerification.upsert);
+const mockSmsOptOutFindUnique = vi.mocked(prisma.smsOptOut.findUnique);
+const mockKioskPinFindUnique = vi.mocked(prisma.kioskPin.findUnique);
+const mockKioskPinUpdate = vi.mocked(prisma.kioskPin.update);
+const mockKioskPinUpdateMany = vi.mocked(prisma.kioskPin.updateMany);
+const mockKioskPinUpsert = vi.mocked(prisma.kioskPin.upsert);
+const mockAttendancePolicyFindFirst = vi.mocked(prisma.attendancePolicy.findFirst);
+const mockAttendancePolicyCreate = vi.mocked(prisma.attendancePolicy.create);
+const mockAttendancePolicyUpdate = vi.mocked(prisma.attendancePolicy.update);
+const mockAthleteStatusRecordCreate = vi.mocked(prisma.athleteStatusRecord.create);
+const mockEscalationRuleCreate = vi.mocked(prisma.escalationRule.create);
+const mockEscalationFiringFindUnique = vi.mocked(prisma.escalationFiring.findUnique);
+const mockEscalationFiringUpdate = vi.mocked(prisma.escalationFiring.update);
+const mockAbsenceRequestFindUnique = vi.mocked(prisma.absenceRequest.findUnique);
+const mockAbsenceRequestCreate = vi.mocked(prisma.absenceRequest.create);
+const mockAbsenceRequestUpdate = vi.mocked(prisma.absenceRequest.update);
+const mockCheckInUpdateMany = vi.mocked(prisma.checkIn.updateMany);
+const mockEventFindMany = vi.mocked(prisma.event.findMany);
+const mockTeamMemberFindMany = vi.mocked(prisma.teamMember.findMany);
+const mockGuardianLinkFindFirst = vi.mocked(prisma.guardianLink.findFirst);
+const mockEventFindUnique = vi.mocked(prisma.event.findUnique);
+const mockCheckInUpsert = vi.mocked(prisma.checkIn.upsert);
+const mockExcuseRequestFindUnique = vi.mocked(prisma.excuseRequest.findUnique);
+const mockExcuseRequestCreate = vi.mocked(prisma.excuseRequest.create);
+const mockExcuseCategoryFindUnique = vi.mocked(prisma.excuseCategory.findUnique);
+const mockGetAttachmentContentType = vi.mocked(getAttachmentContentType);
+const mockScheduledJobFindUnique = vi.mocked(prisma.scheduledJob.findUnique);
+const mockScheduledJobUpdate = vi.mocked(prisma.scheduledJob.update);
+const mockEventUpdate = vi.mocked(prisma.event.update);
+const mockRsvpFindUnique = vi.mocked(prisma.eventRsvp.findUnique);
+const mockRsvpUpsert = vi.mocked(prisma.eventRsvp.upsert);
+const mockRsvpCount = vi.mocked(prisma.eventRsvp.count);
+const mockRsvpFindMany = vi.mocked(prisma.eventRsvp.findMany);
+const mockRsvpUpdateMany = vi.mocked(prisma.eventRsvp.updateMany);
+const mockQueryRaw = vi.mocked(prisma.$queryRaw);
+const mockSendPush = vi.mocked(sendPushNotification);
+const mockEventGroupFindUnique = vi.mocked(prisma.eventGroup.findUnique);
+const mockEventTemplateFindUnique = vi.mocked(prisma.eventTemplate.findUnique);
+const mockEventCreate = vi.mocked(prisma.event.create);
+const mockVenueFindUnique = vi.mocked(prisma.venue.findUnique);
+const mockVenueFindMany = vi.mocked(prisma.venue.findMany);
+const mockVenueCreate = vi.mocked(prisma.venue.create);
+const mockOpponentFindMany = vi.mocked(prisma.opponent.findMany);
 
 const makeContext = (userId?: string) => ({
   userId,
@@ -101,7 +193,9 @@ const makeContext = (userId?: string) => ({
     team: { load: vi.fn() },
     organization: { load: vi.fn() },
     venue: { load: vi.fn() },
+    opponent: { load: vi.fn() },
     event: { load: vi.fn() },
+    eventGroup: { load: vi.fn() },
   },
 });
 
@@ -637,3 +731,1196 @@ describe("Mutation.disconnectStripeAccount", () => {
   });
 });
 
+
+// ─── startConversation ────────────────────────────────────────────────────────
+
+describe("Mutation.startConversation", () => {
+  const input = { organizationId: "org-1", participantIds: ["athlete-1"] };
+
+  it("reuses an existing direct thread between the same two people", async () => {
+    mockOrgMemberCount.mockResolvedValue(2);
+    mockConversationFindFirst.mockResolvedValue({ id: "conv-1" } as any);
+    mockConversationFindUnique.mockResolvedValue({ id: "conv-1", type: "DIRECT" } as any);
+
+    const result = await resolvers.Mutation.startConversation(null, { input }, makeContext("coach-1"));
+
+    expect(mockConversationCreate).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ id: "conv-1" });
+  });
+
+  it("copies a minor's guardians when a coach starts the thread", async () => {
+    mockOrgMemberCount.mockResolvedValue(2);
+    mockConversationFindFirst.mockResolvedValue(null);
+    mockConversationCreate.mockResolvedValue({ id: "conv-2" } as any);
+    mockParticipantFindMany.mockResolvedValue([
+      { id: "p1", userId: "coach-1", role: "MEMBER" },
+      { id: "p2", userId: "athlete-1", role: "MEMBER" },
+    ] as any);
+    mockUserFindMany.mockResolvedValue([
+      { id: "coach-1", dateOfBirth: null, organizationMemberships: [{ role: "COACH" }], memberships: [] },
+      { id: "athlete-1", dateOfBirth: new Date("2013-05-01"), organizationMemberships: [{ role: "ATHLETE" }], memberships: [] },
+    ] as any);
+    mockGuardianLinkFindMany.mockResolvedValue([{ guardianId: "parent-1", athleteId: "athlete-1" }] as any);
+
+    await resolvers.Mutation.startConversation(null, { input }, makeContext("coach-1"));
+
+    expect(mockConversationCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ type: "DIRECT", createdBy: "coach-1" }) })
+    );
+    expect(mockParticipantCreateMany).toHaveBeenCalledWith({
+      data: [{ conversationId: "conv-2", userId: "parent-1", role: "GUARDIAN" }],
+      skipDuplicates: true,
+    });
+  });
+
+  it("rejects participants outside the organization", async () => {
+    mockOrgMemberCount.mockResolvedValue(1);
+
+    await expect(
+      resolvers.Mutation.startConversation(null, { input }, makeContext("coach-1"))
+    ).rejects.toThrow("All participants must be members of this organization");
+    expect(mockConversationCreate).not.toHaveBeenCalled();
+  });
+});
+
+// ─── importRoster ─────────────────────────────────────────────────────────────
+describe("Mutation.importRoster", () => {
+  const csv = [
+    "Name,Email,DOB,Teams,Guardian Email",
+    "Sam Lee,sam@example.com,2012-03-04,U14 Girls,parent@example.com",
+    "Ari Chen,ari@example.com,2011-09-30,U15 Boys,",
+  ].join("\n");
+
+  beforeEach(() => {
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "ADMIN" } as any);
+    mockTeamFindMany.mockResolvedValue([{ id: "team-1", name: "U14 Girls" }] as any);
+    mockUserFindMany.mockResolvedValue([]);
+    mockOrgMemberFindMany.mockResolvedValue([]);
+  });
+
+  it("reports each row on a dry run without writing anything", async () => {
+    const result = await resolvers.Mutation.importRoster(
+      null,
+      { organizationId: "org-1", csv, dryRun: true },
+      makeContext("admin-1")
+    );
+
+    expect(result.committed).toBe(false);
+    expect(result.rows).toMatchObject([
+      { line: 2, status: "NEW_USER", errors: [] },
+      { line: 3, status: "ERROR", errors: ["Unknown team: U15 Boys"] },
+    ]);
+    expect(result.guardianInvites).toBe(1);
+    expect(mockTransaction).not.toHaveBeenCalled();
+  });
+
+  it("refuses to commit while any row has errors", async () => {
+    const result = await resolvers.Mutation.importRoster(
+      null,
+      { organizationId: "org-1", csv, dryRun: false },
+      makeContext("admin-1")
+    );
+
+    expect(result.committed).toBe(false);
+    expect(result.errorCount).toBe(1);
+    expect(mockTransaction).not.toHaveBeenCalled();
+    expect(mockAuditCreate).not.toHaveBeenCalled();
+  });
+
+  it("matches emergency contacts by their normalized phone number", async () => {
+    mockUserFindMany.mockResolvedValue([{ id: "athlete-1", email: "bo@example.com", dateOfBirth: null }] as any);
+    const tx = {
+      organizationMember: { upsert: vi.fn() },
+      teamMember: { findMany: vi.fn().mockResolvedValue([]) },
+      emergencyContact: { findMany: vi.fn().mockResolvedValue([{ phone: "5550100" }]), create: vi.fn() },
+    };
+    mockTransaction.mockImplementationOnce(((fn: any) => fn(tx)) as any);
+    const contacts = "First Name,Last Name,Email,Emergency Contact,Emergency Relationship,Emergency Phone\n";
+
+    const result = await resolvers.Mutation.importRoster(
+      null,
+      { organizationId: "org-1", csv: contacts + "Bo,Park,bo@example.com,Kim Park,Aunt,(555) 0100", dryRun: false },
+      makeContext("admin-1")
+    );
+
+    expect(result.committed).toBe(true);
+    expect(tx.emergencyContact.create).not.toHaveBeenCalled();
+  });
+
+  it("rejects non-admins", async () => {
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "COACH" } as any);
+
+    await expect(
+      resolvers.Mutation.importRoster(null, { organizationId: "org-1", csv }, makeContext("coach-1"))
+    ).rejects.toThrow("Insufficient permissions");
+  });
+});
+
+// ─── SMS ──────────────────────────────────────────────────────────────────────
+describe("Mutation.requestPhoneVerification", () => {
+  let transport: StubSmsTransport;
+
+  beforeEach(() => {
+    transport = new StubSmsTransport();
+    setSmsTransport(transport);
+    mockPhoneVerificationFindUnique.mockResolvedValue(null);
+    mockSmsOptOutFindUnique.mockResolvedValue(null);
+  });
+
+  it("texts a six-digit code and stores only its hash", async () => {
+    const result = await resolvers.Mutation.requestPhoneVerification(
+      null,
+      { phone: "(613) 555-0123" },
+      makeContext("user-1")
+    );
+
+    expect(result).toBe(true);
+    expect(transport.sent).toHaveLength(1);
+    expect(transport.sent[0].to).toBe("+16135550123");
+    const code = transport.sent[0].body.match(/\b(\d{6})\b/)?.[1];
+    expect(code).toBeDefined();
+
+    const saved = mockPhoneVerificationUpsert.mock.calls[0][0].create;
+    expect(saved).toMatchObject({ userId: "user-1", phone: "6135550123", attempts: 0 });
+    expect(saved.codeHash).not.toContain(code);
+  });
+
+  it("refuses numbers that replied STOP", async () => {
+    mockSmsOptOutFindUnique.mockResolvedValue({ phone: "+16135550123" } as any);
+
+    await expect(
+      resolvers.Mutation.requestPhoneVerification(null, { phone: "6135550123" }, makeContext("user-1"))
+    ).rejects.toThrow("opted out");
+    expect(transport.sent).toHaveLength(0);
+  });
+
+  it("rejects numbers that can't receive texts", async () => {
+    await expect(
+      resolvers.Mutation.requestPhoneVerification(null, { phone: "555-0123" }, makeContext("user-1"))
+    ).rejects.toThrow("Validation error");
+    expect(mockPhoneVerificationUpsert).not.toHaveBeenCalled();
+  });
+});
+
+describe("Mutation.updateNotificationPreferences", () => {
+  it("won't turn on texts until the phone number is verified", async () => {
+    mockUserFindUnique.mockResolvedValue({ phone: "6135550123", phoneVerifiedAt: null } as any);
+
+    await expect(
+      resolvers.Mutation.updateNotificationPreferences(null, { input: { smsEnabled: true } }, makeContext("user-1"))
+    ).rejects.toThrow("Verify your mobile number");
+    expect(mockPrefsUpsert).not.toHaveBeenCalled();
+  });
+
+  it("turns on texts for a verified number", async () => {
+    mockUserFindUnique.mockResolvedValue({ phone: "6135550123", phoneVerifiedAt: new Date() } as any);
+    mockPrefsUpsert.mockResolvedValue({ id: "prefs-1", smsEnabled: true } as any);
+
+    const result = await resolvers.Mutation.updateNotificationPreferences(
+      null,
+      { input: { smsEnabled: true } },
+      makeContext("user-1")
+    );
+
+    expect(result).toMatchObject({ smsEnabled: true });
+  });
+});
+
+// ─── Kiosk ────────────────────────────────────────────────────────────────────
+describe("Mutation.setKioskPin", () => {
+  it("lets athletes set their own PIN and stores only a hash", async () => {
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "ATHLETE" } as any);
+
+    const result = await resolvers.Mutation.setKioskPin(
+      null,
+      { organizationId: "org-1", userId: "athlete-1", pin: "4821" },
+      makeContext("athlete-1")
+    );
+
+    expect(result).toBe(true);
+    const saved = mockKioskPinUpsert.mock.calls[0][0].create;
+    expect(saved).toMatchObject({ userId: "athlete-1", organizationId: "org-1", failedAttempts: 0 });
+    expect(saved.pinHash).not.toContain("4821");
+  });
+
+  it("rejects PINs that aren't 4 to 6 digits", async () => {
+    await expect(
+      resolvers.Mutation.setKioskPin(
+        null,
+        { organizationId: "org-1", userId: "athlete-1", pin: "12ab" },
+        makeContext("athlete-1")
+      )
+    ).rejects.toThrow("Validation error");
+    expect(mockKioskPinUpsert).not.toHaveBeenCalled();
+  });
+
+  it("won't let another athlete set someone's PIN", async () => {
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "ATHLETE" } as any);
+    vi.mocked(prisma.guardianLink.findFirst).mockResolvedValue(null);
+
+    await expect(
+      resolvers.Mutation.setKioskPin(
+        null,
+        { organizationId: "org-1", userId: "athlete-1", pin: "4821" },
+        makeContext("athlete-2")
+      )
+    ).rejects.toThrow("Not authorized");
+  });
+});
+
+describe("Mutation.kioskCheckIn", () => {
+  const kioskContext = () => ({
+    ...makeContext(),
+    kioskDevice: { id: "kiosk-1", organizationId: "org-1", venueId: null } as any,
+  });
+
+  /** A stored PIN record for "4821", hashed the way setKioskPin does it. */
+  async function storedPin(overrides: object = {}) {
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "ATHLETE" } as any);
+    await resolvers.Mutation.setKioskPin(
+      null,
+      { organizationId: "org-1", userId: "athlete-1", pin: "4821" },
+      makeContext("athlete-1")
+    );
+    const { pinHash } = mockKioskPinUpsert.mock.calls[0][0].create;
+    return { id: "pin-1", pinHash, failedAttempts: 0, lockedUntil: null, ...overrides } as any;
+  }
+
+  it("refuses signed-in users; only kiosk devices can use it", async () => {
+    await expect(
+      resolvers.Mutation.kioskCheckIn(null, { userId: "athlete-1", pin: "4821" }, makeContext("coach-1"))
+    ).rejects.toThrow("Authentication required");
+  });
+
+  it("counts a wrong PIN against the athlete", async () => {
+    mockKioskPinFindUnique.mockResolvedValue(await storedPin());
+    mockKioskPinUpdate.mockResolvedValueOnce({ failedAttempts: 1 } as any);
+
+    await expect(
+      resolvers.Mutation.kioskCheckIn(null, { userId: "athlete-1", pin: "1111" }, kioskContext())
+    ).rejects.toThrow("Incorrect PIN");
+    expect(mockKioskPinUpdate).toHaveBeenCalledWith({
+      where: { id: "pin-1" },
+      data: { failedAttempts: { increment: 1 } },
+      select: { failedAttempts: true },
+    });
+    expect(mockKioskPinUpdateMany).not.toHaveBeenCalled();
+  });
+
+  it("locks the PIN after too many wrong guesses", async () => {
+    mockKioskPinFindUnique.mockResolvedValue(await storedPin({ failedAttempts: 4 }));
+    mockKioskPinUpdate.mockResolvedValueOnce({ failedAttempts: 5 } as any);
+
+    await expect(
+      resolvers.Mutation.kioskCheckIn(null, { userId: "athlete-1", pin: "1111" }, kioskContext())
+    ).rejects.toThrow("Incorrect PIN");
+    const lock = mockKioskPinUpdateMany.mock.calls[0][0] as any;
+    expect(lock.where).toEqual({ id: "pin-1", failedAttempts: { gte: 5 } });
+    const lockedUntil = lock.data.lockedUntil as Date;
+    expect(lockedUntil.getTime()).toBeGreaterThan(Date.now());
+
+    mockKioskPinFindUnique.mockResolvedValue(await storedPin({ lockedUntil }));
+    await expect(
+      resolvers.Mutation.kioskCheckIn(null, { userId: "athlete-1", pin: "4821" }, kioskContext())
+    ).rejects.toThrow("Too many incorrect PINs");
+  });
+});
+
+// ─── setAttendancePolicy ──────────────────────────────────────────────────────
+describe("Mutation.setAttendancePolicy", () => {
+  it("creates the org default, storing unset fields as null", async () => {
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "ADMIN" } as any);
+    mockAttendancePolicyFindFirst.mockResolvedValue(null);
+    mockAttendancePolicyCreate.mockResolvedValue({ id: "policy-1" } as any);
+
+    await resolvers.Mutation.setAttendancePolicy(
+      null,
+      { input: { organizationId: "org-1", lateGraceMinutes: 5 } },
+      makeContext("admin-1")
+    );
+
+    expect(mockAttendancePolicyFindFirst).toHaveBeenCalledWith({
+      where: { organizationId: "org-1", teamId: null, eventType: null },
+    });
+    expect(mockAttendancePolicyCreate).toHaveBeenCalledWith({
+      data: {
+        organizationId: "org-1",
+        teamId: null,
+        eventType: null,
+        checkInWindowMinutes: null,
+        lateGraceMinutes: 5,
+        minPresencePercent: null,
+      },
+    });
+  });
+
+  it("replaces the existing policy for the same scope", async () => {
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "OWNER" } as any);
+    vi.mocked(prisma.team.findUnique).mockResolvedValue({ organizationId: "org-1" } as any);
+    mockAttendancePolicyFindFirst.mockResolvedValue({ id: "policy-1" } as any);
+    mockAttendancePolicyUpdate.mockResolvedValue({ id: "policy-1" } as any);
+
+    await resolvers.Mutation.setAttendancePolicy(
+      null,
+      { input: { organizationId: "org-1", teamId: "team-1", eventType: "PRACTICE", minPresencePercent: 75 } },
+      makeContext("owner-1")
+    );
+
+    expect(mockAttendancePolicyCreate).not.toHaveBeenCalled();
+    expect(mockAttendancePolicyUpdate).toHaveBeenCalledWith({
+      where: { id: "policy-1" },
+      data: { checkInWindowMinutes: null, lateGraceMinutes: null, minPresencePercent: 75 },
+    });
+  });
+
+  it("can target games", async () => {
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "ADMIN" } as any);
+    mockAttendancePolicyFindFirst.mockResolvedValue(null);
+    mockAttendancePolicyCreate.mockResolvedValue({ id: "policy-2" } as any);
+
+    await resolvers.Mutation.setAttendancePolicy(
+      null,
+      { input: { organizationId: "org-1", eventType: "GAME", checkInWindowMinutes: 60 } },
+      makeContext("admin-1")
+    );
+
+    expect(mockAttendancePolicyCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ eventType: "GAME", checkInWindowMinutes: 60 }),
+    });
+  });
+
+  it("rejects a presence minimum over 100%", async () => {
+    await expect(
+      resolvers.Mutation.setAttendancePolicy(
+        null,
+        { input: { organizationId: "org-1", minPresencePercent: 120 } },
+        makeContext("admin-1")
+      )
+    ).rejects.toThrow("Validation error");
+  });
+
+  it("is limited to owners and admins", async () => {
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "COACH" } as any);
+
+    await expect(
+      resolvers.Mutation.setAttendancePolicy(
+        null,
+        { input: { organizationId: "org-1", lateGraceMinutes: 5 } },
+        makeContext("coach-1")
+      )
+    ).rejects.toThrow("Insufficient permissions");
+    expect(mockAttendancePolicyCreate).not.toHaveBeenCalled();
+  });
+});
+
+describe("Mutation.createEscalationRule", () => {
+  it("requires a period for absence rules", async () => {
+    await expect(
+      resolvers.Mutation.createEscalationRule(
+        null,
+        { input: { organizationId: "org-1", name: "Three strikes", trigger: "ABSENCES_IN_PERIOD", threshold: 3 } },
+        makeContext("admin-1")
+      )
+    ).rejects.toThrow("Absence rules need a period in days");
+    expect(mockEscalationRuleCreate).not.toHaveBeenCalled();
+  });
+});
+
+describe("Mutation.resolveEscalation", () => {
+  const firing = {
+    id: "firing-1",
+    organizationId: "org-1",
+    userId: "athlete-1",
+    detail: "3 absences in the last 30 days",
+    proposedStatus: "SUSPENDED",
+    status: "OPEN",
+    rule: { name: "Three strikes" },
+  };
+
+  it("applies the proposed status through the athlete status history", async () => {
+    mockEscalationFiringFindUnique.mockResolvedValue(firing as any);
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "MANAGER" } as any);
+    mockTransaction.mockResolvedValueOnce([{}] as any);
+    mockEscalationFiringUpdate.mockResolvedValue({ ...firing, status: "RESOLVED" } as any);
+
+    await resolvers.Mutation.resolveEscalation(
+      null,
+      { id: "firing-1", applyProposedStatus: true },
+      makeContext("manager-1")
+    );
+
+    expect(mockOrgMemberUpdate).toHaveBeenCalledWith({
+      where: { userId_organizationId: { userId: "athlete-1", organizationId: "org-1" } },
+      data: { athleteStatus: "SUSPENDED" },
+    });
+    expect(mockAthleteStatusRecordCreate).toHaveBeenCalledWith({
+      data: {
+        userId: "athlete-1",
+        organizationId: "org-1",
+        status: "SUSPENDED",
+        note: "Three strikes: 3 absences in the last 30 days",
+        changedByUserId: "manager-1",
+      },
+    });
+    expect(mockEscalationFiringUpdate).toHaveBeenCalledWith({
+      where: { id: "firing-1" },
+      data: expect.objectContaining({ status: "RESOLVED", resolvedByUserId: "manager-1" }),
+    });
+  });
+
+  it("lets coaches close the follow-up but not change the status", async () => {
+    mockEscalationFiringFindUnique.mockResolvedValue(firing as any);
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "COACH" } as any);
+
+    await expect(
+      resolvers.Mutation.resolveEscalation(null, { id: "firing-1", applyProposedStatus: true }, makeContext("coach-1"))
+    ).rejects.toThrow("Insufficient permissions");
+    expect(mockAthleteStatusRecordCreate).not.toHaveBeenCalled();
+    expect(mockEscalationFiringUpdate).not.toHaveBeenCalled();
+  });
+
+  it("rejects escalations that were already closed", async () => {
+    mockEscalationFiringFindUnique.mockResolvedValue({ ...firing, status: "DISMISSED" } as any);
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "ADMIN" } as any);
+
+    await expect(
+      resolvers.Mutation.resolveEscalation(null, { id: "firing-1" }, makeContext("admin-1"))
+    ).rejects.toThrow("Escalation is not open");
+  });
+});
+
+// ─── Absence requests ────────────────────────────────────────────────────────
+describe("Mutation.createAbsenceRequest", () => {
+  const input = {
+    userId: "athlete-1",
+    organizationId: "org-1",
+    startDate: "2026-11-02",
+    endDate: "2026-11-15",
+    reason: "Family trip",
+    teamIds: ["team-1"],
+  };
+
+  it("lets a guardian file a ranged request for their athlete's teams", async () => {
+    mockGuardianLinkFindFirst.mockResolvedValue({ id: "link-1" } as any);
+    mockOrgMemberFindUnique.mockResolvedValue({ id: "member-1" } as any);
+    mockTeamMemberFindMany.mockResolvedValue([{ teamId: "team-1" }] as any);
+    mockAbsenceRequestCreate.mockResolvedValue({ id: "absence-1" } as any);
+
+    await resolvers.Mutation.createAbsenceRequest(null, { input }, makeContext("guardian-1"));
+
+    expect(mockAbsenceRequestCreate).toHaveBeenCalledWith({
+      data: {
+        userId: "athlete-1",
+        organizationId: "org-1",
+        startDate: new Date("2026-11-02T12:00:00.000Z"),
+        endDate: new Date("2026-11-15T12:00:00.000Z"),
+        reason: "Family trip",
+        requestedByUserId: "guardian-1",
+        teams: { connect: [{ id: "team-1" }] },
+      },
+      include: { teams: true },
+    });
+  });
+
+  it("rejects teams the athlete isn't on", async () => {
+    mockOrgMemberFindUnique.mockResolvedValue({ id: "member-1" } as any);
+    mockTeamMemberFindMany.mockResolvedValue([] as any);
+
+    await expect(
+      resolvers.Mutation.createAbsenceRequest(null, { input }, makeContext("athlete-1"))
+    ).rejects.toThrow("Athlete is not on all of the selected teams");
+    expect(mockAbsenceRequestCreate).not.toHaveBeenCalled();
+  });
+
+  it("rejects an end date before the start date", async () => {
+    await expect(
+      resolvers.Mutation.createAbsenceRequest(
+        null,
+        { input: { ...input, endDate: "2026-11-01" } },
+        makeContext("athlete-1")
+      )
+    ).rejects.toThrow("End date must be on or after start date");
+  });
+});
+
+describe("Mutation.reviewAbsenceRequest", () => {
+  const absence = {
+    id: "absence-1",
+    userId: "athlete-1",
+    organizationId: "org-1",
+    startDate: new Date("2026-10-12T12:00:00.000Z"),
+    endDate: new Date("2026-10-25T12:00:00.000Z"),
+    reason: "Family trip",
+    status: "PENDING",
+    teams: [{ id: "team-1" }],
+  };
+
+  it("excuses covered events that were already marked absent when approved", async () => {
+    mockAbsenceRequestFindUnique.mockResolvedValue(absence as any);
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "COACH" } as any);
+    mockAbsenceRequestUpdate.mockResolvedValue({ ...absence, status: "APPROVED" } as any);
+    mockEventFindMany.mockResolvedValue([{ id: "event-1" }, { id: "event-2" }] as any);
+    mockCheckInUpdateMany.mockResolvedValue({ count: 1 } as any);
+
+    await resolvers.Mutation.reviewAbsenceRequest(null, { id: "absence-1", status: "APPROVED" }, makeContext("coach-1"));
+
+    expect(mockAbsenceRequestUpdate).toHaveBeenCalledWith({
+      where: { id: "absence-1" },
+      data: expect.objectContaining({ status: "APPROVED", reviewedByUserId: "coach-1" }),
+      include: { teams: true },
+    });
+    expect(mockCheckInUpdateMany).toHaveBeenCalledWith({
+      where: { userId: "athlete-1", eventId: { in: ["event-1", "event-2"] }, status: "ABSENT", checkInTime: null },
+      data: { status: "EXCUSED" },
+    });
+  });
+
+  it("can only be reviewed once", async () => {
+    mockAbsenceRequestFindUnique.mockResolvedValue({ ...absence, status: "DENIED" } as any);
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "COACH" } as any);
+
+    await expect(
+      resolvers.Mutation.reviewAbsenceRequest(null, { id: "absence-1", status: "APPROVED" }, makeContext("coach-1"))
+    ).rejects.toThrow("Absence request has already been reviewed");
+    expect(mockAbsenceRequestUpdate).not.toHaveBeenCalled();
+    expect(mockCheckInUpdateMany).not.toHaveBeenCalled();
+  });
+});
+
+// ─── Excuse categories and attachments ───────────────────────────────────────
+describe("Mutation.createExcuseRequest", () => {
+  const doctorsNote = {
+    key: "excuse-attachments/athlete-1/note.pdf",
+    fileName: "doctors-note.pdf",
+    contentType: "application/pdf",
+  };
+  const illness = {
+    id: "cat-1",
+    organizationId: "org-1",
+    name: "Illness",
+    autoApprove: "WITH_ATTACHMENT",
+    requiresAttachment: false,
+    isActive: true,
+  };
+
+  it("auto-approves a category's excuse with a document and records it as EXCUSED", async () => {
+    mockGetAttachmentContentType.mockResolvedValue("application/pdf");
+    mockEventFindUnique.mockResolvedValue({ organizationId: "org-1" } as any);
+    mockExcuseCategoryFindUnique.mockResolvedValue(illness as any);
+    mockExcuseRequestFindUnique.mockResolvedValue(null);
+    mockExcuseRequestCreate.mockResolvedValue({ id: "excuse-1", userId: "athlete-1", eventId: "event-1" } as any);
+
+    await resolvers.Mutation.createExcuseRequest(
+      null,
+      {
+        input: {
+          userId: "athlete-1",
+          eventId: "event-1",
+          reason: "Flu",
+          categoryId: "cat-1",
+          attachments: [doctorsNote],
+        },
+      },
+      makeContext("athlete-1")
+    );
+
+    expect(mockExcuseRequestCreate).toHaveBeenCalledWith({
+      data: {
+        userId: "athlete-1",
+        eventId: "event-1",
+        reason: "Flu",
+        categoryId: "cat-1",
+        status: "APPROVED",
+        autoApproved: true,
+        attachments: { create: [{ ...doctorsNote, uploadedByUserId: "athlete-1" }] },
+        attemptCount: 1,
+      },
+    });
+    expect(mockCheckInUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId_eventId: { userId: "athlete-1", eventId: "event-1" } },
+        create: expect.objectContaining({ status: "EXCUSED" }),
+      })
+    );
+  });
+
+  it("leaves the excuse pending without a document", async () => {
+    mockEventFindUnique.mockResolvedValue({ organizationId: "org-1" } as any);
+    mockExcuseCategoryFindUnique.mockResolvedValue(illness as any);
+    mockExcuseRequestFindUnique.mockResolvedValue(null);
+    mockExcuseRequestCreate.mockResolvedValue({ id: "excuse-1", userId: "athlete-1", eventId: "event-1" } as any);
+
+    await resolvers.Mutation.createExcuseRequest(
+      null,
+      { input: { userId: "athlete-1", eventId: "event-1", reason: "Flu", categoryId: "cat-1" } },
+      makeContext("athlete-1")
+    );
+
+    expect(mockExcuseRequestCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ status: "PENDING", autoApproved: false }),
+    });
+    expect(mockCheckInUpsert).not.toHaveBeenCalled();
+  });
+
+  it("rejects attachments uploaded by someone else", async () => {
+    await expect(
+      resolvers.Mutation.createExcuseRequest(
+        null,
+        {
+          input: {
+            userId: "athlete-1",
+            eventId: "event-1",
+            reason: "Flu",
+            attachments: [{ ...doctorsNote, key: "excuse-attachments/someone-else/note.pdf" }],
+          },
+        },
+        makeContext("athlete-1")
+      )
+    ).rejects.toThrow("Invalid attachment");
+    expect(mockExcuseRequestCreate).not.toHaveBeenCalled();
+  });
+
+  it("rejects attachment keys that were never uploaded", async () => {
+    mockGetAttachmentContentType.mockResolvedValue(null);
+
+    await expect(
+      resolvers.Mutation.createExcuseRequest(
+        null,
+        {
+          input: { userId: "athlete-1", eventId: "event-1", reason: "Flu", categoryId: "cat-1", attachments: [doctorsNote] },
+        },
+        makeContext("athlete-1")
+      )
+    ).rejects.toThrow("doctors-note.pdf was never uploaded");
+    expect(mockExcuseRequestCreate).not.toHaveBeenCalled();
+    expect(mockCheckInUpsert).not.toHaveBeenCalled();
+  });
+
+  it("rejects an upload whose stored type differs from the declared one", async () => {
+    mockGetAttachmentContentType.mockResolvedValue("text/html");
+
+    await expect(
+      resolvers.Mutation.createExcuseRequest(
+        null,
+        { input: { userId: "athlete-1", eventId: "event-1", reason: "Flu", attachments: [doctorsNote] } },
+        makeContext("athlete-1")
+      )
+    ).rejects.toThrow("Invalid attachment");
+    expect(mockExcuseRequestCreate).not.toHaveBeenCalled();
+  });
+});
+
+// ─── Scheduled jobs ──────────────────────────────────────────────────────────
+describe("Mutation.setScheduledJobEnabled", () => {
+  beforeEach(() => {
+    vi.stubEnv("PLATFORM_ADMIN_EMAILS", "ops@athletiq.test, other@athletiq.test");
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("throws FORBIDDEN for users who aren't platform admins", async () => {
+    mockUserFindUnique.mockResolvedValue({ email: "owner@club.test" } as any);
+
+    await expect(
+      resolvers.Mutation.setScheduledJobEnabled(null, { name: "event-reminders", enabled: false }, makeContext("user-1"))
+    ).rejects.toEqual(
+      expect.objectContaining({ extensions: expect.objectContaining({ code: "FORBIDDEN" }) })
+    );
+    expect(mockScheduledJobUpdate).not.toHaveBeenCalled();
+  });
+
+  it("drops a pending retry when pausing a job", async () => {
+    mockUserFindUnique.mockResolvedValue({ email: "Ops@Athletiq.test" } as any);
+    mockScheduledJobFindUnique.mockResolvedValue({ name: "event-reminders", isEnabled: true } as any);
+    mockScheduledJobUpdate.mockResolvedValue({ name: "event-reminders", isEnabled: false } as any);
+
+    await resolvers.Mutation.setScheduledJobEnabled(null, { name: "event-reminders", enabled: false }, makeContext("user-1"));
+
+    expect(mockScheduledJobUpdate).toHaveBeenCalledWith({
+      where: { name: "event-reminders" },
+      data: { isEnabled: false, retryAt: null, retryAttempt: 0 },
+    });
+    expect(mockAuditCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: "SET_SCHEDULED_JOB_ENABLED", targetId: "event-reminders" }),
+    });
+  });
+});
+
+describe("Mutation.triggerScheduledJob", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("rejects jobs this server doesn't run", async () => {
+    vi.stubEnv("PLATFORM_ADMIN_EMAILS", "ops@athletiq.test");
+    mockUserFindUnique.mockResolvedValue({ email: "ops@athletiq.test" } as any);
+
+    await expect(
+      resolvers.Mutation.triggerScheduledJob(null, { name: "no-such-job" }, makeContext("user-1"))
+    ).rejects.toThrow("Scheduled job not found");
+  });
+});
+
+// ─── Games ───────────────────────────────────────────────────────────────────
+describe("Mutation.recordGameResult", () => {
+  const game = {
+    id: "game-1",
+    type: "GAME",
+    status: "SCHEDULED",
+    organizationId: "org-1",
+    teamId: "team-1",
+    date: new Date("2026-10-10T12:00:00.000Z"),
+    endDate: null,
+    startTime: "6:00 PM",
+    endTime: "8:00 PM",
+    teamScore: null,
+    opponentScore: null,
+    organization: { timezone: "America/Chicago" },
+    venue: null,
+  };
+
+  it("stores the score and audits it once the game has started", async () => {
+    mockEventFindUnique.mockResolvedValue(game as any);
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "COACH" } as any);
+    mockEventUpdate.mockResolvedValue({ ...game, teamScore: 3, opponentScore: 1 } as any);
+
+    await resolvers.Mutation.recordGameResult(
+      null,
+      { eventId: "game-1", teamScore: 3, opponentScore: 1 },
+      makeContext("coach-1")
+    );
+
+    expect(mockEventUpdate).toHaveBeenCalledWith({
+      where: { id: "game-1" },
+      data: { teamScore: 3, opponentScore: 1, resultRecordedAt: expect.any(Date) },
+    });
+    expect(mockAuditCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: "RECORD_GAME_RESULT", targetId: "game-1" }),
+    });
+  });
+
+  it("rejects scores for games that haven't started", async () => {
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    tomorrow.setUTCHours(12, 0, 0, 0);
+    mockEventFindUnique.mockResolvedValue({ ...game, date: tomorrow } as any);
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "COACH" } as any);
+
+    await expect(
+      resolvers.Mutation.recordGameResult(null, { eventId: "game-1", teamScore: 1, opponentScore: 0 }, makeContext("coach-1"))
+    ).rejects.toThrow("Scores can be entered once the game has started");
+    expect(mockEventUpdate).not.toHaveBeenCalled();
+  });
+
+  it("only scores GAME events", async () => {
+    mockEventFindUnique.mockResolvedValue({ ...game, type: "PRACTICE" } as any);
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "COACH" } as any);
+
+    await expect(
+      resolvers.Mutation.recordGameResult(null, { eventId: "game-1", teamScore: 1, opponentScore: 0 }, makeContext("coach-1"))
+    ).rejects.toThrow("Only games have scores");
+  });
+});
+
+// ─── upsertRsvp ───────────────────────────────────────────────────────────────
+describe("Mutation.upsertRsvp", () => {
+  const clinic = { organizationId: "org-1", capacity: 2, rsvpDeadline: null };
+  const input = { userId: "athlete-1", eventId: "event-1", status: "GOING" as const };
+  // RSVP writes run in a transaction; hand it the mocked client
+  const runTransaction = () => mockTransaction.mockImplementationOnce(((fn: (tx: any) => Promise<any>) => fn(prisma)) as any);
+
+  it("waitlists a GOING response once the event is full", async () => {
+    runTransaction();
+    mockEventFindUnique.mockResolvedValue(clinic as any);
+    mockRsvpFindUnique.mockResolvedValue(null);
+    mockRsvpCount.mockResolvedValue(2);
+    mockRsvpUpsert.mockResolvedValue({ id: "rsvp-1", status: "WAITLISTED" } as any);
+
+    await resolvers.Mutation.upsertRsvp(null, { input }, makeContext("athlete-1"));
+
+    expect(mockRsvpUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({ status: "WAITLISTED", waitlistedAt: expect.any(Date) }),
+      })
+    );
+    // The event row is locked before counting
+    expect(mockQueryRaw.mock.invocationCallOrder[0]).toBeLessThan(mockRsvpCount.mock.invocationCallOrder[0]);
+  });
+
+  it("rejects changes after the RSVP deadline", async () => {
+    mockEventFindUnique.mockResolvedValue({ ...clinic, rsvpDeadline: new Date(Date.now() - 60_000) } as any);
+
+    await expect(resolvers.Mutation.upsertRsvp(null, { input }, makeContext("athlete-1"))).rejects.toThrow(
+      "RSVPs for this event are closed"
+    );
+    expect(mockRsvpUpsert).not.toHaveBeenCalled();
+  });
+
+  it("promotes the first waitlisted athlete when a spot opens", async () => {
+    runTransaction();
+    mockEventFindUnique
+      .mockResolvedValueOnce(clinic as any)
+      .mockResolvedValueOnce({ title: "Clinic", capacity: 2, status: "SCHEDULED" } as any);
+    mockRsvpFindUnique.mockResolvedValue({ status: "GOING" } as any);
+    mockRsvpUpsert.mockResolvedValue({ id: "rsvp-1", status: "NOT_GOING" } as any);
+    mockRsvpCount.mockResolvedValue(1);
+    mockRsvpFindMany.mockResolvedValue([{ id: "rsvp-2", userId: "athlete-2" }] as any);
+    mockRsvpUpdateMany.mockResolvedValue({ count: 1 });
+
+    await resolvers.Mutation.upsertRsvp(null, { input: { ...input, status: "NOT_GOING" } }, makeContext("athlete-1"));
+
+    expect(mockRsvpFindMany).toHaveBeenCalledWith(expect.objectContaining({ take: 1 }));
+    expect(mockRsvpUpdateMany).toHaveBeenCalledWith({
+      where: { id: "rsvp-2", status: "WAITLISTED" },
+      data: { status: "GOING", waitlistedAt: null },
+    });
+    expect(mockSendPush).toHaveBeenCalledWith("athlete-2", "You're in: Clinic", expect.any(String), expect.anything());
+  });
+
+  it("only notifies athletes whose promotion went through", async () => {
+    runTransaction();
+    mockEventFindUnique
+      .mockResolvedValueOnce(clinic as any)
+      .mockResolvedValueOnce({ title: "Clinic", capacity: 3, status: "SCHEDULED" } as any);
+    mockRsvpFindUnique.mockResolvedValue({ status: "GOING" } as any);
+    mockRsvpUpsert.mockResolvedValue({ id: "rsvp-1", status: "NOT_GOING" } as any);
+    mockRsvpCount.mockResolvedValue(1);
+    mockRsvpFindMany.mockResolvedValue([
+      { id: "rsvp-2", userId: "athlete-2" },
+      { id: "rsvp-3", userId: "athlete-3" },
+    ] as any);
+    // athlete-2 withdrew in the meantime
+    mockRsvpUpdateMany.mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 1 });
+
+    await resolvers.Mutation.upsertRsvp(null, { input: { ...input, status: "NOT_GOING" } }, makeContext("athlete-1"));
+
+    expect(mockSendPush).toHaveBeenCalledTimes(1);
+    expect(mockSendPush).toHaveBeenCalledWith("athlete-3", "You're in: Clinic", expect.any(String), expect.anything());
+  });
+
+  it("lets coaches override a full event and audits it", async () => {
+    runTransaction();
+    mockEventFindUnique.mockResolvedValue(clinic as any);
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "COACH" } as any);
+    mockRsvpFindUnique.mockResolvedValue({ status: "WAITLISTED" } as any);
+    mockRsvpUpsert.mockResolvedValue({ id: "rsvp-1", status: "GOING" } as any);
+
+    await resolvers.Mutation.upsertRsvp(null, { input: { ...input, override: true } }, makeContext("coach-1"));
+
+    expect(mockRsvpCount).not.toHaveBeenCalled();
+    expect(mockRsvpUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({ update: expect.objectContaining({ status: "GOING", waitlistedAt: null }) })
+    );
+    expect(mockAuditCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: "OVERRIDE_RSVP", actorId: "coach-1" }),
+    });
+  });
+});
+
+// ─── Tournaments ──────────────────────────────────────────────────────────────
+describe("Mutation.rsvpEventGroup", () => {
+  const day = (offset: number) => new Date(Date.now() + offset * 24 * 60 * 60 * 1000);
+  const session = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    organizationId: "org-1",
+    date: day(3),
+    endDate: null,
+    startTime: "9:00 AM",
+    endTime: "11:00 AM",
+    capacity: null,
+    rsvpDeadline: null,
+    organization: { timezone: "UTC" },
+    venue: null,
+    ...overrides,
+  });
+  const args = { eventGroupId: "group-1", userId: "athlete-1", status: "GOING" as const };
+
+  beforeEach(() => {
+    mockEventGroupFindUnique.mockResolvedValue({ id: "group-1", organizationId: "org-1" } as any);
+    mockTeamMemberFindMany.mockResolvedValue([{ teamId: "team-1" }] as any);
+    mockRsvpFindUnique.mockResolvedValue(null);
+    mockRsvpUpsert.mockImplementation((({ create }: any) => Promise.resolve({ ...create })) as any);
+  });
+
+  it("RSVPs to every open session and skips closed or started ones", async () => {
+    // Each session's RSVP is saved in its own transaction
+    for (let i = 0; i < 2; i++) {
+      mockTransaction.mockImplementationOnce(((fn: (tx: any) => Promise<any>) => fn(prisma)) as any);
+    }
+    mockEventFindMany.mockResolvedValue([
+      session("day-1"),
+      session("day-2", { date: day(4) }),
+      session("closed", { rsvpDeadline: day(-1) }),
+      session("started", { date: day(-1) }),
+    ] as any);
+
+    const rsvps = await resolvers.Mutation.rsvpEventGroup(null, args, makeContext("athlete-1"));
+
+    expect(rsvps.map((r: any) => r.eventId)).toEqual(["day-1", "day-2"]);
+    expect(mockEventFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          eventGroupId: "group-1",
+          status: "SCHEDULED",
+          NOT: expect.arrayContaining([{ excludedAthletes: { some: { userId: "athlete-1" } } }]),
+        }),
+      })
+    );
+  });
+
+  it("rejects RSVPs for another athlete without a guardian link", async () => {
+    mockGuardianLinkFindFirst.mockResolvedValue(null);
+
+    await expect(resolvers.Mutation.rsvpEventGroup(null, args, makeContext("someone-else"))).rejects.toThrow(
+      "Not authorized to RSVP for this user"
+    );
+    expect(mockRsvpUpsert).not.toHaveBeenCalled();
+  });
+
+  it("fails when no session is taking RSVPs", async () => {
+    mockEventFindMany.mockResolvedValue([session("closed", { rsvpDeadline: day(-1) })] as any);
+
+    await expect(resolvers.Mutation.rsvpEventGroup(null, args, makeContext("athlete-1"))).rejects.toThrow(
+      "No upcoming sessions in this tournament are taking RSVPs"
+    );
+  });
+});
+
+describe("Mutation.setGameBracket", () => {
+  it("won't place a game in a pool and the bracket at once", async () => {
+    mockEventFindUnique.mockResolvedValue({ id: "game-1", organizationId: "org-1", type: "GAME", eventGroupId: "group-1" } as any);
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "COACH" } as any);
+
+    await expect(
+      resolvers.Mutation.setGameBracket(
+        null,
+        { eventId: "game-1", input: { pool: "Pool A", bracketRound: 1 } },
+        makeContext("coach-1")
+      )
+    ).rejects.toThrow("A game is either in a pool or in the bracket, not both");
+    expect(mockEventUpdate).not.toHaveBeenCalled();
+  });
+});
+
+describe("Mutation.createEvent from a template", () => {
+  const template = {
+    id: "template-1",
+    organizationId: "org-1",
+    teamId: "team-1",
+    title: "Team Practice",
+    type: "PRACTICE",
+    durationMinutes: 90,
+    venueId: null,
+    location: "Main Gym",
+    description: null,
+    reminderMinutes: 30,
+    includedAthleteIds: ["guest-1"],
+    excludedAthleteIds: [],
+    staffUserIds: ["coach-2", "left-org"],
+  };
+  const input = { templateId: "template-1", organizationId: "org-1", date: "2026-11-02", startTime: "5:30 PM", allowConflicts: true };
+
+  beforeEach(() => {
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "COACH" } as any);
+    mockEventTemplateFindUnique.mockResolvedValue(template as any);
+    mockOrgMemberFindMany.mockImplementation((({ where }: any) =>
+      Promise.resolve(
+        where.userId.in.filter((id: string) => id !== "left-org").map((userId: string) => ({ userId }))
+      )) as any);
+    mockEventCreate.mockImplementation((({ data }: any) => Promise.resolve({ id: "event-1", ...data })) as any);
+  });
+
+  it("fills the event from the template and skips staff who left", async () => {
+    await resolvers.Mutation.createEvent(null, { input }, makeContext("coach-1"));
+
+    expect(mockEventCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        title: "Team Practice",
+        type: "PRACTICE",
+        startTime: "5:30 PM",
+        endTime: "7:00 PM",
+        teamId: "team-1",
+        location: "Main Gym",
+        reminderMinutes: 30,
+        includedAthletes: { create: [{ userId: "guest-1" }] },
+        staff: { create: [{ userId: "coach-2" }] },
+      }),
+    });
+  });
+
+  it("rejects a template from another organization", async () => {
+    mockEventTemplateFindUnique.mockResolvedValue({ ...template, organizationId: "org-2" } as any);
+
+    await expect(resolvers.Mutation.createEvent(null, { input }, makeContext("coach-1"))).rejects.toThrow(
+      "Template not found"
+    );
+    expect(mockEventCreate).not.toHaveBeenCalled();
+  });
+});
+
+describe("Mutation.rescheduleEvent", () => {
+  const event = {
+    id: "event-1",
+    organizationId: "org-1",
+    status: "SCHEDULED",
+    date: new Date("2026-11-02T12:00:00.000Z"),
+    endDate: null,
+    startTime: "5:30 PM",
+    endTime: "7:00 PM",
+    teamId: null,
+    venueId: "venue-1",
+    recurringEventId: null,
+    participatingTeams: [],
+  };
+  const input = { date: "2026-11-04", startTime: "6:00 PM", endTime: "7:30 PM" };
+
+  beforeEach(() => {
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "COACH" } as any);
+    mockEventFindUnique.mockResolvedValue(event as any);
+    mockOrgFindUnique.mockResolvedValue({ timezone: "America/Toronto" } as any);
+    mockVenueFindUnique.mockResolvedValue({ timezone: null } as any);
+    mockEventFindMany.mockResolvedValue([
+      {
+        ...event,
+        id: "event-2",
+        title: "U14 Practice",
+        date: new Date("2026-11-04T12:00:00.000Z"),
+        venue: { timezone: null },
+        organization: { timezone: "America/Toronto" },
+      },
+    ] as any);
+  });
+
+  it("rejects moving the event onto a venue slot that's already booked", async () => {
+    await expect(
+      resolvers.Mutation.rescheduleEvent(null, { id: "event-1", input }, makeContext("coach-1"))
+    ).rejects.toThrow('Scheduling conflict: "U14 Practice" on 2026-11-04 5:30 PM–7:00 PM (venue already booked)');
+    expect(mockEventFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ id: { notIn: ["event-1"] } }) })
+    );
+    expect(mockEventUpdate).not.toHaveBeenCalled();
+  });
+
+  it("books over the conflict with allowConflicts", async () => {
+    mockTransaction.mockImplementationOnce(((fn: any) => fn(prisma)) as any);
+    mockEventUpdate.mockResolvedValue({ id: "event-1" } as any);
+
+    await resolvers.Mutation.rescheduleEvent(
+      null,
+      { id: "event-1", input: { ...input, allowConflicts: true } },
+      makeContext("coach-1")
+    );
+    expect(mockEventFindMany).not.toHaveBeenCalled();
+    expect(mockEventUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: "SCHEDULED", startTime: "6:00 PM" }) })
+    );
+  });
+});
+
+describe("Mutation.importSchedule", () => {
+  const ics = [
+    "BEGIN:VCALENDAR",
+    "BEGIN:VEVENT",
+    "UID:game-17",
+    "SUMMARY:U12 Hawks vs Lakers",
+    "DTSTART:20261024T220000Z",
+    "DTEND:20261025T000000Z",
+    "LOCATION:Riverside Park Field 2",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "UID:game-18",
+    "SUMMARY:Tigers vs U12 Hawks",
+    "DTSTART:20261031T170000Z",
+    "DTEND:20261031T190000Z",
+    "LOCATION:Lakeside Arena\\, 4 Shore Rd",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+
+  beforeEach(() => {
+    mockOrgMemberFindUnique.mockResolvedValue({ role: "COACH" } as any);
+    mockOrgFindUnique.mockResolvedValue({ timezone: "America/Toronto" } as any);
+    mockTeamFindMany.mockResolvedValue([{ id: "team-1", name: "U12 Hawks" }] as any);
+    mockVenueFindMany.mockResolvedValue([{ id: "venue-1", name: "Riverside Park - Field 2" }] as any);
+    mockOpponentFindMany.mockResolvedValue([
+      { id: "opp-1", name: "Lakers", shortName: null, archivedAt: null },
+      { id: "opp-2", name: "Tigers", shortName: null, archivedAt: null },
+    ] as any);
+    // game-17 was imported before at 5 PM
+    mockEventFindMany.mockResolvedValue([
+      {
+        id: "event-17",
+        externalUid: "game-17",
+        title: "U12 Hawks vs Lakers",
+        type: "GAME",
+        date: new Date("2026-10-24T12:00:00Z"),
+        endDate: null,
+        startTime: "5:00 PM",
+        endTime: "7:00 PM",
+        location: null,
+        status: "SCHEDULED",
+        homeAway: "HOME",
+        team: { name: "U12 Hawks" },
+        venue: { name: "Riverside Park - Field 2" },
+        opponent: { name: "Lakers" },
+      },
+    ] as any);
+  });
+
+  it("previews new games and changes to imported ones without writing", async () => {
+    const result = await resolvers.Mutation.importSchedule(
+      null,
+      { organizationId: "org-1", input: { content: ics } },
+      makeContext("coach-1")
+    );
+
+    expect(result.committed).toBe(false);
+    expect(result.rows).toMatchObject([
+      {
+        status: "UPDATED",
+        eventId: "event-17",
+        venue: "Riverside Park - Field 2",
+        newVenue: false,
+        changes: [
+          { field: "startTime", from: "5:00 PM", to: "6:00 PM" },
+          { field: "endTime", from: "7:00 PM", to: "8:00 PM" },
+        ],
+      },
+      { status: "NEW", team: "U12 Hawks", opponent: "Tigers", homeAway: "AWAY", venue: "Lakeside Arena", newVenue: true },
+    ]);
+    expect(result.newVenues).toEqual(["Lakeside Arena"]);
+    expect(mockTransaction).not.toHaveBeenCalled();
+  });
+
+  it("creates new games with their league UID and audits the import", async () => {
+    mockEventFindMany.mockResolvedValue([]);
+    mockTransaction.mockImplementationOnce(((fn: (tx: any) => Promise<any>) => fn(prisma)) as any);
+    mockVenueCreate.mockResolvedValue({ id: "venue-2" } as any);
+    mockEventCreate.mockImplementation((({ data }: any) => Promise.resolve({ id: `event-${data.externalUid}` })) as any);
+
+    const result = await resolvers.Mutation.importSchedule(
+      null,
+      { organizationId: "org-1", input: { content: ics }, dryRun: false },
+      makeContext("coach-1")
+    );
+
+    expect(result.committed).toBe(true);
+    expect(result.rows).toMatchObject([{ eventId: "event-game-17" }, { eventId: "event-game-18" }]);
+    expect(mockVenueCreate).toHaveBeenCalledWith({
+      data: { name: "Lakeside Arena", address: "4 Shore Rd", organizationId: "org-1" },
+    });
+    expect(mockEventCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        externalUid: "game-18",
+        startTime: "1:00 PM",
+        teamId: "team-1",
+        venueId: "venue-2",
+        opponentId: "opp-2",
+        homeAway: "AWAY",
+      }),
+    });
+    expect(mockAuditCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ action: "IMPORT_SCHEDULE" }) })
+    );
+  });
+});
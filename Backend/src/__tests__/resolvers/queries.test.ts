@@ -2,17 +2,18 @@
  * Integration tests for GraphQL Query resolvers.
  * Prisma and external services are fully mocked — no DB or network required.
  */
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 
 // ─── Mock all external dependencies ─────────────────────────────────────────
 vi.mock("../../db.js", () => ({
   prisma: {
     user: { findUnique: vi.fn(), findMany: vi.fn() },
-    organization: { findUnique: vi.fn(), findMany: vi.fn() },
+    organization: { findUnique: vi.fn(), findUniqueOrThrow: vi.fn(), findMany: vi.fn() },
     organizationMember: { findMany: vi.fn(), findUnique: vi.fn() },
     teamMember: { findMany: vi.fn(), count: vi.fn() },
     team: { findMany: vi.fn(), findUnique: vi.fn() },
     event: { findMany: vi.fn() },
+    venue: { findUnique: vi.fn() },
     checkIn: { findMany: vi.fn(), count: vi.fn() },
     customRole: { findMany: vi.fn() },
     teamChallenge: { findMany: vi.fn() },
@@ -326,3 +327,39 @@ describe("Query.teamRecognitions", () => {
     expect(result).toEqual(recognitions);
   });
 });
+
+// ─── kioskSession ────────────────────────────────────────────────────────────
+describe("Query.kioskSession", () => {
+  const kioskContext = () => ({
+    ...makeContext(),
+    kioskDevice: { id: "kiosk-1", name: "Front desk", organizationId: "org-1", venueId: "venue-1" } as any,
+  });
+  const atVenue = (id: string, date: string) => ({
+    id,
+    title: id,
+    type: "PRACTICE",
+    date: new Date(`${date}T12:00:00.000Z`),
+    endDate: null,
+    startTime: "8:00 PM",
+    endTime: "11:00 PM",
+    team: null,
+    venue: { timezone: "America/Los_Angeles" },
+    organization: { timezone: "America/Toronto" },
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("lists the events running today in the venue's zone, not the organization's", async () => {
+    // 1 AM Nov 3 in Toronto is still 10 PM Nov 2 at the Los Angeles venue
+    vi.useFakeTimers({ now: new Date("2026-11-03T06:00:00.000Z") });
+    vi.mocked(prisma.organization.findUniqueOrThrow).mockResolvedValue({ name: "Hawks", image: null } as any);
+    vi.mocked(prisma.venue.findUnique).mockResolvedValue({ name: "Westside Gym" } as any);
+    mockEventFindManyQ.mockResolvedValue([atVenue("tonight", "2026-11-02"), atVenue("tomorrow", "2026-11-03")] as any);
+
+    const session = await resolvers.Query.kioskSession(null, {}, kioskContext() as any);
+
+    expect(session.events.map((e: { id: string }) => e.id)).toEqual(["tonight"]);
+  });
+});
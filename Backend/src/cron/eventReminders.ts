@@ -1,208 +1,223 @@
-import cron, { type ScheduledTask } from "node-cron";
+import type { JobDefinition } from "./scheduler.js";
 import { prisma } from "../db.js";
 import { sendPushNotification } from "../notifications/pushNotifications.js";
 import { sendEventReminderEmail } from "../notifications/emailNotifications.js";
-
-let task: ScheduledTask | null = null;
-let isRunning = false;
-
-async function sendEventReminders(): Promise<void> {
-  if (isRunning) return;
-  isRunning = true;
-
-  try {
-    const now = new Date();
-    const threeHoursFromNow = new Date(now.getTime() + 3 * 60 * 60 * 1000);
-
-    // Find events in the next 3 hours
-    const upcomingEvents = await prisma.event.findMany({
-      where: {
-        date: {
-          gte: now,
-          lte: threeHoursFromNow,
-        },
+import { sendSmsNotification } from "../notifications/sms.js";
+import { EVENT_DATE_SLACK_MS, eventTimeZone, getEventWindow } from "../utils/time.js";
+
+// Events can ask for reminders up to a day ahead
+const REMINDER_HORIZON_MS = 24 * 60 * 60 * 1000;
+
+const recipientInclude = { user: { include: { notificationPreferences: true } } } as const;
+
+async function sendEventReminders(): Promise<number> {
+  const now = new Date();
+  const horizon = new Date(now.getTime() + REMINDER_HORIZON_MS);
+
+  // Event.date only pins the calendar day, so fetch a wide window and
+  // filter on the zoned start time below.
+  const candidateEvents = await prisma.event.findMany({
+    where: {
+      status: "SCHEDULED",
+      date: {
+        gte: new Date(now.getTime() - EVENT_DATE_SLACK_MS),
+        lte: new Date(horizon.getTime() + EVENT_DATE_SLACK_MS),
       },
-      include: {
-        team: {
-          include: {
-            members: {
-              include: {
-                user: {
-                  include: {
-                    notificationPreferences: true,
-                  },
+    },
+    include: {
+      organization: { select: { timezone: true } },
+      venue: { select: { timezone: true } },
+      team: {
+        include: {
+          members: {
+            include: {
+              user: {
+                include: {
+                  notificationPreferences: true,
                 },
               },
             },
           },
         },
       },
-    });
-
-    if (upcomingEvents.length === 0) {
-      return;
-    }
-
-    let remindersSent = 0;
+      staff: { include: recipientInclude },
+      recurringEvent: { select: { reminderMinutes: true, staff: { include: recipientInclude } } },
+    },
+  });
 
-    // Process each event
-    for (const event of upcomingEvents) {
-      if (!event.team) continue;
+  // Find events starting within the horizon
+  const upcomingEvents = candidateEvents
+    .map((event) => {
+      const timeZone = eventTimeZone(event);
+      return { event, timeZone, start: getEventWindow(event, timeZone).start };
+    })
+    .filter(({ start }) => start >= now && start <= horizon);
 
-      const eventTime = new Date(event.date);
-      const minutesUntilEvent = Math.floor((eventTime.getTime() - now.getTime()) / (1000 * 60));
+  if (upcomingEvents.length === 0) {
+    return 0;
+  }
 
-      // Process each team member
-      for (const member of event.team.members) {
-        const user = member.user;
-        const prefs = user.notificationPreferences;
+  let remindersSent = 0;
+
+  // Process each event
+  for (const { event, timeZone, start: eventTime } of upcomingEvents) {
+    // Team members and required staff, each reminded once
+    const recipients = new Map(
+      [
+        ...(event.team?.members.map((member) => member.user) ?? []),
+        ...event.staff.map((s) => s.user),
+        ...(event.recurringEvent?.staff.map((s) => s.user) ?? []),
+      ].map((user) => [user.id, user])
+    );
+    if (recipients.size === 0) continue;
+
+    const minutesUntilEvent = Math.floor((eventTime.getTime() - now.getTime()) / (1000 * 60));
+    const eventReminderMinutes = event.reminderMinutes ?? event.recurringEvent?.reminderMinutes ?? null;
+
+    // Process each recipient
+    for (const user of recipients.values()) {
+      const prefs = user.notificationPreferences;
+
+      // Skip if event reminders disabled
+      if (prefs && !prefs.eventRemindersEnabled) {
+        continue;
+      }
 
-        // Skip if event reminders disabled
-        if (prefs && !prefs.eventRemindersEnabled) {
-          continue;
-        }
+      // The event's reminder time wins over the user's preference (default 120 minutes)
+      const reminderMinutes = eventReminderMinutes ?? (prefs?.eventReminderMinutes || 120);
 
-        // Get user's preferred reminder time (default 120 minutes)
-        const reminderMinutes = prefs?.eventReminderMinutes || 120;
+      // Check if we should send reminder now (within 5-minute window)
+      const shouldSendReminder =
+        minutesUntilEvent <= reminderMinutes &&
+        minutesUntilEvent > reminderMinutes - 5;
 
-        // Check if we should send reminder now (within 5-minute window)
-        const shouldSendReminder =
-          minutesUntilEvent <= reminderMinutes &&
-          minutesUntilEvent > reminderMinutes - 5;
+      if (!shouldSendReminder) {
+        continue;
+      }
 
-        if (!shouldSendReminder) {
-          continue;
-        }
+      // Claim the reminder before sending anything, so an overlapping run (a
+      // scheduler retry or the startup run) finds it taken. Moving the event
+      // changes its start, so the new time gets its own reminder.
+      const claim = await prisma.eventReminder.createMany({
+        data: [{ eventId: event.id, userId: user.id, startsAt: eventTime }],
+        skipDuplicates: true,
+      });
+      if (claim.count === 0) {
+        continue;
+      }
 
-        // Check if we already sent a reminder for this event to this user
-        const existingReminder = await prisma.notificationDelivery.findFirst({
-          where: {
-            userId: user.id,
+      // Send reminder via enabled channels
+      const eventDateStr = eventTime.toLocaleDateString("en-US", {
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+        timeZone,
+      });
+
+      // Send push notification
+      if (!prefs || prefs.pushEnabled) {
+        sendPushNotification(
+          user.id,
+          `Reminder: ${event.title}`,
+          `${event.title} starts at ${event.startTime}`,
+          {
             type: "EVENT_REMINDER",
-            metadata: {
-              path: ["eventId"],
-              equals: event.id,
-            },
-            createdAt: {
-              gte: new Date(now.getTime() - 24 * 60 * 60 * 1000), // Last 24 hours
-            },
-          },
-        });
-
-        if (existingReminder) {
-          continue;
-        }
-
-        // Send reminder via enabled channels
-        const eventDateStr = eventTime.toLocaleDateString("en-US", {
-          weekday: "short",
-          month: "short",
-          day: "numeric",
+            eventId: event.id,
+            eventTitle: event.title,
+            eventTime: event.startTime,
+          }
+        ).catch((err) => {
+          console.error(`Failed to send push reminder to user ${user.id}:`, err);
         });
+      }
 
-        // Send push notification
-        if (!prefs || prefs.pushEnabled) {
-          sendPushNotification(
-            user.id,
-            `Reminder: ${event.title}`,
-            `${event.title} starts at ${event.startTime}`,
-            {
-              type: "EVENT_REMINDER",
-              eventId: event.id,
-              eventTitle: event.title,
-              eventTime: event.startTime,
-            }
-          ).catch((err) => {
-            console.error(`Failed to send push reminder to user ${user.id}:`, err);
-          });
-        }
-
-        // Send email
-        if (!prefs || prefs.emailEnabled) {
-          (async () => {
-            try {
-              await sendEventReminderEmail(
-                user.email,
-                event.title,
-                eventDateStr,
-                event.startTime,
-                event.location
-              );
-
-              // Log email delivery
-              await prisma.notificationDelivery.create({
-                data: {
-                  userId: user.id,
-                  type: "EVENT_REMINDER",
-                  channel: "EMAIL",
-                  title: `Reminder: ${event.title}`,
-                  message: `${event.title} starts at ${event.startTime}`,
-                  status: "SENT",
-                  sentAt: new Date(),
-                  metadata: {
-                    eventId: event.id,
-                    eventTitle: event.title,
-                    eventTime: event.startTime,
-                  },
+      // Send email
+      if (!prefs || prefs.emailEnabled) {
+        (async () => {
+          try {
+            await sendEventReminderEmail(
+              user.email,
+              event.title,
+              eventDateStr,
+              event.startTime,
+              event.location
+            );
+
+            // Log email delivery
+            await prisma.notificationDelivery.create({
+              data: {
+                userId: user.id,
+                type: "EVENT_REMINDER",
+                channel: "EMAIL",
+                title: `Reminder: ${event.title}`,
+                message: `${event.title} starts at ${event.startTime}`,
+                status: "SENT",
+                sentAt: new Date(),
+                metadata: {
+                  eventId: event.id,
+                  eventTitle: event.title,
+                  eventTime: event.startTime,
                 },
-              });
-            } catch (err: any) {
-              console.error(`Failed to send email reminder to user ${user.id}:`, err);
-
-              // Log failed delivery
-              await prisma.notificationDelivery.create({
-                data: {
-                  userId: user.id,
-                  type: "EVENT_REMINDER",
-                  channel: "EMAIL",
-                  title: `Reminder: ${event.title}`,
-                  message: `${event.title} starts at ${event.startTime}`,
-                  status: "FAILED",
-                  errorMessage: err.message,
-                  metadata: {
-                    eventId: event.id,
-                    eventTitle: event.title,
-                    eventTime: event.startTime,
-                  },
+              },
+            });
+          } catch (err: any) {
+            console.error(`Failed to send email reminder to user ${user.id}:`, err);
+
+            // Log failed delivery
+            await prisma.notificationDelivery.create({
+              data: {
+                userId: user.id,
+                type: "EVENT_REMINDER",
+                channel: "EMAIL",
+                title: `Reminder: ${event.title}`,
+                message: `${event.title} starts at ${event.startTime}`,
+                status: "FAILED",
+                errorMessage: err.message,
+                metadata: {
+                  eventId: event.id,
+                  eventTitle: event.title,
+                  eventTime: event.startTime,
                 },
-              });
-            }
-          })();
-        }
+              },
+            });
+          }
+        })();
+      }
 
-        remindersSent++;
+      // Send SMS
+      if (prefs?.smsEnabled) {
+        sendSmsNotification({
+          userId: user.id,
+          organizationId: event.organizationId,
+          type: "EVENT_REMINDER",
+          title: `Reminder: ${event.title}`,
+          message: `${event.title} starts at ${event.startTime}`,
+          metadata: {
+            eventId: event.id,
+            eventTitle: event.title,
+            eventTime: event.startTime,
+          },
+        }).catch((err) => {
+          console.error(`Failed to send SMS reminder to user ${user.id}:`, err);
+        });
       }
-    }
 
-    if (remindersSent > 0) {
-      console.log(`[event-reminders] Sent ${remindersSent} reminder(s)`);
+      remindersSent++;
     }
-  } catch (err) {
-    console.error("[event-reminders] Error:", err);
-  } finally {
-    isRunning = false;
   }
+
+  return remindersSent;
 }
 
 /**
- * Start the event reminder cron job.
- * Runs every 5 minutes to check for upcoming events and send reminders.
+ * Every 5 minutes, remind members and staff of events starting within the
+ * event's reminder window, or their own chosen one. Each reminder is claimed
+ * before it's sent, so a user is reminded once per event start time.
  */
-export function startEventReminderCron(): void {
-  // Run immediately on startup
-  sendEventReminders();
-
-  task = cron.schedule("*/5 * * * *", () => {
-    sendEventReminders();
-  });
-
-  console.log("[event-reminders] Cron scheduled (every 5 minutes)");
-}
-
-/** Stop the cron task (for graceful shutdown). */
-export function stopEventReminderCron(): void {
-  if (task) {
-    task.stop();
-    task = null;
-  }
-}
+export const eventReminderJob: JobDefinition = {
+  name: "event-reminders",
+  description: "Sends reminders for upcoming events",
+  schedule: "*/5 * * * *",
+  runOnStartup: true,
+  run: async () => ({ remindersSent: await sendEventReminders() }),
+};
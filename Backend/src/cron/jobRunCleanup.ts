@@ -0,0 +1,18 @@
+import type { JobDefinition } from "./scheduler.js";
+import { prisma } from "../db.js";
+
+const RETENTION_DAYS = 30;
+
+/** Nightly, drop job run history older than 30 days. */
+export const jobRunCleanupJob: JobDefinition = {
+  name: "job-run-cleanup",
+  description: `Deletes job run history older than ${RETENTION_DAYS} days`,
+  schedule: "30 3 * * *",
+  run: async () => {
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const { count } = await prisma.jobRun.deleteMany({
+      where: { startedAt: { lt: cutoff }, status: { not: "RUNNING" } },
+    });
+    return { runsDeleted: count };
+  },
+};
@@ -0,0 +1,19 @@
+import type { JobDefinition } from "./scheduler.js";
+import { absentMarkerJob } from "./absentMarker.js";
+import { autoCheckoutJob } from "./autoCheckout.js";
+import { eventReminderJob } from "./eventReminders.js";
+import { emailReportJob } from "./emailReportScheduler.js";
+import { scheduledAnnouncementJob } from "./scheduledAnnouncements.js";
+import { jobRunCleanupJob } from "./jobRunCleanup.js";
+import { piiReencryptionJob } from "./piiReencryption.js";
+
+/** Every background job the API runs, in the order they're registered. */
+export const JOBS: JobDefinition[] = [
+  absentMarkerJob,
+  autoCheckoutJob,
+  eventReminderJob,
+  emailReportJob,
+  scheduledAnnouncementJob,
+  jobRunCleanupJob,
+  piiReencryptionJob,
+];
@@ -1,58 +1,39 @@
-import cron, { type ScheduledTask } from "node-cron";
+import type { JobDefinition } from "./scheduler.js";
 import { prisma } from "../db.js";
 import { broadcastAnnouncement } from "../notifications/announcements.js";
 
-let task: ScheduledTask | null = null;
-let isRunning = false;
+async function sendScheduledAnnouncements(): Promise<number> {
+  const now = new Date();
 
-async function sendScheduledAnnouncements(): Promise<void> {
-  if (isRunning) return;
-  isRunning = true;
-
-  try {
-    const now = new Date();
-
-    // Find announcements whose scheduled time has arrived and haven't been sent yet
-    const due = await prisma.announcement.findMany({
-      where: {
-        scheduledFor: { lte: now },
-        sentAt: null,
-      },
-      select: { id: true },
-    });
-
-    if (due.length === 0) return;
-
-    console.log(`[scheduled-announcements] Sending ${due.length} scheduled announcement(s)`);
+  // Find announcements whose scheduled time has arrived and haven't been sent yet
+  const due = await prisma.announcement.findMany({
+    where: {
+      scheduledFor: { lte: now },
+      sentAt: null,
+    },
+    select: { id: true },
+  });
 
-    for (const announcement of due) {
-      broadcastAnnouncement(announcement.id).catch((err) => {
-        console.error(`[scheduled-announcements] Failed to broadcast ${announcement.id}:`, err);
-      });
+  // Broadcast inside the run so the job's lock covers sending, and the next
+  // minute's run can't pick up an announcement that is still going out
+  let sent = 0;
+  for (const announcement of due) {
+    try {
+      await broadcastAnnouncement(announcement.id);
+      sent++;
+    } catch (err) {
+      console.error(`[scheduled-announcements] Failed to broadcast ${announcement.id}:`, err);
     }
-  } catch (err) {
-    console.error("[scheduled-announcements] Error:", err);
-  } finally {
-    isRunning = false;
   }
+  return sent;
 }
 
-/**
- * Start the scheduled announcements cron job.
- * Runs every minute to check for announcements due to be sent.
- */
-export function startScheduledAnnouncementCron(): void {
-  task = cron.schedule("* * * * *", () => {
-    sendScheduledAnnouncements();
-  });
-
-  console.log("[scheduled-announcements] Cron scheduled (every minute)");
-}
-
-/** Stop the cron task (for graceful shutdown). */
-export function stopScheduledAnnouncementCron(): void {
-  if (task) {
-    task.stop();
-    task = null;
-  }
-}
+/** Every minute, send announcements whose scheduled time has arrived. */
+export const scheduledAnnouncementJob: JobDefinition = {
+  name: "scheduled-announcements",
+  description: "Sends announcements scheduled for later",
+  schedule: "* * * * *",
+  // The next minute's run picks up anything that failed
+  maxAttempts: 1,
+  run: async () => ({ announcementsSent: await sendScheduledAnnouncements() }),
+};
@@ -0,0 +1,255 @@
+import { hostname } from "node:os";
+import { randomUUID } from "node:crypto";
+import cron, { type ScheduledTask } from "node-cron";
+import type { JobRun, JobRunTrigger, Prisma } from "@prisma/client";
+import { prisma } from "../db.js";
+import { captureError, logger } from "../utils/logger.js";
+import { cronSlot, retryDelayMs } from "../utils/jobScheduler.js";
+
+export interface JobContext {
+  trigger: JobRunTrigger;
+  /** 1 for the first run of a slot, higher for retries */
+  attempt: number;
+  /** When the job last finished successfully on any task */
+  lastSucceededAt: Date | null;
+}
+
+/** Counts worth keeping in the run history, e.g. `{ remindersSent: 4 }`. */
+export type JobResult = Record<string, number> | void;
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  /** node-cron expression, evaluated in the server's time zone */
+  schedule: string;
+  run: (context: JobContext) => Promise<JobResult>;
+  /** Also run when a task boots, unless another task ran the job in the last minute */
+  runOnStartup?: boolean;
+  /** How long a run holds the lock; a run still going after this can be started again elsewhere */
+  timeoutMs?: number;
+  /** Attempts per slot, including the first */
+  maxAttempts?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const STARTUP_DEDUPE_MS = 60 * 1000;
+const RETRY_POLL_SCHEDULE = "*/30 * * * * *";
+
+/** Identifies this process in locks and run history. */
+export const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+const registry = new Map<string, JobDefinition>();
+const tasks: ScheduledTask[] = [];
+let stopping = false;
+
+export function getJobDefinition(name: string): JobDefinition | undefined {
+  return registry.get(name);
+}
+
+export function getJobDefinitions(): JobDefinition[] {
+  return [...registry.values()];
+}
+
+function lockFree(now: Date): Prisma.ScheduledJobWhereInput {
+  return { OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }] };
+}
+
+/**
+ * Take a job's lock if `where` still matches. The check and the update are a
+ * single UPDATE, so when several tasks race for the same slot exactly one wins.
+ */
+async function claim(
+  job: JobDefinition,
+  where: Prisma.ScheduledJobWhereInput,
+  data: Prisma.ScheduledJobUpdateManyMutationInput = {}
+): Promise<boolean> {
+  const now = new Date();
+  const { count } = await prisma.scheduledJob.updateMany({
+    where: { AND: [{ name: job.name }, lockFree(now), where] },
+    data: {
+      ...data,
+      lockedBy: WORKER_ID,
+      lockedUntil: new Date(now.getTime() + (job.timeoutMs ?? DEFAULT_TIMEOUT_MS)),
+      lastRunAt: now,
+    },
+  });
+  return count === 1;
+}
+
+/** Run a claimed job, record the outcome and release the lock. */
+async function execute(job: JobDefinition, run: JobRun): Promise<void> {
+  const state = await prisma.scheduledJob.findUnique({
+    where: { name: job.name },
+    select: { lastSucceededAt: true },
+  });
+  const started = Date.now();
+
+  try {
+    const result = await job.run({
+      trigger: run.trigger,
+      attempt: run.attempt,
+      lastSucceededAt: state?.lastSucceededAt ?? null,
+    });
+    const durationMs = Date.now() - started;
+    const finishedAt = new Date();
+
+    await prisma.$transaction([
+      prisma.jobRun.update({
+        where: { id: run.id },
+        data: { status: "SUCCEEDED", result: result ?? undefined, finishedAt, durationMs },
+      }),
+      prisma.scheduledJob.update({
+        where: { name: job.name },
+        data: {
+          lockedBy: null,
+          lockedUntil: null,
+          retryAt: null,
+          retryAttempt: 0,
+          lastSucceededAt: finishedAt,
+          lastDurationMs: durationMs,
+          runCount: { increment: 1 },
+          consecutiveFailures: 0,
+        },
+      }),
+    ]);
+    logger.info({ job: job.name, trigger: run.trigger, durationMs, ...result }, "Job succeeded");
+  } catch (err) {
+    const durationMs = Date.now() - started;
+    const finishedAt = new Date();
+    const message = err instanceof Error ? err.message : String(err);
+    const retry = run.attempt < (job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+
+    await prisma.$transaction([
+      prisma.jobRun.update({
+        where: { id: run.id },
+        data: { status: "FAILED", error: message, finishedAt, durationMs },
+      }),
+      prisma.scheduledJob.update({
+        where: { name: job.name },
+        data: {
+          lockedBy: null,
+          lockedUntil: null,
+          retryAt: retry ? new Date(finishedAt.getTime() + retryDelayMs(run.attempt)) : null,
+          retryAttempt: retry ? run.attempt + 1 : 0,
+          lastFailedAt: finishedAt,
+          lastDurationMs: durationMs,
+          lastError: message,
+          runCount: { increment: 1 },
+          failureCount: { increment: 1 },
+          consecutiveFailures: { increment: 1 },
+        },
+      }),
+    ]);
+    logger.error({ job: job.name, trigger: run.trigger, attempt: run.attempt, durationMs, err }, "Job failed");
+    captureError(err, { job: job.name, jobRunId: run.id, attempt: run.attempt });
+  }
+}
+
+async function startRun(
+  job: JobDefinition,
+  trigger: JobRunTrigger,
+  attempt: number,
+  triggeredByUserId?: string
+): Promise<JobRun> {
+  return prisma.jobRun.create({
+    data: { jobName: job.name, trigger, attempt, workerId: WORKER_ID, triggeredByUserId },
+  });
+}
+
+/** Run one cron occurrence, unless another task already claimed its slot. */
+async function runScheduled(job: JobDefinition, firedAt: Date): Promise<void> {
+  if (stopping) return;
+  const slot = cronSlot(firedAt);
+  const claimed = await claim(
+    job,
+    { isEnabled: true, OR: [{ lastScheduledFor: null }, { lastScheduledFor: { lt: slot } }] },
+    // A fresh slot supersedes any retry still waiting from the previous one
+    { lastScheduledFor: slot, retryAt: null, retryAttempt: 0 }
+  );
+  if (claimed) await execute(job, await startRun(job, "SCHEDULE", 1));
+}
+
+async function runOnStartup(job: JobDefinition): Promise<void> {
+  const recent = new Date(Date.now() - STARTUP_DEDUPE_MS);
+  const claimed = await claim(job, {
+    isEnabled: true,
+    OR: [{ lastRunAt: null }, { lastRunAt: { lt: recent } }],
+  });
+  if (claimed) await execute(job, await startRun(job, "STARTUP", 1));
+}
+
+/** Retry failed runs whose backoff has elapsed. */
+async function runDueRetries(): Promise<void> {
+  if (stopping) return;
+  const due = await prisma.scheduledJob.findMany({
+    where: { isEnabled: true, retryAt: { lte: new Date() } },
+    select: { name: true, retryAttempt: true },
+  });
+
+  for (const { name, retryAttempt } of due) {
+    const job = registry.get(name);
+    if (!job) continue;
+    const claimed = await claim(job, { isEnabled: true, retryAt: { lte: new Date() }, retryAttempt }, { retryAt: null });
+    if (claimed) await execute(job, await startRun(job, "RETRY", retryAttempt));
+  }
+}
+
+/**
+ * Run a job now on this task, outside its schedule. Paused jobs can still be
+ * triggered. Resolves with the new run as soon as it starts.
+ */
+export async function triggerJob(name: string, userId: string): Promise<JobRun> {
+  const job = registry.get(name);
+  if (!job) throw new Error("Scheduled job not found");
+  if (!(await claim(job, {}))) throw new Error("Job is already running");
+
+  const run = await startRun(job, "MANUAL", 1, userId);
+  execute(job, run).catch((err) => captureError(err, { job: name, jobRunId: run.id }));
+  return run;
+}
+
+function report(job: string, err: unknown): void {
+  logger.error({ job, err }, "Scheduler error");
+  captureError(err, { job });
+}
+
+/**
+ * Register the jobs, make sure each has a row, and start the timers. Every
+ * task runs the same timers; the row locks decide which one does the work.
+ */
+export async function startScheduler(jobs: JobDefinition[]): Promise<void> {
+  stopping = false;
+  for (const job of jobs) {
+    if (!cron.validate(job.schedule)) throw new Error(`Invalid schedule for job ${job.name}: ${job.schedule}`);
+    registry.set(job.name, job);
+    await prisma.scheduledJob.upsert({
+      where: { name: job.name },
+      create: { name: job.name, schedule: job.schedule },
+      update: { schedule: job.schedule },
+    });
+  }
+
+  for (const job of jobs) {
+    tasks.push(
+      cron.schedule(job.schedule, () => {
+        runScheduled(job, new Date()).catch((err) => report(job.name, err));
+      })
+    );
+    if (job.runOnStartup) runOnStartup(job).catch((err) => report(job.name, err));
+  }
+
+  tasks.push(
+    cron.schedule(RETRY_POLL_SCHEDULE, () => {
+      runDueRetries().catch((err) => report("retries", err));
+    })
+  );
+
+  logger.info({ jobs: jobs.map((j) => `${j.name} (${j.schedule})`), workerId: WORKER_ID }, "Scheduler started");
+}
+
+/** Stop claiming new work (for graceful shutdown). Runs in progress finish or time out. */
+export function stopScheduler(): void {
+  stopping = true;
+  for (const task of tasks.splice(0)) task.stop();
+}
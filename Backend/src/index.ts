@@ -8,22 +8,31 @@ import helmet from "helmet";
 import rateLimit from "express-rate-limit";
 import depthLimit from "graphql-depth-limit";
 import { CognitoJwtVerifier } from "aws-jwt-verify";
+import { makeExecutableSchema } from "@graphql-tools/schema";
+import { createServer } from "http";
+import { WebSocketServer } from "ws";
+import { useServer } from "graphql-ws/use/ws";
+import type { KioskDevice, User } from "@prisma/client";
 import { typeDefs } from "./schema.js";
 import { resolvers } from "./resolvers/index.js";
 import { prisma } from "./db.js";
 import { createLoaders, Loaders } from "./utils/dataLoaders.js";
-import { startAbsentMarkerCron, stopAbsentMarkerCron } from "./cron/absentMarker.js";
-import { startAutoCheckoutCron, stopAutoCheckoutCron } from "./cron/autoCheckout.js";
-import { startEventReminderCron, stopEventReminderCron } from "./cron/eventReminders.js";
-import { startEmailReportCron, stopEmailReportCron } from "./cron/emailReportScheduler.js";
-import { startScheduledAnnouncementCron, stopScheduledAnnouncementCron } from "./cron/scheduledAnnouncements.js";
+import { startScheduler, stopScheduler } from "./cron/scheduler.js";
+import { JOBS } from "./cron/jobs.js";
 import Stripe from "stripe";
 import { userRateLimiter } from "./utils/rateLimit.js";
 import { auditLog } from "./utils/audit.js";
 import { logger, captureError } from "./utils/logger.js";
+import { idempotencyPlugin } from "./utils/idempotency.js";
+import { renderCalendarFeed, verifyFeedToken } from "./services/calendarFeed.js";
+import { handleInboundSms } from "./notifications/sms.js";
+import { isSnsUrl, verifySnsMessage, type SnsEnvelope } from "./utils/snsMessage.js";
+import { authenticateKiosk, KIOSK_AUTH_SCHEME } from "./services/kiosk.js";
 
 interface Context {
   userId?: string;
+  /** Set instead of userId for front-desk kiosks; only the kiosk resolvers accept it */
+  kioskDevice?: KioskDevice;
   loaders: Loaders;
 }
 
@@ -89,6 +98,53 @@ function playgroundAuth(
   next();
 }
 
+/**
+ * Resolve the caller from a playground API key or a Cognito "Bearer" ID token.
+ * Returns null for missing or invalid credentials; Cognito users without a DB
+ * record yet are created on first sight.
+ */
+async function authenticate(authorization: string | undefined, apiKey: unknown): Promise<User | null> {
+  // Playground API key bypass — allows testing in Apollo Studio without a Cognito JWT.
+  // Only works when PLAYGROUND_API_KEY is set in the environment.
+  const playgroundApiKey = process.env.PLAYGROUND_API_KEY;
+  if (apiKey && playgroundApiKey && apiKey === playgroundApiKey) {
+    const email = process.env.PLAYGROUND_USER_EMAIL;
+    if (!email) throw new Error("PLAYGROUND_USER_EMAIL is not set");
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (!user) throw new Error(`No user found for PLAYGROUND_USER_EMAIL: ${email}`);
+    logger.info({ userId: user.id, email }, "[playground] authenticated");
+    return user;
+  }
+
+  if (!authorization?.startsWith("Bearer ")) return null;
+
+  const token = authorization.slice(7);
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = await cognitoVerifier.verify(token) as Record<string, unknown>;
+  } catch {
+    // Token invalid, expired, or tampered — treat as unauthenticated
+    return null;
+  }
+
+  if (typeof payload.email !== "string") return null;
+
+  let user = await prisma.user.findUnique({ where: { email: payload.email } });
+
+  // Auto-create DB record for authenticated Cognito users
+  if (!user) {
+    user = await prisma.user.create({
+      data: {
+        email: payload.email,
+        firstName: (payload.given_name as string) || payload.email.split("@")[0],
+        lastName: (payload.family_name as string) || "",
+      },
+    });
+  }
+  return user;
+}
+
 async function main() {
   const app = express();
 
@@ -96,16 +152,43 @@ async function main() {
   // with the X-Forwarded-For header set by AWS ALB.
   app.set("trust proxy", 1);
 
+  const schema = makeExecutableSchema({ typeDefs, resolvers });
+  const httpServer = createServer(app);
+
+  // ─── Subscriptions (graphql-ws) ──────────────────────────────────────────────
+  // Same /graphql path as HTTP. Clients send their Cognito ID token as
+  // connectionParams.authorization ("Bearer <token>"); unauthenticated
+  // connections are refused.
+  const wsServer = new WebSocketServer({ server: httpServer, path: "/graphql" });
+  const wsCleanup = useServer<Record<string, unknown> | undefined, { userId?: string }>(
+    {
+      schema,
+      onConnect: async (ctx) => {
+        const params = ctx.connectionParams ?? {};
+        const authorization = typeof params.authorization === "string" ? params.authorization : undefined;
+        const user = await authenticate(authorization, params["x-api-key"]);
+        if (!user) return false;
+        ctx.extra.userId = user.id;
+        return true;
+      },
+      context: (ctx): Context => ({ userId: ctx.extra.userId, loaders: createLoaders() }),
+    },
+    wsServer
+  );
+
   const server = new ApolloServer<Context>({
-    typeDefs,
-    resolvers,
+    schema,
     // Disable introspection in production to avoid leaking schema to attackers
     introspection: !isProd,
     // Mask internal error details in production (no stack traces in responses)
     formatError: (formattedError: GraphQLFormattedError, error: unknown) => {
       if (isProd) {
         // Preserve validation errors and explicit user-facing errors
-        if (formattedError.extensions?.code === "GRAPHQL_VALIDATION_FAILED") {
+        // SCHEDULE_CONFLICT carries the clashing events in its extensions
+        if (
+          formattedError.extensions?.code === "GRAPHQL_VALIDATION_FAILED" ||
+          formattedError.extensions?.code === "SCHEDULE_CONFLICT"
+        ) {
           return formattedError;
         }
         if (
@@ -128,6 +211,7 @@ async function main() {
       depthLimit(10),
     ],
     plugins: [
+      idempotencyPlugin<Context>(),
       ...(!isProd ? [ApolloServerPluginLandingPageLocalDefault({ embed: true })] : []),
     ],
   });
@@ -154,6 +238,62 @@ async function main() {
     }
   });
 
+  // ─── Calendar feeds ──────────────────────────────────────────────────────────
+  // GET /calendar/:token.ics — subscribable iCal feed. Calendar apps can't send
+  // a Cognito JWT, so the signed token in the URL is the credential.
+  app.get("/calendar/:token", apiLimiter, async (req: express.Request<{ token: string }>, res) => {
+    try {
+      const feedId = verifyFeedToken(req.params.token.replace(/\.ics$/, ""));
+      const ics = feedId ? await renderCalendarFeed(feedId) : null;
+      if (!ics) {
+        res.status(404).send("Calendar feed not found");
+        return;
+      }
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Cache-Control", "private, max-age=300");
+      res.send(ics);
+    } catch (err) {
+      captureError(err, { route: "calendar-feed" });
+      res.status(500).send("Internal server error");
+    }
+  });
+
+  // ─── Inbound SMS — STOP/START replies ────────────────────────────────────────
+  // SNS two-way SMS publishes replies to a topic with an HTTPS subscription
+  // pointing here. SNS can't send auth headers, so every message must carry a
+  // valid SNS signature and come from the configured topic.
+  app.post("/webhooks/sms", express.text({ type: "*/*" }), async (req, res) => {
+    const topicArn = process.env.SNS_SMS_INBOUND_TOPIC_ARN;
+    if (!topicArn) {
+      res.status(400).send("Inbound SMS not configured");
+      return;
+    }
+    try {
+      const envelope = JSON.parse(req.body as string) as SnsEnvelope;
+      if (!(await verifySnsMessage(envelope))) {
+        res.status(401).send("Invalid signature");
+        return;
+      }
+      if (envelope.TopicArn !== topicArn) {
+        res.status(403).send("Unknown topic");
+        return;
+      }
+      if (envelope.Type === "SubscriptionConfirmation" && isSnsUrl(envelope.SubscribeURL)) {
+        await fetch(envelope.SubscribeURL!);
+        logger.info({ topicArn: envelope.TopicArn }, "Confirmed inbound SMS subscription");
+      } else if (envelope.Type === "Notification" && envelope.Message) {
+        const inbound = JSON.parse(envelope.Message) as { originationNumber?: string; messageBody?: string };
+        if (inbound.originationNumber && inbound.messageBody) {
+          await handleInboundSms(inbound.originationNumber, inbound.messageBody);
+        }
+      }
+      res.json({ received: true });
+    } catch (err) {
+      captureError(err, { route: "sms-webhook" });
+      res.status(400).send("Bad request");
+    }
+  });
+
   // ─── Stripe webhook — MUST be raw body, before express.json() ────────────────
   const stripeClient = process.env.STRIPE_SECRET_KEY
     ? new Stripe(process.env.STRIPE_SECRET_KEY, { apiVersion: "2026-02-25.clover" })
@@ -251,55 +391,28 @@ async function main() {
       },
       credentials: true,
     }),
-    express.json(),
+    // Roster imports send the whole CSV in one mutation (up to 1000 rows)
+    express.json({ limit: "1mb" }),
     apiLimiter,
     playgroundAuth,
     expressMiddleware(server, {
       context: async ({ req }) => {
-        // Playground API key bypass — allows testing in Apollo Studio without a Cognito JWT.
-        // Only works when PLAYGROUND_API_KEY is set in the environment.
-        const apiKey = req.headers["x-api-key"];
-        const playgroundApiKey = process.env.PLAYGROUND_API_KEY;
         const loaders = createLoaders();
 
-        if (apiKey && playgroundApiKey && apiKey === playgroundApiKey) {
-          const email = process.env.PLAYGROUND_USER_EMAIL;
-          if (!email) throw new Error("PLAYGROUND_USER_EMAIL is not set");
-          const user = await prisma.user.findUnique({ where: { email } });
-          if (!user) throw new Error(`No user found for PLAYGROUND_USER_EMAIL: ${email}`);
-          logger.info({ userId: user.id, email }, "[playground] authenticated");
-          return { userId: user.id, loaders };
-        }
-
-        const authHeader = req.headers.authorization;
-        if (!authHeader?.startsWith("Bearer ")) {
-          return { loaders };
-        }
-
-        const token = authHeader.slice(7);
-
-        let payload: Record<string, unknown>;
-        try {
-          payload = await cognitoVerifier.verify(token) as Record<string, unknown>;
-        } catch {
-          // Token invalid, expired, or tampered — treat as unauthenticated
-          return { loaders };
+        if (req.headers.authorization?.startsWith(KIOSK_AUTH_SCHEME)) {
+          const kioskDevice = await authenticateKiosk(req.headers.authorization);
+          if (!kioskDevice) return { loaders };
+          const rateLimitResult = userRateLimiter.check(`kiosk:${kioskDevice.id}`);
+          if (rateLimitResult) {
+            throw Object.assign(new Error("Too many requests. Please slow down."), {
+              extensions: { code: "RATE_LIMITED", retryAfter: Math.ceil(rateLimitResult.retryAfterMs / 1000) },
+            });
+          }
+          return { kioskDevice, loaders };
         }
 
-        if (typeof payload.email !== "string") return { loaders };
-
-        let user = await prisma.user.findUnique({ where: { email: payload.email } });
-
-        // Auto-create DB record for authenticated Cognito users
-        if (!user) {
-          user = await prisma.user.create({
-            data: {
-              email: payload.email,
-              firstName: (payload.given_name as string) || payload.email.split("@")[0],
-              lastName: (payload.family_name as string) || "",
-            },
-          });
-        }
+        const user = await authenticate(req.headers.authorization, req.headers["x-api-key"]);
+        if (!user) return { loaders };
 
         // Per-user rate limiting — checked after we know who the user is
         const rateLimitResult = userRateLimiter.check(user.id);
@@ -327,24 +440,22 @@ async function main() {
     })
   );
 
-  const httpServer = app.listen(4000, "0.0.0.0", () => {
-    logger.info("🚀 Server ready at http://localhost:4000/graphql");
-    startAbsentMarkerCron();
-    startAutoCheckoutCron();
-    startEventReminderCron();
-    startEmailReportCron();
-    startScheduledAnnouncementCron();
+  httpServer.listen(4000, "0.0.0.0", () => {
+    logger.info("🚀 Server ready at http://localhost:4000/graphql (HTTP + WebSocket)");
+    startScheduler(JOBS).catch((err) => {
+      logger.error({ err }, "Failed to start job scheduler");
+      captureError(err);
+    });
   });
 
   // Graceful shutdown — stop accepting new requests, drain in-flight, then exit.
   // ECS sends SIGTERM before forcibly killing (default 30s grace period).
   async function shutdown(signal: string) {
     logger.info({ signal }, "Received shutdown signal — draining in-flight requests...");
-    stopAbsentMarkerCron();
-    stopAutoCheckoutCron();
-    stopEventReminderCron();
-    stopEmailReportCron();
-    stopScheduledAnnouncementCron();
+    stopScheduler();
+
+    // Open subscriptions would otherwise keep the HTTP server from closing
+    await wsCleanup.dispose();
 
     httpServer.close(async () => {
       logger.info("HTTP server closed. Disconnecting Prisma...");
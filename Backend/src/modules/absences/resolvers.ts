@@ -0,0 +1,210 @@
+import type { AbsenceRequest, ExcuseRequestStatus, Team } from "@prisma/client";
+import { prisma } from "../../db.js";
+import { requireAuth, requireCoachOrAbove } from "../../utils/permissions.js";
+import { auditLog } from "../../utils/audit.js";
+import { parseDateInput, toISO } from "../../utils/time.js";
+import { createAbsenceRequestInputSchema, validate } from "../../utils/validate.js";
+import { captureError } from "../../utils/logger.js";
+import { coveredEventsWhere, excuseCoveredAbsences } from "../../services/absenceRequests.js";
+import { sendPushNotification } from "../../notifications/pushNotifications.js";
+import { sendExcuseStatusEmail } from "../../notifications/emailNotifications.js";
+import { sendSmsNotification } from "../../notifications/sms.js";
+import type { Loaders } from "../../utils/dataLoaders.js";
+
+interface Context {
+  userId?: string;
+  loaders: Loaders;
+}
+
+interface CreateAbsenceRequestInput {
+  userId: string;
+  organizationId: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+  teamIds?: string[] | null;
+}
+
+type AbsenceRequestWithTeams = AbsenceRequest & { teams?: Team[] };
+
+/** The athlete themselves or one of their guardians in the org. */
+async function requireSelfOrGuardian(context: Context, athleteId: string, organizationId: string): Promise<string> {
+  const userId = requireAuth(context);
+  if (userId === athleteId) return userId;
+  const link = await prisma.guardianLink.findFirst({ where: { guardianId: userId, athleteId, organizationId } });
+  if (!link) throw new Error("Not authorized to manage absences for this user");
+  return userId;
+}
+
+/** "Oct 3" or "Oct 3 – Oct 14" for a request's days. */
+function formatRange(absence: AbsenceRequest): string {
+  const fmt = (d: Date) => d.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+  const start = fmt(absence.startDate);
+  const end = fmt(absence.endDate);
+  return start === end ? start : `${start} – ${end}`;
+}
+
+/** Tell the athlete how their request was reviewed, honouring their preferences. */
+async function notifyReviewed(absence: AbsenceRequest, status: "APPROVED" | "DENIED"): Promise<void> {
+  const [user, prefs] = await Promise.all([
+    prisma.user.findUnique({ where: { id: absence.userId }, select: { email: true } }),
+    prisma.notificationPreferences.findUnique({ where: { userId: absence.userId } }),
+  ]);
+  if (!user || (prefs && !prefs.excuseStatusEnabled)) return;
+
+  const range = formatRange(absence);
+  const title = status === "APPROVED" ? "Absence Approved" : "Absence Denied";
+  const message = `Your absence for ${range} was ${status.toLowerCase()}`;
+  const metadata = { absenceRequestId: absence.id };
+
+  if (!prefs || prefs.pushEnabled) {
+    sendPushNotification(absence.userId, title, message, { type: "EXCUSE_STATUS", ...metadata }).catch((err) =>
+      captureError(err, metadata)
+    );
+  }
+  if (!prefs || prefs.emailEnabled) {
+    sendExcuseStatusEmail(user.email, status, `your absence (${range})`, absence.reason).catch((err) =>
+      captureError(err, metadata)
+    );
+  }
+  if (prefs?.smsEnabled) {
+    sendSmsNotification({
+      userId: absence.userId,
+      organizationId: absence.organizationId,
+      type: "EXCUSE_STATUS",
+      title,
+      message,
+      metadata,
+    }).catch((err) => captureError(err, metadata));
+  }
+}
+
+export const absencesResolvers = {
+  Query: {
+    myAbsenceRequests: async (
+      _: unknown,
+      { userId, organizationId }: { userId: string; organizationId: string },
+      context: Context
+    ) => {
+      await requireSelfOrGuardian(context, userId, organizationId);
+      return prisma.absenceRequest.findMany({
+        where: { userId, organizationId },
+        include: { teams: true },
+        orderBy: { startDate: "desc" },
+      });
+    },
+
+    orgAbsenceRequests: async (
+      _: unknown,
+      { organizationId, status, limit }: { organizationId: string; status?: ExcuseRequestStatus; limit?: number },
+      context: Context
+    ) => {
+      await requireCoachOrAbove(context, organizationId);
+      return prisma.absenceRequest.findMany({
+        where: { organizationId, ...(status && { status }) },
+        include: { teams: true },
+        // Pending requests are reviewed oldest first
+        orderBy: { createdAt: status === "PENDING" ? "asc" : "desc" },
+        take: Math.min(limit || 50, 200),
+      });
+    },
+  },
+
+  Mutation: {
+    createAbsenceRequest: async (_: unknown, { input }: { input: CreateAbsenceRequestInput }, context: Context) => {
+      const data = validate(createAbsenceRequestInputSchema, { ...input, teamIds: input.teamIds ?? undefined });
+      const requestedByUserId = await requireSelfOrGuardian(context, data.userId, data.organizationId);
+
+      const member = await prisma.organizationMember.findUnique({
+        where: { userId_organizationId: { userId: data.userId, organizationId: data.organizationId } },
+        select: { id: true },
+      });
+      if (!member) throw new Error("Athlete is not a member of this organization");
+
+      const teamIds = [...new Set(data.teamIds ?? [])];
+      if (teamIds.length) {
+        const memberships = await prisma.teamMember.findMany({
+          where: { userId: data.userId, teamId: { in: teamIds }, team: { organizationId: data.organizationId } },
+          select: { teamId: true },
+        });
+        if (memberships.length !== teamIds.length) throw new Error("Athlete is not on all of the selected teams");
+      }
+
+      return prisma.absenceRequest.create({
+        data: {
+          userId: data.userId,
+          organizationId: data.organizationId,
+          startDate: parseDateInput(data.startDate),
+          endDate: parseDateInput(data.endDate),
+          reason: data.reason,
+          requestedByUserId,
+          teams: { connect: teamIds.map((id) => ({ id })) },
+        },
+        include: { teams: true },
+      });
+    },
+
+    reviewAbsenceRequest: async (
+      _: unknown,
+      { id, status }: { id: string; status: ExcuseRequestStatus },
+      context: Context
+    ) => {
+      const absence = await prisma.absenceRequest.findUnique({ where: { id }, include: { teams: true } });
+      if (!absence) throw new Error("Absence request not found");
+      const actorId = await requireCoachOrAbove(context, absence.organizationId);
+      if (status !== "APPROVED" && status !== "DENIED") throw new Error("Status must be APPROVED or DENIED");
+      if (absence.status !== "PENDING") throw new Error("Absence request has already been reviewed");
+
+      const reviewed = await prisma.absenceRequest.update({
+        where: { id },
+        data: { status, reviewedByUserId: actorId, reviewedAt: new Date() },
+        include: { teams: true },
+      });
+
+      // Events still to come are excused by markAbsent when they end
+      const excused = status === "APPROVED" ? await excuseCoveredAbsences(reviewed) : 0;
+
+      await auditLog({
+        action: "REVIEW_ABSENCE_REQUEST",
+        actorId,
+        targetId: id,
+        targetType: "AbsenceRequest",
+        organizationId: absence.organizationId,
+        metadata: { status, athleteId: absence.userId, excusedCheckIns: excused },
+      });
+      notifyReviewed(reviewed, status).catch((err) => captureError(err, { absenceRequestId: id }));
+      return reviewed;
+    },
+
+    cancelAbsenceRequest: async (_: unknown, { id }: { id: string }, context: Context) => {
+      const absence = await prisma.absenceRequest.findUnique({ where: { id } });
+      if (!absence) throw new Error("Absence request not found");
+      await requireSelfOrGuardian(context, absence.userId, absence.organizationId);
+      if (absence.status !== "PENDING") throw new Error("Only pending absence requests can be cancelled");
+      await prisma.absenceRequest.delete({ where: { id } });
+      return true;
+    },
+  },
+
+  AbsenceRequest: {
+    user: (parent: AbsenceRequest, _: unknown, context: Context) => context.loaders.user.load(parent.userId),
+    teams: (parent: AbsenceRequestWithTeams) =>
+      parent.teams ?? prisma.absenceRequest.findUnique({ where: { id: parent.id } }).teams(),
+    requestedBy: (parent: AbsenceRequest, _: unknown, context: Context) =>
+      context.loaders.user.load(parent.requestedByUserId),
+    reviewedBy: (parent: AbsenceRequest, _: unknown, context: Context) =>
+      parent.reviewedByUserId ? context.loaders.user.load(parent.reviewedByUserId) : null,
+    events: async (parent: AbsenceRequestWithTeams) => {
+      const teams = parent.teams ?? (await prisma.absenceRequest.findUnique({ where: { id: parent.id } }).teams()) ?? [];
+      return prisma.event.findMany({
+        where: await coveredEventsWhere({ ...parent, teams }),
+        orderBy: { date: "asc" },
+      });
+    },
+    startDate: (parent: AbsenceRequest) => toISO(parent.startDate),
+    endDate: (parent: AbsenceRequest) => toISO(parent.endDate),
+    reviewedAt: (parent: AbsenceRequest) => (parent.reviewedAt ? toISO(parent.reviewedAt) : null),
+    createdAt: (parent: AbsenceRequest) => toISO(parent.createdAt),
+    updatedAt: (parent: AbsenceRequest) => toISO(parent.updatedAt),
+  },
+};
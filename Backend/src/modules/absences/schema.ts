@@ -0,0 +1,49 @@
+export const absencesSchema = `#graphql
+  # ---- Types ----
+  # An absence covering a date range, reviewed once by a coach. When approved,
+  # every covered event is recorded as EXCUSED for the athlete.
+  type AbsenceRequest {
+    id: ID!
+    user: User!
+    organizationId: ID!
+    startDate: String!
+    endDate: String!
+    reason: String!
+    # Empty means all of the athlete's teams
+    teams: [Team!]!
+    status: ExcuseRequestStatus!
+    requestedBy: User!
+    reviewedBy: User
+    reviewedAt: String
+    # Scheduled events in the range, including ones created after the request
+    events: [Event!]!
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  # ---- Inputs ----
+  input CreateAbsenceRequestInput {
+    userId: ID!
+    organizationId: ID!
+    # YYYY-MM-DD, inclusive
+    startDate: String!
+    endDate: String!
+    reason: String!
+    teamIds: [ID!]
+  }
+
+  # ---- Queries ----
+  extend type Query {
+    myAbsenceRequests(userId: ID!, organizationId: ID!): [AbsenceRequest!]!
+    orgAbsenceRequests(organizationId: ID!, status: ExcuseRequestStatus, limit: Int): [AbsenceRequest!]!
+  }
+
+  # ---- Mutations ----
+  extend type Mutation {
+    createAbsenceRequest(input: CreateAbsenceRequestInput!): AbsenceRequest!
+    # APPROVED or DENIED; a request can only be reviewed once
+    reviewAbsenceRequest(id: ID!, status: ExcuseRequestStatus!): AbsenceRequest!
+    # Pending requests only
+    cancelAbsenceRequest(id: ID!): Boolean!
+  }
+`;
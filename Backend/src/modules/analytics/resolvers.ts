@@ -3,7 +3,7 @@ import { OrgRole, TeamRole } from "@prisma/client";
 import { toISO, getSeasonDateRange, isTeamInCurrentSeason, toWeekStart } from "../../utils/time.js";
 import { computeEventDuration } from "../../utils/time.js";
 import { filterEventsByMembership, MembershipPeriod } from "../../utils/membershipPeriods.js";
-import { getNonAthleteTeamMap, isAthleteCheckIn } from "../../utils/analyticsHelpers.js";
+import { COUNTED_EVENT_FILTER, creditedHours, getNonAthleteTeamMap, isAthleteCheckIn } from "../../utils/analyticsHelpers.js";
 
 // ============================================
 // Gamification helpers
@@ -21,7 +21,7 @@ function computeStreaks(checkIns: Array<{ status: string; event: { date: Date |
     if (ci.status === "ON_TIME" || ci.status === "LATE") {
       runningStreak++;
       if (runningStreak > bestStreak) bestStreak = runningStreak;
-    } else if (ci.status === "ABSENT") {
+    } else if (ci.status === "ABSENT" || ci.status === "LEFT_EARLY") {
       runningStreak = 0;
     }
     // EXCUSED does not break streak
@@ -33,7 +33,7 @@ function computeStreaks(checkIns: Array<{ status: string; event: { date: Date |
     const ci = sorted[i];
     if (ci.status === "ON_TIME" || ci.status === "LATE") {
       currentStreak++;
-    } else if (ci.status === "ABSENT") {
+    } else if (ci.status === "ABSENT" || ci.status === "LEFT_EARLY") {
       break;
     }
   }
@@ -74,7 +74,7 @@ export const analyticsResolvers = {
       const checkIns = await prisma.checkIn.findMany({
         where: {
           event: { organizationId },
-          status: { in: ["ON_TIME", "LATE"] },
+          status: { in: ["ON_TIME", "LATE", "LEFT_EARLY"] },
           approved: true,
         },
         orderBy: { createdAt: "desc" },
@@ -241,7 +241,7 @@ export const analyticsResolvers = {
         endDate = range.end;
       }
 
-      const eventWhere: any = { organizationId, date: { gte: startDate, lte: endDate } };
+      const eventWhere: any = { organizationId, date: { gte: startDate, lte: endDate }, ...COUNTED_EVENT_FILTER };
       if (teamId) {
         eventWhere.OR = [
           { teamId },
@@ -263,12 +263,14 @@ export const analyticsResolvers = {
       const lateCount = filtered.filter(c => c.status === "LATE").length;
       const absentCount = filtered.filter(c => c.status === "ABSENT").length;
       const excusedCount = filtered.filter(c => c.status === "EXCUSED").length;
+      const leftEarlyCount = filtered.filter(c => c.status === "LEFT_EARLY").length;
       const eventCount = await prisma.event.count({ where: eventWhere });
 
-      const totalExpected = onTimeCount + lateCount + absentCount + excusedCount;
+      // Leaving before the policy's minimum presence doesn't count as attending
+      const totalExpected = onTimeCount + lateCount + absentCount + excusedCount + leftEarlyCount;
       const attendanceRate = totalExpected > 0 ? (onTimeCount + lateCount) / totalExpected : 0;
 
-      return { totalExpected, onTimeCount, lateCount, absentCount, excusedCount, attendanceRate, eventCount };
+      return { totalExpected, onTimeCount, lateCount, absentCount, excusedCount, leftEarlyCount, attendanceRate, eventCount };
     },
 
     teamAttendanceRecords: async (
@@ -350,6 +352,7 @@ export const analyticsResolvers = {
             ],
             date: { gte: startDate, lte: cappedEnd },
             isAdHoc: false,
+            ...COUNTED_EVENT_FILTER,
           },
           select: { id: true, date: true, startTime: true, endTime: true },
         });
@@ -371,7 +374,7 @@ export const analyticsResolvers = {
           },
         });
 
-        const hoursLogged = checkIns.reduce((sum, c) => sum + (c.hoursLogged || 0), 0);
+        const hoursLogged = creditedHours(checkIns);
         const attendancePercent = hoursRequired > 0 ? (hoursLogged / hoursRequired) * 100 : 0;
 
         // Team rank — athletes only
@@ -393,6 +396,7 @@ export const analyticsResolvers = {
                 { teamId },
                 { participatingTeams: { some: { id: teamId } } },
               ],
+              ...COUNTED_EVENT_FILTER,
             },
           },
           include: { event: { select: { date: true } } },
@@ -457,6 +461,7 @@ export const analyticsResolvers = {
             OR: [{ teamId: tid }, { participatingTeams: { some: { id: tid } } }],
             date: { gte: tStart, lte: tCappedEnd },
             isAdHoc: false,
+            ...COUNTED_EVENT_FILTER,
           },
           select: { id: true, date: true, startTime: true, endTime: true },
         });
@@ -479,7 +484,7 @@ export const analyticsResolvers = {
         },
       });
 
-      const hoursLogged = checkIns.reduce((sum, c) => sum + (c.hoursLogged || 0), 0);
+      const hoursLogged = creditedHours(checkIns);
       const hoursRequired = totalHoursRequired;
       const attendancePercent = hoursRequired > 0 ? (hoursLogged / hoursRequired) * 100 : 0;
 
@@ -490,7 +495,7 @@ export const analyticsResolvers = {
 
       // Compute streaks from all org check-ins with event dates
       const allCheckInsWithEvent = await prisma.checkIn.findMany({
-        where: { userId, event: { organizationId } },
+        where: { userId, event: { organizationId, ...COUNTED_EVENT_FILTER } },
         include: { event: { select: { date: true } } },
         orderBy: { event: { date: "asc" } },
       });
@@ -609,6 +614,7 @@ export const analyticsResolvers = {
           OR: [{ teamId }, { participatingTeams: { some: { id: teamId } } }],
           date: { gte: startDate, lte: cappedEnd },
           isAdHoc: false,
+          ...COUNTED_EVENT_FILTER,
         },
         select: { id: true, date: true, startTime: true, endTime: true },
       });
@@ -637,7 +643,7 @@ export const analyticsResolvers = {
             },
           });
 
-          const hoursLogged = checkIns.reduce((sum, c) => sum + (c.hoursLogged || 0), 0);
+          const hoursLogged = creditedHours(checkIns);
           const attendancePercent =
             hoursRequired > 0 ? Math.min(100, (hoursLogged / hoursRequired) * 100) : 0;
 
@@ -712,6 +718,7 @@ export const analyticsResolvers = {
                 OR: [{ teamId: tid }, { participatingTeams: { some: { id: tid } } }],
                 date: { gte: tStart, lte: tCappedEnd },
                 isAdHoc: false,
+                ...COUNTED_EVENT_FILTER,
               },
               select: { id: true, date: true, startTime: true, endTime: true },
             });
@@ -728,7 +735,7 @@ export const analyticsResolvers = {
                 approved: true,
               },
             });
-            const teamHoursLogged = checkIns.reduce((sum, c) => sum + (c.hoursLogged || 0), 0);
+            const teamHoursLogged = creditedHours(checkIns);
 
             totalHoursLogged += teamHoursLogged;
             totalHoursRequired += teamHoursRequired;
@@ -783,14 +790,14 @@ export const analyticsResolvers = {
           const athleteUserIds = team.members.map(m => m.userId);
           const checkIns = await prisma.checkIn.findMany({
             where: {
-              event: { teamId: team.id },
+              event: { teamId: team.id, ...COUNTED_EVENT_FILTER },
               createdAt: { gte: startDate, lte: endDate },
               userId: { in: athleteUserIds },
               approved: true,
             },
           });
 
-          const totalHoursLogged = checkIns.reduce((sum, c) => sum + (c.hoursLogged || 0), 0);
+          const totalHoursLogged = creditedHours(checkIns);
           const totalHoursRequired = team.members.reduce((sum, m) => sum + m.hoursRequired, 0);
           const attendancePercent =
             totalHoursRequired > 0 ? Math.min(100, (totalHoursLogged / totalHoursRequired) * 100) : 0;
@@ -852,6 +859,7 @@ export const analyticsResolvers = {
             organizationId,
             isAdHoc: false,
             date: { gte: startDate, lte: cappedEnd },
+            ...COUNTED_EVENT_FILTER,
             OR: [
               { teamId },
               { participatingTeams: { some: { id: teamId } } },
@@ -861,6 +869,7 @@ export const analyticsResolvers = {
             organizationId,
             isAdHoc: false,
             date: { gte: startDate, lte: cappedEnd },
+            ...COUNTED_EVENT_FILTER,
           };
 
       const events = await prisma.event.findMany({
@@ -42,6 +42,8 @@ export const analyticsSchema = `#graphql
     lateCount: Int!
     absentCount: Int!
     excusedCount: Int!
+    # Checked in but left before the attendance policy's minimum presence
+    leftEarlyCount: Int!
     attendanceRate: Float!
     eventCount: Int!
   }
@@ -1,10 +1,33 @@
 import { prisma } from "../../db.js";
-import { AttendanceStatus, ExcuseRequestStatus, RsvpStatus, TeamRole } from "@prisma/client";
-import { requireCoachOrAbove } from "../../utils/permissions.js";
-import { parseTimeString, toISO } from "../../utils/time.js";
+import { AttendanceStatus, ExcuseRequestStatus, RsvpStatus, TeamRole, type AttendancePolicy, type CheckIn, type EventType, type ExcuseAttachment, type ExcuseCategory } from "@prisma/client";
+import { hasOrgPermission, requireAuth, requireCoachOrAbove, requireOrgAdmin } from "../../utils/permissions.js";
+import { auditLog } from "../../utils/audit.js";
+import {
+  attendancePolicyInputSchema,
+  createExcuseRequestInputSchema,
+  excuseCategoryInputSchema,
+  validate,
+} from "../../utils/validate.js";
+import { applyCategoryRules } from "../../utils/excuseCategory.js";
+import {
+  excuseAttachmentPrefix,
+  getAttachmentContentType,
+  generateExcuseAttachmentDownloadUrl,
+  generateExcuseAttachmentUploadUrl,
+  isAllowedAttachmentType,
+} from "../../s3.js";
+import { EVENT_DATE_SLACK_MS, eventTimeZone, getEventWindow, getZonedDayRange, toISO } from "../../utils/time.js";
+import { checkInOpensAt, checkInStatus, checkOutStatus } from "../../utils/attendancePolicy.js";
 import { markAbsentForEndedEvents } from "../../services/markAbsent.js";
+import { attendanceRulesForEvent } from "../../services/attendancePolicy.js";
 import { sendPushNotification } from "../../notifications/pushNotifications.js";
 import { sendExcuseStatusEmail } from "../../notifications/emailNotifications.js";
+import { sendSmsNotification } from "../../notifications/sms.js";
+import { publishCheckInChanged } from "../../services/liveUpdates.js";
+import { checkEscalationsInBackground } from "../../services/escalations.js";
+import { promoteFromWaitlist, waitlistPosition } from "../../services/rsvpWaitlist.js";
+import { assertCanRsvpFor, saveRsvp } from "../../services/rsvps.js";
+import { pubsub, topics } from "../../utils/pubsub.js";
 import type { Loaders } from "../../utils/dataLoaders.js";
 
 interface Context {
@@ -12,6 +35,37 @@ interface Context {
   loaders: Loaders;
 }
 
+interface ExcuseCategoryInput {
+  organizationId: string;
+  name: string;
+  autoApprove?: string;
+  requiresAttachment?: boolean;
+  isActive?: boolean;
+}
+
+/** Record an approved excuse as an EXCUSED check-in, replacing any check-in already there. */
+function recordExcusedCheckIn(userId: string, eventId: string) {
+  return prisma.checkIn.upsert({
+    where: { userId_eventId: { userId, eventId } },
+    create: { userId, eventId, status: "EXCUSED", checkInTime: null, checkOutTime: null, hoursLogged: 0 },
+    update: { status: "EXCUSED", checkInTime: null, checkOutTime: null, hoursLogged: 0 },
+  });
+}
+
+/** Validate a category and check its name is free in the org. */
+async function parseCategoryInput(input: ExcuseCategoryInput, excludeId?: string) {
+  const data = validate(excuseCategoryInputSchema, input);
+  const clash = await prisma.excuseCategory.findFirst({
+    where: {
+      organizationId: data.organizationId,
+      name: { equals: data.name, mode: "insensitive" },
+      ...(excludeId && { id: { not: excludeId } }),
+    },
+  });
+  if (clash) throw new Error("An excuse category with that name already exists");
+  return data;
+}
+
 export const attendanceResolvers = {
   Query: {
     // Active check-in query (for dashboard check-out button)
@@ -32,24 +86,41 @@ export const attendanceResolvers = {
         targetUserId = userId;
       }
 
+      // "Today" depends on each event's zone, so fetch open check-ins around
+      // now and keep the first whose event falls on the zone-local today.
       const now = new Date();
-      const todayStart = new Date(now);
-      todayStart.setHours(0, 0, 0, 0);
-      const todayEnd = new Date(now);
-      todayEnd.setHours(23, 59, 59, 999);
-
-      return prisma.checkIn.findFirst({
+      const openCheckIns = await prisma.checkIn.findMany({
         where: {
           userId: targetUserId,
           checkInTime: { not: null },
           checkOutTime: null,
           approved: true,
           event: {
-            date: { gte: todayStart, lte: todayEnd },
+            date: {
+              gte: new Date(now.getTime() - EVENT_DATE_SLACK_MS),
+              lte: new Date(now.getTime() + EVENT_DATE_SLACK_MS),
+            },
+          },
+        },
+        include: {
+          event: {
+            select: {
+              date: true,
+              organization: { select: { timezone: true } },
+              venue: { select: { timezone: true } },
+            },
           },
         },
         orderBy: { checkInTime: "desc" },
       });
+
+      const active = openCheckIns.find(({ event }) => {
+        const { start, end } = getZonedDayRange(now, eventTimeZone(event));
+        return event.date >= start && event.date <= end;
+      });
+      if (!active) return null;
+      const { event: _event, ...checkIn } = active;
+      return checkIn;
     },
 
     // Check-in queries
@@ -183,6 +254,7 @@ export const attendanceResolvers = {
         status,
         requesterType,
         search,
+        categoryId,
         sortBy,
         sortDir,
         limit = 15,
@@ -192,6 +264,7 @@ export const attendanceResolvers = {
         status?: string;
         requesterType?: string;
         search?: string;
+        categoryId?: string;
         sortBy?: string;
         sortDir?: string;
         limit?: number;
@@ -229,6 +302,14 @@ export const attendanceResolvers = {
         });
       }
 
+      // The breakdown ignores the category filter so every category keeps its count
+      const breakdown = await prisma.excuseRequest.groupBy({
+        by: ["categoryId"],
+        where: { AND: conditions },
+        _count: { _all: true },
+      });
+      if (categoryId) conditions.push({ categoryId });
+
       const where: any = { AND: conditions };
 
       const dir = sortDir === "asc" ? "asc" : "desc";
@@ -242,7 +323,36 @@ export const attendanceResolvers = {
         prisma.excuseRequest.findMany({ where, orderBy, take: limit, skip: offset }),
       ]);
 
-      return { items, total };
+      const categoryBreakdown = breakdown
+        .map((b) => ({ categoryId: b.categoryId, count: b._count._all }))
+        .sort((a, b) => b.count - a.count);
+
+      return { items, total, categoryBreakdown };
+    },
+
+    excuseCategories: async (
+      _: unknown,
+      { organizationId, includeInactive }: { organizationId: string; includeInactive?: boolean },
+      context: Context
+    ) => {
+      const userId = requireAuth(context);
+      const member = await prisma.organizationMember.findUnique({
+        where: { userId_organizationId: { userId, organizationId } },
+        select: { id: true },
+      });
+      if (!member) throw new Error("Not authorized");
+      return prisma.excuseCategory.findMany({
+        where: { organizationId, ...(!includeInactive && { isActive: true }) },
+        orderBy: { name: "asc" },
+      });
+    },
+
+    attendancePolicies: async (_: unknown, { organizationId }: { organizationId: string }, context: Context) => {
+      await requireCoachOrAbove(context, organizationId);
+      return prisma.attendancePolicy.findMany({
+        where: { organizationId },
+        orderBy: [{ teamId: { sort: "asc", nulls: "first" } }, { eventType: { sort: "asc", nulls: "first" } }],
+      });
     },
 
     // RSVP queries
@@ -280,16 +390,22 @@ export const attendanceResolvers = {
         if (!guardianLink) throw new Error("Not authorized to check in this user");
       }
 
-      const event = await prisma.event.findUnique({ where: { id: input.eventId } });
+      const event = await prisma.event.findUnique({
+        where: { id: input.eventId },
+        include: { organization: { select: { timezone: true } }, venue: { select: { timezone: true } } },
+      });
       if (!event) throw new Error("Event not found");
+      if (event.status !== "SCHEDULED") throw new Error(`Cannot check in to a ${event.status.toLowerCase()} event`);
 
       const now = new Date();
-      const eventStart = new Date(event.date);
-      const { hours, minutes } = parseTimeString(event.startTime);
-      eventStart.setHours(hours, minutes);
+      const { start: eventStart } = getEventWindow(event, eventTimeZone(event));
+      const rules = await attendanceRulesForEvent(event);
+      if (now < checkInOpensAt(rules, eventStart)) {
+        throw new Error(`Check-in opens ${rules.checkInWindowMinutes} minutes before the event starts`);
+      }
 
-      // Determine if on time or late (on-time = before start, late = after start)
-      const status: AttendanceStatus = now.getTime() <= eventStart.getTime() ? "ON_TIME" : "LATE";
+      // ON_TIME until the policy's grace period after the start, then LATE
+      const status = checkInStatus(rules, eventStart, now);
 
       // Upsert instead of create to make check-in idempotent.
       // If two rapid taps hit the DB simultaneously, the unique constraint
@@ -305,6 +421,8 @@ export const attendanceResolvers = {
         },
         update: {}, // Already checked in — return existing record unchanged
       });
+      publishCheckInChanged(checkIn);
+      checkEscalationsInBackground(event.organizationId, input.userId);
 
       // Check for attendance milestones (non-blocking)
       (async () => {
@@ -392,7 +510,11 @@ export const attendanceResolvers = {
 
       const checkIn = await prisma.checkIn.findUnique({
         where: { id: input.checkInId },
-        include: { event: true },
+        include: {
+          event: {
+            include: { organization: { select: { timezone: true } }, venue: { select: { timezone: true } } },
+          },
+        },
       });
       if (!checkIn) throw new Error("Check-in not found");
       if (!checkIn.checkInTime) throw new Error("No check-in time recorded");
@@ -408,26 +530,23 @@ export const attendanceResolvers = {
       const now = new Date();
 
       // Use event start time as effective start if athlete checked in early
-      let effectiveStart = checkIn.checkInTime;
-      if (checkIn.event) {
-        const eventDate = new Date(checkIn.event.date);
-        const { hours, minutes } = parseTimeString(checkIn.event.startTime);
-        const eventStart = new Date(eventDate);
-        eventStart.setHours(hours, minutes, 0, 0);
-        if (checkIn.checkInTime < eventStart) {
-          effectiveStart = eventStart;
-        }
-      }
+      const eventWindow = getEventWindow(checkIn.event, eventTimeZone(checkIn.event));
+      const effectiveStart = checkIn.checkInTime < eventWindow.start ? eventWindow.start : checkIn.checkInTime;
 
       const hoursLogged = Math.max(0, (now.getTime() - effectiveStart.getTime()) / (1000 * 60 * 60));
+      const rules = await attendanceRulesForEvent(checkIn.event);
 
-      return prisma.checkIn.update({
+      const updated = await prisma.checkIn.update({
         where: { id: input.checkInId },
         data: {
+          status: checkOutStatus(rules, eventWindow, { status: checkIn.status, checkInTime: checkIn.checkInTime }, now),
           checkOutTime: now,
           hoursLogged: Math.round(hoursLogged * 100) / 100,
         },
       });
+      publishCheckInChanged(updated);
+      checkEscalationsInBackground(checkIn.event.organizationId, checkIn.userId);
+      return updated;
     },
 
     adminCheckIn: async (
@@ -447,7 +566,7 @@ export const attendanceResolvers = {
 
       // Absent status: zero out hours and clear times
       if (input.status === "ABSENT") {
-        return prisma.checkIn.upsert({
+        const absent = await prisma.checkIn.upsert({
           where: { userId_eventId: { userId: input.userId, eventId: input.eventId } },
           create: {
             userId: input.userId,
@@ -466,19 +585,21 @@ export const attendanceResolvers = {
             note: input.note,
           },
         });
+        publishCheckInChanged(absent);
+        return absent;
       }
 
       // Calculate hoursLogged when both times are provided
       let hoursLogged: number | null = null;
       if (checkInTime && checkOutTime) {
         // Use event start as effective start if check-in was early
-        const event = await prisma.event.findUnique({ where: { id: input.eventId } });
+        const event = await prisma.event.findUnique({
+          where: { id: input.eventId },
+          include: { organization: { select: { timezone: true } }, venue: { select: { timezone: true } } },
+        });
         let effectiveStart = checkInTime;
         if (event) {
-          const eventDate = new Date(event.date);
-          const evTime = parseTimeString(event.startTime);
-          const evStart = new Date(eventDate);
-          evStart.setHours(evTime.hours, evTime.minutes, 0, 0);
+          const { start: evStart } = getEventWindow(event, eventTimeZone(event));
           if (checkInTime < evStart) {
             effectiveStart = evStart;
           }
@@ -486,7 +607,7 @@ export const attendanceResolvers = {
         hoursLogged = Math.round(Math.max(0, (checkOutTime.getTime() - effectiveStart.getTime()) / (1000 * 60 * 60)) * 100) / 100;
       }
 
-      return prisma.checkIn.upsert({
+      const checkIn = await prisma.checkIn.upsert({
         where: { userId_eventId: { userId: input.userId, eventId: input.eventId } },
         create: {
           userId: input.userId,
@@ -505,6 +626,8 @@ export const attendanceResolvers = {
           note: input.note,
         },
       });
+      publishCheckInChanged(checkIn);
+      return checkIn;
     },
 
     deleteCheckIn: async (_: unknown, { userId, eventId }: { userId: string; eventId: string }) => {
@@ -535,7 +658,17 @@ export const attendanceResolvers = {
     // Excuse mutations
     createExcuseRequest: async (
       _: unknown,
-      { input }: { input: { userId: string; eventId: string; reason: string } },
+      {
+        input,
+      }: {
+        input: {
+          userId: string;
+          eventId: string;
+          reason: string;
+          categoryId?: string | null;
+          attachments?: { key: string; fileName: string; contentType: string }[] | null;
+        };
+      },
       context: { userId?: string }
     ) => {
       if (!context.userId) throw new Error("Authentication required");
@@ -545,28 +678,73 @@ export const attendanceResolvers = {
         });
         if (!guardianLink) throw new Error("Not authorized to submit excuse for this user");
       }
+      const { eventId, reason, categoryId, attachments = [] } = validate(createExcuseRequestInputSchema, {
+        ...input,
+        categoryId: input.categoryId ?? undefined,
+        attachments: input.attachments ?? undefined,
+      });
+
+      // Uploads are keyed by uploader, so nobody can attach someone else's file
+      for (const attachment of attachments) {
+        if (!attachment.key.startsWith(excuseAttachmentPrefix(context.userId))) throw new Error("Invalid attachment");
+        if (!isAllowedAttachmentType(attachment.contentType)) {
+          throw new Error(`Unsupported attachment type: ${attachment.contentType}`);
+        }
+      }
+      // Attachments can auto-approve the excuse, so each one must really have been uploaded
+      const storedTypes = await Promise.all(attachments.map((a) => getAttachmentContentType(a.key)));
+      attachments.forEach((attachment, i) => {
+        if (storedTypes[i] === null) throw new Error(`${attachment.fileName} was never uploaded`);
+        if (storedTypes[i] !== attachment.contentType) throw new Error("Invalid attachment");
+      });
+
+      let category: ExcuseCategory | null = null;
+      if (categoryId) {
+        const event = await prisma.event.findUnique({ where: { id: eventId }, select: { organizationId: true } });
+        category = await prisma.excuseCategory.findUnique({ where: { id: categoryId } });
+        if (!event || !category || category.organizationId !== event.organizationId) {
+          throw new Error("Excuse category not found");
+        }
+      }
+      const autoApproved = applyCategoryRules(category, attachments.length);
+      const details = {
+        reason,
+        categoryId: category?.id ?? null,
+        status: autoApproved ? ("APPROVED" as const) : ("PENDING" as const),
+        autoApproved,
+        attachments: {
+          create: attachments.map((a) => ({ ...a, uploadedByUserId: context.userId! })),
+        },
+      };
 
       const existing = await prisma.excuseRequest.findUnique({
-        where: { userId_eventId: { userId: input.userId, eventId: input.eventId } },
+        where: { userId_eventId: { userId: input.userId, eventId } },
       });
 
+      let excuse;
       if (!existing) {
-        return prisma.excuseRequest.create({ data: { ...input, attemptCount: 1 } });
-      }
-      if (existing.status === "PENDING") {
-        throw new Error("You already have a pending excuse request for this event.");
-      }
-      if (existing.status === "APPROVED") {
-        throw new Error("Your excuse for this event has already been approved.");
-      }
-      // DENIED — allow resubmission up to 3 attempts
-      if (existing.attemptCount >= 3) {
-        throw new Error("You have reached the maximum of 3 excuse requests for this event.");
+        excuse = await prisma.excuseRequest.create({
+          data: { userId: input.userId, eventId, ...details, attemptCount: 1 },
+        });
+      } else {
+        if (existing.status === "PENDING") {
+          throw new Error("You already have a pending excuse request for this event.");
+        }
+        if (existing.status === "APPROVED") {
+          throw new Error("Your excuse for this event has already been approved.");
+        }
+        // DENIED — allow resubmission up to 3 attempts
+        if (existing.attemptCount >= 3) {
+          throw new Error("You have reached the maximum of 3 excuse requests for this event.");
+        }
+        excuse = await prisma.excuseRequest.update({
+          where: { id: existing.id },
+          data: { ...details, attemptCount: existing.attemptCount + 1 },
+        });
       }
-      return prisma.excuseRequest.update({
-        where: { id: existing.id },
-        data: { status: "PENDING", reason: input.reason, attemptCount: existing.attemptCount + 1 },
-      });
+
+      if (autoApproved) await recordExcusedCheckIn(excuse.userId, excuse.eventId);
+      return excuse;
     },
 
     updateExcuseRequest: async (
@@ -581,7 +759,8 @@ export const attendanceResolvers = {
       if (excuse?.event) await requireCoachOrAbove(context, excuse.event.organizationId);
       const updated = await prisma.excuseRequest.update({
         where: { id: input.id },
-        data: { status: input.status },
+        // A coach's decision replaces any automatic approval
+        data: { status: input.status, autoApproved: false },
         include: {
           user: true,
           event: true,
@@ -590,28 +769,7 @@ export const attendanceResolvers = {
 
       // If approved, update or create the check-in as excused
       if (input.status === "APPROVED") {
-        await prisma.checkIn.upsert({
-          where: {
-            userId_eventId: {
-              userId: updated.userId,
-              eventId: updated.eventId,
-            },
-          },
-          create: {
-            userId: updated.userId,
-            eventId: updated.eventId,
-            status: "EXCUSED",
-            checkInTime: null,
-            checkOutTime: null,
-            hoursLogged: 0,
-          },
-          update: {
-            status: "EXCUSED",
-            checkInTime: null,
-            checkOutTime: null,
-            hoursLogged: 0,
-          },
-        });
+        await recordExcusedCheckIn(updated.userId, updated.eventId);
       }
 
       // Send notification (non-blocking)
@@ -648,6 +806,18 @@ export const attendanceResolvers = {
                 updated.reason
               ).catch((err) => console.error("Failed to send email notification:", err));
             }
+
+            // Send SMS notification
+            if (prefs?.smsEnabled) {
+              sendSmsNotification({
+                userId: updated.userId,
+                organizationId: updated.event.organizationId,
+                type: "EXCUSE_STATUS",
+                title,
+                message,
+                metadata: { excuseRequestId: input.id, eventId: updated.eventId },
+              }).catch((err) => console.error("Failed to send SMS notification:", err));
+            }
           } catch (err) {
             console.error("Failed to send excuse status notification:", err);
           }
@@ -662,43 +832,84 @@ export const attendanceResolvers = {
       return true;
     },
 
+    generateExcuseAttachmentUploadUrl: async (_: unknown, { fileType }: { fileType: string }, context: Context) => {
+      const userId = requireAuth(context);
+      return generateExcuseAttachmentUploadUrl(userId, fileType);
+    },
+
+    // Excuse categories
+    createExcuseCategory: async (_: unknown, { input }: { input: ExcuseCategoryInput }, context: Context) => {
+      const actorId = await requireOrgAdmin(context, input.organizationId);
+      const data = await parseCategoryInput(input);
+      const category = await prisma.excuseCategory.create({ data });
+      await auditLog({
+        action: "SET_EXCUSE_CATEGORY",
+        actorId,
+        targetId: category.id,
+        targetType: "ExcuseCategory",
+        organizationId: category.organizationId,
+        metadata: { ...data },
+      });
+      return category;
+    },
+
+    updateExcuseCategory: async (
+      _: unknown,
+      { id, input }: { id: string; input: ExcuseCategoryInput },
+      context: Context
+    ) => {
+      const existing = await prisma.excuseCategory.findUnique({ where: { id } });
+      if (!existing) throw new Error("Excuse category not found");
+      const actorId = await requireOrgAdmin(context, existing.organizationId);
+      const { organizationId, ...data } = await parseCategoryInput(input, id);
+      if (organizationId !== existing.organizationId) throw new Error("Excuse category not found");
+
+      const category = await prisma.excuseCategory.update({ where: { id }, data });
+      await auditLog({
+        action: "SET_EXCUSE_CATEGORY",
+        actorId,
+        targetId: id,
+        targetType: "ExcuseCategory",
+        organizationId,
+        metadata: { ...data },
+      });
+      return category;
+    },
+
+    deleteExcuseCategory: async (_: unknown, { id }: { id: string }, context: Context) => {
+      const category = await prisma.excuseCategory.findUnique({ where: { id } });
+      if (!category) throw new Error("Excuse category not found");
+      const actorId = await requireOrgAdmin(context, category.organizationId);
+
+      // Past excuses keep their history but lose the category
+      await prisma.excuseCategory.delete({ where: { id } });
+      await auditLog({
+        action: "DELETE_EXCUSE_CATEGORY",
+        actorId,
+        targetId: id,
+        targetType: "ExcuseCategory",
+        organizationId: category.organizationId,
+        metadata: { name: category.name },
+      });
+      return true;
+    },
+
     // RSVP mutations
     upsertRsvp: async (
       _: unknown,
-      { input }: { input: { userId: string; eventId: string; status: RsvpStatus; note?: string } },
+      { input }: { input: { userId: string; eventId: string; status: RsvpStatus; note?: string; override?: boolean } },
       context: { userId?: string }
     ) => {
       if (!context.userId) throw new Error("Authentication required");
-      if (input.userId !== context.userId) {
-        const guardianLink = await prisma.guardianLink.findFirst({
-          where: { guardianId: context.userId, athleteId: input.userId },
-        });
-        if (!guardianLink) throw new Error("Not authorized to RSVP for this user");
-      }
-      const { userId, eventId, status, note } = input;
-      const prev = await prisma.eventRsvp.findUnique({
-        where: { userId_eventId: { userId, eventId } },
-      });
-      const rsvp = await prisma.eventRsvp.upsert({
-        where: { userId_eventId: { userId, eventId } },
-        create: { userId, eventId, status, note },
-        update: { status, note },
-        include: { user: true, event: true },
+      const event = await prisma.event.findUnique({
+        where: { id: input.eventId },
+        select: { id: true, organizationId: true, capacity: true, rsvpDeadline: true },
       });
-      if (status === "NOT_GOING") {
-        // Auto-create excuse request
-        await prisma.excuseRequest.upsert({
-          where: { userId_eventId: { userId, eventId } },
-          create: { userId, eventId, reason: note || "Unable to attend" },
-          update: { reason: note || "Unable to attend", status: "PENDING" },
-        });
-      } else if (prev?.status === "NOT_GOING") {
-        // Switched away from NOT_GOING — cancel pending auto-excuse
-        await prisma.excuseRequest.deleteMany({
-          where: { userId, eventId, status: "PENDING" },
-        });
-      }
-      return rsvp;
+      if (!event) throw new Error("Event not found");
+      // Coach overrides skip the deadline and capacity, and may set any athlete's RSVP
+      const actorId = input.override ? await requireCoachOrAbove(context, event.organizationId) : context.userId;
+      if (!input.override) await assertCanRsvpFor(context.userId, input.userId);
+      return saveRsvp(event, input, actorId);
     },
 
     deleteRsvp: async (_: unknown, { userId, eventId }: { userId: string; eventId: string }) => {
@@ -712,6 +923,7 @@ export const attendanceResolvers = {
         });
       }
       await prisma.eventRsvp.delete({ where: { userId_eventId: { userId, eventId } } });
+      if (existing.status === "GOING") await promoteFromWaitlist(eventId);
       return true;
     },
 
@@ -783,6 +995,78 @@ export const attendanceResolvers = {
         include: { user: true, event: true },
       });
     },
+
+    setAttendancePolicy: async (
+      _: unknown,
+      { input }: {
+        input: {
+          organizationId: string;
+          teamId?: string | null;
+          eventType?: EventType | null;
+          checkInWindowMinutes?: number | null;
+          lateGraceMinutes?: number | null;
+          minPresencePercent?: number | null;
+        };
+      },
+      context: Context
+    ) => {
+      const { organizationId, teamId, eventType, ...rules } = validate(attendancePolicyInputSchema, input);
+      const actorId = await requireOrgAdmin(context, organizationId);
+      if (teamId) {
+        const team = await prisma.team.findUnique({ where: { id: teamId }, select: { organizationId: true } });
+        if (!team || team.organizationId !== organizationId) throw new Error("Team not found");
+      }
+
+      // Unset fields are stored as null so they inherit from less specific policies
+      const data = {
+        checkInWindowMinutes: rules.checkInWindowMinutes ?? null,
+        lateGraceMinutes: rules.lateGraceMinutes ?? null,
+        minPresencePercent: rules.minPresencePercent ?? null,
+      };
+      const scope = { organizationId, teamId: teamId || null, eventType: eventType ?? null };
+      const existing = await prisma.attendancePolicy.findFirst({ where: scope });
+      const policy = existing
+        ? await prisma.attendancePolicy.update({ where: { id: existing.id }, data })
+        : await prisma.attendancePolicy.create({ data: { ...scope, ...data } });
+
+      await auditLog({
+        action: "SET_ATTENDANCE_POLICY",
+        actorId,
+        targetId: policy.id,
+        targetType: "AttendancePolicy",
+        organizationId,
+        metadata: { ...scope, ...data },
+      });
+      return policy;
+    },
+
+    deleteAttendancePolicy: async (_: unknown, { id }: { id: string }, context: Context) => {
+      const policy = await prisma.attendancePolicy.findUnique({ where: { id } });
+      if (!policy) throw new Error("Attendance policy not found");
+      const actorId = await requireOrgAdmin(context, policy.organizationId);
+
+      await prisma.attendancePolicy.delete({ where: { id } });
+      await auditLog({
+        action: "DELETE_ATTENDANCE_POLICY",
+        actorId,
+        targetId: id,
+        targetType: "AttendancePolicy",
+        organizationId: policy.organizationId,
+      });
+      return true;
+    },
+  },
+
+  Subscription: {
+    eventCheckInChanged: {
+      subscribe: async (_: unknown, { eventId }: { eventId: string }, context: Context) => {
+        const event = await prisma.event.findUnique({ where: { id: eventId }, select: { organizationId: true } });
+        if (!event) throw new Error("Event not found");
+        await requireCoachOrAbove(context, event.organizationId);
+        return pubsub.subscribe<CheckIn>(topics.eventCheckInChanged(eventId));
+      },
+      resolve: (checkIn: CheckIn) => checkIn,
+    },
   },
 
   CheckIn: {
@@ -792,6 +1076,7 @@ export const attendanceResolvers = {
       context.loaders.event.load(parent.eventId),
     checkInTime: (parent: any) => parent.checkInTime ? toISO(parent.checkInTime) : null,
     checkOutTime: (parent: any) => parent.checkOutTime ? toISO(parent.checkOutTime) : null,
+    offlineSyncedAt: (parent: any) => parent.offlineSyncedAt ? toISO(parent.offlineSyncedAt) : null,
     createdAt: (parent: any) => toISO(parent.createdAt),
     updatedAt: (parent: any) => toISO(parent.updatedAt),
   },
@@ -801,13 +1086,48 @@ export const attendanceResolvers = {
       context.loaders.user.load(parent.userId),
     event: (parent: { eventId: string }, _: unknown, context: Context) =>
       context.loaders.event.load(parent.eventId),
+    category: (parent: { categoryId: string | null }) =>
+      parent.categoryId ? prisma.excuseCategory.findUnique({ where: { id: parent.categoryId } }) : null,
+    attachments: (parent: { id: string }) =>
+      prisma.excuseAttachment.findMany({ where: { excuseRequestId: parent.id }, orderBy: { createdAt: "asc" } }),
     createdAt: (parent: any) => toISO(parent.createdAt),
     updatedAt: (parent: any) => toISO(parent.updatedAt),
   },
 
+  ExcuseAttachment: {
+    // Only the athlete, whoever uploaded it, and staff who approve excuses get a link
+    url: async (parent: ExcuseAttachment, _: unknown, context: Context) => {
+      if (!context.userId) return null;
+      const excuse = await prisma.excuseRequest.findUnique({
+        where: { id: parent.excuseRequestId },
+        select: { userId: true, event: { select: { organizationId: true } } },
+      });
+      if (!excuse) return null;
+      const allowed =
+        context.userId === excuse.userId ||
+        context.userId === parent.uploadedByUserId ||
+        (await hasOrgPermission(context, excuse.event.organizationId, "canApproveExcuses"));
+      return allowed ? generateExcuseAttachmentDownloadUrl(parent.key, parent.fileName) : null;
+    },
+    createdAt: (parent: ExcuseAttachment) => toISO(parent.createdAt),
+  },
+
+  ExcuseCategoryCount: {
+    category: (parent: { categoryId: string | null }) =>
+      parent.categoryId ? prisma.excuseCategory.findUnique({ where: { id: parent.categoryId } }) : null,
+  },
+
+  AttendancePolicy: {
+    team: (parent: AttendancePolicy, _: unknown, context: Context) =>
+      parent.teamId ? context.loaders.team.load(parent.teamId) : null,
+    updatedAt: (parent: AttendancePolicy) => toISO(parent.updatedAt),
+  },
+
   EventRsvp: {
     user: (parent: any) => parent.user ?? prisma.user.findUnique({ where: { id: parent.userId } }),
     event: (parent: any) => parent.event ?? prisma.event.findUnique({ where: { id: parent.eventId } }),
+    waitlistedAt: (parent: any) => parent.waitlistedAt ? toISO(parent.waitlistedAt) : null,
+    waitlistPosition: (parent: any) => waitlistPosition(parent),
     createdAt: (parent: any) => toISO(parent.createdAt),
     updatedAt: (parent: any) => toISO(parent.updatedAt),
   },
@@ -5,6 +5,8 @@ export const attendanceSchema = `#graphql
     LATE
     ABSENT
     EXCUSED
+    # Checked in but present for less than the attendance policy's minimum
+    LEFT_EARLY
   }
 
   enum ExcuseRequestStatus {
@@ -13,10 +15,19 @@ export const attendanceSchema = `#graphql
     DENIED
   }
 
+  # When an excuse in the category is approved without a coach
+  enum ExcuseAutoApproval {
+    NEVER
+    ALWAYS
+    WITH_ATTACHMENT
+  }
+
   enum RsvpStatus {
     GOING
     NOT_GOING
     MAYBE
+    # Set by the server when a GOING response finds the event full
+    WAITLISTED
   }
 
   # ---- Types ----
@@ -31,6 +42,8 @@ export const attendanceSchema = `#graphql
     note: String
     isAdHoc: Boolean!
     approved: Boolean!
+    # Set when the check-in was tapped offline and synced later
+    offlineSyncedAt: String
     createdAt: String!
     updatedAt: String!
   }
@@ -40,15 +53,50 @@ export const attendanceSchema = `#graphql
     user: User!
     event: Event!
     reason: String!
+    category: ExcuseCategory
+    attachments: [ExcuseAttachment!]!
     status: ExcuseRequestStatus!
+    # Approved by the category's rule rather than a coach
+    autoApproved: Boolean!
     attemptCount: Int!
     createdAt: String!
     updatedAt: String!
   }
 
+  type ExcuseCategory {
+    id: ID!
+    name: String!
+    autoApprove: ExcuseAutoApproval!
+    requiresAttachment: Boolean!
+    isActive: Boolean!
+  }
+
+  type ExcuseAttachment {
+    id: ID!
+    fileName: String!
+    contentType: String!
+    # Short-lived signed link; null for viewers who may not see the file
+    url: String
+    createdAt: String!
+  }
+
+  type ExcuseCategoryCount {
+    # Null for excuses without a category
+    category: ExcuseCategory
+    count: Int!
+  }
+
   type ExcuseRequestPage {
     items: [ExcuseRequest!]!
     total: Int!
+    # Counts per category for the current filters, ignoring categoryId
+    categoryBreakdown: [ExcuseCategoryCount!]!
+  }
+
+  type ExcuseAttachmentUpload {
+    uploadUrl: String!
+    # Pass back in CreateExcuseRequestInput.attachments once uploaded
+    key: String!
   }
 
   type EventRsvp {
@@ -57,12 +105,27 @@ export const attendanceSchema = `#graphql
     eventId: ID!
     status: RsvpStatus!
     note: String
+    waitlistedAt: String
+    # 1 = next in line; null unless WAITLISTED
+    waitlistPosition: Int
     createdAt: String!
     updatedAt: String!
     user: User!
     event: Event!
   }
 
+  # A policy row for the org (no team, no event type), an event type, a team,
+  # or a team's event type. Unset fields inherit from the less specific rows.
+  type AttendancePolicy {
+    id: ID!
+    team: Team
+    eventType: EventType
+    checkInWindowMinutes: Int
+    lateGraceMinutes: Int
+    minPresencePercent: Int
+    updatedAt: String!
+  }
+
   # ---- Inputs ----
   input CheckInInput {
     userId: ID!
@@ -82,10 +145,26 @@ export const attendanceSchema = `#graphql
     checkOutTime: String
   }
 
+  input ExcuseAttachmentInput {
+    key: String!
+    fileName: String!
+    contentType: String!
+  }
+
   input CreateExcuseRequestInput {
     userId: ID!
     eventId: ID!
     reason: String!
+    categoryId: ID
+    attachments: [ExcuseAttachmentInput!]
+  }
+
+  input ExcuseCategoryInput {
+    organizationId: ID!
+    name: String!
+    autoApprove: ExcuseAutoApproval
+    requiresAttachment: Boolean
+    isActive: Boolean
   }
 
   input UpdateExcuseRequestInput {
@@ -93,11 +172,22 @@ export const attendanceSchema = `#graphql
     status: ExcuseRequestStatus!
   }
 
+  input AttendancePolicyInput {
+    organizationId: ID!
+    teamId: ID
+    eventType: EventType
+    checkInWindowMinutes: Int
+    lateGraceMinutes: Int
+    minPresencePercent: Int
+  }
+
   input UpsertRsvpInput {
     userId: ID!
     eventId: ID!
     status: RsvpStatus!
     note: String
+    # Coaches only: ignore the RSVP deadline and capacity
+    override: Boolean
   }
 
   # ---- Queries ----
@@ -109,9 +199,11 @@ export const attendanceSchema = `#graphql
     excuseRequest(id: ID!): ExcuseRequest
     myExcuseRequests(userId: ID!): [ExcuseRequest!]!
     pendingExcuseRequests(organizationId: ID!): [ExcuseRequest!]!
-    orgExcuseRequests(organizationId: ID!, status: String, requesterType: String, search: String, sortBy: String, sortDir: String, limit: Int, offset: Int): ExcuseRequestPage!
+    orgExcuseRequests(organizationId: ID!, status: String, requesterType: String, search: String, categoryId: ID, sortBy: String, sortDir: String, limit: Int, offset: Int): ExcuseRequestPage!
+    excuseCategories(organizationId: ID!, includeInactive: Boolean): [ExcuseCategory!]!
     myRsvps(userId: ID!): [EventRsvp!]!
     activeCheckIn(userId: ID): CheckIn
+    attendancePolicies(organizationId: ID!): [AttendancePolicy!]!
   }
 
   # ---- Mutations ----
@@ -125,8 +217,21 @@ export const attendanceSchema = `#graphql
     createExcuseRequest(input: CreateExcuseRequestInput!): ExcuseRequest!
     updateExcuseRequest(input: UpdateExcuseRequestInput!): ExcuseRequest!
     cancelExcuseRequest(id: ID!): Boolean!
+    generateExcuseAttachmentUploadUrl(fileType: String!): ExcuseAttachmentUpload!
+    createExcuseCategory(input: ExcuseCategoryInput!): ExcuseCategory!
+    updateExcuseCategory(id: ID!, input: ExcuseCategoryInput!): ExcuseCategory!
+    deleteExcuseCategory(id: ID!): Boolean!
     upsertRsvp(input: UpsertRsvpInput!): EventRsvp!
     deleteRsvp(userId: ID!, eventId: ID!): Boolean!
     updateCheckInTimes(checkInId: ID!, checkInTime: String, checkOutTime: String): CheckIn!
+    # Creates or replaces the policy for the input's scope
+    setAttendancePolicy(input: AttendancePolicyInput!): AttendancePolicy!
+    deleteAttendancePolicy(id: ID!): Boolean!
+  }
+
+  # ---- Subscriptions ----
+  extend type Subscription {
+    # Check-ins, check-outs and admin edits for an event, as they happen
+    eventCheckInChanged(eventId: ID!): CheckIn!
   }
 `;
@@ -5,6 +5,11 @@ import { registerPushToken, sendPushToEndpoint } from "../../notifications/sns.j
 import { broadcastAnnouncement } from "../../notifications/announcements.js";
 import { generateGuardianReport } from "../../notifications/emailReports.js";
 import { toISO } from "../../utils/time.js";
+import { toE164 } from "../../utils/sms.js";
+import { pubsub, topics } from "../../utils/pubsub.js";
+import { requireAuth } from "../../utils/permissions.js";
+import { confirmPhoneVerification, startPhoneVerification } from "../../services/phoneVerification.js";
+import type { LiveNotification } from "../../services/liveUpdates.js";
 import type { Loaders } from "../../utils/dataLoaders.js";
 
 interface Context {
@@ -210,6 +215,16 @@ export const communicationsResolvers = {
     ) => {
       if (!context.userId) throw new Error("Authentication required");
 
+      if (input.smsEnabled) {
+        const user = await prisma.user.findUnique({
+          where: { id: context.userId },
+          select: { phone: true, phoneVerifiedAt: true },
+        });
+        if (!user?.phone || !user.phoneVerifiedAt) {
+          throw new Error("Verify your mobile number before turning on text messages");
+        }
+      }
+
       const prefs = await prisma.notificationPreferences.upsert({
         where: { userId: context.userId },
         update: input,
@@ -222,6 +237,22 @@ export const communicationsResolvers = {
       return prefs;
     },
 
+    requestPhoneVerification: async (_: unknown, { phone }: { phone: string }, context: { userId?: string }) => {
+      if (!context.userId) throw new Error("Authentication required");
+      await startPhoneVerification(context.userId, phone);
+      return true;
+    },
+
+    verifyPhone: async (_: unknown, { code }: { code: string }, context: { userId?: string }) => {
+      if (!context.userId) throw new Error("Authentication required");
+      await confirmPhoneVerification(context.userId, code);
+      return prisma.notificationPreferences.upsert({
+        where: { userId: context.userId },
+        update: {},
+        create: { userId: context.userId },
+      });
+    },
+
     createAnnouncement: async (
       _: unknown,
       { input }: { input: any },
@@ -255,6 +286,7 @@ export const communicationsResolvers = {
           userIds: input.userIds || [],
           eventDate: input.eventDate ? new Date(input.eventDate) : null,
           scheduledFor: input.scheduledFor ? new Date(input.scheduledFor) : null,
+          urgent: input.urgent ?? false,
         },
         include: {
           organization: true,
@@ -477,12 +509,35 @@ export const communicationsResolvers = {
     },
   },
 
+  Subscription: {
+    notificationReceived: {
+      subscribe: (_: unknown, __: unknown, context: Context) =>
+        pubsub.subscribe<LiveNotification>(topics.notificationReceived(requireAuth(context))),
+      resolve: (notification: LiveNotification) => notification,
+    },
+  },
+
+  LiveNotification: {
+    metadata: (parent: LiveNotification) => (parent.metadata != null ? JSON.stringify(parent.metadata) : null),
+    createdAt: (parent: LiveNotification) => toISO(parent.createdAt),
+  },
+
   DeviceToken: {
     createdAt: (parent: any) => toISO(parent.createdAt),
     updatedAt: (parent: any) => toISO(parent.updatedAt),
   },
 
   NotificationPreferences: {
+    smsPhone: async (parent: { userId: string }, _: unknown, context: Context) => {
+      const user = await context.loaders.user.load(parent.userId);
+      return user?.phoneVerifiedAt ? user.phone : null;
+    },
+    smsOptedOut: async (parent: { userId: string }, _: unknown, context: Context) => {
+      const user = await context.loaders.user.load(parent.userId);
+      const phone = toE164(user?.phone);
+      if (!phone) return false;
+      return !!(await prisma.smsOptOut.findUnique({ where: { phone } }));
+    },
     createdAt: (parent: any) => toISO(parent.createdAt),
     updatedAt: (parent: any) => toISO(parent.updatedAt),
   },
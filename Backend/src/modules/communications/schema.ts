@@ -35,6 +35,8 @@ export const communicationsSchema = `#graphql
     ATTENDANCE_MILESTONE
     EMAIL_REPORT
     GUARDIAN_INVITE
+    MESSAGE
+    ATTENDANCE_ESCALATION
   }
 
   enum NotificationChannel {
@@ -73,10 +75,20 @@ export const communicationsSchema = `#graphql
     announcementsEnabled: Boolean!
     excuseStatusEnabled: Boolean!
     milestonesEnabled: Boolean!
+    # Verified number texts go to; null until one is verified
+    smsPhone: String
+    # The number replied STOP; texts resume once it replies START
+    smsOptedOut: Boolean!
     createdAt: String!
     updatedAt: String!
   }
 
+  type SmsUsage {
+    month: String!
+    sent: Int!
+    quota: Int!
+  }
+
   type Announcement {
     id: ID!
     title: String!
@@ -90,6 +102,7 @@ export const communicationsSchema = `#graphql
     userIds: [ID!]!
     eventDate: String
     scheduledFor: String
+    urgent: Boolean!
     sentAt: String
     createdAt: String!
     updatedAt: String!
@@ -125,6 +138,15 @@ export const communicationsSchema = `#graphql
     updatedAt: String!
   }
 
+  # Pushed to open sessions over the subscription socket; not persisted
+  type LiveNotification {
+    type: String!
+    title: String!
+    message: String!
+    metadata: String
+    createdAt: String!
+  }
+
   # ---- Inputs ----
   input SubmitFeedbackInput {
     category: FeedbackCategory!
@@ -156,6 +178,8 @@ export const communicationsSchema = `#graphql
     userIds: [ID!]
     eventDate: String
     scheduledFor: String
+    # Also text recipients who turned SMS on
+    urgent: Boolean
   }
 
   input CreateEmailReportConfigInput {
@@ -178,6 +202,9 @@ export const communicationsSchema = `#graphql
     registerDeviceToken(input: RegisterDeviceTokenInput!): DeviceToken!
     unregisterDeviceToken(tokenId: ID!): Boolean!
     updateNotificationPreferences(input: UpdateNotificationPreferencesInput!): NotificationPreferences!
+    # Texts a six-digit code; the number is saved once verifyPhone confirms it
+    requestPhoneVerification(phone: String!): Boolean!
+    verifyPhone(code: String!): NotificationPreferences!
     createAnnouncement(input: CreateAnnouncementInput!): Announcement!
     sendAnnouncement(id: ID!): Boolean!
     deleteAnnouncement(id: ID!): Boolean!
@@ -188,4 +215,9 @@ export const communicationsSchema = `#graphql
     markNotificationRead(id: ID!): NotificationDelivery!
     markAllNotificationsRead: Int!
   }
+
+  # ---- Subscriptions ----
+  extend type Subscription {
+    notificationReceived: LiveNotification!
+  }
 `;
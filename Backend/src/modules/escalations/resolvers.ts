@@ -0,0 +1,207 @@
+import type { EscalationFiring, EscalationRule, EscalationStatus } from "@prisma/client";
+import { prisma } from "../../db.js";
+import { requireCoachOrAbove, requireOrgAdmin, requireOrgRole } from "../../utils/permissions.js";
+import { auditLog } from "../../utils/audit.js";
+import { toISO } from "../../utils/time.js";
+import { escalationNoteSchema, escalationRuleInputSchema, validate } from "../../utils/validate.js";
+import { ATHLETE_STATUS_ROLES, updateAthleteStatus } from "../../services/athleteStatus.js";
+import type { Loaders } from "../../utils/dataLoaders.js";
+
+interface Context {
+  userId?: string;
+  loaders: Loaders;
+}
+
+interface EscalationRuleInput {
+  organizationId: string;
+  teamId?: string | null;
+  name: string;
+  trigger: string;
+  threshold: number;
+  periodDays?: number | null;
+  notifyCoaches?: boolean;
+  notifyGuardians?: boolean;
+  createFollowUp?: boolean;
+  proposedStatus?: string | null;
+  isActive?: boolean;
+}
+
+/** Validate a rule and check its team belongs to the org; returns the row data. */
+async function parseRuleInput(input: EscalationRuleInput) {
+  const { teamId, ...rule } = validate(escalationRuleInputSchema, input);
+  if (teamId) {
+    const team = await prisma.team.findUnique({ where: { id: teamId }, select: { organizationId: true } });
+    if (!team || team.organizationId !== rule.organizationId) throw new Error("Team not found");
+  }
+  return {
+    ...rule,
+    teamId: teamId || null,
+    periodDays: rule.periodDays ?? null,
+    proposedStatus: rule.proposedStatus ?? null,
+  };
+}
+
+/** An OPEN firing and the coach (or above) closing it. */
+async function openFiring(id: string, context: Context) {
+  const firing = await prisma.escalationFiring.findUnique({ where: { id }, include: { rule: true } });
+  if (!firing) throw new Error("Escalation not found");
+  const actorId = await requireCoachOrAbove(context, firing.organizationId);
+  if (firing.status !== "OPEN") throw new Error("Escalation is not open");
+  return { firing, actorId };
+}
+
+async function closeFiring(
+  firing: EscalationFiring,
+  actorId: string,
+  status: EscalationStatus,
+  note: string | undefined,
+  metadata: Record<string, unknown> = {}
+) {
+  const closed = await prisma.escalationFiring.update({
+    where: { id: firing.id },
+    data: { status, resolvedByUserId: actorId, resolvedAt: new Date(), resolutionNote: note || null },
+  });
+  await auditLog({
+    action: "RESOLVE_ESCALATION",
+    actorId,
+    targetId: firing.id,
+    targetType: "EscalationFiring",
+    organizationId: firing.organizationId,
+    metadata: { status, athleteId: firing.userId, ...metadata },
+  });
+  return closed;
+}
+
+export const escalationsResolvers = {
+  Query: {
+    escalationRules: async (_: unknown, { organizationId }: { organizationId: string }, context: Context) => {
+      await requireCoachOrAbove(context, organizationId);
+      return prisma.escalationRule.findMany({ where: { organizationId }, orderBy: { createdAt: "asc" } });
+    },
+
+    escalationFirings: async (
+      _: unknown,
+      { organizationId, userId, status, limit }: {
+        organizationId: string;
+        userId?: string;
+        status?: EscalationStatus;
+        limit?: number;
+      },
+      context: Context
+    ) => {
+      await requireCoachOrAbove(context, organizationId);
+      return prisma.escalationFiring.findMany({
+        where: { organizationId, ...(userId && { userId }), ...(status && { status }) },
+        include: { rule: true },
+        orderBy: { createdAt: "desc" },
+        take: Math.min(limit || 50, 200),
+      });
+    },
+  },
+
+  Mutation: {
+    createEscalationRule: async (_: unknown, { input }: { input: EscalationRuleInput }, context: Context) => {
+      const data = await parseRuleInput(input);
+      const actorId = await requireOrgAdmin(context, data.organizationId);
+
+      const rule = await prisma.escalationRule.create({ data });
+      await auditLog({
+        action: "SET_ESCALATION_RULE",
+        actorId,
+        targetId: rule.id,
+        targetType: "EscalationRule",
+        organizationId: rule.organizationId,
+        metadata: { ...data },
+      });
+      return rule;
+    },
+
+    updateEscalationRule: async (
+      _: unknown,
+      { id, input }: { id: string; input: EscalationRuleInput },
+      context: Context
+    ) => {
+      const existing = await prisma.escalationRule.findUnique({ where: { id } });
+      if (!existing) throw new Error("Escalation rule not found");
+      const actorId = await requireOrgAdmin(context, existing.organizationId);
+      const { organizationId, ...data } = await parseRuleInput(input);
+      if (organizationId !== existing.organizationId) throw new Error("Escalation rule not found");
+
+      const rule = await prisma.escalationRule.update({ where: { id }, data });
+      await auditLog({
+        action: "SET_ESCALATION_RULE",
+        actorId,
+        targetId: id,
+        targetType: "EscalationRule",
+        organizationId,
+        metadata: { ...data },
+      });
+      return rule;
+    },
+
+    deleteEscalationRule: async (_: unknown, { id }: { id: string }, context: Context) => {
+      const rule = await prisma.escalationRule.findUnique({ where: { id } });
+      if (!rule) throw new Error("Escalation rule not found");
+      const actorId = await requireOrgAdmin(context, rule.organizationId);
+
+      // Firings go with the rule; the audit log keeps what it was
+      await prisma.escalationRule.delete({ where: { id } });
+      await auditLog({
+        action: "DELETE_ESCALATION_RULE",
+        actorId,
+        targetId: id,
+        targetType: "EscalationRule",
+        organizationId: rule.organizationId,
+        metadata: { name: rule.name, trigger: rule.trigger, threshold: rule.threshold },
+      });
+      return true;
+    },
+
+    resolveEscalation: async (
+      _: unknown,
+      { id, applyProposedStatus, note }: { id: string; applyProposedStatus?: boolean; note?: string },
+      context: Context
+    ) => {
+      const { firing, actorId } = await openFiring(id, context);
+      const resolutionNote = validate(escalationNoteSchema, note ?? undefined);
+
+      if (applyProposedStatus) {
+        if (!firing.proposedStatus) throw new Error("This escalation doesn't propose a status change");
+        // Same permission as changing the status directly
+        await requireOrgRole(context, firing.organizationId, ATHLETE_STATUS_ROLES);
+        await updateAthleteStatus({
+          userId: firing.userId,
+          organizationId: firing.organizationId,
+          status: firing.proposedStatus,
+          note: `${firing.rule.name}: ${firing.detail}${resolutionNote ? ` — ${resolutionNote}` : ""}`,
+          changedByUserId: actorId,
+        });
+      }
+
+      return closeFiring(firing, actorId, "RESOLVED", resolutionNote, {
+        appliedStatus: applyProposedStatus ? firing.proposedStatus : null,
+      });
+    },
+
+    dismissEscalation: async (_: unknown, { id, note }: { id: string; note?: string }, context: Context) => {
+      const { firing, actorId } = await openFiring(id, context);
+      return closeFiring(firing, actorId, "DISMISSED", validate(escalationNoteSchema, note ?? undefined));
+    },
+  },
+
+  EscalationRule: {
+    team: (parent: EscalationRule, _: unknown, context: Context) =>
+      parent.teamId ? context.loaders.team.load(parent.teamId) : null,
+    createdAt: (parent: EscalationRule) => toISO(parent.createdAt),
+  },
+
+  EscalationFiring: {
+    rule: (parent: EscalationFiring & { rule?: EscalationRule }) =>
+      parent.rule ?? prisma.escalationRule.findUnique({ where: { id: parent.ruleId } }),
+    user: (parent: EscalationFiring, _: unknown, context: Context) => context.loaders.user.load(parent.userId),
+    resolvedBy: (parent: EscalationFiring, _: unknown, context: Context) =>
+      parent.resolvedByUserId ? context.loaders.user.load(parent.resolvedByUserId) : null,
+    resolvedAt: (parent: EscalationFiring) => (parent.resolvedAt ? toISO(parent.resolvedAt) : null),
+    createdAt: (parent: EscalationFiring) => toISO(parent.createdAt),
+  },
+};
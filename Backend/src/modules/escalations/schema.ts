@@ -0,0 +1,80 @@
+export const escalationsSchema = `#graphql
+  # ---- Enums ----
+  enum EscalationTrigger {
+    # threshold ABSENT records within periodDays
+    ABSENCES_IN_PERIOD
+    # threshold LATE check-ins in a row
+    LATE_STREAK
+    # attendance rate under threshold percent this season (or within periodDays)
+    ATTENDANCE_BELOW
+  }
+
+  enum EscalationStatus {
+    OPEN
+    RESOLVED
+    DISMISSED
+  }
+
+  # ---- Types ----
+  type EscalationRule {
+    id: ID!
+    team: Team
+    name: String!
+    trigger: EscalationTrigger!
+    threshold: Int!
+    periodDays: Int
+    notifyCoaches: Boolean!
+    notifyGuardians: Boolean!
+    createFollowUp: Boolean!
+    proposedStatus: AthleteStatus
+    isActive: Boolean!
+    createdAt: String!
+  }
+
+  # A rule that fired for an athlete. Follow-ups and proposed status changes
+  # stay OPEN until resolved or dismissed; notify-only firings have no status.
+  type EscalationFiring {
+    id: ID!
+    rule: EscalationRule!
+    user: User!
+    detail: String!
+    followUp: Boolean!
+    proposedStatus: AthleteStatus
+    status: EscalationStatus
+    resolvedBy: User
+    resolvedAt: String
+    resolutionNote: String
+    createdAt: String!
+  }
+
+  # ---- Inputs ----
+  input EscalationRuleInput {
+    organizationId: ID!
+    teamId: ID
+    name: String!
+    trigger: EscalationTrigger!
+    threshold: Int!
+    periodDays: Int
+    notifyCoaches: Boolean
+    notifyGuardians: Boolean
+    createFollowUp: Boolean
+    proposedStatus: AthleteStatus
+    isActive: Boolean
+  }
+
+  # ---- Queries ----
+  extend type Query {
+    escalationRules(organizationId: ID!): [EscalationRule!]!
+    escalationFirings(organizationId: ID!, userId: ID, status: EscalationStatus, limit: Int): [EscalationFiring!]!
+  }
+
+  # ---- Mutations ----
+  extend type Mutation {
+    createEscalationRule(input: EscalationRuleInput!): EscalationRule!
+    updateEscalationRule(id: ID!, input: EscalationRuleInput!): EscalationRule!
+    deleteEscalationRule(id: ID!): Boolean!
+    # Close an open firing; applyProposedStatus sets the athlete's status as proposed
+    resolveEscalation(id: ID!, applyProposedStatus: Boolean, note: String): EscalationFiring!
+    dismissEscalation(id: ID!, note: String): EscalationFiring!
+  }
+`;
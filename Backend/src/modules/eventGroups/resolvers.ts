@@ -0,0 +1,300 @@
+import type { EventGroup, EventGroupDocument, RsvpStatus } from "@prisma/client";
+import { prisma } from "../../db.js";
+import { requireAuth, requireCoachOrAbove } from "../../utils/permissions.js";
+import { auditLog } from "../../utils/audit.js";
+import { EVENT_DATE_SLACK_MS, eventTimeZone, getEventWindow, parseDateInput, toISO } from "../../utils/time.js";
+import { eventGroupInputSchema, excuseAttachmentInputSchema, gameBracketInputSchema, validate } from "../../utils/validate.js";
+import { isRsvpClosed } from "../../utils/rsvpCapacity.js";
+import { groupBracket, groupPools, poolStandings } from "../../utils/tournament.js";
+import { assertCanRsvpFor, saveRsvp } from "../../services/rsvps.js";
+import {
+  eventGroupDocumentPrefix,
+  generateEventGroupDocumentDownloadUrl,
+  generateEventGroupDocumentUploadUrl,
+  isAllowedAttachmentType,
+} from "../../s3.js";
+import type { Loaders } from "../../utils/dataLoaders.js";
+
+interface Context {
+  userId?: string;
+  loaders: Loaders;
+}
+
+interface EventGroupInput {
+  name: string;
+  description?: string | null;
+  startDate: string;
+  endDate: string;
+  travelNotes?: string | null;
+}
+
+async function findGroup(id: string, context: Context) {
+  const group = await prisma.eventGroup.findUnique({ where: { id } });
+  if (!group) throw new Error("Tournament not found");
+  const userId = await requireCoachOrAbove(context, group.organizationId);
+  return { group, userId };
+}
+
+function parseEventGroupInput(input: EventGroupInput) {
+  const data = validate(eventGroupInputSchema, {
+    name: input.name,
+    description: input.description ?? undefined,
+    startDate: input.startDate,
+    endDate: input.endDate,
+    travelNotes: input.travelNotes ?? undefined,
+  });
+  const startDate = parseDateInput(data.startDate);
+  const endDate = parseDateInput(data.endDate);
+  if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) throw new Error("Invalid tournament dates");
+  return {
+    name: data.name,
+    description: data.description || null,
+    startDate,
+    endDate,
+    travelNotes: data.travelNotes || null,
+  };
+}
+
+/** Scheduled GAME events in a group, for pool and bracket views. */
+function groupGames(eventGroupId: string) {
+  return prisma.event.findMany({
+    where: { eventGroupId, type: "GAME", status: { not: "CANCELLED" } },
+    orderBy: [{ date: "asc" }, { startTime: "asc" }],
+  });
+}
+
+export const eventGroupsResolvers = {
+  Query: {
+    eventGroups: async (
+      _: unknown,
+      { organizationId, upcoming }: { organizationId: string; upcoming?: boolean },
+      context: Context
+    ) => {
+      requireAuth(context);
+      return prisma.eventGroup.findMany({
+        where: {
+          organizationId,
+          ...(upcoming && { endDate: { gte: new Date(Date.now() - EVENT_DATE_SLACK_MS) } }),
+        },
+        orderBy: { startDate: "asc" },
+      });
+    },
+
+    eventGroup: async (_: unknown, { id }: { id: string }, context: Context) => {
+      requireAuth(context);
+      return prisma.eventGroup.findUnique({ where: { id } });
+    },
+  },
+
+  Mutation: {
+    createEventGroup: async (
+      _: unknown,
+      { organizationId, input }: { organizationId: string; input: EventGroupInput },
+      context: Context
+    ) => {
+      await requireCoachOrAbove(context, organizationId);
+      return prisma.eventGroup.create({ data: { ...parseEventGroupInput(input), organizationId } });
+    },
+
+    updateEventGroup: async (_: unknown, { id, input }: { id: string; input: EventGroupInput }, context: Context) => {
+      await findGroup(id, context);
+      return prisma.eventGroup.update({ where: { id }, data: parseEventGroupInput(input) });
+    },
+
+    deleteEventGroup: async (_: unknown, { id }: { id: string }, context: Context) => {
+      const { group, userId } = await findGroup(id, context);
+      // Sessions outlive the group, but pools and brackets only mean something inside it
+      await prisma.event.updateMany({
+        where: { eventGroupId: id },
+        data: { pool: null, bracketRound: null, bracketSlot: null },
+      });
+      await prisma.eventGroup.delete({ where: { id } });
+      await auditLog({
+        action: "DELETE_EVENT_GROUP",
+        actorId: userId,
+        targetId: id,
+        targetType: "EventGroup",
+        organizationId: group.organizationId,
+        metadata: { name: group.name },
+      });
+      return true;
+    },
+
+    addEventsToGroup: async (
+      _: unknown,
+      { eventGroupId, eventIds }: { eventGroupId: string; eventIds: string[] },
+      context: Context
+    ) => {
+      const { group } = await findGroup(eventGroupId, context);
+      const events = await prisma.event.findMany({
+        where: { id: { in: eventIds } },
+        select: { id: true, organizationId: true },
+      });
+      if (events.length !== new Set(eventIds).size || events.some((e) => e.organizationId !== group.organizationId)) {
+        throw new Error("Event not found");
+      }
+      await prisma.event.updateMany({ where: { id: { in: eventIds } }, data: { eventGroupId } });
+      return group;
+    },
+
+    removeEventFromGroup: async (_: unknown, { eventId }: { eventId: string }, context: Context) => {
+      const event = await prisma.event.findUnique({ where: { id: eventId } });
+      if (!event) throw new Error("Event not found");
+      await requireCoachOrAbove(context, event.organizationId);
+      return prisma.event.update({
+        where: { id: eventId },
+        data: { eventGroupId: null, pool: null, bracketRound: null, bracketSlot: null },
+      });
+    },
+
+    setGameBracket: async (
+      _: unknown,
+      {
+        eventId,
+        input,
+      }: { eventId: string; input: { pool?: string | null; bracketRound?: number | null; bracketSlot?: number | null } },
+      context: Context
+    ) => {
+      const event = await prisma.event.findUnique({ where: { id: eventId } });
+      if (!event) throw new Error("Event not found");
+      await requireCoachOrAbove(context, event.organizationId);
+      if (event.type !== "GAME") throw new Error("Only games can be placed in a pool or bracket");
+      if (!event.eventGroupId) throw new Error("Add the game to a tournament first");
+      const data = validate(gameBracketInputSchema, input);
+      const pool = data.pool || null;
+      const bracketRound = data.bracketRound ?? null;
+      if (pool && bracketRound != null) throw new Error("A game is either in a pool or in the bracket, not both");
+      if (bracketRound == null && data.bracketSlot != null) throw new Error("Pick a bracket round for the slot");
+      return prisma.event.update({
+        where: { id: eventId },
+        data: { pool, bracketRound, bracketSlot: bracketRound != null ? data.bracketSlot ?? null : null },
+      });
+    },
+
+    rsvpEventGroup: async (
+      _: unknown,
+      {
+        eventGroupId,
+        userId,
+        status,
+        note,
+      }: { eventGroupId: string; userId: string; status: RsvpStatus; note?: string },
+      context: Context
+    ) => {
+      const actorId = requireAuth(context);
+      const group = await prisma.eventGroup.findUnique({ where: { id: eventGroupId } });
+      if (!group) throw new Error("Tournament not found");
+      await assertCanRsvpFor(actorId, userId);
+
+      const memberships = await prisma.teamMember.findMany({ where: { userId }, select: { teamId: true } });
+      const teamIds = memberships.map((m) => m.teamId);
+      const events = await prisma.event.findMany({
+        where: {
+          eventGroupId,
+          status: "SCHEDULED",
+          OR: [
+            { teamId: { in: teamIds } },
+            { participatingTeams: { some: { id: { in: teamIds } } } },
+            { includedAthletes: { some: { userId } } },
+            { recurringEvent: { includedAthletes: { some: { userId } } } },
+          ],
+          NOT: [
+            { excludedAthletes: { some: { userId } } },
+            { recurringEvent: { excludedAthletes: { some: { userId } } } },
+          ],
+        },
+        include: { organization: { select: { timezone: true } }, venue: { select: { timezone: true } } },
+        orderBy: [{ date: "asc" }, { startTime: "asc" }],
+      });
+
+      // Sessions that have started or stopped taking RSVPs keep their existing answer
+      const now = new Date();
+      const open = events.filter(
+        (event) => !isRsvpClosed(event, now) && getEventWindow(event, eventTimeZone(event)).start > now
+      );
+      if (open.length === 0) throw new Error("No upcoming sessions in this tournament are taking RSVPs");
+
+      const rsvps = [];
+      for (const event of open) {
+        rsvps.push(await saveRsvp(event, { userId, status, note }, actorId));
+      }
+      return rsvps;
+    },
+
+    generateEventGroupDocumentUploadUrl: async (
+      _: unknown,
+      { eventGroupId, fileType }: { eventGroupId: string; fileType: string },
+      context: Context
+    ) => {
+      await findGroup(eventGroupId, context);
+      return generateEventGroupDocumentUploadUrl(eventGroupId, fileType);
+    },
+
+    addEventGroupDocument: async (
+      _: unknown,
+      {
+        eventGroupId,
+        input,
+      }: { eventGroupId: string; input: { key: string; fileName: string; contentType: string } },
+      context: Context
+    ) => {
+      const { userId } = await findGroup(eventGroupId, context);
+      const data = validate(excuseAttachmentInputSchema, input);
+      if (!data.key.startsWith(eventGroupDocumentPrefix(eventGroupId))) throw new Error("Invalid document");
+      if (!isAllowedAttachmentType(data.contentType)) throw new Error(`Unsupported file type: ${data.contentType}`);
+      return prisma.eventGroupDocument.create({ data: { ...data, eventGroupId, uploadedByUserId: userId } });
+    },
+
+    deleteEventGroupDocument: async (_: unknown, { id }: { id: string }, context: Context) => {
+      const document = await prisma.eventGroupDocument.findUnique({ where: { id } });
+      if (!document) throw new Error("Document not found");
+      await findGroup(document.eventGroupId, context);
+      await prisma.eventGroupDocument.delete({ where: { id } });
+      return true;
+    },
+  },
+
+  EventGroup: {
+    events: (parent: EventGroup) =>
+      prisma.event.findMany({
+        where: { eventGroupId: parent.id },
+        orderBy: [{ date: "asc" }, { startTime: "asc" }],
+      }),
+    documents: (parent: EventGroup) =>
+      prisma.eventGroupDocument.findMany({ where: { eventGroupId: parent.id }, orderBy: { createdAt: "asc" } }),
+    pools: async (parent: EventGroup) =>
+      groupPools(await groupGames(parent.id)).map((pool) => ({ ...pool, standings: poolStandings(pool.games) })),
+    bracket: async (parent: EventGroup) => groupBracket(await groupGames(parent.id)),
+    startDate: (parent: EventGroup) => toISO(parent.startDate),
+    endDate: (parent: EventGroup) => toISO(parent.endDate),
+    createdAt: (parent: EventGroup) => toISO(parent.createdAt),
+    updatedAt: (parent: EventGroup) => toISO(parent.updatedAt),
+  },
+
+  EventGroupDocument: {
+    // Anyone in the organization, or a guardian of someone in it, gets a link
+    url: async (parent: EventGroupDocument, _: unknown, context: Context) => {
+      if (!context.userId) return null;
+      const group = await context.loaders.eventGroup.load(parent.eventGroupId);
+      if (!group) return null;
+      const [member, guardianLink] = await Promise.all([
+        prisma.organizationMember.findUnique({
+          where: { userId_organizationId: { userId: context.userId, organizationId: group.organizationId } },
+          select: { id: true },
+        }),
+        prisma.guardianLink.findFirst({
+          where: { guardianId: context.userId, organizationId: group.organizationId },
+          select: { id: true },
+        }),
+      ]);
+      return member || guardianLink ? generateEventGroupDocumentDownloadUrl(parent.key, parent.fileName) : null;
+    },
+    uploadedBy: (parent: EventGroupDocument, _: unknown, context: Context) =>
+      context.loaders.user.load(parent.uploadedByUserId),
+    createdAt: (parent: EventGroupDocument) => toISO(parent.createdAt),
+  },
+
+  PoolStanding: {
+    team: (parent: { teamId: string }, _: unknown, context: Context) => context.loaders.team.load(parent.teamId),
+  },
+};
@@ -0,0 +1,101 @@
+export const eventGroupsSchema = `#graphql
+  # ---- Types ----
+  # A tournament or multi-day trip that owns several events across days and venues
+  type EventGroup {
+    id: ID!
+    organizationId: ID!
+    name: String!
+    description: String
+    startDate: String!
+    endDate: String!
+    travelNotes: String
+    # Sessions in date order
+    events: [Event!]!
+    documents: [EventGroupDocument!]!
+    pools: [TournamentPool!]!
+    bracket: [BracketRound!]!
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  type EventGroupDocument {
+    id: ID!
+    fileName: String!
+    contentType: String!
+    # Short-lived link; null unless the viewer belongs to the organization
+    url: String
+    uploadedBy: User!
+    createdAt: String!
+  }
+
+  # Round-robin games sharing a pool name
+  type TournamentPool {
+    name: String!
+    games: [Event!]!
+    standings: [PoolStanding!]!
+  }
+
+  # One of our teams' scored games within a pool
+  type PoolStanding {
+    team: Team!
+    record: GameRecord!
+  }
+
+  # Knockout games in one round, ordered by bracket slot
+  type BracketRound {
+    round: Int!
+    name: String!
+    games: [Event!]!
+  }
+
+  type EventGroupDocumentUpload {
+    uploadUrl: String!
+    # Pass back to addEventGroupDocument once uploaded
+    key: String!
+  }
+
+  # ---- Inputs ----
+  input EventGroupInput {
+    name: String!
+    description: String
+    startDate: String!
+    endDate: String!
+    travelNotes: String
+  }
+
+  input EventGroupDocumentInput {
+    key: String!
+    fileName: String!
+    contentType: String!
+  }
+
+  # Set a pool for round-robin games, or a round and slot for knockout games
+  input GameBracketInput {
+    pool: String
+    bracketRound: Int
+    bracketSlot: Int
+  }
+
+  # ---- Queries ----
+  extend type Query {
+    # upcoming leaves out groups that have already ended
+    eventGroups(organizationId: ID!, upcoming: Boolean): [EventGroup!]!
+    eventGroup(id: ID!): EventGroup
+  }
+
+  # ---- Mutations ----
+  extend type Mutation {
+    createEventGroup(organizationId: ID!, input: EventGroupInput!): EventGroup!
+    updateEventGroup(id: ID!, input: EventGroupInput!): EventGroup!
+    # Events in the group are kept and become standalone
+    deleteEventGroup(id: ID!): Boolean!
+    addEventsToGroup(eventGroupId: ID!, eventIds: [ID!]!): EventGroup!
+    removeEventFromGroup(eventId: ID!): Event!
+    setGameBracket(eventId: ID!, input: GameBracketInput!): Event!
+    # RSVPs the athlete to every upcoming session they're expected at whose RSVPs are still open
+    rsvpEventGroup(eventGroupId: ID!, userId: ID!, status: RsvpStatus!, note: String): [EventRsvp!]!
+    generateEventGroupDocumentUploadUrl(eventGroupId: ID!, fileType: String!): EventGroupDocumentUpload!
+    addEventGroupDocument(eventGroupId: ID!, input: EventGroupDocumentInput!): EventGroupDocument!
+    deleteEventGroupDocument(id: ID!): Boolean!
+  }
+`;
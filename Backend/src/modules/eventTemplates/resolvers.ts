@@ -0,0 +1,154 @@
+import type { EventTemplate, EventType } from "@prisma/client";
+import { prisma } from "../../db.js";
+import { requireCoachOrAbove } from "../../utils/permissions.js";
+import { auditLog } from "../../utils/audit.js";
+import { toISO } from "../../utils/time.js";
+import { eventTemplateInputSchema, validate } from "../../utils/validate.js";
+import type { Loaders } from "../../utils/dataLoaders.js";
+
+interface Context {
+  userId?: string;
+  loaders: Loaders;
+}
+
+interface EventTemplateInput {
+  name: string;
+  title: string;
+  type: EventType;
+  durationMinutes: number;
+  teamId?: string | null;
+  venueId?: string | null;
+  location?: string | null;
+  description?: string | null;
+  reminderMinutes?: number | null;
+  includedAthleteIds?: string[] | null;
+  excludedAthleteIds?: string[] | null;
+  staffUserIds?: string[] | null;
+}
+
+async function findTemplate(id: string, context: Context) {
+  const template = await prisma.eventTemplate.findUnique({ where: { id } });
+  if (!template) throw new Error("Template not found");
+  const userId = await requireCoachOrAbove(context, template.organizationId);
+  return { template, userId };
+}
+
+async function parseEventTemplateInput(organizationId: string, input: EventTemplateInput) {
+  const data = validate(eventTemplateInputSchema, {
+    ...input,
+    teamId: input.teamId ?? undefined,
+    venueId: input.venueId ?? undefined,
+    location: input.location ?? undefined,
+    description: input.description ?? undefined,
+    includedAthleteIds: input.includedAthleteIds ?? undefined,
+    excludedAthleteIds: input.excludedAthleteIds ?? undefined,
+    staffUserIds: input.staffUserIds ?? undefined,
+  });
+  const includedAthleteIds = [...new Set(data.includedAthleteIds ?? [])];
+  const excludedAthleteIds = [...new Set(data.excludedAthleteIds ?? [])];
+  const staffUserIds = [...new Set(data.staffUserIds ?? [])];
+  if (includedAthleteIds.some((id) => excludedAthleteIds.includes(id))) {
+    throw new Error("An athlete can't be both included and excluded");
+  }
+
+  const userIds = [...new Set([...includedAthleteIds, ...excludedAthleteIds, ...staffUserIds])];
+  const [team, venue, memberCount] = await Promise.all([
+    data.teamId ? prisma.team.findUnique({ where: { id: data.teamId }, select: { organizationId: true } }) : null,
+    data.venueId ? prisma.venue.findUnique({ where: { id: data.venueId }, select: { organizationId: true } }) : null,
+    userIds.length > 0 ? prisma.organizationMember.count({ where: { organizationId, userId: { in: userIds } } }) : 0,
+  ]);
+  if (data.teamId && team?.organizationId !== organizationId) throw new Error("Team not found");
+  if (data.venueId && venue?.organizationId !== organizationId) throw new Error("Venue not found");
+  if (memberCount !== userIds.length) throw new Error("Everyone on a template must belong to the organization");
+
+  return {
+    name: data.name,
+    title: data.title,
+    type: data.type,
+    durationMinutes: data.durationMinutes,
+    teamId: data.teamId || null,
+    venueId: data.venueId || null,
+    location: data.location || null,
+    description: data.description || null,
+    reminderMinutes: data.reminderMinutes ?? null,
+    includedAthleteIds,
+    excludedAthleteIds,
+    staffUserIds,
+  };
+}
+
+/** Users in `ids` order, skipping anyone since deleted. */
+async function loadUsers(ids: string[], context: Context) {
+  const users = await Promise.all(ids.map((id) => context.loaders.user.load(id)));
+  return users.filter((user) => user !== null);
+}
+
+export const eventTemplatesResolvers = {
+  Query: {
+    eventTemplates: async (
+      _: unknown,
+      { organizationId, teamId }: { organizationId: string; teamId?: string },
+      context: Context
+    ) => {
+      await requireCoachOrAbove(context, organizationId);
+      return prisma.eventTemplate.findMany({
+        where: { organizationId, ...(teamId && { OR: [{ teamId: null }, { teamId }] }) },
+        orderBy: { name: "asc" },
+      });
+    },
+
+    eventTemplate: async (_: unknown, { id }: { id: string }, context: Context) => {
+      const { template } = await findTemplate(id, context);
+      return template;
+    },
+  },
+
+  Mutation: {
+    createEventTemplate: async (
+      _: unknown,
+      { organizationId, input }: { organizationId: string; input: EventTemplateInput },
+      context: Context
+    ) => {
+      await requireCoachOrAbove(context, organizationId);
+      return prisma.eventTemplate.create({
+        data: { ...(await parseEventTemplateInput(organizationId, input)), organizationId },
+      });
+    },
+
+    updateEventTemplate: async (_: unknown, { id, input }: { id: string; input: EventTemplateInput }, context: Context) => {
+      const { template } = await findTemplate(id, context);
+      return prisma.eventTemplate.update({
+        where: { id },
+        data: await parseEventTemplateInput(template.organizationId, input),
+      });
+    },
+
+    deleteEventTemplate: async (_: unknown, { id }: { id: string }, context: Context) => {
+      const { template, userId } = await findTemplate(id, context);
+      await prisma.eventTemplate.delete({ where: { id } });
+      await auditLog({
+        action: "DELETE_EVENT_TEMPLATE",
+        actorId: userId,
+        targetId: id,
+        targetType: "EventTemplate",
+        organizationId: template.organizationId,
+        metadata: { name: template.name },
+      });
+      return true;
+    },
+  },
+
+  EventTemplate: {
+    team: (parent: EventTemplate, _: unknown, context: Context) =>
+      parent.teamId ? context.loaders.team.load(parent.teamId) : null,
+    venue: (parent: EventTemplate, _: unknown, context: Context) =>
+      parent.venueId ? context.loaders.venue.load(parent.venueId) : null,
+    includedAthletes: (parent: EventTemplate, _: unknown, context: Context) =>
+      loadUsers(parent.includedAthleteIds, context),
+    excludedAthletes: (parent: EventTemplate, _: unknown, context: Context) =>
+      loadUsers(parent.excludedAthleteIds, context),
+    staff: (parent: EventTemplate, _: unknown, context: Context) => loadUsers(parent.staffUserIds, context),
+    createdAt: (parent: EventTemplate) => toISO(parent.createdAt),
+    updatedAt: (parent: EventTemplate) => toISO(parent.updatedAt),
+  },
+};
@@ -0,0 +1,54 @@
+export const eventTemplatesSchema = `#graphql
+  # ---- Types ----
+  # Reusable defaults for scheduling; org-wide when team is null
+  type EventTemplate {
+    id: ID!
+    organizationId: ID!
+    team: Team
+    name: String!
+    title: String!
+    type: EventType!
+    durationMinutes: Int!
+    venue: Venue
+    location: String
+    description: String
+    # Overrides members' reminder preference on events created from the template
+    reminderMinutes: Int
+    includedAthletes: [User!]!
+    excludedAthletes: [User!]!
+    staff: [User!]!
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  # ---- Inputs ----
+  input EventTemplateInput {
+    name: String!
+    title: String!
+    type: EventType!
+    durationMinutes: Int!
+    teamId: ID
+    venueId: ID
+    location: String
+    description: String
+    reminderMinutes: Int
+    includedAthleteIds: [ID!]
+    excludedAthleteIds: [ID!]
+    staffUserIds: [ID!]
+  }
+
+  # ---- Queries ----
+  extend type Query {
+    # With teamId, only org-wide templates and that team's
+    eventTemplates(organizationId: ID!, teamId: ID): [EventTemplate!]!
+    eventTemplate(id: ID!): EventTemplate
+  }
+
+  # ---- Mutations ----
+  extend type Mutation {
+    createEventTemplate(organizationId: ID!, input: EventTemplateInput!): EventTemplate!
+    # Events already created from the template are left as they are
+    updateEventTemplate(id: ID!, input: EventTemplateInput!): EventTemplate!
+    deleteEventTemplate(id: ID!): Boolean!
+  }
+`;
@@ -1,10 +1,42 @@
 import { prisma } from "../../db.js";
-import { EventType, RecurrenceFrequency, TeamRole } from "@prisma/client";
-import { requireCoachOrAbove } from "../../utils/permissions.js";
-import { validate, createEventInputSchema, updateEventInputSchema } from "../../utils/validate.js";
-import { parseDateInput, toISO } from "../../utils/time.js";
-import { generateRecurringDates } from "../../utils/recurrence.js";
+import { EventType, HomeAway, RecurrenceFrequency, TeamRole } from "@prisma/client";
+import { requireAuth, requireCoachOrAbove, requireOrgAdmin } from "../../utils/permissions.js";
+import {
+  validate,
+  createEventInputSchema,
+  updateEventInputSchema,
+  cancelEventInputSchema,
+  rescheduleEventInputSchema,
+  recurringEventChangesSchema,
+  venueInputSchema,
+  blackoutDateInputSchema,
+} from "../../utils/validate.js";
+import { eventTimeZone, parseDateInput, toISO } from "../../utils/time.js";
+import { buildVCalendar, formatEventLocation, type ICalEvent } from "../../utils/ical.js";
+import { describeRRule, generateRecurringDates, parseRRule, withRRuleUntil } from "../../utils/recurrence.js";
+import { feedUrl, recordDeletedEvents } from "../../services/calendarFeed.js";
+import {
+  buildSeriesICalEvents,
+  getBlackoutRanges,
+  recordOccurrenceDeletion,
+  recordOccurrenceOverride,
+  updateRecurringSeries,
+  type RecurringEditScope,
+  type RecurringEventChanges,
+} from "../../services/recurringSeries.js";
+import {
+  assertNoScheduleConflicts,
+  findScheduleConflicts,
+  type ScheduleConflict,
+} from "../../services/scheduleConflicts.js";
+import { notifyEventChange } from "../../notifications/eventUpdates.js";
 import { parseTimeString } from "../../utils/time.js";
+import { gameResult } from "../../utils/gameRecord.js";
+import { isRsvpClosed, openSpots } from "../../utils/rsvpCapacity.js";
+import { applyEventTemplate, type TemplatedEventInput } from "../../utils/eventTemplate.js";
+import { countGoing, promoteFromWaitlist } from "../../services/rsvpWaitlist.js";
+import { importSchedule } from "../../services/scheduleImport.js";
+import { auditLog } from "../../utils/audit.js";
 import type { Loaders } from "../../utils/dataLoaders.js";
 
 interface Context {
@@ -12,6 +44,55 @@ interface Context {
   loaders: Loaders;
 }
 
+/** Opponent and home/away only make sense on games, against the org's own active opponents. */
+async function assertGameDetails(
+  type: EventType,
+  organizationId: string,
+  { opponentId, homeAway }: { opponentId?: string | null; homeAway?: HomeAway | null }
+) {
+  if (type !== "GAME") {
+    if (opponentId || homeAway) throw new Error("Only games can have an opponent or home/away");
+    return;
+  }
+  if (opponentId) {
+    const opponent = await prisma.opponent.findUnique({
+      where: { id: opponentId },
+      select: { organizationId: true, archivedAt: true },
+    });
+    if (!opponent || opponent.organizationId !== organizationId) throw new Error("Opponent not found");
+    if (opponent.archivedAt) throw new Error("That opponent has been archived");
+  }
+}
+
+/** The ids in `userIds` that still belong to the organization, in order. */
+async function keepOrgMembers(organizationId: string, userIds: string[]): Promise<string[]> {
+  if (userIds.length === 0) return [];
+  const members = await prisma.organizationMember.findMany({
+    where: { organizationId, userId: { in: userIds } },
+    select: { userId: true },
+  });
+  const memberIds = new Set(members.map((m) => m.userId));
+  return userIds.filter((id) => memberIds.has(id));
+}
+
+/**
+ * Fill a new event or series from the template it names, if any, dropping
+ * athletes and staff who have since left the organization.
+ */
+async function fillFromTemplate<T extends TemplatedEventInput & { organizationId: string; templateId?: string }>(
+  input: T
+) {
+  const template = input.templateId ? await prisma.eventTemplate.findUnique({ where: { id: input.templateId } }) : null;
+  if (input.templateId && template?.organizationId !== input.organizationId) throw new Error("Template not found");
+  const filled = applyEventTemplate(template, input);
+  const [includedUserIds, excludedUserIds, staffUserIds] = await Promise.all([
+    keepOrgMembers(input.organizationId, filled.includedUserIds),
+    keepOrgMembers(input.organizationId, filled.excludedUserIds),
+    keepOrgMembers(input.organizationId, filled.staffUserIds),
+  ]);
+  return { ...filled, includedUserIds, excludedUserIds, staffUserIds };
+}
+
 export const eventResolvers = {
   Query: {
     // Venue queries
@@ -26,6 +107,69 @@ export const eventResolvers = {
       });
     },
 
+    blackoutDates: async (_: unknown, { organizationId }: { organizationId: string }, context: Context) => {
+      requireAuth(context);
+      return prisma.blackoutDate.findMany({
+        where: { organizationId },
+        orderBy: { startDate: "asc" },
+      });
+    },
+
+    // Everything booked at a venue in a date range, for spotting free slots
+    venueSchedule: async (
+      _: unknown,
+      { venueId, startDate, endDate }: { venueId: string; startDate: string; endDate: string },
+      context: Context
+    ) => {
+      requireAuth(context);
+      const start = parseDateInput(startDate);
+      const end = parseDateInput(endDate);
+      return prisma.event.findMany({
+        where: {
+          venueId,
+          status: "SCHEDULED",
+          isAdHoc: false,
+          OR: [{ date: { gte: start, lte: end } }, { date: { lt: start }, endDate: { gte: start } }],
+        },
+        orderBy: [{ date: "asc" }, { startTime: "asc" }],
+      });
+    },
+
+    scheduleConflicts: async (
+      _: unknown,
+      {
+        input,
+      }: {
+        input: {
+          organizationId: string;
+          venueId?: string;
+          teamIds?: string[];
+          date: string;
+          endDate?: string;
+          startTime: string;
+          endTime: string;
+          ignoreEventId?: string;
+        };
+      },
+      context: Context
+    ) => {
+      requireAuth(context);
+      return findScheduleConflicts({
+        organizationId: input.organizationId,
+        venueId: input.venueId,
+        teamIds: input.teamIds,
+        slots: [
+          {
+            date: parseDateInput(input.date),
+            endDate: input.endDate ? parseDateInput(input.endDate) : null,
+            startTime: input.startTime,
+            endTime: input.endTime,
+          },
+        ],
+        ignoreEventIds: input.ignoreEventId ? [input.ignoreEventId] : undefined,
+      });
+    },
+
     // Calendar export
     exportCalendar: async (
       _: unknown,
@@ -48,89 +192,46 @@ export const eventResolvers = {
             date: { gte: new Date(startDate), lte: new Date(endDate) },
           }),
         },
-        include: { venue: true, team: true },
+        include: { venue: true, team: true, organization: { select: { timezone: true } } },
         orderBy: { date: "asc" },
       });
 
-      // Helper: parse "6:00 PM" → { hours, minutes }
-      function parseTime(timeStr: string): { h: number; m: number } {
-        const match = timeStr?.match(/^(\d{1,2}):(\d{2})\s*(AM|PM)$/i);
-        if (!match) return { h: 12, m: 0 };
-        let h = parseInt(match[1]);
-        const m = parseInt(match[2]);
-        const ampm = match[3].toUpperCase();
-        if (ampm === "PM" && h !== 12) h += 12;
-        if (ampm === "AM" && h === 12) h = 0;
-        return { h, m };
-      }
+      const org = await prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: { timezone: true },
+      });
 
-      // Format Date + time to iCal datetime: YYYYMMDDTHHMMSSZ
-      function toICalDate(date: Date, timeStr: string): string {
-        const year = date.getUTCFullYear();
-        const month = date.getUTCMonth();
-        const day = date.getUTCDate();
-        const { h, m } = parseTime(timeStr);
-        const dt = new Date(Date.UTC(year, month, day, h, m, 0));
-        return dt.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
-      }
+      // Series defined by an RRULE are exported as the rule itself rather than expanded occurrences
+      const ruleSeries = await prisma.recurringEvent.findMany({
+        where: {
+          id: { in: [...new Set(events.flatMap((e) => (e.recurringEventId ? [e.recurringEventId] : [])))] },
+          rrule: { not: null },
+        },
+        select: { id: true },
+      });
+      const ruleSeriesIds = new Set(ruleSeries.map((r) => r.id));
+      const seriesItems = (await Promise.all(ruleSeries.map((r) => buildSeriesICalEvents(r.id)))).flat();
 
-      // Escape special iCal characters
-      function escIcal(str: string): string {
-        return str.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\n/g, "\\n");
-      }
+      const items: ICalEvent[] = [
+        ...events
+          .filter((e) => !e.recurringEventId || !ruleSeriesIds.has(e.recurringEventId))
+          .map((e) => ({
+            ...e,
+            timeZone: eventTimeZone(e),
+            location: formatEventLocation(e),
+          })),
+        ...seriesItems,
+      ];
 
-      const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
-
-      const vevents = events.map((e) => {
-        const isAllDay = e.startTime === "All Day";
-        let dtstart: string;
-        let dtend: string;
-
-        if (isAllDay) {
-          const d = e.date;
-          const y = d.getUTCFullYear();
-          const mo = String(d.getUTCMonth() + 1).padStart(2, "0");
-          const da = String(d.getUTCDate()).padStart(2, "0");
-          dtstart = `DTSTART;VALUE=DATE:${y}${mo}${da}`;
-          const endD = e.endDate || e.date;
-          const nextDay = new Date(endD);
-          nextDay.setUTCDate(nextDay.getUTCDate() + 1);
-          const ey = nextDay.getUTCFullYear();
-          const emo = String(nextDay.getUTCMonth() + 1).padStart(2, "0");
-          const eda = String(nextDay.getUTCDate()).padStart(2, "0");
-          dtend = `DTEND;VALUE=DATE:${ey}${emo}${eda}`;
-        } else {
-          dtstart = `DTSTART:${toICalDate(e.date, e.startTime)}`;
-          dtend = `DTEND:${toICalDate(e.endDate || e.date, e.endTime)}`;
-        }
+      return buildVCalendar(items, { timeZone: org?.timezone });
+    },
 
-        const location = e.venue
-          ? [e.venue.name, e.venue.address, e.venue.city, e.venue.country].filter(Boolean).join(", ")
-          : e.location || "";
-
-        const lines = [
-          "BEGIN:VEVENT",
-          `UID:event-${e.id}@athletiq.app`,
-          `DTSTAMP:${stamp}`,
-          dtstart,
-          dtend,
-          `SUMMARY:${escIcal(e.title)}`,
-          ...(location ? [`LOCATION:${escIcal(location)}`] : []),
-          ...(e.description ? [`DESCRIPTION:${escIcal(e.description)}`] : []),
-          "END:VEVENT",
-        ];
-        return lines.join("\r\n");
-      });
-
-      return [
-        "BEGIN:VCALENDAR",
-        "VERSION:2.0",
-        "PRODID:-//AthletiQ//Events//EN",
-        "CALSCALE:GREGORIAN",
-        "METHOD:PUBLISH",
-        ...vevents,
-        "END:VCALENDAR",
-      ].join("\r\n");
+    myCalendarFeeds: async (_: unknown, { organizationId }: { organizationId: string }, context: Context) => {
+      const userId = requireAuth(context);
+      return prisma.calendarFeed.findMany({
+        where: { userId, organizationId, revokedAt: null },
+        orderBy: { createdAt: "asc" },
+      });
     },
 
     // Event queries
@@ -213,13 +314,14 @@ export const eventResolvers = {
 
       const baseWhere = { organizationId, isAdHoc: false, OR: teamFilter };
 
-      const [practice, meeting, event] = await Promise.all([
+      const [practice, meeting, event, game] = await Promise.all([
         prisma.event.count({ where: { ...baseWhere, type: "PRACTICE" } }),
         prisma.event.count({ where: { ...baseWhere, type: "MEETING" } }),
         prisma.event.count({ where: { ...baseWhere, type: "EVENT" } }),
+        prisma.event.count({ where: { ...baseWhere, type: "GAME" } }),
       ]);
 
-      return { PRACTICE: practice, MEETING: meeting, EVENT: event };
+      return { PRACTICE: practice, MEETING: meeting, EVENT: event, GAME: game };
     },
 
     upcomingEvents: async (
@@ -275,16 +377,48 @@ export const eventResolvers = {
     // Venue mutations
     createVenue: async (
       _: unknown,
-      { input }: { input: { name: string; address?: string; city?: string; state?: string; country?: string; notes?: string; organizationId: string } }
+      { input }: { input: { name: string; address?: string; city?: string; state?: string; country?: string; notes?: string; timezone?: string; organizationId: string } }
     ) => {
+      validate(venueInputSchema, input);
       return prisma.venue.create({ data: input });
     },
 
     updateVenue: async (
       _: unknown,
-      { id, input }: { id: string; input: { name?: string; address?: string; city?: string; state?: string; country?: string; notes?: string } }
+      { id, input }: { id: string; input: { name?: string; address?: string; city?: string; state?: string; country?: string; notes?: string; timezone?: string | null } }
+    ) => {
+      validate(venueInputSchema, input);
+      return prisma.venue.update({
+        where: { id },
+        // An empty timezone clears the override so the venue follows the org zone again
+        data: { ...input, ...(input.timezone !== undefined && { timezone: input.timezone || null }) },
+      });
+    },
+
+    // Blackout dates only affect series generated or regenerated after they are added
+    createBlackoutDate: async (
+      _: unknown,
+      { input }: { input: { organizationId: string; name: string; startDate: string; endDate?: string } },
+      context: Context
     ) => {
-      return prisma.venue.update({ where: { id }, data: input });
+      await requireOrgAdmin(context, input.organizationId);
+      const data = validate(blackoutDateInputSchema, { ...input, endDate: input.endDate || input.startDate });
+      return prisma.blackoutDate.create({
+        data: {
+          organizationId: input.organizationId,
+          name: data.name,
+          startDate: parseDateInput(data.startDate),
+          endDate: parseDateInput(data.endDate),
+        },
+      });
+    },
+
+    deleteBlackoutDate: async (_: unknown, { id }: { id: string }, context: Context) => {
+      const blackout = await prisma.blackoutDate.findUnique({ where: { id }, select: { organizationId: true } });
+      if (!blackout) throw new Error("Blackout date not found");
+      await requireOrgAdmin(context, blackout.organizationId);
+      await prisma.blackoutDate.delete({ where: { id } });
+      return true;
     },
 
     deleteVenue: async (_: unknown, { id }: { id: string }) => {
@@ -295,42 +429,145 @@ export const eventResolvers = {
       return true;
     },
 
+    // Calendar feed mutations
+    createCalendarFeed: async (
+      _: unknown,
+      { organizationId, teamId }: { organizationId: string; teamId?: string },
+      context: Context
+    ) => {
+      const userId = requireAuth(context);
+      const member = await prisma.organizationMember.findUnique({
+        where: { userId_organizationId: { userId, organizationId } },
+        select: { role: true },
+      });
+      if (!member) throw new Error("Not authorized");
+
+      if (teamId) {
+        const team = await prisma.team.findUnique({ where: { id: teamId }, select: { organizationId: true } });
+        if (!team || team.organizationId !== organizationId) throw new Error("Team not found");
+        // Staff can subscribe to any team; everyone else only to teams they or their athletes belong to
+        const isStaff = ["OWNER", "ADMIN", "MANAGER", "COACH"].includes(member.role);
+        if (!isStaff) {
+          const links = await prisma.guardianLink.findMany({
+            where: { guardianId: userId, organizationId },
+            select: { athleteId: true },
+          });
+          const onTeam = await prisma.teamMember.findFirst({
+            where: { teamId, userId: { in: [userId, ...links.map((l) => l.athleteId)] } },
+          });
+          if (!onTeam) throw new Error("Not authorized");
+        }
+      }
+
+      // Reuse an active feed so repeated clicks don't mint a pile of URLs
+      const existing = await prisma.calendarFeed.findFirst({
+        where: { userId, organizationId, teamId: teamId ?? null, revokedAt: null },
+      });
+      if (existing) return existing;
+
+      return prisma.calendarFeed.create({
+        data: { userId, organizationId, teamId: teamId ?? null },
+      });
+    },
+
+    revokeCalendarFeed: async (_: unknown, { id }: { id: string }, context: Context) => {
+      const userId = requireAuth(context);
+      const feed = await prisma.calendarFeed.findUnique({ where: { id } });
+      if (!feed) throw new Error("Calendar feed not found");
+      if (feed.userId !== userId) await requireOrgAdmin(context, feed.organizationId);
+      await prisma.calendarFeed.update({ where: { id }, data: { revokedAt: new Date() } });
+      return true;
+    },
+
     // Event mutations
     createEvent: async (
       _: unknown,
       {
-        input,
+        input: requested,
       }: {
         input: {
-          title: string;
-          type: EventType;
+          templateId?: string;
+          title?: string;
+          type?: EventType;
           date: string;
           endDate?: string;
           startTime: string;
-          endTime: string;
+          endTime?: string;
           location?: string;
           description?: string;
           organizationId: string;
           teamId?: string;
           venueId?: string;
           participatingTeamIds?: string[];
+          opponentId?: string;
+          homeAway?: HomeAway;
+          capacity?: number | null;
+          rsvpDeadline?: string | null;
+          eventGroupId?: string;
+          reminderMinutes?: number | null;
+          includedUserIds?: string[];
+          excludedUserIds?: string[];
+          staffUserIds?: string[];
+          allowConflicts?: boolean;
         };
       },
       context: { userId?: string }
     ) => {
-      await requireCoachOrAbove(context, input.organizationId);
+      await requireCoachOrAbove(context, requested.organizationId);
+      const input = await fillFromTemplate(requested);
       validate(createEventInputSchema, input);
-      const { participatingTeamIds, endDate, ...eventData } = input;
+      await assertGameDetails(input.type, input.organizationId, input);
+      if (input.eventGroupId) {
+        const group = await prisma.eventGroup.findUnique({
+          where: { id: input.eventGroupId },
+          select: { organizationId: true },
+        });
+        if (!group || group.organizationId !== input.organizationId) throw new Error("Tournament not found");
+      }
+      const {
+        templateId: _templateId,
+        participatingTeamIds,
+        endDate,
+        allowConflicts,
+        rsvpDeadline,
+        includedUserIds,
+        excludedUserIds,
+        staffUserIds,
+        ...eventData
+      } = input;
+      if (!allowConflicts) {
+        await assertNoScheduleConflicts({
+          organizationId: input.organizationId,
+          venueId: input.venueId,
+          teamIds: [...(input.teamId ? [input.teamId] : []), ...(participatingTeamIds ?? [])],
+          slots: [
+            {
+              date: parseDateInput(input.date),
+              endDate: endDate ? parseDateInput(endDate) : null,
+              startTime: input.startTime,
+              endTime: input.endTime,
+            },
+          ],
+        });
+      }
       return prisma.event.create({
         data: {
           ...eventData,
           date: parseDateInput(input.date),
           ...(endDate && { endDate: parseDateInput(endDate) }),
+          ...(rsvpDeadline && { rsvpDeadline: new Date(rsvpDeadline) }),
           ...(participatingTeamIds && participatingTeamIds.length > 0 && {
             participatingTeams: {
               connect: participatingTeamIds.map((id) => ({ id })),
             },
           }),
+          ...(includedUserIds.length > 0 && {
+            includedAthletes: { create: includedUserIds.map((userId) => ({ userId })) },
+          }),
+          ...(excludedUserIds.length > 0 && {
+            excludedAthletes: { create: excludedUserIds.map((userId) => ({ userId })) },
+          }),
+          ...(staffUserIds.length > 0 && { staff: { create: staffUserIds.map((userId) => ({ userId })) } }),
         },
       });
     },
@@ -348,6 +585,11 @@ export const eventResolvers = {
         location,
         description,
         venueId,
+        opponentId,
+        homeAway,
+        capacity,
+        rsvpDeadline,
+        allowConflicts,
       }: {
         id: string;
         title?: string;
@@ -359,32 +601,103 @@ export const eventResolvers = {
         location?: string;
         description?: string;
         venueId?: string | null;
+        opponentId?: string | null;
+        homeAway?: HomeAway | null;
+        capacity?: number | null;
+        rsvpDeadline?: string | null;
+        allowConflicts?: boolean;
       },
       context: { userId?: string }
     ) => {
-      const event = await prisma.event.findUnique({ where: { id }, select: { organizationId: true } });
-      if (event) await requireCoachOrAbove(context, event.organizationId);
-      validate(updateEventInputSchema, { title, type, date, startTime, endTime, location, description, venueId: venueId ?? undefined });
-      return prisma.event.update({
+      const event = await prisma.event.findUnique({
         where: { id },
-        data: {
-          ...(title && { title }),
-          ...(type && { type }),
-          ...(date && { date: parseDateInput(date) }),
-          ...(endDate !== undefined && { endDate: endDate ? parseDateInput(endDate) : null }),
-          ...(startTime && { startTime }),
-          ...(endTime && { endTime }),
-          ...(location !== undefined && { location }),
-          ...(description !== undefined && { description }),
-          ...(venueId !== undefined && { venueId: venueId || null }),
+        select: {
+          id: true,
+          organizationId: true,
+          type: true,
+          opponentId: true,
+          homeAway: true,
+          date: true,
+          endDate: true,
+          startTime: true,
+          endTime: true,
+          status: true,
+          teamId: true,
+          venueId: true,
+          recurringEventId: true,
+          participatingTeams: { select: { id: true } },
         },
       });
+      if (event) await requireCoachOrAbove(context, event.organizationId);
+      validate(updateEventInputSchema, {
+        title,
+        type,
+        date,
+        startTime,
+        endTime,
+        location,
+        description,
+        venueId: venueId ?? undefined,
+        capacity,
+        rsvpDeadline,
+      });
+      if (event) await assertGameDetails(type ?? event.type, event.organizationId, { opponentId, homeAway });
+      // Switching a game to another type drops its opponent; scores stay for history
+      const leavesGame = !!type && type !== "GAME" && event?.type === "GAME";
+      const data = {
+        ...(title && { title }),
+        ...(type && { type }),
+        ...(date && { date: parseDateInput(date) }),
+        ...(endDate !== undefined && { endDate: endDate ? parseDateInput(endDate) : null }),
+        ...(startTime && { startTime }),
+        ...(endTime && { endTime }),
+        ...(location !== undefined && { location }),
+        ...(description !== undefined && { description }),
+        ...(venueId !== undefined && { venueId: venueId || null }),
+        ...(opponentId !== undefined && { opponentId: opponentId || null }),
+        ...(homeAway !== undefined && { homeAway: homeAway || null }),
+        ...(leavesGame && { opponentId: null, homeAway: null }),
+        ...(capacity !== undefined && { capacity }),
+        ...(rsvpDeadline !== undefined && { rsvpDeadline: rsvpDeadline ? new Date(rsvpDeadline) : null }),
+      };
+      // Only re-check when the booking actually moves, so an event that already
+      // clashes can still have its title or notes edited
+      const updated = event && { ...event, ...data };
+      const moved =
+        updated &&
+        (updated.date.getTime() !== event.date.getTime() ||
+          updated.endDate?.getTime() !== event.endDate?.getTime() ||
+          updated.startTime !== event.startTime ||
+          updated.endTime !== event.endTime ||
+          updated.venueId !== event.venueId);
+      if (updated && moved && event.status === "SCHEDULED" && !allowConflicts) {
+        await assertNoScheduleConflicts({
+          organizationId: event.organizationId,
+          venueId: updated.venueId,
+          teamIds: [...(event.teamId ? [event.teamId] : []), ...event.participatingTeams.map((t) => t.id)],
+          slots: [updated],
+          ignoreEventIds: [event.id],
+        });
+      }
+      const saved = await prisma.$transaction(async (tx) => {
+        // Editing one occurrence of a series makes it an exception to later series edits
+        if (event) await recordOccurrenceOverride(tx, event, Object.keys(data));
+        return tx.event.update({ where: { id }, data: { ...data, sequence: { increment: 1 } } });
+      });
+      // Raising or removing the capacity opens spots for the waitlist
+      if (capacity !== undefined) await promoteFromWaitlist(id);
+      return saved;
     },
 
     deleteEvent: async (_: unknown, { id }: { id: string }, context: { userId?: string }) => {
-      const event = await prisma.event.findUnique({ where: { id }, select: { organizationId: true } });
+      const event = await prisma.event.findUnique({
+        where: { id },
+        select: { id: true, organizationId: true, date: true, recurringEventId: true },
+      });
       if (event) await requireCoachOrAbove(context, event.organizationId);
       await prisma.$transaction(async (tx) => {
+        if (event) await recordOccurrenceDeletion(tx, event);
+        await recordDeletedEvents(tx, [id]);
         await tx.checkIn.deleteMany({ where: { eventId: id } });
         await tx.excuseRequest.deleteMany({ where: { eventId: id } });
         await tx.eventRsvp.deleteMany({ where: { eventId: id } });
@@ -393,46 +706,208 @@ export const eventResolvers = {
       return true;
     },
 
+    // Cancelling keeps check-ins, RSVPs and excuses for history (unlike deleteEvent)
+    cancelEvent: async (_: unknown, { id, reason }: { id: string; reason?: string }, context: Context) => {
+      const event = await prisma.event.findUnique({ where: { id }, select: { organizationId: true, status: true } });
+      if (!event) throw new Error("Event not found");
+      await requireCoachOrAbove(context, event.organizationId);
+      const input = validate(cancelEventInputSchema, { reason: reason ?? undefined });
+      if (event.status === "CANCELLED") throw new Error("Event is already cancelled");
+
+      const updated = await prisma.event.update({
+        where: { id },
+        data: {
+          status: "CANCELLED",
+          statusReason: input.reason || null,
+          statusChangedAt: new Date(),
+          sequence: { increment: 1 },
+        },
+      });
+
+      notifyEventChange(id, "CANCELLED").catch((err) => {
+        console.error(`Failed to send cancellation notifications for event ${id}:`, err);
+      });
+
+      return updated;
+    },
+
+    // With a date: move the event and (re)schedule it. Without: postpone until a new date is set.
+    rescheduleEvent: async (
+      _: unknown,
+      {
+        id,
+        input,
+      }: {
+        id: string;
+        input: {
+          date?: string;
+          endDate?: string;
+          startTime?: string;
+          endTime?: string;
+          reason?: string;
+          allowConflicts?: boolean;
+        };
+      },
+      context: Context
+    ) => {
+      const event = await prisma.event.findUnique({
+        where: { id },
+        select: {
+          id: true,
+          organizationId: true,
+          status: true,
+          date: true,
+          endDate: true,
+          startTime: true,
+          endTime: true,
+          teamId: true,
+          venueId: true,
+          recurringEventId: true,
+          participatingTeams: { select: { id: true } },
+        },
+      });
+      if (!event) throw new Error("Event not found");
+      await requireCoachOrAbove(context, event.organizationId);
+      const data = validate(rescheduleEventInputSchema, input);
+
+      const postpone = !data.date;
+      if (postpone && event.status === "POSTPONED") throw new Error("Event is already postponed");
+
+      const moved = {
+        ...(data.date && { date: parseDateInput(data.date), endDate: data.endDate ? parseDateInput(data.endDate) : null }),
+        ...(data.startTime && { startTime: data.startTime }),
+        ...(data.endTime && { endTime: data.endTime }),
+      };
+      if (Object.keys(moved).length > 0 && !input.allowConflicts) {
+        await assertNoScheduleConflicts({
+          organizationId: event.organizationId,
+          venueId: event.venueId,
+          teamIds: [...(event.teamId ? [event.teamId] : []), ...event.participatingTeams.map((t) => t.id)],
+          slots: [{ ...event, ...moved }],
+          ignoreEventIds: [event.id],
+        });
+      }
+      const updated = await prisma.$transaction(async (tx) => {
+        await recordOccurrenceOverride(tx, event, Object.keys(moved));
+        return tx.event.update({
+          where: { id },
+          data: {
+            status: postpone ? "POSTPONED" : "SCHEDULED",
+            statusReason: data.reason || null,
+            statusChangedAt: new Date(),
+            sequence: { increment: 1 },
+            ...moved,
+          },
+        });
+      });
+
+      notifyEventChange(id, postpone ? "POSTPONED" : "RESCHEDULED", {
+        date: event.date,
+        startTime: event.startTime,
+      }).catch((err) => {
+        console.error(`Failed to send reschedule notifications for event ${id}:`, err);
+      });
+
+      return updated;
+    },
+
+    importSchedule: async (
+      _: unknown,
+      {
+        organizationId,
+        input,
+        dryRun,
+      }: {
+        organizationId: string;
+        input: { content: string; teamId?: string | null; defaultType?: EventType | null };
+        dryRun?: boolean;
+      },
+      context: Context
+    ) => {
+      const actorId = await requireCoachOrAbove(context, organizationId);
+      const { content, teamId, defaultType } = input;
+      const result = await importSchedule(organizationId, content, { teamId, defaultType, dryRun: dryRun ?? true });
+      if (result.committed) {
+        const { created, updated, cancelled, newVenues, newOpponents } = result;
+        await auditLog({
+          action: "IMPORT_SCHEDULE",
+          actorId,
+          targetId: organizationId,
+          targetType: "Organization",
+          organizationId,
+          metadata: { created, updated, cancelled, newVenues: newVenues.length, newOpponents: newOpponents.length },
+        });
+      }
+      return result;
+    },
+
     // Recurring event mutations
     createRecurringEvent: async (
       _: unknown,
       {
-        input,
+        input: requested,
       }: {
         input: {
-          title: string;
-          type: EventType;
+          templateId?: string;
+          title?: string;
+          type?: EventType;
           startTime: string;
-          endTime: string;
+          endTime?: string;
           location?: string;
           description?: string;
-          frequency: RecurrenceFrequency;
+          frequency?: RecurrenceFrequency;
           daysOfWeek?: number[];
+          rrule?: string;
+          exdates?: string[];
           startDate: string;
-          endDate: string;
+          endDate?: string;
           organizationId: string;
           teamId?: string;
           venueId?: string;
           includedUserIds?: string[];
           excludedUserIds?: string[];
+          staffUserIds?: string[];
+          reminderMinutes?: number | null;
+          allowConflicts?: boolean;
         };
-      }
+      },
+      context: Context
     ) => {
+      await requireCoachOrAbove(context, requested.organizationId);
+      const input = await fillFromTemplate(requested);
+      validate(createEventInputSchema.pick({ reminderMinutes: true }), input);
       const start = parseDateInput(input.startDate);
-      const end = parseDateInput(input.endDate);
+      const rule = input.rrule?.trim().replace(/^RRULE:/i, "") || null;
+      const parsedRule = rule ? parseRRule(rule) : null;
+
+      if (!input.endDate && !parsedRule?.count && !parsedRule?.until) {
+        throw new Error("An end date is required unless the recurrence rule has COUNT or UNTIL");
+      }
+      // Rules with COUNT/UNTIL end by themselves; the 365-occurrence cap bounds the search
+      const end = input.endDate
+        ? parseDateInput(input.endDate)
+        : parsedRule?.until ?? new Date(start.getTime() + 2 * 365 * 24 * 60 * 60 * 1000);
 
       if (end <= start) {
         throw new Error("End date must be after start date");
       }
 
-      if (
-        (input.frequency === "WEEKLY" || input.frequency === "BIWEEKLY") &&
-        (!input.daysOfWeek || input.daysOfWeek.length === 0)
-      ) {
+      const described = parsedRule ? describeRRule(parsedRule) : null;
+      const frequency = input.frequency ?? described?.frequency;
+      const daysOfWeek = described?.daysOfWeek ?? input.daysOfWeek ?? [];
+      if (!frequency) {
+        throw new Error("Either frequency or rrule is required");
+      }
+      if (!parsedRule && (frequency === "WEEKLY" || frequency === "BIWEEKLY") && daysOfWeek.length === 0) {
         throw new Error("daysOfWeek is required for WEEKLY and BIWEEKLY frequencies");
       }
 
-      const dates = generateRecurringDates(start, end, input.frequency, input.daysOfWeek || []);
+      const exdates = (input.exdates ?? []).map(parseDateInput);
+      const dates = generateRecurringDates(start, end, frequency, daysOfWeek, {
+        rrule: rule,
+        exdates,
+        blackouts: await getBlackoutRanges(prisma, input.organizationId),
+      });
 
       if (dates.length === 0) {
         throw new Error("No event occurrences generated for the given parameters");
@@ -441,6 +916,15 @@ export const eventResolvers = {
         throw new Error("Too many occurrences (max 365). Please shorten the date range.");
       }
 
+      if (!input.allowConflicts) {
+        await assertNoScheduleConflicts({
+          organizationId: input.organizationId,
+          venueId: input.venueId,
+          teamIds: input.teamId ? [input.teamId] : [],
+          slots: dates.map((date) => ({ date, startTime: input.startTime, endTime: input.endTime })),
+        });
+      }
+
       const recurringEvent = await prisma.$transaction(async (tx) => {
         const re = await tx.recurringEvent.create({
           data: {
@@ -450,13 +934,17 @@ export const eventResolvers = {
             endTime: input.endTime,
             location: input.location,
             description: input.description,
-            frequency: input.frequency,
-            daysOfWeek: input.daysOfWeek || [],
+            frequency,
+            daysOfWeek,
+            // Open-ended rules are pinned to the series end so exports don't repeat forever
+            rrule: rule && (parsedRule?.count || parsedRule?.until ? rule : withRRuleUntil(rule, end)),
+            exdates,
             startDate: start,
-            endDate: end,
+            endDate: input.endDate ? end : dates[dates.length - 1],
             organizationId: input.organizationId,
             teamId: input.teamId,
             venueId: input.venueId,
+            reminderMinutes: input.reminderMinutes,
           },
         });
 
@@ -476,18 +964,24 @@ export const eventResolvers = {
           })),
         });
 
-        if (input.includedUserIds?.length) {
+        if (input.includedUserIds.length) {
           await tx.recurringEventAthleteInclude.createMany({
             data: input.includedUserIds.map((userId: string) => ({ recurringEventId: re.id, userId })),
             skipDuplicates: true,
           });
         }
-        if (input.excludedUserIds?.length) {
+        if (input.excludedUserIds.length) {
           await tx.recurringEventAthleteExclude.createMany({
             data: input.excludedUserIds.map((userId: string) => ({ recurringEventId: re.id, userId })),
             skipDuplicates: true,
           });
         }
+        if (input.staffUserIds.length) {
+          await tx.recurringEventStaff.createMany({
+            data: input.staffUserIds.map((userId) => ({ recurringEventId: re.id, userId })),
+            skipDuplicates: true,
+          });
+        }
 
         return re;
       });
@@ -514,6 +1008,7 @@ export const eventResolvers = {
           })
         ).map((e) => e.id);
 
+        await recordDeletedEvents(tx, eventIds);
         await tx.checkIn.deleteMany({ where: { eventId: { in: eventIds } } });
         await tx.excuseRequest.deleteMany({ where: { eventId: { in: eventIds } } });
         await tx.eventRsvp.deleteMany({ where: { eventId: { in: eventIds } } });
@@ -523,6 +1018,30 @@ export const eventResolvers = {
       return true;
     },
 
+    updateRecurringEvent: async (
+      _: unknown,
+      {
+        id,
+        scope,
+        fromEventId,
+        changes,
+        allowConflicts,
+      }: {
+        id: string;
+        scope: RecurringEditScope;
+        fromEventId?: string;
+        changes: RecurringEventChanges;
+        allowConflicts?: boolean;
+      },
+      context: Context
+    ) => {
+      const series = await prisma.recurringEvent.findUnique({ where: { id }, select: { organizationId: true } });
+      if (!series) throw new Error("Recurring event not found");
+      await requireCoachOrAbove(context, series.organizationId);
+      const data = validate(recurringEventChangesSchema, changes);
+      return updateRecurringSeries(id, scope, fromEventId ?? undefined, data, allowConflicts ?? false);
+    },
+
     // Athlete include/exclude mutations
     addAthleteToEvent: async (_: unknown, { eventId, userId }: { eventId: string; userId: string }) => {
       await prisma.eventAthleteInclude.upsert({
@@ -598,8 +1117,34 @@ export const eventResolvers = {
       parent.teamId ? context.loaders.team.load(parent.teamId) : null,
     venue: (parent: { venueId: string | null }, _: unknown, context: Context) =>
       parent.venueId ? context.loaders.venue.load(parent.venueId) : null,
+    opponent: (parent: { opponentId: string | null }, _: unknown, context: Context) =>
+      parent.opponentId ? context.loaders.opponent.load(parent.opponentId) : null,
+    eventGroup: (parent: { eventGroupId: string | null }, _: unknown, context: Context) =>
+      parent.eventGroupId ? context.loaders.eventGroup.load(parent.eventGroupId) : null,
+    result: (parent: { teamScore: number | null; opponentScore: number | null }) => gameResult(parent),
     checkIns: (parent: { id: string }) => prisma.checkIn.findMany({ where: { eventId: parent.id } }),
     rsvps: (parent: { id: string }) => prisma.eventRsvp.findMany({ where: { eventId: parent.id }, include: { user: true } }),
+    // Other bookings of the same venue or coaches at the same time
+    conflicts: (parent: {
+      id: string;
+      organizationId: string;
+      status: string;
+      teamId: string | null;
+      venueId: string | null;
+      date: Date;
+      endDate: Date | null;
+      startTime: string;
+      endTime: string;
+    }) => {
+      if (parent.status !== "SCHEDULED") return [];
+      return findScheduleConflicts({
+        organizationId: parent.organizationId,
+        venueId: parent.venueId,
+        teamIds: parent.teamId ? [parent.teamId] : [],
+        slots: [parent],
+        ignoreEventIds: [parent.id],
+      });
+    },
     recurringEvent: (parent: { recurringEventId: string | null }) =>
       parent.recurringEventId
         ? prisma.recurringEvent.findUnique({ where: { id: parent.recurringEventId } })
@@ -640,12 +1185,48 @@ export const eventResolvers = {
       }
       return [...eventRows.map(r => r.user), ...inherited];
     },
+    reminderMinutes: async (parent: { reminderMinutes: number | null; recurringEventId: string | null }) => {
+      if (parent.reminderMinutes != null || !parent.recurringEventId) return parent.reminderMinutes;
+      const series = await prisma.recurringEvent.findUnique({
+        where: { id: parent.recurringEventId },
+        select: { reminderMinutes: true },
+      });
+      return series?.reminderMinutes ?? null;
+    },
+    staff: async (parent: { id: string; recurringEventId: string | null }) => {
+      const rows = await prisma.eventStaff.findMany({ where: { eventId: parent.id }, include: { user: true } });
+      const seriesRows = parent.recurringEventId
+        ? await prisma.recurringEventStaff.findMany({
+            where: { recurringEventId: parent.recurringEventId },
+            include: { user: true },
+          })
+        : [];
+      const eventUserIds = new Set(rows.map((r) => r.userId));
+      return [...rows, ...seriesRows.filter((r) => !eventUserIds.has(r.userId))].map((r) => r.user);
+    },
     date: (parent: any) => toISO(parent.date),
     endDate: (parent: any) => parent.endDate ? toISO(parent.endDate) : null,
+    statusChangedAt: (parent: any) => parent.statusChangedAt ? toISO(parent.statusChangedAt) : null,
+    resultRecordedAt: (parent: any) => parent.resultRecordedAt ? toISO(parent.resultRecordedAt) : null,
+    rsvpDeadline: (parent: any) => parent.rsvpDeadline ? toISO(parent.rsvpDeadline) : null,
+    rsvpClosed: (parent: { rsvpDeadline: Date | null }) => isRsvpClosed(parent),
+    goingCount: (parent: { id: string }) => countGoing(parent.id),
+    spotsRemaining: async (parent: { id: string; capacity: number | null }) =>
+      parent.capacity == null ? null : openSpots(parent.capacity, await countGoing(parent.id)),
+    waitlistCount: (parent: { id: string }) =>
+      prisma.eventRsvp.count({ where: { eventId: parent.id, status: "WAITLISTED" } }),
     createdAt: (parent: any) => toISO(parent.createdAt),
     updatedAt: (parent: any) => toISO(parent.updatedAt),
   },
 
+  CalendarFeed: {
+    team: (parent: { teamId: string | null }, _: unknown, context: Context) =>
+      parent.teamId ? context.loaders.team.load(parent.teamId) : null,
+    url: (parent: { id: string }) => feedUrl(parent.id),
+    lastAccessedAt: (parent: any) => parent.lastAccessedAt ? toISO(parent.lastAccessedAt) : null,
+    createdAt: (parent: any) => toISO(parent.createdAt),
+  },
+
   RecurringEvent: {
     organization: (parent: { organizationId: string }, _: unknown, context: Context) =>
       context.loaders.organization.load(parent.organizationId),
@@ -655,6 +1236,12 @@ export const eventResolvers = {
       parent.venueId ? context.loaders.venue.load(parent.venueId) : null,
     events: (parent: { id: string }) =>
       prisma.event.findMany({ where: { recurringEventId: parent.id }, orderBy: { date: "asc" } }),
+    exceptions: (parent: { id: string }) =>
+      prisma.recurringEventException.findMany({
+        where: { recurringEventId: parent.id },
+        include: { event: true },
+        orderBy: { originalDate: "asc" },
+      }),
     includedAthletes: (parent: { id: string }) =>
       prisma.recurringEventAthleteInclude.findMany({
         where: { recurringEventId: parent.id },
@@ -665,9 +1252,33 @@ export const eventResolvers = {
         where: { recurringEventId: parent.id },
         include: { user: true },
       }).then(rows => rows.map(r => r.user)),
+    staff: (parent: { id: string }) =>
+      prisma.recurringEventStaff.findMany({
+        where: { recurringEventId: parent.id },
+        include: { user: true },
+      }).then(rows => rows.map(r => r.user)),
+    exdates: (parent: { exdates: Date[] }) => parent.exdates.map(toISO),
     startDate: (parent: any) => toISO(parent.startDate),
     endDate: (parent: any) => toISO(parent.endDate),
     createdAt: (parent: any) => toISO(parent.createdAt),
     updatedAt: (parent: any) => toISO(parent.updatedAt),
   },
+
+  ScheduleConflict: {
+    date: (parent: ScheduleConflict) => toISO(parent.date),
+    coaches: async (parent: ScheduleConflict, _: unknown, context: Context) => {
+      const users = await context.loaders.user.loadMany(parent.coachIds);
+      return users.filter((u) => u && !(u instanceof Error));
+    },
+  },
+
+  BlackoutDate: {
+    startDate: (parent: any) => toISO(parent.startDate),
+    endDate: (parent: any) => toISO(parent.endDate),
+    createdAt: (parent: any) => toISO(parent.createdAt),
+  },
+
+  RecurringEventException: {
+    originalDate: (parent: any) => toISO(parent.originalDate),
+  },
 };
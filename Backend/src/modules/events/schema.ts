@@ -5,6 +5,19 @@ export const eventsSchema = `#graphql
     EVENT
     MEETING
     REST
+    GAME
+  }
+
+  enum HomeAway {
+    HOME
+    AWAY
+    NEUTRAL
+  }
+
+  enum EventStatus {
+    SCHEDULED
+    CANCELLED
+    POSTPONED
   }
 
   enum RecurrenceFrequency {
@@ -25,6 +38,9 @@ export const eventsSchema = `#graphql
     endTime: String!
     location: String
     description: String
+    status: EventStatus!
+    statusReason: String
+    statusChangedAt: String
     organizationId: ID!
     organization: Organization!
     team: Team
@@ -35,6 +51,35 @@ export const eventsSchema = `#graphql
     recurringEvent: RecurringEvent
     includedAthletes: [User!]!
     excludedAthletes: [User!]!
+    # Overlapping bookings of the same venue or the team's coaches
+    conflicts: [ScheduleConflict!]!
+    # GAME events only; scores are from the event team's side
+    opponent: Opponent
+    homeAway: HomeAway
+    teamScore: Int
+    opponentScore: Int
+    result: GameResult
+    resultRecordedAt: String
+    # Null capacity means unlimited; GOING responses past it are waitlisted
+    capacity: Int
+    rsvpDeadline: String
+    rsvpClosed: Boolean!
+    goingCount: Int!
+    # Null when the event has no capacity
+    spotsRemaining: Int
+    waitlistCount: Int!
+    # Tournament or multi-day trip this session belongs to
+    eventGroup: EventGroup
+    # GAME events in a tournament: a round-robin pool, or a knockout round and slot
+    pool: String
+    bracketRound: Int
+    bracketSlot: Int
+    # Minutes before the start members are reminded; null uses each member's own preference
+    reminderMinutes: Int
+    # Coaches and volunteers required at the event, including the series'
+    staff: [User!]!
+    # The league's id for an imported game; re-imports update the event by it
+    externalUid: String
     createdAt: String!
     updatedAt: String!
   }
@@ -49,18 +94,37 @@ export const eventsSchema = `#graphql
     description: String
     frequency: RecurrenceFrequency!
     daysOfWeek: [Int!]!
+    rrule: String
+    exdates: [String!]!
     startDate: String!
     endDate: String!
     organization: Organization!
     team: Team
     venue: Venue
     events: [Event!]!
+    exceptions: [RecurringEventException!]!
     includedAthletes: [User!]!
     excludedAthletes: [User!]!
+    reminderMinutes: Int
+    staff: [User!]!
     createdAt: String!
     updatedAt: String!
   }
 
+  # An occurrence edited on its own, moved, or deleted (event is null)
+  type RecurringEventException {
+    id: ID!
+    originalDate: String!
+    event: Event
+    overriddenFields: [String!]!
+  }
+
+  enum RecurringEditScope {
+    THIS
+    THIS_AND_FOLLOWING
+    ALL
+  }
+
   type Venue {
     id: ID!
     name: String!
@@ -69,49 +133,212 @@ export const eventsSchema = `#graphql
     state: String
     country: String
     notes: String
+    timezone: String
     organizationId: ID!
     createdAt: String!
     updatedAt: String!
   }
 
+  # Organization-wide days off; recurring series skip these ranges
+  type BlackoutDate {
+    id: ID!
+    organizationId: ID!
+    name: String!
+    startDate: String!
+    endDate: String!
+    createdAt: String!
+  }
+
+  type CalendarFeed {
+    id: ID!
+    organizationId: ID!
+    team: Team
+    url: String!
+    lastAccessedAt: String
+    createdAt: String!
+  }
+
+  enum ScheduleConflictReason {
+    VENUE
+    COACH
+  }
+
+  # An existing event that overlaps a proposed booking
+  type ScheduleConflict {
+    reason: ScheduleConflictReason!
+    # The proposed day that clashes (the occurrence's day for recurring events)
+    date: String!
+    event: Event!
+    # Coaches booked in both places; empty for venue conflicts
+    coaches: [User!]!
+  }
+
   type EventsCount {
     PRACTICE: Int!
     MEETING: Int!
     EVENT: Int!
+    GAME: Int!
+  }
+
+  enum ScheduleImportRowStatus {
+    NEW
+    UPDATED
+    UNCHANGED
+    CANCELLED
+    # Cancelled in the file and never imported
+    SKIPPED
+    ERROR
+  }
+
+  type ScheduleImportChange {
+    # title, type, date, endDate, startTime, endTime, team, venue, opponent, homeAway or status
+    field: String!
+    from: String
+    to: String
+  }
+
+  type ScheduleImportRow {
+    # CSV line (the header is line 1) or the line its VEVENT starts on
+    line: Int!
+    uid: String
+    title: String
+    date: String
+    startTime: String
+    endTime: String
+    team: String
+    type: EventType
+    venue: String
+    # The venue will be created on import
+    newVenue: Boolean!
+    opponent: String
+    homeAway: HomeAway
+    status: ScheduleImportRowStatus!
+    # The existing event, or the one just created
+    eventId: ID
+    # Differences from the existing event; empty for new rows
+    changes: [ScheduleImportChange!]!
+    errors: [String!]!
+  }
+
+  type ScheduleImportResult {
+    # False for dry runs and whenever any row has errors; nothing is written then
+    committed: Boolean!
+    rows: [ScheduleImportRow!]!
+    created: Int!
+    updated: Int!
+    unchanged: Int!
+    cancelled: Int!
+    newVenues: [String!]!
+    newOpponents: [String!]!
+    errorCount: Int!
   }
 
   # ---- Inputs ----
+  # title, type and endTime are required unless templateId is given. Anything
+  # set here wins over the template; endTime defaults to its duration after startTime.
   input CreateEventInput {
-    title: String!
-    type: EventType!
+    templateId: ID
+    title: String
+    type: EventType
     date: String!
     endDate: String
     startTime: String!
-    endTime: String!
+    endTime: String
     location: String
     description: String
     organizationId: ID!
     teamId: ID
     venueId: ID
     participatingTeamIds: [ID!]
+    # GAME events only
+    opponentId: ID
+    homeAway: HomeAway
+    capacity: Int
+    # ISO date-time after which athletes can no longer change their RSVP
+    rsvpDeadline: String
+    eventGroupId: ID
+    reminderMinutes: Int
+    includedUserIds: [ID!]
+    excludedUserIds: [ID!]
+    staffUserIds: [ID!]
+    # Book even if the venue or a coach is already booked at that time
+    allowConflicts: Boolean
   }
 
+  # Fills from templateId the same way as CreateEventInput
   input CreateRecurringEventInput {
-    title: String!
-    type: EventType!
+    templateId: ID
+    title: String
+    type: EventType
     startTime: String!
-    endTime: String!
+    endTime: String
     location: String
     description: String
-    frequency: RecurrenceFrequency!
+    # Either frequency/daysOfWeek or an RFC 5545 RRULE (FREQ, INTERVAL, BYDAY, BYSETPOS, COUNT, UNTIL)
+    frequency: RecurrenceFrequency
     daysOfWeek: [Int!]
+    rrule: String
+    exdates: [String!]
     startDate: String!
-    endDate: String!
+    # Optional when rrule has COUNT or UNTIL
+    endDate: String
     organizationId: ID!
     teamId: ID
     venueId: ID
     includedUserIds: [ID!]
     excludedUserIds: [ID!]
+    staffUserIds: [ID!]
+    reminderMinutes: Int
+    allowConflicts: Boolean
+  }
+
+  input ScheduleConflictInput {
+    organizationId: ID!
+    venueId: ID
+    teamIds: [ID!]
+    date: String!
+    endDate: String
+    startTime: String!
+    endTime: String!
+    # The event being edited, so it doesn't conflict with itself
+    ignoreEventId: ID
+  }
+
+  input RecurringEventChangesInput {
+    title: String
+    startTime: String
+    endTime: String
+    location: String
+    description: String
+    venueId: ID
+    daysOfWeek: [Int!]
+  }
+
+  input RescheduleEventInput {
+    # Omit date to postpone until a new date is announced
+    date: String
+    endDate: String
+    startTime: String
+    endTime: String
+    reason: String
+    allowConflicts: Boolean
+  }
+
+  input ScheduleImportInput {
+    # Contents of an .ics calendar or a CSV export
+    content: String!
+    # Team for rows whose team can't be read from the file
+    teamId: ID
+    # Type for rows that don't say; defaults to GAME
+    defaultType: EventType
+  }
+
+  input CreateBlackoutDateInput {
+    organizationId: ID!
+    name: String!
+    startDate: String!
+    # Defaults to startDate for a single day
+    endDate: String
   }
 
   input CreateVenueInput {
@@ -121,6 +348,7 @@ export const eventsSchema = `#graphql
     state: String
     country: String
     notes: String
+    timezone: String
     organizationId: ID!
   }
 
@@ -131,6 +359,7 @@ export const eventsSchema = `#graphql
     state: String
     country: String
     notes: String
+    timezone: String
   }
 
   # ---- Queries ----
@@ -143,16 +372,27 @@ export const eventsSchema = `#graphql
     recurringEvents(organizationId: ID!): [RecurringEvent!]!
     venue(id: ID!): Venue
     organizationVenues(organizationId: ID!): [Venue!]!
+    blackoutDates(organizationId: ID!): [BlackoutDate!]!
+    venueSchedule(venueId: ID!, startDate: String!, endDate: String!): [Event!]!
+    scheduleConflicts(input: ScheduleConflictInput!): [ScheduleConflict!]!
     exportCalendar(organizationId: ID!, teamId: ID, startDate: String, endDate: String): String!
+    myCalendarFeeds(organizationId: ID!): [CalendarFeed!]!
   }
 
   # ---- Mutations ----
   extend type Mutation {
     createEvent(input: CreateEventInput!): Event!
-    updateEvent(id: ID!, title: String, type: EventType, date: String, endDate: String, startTime: String, endTime: String, location: String, description: String, venueId: ID): Event!
+    updateEvent(id: ID!, title: String, type: EventType, date: String, endDate: String, startTime: String, endTime: String, location: String, description: String, venueId: ID, opponentId: ID, homeAway: HomeAway, capacity: Int, rsvpDeadline: String, allowConflicts: Boolean): Event!
     deleteEvent(id: ID!): Boolean!
+    cancelEvent(id: ID!, reason: String): Event!
+    rescheduleEvent(id: ID!, input: RescheduleEventInput!): Event!
+    # Games are matched to earlier imports by UID (CSV rows without a game id column
+    # by their teams and order); venues and opponents are fuzzy-matched by name
+    importSchedule(organizationId: ID!, input: ScheduleImportInput!, dryRun: Boolean = true): ScheduleImportResult!
     createRecurringEvent(input: CreateRecurringEventInput!): RecurringEvent!
     deleteRecurringEvent(id: ID!, futureOnly: Boolean): Boolean!
+    # fromEventId is required for THIS; THIS_AND_FOLLOWING defaults to today
+    updateRecurringEvent(id: ID!, scope: RecurringEditScope!, fromEventId: ID, changes: RecurringEventChangesInput!, allowConflicts: Boolean): RecurringEvent!
     addAthleteToEvent(eventId: ID!, userId: ID!): Event!
     removeAthleteFromEvent(eventId: ID!, userId: ID!): Event!
     excludeAthleteFromEvent(eventId: ID!, userId: ID!): Event!
@@ -164,5 +404,9 @@ export const eventsSchema = `#graphql
     createVenue(input: CreateVenueInput!): Venue!
     updateVenue(id: ID!, input: UpdateVenueInput!): Venue!
     deleteVenue(id: ID!): Boolean!
+    createBlackoutDate(input: CreateBlackoutDateInput!): BlackoutDate!
+    deleteBlackoutDate(id: ID!): Boolean!
+    createCalendarFeed(organizationId: ID!, teamId: ID): CalendarFeed!
+    revokeCalendarFeed(id: ID!): Boolean!
   }
 `;
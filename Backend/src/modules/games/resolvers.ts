@@ -0,0 +1,168 @@
+import { prisma } from "../../db.js";
+import { requireAuth, requireCoachOrAbove, requireOrgAdmin } from "../../utils/permissions.js";
+import { auditLog } from "../../utils/audit.js";
+import { eventTimeZone, getEventWindow, toISO } from "../../utils/time.js";
+import { gameScoreInputSchema, opponentInputSchema, validate } from "../../utils/validate.js";
+import { SCORED_GAMES_WHERE, getGameRecord } from "../../services/gameRecords.js";
+import type { Loaders } from "../../utils/dataLoaders.js";
+
+interface Context {
+  userId?: string;
+  loaders: Loaders;
+}
+
+interface OpponentInput {
+  name: string;
+  shortName?: string | null;
+  notes?: string | null;
+}
+
+async function findGame(eventId: string, context: Context) {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    include: { organization: { select: { timezone: true } }, venue: { select: { timezone: true } } },
+  });
+  if (!event) throw new Error("Event not found");
+  const userId = await requireCoachOrAbove(context, event.organizationId);
+  if (event.type !== "GAME") throw new Error("Only games have scores");
+  return { event, userId };
+}
+
+function parseOpponentInput(input: OpponentInput) {
+  const data = validate(opponentInputSchema, {
+    name: input.name,
+    shortName: input.shortName ?? undefined,
+    notes: input.notes ?? undefined,
+  });
+  return { name: data.name, shortName: data.shortName || null, notes: data.notes || null };
+}
+
+export const gamesResolvers = {
+  Query: {
+    opponents: async (
+      _: unknown,
+      { organizationId, includeArchived }: { organizationId: string; includeArchived?: boolean },
+      context: Context
+    ) => {
+      requireAuth(context);
+      return prisma.opponent.findMany({
+        where: { organizationId, ...(includeArchived ? {} : { archivedAt: null }) },
+        orderBy: { name: "asc" },
+      });
+    },
+
+    gameResults: async (
+      _: unknown,
+      { organizationId, teamId, limit }: { organizationId: string; teamId?: string; limit?: number },
+      context: Context
+    ) => {
+      requireAuth(context);
+      return prisma.event.findMany({
+        where: { organizationId, ...SCORED_GAMES_WHERE, ...(teamId && { teamId }) },
+        orderBy: [{ date: "desc" }, { resultRecordedAt: "desc" }],
+        take: Math.min(limit ?? 10, 100),
+      });
+    },
+  },
+
+  Mutation: {
+    createOpponent: async (
+      _: unknown,
+      { organizationId, input }: { organizationId: string; input: OpponentInput },
+      context: Context
+    ) => {
+      await requireCoachOrAbove(context, organizationId);
+      const data = parseOpponentInput(input);
+      const existing = await prisma.opponent.findUnique({
+        where: { organizationId_name: { organizationId, name: data.name } },
+      });
+      if (existing && !existing.archivedAt) throw new Error(`An opponent named ${data.name} already exists`);
+      // Re-adding an archived opponent brings it back with its history
+      if (existing) {
+        return prisma.opponent.update({ where: { id: existing.id }, data: { ...data, archivedAt: null } });
+      }
+      return prisma.opponent.create({ data: { ...data, organizationId } });
+    },
+
+    updateOpponent: async (_: unknown, { id, input }: { id: string; input: OpponentInput }, context: Context) => {
+      const opponent = await prisma.opponent.findUnique({ where: { id } });
+      if (!opponent) throw new Error("Opponent not found");
+      await requireCoachOrAbove(context, opponent.organizationId);
+      const data = parseOpponentInput(input);
+      if (data.name !== opponent.name) {
+        const clash = await prisma.opponent.findUnique({
+          where: { organizationId_name: { organizationId: opponent.organizationId, name: data.name } },
+        });
+        if (clash) throw new Error(`An opponent named ${data.name} already exists`);
+      }
+      return prisma.opponent.update({ where: { id }, data });
+    },
+
+    deleteOpponent: async (_: unknown, { id }: { id: string }, context: Context) => {
+      const opponent = await prisma.opponent.findUnique({ where: { id } });
+      if (!opponent) throw new Error("Opponent not found");
+      await requireOrgAdmin(context, opponent.organizationId);
+      const games = await prisma.event.count({ where: { opponentId: id } });
+      if (games > 0) {
+        await prisma.opponent.update({ where: { id }, data: { archivedAt: new Date() } });
+      } else {
+        await prisma.opponent.delete({ where: { id } });
+      }
+      return true;
+    },
+
+    recordGameResult: async (
+      _: unknown,
+      { eventId, teamScore, opponentScore }: { eventId: string; teamScore: number; opponentScore: number },
+      context: Context
+    ) => {
+      const { event, userId } = await findGame(eventId, context);
+      const scores = validate(gameScoreInputSchema, { teamScore, opponentScore });
+      if (event.status !== "SCHEDULED") throw new Error("Cancelled or postponed games can't be scored");
+      if (!event.teamId) throw new Error("Assign the game to a team before entering a score");
+      const { start } = getEventWindow(event, eventTimeZone(event));
+      if (start > new Date()) throw new Error("Scores can be entered once the game has started");
+
+      const updated = await prisma.event.update({
+        where: { id: eventId },
+        data: { ...scores, resultRecordedAt: new Date() },
+      });
+      await auditLog({
+        action: "RECORD_GAME_RESULT",
+        actorId: userId,
+        targetId: eventId,
+        targetType: "Event",
+        organizationId: event.organizationId,
+        metadata: {
+          ...scores,
+          previous: event.teamScore != null ? { teamScore: event.teamScore, opponentScore: event.opponentScore } : null,
+        },
+      });
+      return updated;
+    },
+
+    clearGameResult: async (_: unknown, { eventId }: { eventId: string }, context: Context) => {
+      const { event, userId } = await findGame(eventId, context);
+      const updated = await prisma.event.update({
+        where: { id: eventId },
+        data: { teamScore: null, opponentScore: null, resultRecordedAt: null },
+      });
+      await auditLog({
+        action: "RECORD_GAME_RESULT",
+        actorId: userId,
+        targetId: eventId,
+        targetType: "Event",
+        organizationId: event.organizationId,
+        metadata: { cleared: true, previous: { teamScore: event.teamScore, opponentScore: event.opponentScore } },
+      });
+      return updated;
+    },
+  },
+
+  Opponent: {
+    record: (parent: { id: string }) => getGameRecord({ opponentId: parent.id }),
+    archivedAt: (parent: any) => parent.archivedAt ? toISO(parent.archivedAt) : null,
+    createdAt: (parent: any) => toISO(parent.createdAt),
+    updatedAt: (parent: any) => toISO(parent.updatedAt),
+  },
+};
@@ -0,0 +1,60 @@
+export const gamesSchema = `#graphql
+  # ---- Enums ----
+  enum GameResult {
+    WIN
+    LOSS
+    DRAW
+  }
+
+  # ---- Types ----
+  # A team or club the organization plays against in GAME events
+  type Opponent {
+    id: ID!
+    organizationId: ID!
+    name: String!
+    shortName: String
+    notes: String
+    # Set when deleted after games were played against it
+    archivedAt: String
+    # Head-to-head across all of the organization's teams
+    record: GameRecord!
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  # Scored games only; goals are from the team's side
+  type GameRecord {
+    played: Int!
+    wins: Int!
+    losses: Int!
+    draws: Int!
+    goalsFor: Int!
+    goalsAgainst: Int!
+    goalDifferential: Int!
+  }
+
+  # ---- Inputs ----
+  input OpponentInput {
+    name: String!
+    shortName: String
+    notes: String
+  }
+
+  # ---- Queries ----
+  extend type Query {
+    opponents(organizationId: ID!, includeArchived: Boolean): [Opponent!]!
+    # Scored games, most recent first
+    gameResults(organizationId: ID!, teamId: ID, limit: Int): [Event!]!
+  }
+
+  # ---- Mutations ----
+  extend type Mutation {
+    createOpponent(organizationId: ID!, input: OpponentInput!): Opponent!
+    updateOpponent(id: ID!, input: OpponentInput!): Opponent!
+    # Archives instead when games were played against the opponent
+    deleteOpponent(id: ID!): Boolean!
+    # Only once the game has started; scores are from the event team's side
+    recordGameResult(eventId: ID!, teamScore: Int!, opponentScore: Int!): Event!
+    clearGameResult(eventId: ID!): Event!
+  }
+`;
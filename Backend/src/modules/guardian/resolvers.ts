@@ -109,6 +109,15 @@ export const guardianResolvers = {
       const expiresAt = new Date();
       expiresAt.setDate(expiresAt.getDate() + 7);
 
+      // A guardian of siblings gets one pending invite that covers all of them
+      const existingInvite = await prisma.invite.findUnique({
+        where: { email_organizationId: { email, organizationId } },
+      });
+      const athleteIds =
+        existingInvite?.role === "GUARDIAN" && existingInvite.status === "PENDING"
+          ? [...new Set([...existingInvite.athleteIds, subjectUserId])]
+          : [subjectUserId];
+
       const invite = await prisma.invite.upsert({
         where: {
           email_organizationId: {
@@ -119,7 +128,7 @@ export const guardianResolvers = {
         update: {
           role: "GUARDIAN",
           teamIds: [],
-          athleteId: subjectUserId,
+          athleteIds,
           status: "PENDING",
           expiresAt,
         },
@@ -128,7 +137,7 @@ export const guardianResolvers = {
           organizationId,
           role: "GUARDIAN",
           teamIds: [],
-          athleteId: subjectUserId,
+          athleteIds,
           expiresAt,
         },
       });
@@ -1,7 +1,9 @@
+import type { AthleteStatus } from "@prisma/client";
 import { prisma } from "../../db.js";
 import { toISO, sanitizePhone } from "../../utils/time.js";
-import { validate, createEmergencyContactInputSchema, updateEmergencyContactInputSchema, upsertMedicalInfoInputSchema } from "../../utils/validate.js";
+import { validate, createEmergencyContactInputSchema, updateEmergencyContactInputSchema, upsertMedicalInfoInputSchema, updateOrganizationSettingsInputSchema } from "../../utils/validate.js";
 import { encryptIfConfigured, decryptIfConfigured } from "../../utils/encrypt.js";
+import { ATHLETE_STATUS_ROLES, updateAthleteStatus } from "../../services/athleteStatus.js";
 import type { Loaders } from "../../utils/dataLoaders.js";
 
 interface Context {
@@ -45,7 +47,14 @@ export const healthResolvers = {
           data: { isPrimary: false },
         });
       }
-      return prisma.emergencyContact.create({ data: { ...input, phone: sanitizePhone(input.phone) || input.phone } });
+      // Contact details are PII, encrypted at rest like medical info
+      return prisma.emergencyContact.create({
+        data: {
+          ...input,
+          phone: encryptIfConfigured(sanitizePhone(input.phone) || input.phone)!,
+          email: encryptIfConfigured(input.email),
+        },
+      });
     },
 
     updateEmergencyContact: async (_: unknown, { id, input }: { id: string; input: { name?: string; relationship?: string; phone?: string; email?: string; isPrimary?: boolean } }) => {
@@ -59,10 +68,14 @@ export const healthResolvers = {
           });
         }
       }
-      const { phone, ...rest } = input;
+      const { phone, email, ...rest } = input;
       return prisma.emergencyContact.update({
         where: { id },
-        data: { ...rest, ...(phone !== undefined ? { phone: sanitizePhone(phone) || phone } : {}) },
+        data: {
+          ...rest,
+          ...(phone !== undefined ? { phone: encryptIfConfigured(sanitizePhone(phone) || phone)! } : {}),
+          ...(email !== undefined ? { email: encryptIfConfigured(email) } : {}),
+        },
       });
     },
 
@@ -80,8 +93,10 @@ export const healthResolvers = {
         ...(raw.conditions !== undefined && { conditions: encryptIfConfigured(raw.conditions) }),
         ...(raw.allergies !== undefined && { allergies: encryptIfConfigured(raw.allergies) }),
         ...(raw.medications !== undefined && { medications: encryptIfConfigured(raw.medications) }),
+        ...(raw.insuranceProvider !== undefined && { insuranceProvider: encryptIfConfigured(raw.insuranceProvider) }),
         ...(raw.insurancePolicyNumber !== undefined && { insurancePolicyNumber: encryptIfConfigured(raw.insurancePolicyNumber) }),
         ...(raw.insuranceGroupNumber !== undefined && { insuranceGroupNumber: encryptIfConfigured(raw.insuranceGroupNumber) }),
+        ...(raw.notes !== undefined && { notes: encryptIfConfigured(raw.notes) }),
       };
       return prisma.medicalInfo.upsert({
         where: { userId_organizationId: { userId, organizationId } },
@@ -90,7 +105,8 @@ export const healthResolvers = {
       });
     },
 
-    updateOrganizationSettings: async (_: unknown, { id, adminHealthAccess, coachHealthAccess, allowCoachHourEdit, reportFrequencies }: { id: string; adminHealthAccess?: string; coachHealthAccess?: string; allowCoachHourEdit?: boolean; reportFrequencies?: string[] }) => {
+    updateOrganizationSettings: async (_: unknown, { id, adminHealthAccess, coachHealthAccess, allowCoachHourEdit, reportFrequencies, timezone }: { id: string; adminHealthAccess?: string; coachHealthAccess?: string; allowCoachHourEdit?: boolean; reportFrequencies?: string[]; timezone?: string }) => {
+      validate(updateOrganizationSettingsInputSchema, { timezone: timezone ?? undefined });
       if (reportFrequencies !== undefined) {
         await prisma.orgReportSendRecord.deleteMany({
           where: { organizationId: id, frequency: { notIn: reportFrequencies } },
@@ -103,6 +119,7 @@ export const healthResolvers = {
           ...(coachHealthAccess !== undefined && { coachHealthAccess: coachHealthAccess as any }),
           ...(allowCoachHourEdit !== undefined && { allowCoachHourEdit }),
           ...(reportFrequencies !== undefined && { reportFrequencies }),
+          ...(timezone && { timezone: timezone.trim() }),
         },
       });
     },
@@ -117,19 +134,16 @@ export const healthResolvers = {
       const viewer = await prisma.organizationMember.findUnique({
         where: { userId_organizationId: { userId: context.userId, organizationId } },
       });
-      if (!viewer || !["OWNER", "ADMIN", "MANAGER"].includes(viewer.role)) {
+      if (!viewer || !ATHLETE_STATUS_ROLES.includes(viewer.role)) {
         throw new Error("Only admins and managers can update athlete status");
       }
-      const [updated] = await prisma.$transaction([
-        prisma.organizationMember.update({
-          where: { userId_organizationId: { userId, organizationId } },
-          data: { athleteStatus: status as any },
-        }),
-        prisma.athleteStatusRecord.create({
-          data: { userId, organizationId, status: status as any, note: note || null, changedByUserId: context.userId },
-        }),
-      ]);
-      return updated;
+      return updateAthleteStatus({
+        userId,
+        organizationId,
+        status: status as AthleteStatus,
+        note,
+        changedByUserId: context.userId,
+      });
     },
 
     upsertGymnasticsProfile: async (
@@ -156,6 +170,8 @@ export const healthResolvers = {
   },
 
   EmergencyContact: {
+    phone: (parent: any) => decryptIfConfigured(parent.phone),
+    email: (parent: any) => decryptIfConfigured(parent.email),
     createdAt: (parent: any) => toISO(parent.createdAt),
     updatedAt: (parent: any) => toISO(parent.updatedAt),
   },
@@ -165,8 +181,10 @@ export const healthResolvers = {
     conditions: (parent: any) => decryptIfConfigured(parent.conditions),
     allergies: (parent: any) => decryptIfConfigured(parent.allergies),
     medications: (parent: any) => decryptIfConfigured(parent.medications),
+    insuranceProvider: (parent: any) => decryptIfConfigured(parent.insuranceProvider),
     insurancePolicyNumber: (parent: any) => decryptIfConfigured(parent.insurancePolicyNumber),
     insuranceGroupNumber: (parent: any) => decryptIfConfigured(parent.insuranceGroupNumber),
+    notes: (parent: any) => decryptIfConfigured(parent.notes),
     updatedAt: (parent: any) => toISO(parent.updatedAt),
   },
 
@@ -109,6 +109,6 @@ export const healthSchema = `#graphql
     updateEmergencyContact(id: ID!, input: UpdateEmergencyContactInput!): EmergencyContact!
     deleteEmergencyContact(id: ID!): Boolean!
     upsertMedicalInfo(input: UpsertMedicalInfoInput!): MedicalInfo!
-    updateOrganizationSettings(id: ID!, adminHealthAccess: AdminHealthAccess, coachHealthAccess: CoachHealthAccess, allowCoachHourEdit: Boolean, reportFrequencies: [String!]): Organization!
+    updateOrganizationSettings(id: ID!, adminHealthAccess: AdminHealthAccess, coachHealthAccess: CoachHealthAccess, allowCoachHourEdit: Boolean, reportFrequencies: [String!], timezone: String): Organization!
   }
 `;
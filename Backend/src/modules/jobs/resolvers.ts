@@ -0,0 +1,117 @@
+import type { JobRun, ScheduledJob } from "@prisma/client";
+import { prisma } from "../../db.js";
+import { requirePlatformAdmin } from "../../utils/permissions.js";
+import { auditLog } from "../../utils/audit.js";
+import { toISO } from "../../utils/time.js";
+import { getJobDefinition, triggerJob } from "../../cron/scheduler.js";
+import type { Loaders } from "../../utils/dataLoaders.js";
+
+interface Context {
+  userId?: string;
+  loaders: Loaders;
+}
+
+const METRICS_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const isoOrNull = (d: Date | null) => (d ? toISO(d) : null);
+
+export const jobsResolvers = {
+  Query: {
+    scheduledJobs: async (_: unknown, __: unknown, context: Context) => {
+      await requirePlatformAdmin(context);
+      return prisma.scheduledJob.findMany({ orderBy: { name: "asc" } });
+    },
+
+    scheduledJob: async (_: unknown, { name }: { name: string }, context: Context) => {
+      await requirePlatformAdmin(context);
+      return prisma.scheduledJob.findUnique({ where: { name } });
+    },
+  },
+
+  Mutation: {
+    triggerScheduledJob: async (_: unknown, { name }: { name: string }, context: Context) => {
+      const actorId = await requirePlatformAdmin(context);
+      const run = await triggerJob(name, actorId);
+      await auditLog({
+        action: "TRIGGER_SCHEDULED_JOB",
+        actorId,
+        targetId: run.id,
+        targetType: "JobRun",
+        metadata: { job: name },
+      });
+      return run;
+    },
+
+    setScheduledJobEnabled: async (
+      _: unknown,
+      { name, enabled }: { name: string; enabled: boolean },
+      context: Context
+    ) => {
+      const actorId = await requirePlatformAdmin(context);
+      const job = await prisma.scheduledJob.findUnique({ where: { name } });
+      if (!job) throw new Error("Scheduled job not found");
+
+      const updated = await prisma.scheduledJob.update({
+        where: { name },
+        // Pausing also drops a pending retry so it doesn't fire on resume
+        data: enabled ? { isEnabled: true } : { isEnabled: false, retryAt: null, retryAttempt: 0 },
+      });
+      await auditLog({
+        action: "SET_SCHEDULED_JOB_ENABLED",
+        actorId,
+        targetId: name,
+        targetType: "ScheduledJob",
+        metadata: { enabled },
+      });
+      return updated;
+    },
+  },
+
+  ScheduledJob: {
+    description: (parent: ScheduledJob) => getJobDefinition(parent.name)?.description ?? null,
+    running: (parent: ScheduledJob) => !!parent.lockedUntil && parent.lockedUntil > new Date(),
+    lockedUntil: (parent: ScheduledJob) => isoOrNull(parent.lockedUntil),
+    lastRunAt: (parent: ScheduledJob) => isoOrNull(parent.lastRunAt),
+    lastSucceededAt: (parent: ScheduledJob) => isoOrNull(parent.lastSucceededAt),
+    lastFailedAt: (parent: ScheduledJob) => isoOrNull(parent.lastFailedAt),
+    retryAt: (parent: ScheduledJob) => isoOrNull(parent.retryAt),
+    metrics: async (parent: ScheduledJob) => {
+      const since = new Date(Date.now() - METRICS_WINDOW_MS);
+      const recent = await prisma.jobRun.groupBy({
+        by: ["status"],
+        where: { jobName: parent.name, startedAt: { gte: since }, status: { not: "RUNNING" } },
+        _count: { _all: true },
+        _avg: { durationMs: true },
+        _max: { durationMs: true },
+      });
+      const total = recent.reduce((sum, g) => sum + g._count._all, 0);
+      const weighted = recent.reduce((sum, g) => sum + (g._avg.durationMs ?? 0) * g._count._all, 0);
+      const max = recent.reduce<number | null>((m, g) => Math.max(m ?? 0, g._max.durationMs ?? 0), null);
+
+      return {
+        runCount: parent.runCount,
+        failureCount: parent.failureCount,
+        consecutiveFailures: parent.consecutiveFailures,
+        lastDurationMs: parent.lastDurationMs,
+        recentRuns: total,
+        recentFailures: recent.find((g) => g.status === "FAILED")?._count._all ?? 0,
+        averageDurationMs: total ? Math.round(weighted / total) : null,
+        maxDurationMs: total ? max : null,
+      };
+    },
+    runs: (parent: ScheduledJob, { limit }: { limit?: number }) =>
+      prisma.jobRun.findMany({
+        where: { jobName: parent.name },
+        orderBy: { startedAt: "desc" },
+        take: Math.min(limit || 20, 100),
+      }),
+  },
+
+  JobRun: {
+    triggeredBy: (parent: JobRun, _: unknown, context: Context) =>
+      parent.triggeredByUserId ? context.loaders.user.load(parent.triggeredByUserId) : null,
+    result: (parent: JobRun) => (parent.result != null ? JSON.stringify(parent.result) : null),
+    startedAt: (parent: JobRun) => toISO(parent.startedAt),
+    finishedAt: (parent: JobRun) => isoOrNull(parent.finishedAt),
+  },
+};
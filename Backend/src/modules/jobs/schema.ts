@@ -0,0 +1,81 @@
+export const jobsSchema = `#graphql
+  # ---- Enums ----
+  enum JobRunStatus {
+    RUNNING
+    SUCCEEDED
+    FAILED
+  }
+
+  enum JobRunTrigger {
+    SCHEDULE
+    # Catch-up pass when a server task boots
+    STARTUP
+    RETRY
+    MANUAL
+  }
+
+  # ---- Types ----
+  type ScheduledJob {
+    name: String!
+    # Null if this task doesn't run the job (e.g. removed in a newer release)
+    description: String
+    schedule: String!
+    isEnabled: Boolean!
+    # Whether a task currently holds the job's lock
+    running: Boolean!
+    lockedBy: String
+    lockedUntil: String
+    lastRunAt: String
+    lastSucceededAt: String
+    lastFailedAt: String
+    lastError: String
+    # When the next retry of a failed run is due
+    retryAt: String
+    metrics: JobMetrics!
+    runs(limit: Int): [JobRun!]!
+  }
+
+  type JobMetrics {
+    runCount: Int!
+    failureCount: Int!
+    consecutiveFailures: Int!
+    lastDurationMs: Int
+    # The rest cover the last 7 days of run history
+    recentRuns: Int!
+    recentFailures: Int!
+    averageDurationMs: Int
+    maxDurationMs: Int
+  }
+
+  type JobRun {
+    id: ID!
+    jobName: String!
+    trigger: JobRunTrigger!
+    attempt: Int!
+    status: JobRunStatus!
+    # Host, process and instance of the task that ran it
+    workerId: String!
+    triggeredBy: User
+    # JSON-encoded counts reported by the job
+    result: String
+    error: String
+    startedAt: String!
+    finishedAt: String
+    durationMs: Int
+  }
+
+  # ---- Queries ----
+  extend type Query {
+    # Platform admins only
+    scheduledJobs: [ScheduledJob!]!
+    scheduledJob(name: String!): ScheduledJob
+  }
+
+  # ---- Mutations ----
+  extend type Mutation {
+    # Runs the job now on the task that receives the request, even if paused
+    triggerScheduledJob(name: String!): JobRun!
+    # Paused jobs skip their schedule and pending retries
+    setScheduledJobEnabled(name: String!, enabled: Boolean!): ScheduledJob!
+  }
+`;
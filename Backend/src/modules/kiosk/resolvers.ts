@@ -0,0 +1,220 @@
+import { OrgRole, type KioskDevice } from "@prisma/client";
+import { prisma } from "../../db.js";
+import { requireAuth, requireOrgRole } from "../../utils/permissions.js";
+import { auditLog } from "../../utils/audit.js";
+import { toISO } from "../../utils/time.js";
+import { kioskPinSchema, registerKioskDeviceInputSchema, validate } from "../../utils/validate.js";
+import { toggleEventCheckIn } from "../../services/checkIn.js";
+import {
+  createKioskDevice,
+  kioskEventsToday,
+  setKioskPin,
+  verifyKioskPin,
+} from "../../services/kiosk.js";
+import type { Loaders } from "../../utils/dataLoaders.js";
+
+interface Context {
+  userId?: string;
+  kioskDevice?: KioskDevice;
+  loaders: Loaders;
+}
+
+const KIOSK_MANAGER_ROLES = [OrgRole.OWNER, OrgRole.ADMIN, OrgRole.MANAGER];
+const PIN_SETTER_ROLES = ["OWNER", "ADMIN", "MANAGER", "COACH"];
+
+/** The kiosk making this request; user credentials are refused. */
+function requireKiosk(context: Context): KioskDevice {
+  if (!context.kioskDevice) throw new Error("Authentication required");
+  return context.kioskDevice;
+}
+
+export const kioskResolvers = {
+  Query: {
+    kioskDevices: async (_: unknown, { organizationId }: { organizationId: string }, context: Context) => {
+      await requireOrgRole(context, organizationId, KIOSK_MANAGER_ROLES);
+      return prisma.kioskDevice.findMany({
+        where: { organizationId },
+        orderBy: { createdAt: "desc" },
+      });
+    },
+
+    kioskSession: async (_: unknown, __: unknown, context: Context) => {
+      const device = requireKiosk(context);
+      const [organization, venue, events] = await Promise.all([
+        prisma.organization.findUniqueOrThrow({ where: { id: device.organizationId } }),
+        device.venueId ? prisma.venue.findUnique({ where: { id: device.venueId } }) : null,
+        kioskEventsToday(device),
+      ]);
+      return {
+        deviceName: device.name,
+        organizationName: organization.name,
+        organizationImage: organization.image,
+        venueName: venue?.name ?? null,
+        events: events.map((e) => ({
+          id: e.id,
+          title: e.title,
+          type: e.type,
+          startTime: e.startTime,
+          endTime: e.endTime,
+          teamName: e.team?.name ?? null,
+        })),
+      };
+    },
+
+    kioskAthletes: async (_: unknown, __: unknown, context: Context) => {
+      const device = requireKiosk(context);
+      const events = await kioskEventsToday(device);
+      if (events.length === 0) return [];
+
+      // Athletes expected at any of today's events: the teams' members,
+      // everyone for org-wide events, plus individually added athletes
+      const orgWide = events.some((e) => !e.teamId && e.participatingTeams.length === 0);
+      const teamIds = [
+        ...new Set(events.flatMap((e) => [...(e.teamId ? [e.teamId] : []), ...e.participatingTeams.map((t) => t.id)])),
+      ];
+      const members = orgWide
+        ? await prisma.organizationMember.findMany({
+            where: { organizationId: device.organizationId, role: "ATHLETE" },
+            select: { userId: true },
+          })
+        : await prisma.teamMember.findMany({
+            where: { teamId: { in: teamIds }, role: { in: ["MEMBER", "CAPTAIN"] } },
+            select: { userId: true },
+          });
+      const expected = new Set([
+        ...members.map((m) => m.userId),
+        ...events.flatMap((e) => e.includedAthletes.map((a) => a.userId)),
+      ]);
+      // Drop athletes taken off every one of today's events
+      for (const userId of [...expected]) {
+        if (events.every((e) => e.excludedAthletes.some((a) => a.userId === userId))) expected.delete(userId);
+      }
+      const userIds = [...expected];
+
+      const [users, pins, openCheckIns] = await Promise.all([
+        prisma.user.findMany({
+          where: { id: { in: userIds } },
+          select: { id: true, firstName: true, lastName: true, image: true },
+          orderBy: [{ firstName: "asc" }, { lastName: "asc" }],
+        }),
+        prisma.kioskPin.findMany({
+          where: { organizationId: device.organizationId, userId: { in: userIds } },
+          select: { userId: true },
+        }),
+        prisma.checkIn.findMany({
+          where: {
+            eventId: { in: events.map((e) => e.id) },
+            userId: { in: userIds },
+            checkInTime: { not: null },
+            checkOutTime: null,
+          },
+          select: { userId: true },
+        }),
+      ]);
+      const withPin = new Set(pins.map((p) => p.userId));
+      const checkedIn = new Set(openCheckIns.map((c) => c.userId));
+      return users.map((u) => ({ ...u, hasPin: withPin.has(u.id), checkedIn: checkedIn.has(u.id) }));
+    },
+  },
+
+  Mutation: {
+    registerKioskDevice: async (
+      _: unknown,
+      { input }: { input: { organizationId: string; name: string; venueId?: string } },
+      context: Context
+    ) => {
+      const validated = validate(registerKioskDeviceInputSchema, input);
+      const actorId = await requireOrgRole(context, validated.organizationId, KIOSK_MANAGER_ROLES);
+
+      if (validated.venueId) {
+        const venue = await prisma.venue.findUnique({ where: { id: validated.venueId } });
+        if (!venue || venue.organizationId !== validated.organizationId) throw new Error("Venue not found");
+      }
+
+      const { device, token } = await createKioskDevice({ ...validated, createdBy: actorId });
+      await auditLog({
+        action: "REGISTER_KIOSK_DEVICE",
+        actorId,
+        targetId: device.id,
+        targetType: "KioskDevice",
+        organizationId: device.organizationId,
+        metadata: { name: device.name },
+      });
+      return { device, token };
+    },
+
+    revokeKioskDevice: async (_: unknown, { id }: { id: string }, context: Context) => {
+      const device = await prisma.kioskDevice.findUnique({ where: { id } });
+      if (!device) throw new Error("Kiosk device not found");
+      const actorId = await requireOrgRole(context, device.organizationId, KIOSK_MANAGER_ROLES);
+      if (device.revokedAt) return device;
+
+      const revoked = await prisma.kioskDevice.update({ where: { id }, data: { revokedAt: new Date() } });
+      await auditLog({
+        action: "REVOKE_KIOSK_DEVICE",
+        actorId,
+        targetId: id,
+        targetType: "KioskDevice",
+        organizationId: device.organizationId,
+      });
+      return revoked;
+    },
+
+    setKioskPin: async (
+      _: unknown,
+      { organizationId, userId, pin }: { organizationId: string; userId: string; pin: string },
+      context: Context
+    ) => {
+      const actorId = requireAuth(context);
+      const validPin = validate(kioskPinSchema, pin);
+
+      const target = await prisma.organizationMember.findUnique({
+        where: { userId_organizationId: { userId, organizationId } },
+      });
+      if (!target) throw new Error("User is not a member of this organization");
+
+      // The athlete, their guardian, or staff can set it
+      if (actorId !== userId) {
+        const [actorMembership, guardianLink] = await Promise.all([
+          prisma.organizationMember.findUnique({
+            where: { userId_organizationId: { userId: actorId, organizationId } },
+          }),
+          prisma.guardianLink.findFirst({ where: { guardianId: actorId, athleteId: userId, organizationId } }),
+        ]);
+        if (!guardianLink && !(actorMembership && PIN_SETTER_ROLES.includes(actorMembership.role))) {
+          throw new Error("Not authorized to set this user's kiosk PIN");
+        }
+      }
+
+      await setKioskPin(userId, organizationId, validPin);
+      await auditLog({ action: "SET_KIOSK_PIN", actorId, targetId: userId, targetType: "User", organizationId });
+      return true;
+    },
+
+    kioskCheckIn: async (
+      _: unknown,
+      { userId, pin, bypassEarlyCheck }: { userId: string; pin: string; bypassEarlyCheck?: boolean },
+      context: Context
+    ) => {
+      const device = requireKiosk(context);
+      await verifyKioskPin(userId, device.organizationId, pin.trim());
+
+      const { checkIn, action, event } = await toggleEventCheckIn({
+        userId,
+        organizationId: device.organizationId,
+        venueId: device.venueId ?? undefined,
+        bypassEarlyCheck,
+        now: new Date(),
+      });
+      return { action, status: checkIn.status, eventTitle: event.title, hoursLogged: checkIn.hoursLogged };
+    },
+  },
+
+  KioskDevice: {
+    venue: (parent: KioskDevice, _: unknown, context: Context) =>
+      parent.venueId ? context.loaders.venue.load(parent.venueId) : null,
+    lastSeenAt: (parent: KioskDevice) => toISO(parent.lastSeenAt),
+    revokedAt: (parent: KioskDevice) => toISO(parent.revokedAt),
+    createdAt: (parent: KioskDevice) => toISO(parent.createdAt),
+  },
+};
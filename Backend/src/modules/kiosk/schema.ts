@@ -0,0 +1,76 @@
+export const kioskSchema = `#graphql
+  # ---- Types ----
+  type KioskDevice {
+    id: ID!
+    name: String!
+    venue: Venue
+    lastSeenAt: String
+    revokedAt: String
+    createdAt: String!
+  }
+
+  # The token is only ever returned here; the device sends it as "Authorization: Kiosk <token>"
+  type KioskDeviceRegistration {
+    device: KioskDevice!
+    token: String!
+  }
+
+  # What a kiosk may see of an event; kiosks never get the full Event type
+  type KioskEvent {
+    id: ID!
+    title: String!
+    type: EventType!
+    startTime: String!
+    endTime: String!
+    teamName: String
+  }
+
+  type KioskSession {
+    deviceName: String!
+    organizationName: String!
+    organizationImage: String
+    venueName: String
+    events: [KioskEvent!]!
+  }
+
+  type KioskAthlete {
+    id: ID!
+    firstName: String!
+    lastName: String!
+    image: String
+    hasPin: Boolean!
+    # Checked in to one of today's kiosk events and not yet checked out
+    checkedIn: Boolean!
+  }
+
+  type KioskCheckInResult {
+    action: NfcCheckInAction!
+    status: AttendanceStatus!
+    eventTitle: String!
+    hoursLogged: Float
+  }
+
+  # ---- Inputs ----
+  input RegisterKioskDeviceInput {
+    organizationId: ID!
+    name: String!
+    venueId: ID
+  }
+
+  # ---- Queries ----
+  extend type Query {
+    kioskDevices(organizationId: ID!): [KioskDevice!]!
+    # Kiosk credential only
+    kioskSession: KioskSession!
+    kioskAthletes: [KioskAthlete!]!
+  }
+
+  # ---- Mutations ----
+  extend type Mutation {
+    registerKioskDevice(input: RegisterKioskDeviceInput!): KioskDeviceRegistration!
+    revokeKioskDevice(id: ID!): KioskDevice!
+    setKioskPin(organizationId: ID!, userId: ID!, pin: String!): Boolean!
+    # Kiosk credential only
+    kioskCheckIn(userId: ID!, pin: String!, bypassEarlyCheck: Boolean): KioskCheckInResult!
+  }
+`;
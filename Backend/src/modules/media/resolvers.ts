@@ -1,8 +1,12 @@
 import { prisma } from "../../db.js";
-import { AttendanceStatus } from "@prisma/client";
+import type { CheckIn } from "@prisma/client";
 import { generateProfilePictureUploadUrl } from "../../s3.js";
-import { parseTimeString } from "../../utils/time.js";
-import { toISO } from "../../utils/time.js";
+import { toISO, toZonedCalendarDate } from "../../utils/time.js";
+import { publishPendingAdHocCheckIn } from "../../services/liveUpdates.js";
+import { pubsub, topics, withFilter } from "../../utils/pubsub.js";
+import { resolveOfflineTapTime, type OfflineTap } from "../../utils/offlineTap.js";
+import { signQrCheckInCode, verifyQrCheckInCode } from "../../utils/qrCheckIn.js";
+import { toggleEventCheckIn } from "../../services/checkIn.js";
 import type { Loaders } from "../../utils/dataLoaders.js";
 
 interface Context {
@@ -10,6 +14,27 @@ interface Context {
   loaders: Loaders;
 }
 
+/**
+ * Teams whose pending ad-hoc check-ins the user may review: null for
+ * OWNER/ADMIN/MANAGER (every team), otherwise the teams a COACH coaches.
+ */
+async function adHocReviewTeamIds(context: { userId?: string }, organizationId: string): Promise<string[] | null> {
+  if (!context.userId) throw new Error("Authentication required");
+  const orgMembership = await prisma.organizationMember.findUnique({
+    where: { userId_organizationId: { userId: context.userId, organizationId } },
+  });
+  if (!orgMembership || !["OWNER", "ADMIN", "MANAGER", "COACH"].includes(orgMembership.role)) {
+    throw new Error("Only owners, admins, managers, or coaches can view pending check-ins");
+  }
+  if (orgMembership.role !== "COACH") return null;
+
+  const coachedTeams = await prisma.teamMember.findMany({
+    where: { userId: context.userId, role: { in: ["COACH", "ADMIN"] }, team: { organizationId } },
+    select: { teamId: true },
+  });
+  return coachedTeams.map((t) => t.teamId);
+}
+
 export const mediaResolvers = {
   Query: {
     organizationNfcTags: async (_: unknown, { organizationId }: { organizationId: string }) => {
@@ -21,21 +46,9 @@ export const mediaResolvers = {
       { organizationId }: { organizationId: string },
       context: { userId?: string }
     ) => {
-      if (!context.userId) throw new Error("Authentication required");
-      const orgMembership = await prisma.organizationMember.findUnique({
-        where: { userId_organizationId: { userId: context.userId, organizationId } },
-      });
-      if (!orgMembership || !["OWNER", "ADMIN", "MANAGER", "COACH"].includes(orgMembership.role)) {
-        throw new Error("Only owners, admins, managers, or coaches can view pending check-ins");
-      }
-
       // OWNER/ADMIN/MANAGER see all pending; COACH only sees teams they coach
-      if (orgMembership.role === "COACH") {
-        const coachedTeams = await prisma.teamMember.findMany({
-          where: { userId: context.userId, role: { in: ["COACH", "ADMIN"] }, team: { organizationId } },
-          select: { teamId: true },
-        });
-        const coachedTeamIds = coachedTeams.map((t) => t.teamId);
+      const coachedTeamIds = await adHocReviewTeamIds(context, organizationId);
+      if (coachedTeamIds) {
         return prisma.checkIn.findMany({
           where: { isAdHoc: true, approved: false, event: { organizationId, teamId: { in: coachedTeamIds } } },
           orderBy: { createdAt: "desc" },
@@ -47,6 +60,24 @@ export const mediaResolvers = {
         orderBy: { createdAt: "desc" },
       });
     },
+
+    eventCheckInQrCode: async (_: unknown, { eventId }: { eventId: string }, context: { userId?: string }) => {
+      if (!context.userId) throw new Error("Authentication required");
+
+      const event = await prisma.event.findUnique({ where: { id: eventId } });
+      if (!event) throw new Error("Event not found");
+
+      const orgMembership = await prisma.organizationMember.findUnique({
+        where: { userId_organizationId: { userId: context.userId, organizationId: event.organizationId } },
+      });
+      if (!orgMembership || !["OWNER", "ADMIN", "MANAGER", "COACH"].includes(orgMembership.role)) {
+        throw new Error("Only owners, admins, managers, or coaches can display check-in codes");
+      }
+      if (event.status !== "SCHEDULED") throw new Error("Check-in is closed for this event");
+
+      const { code, expiresAt } = signQrCheckInCode(event.id);
+      return { code, expiresAt: expiresAt.toISOString() };
+    },
   },
 
   Mutation: {
@@ -111,190 +142,58 @@ export const mediaResolvers = {
 
     nfcCheckIn: async (
       _: unknown,
-      { token, forUserId, teamId, bypassEarlyCheck }: { token: string; forUserId?: string; teamId?: string; bypassEarlyCheck?: boolean },
+      {
+        token,
+        forUserId,
+        teamId,
+        bypassEarlyCheck,
+        offlineTap,
+      }: { token: string; forUserId?: string; teamId?: string; bypassEarlyCheck?: boolean; offlineTap?: OfflineTap },
       context: { userId?: string }
     ) => {
       if (!context.userId) throw new Error("Authentication required");
 
+      // Taps queued offline are judged at the moment of the tap, not when the phone reconnects
+      const now = offlineTap ? resolveOfflineTapTime(offlineTap) : new Date();
+      const offlineSyncedAt = offlineTap ? new Date() : undefined;
+
       // 1. Validate tag
       const tag = await prisma.nfcTag.findUnique({ where: { token } });
       if (!tag) throw new Error("Unrecognized tag");
       if (!tag.isActive) throw new Error("Tag deactivated");
 
-      // 2. Verify user is org member
-      const orgMembership = await prisma.organizationMember.findUnique({
-        where: { userId_organizationId: { userId: context.userId, organizationId: tag.organizationId } },
-      });
-      if (!orgMembership) throw new Error("You are not a member of this organization");
-
-      // 3. Determine target user (self or forUserId)
-      let targetUserId = context.userId;
-      if (forUserId && forUserId !== context.userId) {
-        // Must be a guardian link
-        const guardianLink = await prisma.guardianLink.findFirst({
-          where: { guardianId: context.userId, athleteId: forUserId },
-        });
-        if (!guardianLink) throw new Error("Not authorized to check in this user");
-        targetUserId = forUserId;
-      }
-
-      // 3b. Resolve team memberships for the target user
-      let teamIds: string[];
-      if (teamId) {
-        const teamMembership = await prisma.teamMember.findFirst({
-          where: { userId: targetUserId, teamId },
-          select: { teamId: true },
-        });
-        if (!teamMembership) {
-          // Allow org-level elevated roles (owner/admin/manager/coach) to check in to any team
-          const elevatedRoles = ["OWNER", "ADMIN", "MANAGER", "COACH"];
-          if (!elevatedRoles.includes(orgMembership.role)) {
-            throw new Error("You are not a member of this team");
-          }
-        }
-        teamIds = [teamId];
-      } else {
-        const teamMemberships = await prisma.teamMember.findMany({
-          where: { userId: targetUserId, team: { organizationId: tag.organizationId } },
-          select: { teamId: true },
-        });
-        teamIds = teamMemberships.map((m) => m.teamId);
-      }
-
-      // 4. Find today's events matching those teams
-      const now = new Date();
-      const todayStart = new Date(now);
-      todayStart.setHours(0, 0, 0, 0);
-      const todayEnd = new Date(now);
-      todayEnd.setHours(23, 59, 59, 999);
-
-      // Elevated roles with no explicit teamId and no TeamMember entries see all org events.
-      // This covers coaches who have an org-level role but are not in the TeamMember table.
-      const elevatedRoles = ["OWNER", "ADMIN", "MANAGER", "COACH"];
-      const isElevated = elevatedRoles.includes(orgMembership.role);
-      const skipTeamFilter = !teamId && isElevated && teamIds.length === 0;
-
-      const todaysEvents = await prisma.event.findMany({
-        where: {
-          organizationId: tag.organizationId,
-          date: { gte: todayStart, lte: todayEnd },
-          ...(!skipTeamFilter && {
-            OR: [
-              { teamId: { in: teamIds } },
-              { participatingTeams: { some: { id: { in: teamIds } } } },
-              { teamId: null }, // org-wide events
-            ],
-          }),
-        },
-        orderBy: { date: "asc" },
-      });
-
-      if (todaysEvents.length === 0) throw new Error("No events today");
-
-      // Pre-fetch user's check-ins for today's events to skip already-checked-out ones
-      const todayCheckIns = await prisma.checkIn.findMany({
-        where: {
-          userId: targetUserId,
-          eventId: { in: todaysEvents.map((e) => e.id) },
-        },
-      });
-      const checkedOutEventIds = new Set(
-        todayCheckIns.filter((ci) => ci.checkOutTime !== null).map((ci) => ci.eventId)
-      );
-
-      // Find event in check-in window (30 min before start to event end)
-      const CHECK_IN_WINDOW_MINUTES = 30;
-      let selectedEvent = null;
-
-      for (const event of todaysEvents) {
-        if (checkedOutEventIds.has(event.id)) continue;
-
-        const eventDate = new Date(event.date);
-        const start = parseTimeString(event.startTime);
-        const end = parseTimeString(event.endTime);
-
-        const eventStart = new Date(eventDate);
-        eventStart.setHours(start.hours, start.minutes, 0, 0);
-        const windowStart = new Date(eventStart.getTime() - CHECK_IN_WINDOW_MINUTES * 60 * 1000);
-
-        const eventEnd = new Date(eventDate);
-        eventEnd.setHours(end.hours, end.minutes, 0, 0);
-
-        if (now >= windowStart && now <= eventEnd) {
-          selectedEvent = event;
-          break;
-        }
-      }
-
-      // If no event in window, find the next upcoming event
-      if (!selectedEvent) {
-        for (const event of todaysEvents) {
-          if (checkedOutEventIds.has(event.id)) continue;
-          const eventDate = new Date(event.date);
-          const start = parseTimeString(event.startTime);
-          const eventStart = new Date(eventDate);
-          eventStart.setHours(start.hours, start.minutes, 0, 0);
-          if (eventStart > now) {
-            if (bypassEarlyCheck) {
-              // User confirmed early check-in — proceed with this event
-              selectedEvent = event;
-              break;
-            }
-            throw new Error(`TOO_EARLY:${event.title}:${event.startTime}`);
-          }
-        }
-        // All remaining events already ended (or bypass still left selectedEvent null)
-        if (!selectedEvent) throw new Error("No events today");
-      }
-
-      // 5. Toggle logic
-      const existingCheckIn = await prisma.checkIn.findUnique({
-        where: { userId_eventId: { userId: targetUserId, eventId: selectedEvent.id } },
+      // 2. Pick today's event and check in or out
+      return toggleEventCheckIn({
+        userId: context.userId,
+        organizationId: tag.organizationId,
+        forUserId,
+        teamId,
+        bypassEarlyCheck,
+        now,
+        offlineSyncedAt,
       });
+    },
 
-      if (existingCheckIn) {
-        if (existingCheckIn.checkOutTime) {
-          throw new Error("Already checked out");
-        }
-        // Check out — use event start time as effective start if checked in early
-        if (!existingCheckIn.checkInTime) throw new Error("No check-in time recorded");
-        let effectiveStart = existingCheckIn.checkInTime;
-        {
-          const evDate = new Date(selectedEvent.date);
-          const evTime = parseTimeString(selectedEvent.startTime);
-          const evStart = new Date(evDate);
-          evStart.setHours(evTime.hours, evTime.minutes, 0, 0);
-          if (existingCheckIn.checkInTime < evStart) {
-            effectiveStart = evStart;
-          }
-        }
-        const hoursLogged = Math.max(0, (now.getTime() - effectiveStart.getTime()) / (1000 * 60 * 60));
-        const updatedCheckIn = await prisma.checkIn.update({
-          where: { id: existingCheckIn.id },
-          data: {
-            checkOutTime: now,
-            hoursLogged: Math.round(hoursLogged * 100) / 100,
-          },
-        });
-        return { checkIn: updatedCheckIn, action: "CHECKED_OUT", event: selectedEvent };
-      }
-
-      // Check in — determine ON_TIME vs LATE (on-time = before start, late = after start)
-      const eventDate = new Date(selectedEvent.date);
-      const { hours, minutes } = parseTimeString(selectedEvent.startTime);
-      const eventStart = new Date(eventDate);
-      eventStart.setHours(hours, minutes, 0, 0);
-      const status: AttendanceStatus = now.getTime() <= eventStart.getTime() ? "ON_TIME" : "LATE";
+    qrCheckIn: async (
+      _: unknown,
+      { code, forUserId, bypassEarlyCheck }: { code: string; forUserId?: string; bypassEarlyCheck?: boolean },
+      context: { userId?: string }
+    ) => {
+      if (!context.userId) throw new Error("Authentication required");
 
-      const newCheckIn = await prisma.checkIn.create({
-        data: {
-          userId: targetUserId,
-          eventId: selectedEvent.id,
-          status,
-          checkInTime: now,
-        },
+      const eventId = verifyQrCheckInCode(code);
+      if (!eventId) throw new Error("Unrecognized QR code");
+      const event = await prisma.event.findUnique({ where: { id: eventId }, select: { organizationId: true } });
+      if (!event) throw new Error("Event not found");
+
+      return toggleEventCheckIn({
+        userId: context.userId,
+        organizationId: event.organizationId,
+        forUserId,
+        eventId,
+        bypassEarlyCheck,
+        now: new Date(),
       });
-      return { checkIn: newCheckIn, action: "CHECKED_IN", event: selectedEvent };
     },
 
     adHocNfcCheckIn: async (
@@ -312,6 +211,7 @@ export const mediaResolvers = {
       // Verify user is org member
       const orgMembership = await prisma.organizationMember.findUnique({
         where: { userId_organizationId: { userId: context.userId, organizationId: tag.organizationId } },
+        include: { organization: { select: { timezone: true } } },
       });
       if (!orgMembership) throw new Error("You are not a member of this organization");
 
@@ -327,16 +227,14 @@ export const mediaResolvers = {
         throw new Error("Team does not belong to this organization");
       }
 
-      // Create ad-hoc event for today
+      // Create ad-hoc event for today (in the org's zone)
       const now = new Date();
-      const todayStart = new Date(now);
-      todayStart.setHours(0, 0, 0, 0);
 
       const adHocEvent = await prisma.event.create({
         data: {
           title: "Ad-Hoc Check-In",
           type: "PRACTICE",
-          date: todayStart,
+          date: toZonedCalendarDate(now, orgMembership.organization.timezone),
           startTime: input.startTime,
           endTime: input.endTime,
           organizationId: tag.organizationId,
@@ -358,6 +256,7 @@ export const mediaResolvers = {
         },
       });
 
+      publishPendingAdHocCheckIn(tag.organizationId, checkIn);
       return { checkIn, action: "CHECKED_IN", event: adHocEvent };
     },
 
@@ -436,6 +335,21 @@ export const mediaResolvers = {
     },
   },
 
+  Subscription: {
+    pendingAdHocCheckInAdded: {
+      subscribe: async (_: unknown, { organizationId }: { organizationId: string }, context: Context) => {
+        const coachedTeamIds = await adHocReviewTeamIds(context, organizationId);
+        const source = pubsub.subscribe<CheckIn>(topics.pendingAdHocCheckInAdded(organizationId));
+        if (!coachedTeamIds) return source;
+        return withFilter(source, async (checkIn) => {
+          const event = await prisma.event.findUnique({ where: { id: checkIn.eventId }, select: { teamId: true } });
+          return !!event?.teamId && coachedTeamIds.includes(event.teamId);
+        });
+      },
+      resolve: (checkIn: CheckIn) => checkIn,
+    },
+  },
+
   NfcTag: {
     organization: (parent: { organizationId: string }, _: unknown, context: Context) =>
       context.loaders.organization.load(parent.organizationId),
@@ -22,6 +22,12 @@ export const mediaSchema = `#graphql
     event: Event!
   }
 
+  # Rotating code a coach displays for athletes to scan; show a fresh one at expiresAt
+  type QrCheckInCode {
+    code: String!
+    expiresAt: String!
+  }
+
   type UploadUrl {
     uploadUrl: String!
     publicUrl: String!
@@ -36,6 +42,12 @@ export const mediaSchema = `#graphql
     note: String
   }
 
+  # A tap queued on the device while offline; both times come from the device clock
+  input OfflineTapInput {
+    tappedAt: String!
+    deviceNow: String!
+  }
+
   input RegisterNfcTagInput {
     token: String!
     name: String!
@@ -46,16 +58,24 @@ export const mediaSchema = `#graphql
   extend type Query {
     organizationNfcTags(organizationId: ID!): [NfcTag!]!
     pendingAdHocCheckIns(organizationId: ID!): [CheckIn!]!
+    eventCheckInQrCode(eventId: ID!): QrCheckInCode!
   }
 
   # ---- Mutations ----
   extend type Mutation {
     registerNfcTag(input: RegisterNfcTagInput!): NfcTag!
     deactivateNfcTag(id: ID!): NfcTag!
-    nfcCheckIn(token: String!, forUserId: ID, teamId: ID, bypassEarlyCheck: Boolean): NfcCheckInResult!
+    nfcCheckIn(token: String!, forUserId: ID, teamId: ID, bypassEarlyCheck: Boolean, offlineTap: OfflineTapInput): NfcCheckInResult!
+    qrCheckIn(code: String!, forUserId: ID, bypassEarlyCheck: Boolean): NfcCheckInResult!
     adHocNfcCheckIn(input: AdHocNfcCheckInInput!): NfcCheckInResult!
     approveAdHocCheckIn(checkInId: ID!): CheckIn!
     denyAdHocCheckIn(checkInId: ID!): Boolean!
     generateUploadUrl(fileType: String!): UploadUrl!
   }
+
+  # ---- Subscriptions ----
+  extend type Subscription {
+    # Coaches only receive check-ins for teams they coach
+    pendingAdHocCheckInAdded(organizationId: ID!): CheckIn!
+  }
 `;
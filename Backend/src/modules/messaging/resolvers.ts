@@ -0,0 +1,300 @@
+import type { Conversation, ConversationParticipant, Message, Prisma } from "@prisma/client";
+import { prisma } from "../../db.js";
+import { requireAuth } from "../../utils/permissions.js";
+import { pubsub, topics } from "../../utils/pubsub.js";
+import { toISO } from "../../utils/time.js";
+import { messageBodySchema, startConversationInputSchema, validate } from "../../utils/validate.js";
+import { deliverMessage, syncGuardianCopies, syncTeamChannel } from "../../services/messaging.js";
+import type { Loaders } from "../../utils/dataLoaders.js";
+
+interface Context {
+  userId?: string;
+  loaders: Loaders;
+}
+
+const MAX_PAGE_SIZE = 100;
+
+const conversationInclude = {
+  participants: { orderBy: { joinedAt: "asc" } },
+  messages: { orderBy: { createdAt: "desc" }, take: 1 },
+} satisfies Prisma.ConversationInclude;
+
+// Participants ride along so Message.readBy doesn't query per message
+const messageInclude = {
+  sender: true,
+  conversation: { include: { participants: true } },
+} satisfies Prisma.MessageInclude;
+
+type ConversationParent = Conversation & {
+  participants?: ConversationParticipant[];
+  messages?: Message[];
+};
+
+type MessageParent = Message & {
+  conversation?: { participants: ConversationParticipant[] };
+};
+
+/** The caller's participant row; non-participants get "not found" so threads can't be probed. */
+async function requireParticipant(conversationId: string, userId: string) {
+  const participant = await prisma.conversationParticipant.findUnique({
+    where: { conversationId_userId: { conversationId, userId } },
+    include: { conversation: true },
+  });
+  if (!participant) throw new Error("Conversation not found");
+  return participant;
+}
+
+async function requireOrgMembers(organizationId: string, userIds: string[]): Promise<void> {
+  const count = await prisma.organizationMember.count({
+    where: { organizationId, userId: { in: userIds } },
+  });
+  if (count !== userIds.length) {
+    throw new Error("All participants must be members of this organization");
+  }
+}
+
+export const messagingResolvers = {
+  Query: {
+    myConversations: async (_: unknown, { organizationId }: { organizationId: string }, context: Context) => {
+      const userId = requireAuth(context);
+      return prisma.conversation.findMany({
+        where: { organizationId, participants: { some: { userId } } },
+        include: conversationInclude,
+        orderBy: { lastMessageAt: "desc" },
+      });
+    },
+
+    conversation: async (_: unknown, { id }: { id: string }, context: Context) => {
+      const userId = requireAuth(context);
+      await requireParticipant(id, userId);
+      return prisma.conversation.findUnique({ where: { id }, include: conversationInclude });
+    },
+
+    conversationMessages: async (
+      _: unknown,
+      { conversationId, before, limit }: { conversationId: string; before?: string; limit?: number },
+      context: Context
+    ) => {
+      const userId = requireAuth(context);
+      await requireParticipant(conversationId, userId);
+      const page = await prisma.message.findMany({
+        where: { conversationId, ...(before && { createdAt: { lt: new Date(before) } }) },
+        include: messageInclude,
+        orderBy: { createdAt: "desc" },
+        take: Math.min(limit || 50, MAX_PAGE_SIZE),
+      });
+      return page.reverse();
+    },
+  },
+
+  Mutation: {
+    startConversation: async (
+      _: unknown,
+      { input }: { input: { organizationId: string; participantIds: string[]; title?: string } },
+      context: Context
+    ) => {
+      const userId = requireAuth(context);
+      const { organizationId, participantIds, title } = validate(startConversationInputSchema, input);
+      const memberIds = [...new Set([userId, ...participantIds])];
+      if (memberIds.length < 2) throw new Error("Validation error: Add at least one other participant");
+      await requireOrgMembers(organizationId, memberIds);
+
+      const type = memberIds.length === 2 && !title ? "DIRECT" : "GROUP";
+
+      // One direct thread per pair of people
+      if (type === "DIRECT") {
+        const existing = await prisma.conversation.findFirst({
+          where: {
+            organizationId,
+            type: "DIRECT",
+            AND: memberIds.map((id) => ({ participants: { some: { userId: id, role: "MEMBER" as const } } })),
+          },
+        });
+        if (existing) {
+          return prisma.conversation.findUnique({ where: { id: existing.id }, include: conversationInclude });
+        }
+      }
+
+      const conversation = await prisma.conversation.create({
+        data: {
+          organizationId,
+          type,
+          title: title || null,
+          createdBy: userId,
+          participants: { create: memberIds.map((id) => ({ userId: id })) },
+        },
+      });
+      await syncGuardianCopies(conversation.id, organizationId);
+      return prisma.conversation.findUnique({ where: { id: conversation.id }, include: conversationInclude });
+    },
+
+    openTeamChannel: async (_: unknown, { teamId }: { teamId: string }, context: Context) => {
+      const userId = requireAuth(context);
+      const team = await prisma.team.findUnique({ where: { id: teamId }, select: { organizationId: true } });
+      if (!team) throw new Error("Team not found");
+
+      const [teamMember, orgMember, participant] = await Promise.all([
+        prisma.teamMember.findUnique({ where: { userId_teamId: { userId, teamId } } }),
+        prisma.organizationMember.findUnique({
+          where: { userId_organizationId: { userId, organizationId: team.organizationId } },
+        }),
+        prisma.conversationParticipant.findFirst({ where: { userId, conversation: { teamId } } }),
+      ]);
+      const isStaff = !!orgMember && ["OWNER", "ADMIN", "MANAGER", "COACH"].includes(orgMember.role);
+      if (!teamMember && !isStaff && !participant) {
+        throw new Error("Not authorized to view this team's channel");
+      }
+
+      const conversation = await syncTeamChannel(teamId, userId);
+      // Staff who aren't on the roster join when they first open the channel
+      if (isStaff && !teamMember) {
+        await prisma.conversationParticipant.upsert({
+          where: { conversationId_userId: { conversationId: conversation.id, userId } },
+          create: { conversationId: conversation.id, userId },
+          update: {},
+        });
+      }
+      return prisma.conversation.findUnique({ where: { id: conversation.id }, include: conversationInclude });
+    },
+
+    sendMessage: async (
+      _: unknown,
+      { conversationId, body }: { conversationId: string; body: string },
+      context: Context
+    ) => {
+      const userId = requireAuth(context);
+      const text = validate(messageBodySchema, body);
+      const { conversation } = await requireParticipant(conversationId, userId);
+
+      // Re-check who must be on the thread: rosters change and guardians get linked later
+      if (conversation.type === "TEAM" && conversation.teamId) {
+        await syncTeamChannel(conversation.teamId, userId);
+      } else {
+        await syncGuardianCopies(conversationId, conversation.organizationId);
+      }
+
+      const message = await prisma.message.create({
+        data: { conversationId, senderId: userId, body: text },
+      });
+      const [updated] = await Promise.all([
+        prisma.conversation.update({
+          where: { id: conversationId },
+          data: { lastMessageAt: message.createdAt },
+          include: { participants: true },
+        }),
+        prisma.conversationParticipant.update({
+          where: { conversationId_userId: { conversationId, userId } },
+          data: { lastReadAt: message.createdAt },
+        }),
+      ]);
+
+      const saved = await prisma.message.findUniqueOrThrow({ where: { id: message.id }, include: messageInclude });
+      deliverMessage(updated, saved);
+      return saved;
+    },
+
+    markConversationRead: async (_: unknown, { conversationId }: { conversationId: string }, context: Context) => {
+      const userId = requireAuth(context);
+      await requireParticipant(conversationId, userId);
+      return prisma.conversationParticipant.update({
+        where: { conversationId_userId: { conversationId, userId } },
+        data: { lastReadAt: new Date() },
+      });
+    },
+
+    addConversationParticipants: async (
+      _: unknown,
+      { conversationId, userIds }: { conversationId: string; userIds: string[] },
+      context: Context
+    ) => {
+      const userId = requireAuth(context);
+      const { conversation, role } = await requireParticipant(conversationId, userId);
+      if (conversation.type !== "GROUP") throw new Error("Participants can only be added to group conversations");
+      if (role !== "MEMBER") throw new Error("Not authorized to add participants");
+
+      const newIds = [...new Set(userIds)];
+      await requireOrgMembers(conversation.organizationId, newIds);
+      await prisma.conversationParticipant.createMany({
+        data: newIds.map((id) => ({ conversationId, userId: id })),
+        skipDuplicates: true,
+      });
+      // A copied guardian added as a regular member keeps that membership
+      await prisma.conversationParticipant.updateMany({
+        where: { conversationId, userId: { in: newIds }, role: "GUARDIAN" },
+        data: { role: "MEMBER" },
+      });
+      await syncGuardianCopies(conversationId, conversation.organizationId);
+      return prisma.conversation.findUnique({ where: { id: conversationId }, include: conversationInclude });
+    },
+
+    leaveConversation: async (_: unknown, { conversationId }: { conversationId: string }, context: Context) => {
+      const userId = requireAuth(context);
+      const { conversation, id } = await requireParticipant(conversationId, userId);
+      if (conversation.type !== "GROUP") throw new Error("You can only leave group conversations");
+      await prisma.conversationParticipant.delete({ where: { id } });
+      await syncGuardianCopies(conversationId, conversation.organizationId);
+      return true;
+    },
+  },
+
+  Subscription: {
+    messageAdded: {
+      subscribe: async (_: unknown, { conversationId }: { conversationId: string }, context: Context) => {
+        await requireParticipant(conversationId, requireAuth(context));
+        return pubsub.subscribe<Message>(topics.messageAdded(conversationId));
+      },
+      resolve: (message: Message) => message,
+    },
+  },
+
+  Conversation: {
+    team: (parent: Conversation, _: unknown, context: Context) =>
+      parent.teamId ? context.loaders.team.load(parent.teamId) : null,
+    participants: (parent: ConversationParent) =>
+      parent.participants ??
+      prisma.conversationParticipant.findMany({ where: { conversationId: parent.id }, orderBy: { joinedAt: "asc" } }),
+    lastMessage: (parent: ConversationParent) =>
+      parent.messages
+        ? parent.messages[0] ?? null
+        : prisma.message.findFirst({ where: { conversationId: parent.id }, orderBy: { createdAt: "desc" } }),
+    unreadCount: async (parent: ConversationParent, _: unknown, context: Context) => {
+      if (!context.userId) return 0;
+      const participant =
+        parent.participants?.find((p) => p.userId === context.userId) ??
+        (await prisma.conversationParticipant.findUnique({
+          where: { conversationId_userId: { conversationId: parent.id, userId: context.userId } },
+        }));
+      if (!participant) return 0;
+      return prisma.message.count({
+        where: {
+          conversationId: parent.id,
+          senderId: { not: context.userId },
+          ...(participant.lastReadAt && { createdAt: { gt: participant.lastReadAt } }),
+        },
+      });
+    },
+    lastMessageAt: (parent: Conversation) => toISO(parent.lastMessageAt),
+    createdAt: (parent: Conversation) => toISO(parent.createdAt),
+  },
+
+  ConversationParticipant: {
+    user: (parent: ConversationParticipant, _: unknown, context: Context) => context.loaders.user.load(parent.userId),
+    lastReadAt: (parent: ConversationParticipant) => toISO(parent.lastReadAt),
+    joinedAt: (parent: ConversationParticipant) => toISO(parent.joinedAt),
+  },
+
+  Message: {
+    sender: (parent: Message, _: unknown, context: Context) => context.loaders.user.load(parent.senderId),
+    readBy: async (parent: MessageParent, _: unknown, context: Context) => {
+      const participants =
+        parent.conversation?.participants ??
+        (await prisma.conversationParticipant.findMany({ where: { conversationId: parent.conversationId } }));
+      const readerIds = participants
+        .filter((p) => p.userId !== parent.senderId && p.lastReadAt && p.lastReadAt >= parent.createdAt)
+        .map((p) => p.userId);
+      const users = await context.loaders.user.loadMany(readerIds);
+      return users.filter((u) => u && !(u instanceof Error));
+    },
+    createdAt: (parent: Message) => toISO(parent.createdAt),
+  },
+};
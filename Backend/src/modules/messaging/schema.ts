@@ -0,0 +1,79 @@
+export const messagingSchema = `#graphql
+  # ---- Enums ----
+  enum ConversationType {
+    TEAM
+    DIRECT
+    GROUP
+  }
+
+  enum ConversationParticipantRole {
+    MEMBER
+    GUARDIAN
+  }
+
+  # ---- Types ----
+  type Conversation {
+    id: ID!
+    organizationId: ID!
+    type: ConversationType!
+    team: Team
+    # Null for direct messages; clients show the other participant's name
+    title: String
+    participants: [ConversationParticipant!]!
+    lastMessage: Message
+    # Messages from others since the caller last read the conversation
+    unreadCount: Int!
+    lastMessageAt: String!
+    createdAt: String!
+  }
+
+  type ConversationParticipant {
+    id: ID!
+    user: User!
+    # GUARDIAN = copied because a coach is messaging their minor athlete
+    role: ConversationParticipantRole!
+    lastReadAt: String
+    joinedAt: String!
+  }
+
+  type Message {
+    id: ID!
+    conversationId: ID!
+    sender: User!
+    body: String!
+    # Other participants who have read up to this message
+    readBy: [User!]!
+    createdAt: String!
+  }
+
+  # ---- Inputs ----
+  input StartConversationInput {
+    organizationId: ID!
+    # Everyone besides the caller; one person without a title starts a direct message
+    participantIds: [ID!]!
+    title: String
+  }
+
+  # ---- Queries ----
+  extend type Query {
+    myConversations(organizationId: ID!): [Conversation!]!
+    conversation(id: ID!): Conversation
+    # Oldest first; pass the earliest loaded message's createdAt as before to page back
+    conversationMessages(conversationId: ID!, before: String, limit: Int): [Message!]!
+  }
+
+  # ---- Mutations ----
+  extend type Mutation {
+    startConversation(input: StartConversationInput!): Conversation!
+    openTeamChannel(teamId: ID!): Conversation!
+    sendMessage(conversationId: ID!, body: String!): Message!
+    markConversationRead(conversationId: ID!): ConversationParticipant!
+    addConversationParticipants(conversationId: ID!, userIds: [ID!]!): Conversation!
+    leaveConversation(conversationId: ID!): Boolean!
+  }
+
+  # ---- Subscriptions ----
+  extend type Subscription {
+    messageAdded(conversationId: ID!): Message!
+  }
+`;
@@ -3,7 +3,10 @@ import { OrgRole, TeamRole } from "@prisma/client";
 import { sendInviteEmail } from "../../email.js";
 import { requireOrgAdmin, requireOrgOwner } from "../../utils/permissions.js";
 import { auditLog } from "../../utils/audit.js";
+import { teamRoleForOrgRole } from "../../utils/rosterImport.js";
 import { toISO } from "../../utils/time.js";
+import { usageMonth } from "../../utils/sms.js";
+import { importRoster } from "../../services/rosterImport.js";
 import type { Loaders } from "../../utils/dataLoaders.js";
 
 interface Context {
@@ -347,11 +350,11 @@ export const organizationResolvers = {
         });
 
         // For guardian invites, create a GuardianLink instead of team memberships
-        if (invite.role === "GUARDIAN" && invite.athleteId) {
+        if (invite.role === "GUARDIAN" && invite.athleteIds.length > 0) {
           // Hard-enforce no circular guardian relationships (org-independent):
-          // Reject if the athlete being guarded is already a guardian of the acceptor.
+          // Reject if an athlete being guarded is already a guardian of the acceptor.
           const circularLink = await tx.guardianLink.findFirst({
-            where: { guardianId: invite.athleteId, athleteId: context.userId! },
+            where: { guardianId: { in: invite.athleteIds }, athleteId: context.userId! },
           });
           if (circularLink) {
             throw new Error(
@@ -375,27 +378,26 @@ export const organizationResolvers = {
             );
           }
 
-          await tx.guardianLink.upsert({
-            where: {
-              guardianId_athleteId_organizationId: {
+          for (const athleteId of invite.athleteIds) {
+            await tx.guardianLink.upsert({
+              where: {
+                guardianId_athleteId_organizationId: {
+                  guardianId: context.userId!,
+                  athleteId,
+                  organizationId: invite.organizationId,
+                },
+              },
+              update: {},
+              create: {
                 guardianId: context.userId!,
-                athleteId: invite.athleteId,
+                athleteId,
                 organizationId: invite.organizationId,
               },
-            },
-            update: {},
-            create: {
-              guardianId: context.userId!,
-              athleteId: invite.athleteId,
-              organizationId: invite.organizationId,
-            },
-          });
+            });
+          }
         } else {
           // Add to teams with role derived from invite org role
-          const teamRole: TeamRole =
-            invite.role === "COACH" ? "COACH" :
-            ["ADMIN", "MANAGER"].includes(invite.role) ? "ADMIN" :
-            "MEMBER";
+          const teamRole = teamRoleForOrgRole(invite.role);
           for (const teamId of invite.teamIds) {
             await tx.teamMember.upsert({
               where: { userId_teamId: { userId: context.userId!, teamId } },
@@ -454,6 +456,27 @@ export const organizationResolvers = {
 
       return invite;
     },
+
+    importRoster: async (
+      _: unknown,
+      { organizationId, csv, dryRun }: { organizationId: string; csv: string; dryRun?: boolean },
+      context: Context
+    ) => {
+      const actorId = await requireOrgAdmin(context, organizationId);
+      const result = await importRoster(organizationId, csv, { dryRun: dryRun ?? true });
+      if (result.committed) {
+        const { newUsers, existingUsers, guardianInvites } = result;
+        await auditLog({
+          action: "IMPORT_ROSTER",
+          actorId,
+          targetId: organizationId,
+          targetType: "Organization",
+          organizationId,
+          metadata: { newUsers, existingUsers, guardianInvites },
+        });
+      }
+      return result;
+    },
   },
 
   Organization: {
@@ -486,6 +509,13 @@ export const organizationResolvers = {
         })),
       };
     },
+    smsUsage: async (parent: { id: string; smsMonthlyQuota: number }) => {
+      const month = usageMonth(new Date());
+      const usage = await prisma.smsUsage.findUnique({
+        where: { organizationId_month: { organizationId: parent.id, month } },
+      });
+      return { month, sent: usage?.sent ?? 0, quota: parent.smsMonthlyQuota };
+    },
     createdAt: (parent: any) => toISO(parent.createdAt),
     updatedAt: (parent: any) => toISO(parent.updatedAt),
   },
@@ -34,6 +34,9 @@ export const organizationsSchema = `#graphql
     allowCoachHourEdit: Boolean!
     reportFrequencies: [String!]!
     payrollConfig: PayrollConfig
+    timezone: String!
+    # This month's SMS notifications against the org's quota
+    smsUsage: SmsUsage!
   }
 
   type OrgSeason {
@@ -64,13 +67,42 @@ export const organizationsSchema = `#graphql
     organization: Organization!
     role: OrgRole!
     teamIds: [String!]!
-    athleteId: String
+    athleteIds: [String!]!
     token: String!
     status: InviteStatus!
     createdAt: String!
     expiresAt: String!
   }
 
+  enum RosterImportRowStatus {
+    NEW_USER
+    EXISTING_USER
+    ERROR
+  }
+
+  type RosterImportRow {
+    # Line in the uploaded file, counting the header as line 1
+    line: Int!
+    email: String
+    name: String
+    status: RosterImportRowStatus!
+    role: OrgRole
+    teams: [String!]!
+    guardianEmail: String
+    errors: [String!]!
+  }
+
+  type RosterImportResult {
+    # False for dry runs and whenever any row has errors; nothing is written then
+    committed: Boolean!
+    rows: [RosterImportRow!]!
+    newUsers: Int!
+    # Matched by email; they're added to teams but keep their current org role
+    existingUsers: Int!
+    guardianInvites: Int!
+    errorCount: Int!
+  }
+
   # ---- Inputs ----
   input CreateOrganizationInput {
     name: String!
@@ -124,5 +156,8 @@ export const organizationsSchema = `#graphql
     acceptInvite(token: String!): OrganizationMember!
     cancelInvite(id: ID!): Boolean!
     resendInvite(id: ID!): Invite!
+    # CSV columns: name (or first/last name), email, dob, teams (";"-separated), role,
+    # guardian email, emergency contact name/relationship/phone
+    importRoster(organizationId: ID!, csv: String!, dryRun: Boolean = true): RosterImportResult!
   }
 `;
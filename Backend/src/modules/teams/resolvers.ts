@@ -2,9 +2,11 @@ import { prisma } from "../../db.js";
 import { TeamRole } from "@prisma/client";
 import { requireAuth, requireOrgAdmin } from "../../utils/permissions.js";
 import { auditLog } from "../../utils/audit.js";
+import { recordDeletedEvents } from "../../services/calendarFeed.js";
 import { toISO, getSeasonDateRange, generateSeasonDisplayString } from "../../utils/time.js";
 import { filterEventsByMembership, MembershipPeriod } from "../../utils/membershipPeriods.js";
 import { computeEventDuration } from "../../utils/time.js";
+import { getGameRecord } from "../../services/gameRecords.js";
 import type { Loaders } from "../../utils/dataLoaders.js";
 
 interface Context {
@@ -105,6 +107,7 @@ export const teamResolvers = {
           ).map((e) => e.id);
 
           if (teamEventIds.length > 0) {
+            await recordDeletedEvents(tx, teamEventIds);
             // Delete child records in dependency order before deleting events
             await tx.checkIn.deleteMany({ where: { eventId: { in: teamEventIds } } });
             await tx.excuseRequest.deleteMany({ where: { eventId: { in: teamEventIds } } });
@@ -255,6 +258,14 @@ export const teamResolvers = {
       const totalHoursRequired = members.reduce((sum, m) => sum + m.hoursRequired, 0);
       return totalHoursRequired > 0 ? Math.min(100, (totalHoursLogged / totalHoursRequired) * 100) : 0;
     },
+    gameRecord: async (parent: { id: string }, _: unknown, context: Context) => {
+      const team = await context.loaders.team.load(parent.id);
+      // Legacy teams without a season count every game
+      const range = team?.orgSeason && team.seasonYear
+        ? getSeasonDateRange(team.orgSeason.startMonth, team.orgSeason.endMonth, team.seasonYear)
+        : null;
+      return getGameRecord({ teamId: parent.id, ...(range && { date: { gte: range.start, lte: range.end } }) });
+    },
     createdAt: (parent: any) => toISO(parent.createdAt),
     updatedAt: (parent: any) => toISO(parent.updatedAt),
   },
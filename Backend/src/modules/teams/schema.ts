@@ -29,6 +29,8 @@ export const teamsSchema = `#graphql
     recurringEvents: [RecurringEvent!]!
     memberCount: Int!
     attendancePercent(timeRange: TimeRange): Float!
+    # Scored games within the team's season
+    gameRecord: GameRecord!
     sortOrder: Int!
     archivedAt: String
     createdAt: String!
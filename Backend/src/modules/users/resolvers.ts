@@ -1,6 +1,7 @@
 import { prisma } from "../../db.js";
 import { CognitoIdentityProviderClient, AdminDeleteUserCommand, ListUsersCommand } from "@aws-sdk/client-cognito-identity-provider";
 import { toISO, sanitizePhone } from "../../utils/time.js";
+import { encryptIfConfigured, decryptIfConfigured } from "../../utils/encrypt.js";
 import { validate, createUserInputSchema, updateUserInputSchema } from "../../utils/validate.js";
 import type { Loaders } from "../../utils/dataLoaders.js";
 
@@ -38,7 +39,7 @@ export const userResolvers = {
   Mutation: {
     createUser: async (_: unknown, { input }: { input: { email: string; firstName: string; lastName: string; phone?: string; address?: string; city?: string; country?: string; image?: string } }) => {
       validate(createUserInputSchema, input);
-      const sanitized = { ...input, phone: sanitizePhone(input.phone) };
+      const sanitized = { ...input, phone: sanitizePhone(input.phone), address: encryptIfConfigured(input.address) };
       return prisma.user.upsert({
         where: { email: input.email },
         update: { firstName: input.firstName, lastName: input.lastName },
@@ -48,12 +49,17 @@ export const userResolvers = {
 
     updateUser: async (_: unknown, { id, input }: { id: string; input: { firstName?: string; lastName?: string; dateOfBirth?: string; phone?: string; address?: string; city?: string; country?: string; image?: string } }) => {
       validate(updateUserInputSchema, input);
-      const { dateOfBirth, phone, ...rest } = input;
+      const { dateOfBirth, phone, address, ...rest } = input;
+      const newPhone = sanitizePhone(phone);
+      const current = newPhone ? await prisma.user.findUnique({ where: { id }, select: { phone: true } }) : null;
       return prisma.user.update({
         where: { id },
         data: {
           ...rest,
-          ...(phone !== undefined ? { phone: sanitizePhone(phone) } : {}),
+          ...(phone !== undefined ? { phone: newPhone } : {}),
+          ...(address !== undefined ? { address: encryptIfConfigured(address) } : {}),
+          // A changed number has to be verified again before it gets texts
+          ...(newPhone && newPhone !== current?.phone ? { phoneVerifiedAt: null } : {}),
           ...(dateOfBirth !== undefined ? { dateOfBirth: dateOfBirth ? new Date(dateOfBirth) : null } : {}),
         },
       });
@@ -155,6 +161,7 @@ export const userResolvers = {
         where: { userId_organizationId: { userId: parent.id, organizationId } },
       }),
     dateOfBirth: (parent: any) => parent.dateOfBirth ? toISO(parent.dateOfBirth) : null,
+    address: (parent: any) => decryptIfConfigured(parent.address),
     createdAt: (parent: any) => toISO(parent.createdAt),
     updatedAt: (parent: any) => toISO(parent.updatedAt),
   },
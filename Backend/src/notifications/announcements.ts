@@ -1,6 +1,7 @@
 import { prisma } from "../db.js";
 import { sendPushNotification } from "./pushNotifications.js";
 import { sendAnnouncementEmail } from "./emailNotifications.js";
+import { sendSmsNotification } from "./sms.js";
 
 /**
  * Broadcast an announcement to targeted users
@@ -84,6 +85,7 @@ export async function broadcastAnnouncement(announcementId: string): Promise<voi
       const events = await prisma.event.findMany({
         where: {
           organizationId: announcement.organizationId,
+          status: "SCHEDULED",
           date: {
             gte: startOfDay,
             lte: endOfDay,
@@ -224,6 +226,22 @@ export async function broadcastAnnouncement(announcementId: string): Promise<voi
         );
       }
 
+      // Urgent announcements also go out by text to users who turned SMS on
+      if (announcement.urgent && prefs?.smsEnabled) {
+        promises.push(
+          sendSmsNotification({
+            userId: user.id,
+            organizationId: announcement.organizationId,
+            type: "ANNOUNCEMENT",
+            title: announcement.title,
+            message: announcement.message,
+            announcementId: announcement.id,
+          }).catch((err) => {
+            console.error(`Failed to send SMS to user ${user.id}:`, err);
+          })
+        );
+      }
+
       return Promise.allSettled(promises);
     });
 
@@ -233,3 +233,74 @@ export async function sendExcuseStatusEmail(
 
   await ses.send(command);
 }
+
+/**
+ * Send an email when an event is cancelled, postponed, or moved
+ */
+export async function sendEventUpdateEmail(
+  email: string,
+  eventTitle: string,
+  headline: string,
+  details: string,
+  reason?: string | null
+): Promise<void> {
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="margin:0;padding:0;background-color:#111827;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color:#111827;padding:40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;background-color:#1f2937;border-radius:12px;border:1px solid #374151;">
+          <tr>
+            <td style="padding:32px 32px 24px;">
+              <h1 style="margin:0 0 8px;font-size:24px;font-weight:700;color:#ffffff;">Athletiq</h1>
+              <p style="margin:0;font-size:14px;color:#9ca3af;">${headline}</p>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding:0 32px 24px;">
+              <h2 style="margin:0 0 16px;font-size:20px;font-weight:600;color:#ffffff;">${eventTitle}</h2>
+              <p style="margin:0 0 16px;font-size:15px;color:#d1d5db;">${details}</p>
+              ${reason ? `
+              <div style="background-color:#111827;border-radius:8px;padding:16px;border:1px solid #374151;">
+                <p style="margin:0;font-size:13px;color:#9ca3af;margin-bottom:8px;">Reason:</p>
+                <p style="margin:0;font-size:15px;color:#d1d5db;line-height:1.6;white-space:pre-wrap;">${reason}</p>
+              </div>
+              ` : ""}
+            </td>
+          </tr>
+          <tr>
+            <td style="padding:0 32px 32px;">
+              <p style="margin:0;font-size:12px;color:#6b7280;">
+                You can manage your notification preferences in the app.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+
+  const text = `${headline}: ${eventTitle}\n\n${details}${reason ? `\n\nReason: ${reason}` : ""}`;
+
+  const command = new SendEmailCommand({
+    Source: FROM_EMAIL,
+    Destination: { ToAddresses: [email] },
+    Message: {
+      Subject: { Data: `${headline}: ${eventTitle}` },
+      Body: {
+        Html: { Data: html },
+        Text: { Data: text },
+      },
+    },
+  });
+
+  await ses.send(command);
+}
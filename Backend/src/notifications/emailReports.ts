@@ -1,5 +1,6 @@
 import { SESClient, SendEmailCommand } from "@aws-sdk/client-ses";
 import { prisma } from "../db.js";
+import { getResultLines } from "../services/gameRecords.js";
 
 const ses = new SESClient({
   region: process.env.AWS_REGION || "us-east-2",
@@ -138,6 +139,26 @@ async function getUpcomingEvents(athleteId: string, organizationId: string) {
   return events;
 }
 
+/**
+ * Game results for the athlete's teams in the report period
+ */
+async function getRecentResults(athleteId: string, organizationId: string, startDate: Date, endDate: Date) {
+  const teamMemberships = await prisma.teamMember.findMany({
+    where: { userId: athleteId, team: { organizationId } },
+    select: { teamId: true },
+  });
+  return getResultLines(teamMemberships.map((m) => m.teamId), startDate, endDate);
+}
+
+function resultsHTML(results: string[]): string {
+  if (results.length === 0) return "";
+  return `
+            <div style="background-color:#111827;border-radius:8px;padding:12px;border:1px solid #374151;margin-top:12px;">
+              <p style="margin:0 0 8px;font-size:13px;color:#9ca3af;font-weight:600;">Results</p>
+              ${results.map((line) => `<p style="margin:0 0 6px;font-size:13px;color:#d1d5db;">${line}</p>`).join("")}
+            </div>`;
+}
+
 /**
  * Generate and send guardian email report
  */
@@ -196,10 +217,13 @@ export async function generateGuardianReport(configId: string): Promise<void> {
           config.organizationId
         );
 
+        const results = await getRecentResults(link.athleteId, config.organizationId, startDate, endDate);
+
         return {
           athlete: link.athlete,
           stats,
           upcomingEvents,
+          results,
         };
       })
     );
@@ -265,6 +289,7 @@ export async function generateGuardianReport(configId: string): Promise<void> {
                 }).join("")}
               </div>
               ` : ""}
+              ${resultsHTML(report.results)}
             </td>
           </tr>
         `
@@ -306,7 +331,7 @@ export async function generateGuardianReport(configId: string): Promise<void> {
 </body>
 </html>`;
 
-    const text = `${config.organization.name} - Attendance Report (${dateRangeText})\n\n${athleteReports.map((report) => `${report.athlete.firstName} ${report.athlete.lastName}:\n- Attendance Rate: ${report.stats.attendanceRate.toFixed(1)}%\n- Total Events: ${report.stats.totalEvents}\n- On Time: ${report.stats.onTimeCount} | Late: ${report.stats.lateCount} | Absent: ${report.stats.absentCount} | Excused: ${report.stats.excusedCount}\n- Hours Logged: ${report.stats.totalHours.toFixed(1)} hrs`).join("\n\n")}`;
+    const text = `${config.organization.name} - Attendance Report (${dateRangeText})\n\n${athleteReports.map((report) => `${report.athlete.firstName} ${report.athlete.lastName}:\n- Attendance Rate: ${report.stats.attendanceRate.toFixed(1)}%\n- Total Events: ${report.stats.totalEvents}\n- On Time: ${report.stats.onTimeCount} | Late: ${report.stats.lateCount} | Absent: ${report.stats.absentCount} | Excused: ${report.stats.excusedCount}\n- Hours Logged: ${report.stats.totalHours.toFixed(1)} hrs${report.results.map((line) => `\n- ${line}`).join("")}`).join("\n\n")}`;
 
     const command = new SendEmailCommand({
       Source: FROM_EMAIL,
@@ -380,7 +405,8 @@ async function generateOrgReportForGuardian(
     guardianLinks.map(async (link) => {
       const stats = await calculateAthleteStats(link.athleteId, org.id, startDate, endDate);
       const upcomingEvents = await getUpcomingEvents(link.athleteId, org.id);
-      return { athlete: link.athlete, stats, upcomingEvents };
+      const results = await getRecentResults(link.athleteId, org.id, startDate, endDate);
+      return { athlete: link.athlete, stats, upcomingEvents, results };
     })
   );
 
@@ -430,6 +456,7 @@ async function generateOrgReportForGuardian(
                 return `<div style="margin-bottom:6px;"><p style="margin:0;font-size:13px;color:#d1d5db;"><strong>${dateStr}</strong> - ${event.title} @ ${event.startTime}</p></div>`;
               }).join("")}
             </div>` : ""}
+            ${resultsHTML(report.results)}
           </td>
         </tr>
       `
@@ -465,7 +492,7 @@ async function generateOrgReportForGuardian(
 </body>
 </html>`;
 
-  const text = `${org.name} - Attendance Report (${dateRangeText})\n\n${athleteReports.map((r) => `${r.athlete.firstName} ${r.athlete.lastName}:\n- Attendance Rate: ${r.stats.attendanceRate.toFixed(1)}%\n- Total Events: ${r.stats.totalEvents}\n- On Time: ${r.stats.onTimeCount} | Late: ${r.stats.lateCount} | Absent: ${r.stats.absentCount} | Excused: ${r.stats.excusedCount}\n- Hours Logged: ${r.stats.totalHours.toFixed(1)} hrs`).join("\n\n")}`;
+  const text = `${org.name} - Attendance Report (${dateRangeText})\n\n${athleteReports.map((r) => `${r.athlete.firstName} ${r.athlete.lastName}:\n- Attendance Rate: ${r.stats.attendanceRate.toFixed(1)}%\n- Total Events: ${r.stats.totalEvents}\n- On Time: ${r.stats.onTimeCount} | Late: ${r.stats.lateCount} | Absent: ${r.stats.absentCount} | Excused: ${r.stats.excusedCount}\n- Hours Logged: ${r.stats.totalHours.toFixed(1)} hrs${r.results.map((line) => `\n- ${line}`).join("")}`).join("\n\n")}`;
 
   const command = new SendEmailCommand({
     Source: FROM_EMAIL,
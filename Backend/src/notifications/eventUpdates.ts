@@ -0,0 +1,158 @@
+import { prisma } from "../db.js";
+import { sendPushNotification } from "./pushNotifications.js";
+import { sendEventUpdateEmail } from "./emailNotifications.js";
+import { sendSmsNotification } from "./sms.js";
+
+export type EventChange = "CANCELLED" | "POSTPONED" | "RESCHEDULED";
+
+const HEADLINES: Record<EventChange, string> = {
+  CANCELLED: "Event Cancelled",
+  POSTPONED: "Event Postponed",
+  RESCHEDULED: "Event Rescheduled",
+};
+
+// Event.date is stored at noon UTC of the calendar day, so format in UTC
+function formatEventDay(date: Date): string {
+  return date.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+function formatWhen(date: Date, startTime: string): string {
+  return startTime === "All Day" ? formatEventDay(date) : `${formatEventDay(date)} at ${startTime}`;
+}
+
+/**
+ * Notify everyone expected at an event — athletes on its teams (respecting
+ * include/exclude overrides) and their guardians — that it was cancelled,
+ * postponed, or moved. `previous` is the schedule before a reschedule.
+ */
+export async function notifyEventChange(
+  eventId: string,
+  change: EventChange,
+  previous?: { date: Date; startTime: string }
+): Promise<void> {
+  try {
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      include: {
+        team: { select: { members: { select: { userId: true } } } },
+        participatingTeams: { select: { members: { select: { userId: true } } } },
+        includedAthletes: { select: { userId: true } },
+        excludedAthletes: { select: { userId: true } },
+        recurringEvent: {
+          select: {
+            includedAthletes: { select: { userId: true } },
+            excludedAthletes: { select: { userId: true } },
+          },
+        },
+      },
+    });
+
+    if (!event) {
+      throw new Error(`Event ${eventId} not found`);
+    }
+
+    const excluded = new Set(
+      [...event.excludedAthletes, ...(event.recurringEvent?.excludedAthletes ?? [])].map((a) => a.userId)
+    );
+    const attendeeIds = [
+      ...(event.team?.members ?? []),
+      ...event.participatingTeams.flatMap((t) => t.members),
+      ...event.includedAthletes,
+      ...(event.recurringEvent?.includedAthletes ?? []),
+    ]
+      .map((m) => m.userId)
+      .filter((id) => !excluded.has(id));
+
+    const guardianLinks = await prisma.guardianLink.findMany({
+      where: { athleteId: { in: attendeeIds }, organizationId: event.organizationId },
+      select: { guardianId: true },
+    });
+
+    const targetUserIds = [...new Set([...attendeeIds, ...guardianLinks.map((l) => l.guardianId)])];
+    if (targetUserIds.length === 0) return;
+
+    const headline = HEADLINES[change];
+    const title = `${headline}: ${event.title}`;
+    let details: string;
+    if (change === "CANCELLED") {
+      details = `${event.title} on ${formatWhen(event.date, event.startTime)} has been cancelled.`;
+    } else if (change === "POSTPONED") {
+      details = `${event.title} on ${formatWhen(previous?.date ?? event.date, previous?.startTime ?? event.startTime)} has been postponed. A new date will be announced.`;
+    } else {
+      details = previous
+        ? `${event.title} has moved from ${formatWhen(previous.date, previous.startTime)} to ${formatWhen(event.date, event.startTime)}.`
+        : `${event.title} is now on ${formatWhen(event.date, event.startTime)}.`;
+    }
+    const message = event.statusReason ? `${details} ${event.statusReason}` : details;
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: targetUserIds } },
+      include: { notificationPreferences: true },
+    });
+
+    const metadata = { eventId: event.id, eventTitle: event.title, change };
+
+    await Promise.allSettled(
+      users.map(async (user) => {
+        const prefs = user.notificationPreferences;
+
+        if (!prefs || prefs.pushEnabled) {
+          await sendPushNotification(user.id, title, message, { type: "EVENT_UPDATE", ...metadata }).catch((err) => {
+            console.error(`Failed to send event update push to user ${user.id}:`, err);
+          });
+        }
+
+        if (!prefs || prefs.emailEnabled) {
+          try {
+            await sendEventUpdateEmail(user.email, event.title, headline, details, event.statusReason);
+            await prisma.notificationDelivery.create({
+              data: {
+                userId: user.id,
+                type: "EVENT_UPDATE",
+                channel: "EMAIL",
+                title,
+                message,
+                status: "SENT",
+                sentAt: new Date(),
+                metadata,
+              },
+            });
+          } catch (err: any) {
+            console.error(`Failed to send event update email to user ${user.id}:`, err);
+            await prisma.notificationDelivery.create({
+              data: {
+                userId: user.id,
+                type: "EVENT_UPDATE",
+                channel: "EMAIL",
+                title,
+                message,
+                status: "FAILED",
+                errorMessage: err.message,
+                metadata,
+              },
+            });
+          }
+        }
+
+        // Only cancellations are urgent enough for a text
+        if (change === "CANCELLED" && prefs?.smsEnabled) {
+          await sendSmsNotification({
+            userId: user.id,
+            organizationId: event.organizationId,
+            type: "EVENT_UPDATE",
+            title,
+            message,
+            metadata,
+          }).catch((err) => {
+            console.error(`Failed to send event update SMS to user ${user.id}:`, err);
+          });
+        }
+      })
+    );
+
+    console.log(`[event-updates] Notified ${users.length} user(s) that event ${eventId} was ${change.toLowerCase()}`);
+  } catch (error) {
+    console.error(`Error notifying users of change to event ${eventId}:`, error);
+    throw error;
+  }
+}
@@ -1,5 +1,6 @@
 import { prisma } from "../db.js";
 import { sendPushToEndpoint } from "./sns.js";
+import { publishNotification } from "../services/liveUpdates.js";
 
 /**
  * Send a push notification to all of a user's active devices
@@ -10,6 +11,16 @@ export async function sendPushNotification(
   message: string,
   data?: Record<string, any>
 ): Promise<void> {
+  // Open web/mobile sessions get it live, whether or not the user has a registered device
+  publishNotification({
+    userId,
+    type: data?.type || "ANNOUNCEMENT",
+    title,
+    message,
+    metadata: data,
+    createdAt: new Date(),
+  });
+
   try {
     // Get user's notification preferences
     const preferences = await prisma.notificationPreferences.findUnique({
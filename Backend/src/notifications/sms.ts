@@ -0,0 +1,143 @@
+import type { DeliveryStatus, NotificationType } from "@prisma/client";
+import { prisma } from "../db.js";
+import { sendSMS } from "./sns.js";
+import { formatSms, parseSmsKeyword, toE164, usageMonth } from "../utils/sms.js";
+
+export interface SmsTransport {
+  /** Deliver `body` to an E.164 number; rejects if the provider refused it. */
+  send(to: string, body: string): Promise<void>;
+}
+
+const snsTransport: SmsTransport = { send: (to, body) => sendSMS(to, body) };
+
+/** Records messages instead of sending them — for tests and local development (SMS_TRANSPORT=stub). */
+export class StubSmsTransport implements SmsTransport {
+  readonly sent: { to: string; body: string }[] = [];
+
+  async send(to: string, body: string): Promise<void> {
+    this.sent.push({ to, body });
+    console.log(`[sms:stub] ${to}: ${body}`);
+  }
+}
+
+let transport: SmsTransport = process.env.SMS_TRANSPORT === "stub" ? new StubSmsTransport() : snsTransport;
+
+export function getSmsTransport(): SmsTransport {
+  return transport;
+}
+
+export function setSmsTransport(next: SmsTransport): void {
+  transport = next;
+}
+
+/** Count one SMS against the org's monthly quota; false once the quota is used up. */
+async function reserveSmsQuota(organizationId: string): Promise<boolean> {
+  const org = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { smsMonthlyQuota: true },
+  });
+  if (!org) return false;
+
+  const month = usageMonth(new Date());
+  const usage = await prisma.smsUsage.upsert({
+    where: { organizationId_month: { organizationId, month } },
+    create: { organizationId, month },
+    update: {},
+  });
+  // Conditional increment so concurrent senders can't overshoot the quota
+  const { count } = await prisma.smsUsage.updateMany({
+    where: { id: usage.id, sent: { lt: org.smsMonthlyQuota } },
+    data: { sent: { increment: 1 } },
+  });
+  return count === 1;
+}
+
+async function releaseSmsQuota(organizationId: string): Promise<void> {
+  await prisma.smsUsage.updateMany({
+    where: { organizationId, month: usageMonth(new Date()), sent: { gt: 0 } },
+    data: { sent: { decrement: 1 } },
+  });
+}
+
+export interface SmsNotification {
+  userId: string;
+  /** Org whose monthly quota the message counts against */
+  organizationId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  metadata?: Record<string, string | number | boolean | null>;
+  announcementId?: string;
+}
+
+/**
+ * Text a notification to a user who turned SMS on. Callers decide which
+ * notifications are worth a text and check the per-type preferences; this
+ * enforces the channel rules (verified number, STOP opt-outs, org quota)
+ * and records a NotificationDelivery row for every attempt.
+ */
+export async function sendSmsNotification(notification: SmsNotification): Promise<DeliveryStatus> {
+  const { userId, organizationId, type, title, message, metadata, announcementId } = notification;
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { phone: true, phoneVerifiedAt: true, notificationPreferences: { select: { smsEnabled: true } } },
+  });
+  // SMS is opt-in, so there's nothing to record for users who never turned it on
+  if (!user?.notificationPreferences?.smsEnabled) return "SKIPPED";
+
+  const record = (status: DeliveryStatus, extra: { reason?: string; errorMessage?: string } = {}) =>
+    prisma.notificationDelivery.create({
+      data: {
+        userId,
+        type,
+        channel: "SMS",
+        title,
+        message,
+        metadata: { ...metadata, organizationId, ...(extra.reason && { reason: extra.reason }) },
+        status,
+        errorMessage: extra.errorMessage,
+        sentAt: status === "SENT" ? new Date() : undefined,
+        announcementId,
+      },
+    });
+
+  const phone = user.phoneVerifiedAt ? toE164(user.phone) : null;
+  if (!phone) {
+    await record("SKIPPED", { reason: "phone_unverified" });
+    return "SKIPPED";
+  }
+  if (await prisma.smsOptOut.findUnique({ where: { phone } })) {
+    await record("SKIPPED", { reason: "opted_out" });
+    return "SKIPPED";
+  }
+  if (!(await reserveSmsQuota(organizationId))) {
+    await record("SKIPPED", { reason: "quota_exceeded" });
+    return "SKIPPED";
+  }
+
+  try {
+    await transport.send(phone, formatSms(title, message));
+    await record("SENT");
+    return "SENT";
+  } catch (err) {
+    console.error(`Failed to send SMS to user ${userId}:`, err);
+    await releaseSmsQuota(organizationId);
+    await record("FAILED", { errorMessage: err instanceof Error ? err.message : String(err) });
+    return "FAILED";
+  }
+}
+
+/** Apply a STOP/START reply from `from`; returns the keyword handled, or null if it was neither. */
+export async function handleInboundSms(from: string, body: string): Promise<"STOP" | "START" | null> {
+  const phone = toE164(from);
+  const keyword = parseSmsKeyword(body);
+  if (!phone || !keyword) return null;
+
+  if (keyword === "STOP") {
+    await prisma.smsOptOut.upsert({ where: { phone }, create: { phone }, update: {} });
+  } else {
+    await prisma.smsOptOut.deleteMany({ where: { phone } });
+  }
+  console.log(`[sms] ${phone} replied ${keyword}`);
+  return keyword;
+}
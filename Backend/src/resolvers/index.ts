@@ -11,6 +11,14 @@ import { healthResolvers } from "../modules/health/resolvers.js";
 import { guardianResolvers } from "../modules/guardian/resolvers.js";
 import { mediaResolvers } from "../modules/media/resolvers.js";
 import { paymentsResolvers } from "../modules/payments/resolvers.js";
+import { messagingResolvers } from "../modules/messaging/resolvers.js";
+import { kioskResolvers } from "../modules/kiosk/resolvers.js";
+import { escalationsResolvers } from "../modules/escalations/resolvers.js";
+import { absencesResolvers } from "../modules/absences/resolvers.js";
+import { jobsResolvers } from "../modules/jobs/resolvers.js";
+import { gamesResolvers } from "../modules/games/resolvers.js";
+import { eventGroupsResolvers } from "../modules/eventGroups/resolvers.js";
+import { eventTemplatesResolvers } from "../modules/eventTemplates/resolvers.js";
 
 // Deep-merge all module resolvers into a single resolvers map.
 // Each module exports Query/Mutation sub-keys plus field resolver type keys.
@@ -42,4 +50,12 @@ export const resolvers = mergeResolvers(
   guardianResolvers,
   mediaResolvers,
   paymentsResolvers,
+  messagingResolvers,
+  kioskResolvers,
+  escalationsResolvers,
+  absencesResolvers,
+  jobsResolvers,
+  gamesResolvers,
+  eventGroupsResolvers,
+  eventTemplatesResolvers,
 );
@@ -1,4 +1,5 @@
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import { randomUUID } from "crypto";
+import { S3Client, PutObjectCommand, GetObjectCommand, HeadObjectCommand } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 
 const s3 = new S3Client({
@@ -10,6 +11,14 @@ const s3 = new S3Client({
 });
 
 const BUCKET = process.env.S3_BUCKET_NAME || "athletiq-profile-pictures";
+// Excuse attachments can be medical notes, so they live in a bucket without public reads
+const ATTACHMENTS_BUCKET = process.env.S3_ATTACHMENTS_BUCKET_NAME;
+
+// Never fall back to the public profile-picture bucket
+function attachmentsBucket(): string {
+  if (!ATTACHMENTS_BUCKET) throw new Error("Attachment uploads are not configured");
+  return ATTACHMENTS_BUCKET;
+}
 
 const ALLOWED_FILE_TYPES: Record<string, string> = {
   "image/jpeg": "jpg",
@@ -42,3 +51,93 @@ export async function generateProfilePictureUploadUrl(
 
   return { uploadUrl, publicUrl };
 }
+
+const ATTACHMENT_FILE_TYPES: Record<string, string> = {
+  ...ALLOWED_FILE_TYPES,
+  "application/pdf": "pdf",
+};
+
+/** Every excuse attachment key starts with this prefix plus the uploader's id. */
+export const excuseAttachmentPrefix = (userId: string) => `excuse-attachments/${userId}/`;
+
+export function isAllowedAttachmentType(fileType: string): boolean {
+  return fileType in ATTACHMENT_FILE_TYPES;
+}
+
+export async function generateExcuseAttachmentUploadUrl(
+  userId: string,
+  fileType: string
+): Promise<{ uploadUrl: string; key: string }> {
+  const ext = ATTACHMENT_FILE_TYPES[fileType];
+  if (!ext) {
+    throw new Error(
+      `Unsupported file type: ${fileType}. Allowed: ${Object.keys(ATTACHMENT_FILE_TYPES).join(", ")}`
+    );
+  }
+
+  const key = `${excuseAttachmentPrefix(userId)}${randomUUID()}.${ext}`;
+  const command = new PutObjectCommand({
+    Bucket: attachmentsBucket(),
+    Key: key,
+    ContentType: fileType,
+  });
+
+  const uploadUrl = await getSignedUrl(s3, command, { expiresIn: 300 });
+  return { uploadUrl, key };
+}
+
+/**
+ * Content type S3 stored for an uploaded attachment, or null when nothing was
+ * ever uploaded under `key`. Clients only declare their keys, so check before
+ * trusting one.
+ */
+export async function getAttachmentContentType(key: string): Promise<string | null> {
+  try {
+    const head = await s3.send(new HeadObjectCommand({ Bucket: attachmentsBucket(), Key: key }));
+    return head.ContentType ?? null;
+  } catch (err) {
+    if ((err as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode === 404) return null;
+    throw err;
+  }
+}
+
+/** A link to view an excuse attachment, valid for five minutes. */
+export async function generateExcuseAttachmentDownloadUrl(key: string, fileName: string): Promise<string> {
+  const command = new GetObjectCommand({
+    Bucket: attachmentsBucket(),
+    Key: key,
+    ResponseContentDisposition: `inline; filename="${fileName.replace(/["\\\r\n]/g, "")}"`,
+  });
+  return getSignedUrl(s3, command, { expiresIn: 300 });
+}
+
+/** Every tournament document key starts with this prefix plus the group's id. */
+export const eventGroupDocumentPrefix = (eventGroupId: string) => `event-group-documents/${eventGroupId}/`;
+
+// Travel documents share the attachments bucket and file types
+export async function generateEventGroupDocumentUploadUrl(
+  eventGroupId: string,
+  fileType: string
+): Promise<{ uploadUrl: string; key: string }> {
+  const ext = ATTACHMENT_FILE_TYPES[fileType];
+  if (!ext) {
+    throw new Error(
+      `Unsupported file type: ${fileType}. Allowed: ${Object.keys(ATTACHMENT_FILE_TYPES).join(", ")}`
+    );
+  }
+
+  const key = `${eventGroupDocumentPrefix(eventGroupId)}${randomUUID()}.${ext}`;
+  const command = new PutObjectCommand({
+    Bucket: attachmentsBucket(),
+    Key: key,
+    ContentType: fileType,
+  });
+
+  const uploadUrl = await getSignedUrl(s3, command, { expiresIn: 300 });
+  return { uploadUrl, key };
+}
+
+/** A link to view a tournament document, valid for five minutes. */
+export function generateEventGroupDocumentDownloadUrl(key: string, fileName: string): Promise<string> {
+  return generateExcuseAttachmentDownloadUrl(key, fileName);
+}
@@ -11,10 +11,19 @@ import { healthSchema } from "./modules/health/schema.js";
 import { guardianSchema } from "./modules/guardian/schema.js";
 import { mediaSchema } from "./modules/media/schema.js";
 import { paymentsSchema } from "./modules/payments/schema.js";
+import { messagingSchema } from "./modules/messaging/schema.js";
+import { kioskSchema } from "./modules/kiosk/schema.js";
+import { escalationsSchema } from "./modules/escalations/schema.js";
+import { absencesSchema } from "./modules/absences/schema.js";
+import { jobsSchema } from "./modules/jobs/schema.js";
+import { gamesSchema } from "./modules/games/schema.js";
+import { eventGroupsSchema } from "./modules/eventGroups/schema.js";
+import { eventTemplatesSchema } from "./modules/eventTemplates/schema.js";
 
 const baseSchema = `#graphql
   type Query
   type Mutation
+  type Subscription
 `;
 
 export const typeDefs = [
@@ -32,4 +41,12 @@ export const typeDefs = [
   guardianSchema,
   mediaSchema,
   paymentsSchema,
+  messagingSchema,
+  kioskSchema,
+  escalationsSchema,
+  absencesSchema,
+  jobsSchema,
+  gamesSchema,
+  eventGroupsSchema,
+  eventTemplatesSchema,
 ];
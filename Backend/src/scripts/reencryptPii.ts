@@ -0,0 +1,45 @@
+/**
+ * Encrypt existing PII with the current key, e.g. after enabling encryption
+ * for a new field or adding a key to ENCRYPTION_KEYS. The pii-reencryption
+ * job does the same in the background; this finishes it in one go.
+ *
+ *   npm run pii:reencrypt             rewrite every pending row
+ *   npm run pii:reencrypt -- --dry-run  only count what's pending
+ */
+import { prisma } from "../db.js";
+import { currentKeyId } from "../utils/encrypt.js";
+import { countPendingReencryption, reencryptPii } from "../services/piiEncryption.js";
+
+async function main() {
+  const keyId = currentKeyId();
+  if (!keyId) throw new Error("No encryption key configured (set ENCRYPTION_KEYS or ENCRYPTION_KEY)");
+
+  const pending = await countPendingReencryption();
+  console.log(`Current key: ${keyId}`);
+  console.log("Rows to re-encrypt:", pending);
+  if (process.argv.includes("--dry-run")) return;
+
+  let failed = 0;
+  for (;;) {
+    const results = await reencryptPii(1000);
+    const batch = Object.values(results);
+    const updated = batch.reduce((sum, r) => sum + r.updated, 0);
+    failed = batch.reduce((sum, r) => sum + r.failed, 0);
+    console.log("Batch:", results);
+    // Stop once a pass only finds rows that can't be decrypted
+    if (updated === 0) break;
+  }
+
+  console.log("Still pending:", await countPendingReencryption());
+  if (failed > 0) {
+    console.error(`${failed} row(s) use an encryption key that is no longer configured`);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
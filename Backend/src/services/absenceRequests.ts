@@ -0,0 +1,57 @@
+import type { AbsenceRequest } from "@prisma/client";
+import { prisma } from "../db.js";
+
+const ATHLETE_TEAM_ROLES = ["MEMBER", "CAPTAIN"] as const;
+
+type AbsenceScope = Pick<AbsenceRequest, "userId" | "organizationId" | "startDate" | "endDate"> & {
+  teams: { id: string }[];
+};
+
+/**
+ * Where-clause for the scheduled events an absence request covers: every
+ * non-ad-hoc event in its date range for its teams, or for all of the
+ * athlete's teams when it names none. Queried live, so events created after
+ * the request was filed are covered too.
+ */
+export async function coveredEventsWhere(absence: AbsenceScope) {
+  const teamIds = absence.teams.length
+    ? absence.teams.map((t) => t.id)
+    : (
+        await prisma.teamMember.findMany({
+          where: {
+            userId: absence.userId,
+            role: { in: [...ATHLETE_TEAM_ROLES] },
+            team: { organizationId: absence.organizationId },
+          },
+          select: { teamId: true },
+        })
+      ).map((m) => m.teamId);
+
+  return {
+    organizationId: absence.organizationId,
+    status: "SCHEDULED" as const,
+    isAdHoc: false,
+    date: { gte: absence.startDate, lte: absence.endDate },
+    OR: [{ teamId: { in: teamIds } }, { participatingTeams: { some: { id: { in: teamIds } } } }],
+  };
+}
+
+/**
+ * Excuse the events an approved request covers that were already marked
+ * absent. Events that haven't ended yet are excused by markAbsent instead.
+ * Returns how many check-ins changed.
+ */
+export async function excuseCoveredAbsences(absence: AbsenceScope): Promise<number> {
+  const events = await prisma.event.findMany({ where: await coveredEventsWhere(absence), select: { id: true } });
+  if (events.length === 0) return 0;
+  const result = await prisma.checkIn.updateMany({
+    where: {
+      userId: absence.userId,
+      eventId: { in: events.map((e) => e.id) },
+      status: "ABSENT",
+      checkInTime: null,
+    },
+    data: { status: "EXCUSED" },
+  });
+  return result.count;
+}
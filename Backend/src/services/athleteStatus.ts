@@ -0,0 +1,27 @@
+import { OrgRole, type AthleteStatus } from "@prisma/client";
+import { prisma } from "../db.js";
+
+/** Org roles that may change an athlete's status. */
+export const ATHLETE_STATUS_ROLES: OrgRole[] = [OrgRole.OWNER, OrgRole.ADMIN, OrgRole.MANAGER];
+
+interface AthleteStatusChange {
+  userId: string;
+  organizationId: string;
+  status: AthleteStatus;
+  note?: string | null;
+  changedByUserId: string;
+}
+
+/** Set an athlete's status and record the change in their status history. */
+export async function updateAthleteStatus({ userId, organizationId, status, note, changedByUserId }: AthleteStatusChange) {
+  const [updated] = await prisma.$transaction([
+    prisma.organizationMember.update({
+      where: { userId_organizationId: { userId, organizationId } },
+      data: { athleteStatus: status },
+    }),
+    prisma.athleteStatusRecord.create({
+      data: { userId, organizationId, status, note: note || null, changedByUserId },
+    }),
+  ]);
+  return updated;
+}
@@ -0,0 +1,32 @@
+import type { EventType } from "@prisma/client";
+import { prisma } from "../db.js";
+import { resolveAttendanceRules, type AttendanceRules } from "../utils/attendancePolicy.js";
+
+interface PolicyEvent {
+  id: string;
+  organizationId: string;
+  teamId: string | null;
+  type: EventType;
+}
+
+/** The attendance rules for each event, keyed by event id. */
+export async function attendanceRulesForEvents(events: PolicyEvent[]): Promise<Map<string, AttendanceRules>> {
+  const organizationIds = [...new Set(events.map((e) => e.organizationId))];
+  const policies =
+    organizationIds.length > 0
+      ? await prisma.attendancePolicy.findMany({ where: { organizationId: { in: organizationIds } } })
+      : [];
+  return new Map(
+    events.map((event) => [
+      event.id,
+      resolveAttendanceRules(
+        policies.filter((p) => p.organizationId === event.organizationId),
+        event
+      ),
+    ])
+  );
+}
+
+export async function attendanceRulesForEvent(event: PolicyEvent): Promise<AttendanceRules> {
+  return (await attendanceRulesForEvents([event])).get(event.id)!;
+}
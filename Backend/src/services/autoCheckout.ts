@@ -1,5 +1,8 @@
 import { prisma } from "../db.js";
-import { parseTimeString } from "../utils/time.js";
+import { EVENT_DATE_SLACK_MS, eventTimeZone, getEventWindow } from "../utils/time.js";
+import { checkOutStatus } from "../utils/attendancePolicy.js";
+import { attendanceRulesForEvents } from "./attendancePolicy.js";
+import { publishCheckInChanged } from "./liveUpdates.js";
 
 interface AutoCheckoutOptions {
   /** How far back to look for ended events, in minutes. Defaults to 30. */
@@ -12,7 +15,8 @@ interface AutoCheckoutOptions {
  *
  * Uses the event's end time as the effective checkout time and caps
  * hoursLogged at the event duration — matching the same effectiveStart
- * logic used by the manual checkOut resolver.
+ * logic used by the manual checkOut resolver. Athletes who arrived too late
+ * to meet the attendance policy's minimum presence end up LEFT_EARLY.
  */
 export async function autoCheckoutEndedEvents(options?: AutoCheckoutOptions): Promise<number> {
   const lookbackMinutes = options?.lookbackMinutes ?? 30;
@@ -21,36 +25,40 @@ export async function autoCheckoutEndedEvents(options?: AutoCheckoutOptions): Pr
 
   const now = new Date();
 
-  // Find events whose date falls in the lookback window.
+  // Find events whose calendar day is near the lookback window.
   // We then verify the computed end datetime has passed before acting.
   const events = await prisma.event.findMany({
     where: {
       isAdHoc: false,
-      date: { gte: lookbackDate, lte: now },
+      date: {
+        gte: new Date(lookbackDate.getTime() - EVENT_DATE_SLACK_MS),
+        lte: new Date(now.getTime() + EVENT_DATE_SLACK_MS),
+      },
     },
     select: {
       id: true,
+      organizationId: true,
+      teamId: true,
+      type: true,
       date: true,
+      endDate: true,
       startTime: true,
       endTime: true,
+      organization: { select: { timezone: true } },
+      venue: { select: { timezone: true } },
     },
   });
 
+  const eventRules = await attendanceRulesForEvents(events);
   let totalUpdated = 0;
 
   for (const event of events) {
-    // Compute actual end datetime from date + endTime
-    const eventDate = new Date(event.date);
-    const { hours: endH, minutes: endM } = parseTimeString(event.endTime);
-    const eventEnd = new Date(eventDate);
-    eventEnd.setHours(endH, endM, 0, 0);
+    // Compute actual start/end datetimes in the event's zone; the start is
+    // used as the effective start floor
+    const { start: eventStart, end: eventEnd } = getEventWindow(event, eventTimeZone(event));
 
     if (eventEnd >= now) continue; // Event hasn't fully ended yet
-
-    // Compute event start datetime (used as effective start floor)
-    const { hours: startH, minutes: startM } = parseTimeString(event.startTime);
-    const eventStart = new Date(eventDate);
-    eventStart.setHours(startH, startM, 0, 0);
+    if (eventEnd < lookbackDate) continue; // Ended before the lookback window
 
     // Find all open check-ins for this event (attended but never checked out)
     const openCheckIns = await prisma.checkIn.findMany({
@@ -60,7 +68,7 @@ export async function autoCheckoutEndedEvents(options?: AutoCheckoutOptions): Pr
         checkInTime: { not: null },
         status: { in: ["ON_TIME", "LATE"] },
       },
-      select: { id: true, checkInTime: true },
+      select: { id: true, status: true, checkInTime: true },
     });
 
     if (openCheckIns.length === 0) continue;
@@ -75,13 +83,20 @@ export async function autoCheckoutEndedEvents(options?: AutoCheckoutOptions): Pr
           Math.max(0, (eventEnd.getTime() - effectiveStart.getTime()) / (1000 * 60 * 60)) * 100
         ) / 100;
 
-      await prisma.checkIn.update({
+      const updated = await prisma.checkIn.update({
         where: { id: checkIn.id },
         data: {
+          status: checkOutStatus(
+            eventRules.get(event.id)!,
+            { start: eventStart, end: eventEnd },
+            { status: checkIn.status, checkInTime: checkIn.checkInTime! },
+            eventEnd
+          ),
           checkOutTime: eventEnd,
           hoursLogged,
         },
       });
+      publishCheckInChanged(updated);
 
       totalUpdated++;
     }
@@ -0,0 +1,185 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../db.js";
+import { eventTimeZone } from "../utils/time.js";
+import { buildVCalendar, formatEventLocation, type ICalEvent } from "../utils/ical.js";
+
+// Feed URLs carry `<feedId>.<hmac>` so ids can't be enumerated; revoking a feed
+// (CalendarFeed.revokedAt) invalidates its URL without rotating the secret.
+// Environment variable: CALENDAR_FEED_SECRET
+
+/** How far back feeds include events and cancellation tombstones. */
+const FEED_LOOKBACK_DAYS = 90;
+
+function getFeedSecret(): string {
+  const secret = process.env.CALENDAR_FEED_SECRET;
+  if (!secret) throw new Error("CALENDAR_FEED_SECRET is not set");
+  return secret;
+}
+
+function signature(feedId: string): string {
+  return createHmac("sha256", getFeedSecret()).update(feedId).digest("base64url");
+}
+
+export function signFeedToken(feedId: string): string {
+  return `${feedId}.${signature(feedId)}`;
+}
+
+/** Returns the feed id if the token's signature is valid, otherwise null. */
+export function verifyFeedToken(token: string): string | null {
+  const dot = token.lastIndexOf(".");
+  if (dot <= 0) return null;
+  const feedId = token.slice(0, dot);
+  const given = Buffer.from(token.slice(dot + 1));
+  const expected = Buffer.from(signature(feedId));
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+  return feedId;
+}
+
+export function feedUrl(feedId: string): string {
+  const base = process.env.PUBLIC_API_URL || "http://localhost:4000";
+  return `${base.replace(/\/$/, "")}/calendar/${signFeedToken(feedId)}.ics`;
+}
+
+/**
+ * Snapshot events into DeletedEvent tombstones before they are hard-deleted,
+ * so subscribed calendars receive STATUS:CANCELLED. Call inside the deleting transaction.
+ */
+export async function recordDeletedEvents(tx: Prisma.TransactionClient, eventIds: string[]): Promise<void> {
+  if (eventIds.length === 0) return;
+  const events = await tx.event.findMany({
+    where: { id: { in: eventIds }, isAdHoc: false },
+    include: { participatingTeams: { select: { id: true } } },
+  });
+  await tx.deletedEvent.createMany({
+    data: events.map((e) => ({
+      id: e.id,
+      organizationId: e.organizationId,
+      teamIds: [...(e.teamId ? [e.teamId] : []), ...e.participatingTeams.map((t) => t.id)],
+      title: e.title,
+      date: e.date,
+      endDate: e.endDate,
+      startTime: e.startTime,
+      endTime: e.endTime,
+      // Cancellation is itself a revision of the event
+      sequence: e.sequence + 1,
+    })),
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Render the live VCALENDAR for a feed, or null if it doesn't exist or was revoked.
+ */
+export async function renderCalendarFeed(feedId: string): Promise<string | null> {
+  const feed = await prisma.calendarFeed.findUnique({
+    where: { id: feedId },
+    include: {
+      organization: { select: { name: true, timezone: true } },
+      team: { select: { name: true } },
+    },
+  });
+  if (!feed || feed.revokedAt) return null;
+
+  await prisma.calendarFeed.update({ where: { id: feed.id }, data: { lastAccessedAt: new Date() } });
+
+  // Whose schedule this feed follows: a team feed follows the team; a personal
+  // feed follows the owner plus any athletes they are a guardian of.
+  let athleteIds: string[] = [];
+  const teamsByAthlete = new Map<string, Set<string>>();
+  if (!feed.teamId) {
+    const links = await prisma.guardianLink.findMany({
+      where: { guardianId: feed.userId, organizationId: feed.organizationId },
+      select: { athleteId: true },
+    });
+    athleteIds = [feed.userId, ...links.map((l) => l.athleteId)];
+    const memberships = await prisma.teamMember.findMany({
+      where: { userId: { in: athleteIds }, team: { organizationId: feed.organizationId, archivedAt: null } },
+      select: { userId: true, teamId: true },
+    });
+    for (const m of memberships) {
+      if (!teamsByAthlete.has(m.userId)) teamsByAthlete.set(m.userId, new Set());
+      teamsByAthlete.get(m.userId)!.add(m.teamId);
+    }
+  }
+  const teamIds = feed.teamId ? [feed.teamId] : [...new Set([...teamsByAthlete.values()].flatMap((s) => [...s]))];
+
+  const since = new Date(Date.now() - FEED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  const events = await prisma.event.findMany({
+    where: {
+      organizationId: feed.organizationId,
+      isAdHoc: false,
+      date: { gte: since },
+      OR: [
+        { teamId: { in: teamIds } },
+        { participatingTeams: { some: { id: { in: teamIds } } } },
+        ...(athleteIds.length > 0
+          ? [
+              { includedAthletes: { some: { userId: { in: athleteIds } } } },
+              { recurringEvent: { includedAthletes: { some: { userId: { in: athleteIds } } } } },
+            ]
+          : []),
+      ],
+    },
+    include: {
+      venue: true,
+      organization: { select: { timezone: true } },
+      participatingTeams: { select: { id: true } },
+      includedAthletes: { select: { userId: true } },
+      excludedAthletes: { select: { userId: true } },
+      recurringEvent: {
+        select: {
+          includedAthletes: { select: { userId: true } },
+          excludedAthletes: { select: { userId: true } },
+        },
+      },
+    },
+    orderBy: { date: "asc" },
+  });
+
+  // Personal feeds keep an event if at least one followed athlete is actually expected there
+  const visible = feed.teamId
+    ? events
+    : events.filter((e) => {
+        const eventTeams = [e.teamId, ...e.participatingTeams.map((t) => t.id)];
+        // Per-event overrides are combined with those inherited from the series
+        const included = new Set(
+          [...e.includedAthletes, ...(e.recurringEvent?.includedAthletes ?? [])].map((a) => a.userId)
+        );
+        const excluded = new Set(
+          [...e.excludedAthletes, ...(e.recurringEvent?.excludedAthletes ?? [])].map((a) => a.userId)
+        );
+        return athleteIds.some(
+          (uid) =>
+            !excluded.has(uid) &&
+            (included.has(uid) || eventTeams.some((t) => t !== null && teamsByAthlete.get(uid)?.has(t)))
+        );
+      });
+
+  const tombstones = await prisma.deletedEvent.findMany({
+    where: {
+      organizationId: feed.organizationId,
+      deletedAt: { gte: since },
+      teamIds: { hasSome: teamIds },
+    },
+  });
+
+  const items: ICalEvent[] = [
+    ...visible.map((e) => ({
+      ...e,
+      timeZone: eventTimeZone(e),
+      location: formatEventLocation(e),
+    })),
+    ...tombstones.map((t) => ({
+      ...t,
+      timeZone: feed.organization.timezone,
+      status: "CANCELLED" as const,
+    })),
+  ];
+
+  return buildVCalendar(items, {
+    name: feed.team ? `${feed.organization.name} – ${feed.team.name}` : feed.organization.name,
+    timeZone: feed.organization.timezone,
+  });
+}
@@ -0,0 +1,245 @@
+import { prisma } from "../db.js";
+import type { CheckIn, Event } from "@prisma/client";
+import { EVENT_DATE_SLACK_MS, eventTimeZone, getEventWindow, toZonedCalendarDate } from "../utils/time.js";
+import { checkInOpensAt, checkInStatus, checkOutStatus } from "../utils/attendancePolicy.js";
+import { attendanceRulesForEvents } from "./attendancePolicy.js";
+import { publishCheckInChanged } from "./liveUpdates.js";
+import { checkEscalationsInBackground } from "./escalations.js";
+
+const ELEVATED_ROLES = ["OWNER", "ADMIN", "MANAGER", "COACH"];
+
+interface ToggleCheckInOptions {
+  /** The signed-in user who tapped the tag or scanned the code */
+  userId: string;
+  organizationId: string;
+  /** Athlete a guardian is checking in on behalf of */
+  forUserId?: string;
+  teamId?: string;
+  /** Only consider this event (QR codes name the event they were shown for) */
+  eventId?: string;
+  /** Only consider events at this venue (kiosks set up at one venue) */
+  venueId?: string;
+  /** The user confirmed checking in to an event that hasn't opened yet */
+  bypassEarlyCheck?: boolean;
+  /** When the check-in happened; earlier than the request for replayed offline taps */
+  now: Date;
+  /** Set when replaying a tap that was queued offline */
+  offlineSyncedAt?: Date;
+}
+
+export interface ToggleCheckInResult {
+  checkIn: CheckIn;
+  action: "CHECKED_IN" | "CHECKED_OUT";
+  event: Event;
+}
+
+/**
+ * Pick the event the user is checking in to today and toggle their
+ * attendance: the first tap checks in (ON_TIME or LATE), the second checks
+ * out and logs hours. Check-in windows, lateness and early departures follow
+ * each event's attendance policy. Shared by NFC tags, QR codes and kiosks.
+ */
+export async function toggleEventCheckIn(options: ToggleCheckInOptions): Promise<ToggleCheckInResult> {
+  const { userId, organizationId, forUserId, teamId, eventId, venueId, bypassEarlyCheck, now, offlineSyncedAt } =
+    options;
+
+  // 1. Verify user is org member
+  const orgMembership = await prisma.organizationMember.findUnique({
+    where: { userId_organizationId: { userId, organizationId } },
+    include: { organization: { select: { timezone: true } } },
+  });
+  if (!orgMembership) throw new Error("You are not a member of this organization");
+
+  // 2. Determine target user (self or forUserId)
+  let targetUserId = userId;
+  if (forUserId && forUserId !== userId) {
+    // Must be a guardian link
+    const guardianLink = await prisma.guardianLink.findFirst({
+      where: { guardianId: userId, athleteId: forUserId },
+    });
+    if (!guardianLink) throw new Error("Not authorized to check in this user");
+    targetUserId = forUserId;
+  }
+
+  // 2b. Resolve team memberships for the target user
+  const isElevated = ELEVATED_ROLES.includes(orgMembership.role);
+  let teamIds: string[];
+  if (teamId) {
+    const teamMembership = await prisma.teamMember.findFirst({
+      where: { userId: targetUserId, teamId },
+      select: { teamId: true },
+    });
+    // Allow org-level elevated roles (owner/admin/manager/coach) to check in to any team
+    if (!teamMembership && !isElevated) {
+      throw new Error("You are not a member of this team");
+    }
+    teamIds = [teamId];
+  } else {
+    const teamMemberships = await prisma.teamMember.findMany({
+      where: { userId: targetUserId, team: { organizationId } },
+      select: { teamId: true },
+    });
+    teamIds = teamMemberships.map((m) => m.teamId);
+  }
+
+  // 3. Find events around now matching those teams. Venues can sit in another zone
+  // than the org, so the date column is only a coarse filter; each event's own
+  // window below decides.
+  const from = new Date(now.getTime() - EVENT_DATE_SLACK_MS);
+  const to = new Date(now.getTime() + EVENT_DATE_SLACK_MS);
+
+  // Elevated roles with no explicit teamId and no TeamMember entries see all org events.
+  // This covers coaches who have an org-level role but are not in the TeamMember table.
+  const skipTeamFilter = !teamId && isElevated && teamIds.length === 0;
+
+  const todaysEvents = await prisma.event.findMany({
+    where: {
+      organizationId,
+      status: "SCHEDULED",
+      ...(eventId && { id: eventId }),
+      ...(venueId && { venueId }),
+      AND: [
+        // Multi-day events that started before the range can still be running
+        { OR: [{ date: { gte: from, lte: to } }, { date: { lt: from }, endDate: { gte: from } }] },
+        ...(!skipTeamFilter
+          ? [
+              {
+                OR: [
+                  { teamId: { in: teamIds } },
+                  { participatingTeams: { some: { id: { in: teamIds } } } },
+                  { teamId: null }, // org-wide events
+                ],
+              },
+            ]
+          : []),
+      ],
+    },
+    include: { venue: { select: { timezone: true } } },
+    orderBy: { date: "asc" },
+  });
+
+  if (todaysEvents.length === 0) {
+    throw new Error(eventId ? "This event isn't open for check-in for you today" : "No events today");
+  }
+
+  // Resolve each event's wall-clock times in its venue/org zone
+  const eventZones = new Map(
+    todaysEvents.map((e) => [e.id, eventTimeZone({ organization: orgMembership.organization, venue: e.venue })])
+  );
+  const eventWindows = new Map(todaysEvents.map((e) => [e.id, getEventWindow(e, eventZones.get(e.id)!)]));
+  const eventRules = await attendanceRulesForEvents(todaysEvents);
+
+  // Pre-fetch user's check-ins for today's events to skip already-checked-out ones
+  const todayCheckIns = await prisma.checkIn.findMany({
+    where: {
+      userId: targetUserId,
+      eventId: { in: todaysEvents.map((e) => e.id) },
+    },
+  });
+  const checkedOutEventIds = new Set(
+    todayCheckIns.filter((ci) => ci.checkOutTime !== null).map((ci) => ci.eventId)
+  );
+
+  // Find event in check-in window (the policy's window before start to event end)
+  let selectedEvent = null;
+
+  for (const event of todaysEvents) {
+    if (checkedOutEventIds.has(event.id)) continue;
+
+    const { start: eventStart, end: eventEnd } = eventWindows.get(event.id)!;
+    const windowStart = checkInOpensAt(eventRules.get(event.id)!, eventStart);
+
+    if (now >= windowStart && now <= eventEnd) {
+      selectedEvent = event;
+      break;
+    }
+  }
+
+  // If no event in window, find the next event still to come today (in its own zone)
+  if (!selectedEvent) {
+    for (const event of todaysEvents) {
+      if (checkedOutEventIds.has(event.id)) continue;
+      const { start: eventStart } = eventWindows.get(event.id)!;
+      const timeZone = eventZones.get(event.id)!;
+      const startsToday =
+        toZonedCalendarDate(eventStart, timeZone).getTime() === toZonedCalendarDate(now, timeZone).getTime();
+      if (eventStart > now && startsToday) {
+        if (bypassEarlyCheck) {
+          // User confirmed early check-in — proceed with this event
+          selectedEvent = event;
+          break;
+        }
+        throw new Error(`TOO_EARLY:${event.title}:${event.startTime}`);
+      }
+    }
+    // All remaining events already ended (or bypass still left selectedEvent null)
+    if (!selectedEvent) {
+      if (eventId && checkedOutEventIds.has(eventId)) throw new Error("Already checked out");
+      throw new Error("No events today");
+    }
+  }
+
+  // 4. Toggle logic
+  const selectedWindow = eventWindows.get(selectedEvent.id)!;
+  const rules = eventRules.get(selectedEvent.id)!;
+  const existingCheckIn = await prisma.checkIn.findUnique({
+    where: { userId_eventId: { userId: targetUserId, eventId: selectedEvent.id } },
+  });
+
+  // Replaying an offline tap for an event that has since been auto-marked absent
+  if (existingCheckIn?.status === "ABSENT" && !existingCheckIn.checkInTime && offlineSyncedAt) {
+    const status = checkInStatus(rules, selectedWindow.start, now);
+    const updatedCheckIn = await prisma.checkIn.update({
+      where: { id: existingCheckIn.id },
+      data: { status, checkInTime: now, offlineSyncedAt },
+    });
+    publishCheckInChanged(updatedCheckIn);
+    checkEscalationsInBackground(organizationId, targetUserId);
+    return { checkIn: updatedCheckIn, action: "CHECKED_IN", event: selectedEvent };
+  }
+
+  if (existingCheckIn) {
+    if (existingCheckIn.checkOutTime) {
+      throw new Error("Already checked out");
+    }
+    // Check out — use event start time as effective start if checked in early
+    if (!existingCheckIn.checkInTime) throw new Error("No check-in time recorded");
+    if (now < existingCheckIn.checkInTime) throw new Error("Check-out time is before the check-in time");
+    const effectiveStart =
+      existingCheckIn.checkInTime < selectedWindow.start ? selectedWindow.start : existingCheckIn.checkInTime;
+    const hoursLogged = Math.max(0, (now.getTime() - effectiveStart.getTime()) / (1000 * 60 * 60));
+    const updatedCheckIn = await prisma.checkIn.update({
+      where: { id: existingCheckIn.id },
+      data: {
+        status: checkOutStatus(
+          rules,
+          selectedWindow,
+          { status: existingCheckIn.status, checkInTime: existingCheckIn.checkInTime },
+          now
+        ),
+        checkOutTime: now,
+        hoursLogged: Math.round(hoursLogged * 100) / 100,
+        offlineSyncedAt,
+      },
+    });
+    publishCheckInChanged(updatedCheckIn);
+    checkEscalationsInBackground(organizationId, targetUserId);
+    return { checkIn: updatedCheckIn, action: "CHECKED_OUT", event: selectedEvent };
+  }
+
+  // Check in — ON_TIME until the policy's grace period after the start, then LATE
+  const status = checkInStatus(rules, selectedWindow.start, now);
+
+  const newCheckIn = await prisma.checkIn.create({
+    data: {
+      userId: targetUserId,
+      eventId: selectedEvent.id,
+      status,
+      checkInTime: now,
+      offlineSyncedAt,
+    },
+  });
+  publishCheckInChanged(newCheckIn);
+  checkEscalationsInBackground(organizationId, targetUserId);
+  return { checkIn: newCheckIn, action: "CHECKED_IN", event: selectedEvent };
+}
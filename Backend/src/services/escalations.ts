@@ -0,0 +1,158 @@
+import type { EscalationRule } from "@prisma/client";
+import { prisma } from "../db.js";
+import { evaluateEscalation, type AttendanceRecord } from "../utils/escalation.js";
+import { COUNTED_EVENT_FILTER } from "../utils/analyticsHelpers.js";
+import { getSeasonDateRange, isTeamInCurrentSeason } from "../utils/time.js";
+import { captureError } from "../utils/logger.js";
+import { sendPushNotification } from "../notifications/pushNotifications.js";
+
+// A season is at most a year, so this covers every rule's window
+const HISTORY_DAYS = 366;
+
+const ATHLETE_TEAM_ROLES = ["MEMBER", "CAPTAIN"] as const;
+
+type SeasonTeam = {
+  id: string;
+  seasonYear: number | null;
+  orgSeason: { name: string; startMonth: number; endMonth: number } | null;
+};
+
+function currentSeason(team: SeasonTeam | undefined) {
+  if (!team?.orgSeason || !team.seasonYear || !isTeamInCurrentSeason(team)) return null;
+  return {
+    name: team.orgSeason.name,
+    ...getSeasonDateRange(team.orgSeason.startMonth, team.orgSeason.endMonth, team.seasonYear),
+  };
+}
+
+/**
+ * Evaluate an org's active escalation rules for some athletes, recording a
+ * firing and running the rule's actions for each one that triggers. Only
+ * ACTIVE athletes are evaluated, and team rules only see that team's events.
+ * Returns how many rules fired.
+ */
+export async function evaluateEscalations(organizationId: string, userIds: string[], now = new Date()): Promise<number> {
+  if (userIds.length === 0) return 0;
+  const rules = await prisma.escalationRule.findMany({ where: { organizationId, isActive: true } });
+  if (rules.length === 0) return 0;
+
+  const historyStart = new Date(now.getTime() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  const [activeMembers, memberships, checkIns, lastFirings] = await Promise.all([
+    prisma.organizationMember.findMany({
+      where: { organizationId, userId: { in: userIds }, athleteStatus: "ACTIVE" },
+      select: { userId: true },
+    }),
+    prisma.teamMember.findMany({
+      where: {
+        userId: { in: userIds },
+        role: { in: [...ATHLETE_TEAM_ROLES] },
+        team: { organizationId, archivedAt: null },
+      },
+      select: {
+        userId: true,
+        team: { select: { id: true, seasonYear: true, orgSeason: { select: { name: true, startMonth: true, endMonth: true } } } },
+      },
+    }),
+    prisma.checkIn.findMany({
+      where: {
+        userId: { in: userIds },
+        approved: true,
+        event: { organizationId, ...COUNTED_EVENT_FILTER, date: { gte: historyStart } },
+      },
+      select: {
+        userId: true,
+        status: true,
+        createdAt: true,
+        event: { select: { date: true, teamId: true, participatingTeams: { select: { id: true } } } },
+      },
+    }),
+    prisma.escalationFiring.groupBy({
+      by: ["ruleId", "userId"],
+      where: { ruleId: { in: rules.map((r) => r.id) }, userId: { in: userIds } },
+      _max: { createdAt: true },
+    }),
+  ]);
+
+  const lastFiredAt = new Map(lastFirings.map((f) => [`${f.ruleId}:${f.userId}`, f._max.createdAt]));
+  let fired = 0;
+
+  for (const { userId } of activeMembers) {
+    const teams = memberships.filter((m) => m.userId === userId).map((m) => m.team);
+    if (teams.length === 0) continue;
+    const userCheckIns = checkIns.filter((c) => c.userId === userId);
+
+    for (const rule of rules) {
+      const ruleTeam = rule.teamId ? teams.find((t) => t.id === rule.teamId) : undefined;
+      if (rule.teamId && !ruleTeam) continue;
+
+      const records: AttendanceRecord[] = userCheckIns
+        .filter(
+          (c) =>
+            !rule.teamId ||
+            c.event.teamId === rule.teamId ||
+            c.event.participatingTeams.some((t) => t.id === rule.teamId)
+        )
+        .map((c) => ({ status: c.status, eventDate: c.event.date, recordedAt: c.createdAt }));
+
+      const detail = evaluateEscalation(rule, records, {
+        now,
+        lastFiredAt: lastFiredAt.get(`${rule.id}:${userId}`) ?? null,
+        season: currentSeason(ruleTeam ?? teams.find((t) => currentSeason(t))),
+      });
+      if (!detail) continue;
+
+      await fireEscalation(rule, userId, detail, rule.teamId ? [rule.teamId] : teams.map((t) => t.id));
+      fired++;
+    }
+  }
+
+  return fired;
+}
+
+/** Record a rule firing for an athlete and notify their coaches and guardians. */
+async function fireEscalation(rule: EscalationRule, userId: string, detail: string, teamIds: string[]): Promise<void> {
+  const firing = await prisma.escalationFiring.create({
+    data: {
+      ruleId: rule.id,
+      userId,
+      organizationId: rule.organizationId,
+      detail,
+      followUp: rule.createFollowUp,
+      proposedStatus: rule.proposedStatus,
+      status: rule.createFollowUp || rule.proposedStatus ? "OPEN" : null,
+    },
+    include: { user: { select: { firstName: true, lastName: true } } },
+  });
+
+  const [coaches, guardians] = await Promise.all([
+    rule.notifyCoaches
+      ? prisma.teamMember.findMany({ where: { teamId: { in: teamIds }, role: "COACH" }, select: { userId: true } })
+      : [],
+    rule.notifyGuardians
+      ? prisma.guardianLink.findMany({
+          where: { athleteId: userId, organizationId: rule.organizationId },
+          select: { guardianId: true },
+        })
+      : [],
+  ]);
+  const recipients = new Set([...coaches.map((c) => c.userId), ...guardians.map((g) => g.guardianId)]);
+
+  const title = `Attendance alert: ${firing.user.firstName} ${firing.user.lastName}`.trim();
+  const message = `${detail} (${rule.name})`;
+  for (const recipientId of recipients) {
+    sendPushNotification(recipientId, title, message, {
+      type: "ATTENDANCE_ESCALATION",
+      escalationId: firing.id,
+      athleteId: userId,
+      organizationId: rule.organizationId,
+    }).catch((err) => captureError(err, { escalationId: firing.id, userId: recipientId }));
+  }
+}
+
+/**
+ * Evaluate escalations after a check-in without holding up the response;
+ * failures are logged, since the check-in itself already succeeded.
+ */
+export function checkEscalationsInBackground(organizationId: string, userId: string): void {
+  evaluateEscalations(organizationId, [userId]).catch((err) => captureError(err, { organizationId, userId }));
+}
@@ -0,0 +1,43 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../db.js";
+import { formatResultLine, summarizeRecord, type GameRecord } from "../utils/gameRecord.js";
+
+/** Games that count toward records: scored and not cancelled or postponed. */
+export const SCORED_GAMES_WHERE = {
+  type: "GAME",
+  status: "SCHEDULED",
+  teamScore: { not: null },
+  opponentScore: { not: null },
+} satisfies Prisma.EventWhereInput;
+
+/** W/L/D record over the scored games matching `where`. */
+export async function getGameRecord(where: Prisma.EventWhereInput): Promise<GameRecord> {
+  const games = await prisma.event.findMany({
+    where: { ...where, ...SCORED_GAMES_WHERE },
+    select: { teamScore: true, opponentScore: true },
+  });
+  return summarizeRecord(games);
+}
+
+/**
+ * Result lines ("W 3-1 vs Eagles") for the teams' games scored between the
+ * dates, oldest first, each prefixed with the team name.
+ */
+export async function getResultLines(teamIds: string[], startDate: Date, endDate: Date): Promise<string[]> {
+  if (teamIds.length === 0) return [];
+  const games = await prisma.event.findMany({
+    where: { teamId: { in: teamIds }, date: { gte: startDate, lte: endDate }, ...SCORED_GAMES_WHERE },
+    select: {
+      teamScore: true,
+      opponentScore: true,
+      homeAway: true,
+      team: { select: { name: true } },
+      opponent: { select: { name: true } },
+    },
+    orderBy: { date: "asc" },
+  });
+  return games.map((game) => {
+    const line = formatResultLine({ ...game, opponentName: game.opponent?.name ?? null });
+    return game.team ? `${game.team.name}: ${line}` : line!;
+  });
+}
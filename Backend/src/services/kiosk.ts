@@ -0,0 +1,136 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { KioskDevice } from "@prisma/client";
+import { prisma } from "../db.js";
+import { EVENT_DATE_SLACK_MS, eventTimeZone, getEventWindow, toZonedCalendarDate } from "../utils/time.js";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const KIOSK_AUTH_SCHEME = "Kiosk ";
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_MINUTES = 15;
+// Don't write lastSeenAt on every request from a busy front desk
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+async function hashPin(pin: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(pin, salt, 32);
+  return `${salt.toString("hex")}:${hash.toString("hex")}`;
+}
+
+async function pinMatches(pin: string, stored: string): Promise<boolean> {
+  const [saltHex, hashHex] = stored.split(":");
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(pin, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+/**
+ * Create a kiosk device and its credential. The token is only returned here;
+ * the database keeps its hash, so a lost token means registering again.
+ */
+export async function createKioskDevice(data: {
+  organizationId: string;
+  name: string;
+  venueId?: string;
+  createdBy: string;
+}): Promise<{ device: KioskDevice; token: string }> {
+  const token = randomBytes(32).toString("base64url");
+  const device = await prisma.kioskDevice.create({ data: { ...data, tokenHash: hashToken(token) } });
+  return { device, token };
+}
+
+/** The active device for an `Authorization: Kiosk <token>` header, or null. */
+export async function authenticateKiosk(authorization: string | undefined): Promise<KioskDevice | null> {
+  if (!authorization?.startsWith(KIOSK_AUTH_SCHEME)) return null;
+  const token = authorization.slice(KIOSK_AUTH_SCHEME.length).trim();
+  if (!token) return null;
+
+  const device = await prisma.kioskDevice.findUnique({ where: { tokenHash: hashToken(token) } });
+  if (!device || device.revokedAt) return null;
+
+  if (!device.lastSeenAt || Date.now() - device.lastSeenAt.getTime() > LAST_SEEN_RESOLUTION_MS) {
+    await prisma.kioskDevice.update({ where: { id: device.id }, data: { lastSeenAt: new Date() } });
+  }
+  return device;
+}
+
+export async function setKioskPin(userId: string, organizationId: string, pin: string): Promise<void> {
+  const data = { pinHash: await hashPin(pin), failedAttempts: 0, lockedUntil: null };
+  await prisma.kioskPin.upsert({
+    where: { userId_organizationId: { userId, organizationId } },
+    create: { userId, organizationId, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Throws unless `pin` is the athlete's kiosk PIN. Too many wrong guesses lock
+ * the PIN for PIN_LOCKOUT_MINUTES so a four-digit PIN can't be brute-forced
+ * at an unattended tablet.
+ */
+export async function verifyKioskPin(userId: string, organizationId: string, pin: string): Promise<void> {
+  const record = await prisma.kioskPin.findUnique({
+    where: { userId_organizationId: { userId, organizationId } },
+  });
+  if (!record) throw new Error("No kiosk PIN is set up for this athlete. Ask a coach to set one.");
+  if (record.lockedUntil && record.lockedUntil > new Date()) {
+    throw new Error("Too many incorrect PINs. Try again later or ask a coach to check you in.");
+  }
+
+  if (!(await pinMatches(pin, record.pinHash))) {
+    // Increment in the database so parallel guesses can't each write back the same count
+    const { failedAttempts } = await prisma.kioskPin.update({
+      where: { id: record.id },
+      data: { failedAttempts: { increment: 1 } },
+      select: { failedAttempts: true },
+    });
+    if (failedAttempts >= MAX_PIN_ATTEMPTS) {
+      await prisma.kioskPin.updateMany({
+        where: { id: record.id, failedAttempts: { gte: MAX_PIN_ATTEMPTS } },
+        data: { failedAttempts: 0, lockedUntil: new Date(Date.now() + PIN_LOCKOUT_MINUTES * 60 * 1000) },
+      });
+    }
+    throw new Error("Incorrect PIN");
+  }
+
+  if (record.failedAttempts > 0 || record.lockedUntil) {
+    await prisma.kioskPin.update({ where: { id: record.id }, data: { failedAttempts: 0, lockedUntil: null } });
+  }
+}
+
+/** Events running today, each in its own venue/org zone, that the kiosk takes check-ins for. */
+export async function kioskEventsToday(device: KioskDevice) {
+  // The date column is only a coarse filter; venues can sit in another zone than the org
+  const now = new Date();
+  const from = new Date(now.getTime() - EVENT_DATE_SLACK_MS);
+  const to = new Date(now.getTime() + EVENT_DATE_SLACK_MS);
+  const events = await prisma.event.findMany({
+    where: {
+      organizationId: device.organizationId,
+      status: "SCHEDULED",
+      isAdHoc: false,
+      OR: [{ date: { gte: from, lte: to } }, { date: { lt: from }, endDate: { gte: from } }],
+      ...(device.venueId && { venueId: device.venueId }),
+    },
+    include: {
+      team: { select: { name: true } },
+      participatingTeams: { select: { id: true } },
+      includedAthletes: { select: { userId: true } },
+      excludedAthletes: { select: { userId: true } },
+      venue: { select: { timezone: true } },
+      organization: { select: { timezone: true } },
+    },
+    orderBy: { date: "asc" },
+  });
+  return events.filter((event) => {
+    const timeZone = eventTimeZone(event);
+    const { start, end } = getEventWindow(event, timeZone);
+    const today = toZonedCalendarDate(now, timeZone);
+    return toZonedCalendarDate(start, timeZone) <= today && today <= toZonedCalendarDate(end, timeZone);
+  });
+}
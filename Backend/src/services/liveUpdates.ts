@@ -0,0 +1,39 @@
+import type { CheckIn, Message } from "@prisma/client";
+import { pubsub, topics } from "../utils/pubsub.js";
+import { captureError } from "../utils/logger.js";
+
+// Fire-and-forget publishers for GraphQL subscriptions. A failed publish only
+// means a live view misses an update until it refetches, so errors are logged
+// rather than failing the mutation that triggered them.
+
+export interface LiveNotification {
+  userId: string;
+  type: string;
+  title: string;
+  message: string;
+  metadata?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+function publish(topic: string, payload: unknown): void {
+  pubsub.publish(topic, payload).catch((err) => captureError(err, { topic }));
+}
+
+/** A check-in for an event was created or changed (check-in, check-out, admin edit). */
+export function publishCheckInChanged(checkIn: CheckIn): void {
+  publish(topics.eventCheckInChanged(checkIn.eventId), checkIn);
+}
+
+/** An ad-hoc check-in is waiting for a coach's approval. */
+export function publishPendingAdHocCheckIn(organizationId: string, checkIn: CheckIn): void {
+  publish(topics.pendingAdHocCheckInAdded(organizationId), checkIn);
+}
+
+export function publishNotification(notification: LiveNotification): void {
+  publish(topics.notificationReceived(notification.userId), notification);
+}
+
+/** A message was posted; open chat screens for the conversation append it. */
+export function publishMessageAdded(message: Message): void {
+  publish(topics.messageAdded(message.conversationId), message);
+}
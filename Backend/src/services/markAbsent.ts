@@ -1,6 +1,9 @@
 import { prisma } from "../db.js";
 import { TeamRole } from "@prisma/client";
-import { parseTimeString } from "../utils/time.js";
+import { EVENT_DATE_SLACK_MS, eventTimeZone, getEventWindow } from "../utils/time.js";
+import { captureError } from "../utils/logger.js";
+import { absenceCoversEvent } from "../utils/absenceRequests.js";
+import { evaluateEscalations } from "./escalations.js";
 
 interface MarkAbsentOptions {
   /** Scope to a single organization (for manual mutation). Omit for all orgs (cron). */
@@ -12,6 +15,10 @@ interface MarkAbsentOptions {
 /**
  * Find recently-ended events and create ABSENT check-in records for athletes
  * who have no existing check-in. Uses skipDuplicates so re-processing is safe.
+ * Athletes with an approved absence request covering the event are recorded
+ * as EXCUSED instead.
+ * Escalation rules are then evaluated for the athletes of events that gained
+ * ABSENT records.
  */
 export async function markAbsentForEndedEvents(options?: MarkAbsentOptions): Promise<number> {
   const lookbackMinutes = options?.lookbackMinutes ?? 30;
@@ -20,13 +27,22 @@ export async function markAbsentForEndedEvents(options?: MarkAbsentOptions): Pro
 
   const now = new Date();
 
+  // Event.date is a calendar day, so widen the window and filter on the
+  // zoned end instant below.
   const events = await prisma.event.findMany({
     where: {
       isAdHoc: false,
-      date: { gte: lookbackDate, lte: now },
+      // Cancelled/postponed events didn't happen, so nobody was absent
+      status: "SCHEDULED",
+      date: {
+        gte: new Date(lookbackDate.getTime() - EVENT_DATE_SLACK_MS),
+        lte: new Date(now.getTime() + EVENT_DATE_SLACK_MS),
+      },
       ...(options?.organizationId && { organizationId: options.organizationId }),
     },
     include: {
+      organization: { select: { timezone: true } },
+      venue: { select: { timezone: true } },
       participatingTeams: {
         include: {
           members: {
@@ -46,15 +62,36 @@ export async function markAbsentForEndedEvents(options?: MarkAbsentOptions): Pro
     },
   });
 
+  // Approved absence requests overlapping any of the events' days
+  const eventDates = events.map((e) => e.date.getTime());
+  const absences = events.length
+    ? await prisma.absenceRequest.findMany({
+        where: {
+          status: "APPROVED",
+          startDate: { lte: new Date(Math.max(...eventDates)) },
+          endDate: { gte: new Date(Math.min(...eventDates)) },
+          ...(options?.organizationId && { organizationId: options.organizationId }),
+        },
+        select: {
+          userId: true,
+          organizationId: true,
+          startDate: true,
+          endDate: true,
+          teams: { select: { id: true } },
+        },
+      })
+    : [];
+
   let totalCreated = 0;
+  // organizationId -> athletes of events that gained ABSENT records
+  const affected = new Map<string, Set<string>>();
 
   for (const event of events) {
-    // Compute actual end datetime from date + endTime
-    const eventDate = new Date(event.date);
-    const { hours, minutes } = parseTimeString(event.endTime);
-    eventDate.setHours(hours, minutes, 0, 0);
+    // Compute actual end datetime from date + endTime in the event's zone
+    const { end: eventEnd } = getEventWindow(event, eventTimeZone(event));
 
-    if (eventDate >= now) continue; // Event hasn't ended yet
+    if (eventEnd >= now) continue; // Event hasn't ended yet
+    if (eventEnd < lookbackDate) continue; // Ended before the lookback window
 
     // Collect athlete user IDs, excluding members who joined after the event date
     const userIds = new Set<string>();
@@ -75,18 +112,41 @@ export async function markAbsentForEndedEvents(options?: MarkAbsentOptions): Pro
 
     if (userIds.size === 0) continue;
 
+    const covered = {
+      date: event.date,
+      teamId: event.teamId,
+      participatingTeamIds: event.participatingTeams.map((t) => t.id),
+    };
+    const isExcused = (userId: string) =>
+      absences.some(
+        (a) =>
+          a.userId === userId &&
+          a.organizationId === event.organizationId &&
+          absenceCoversEvent({ ...a, teamIds: a.teams.map((t) => t.id) }, covered)
+      );
+
     // Bulk create ABSENT records, skipping duplicates (unique constraint on userId_eventId)
     const result = await prisma.checkIn.createMany({
       data: Array.from(userIds).map((userId) => ({
         userId,
         eventId: event.id,
-        status: "ABSENT" as const,
+        status: isExcused(userId) ? ("EXCUSED" as const) : ("ABSENT" as const),
         hoursLogged: 0,
       })),
       skipDuplicates: true,
     });
 
     totalCreated += result.count;
+    if (result.count > 0) {
+      const orgUsers = affected.get(event.organizationId) ?? new Set<string>();
+      userIds.forEach((id) => orgUsers.add(id));
+      affected.set(event.organizationId, orgUsers);
+    }
+  }
+
+  for (const [organizationId, orgUsers] of affected) {
+    // The absences are saved either way, so a failed evaluation is only logged
+    await evaluateEscalations(organizationId, [...orgUsers]).catch((err) => captureError(err, { organizationId }));
   }
 
   return totalCreated;
@@ -0,0 +1,129 @@
+import type { Conversation, Message, User } from "@prisma/client";
+import { prisma } from "../db.js";
+import { sendPushNotification } from "../notifications/pushNotifications.js";
+import { guardiansToCopy, type ThreadMember } from "../utils/messaging.js";
+import { captureError } from "../utils/logger.js";
+import { publishMessageAdded } from "./liveUpdates.js";
+
+const STAFF_ORG_ROLES = ["OWNER", "ADMIN", "MANAGER", "COACH"] as const;
+const PUSH_PREVIEW_LENGTH = 140;
+
+/** Org staff: anyone with a staff org role plus coaches of the org's teams. */
+async function threadMembers(organizationId: string, userIds: string[]): Promise<ThreadMember[]> {
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds } },
+    select: {
+      id: true,
+      dateOfBirth: true,
+      organizationMemberships: { where: { organizationId }, select: { role: true } },
+      memberships: { where: { role: { in: ["COACH", "ADMIN"] }, team: { organizationId } }, select: { id: true } },
+    },
+  });
+  return users.map((u) => ({
+    userId: u.id,
+    dateOfBirth: u.dateOfBirth,
+    isStaff:
+      u.memberships.length > 0 ||
+      u.organizationMemberships.some((m) => (STAFF_ORG_ROLES as readonly string[]).includes(m.role)),
+  }));
+}
+
+/**
+ * Bring a conversation's GUARDIAN participants in line with its members:
+ * guardians of minors are added while a staff member is on the thread, and
+ * dropped once that no longer applies (e.g. the athlete turned 18).
+ */
+export async function syncGuardianCopies(conversationId: string, organizationId: string): Promise<void> {
+  const participants = await prisma.conversationParticipant.findMany({ where: { conversationId } });
+  const memberIds = participants.filter((p) => p.role === "MEMBER").map((p) => p.userId);
+
+  const [members, links] = await Promise.all([
+    threadMembers(organizationId, memberIds),
+    prisma.guardianLink.findMany({
+      where: { organizationId, athleteId: { in: memberIds } },
+      select: { guardianId: true, athleteId: true },
+    }),
+  ]);
+  const expected = new Set(guardiansToCopy(members, links));
+  const copied = participants.filter((p) => p.role === "GUARDIAN");
+
+  const stale = copied.filter((p) => !expected.has(p.userId)).map((p) => p.id);
+  const added = [...expected].filter((id) => !copied.some((p) => p.userId === id));
+
+  if (stale.length > 0) {
+    await prisma.conversationParticipant.deleteMany({ where: { id: { in: stale } } });
+  }
+  if (added.length > 0) {
+    await prisma.conversationParticipant.createMany({
+      data: added.map((userId) => ({ conversationId, userId, role: "GUARDIAN" as const })),
+      skipDuplicates: true,
+    });
+  }
+}
+
+/**
+ * Get or create a team's channel and match its participants to the roster.
+ * Org staff who joined the channel stay on it even if they're not on the team.
+ */
+export async function syncTeamChannel(teamId: string, actorId: string): Promise<Conversation> {
+  const team = await prisma.team.findUnique({
+    where: { id: teamId },
+    include: { members: { select: { userId: true } } },
+  });
+  if (!team) throw new Error("Team not found");
+
+  const conversation = await prisma.conversation.upsert({
+    where: { teamId },
+    create: { organizationId: team.organizationId, type: "TEAM", teamId, title: team.name, createdBy: actorId },
+    update: { title: team.name },
+  });
+
+  const roster = new Set(team.members.map((m) => m.userId));
+  const [participants, staff] = await Promise.all([
+    prisma.conversationParticipant.findMany({ where: { conversationId: conversation.id, role: "MEMBER" } }),
+    prisma.organizationMember.findMany({
+      where: { organizationId: team.organizationId, role: { in: [...STAFF_ORG_ROLES] } },
+      select: { userId: true },
+    }),
+  ]);
+  const staffIds = new Set(staff.map((s) => s.userId));
+
+  const departed = participants.filter((p) => !roster.has(p.userId) && !staffIds.has(p.userId)).map((p) => p.id);
+  if (departed.length > 0) {
+    await prisma.conversationParticipant.deleteMany({ where: { id: { in: departed } } });
+  }
+  await prisma.conversationParticipant.createMany({
+    data: [...roster].map((userId) => ({ conversationId: conversation.id, userId })),
+    skipDuplicates: true,
+  });
+
+  await syncGuardianCopies(conversation.id, team.organizationId);
+  return conversation;
+}
+
+/**
+ * Fan a new message out to open chat screens and, as a push notification, to
+ * every other participant. Delivery failures are logged, not thrown — the
+ * message is already saved.
+ */
+export function deliverMessage(
+  conversation: Conversation & { participants: { userId: string }[] },
+  message: Message & { sender: User }
+): void {
+  publishMessageAdded(message);
+
+  const senderName = `${message.sender.firstName} ${message.sender.lastName}`.trim();
+  const preview =
+    message.body.length > PUSH_PREVIEW_LENGTH ? `${message.body.slice(0, PUSH_PREVIEW_LENGTH - 1)}…` : message.body;
+  const title = conversation.type === "DIRECT" ? senderName : conversation.title || senderName;
+  const body = conversation.type === "DIRECT" ? preview : `${senderName}: ${preview}`;
+
+  for (const { userId } of conversation.participants) {
+    if (userId === message.senderId) continue;
+    sendPushNotification(userId, title, body, {
+      type: "MESSAGE",
+      conversationId: conversation.id,
+      messageId: message.id,
+    }).catch((err) => captureError(err, { conversationId: conversation.id, userId }));
+  }
+}
@@ -0,0 +1,63 @@
+import { createHash, randomInt, timingSafeEqual } from "crypto";
+import { prisma } from "../db.js";
+import { getSmsTransport } from "../notifications/sms.js";
+import { sanitizePhone } from "../utils/time.js";
+import { toE164 } from "../utils/sms.js";
+
+const CODE_TTL_MINUTES = 10;
+const MAX_ATTEMPTS = 5;
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+function hashCode(userId: string, code: string): string {
+  return createHash("sha256").update(`${userId}:${code}`).digest("hex");
+}
+
+/**
+ * Text a six-digit code to `phone`. The number isn't saved on the user until
+ * the code comes back through confirmPhoneVerification.
+ */
+export async function startPhoneVerification(userId: string, phone: string): Promise<void> {
+  const digits = sanitizePhone(phone);
+  const to = toE164(digits);
+  if (!digits || !to) throw new Error("Validation error: Enter a valid mobile number");
+
+  const pending = await prisma.phoneVerification.findUnique({ where: { userId } });
+  if (pending && Date.now() - pending.createdAt.getTime() < RESEND_COOLDOWN_MS) {
+    throw new Error("Please wait a minute before requesting another code");
+  }
+  if (await prisma.smsOptOut.findUnique({ where: { phone: to } })) {
+    throw new Error("This number has opted out of texts. Reply START to one of our messages to opt back in.");
+  }
+
+  const code = randomInt(0, 1_000_000).toString().padStart(6, "0");
+  const data = {
+    phone: digits,
+    codeHash: hashCode(userId, code),
+    attempts: 0,
+    expiresAt: new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000),
+    createdAt: new Date(),
+  };
+  await prisma.phoneVerification.upsert({ where: { userId }, create: { userId, ...data }, update: data });
+  await getSmsTransport().send(to, `Your Athletiq verification code is ${code}. It expires in ${CODE_TTL_MINUTES} minutes.`);
+}
+
+/** Check a code from startPhoneVerification and, if it matches, save the number as verified. */
+export async function confirmPhoneVerification(userId: string, code: string) {
+  const pending = await prisma.phoneVerification.findUnique({ where: { userId } });
+  if (!pending || pending.expiresAt < new Date() || pending.attempts >= MAX_ATTEMPTS) {
+    throw new Error("This code has expired. Request a new one.");
+  }
+
+  const expected = Buffer.from(pending.codeHash, "hex");
+  const actual = Buffer.from(hashCode(userId, code.trim()), "hex");
+  if (!timingSafeEqual(expected, actual)) {
+    await prisma.phoneVerification.update({ where: { userId }, data: { attempts: { increment: 1 } } });
+    throw new Error("Incorrect verification code");
+  }
+
+  const [user] = await prisma.$transaction([
+    prisma.user.update({ where: { id: userId }, data: { phone: pending.phone, phoneVerifiedAt: new Date() } }),
+    prisma.phoneVerification.delete({ where: { userId } }),
+  ]);
+  return user;
+}
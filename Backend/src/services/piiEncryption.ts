@@ -0,0 +1,114 @@
+import { prisma } from "../db.js";
+import { currentKeyId, reencrypt } from "../utils/encrypt.js";
+
+/** Columns stored encrypted, by model. Keep in sync with the resolvers that write them. */
+export const ENCRYPTED_FIELDS = {
+  emergencyContact: ["phone", "email"],
+  medicalInfo: [
+    "conditions",
+    "allergies",
+    "medications",
+    "insuranceProvider",
+    "insurancePolicyNumber",
+    "insuranceGroupNumber",
+    "notes",
+  ],
+  user: ["address"],
+} as const;
+
+type EncryptedModel = keyof typeof ENCRYPTED_FIELDS;
+
+type Row = { id: string } & Record<string, string | null>;
+
+// The three delegates share these shapes; Prisma's generated types don't
+// unify across models, so the loop below goes through this narrower view
+interface Delegate {
+  findMany(args: object): Promise<Row[]>;
+  count(args: object): Promise<number>;
+  updateMany(args: { where: object; data: Record<string, string> }): Promise<{ count: number }>;
+}
+
+function delegate(model: EncryptedModel): Delegate {
+  return prisma[model] as unknown as Delegate;
+}
+
+/** Rows with at least one field that is plaintext or under an older key. */
+function pendingWhere(model: EncryptedModel, keyId: string) {
+  return {
+    OR: ENCRYPTED_FIELDS[model].map((field) => ({
+      AND: [{ [field]: { not: null } }, { NOT: { [field]: { startsWith: `${keyId}:` } } }],
+    })),
+  };
+}
+
+export interface ReencryptionCounts {
+  /** Rows rewritten with the current key (rows edited mid-run are left for the next) */
+  updated: number;
+  /** Rows holding ciphertext for a key that is no longer configured */
+  failed: number;
+}
+
+/** How many rows per model still need rewriting with the current key. */
+export async function countPendingReencryption(): Promise<Record<EncryptedModel, number>> {
+  const keyId = currentKeyId();
+  const counts = { emergencyContact: 0, medicalInfo: 0, user: 0 };
+  if (!keyId) return counts;
+  for (const model of Object.keys(ENCRYPTED_FIELDS) as EncryptedModel[]) {
+    counts[model] = await delegate(model).count({ where: pendingWhere(model, keyId) });
+  }
+  return counts;
+}
+
+/**
+ * Rewrite up to `limit` rows of each model whose encrypted fields are
+ * plaintext or use an older key. Each row is updated on its own, so a run
+ * can stop at any point and the next one picks up where it left off.
+ */
+export async function reencryptPii(limit = 500, batchSize = 100): Promise<Record<EncryptedModel, ReencryptionCounts>> {
+  const keyId = currentKeyId();
+  const results = {
+    emergencyContact: { updated: 0, failed: 0 },
+    medicalInfo: { updated: 0, failed: 0 },
+    user: { updated: 0, failed: 0 },
+  };
+  if (!keyId) return results;
+
+  for (const model of Object.keys(ENCRYPTED_FIELDS) as EncryptedModel[]) {
+    const fields = ENCRYPTED_FIELDS[model];
+    const select = Object.fromEntries([["id", true], ...fields.map((f) => [f, true])]);
+    let cursor: string | undefined;
+
+    while (results[model].updated + results[model].failed < limit) {
+      // Walk forward by id so rows that fail aren't fetched again this run
+      const rows = await delegate(model).findMany({
+        where: { ...pendingWhere(model, keyId), ...(cursor && { id: { gt: cursor } }) },
+        select,
+        orderBy: { id: "asc" },
+        take: Math.min(batchSize, limit - results[model].updated - results[model].failed),
+      });
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        cursor = row.id;
+        try {
+          const data: Record<string, string> = {};
+          const unchanged: Record<string, string> = {};
+          for (const field of fields) {
+            const value = row[field];
+            if (value != null && !value.startsWith(`${keyId}:`)) {
+              data[field] = reencrypt(value);
+              unchanged[field] = value;
+            }
+          }
+          // Only write if nobody edited the row since it was read; otherwise
+          // it's left for the next run
+          const { count } = await delegate(model).updateMany({ where: { id: row.id, ...unchanged }, data });
+          results[model].updated += count;
+        } catch {
+          results[model].failed++;
+        }
+      }
+    }
+  }
+  return results;
+}
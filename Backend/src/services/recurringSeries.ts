@@ -0,0 +1,456 @@
+import type { Prisma, RecurringEvent } from "@prisma/client";
+import { prisma } from "../db.js";
+import {
+  expandRRule,
+  generateRecurringDates,
+  occurrenceKey,
+  parseRRule,
+  planSeriesUpdate,
+  withRRuleUntil,
+} from "../utils/recurrence.js";
+import { eventDateTime, eventTimeZone } from "../utils/time.js";
+import { formatEventLocation, seriesUid, type ICalEvent } from "../utils/ical.js";
+import type { ScheduleSlot } from "../utils/conflicts.js";
+import { recordDeletedEvents } from "./calendarFeed.js";
+import { findScheduleConflicts, scheduleConflictError, type ScheduleConflict } from "./scheduleConflicts.js";
+
+export type RecurringEditScope = "THIS" | "THIS_AND_FOLLOWING" | "ALL";
+
+/** Fields a series edit can change; everything but daysOfWeek lives on each occurrence too. */
+export interface RecurringEventChanges {
+  title?: string;
+  startTime?: string;
+  endTime?: string;
+  location?: string;
+  description?: string;
+  venueId?: string | null;
+  daysOfWeek?: number[];
+}
+
+const MAX_OCCURRENCES = 365;
+
+// Fields whose change moves an occurrence's booking
+const BOOKING_FIELDS = ["startTime", "endTime", "venueId"];
+
+/**
+ * Throws scheduleConflictError if any of `slots` clashes with events outside
+ * `ignoreEventIds`. Slots are checked per venue since occurrences can override it.
+ */
+async function assertSeriesSlotsFree(
+  series: RecurringEvent,
+  slots: (ScheduleSlot & { venueId: string | null })[],
+  ignoreEventIds: string[]
+): Promise<void> {
+  const byVenue = new Map<string | null, ScheduleSlot[]>();
+  for (const slot of slots) byVenue.set(slot.venueId, [...(byVenue.get(slot.venueId) ?? []), slot]);
+  const conflicts: ScheduleConflict[] = [];
+  for (const [venueId, venueSlots] of byVenue) {
+    conflicts.push(
+      ...(await findScheduleConflicts({
+        organizationId: series.organizationId,
+        venueId,
+        teamIds: series.teamId ? [series.teamId] : [],
+        slots: venueSlots,
+        ignoreEventIds,
+      }))
+    );
+  }
+  if (conflicts.length > 0) throw scheduleConflictError(conflicts);
+}
+
+/** An organization's blackout ranges, for passing to generateRecurringDates. */
+export function getBlackoutRanges(
+  db: Prisma.TransactionClient,
+  organizationId: string
+): Promise<{ startDate: Date; endDate: Date }[]> {
+  return db.blackoutDate.findMany({
+    where: { organizationId },
+    select: { startDate: true, endDate: true },
+  });
+}
+
+/** Every day a series generates, honouring its RRULE, EXDATEs and the org's blackout dates. */
+async function seriesDates(tx: Prisma.TransactionClient, series: RecurringEvent): Promise<Date[]> {
+  return generateRecurringDates(series.startDate, series.endDate, series.frequency, series.daysOfWeek, {
+    rrule: series.rrule,
+    exdates: series.exdates,
+    blackouts: await getBlackoutRanges(tx, series.organizationId),
+  });
+}
+
+/**
+ * Mark an occurrence as edited on its own so later series-wide edits leave
+ * `fields` alone. No-op for events that aren't part of a series.
+ */
+export async function recordOccurrenceOverride(
+  tx: Prisma.TransactionClient,
+  event: { id: string; date: Date; recurringEventId: string | null },
+  fields: string[]
+): Promise<void> {
+  if (!event.recurringEventId || fields.length === 0) return;
+  const existing = await tx.recurringEventException.findUnique({ where: { eventId: event.id } });
+  if (existing) {
+    await tx.recurringEventException.update({
+      where: { id: existing.id },
+      data: { overriddenFields: [...new Set([...existing.overriddenFields, ...fields])] },
+    });
+    return;
+  }
+  await tx.recurringEventException.upsert({
+    where: { recurringEventId_originalDate: { recurringEventId: event.recurringEventId, originalDate: event.date } },
+    create: { recurringEventId: event.recurringEventId, originalDate: event.date, eventId: event.id, overriddenFields: fields },
+    update: { eventId: event.id, overriddenFields: fields },
+  });
+}
+
+/**
+ * Record that an occurrence was deliberately deleted so regenerating the
+ * series doesn't bring it back. Call before deleting the event.
+ */
+export async function recordOccurrenceDeletion(
+  tx: Prisma.TransactionClient,
+  event: { id: string; date: Date; recurringEventId: string | null }
+): Promise<void> {
+  if (!event.recurringEventId) return;
+  const existing = await tx.recurringEventException.findUnique({ where: { eventId: event.id } });
+  if (existing) return; // the FK nulls eventId when the event goes
+  await tx.recurringEventException.upsert({
+    where: { recurringEventId_originalDate: { recurringEventId: event.recurringEventId, originalDate: event.date } },
+    create: { recurringEventId: event.recurringEventId, originalDate: event.date, overriddenFields: [] },
+    update: { eventId: null },
+  });
+}
+
+async function deleteOccurrences(tx: Prisma.TransactionClient, eventIds: string[]): Promise<void> {
+  if (eventIds.length === 0) return;
+  await recordDeletedEvents(tx, eventIds);
+  // Dropped by a pattern change, not deleted by hand — don't leave skip markers behind
+  await tx.recurringEventException.deleteMany({ where: { eventId: { in: eventIds } } });
+  await tx.excuseRequest.deleteMany({ where: { eventId: { in: eventIds } } });
+  await tx.eventRsvp.deleteMany({ where: { eventId: { in: eventIds } } });
+  await tx.event.deleteMany({ where: { id: { in: eventIds } } });
+}
+
+/**
+ * Apply `changes` to a series and its generated occurrences. Occurrences with
+ * check-ins are never modified; fields an occurrence overrides are kept.
+ * Moved or newly generated occurrences must not double-book a venue or coach
+ * unless `allowConflicts`.
+ */
+async function applyToSeries(
+  tx: Prisma.TransactionClient,
+  series: RecurringEvent,
+  changes: RecurringEventChanges,
+  allowConflicts: boolean
+): Promise<RecurringEvent> {
+  const { daysOfWeek, ...eventChanges } = changes;
+  const patternChanged =
+    daysOfWeek !== undefined && [...daysOfWeek].sort().join(",") !== [...series.daysOfWeek].sort().join(",");
+  if (patternChanged && series.rrule) {
+    throw new Error("Days of week can't be changed on a series with a custom recurrence rule");
+  }
+
+  const updated = await tx.recurringEvent.update({ where: { id: series.id }, data: changes });
+  const newDates = patternChanged ? await seriesDates(tx, updated) : null;
+  if (newDates && newDates.length === 0) throw new Error("No event occurrences generated for the given days");
+  if (newDates && newDates.length > MAX_OCCURRENCES) {
+    throw new Error(`Too many occurrences (max ${MAX_OCCURRENCES}). Please shorten the date range.`);
+  }
+
+  const [occurrences, skipped] = await Promise.all([
+    tx.event.findMany({
+      where: { recurringEventId: series.id },
+      select: {
+        id: true,
+        date: true,
+        endDate: true,
+        startTime: true,
+        endTime: true,
+        venueId: true,
+        status: true,
+        recurrenceException: { select: { originalDate: true, overriddenFields: true } },
+        _count: { select: { checkIns: true } },
+      },
+    }),
+    tx.recurringEventException.findMany({
+      where: { recurringEventId: series.id, eventId: null },
+      select: { originalDate: true },
+    }),
+  ]);
+
+  const plan = planSeriesUpdate(
+    occurrences.map((o) => ({
+      id: o.id,
+      date: o.date,
+      originalDate: o.recurrenceException?.originalDate,
+      overriddenFields: o.recurrenceException?.overriddenFields ?? [],
+      hasCheckIns: o._count.checkIns > 0,
+    })),
+    eventChanges,
+    newDates,
+    skipped.map((s) => s.originalDate)
+  );
+
+  if (!allowConflicts) {
+    const byId = new Map(occurrences.map((o) => [o.id, o]));
+    const moved = plan.update.flatMap(({ id, data }) => {
+      const occurrence = byId.get(id)!;
+      const movesBooking = BOOKING_FIELDS.some((field) => field in data);
+      return occurrence.status === "SCHEDULED" && movesBooking ? [{ ...occurrence, ...data }] : [];
+    });
+    const created = plan.create.map((date) => ({
+      date,
+      startTime: updated.startTime,
+      endTime: updated.endTime,
+      venueId: updated.venueId,
+    }));
+    await assertSeriesSlotsFree(updated, [...moved, ...created], [...byId.keys()]);
+  }
+
+  for (const { id, data } of plan.update) {
+    await tx.event.update({ where: { id }, data: { ...data, sequence: { increment: 1 } } });
+  }
+  await deleteOccurrences(tx, plan.remove);
+  if (plan.create.length > 0) {
+    await tx.event.createMany({
+      data: plan.create.map((date) => ({
+        title: updated.title,
+        type: updated.type,
+        date,
+        startTime: updated.startTime,
+        endTime: updated.endTime,
+        location: updated.location,
+        description: updated.description,
+        organizationId: updated.organizationId,
+        teamId: updated.teamId,
+        venueId: updated.venueId,
+        recurringEventId: updated.id,
+      })),
+    });
+  }
+
+  return updated;
+}
+
+/**
+ * Split a series so that occurrences from `splitDate` on belong to a new
+ * series (copying its athlete overrides, staff and exceptions), and the original
+ * series ends the day before.
+ */
+async function splitSeries(
+  tx: Prisma.TransactionClient,
+  series: RecurringEvent & {
+    includedAthletes: { userId: string }[];
+    excludedAthletes: { userId: string }[];
+    staff: { userId: string }[];
+  },
+  splitDate: Date
+): Promise<RecurringEvent> {
+  const dayBefore = new Date(splitDate);
+  dayBefore.setUTCDate(dayBefore.getUTCDate() - 1);
+
+  const {
+    id: _id,
+    createdAt: _createdAt,
+    updatedAt: _updatedAt,
+    includedAthletes,
+    excludedAthletes,
+    staff,
+    ...template
+  } = series;
+  // Pin both halves' rules to explicit end days so a COUNT doesn't restart in the new series
+  const following = await tx.recurringEvent.create({
+    data: {
+      ...template,
+      startDate: splitDate,
+      rrule: series.rrule && withRRuleUntil(series.rrule, series.endDate),
+      exdates: series.exdates.filter((d) => d >= splitDate),
+    },
+  });
+  await tx.recurringEvent.update({
+    where: { id: series.id },
+    data: {
+      endDate: dayBefore,
+      rrule: series.rrule && withRRuleUntil(series.rrule, dayBefore),
+      exdates: series.exdates.filter((d) => d < splitDate),
+    },
+  });
+
+  if (includedAthletes.length > 0) {
+    await tx.recurringEventAthleteInclude.createMany({
+      data: includedAthletes.map((a) => ({ recurringEventId: following.id, userId: a.userId })),
+    });
+  }
+  if (excludedAthletes.length > 0) {
+    await tx.recurringEventAthleteExclude.createMany({
+      data: excludedAthletes.map((a) => ({ recurringEventId: following.id, userId: a.userId })),
+    });
+  }
+  if (staff.length > 0) {
+    await tx.recurringEventStaff.createMany({
+      data: staff.map((s) => ({ recurringEventId: following.id, userId: s.userId })),
+    });
+  }
+
+  // Occurrences move by the day they were generated on, even if since rescheduled
+  const exceptions = await tx.recurringEventException.findMany({
+    where: { recurringEventId: series.id, originalDate: { gte: splitDate } },
+    select: { id: true, eventId: true },
+  });
+  const movedByException = exceptions.flatMap((e) => (e.eventId ? [e.eventId] : []));
+  await tx.recurringEventException.updateMany({
+    where: { id: { in: exceptions.map((e) => e.id) } },
+    data: { recurringEventId: following.id },
+  });
+  await tx.event.updateMany({
+    where: {
+      recurringEventId: series.id,
+      OR: [{ id: { in: movedByException } }, { date: { gte: splitDate }, recurrenceException: null }],
+    },
+    data: { recurringEventId: following.id },
+  });
+
+  return following;
+}
+
+/**
+ * Edit a recurring series with calendar-style scope:
+ * - THIS: only `fromEventId`, recorded as an exception to the series
+ * - THIS_AND_FOLLOWING: splits the series at `fromEventId` (or today) and edits the later part
+ * - ALL: the whole series
+ * Returns the series that now holds the edited occurrences.
+ */
+export async function updateRecurringSeries(
+  recurringEventId: string,
+  scope: RecurringEditScope,
+  fromEventId: string | undefined,
+  changes: RecurringEventChanges,
+  allowConflicts = false
+): Promise<RecurringEvent> {
+  return prisma.$transaction(async (tx) => {
+    const series = await tx.recurringEvent.findUnique({
+      where: { id: recurringEventId },
+      include: {
+        includedAthletes: { select: { userId: true } },
+        excludedAthletes: { select: { userId: true } },
+        staff: { select: { userId: true } },
+      },
+    });
+    if (!series) throw new Error("Recurring event not found");
+
+    const from = fromEventId
+      ? await tx.event.findUnique({
+          where: { id: fromEventId },
+          include: { recurrenceException: { select: { originalDate: true } } },
+        })
+      : null;
+    if (fromEventId && (!from || from.recurringEventId !== series.id)) {
+      throw new Error("Event is not part of this recurring series");
+    }
+
+    if (scope === "THIS") {
+      if (!from) throw new Error("fromEventId is required to edit a single occurrence");
+      if (changes.daysOfWeek) throw new Error("Days of week can only be changed for the series");
+      const { daysOfWeek: _days, ...eventChanges } = changes;
+      const fields = Object.keys(eventChanges).filter((k) => eventChanges[k as keyof typeof eventChanges] !== undefined);
+      if (!allowConflicts && from.status === "SCHEDULED" && fields.some((f) => BOOKING_FIELDS.includes(f))) {
+        const slot = {
+          date: from.date,
+          endDate: from.endDate,
+          startTime: eventChanges.startTime ?? from.startTime,
+          endTime: eventChanges.endTime ?? from.endTime,
+          venueId: eventChanges.venueId !== undefined ? eventChanges.venueId : from.venueId,
+        };
+        await assertSeriesSlotsFree(series, [slot], [from.id]);
+      }
+      await tx.event.update({ where: { id: from.id }, data: { ...eventChanges, sequence: { increment: 1 } } });
+      await recordOccurrenceOverride(tx, from, fields);
+      return series;
+    }
+
+    if (scope === "ALL") return applyToSeries(tx, series, changes, allowConflicts);
+
+    // THIS_AND_FOLLOWING: split on a day the series actually generates so
+    // BIWEEKLY/MONTHLY patterns keep their phase in the new series
+    const pivot = from ? from.recurrenceException?.originalDate ?? from.date : new Date();
+    const splitDate = (await seriesDates(tx, series)).find((d) => occurrenceKey(d) >= occurrenceKey(pivot));
+    if (!splitDate) throw new Error("The series has no occurrences on or after that date");
+
+    if (occurrenceKey(splitDate) <= occurrenceKey(series.startDate)) {
+      return applyToSeries(tx, series, changes, allowConflicts);
+    }
+
+    const following = await splitSeries(tx, series, splitDate);
+    return applyToSeries(tx, following, changes, allowConflicts);
+  });
+}
+
+/**
+ * Export a series that has an RRULE as one master VEVENT carrying the rule
+ * verbatim, with EXDATEs for days the rule generates but that have no
+ * occurrence (skipped, blacked out, deleted), plus an override VEVENT for each
+ * occurrence that no longer matches the series. Returns [] for series without a rule.
+ */
+export async function buildSeriesICalEvents(recurringEventId: string): Promise<ICalEvent[]> {
+  const series = await prisma.recurringEvent.findUnique({
+    where: { id: recurringEventId },
+    include: {
+      venue: true,
+      organization: { select: { timezone: true } },
+      events: { include: { venue: true, recurrenceException: { select: { originalDate: true } } } },
+    },
+  });
+  if (!series?.rrule) return [];
+
+  const ruleDates = expandRRule(parseRRule(series.rrule), series.startDate, series.endDate);
+  if (ruleDates.length === 0) return [];
+
+  const timeZone = eventTimeZone(series);
+  const location = formatEventLocation(series);
+  const uid = seriesUid(series.id);
+  const instanceStart = (day: Date) =>
+    series.startTime === "All Day" ? day : eventDateTime(day, series.startTime, timeZone);
+
+  const byDay = new Map(
+    series.events.map((e) => [occurrenceKey(e.recurrenceException?.originalDate ?? e.date), e])
+  );
+
+  const master: ICalEvent = {
+    id: series.id,
+    uid,
+    title: series.title,
+    date: ruleDates[0],
+    startTime: series.startTime,
+    endTime: series.endTime,
+    timeZone,
+    location,
+    description: series.description,
+    rrule: series.rrule,
+    exdates: ruleDates.filter((d) => !byDay.has(occurrenceKey(d))).map(instanceStart),
+  };
+
+  const overrides: ICalEvent[] = [];
+  for (const [day, e] of byDay) {
+    const eventLocation = formatEventLocation(e);
+    const matchesSeries =
+      e.status === "SCHEDULED" &&
+      occurrenceKey(e.date) === day &&
+      !e.endDate &&
+      e.title === series.title &&
+      e.startTime === series.startTime &&
+      e.endTime === series.endTime &&
+      eventLocation === location &&
+      (e.description ?? null) === (series.description ?? null);
+    if (matchesSeries) continue;
+
+    overrides.push({
+      ...e,
+      uid,
+      timeZone: eventTimeZone({ venue: e.venue, organization: series.organization }),
+      location: eventLocation,
+      recurrenceId: instanceStart(new Date(`${day}T12:00:00.000Z`)),
+    });
+  }
+
+  return [master, ...overrides];
+}
@@ -0,0 +1,261 @@
+import type { Prisma, User } from "@prisma/client";
+import { prisma } from "../db.js";
+import { sendInviteEmail } from "../email.js";
+import { parseRosterCsv, teamRoleForOrgRole } from "../utils/rosterImport.js";
+import { encryptIfConfigured, decryptIfConfigured } from "../utils/encrypt.js";
+import { sanitizePhone } from "../utils/time.js";
+import type { RosterRow } from "../utils/validate.js";
+
+const INVITE_TTL_DAYS = 7;
+// Hundreds of rows in one interactive transaction outlast Prisma's 5s default
+const TRANSACTION_TIMEOUT_MS = 60_000;
+
+export type RosterImportRowStatus = "NEW_USER" | "EXISTING_USER" | "ERROR";
+
+export interface RosterImportRowResult {
+  line: number;
+  email: string | null;
+  name: string | null;
+  status: RosterImportRowStatus;
+  role: RosterRow["role"] | null;
+  teams: string[];
+  guardianEmail: string | null;
+  errors: string[];
+}
+
+export interface RosterImportResult {
+  committed: boolean;
+  rows: RosterImportRowResult[];
+  newUsers: number;
+  existingUsers: number;
+  guardianInvites: number;
+  errorCount: number;
+}
+
+interface PlannedRow {
+  row: RosterRow;
+  user: User | null;
+  teamIds: string[];
+}
+
+type PendingEmail = { to: string; role: string; token: string };
+
+function inviteExpiry(): Date {
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + INVITE_TTL_DAYS);
+  return expiresAt;
+}
+
+async function importRow(
+  tx: Prisma.TransactionClient,
+  organizationId: string,
+  { row, user: existing, teamIds }: PlannedRow,
+  emails: PendingEmail[]
+): Promise<string> {
+  // New people get a user record now so coaches see them on the roster before
+  // they sign up; sign-in matches the record by email.
+  const user =
+    existing ??
+    (await tx.user.create({
+      data: {
+        email: row.email,
+        firstName: row.firstName,
+        lastName: row.lastName,
+        dateOfBirth: row.dateOfBirth ? new Date(row.dateOfBirth) : null,
+      },
+    }));
+  if (existing && !existing.dateOfBirth && row.dateOfBirth) {
+    await tx.user.update({ where: { id: user.id }, data: { dateOfBirth: new Date(row.dateOfBirth) } });
+  }
+
+  // Existing members keep their current org role
+  await tx.organizationMember.upsert({
+    where: { userId_organizationId: { userId: user.id, organizationId } },
+    update: {},
+    create: { userId: user.id, organizationId, role: row.role },
+  });
+
+  const current = await tx.teamMember.findMany({
+    where: { userId: user.id, teamId: { in: teamIds } },
+    select: { teamId: true },
+  });
+  const currentTeamIds = new Set(current.map((m) => m.teamId));
+  for (const teamId of teamIds.filter((id) => !currentTeamIds.has(id))) {
+    await tx.teamMember.create({ data: { userId: user.id, teamId, role: teamRoleForOrgRole(row.role) } });
+    await tx.teamMemberHistory.create({ data: { userId: user.id, teamId, joinedAt: new Date() } });
+  }
+
+  if (row.emergencyContact) {
+    const contacts = await tx.emergencyContact.findMany({
+      where: { userId: user.id, organizationId },
+      select: { phone: true },
+    });
+    // Normalized like contacts saved in the app, so "(555) 123-4567" matches "5551234567"
+    const normalize = (phone: string) => sanitizePhone(phone) || phone;
+    const { phone: csvPhone, ...contact } = row.emergencyContact;
+    const phone = normalize(csvPhone);
+    if (!contacts.some((c) => normalize(decryptIfConfigured(c.phone)!) === phone)) {
+      await tx.emergencyContact.create({
+        data: {
+          ...contact,
+          phone: encryptIfConfigured(phone)!,
+          userId: user.id,
+          organizationId,
+          isPrimary: contacts.length === 0,
+        },
+      });
+    }
+  }
+
+  if (!existing) {
+    const invite = await tx.invite.upsert({
+      where: { email_organizationId: { email: row.email, organizationId } },
+      update: { role: row.role, teamIds, athleteIds: [], status: "PENDING", expiresAt: inviteExpiry() },
+      create: { email: row.email, organizationId, role: row.role, teamIds, expiresAt: inviteExpiry() },
+    });
+    emails.push({ to: row.email, role: invite.role, token: invite.token });
+  }
+
+  return user.id;
+}
+
+/** Pending GUARDIAN invite covering `athleteIds`, merged into any invite the guardian already has. */
+async function inviteGuardianOf(
+  tx: Prisma.TransactionClient,
+  organizationId: string,
+  email: string,
+  athleteIds: string[],
+  emails: PendingEmail[]
+): Promise<boolean> {
+  const linked = await tx.guardianLink.findMany({
+    where: { organizationId, athleteId: { in: athleteIds }, guardian: { email: { equals: email, mode: "insensitive" } } },
+    select: { athleteId: true },
+  });
+  const linkedIds = new Set(linked.map((l) => l.athleteId));
+  const unlinked = athleteIds.filter((id) => !linkedIds.has(id));
+  if (unlinked.length === 0) return false;
+
+  const existing = await tx.invite.findUnique({ where: { email_organizationId: { email, organizationId } } });
+  const merged =
+    existing?.role === "GUARDIAN" && existing.status === "PENDING"
+      ? [...new Set([...existing.athleteIds, ...unlinked])]
+      : unlinked;
+
+  const invite = await tx.invite.upsert({
+    where: { email_organizationId: { email, organizationId } },
+    update: { role: "GUARDIAN", teamIds: [], athleteIds: merged, status: "PENDING", expiresAt: inviteExpiry() },
+    create: { email, organizationId, role: "GUARDIAN", teamIds: [], athleteIds: merged, expiresAt: inviteExpiry() },
+  });
+  if (!emails.some((e) => e.to === email)) emails.push({ to: email, role: invite.role, token: invite.token });
+  return true;
+}
+
+/**
+ * Validate a roster CSV against the organization and, unless `dryRun` or any
+ * row has errors, apply it in a single transaction: user records for new
+ * people, org and team memberships, emergency contacts, invites for new
+ * people and pending guardian invites. Invite emails go out after commit.
+ */
+export async function importRoster(
+  organizationId: string,
+  csv: string,
+  { dryRun }: { dryRun: boolean }
+): Promise<RosterImportResult> {
+  const parsed = parseRosterCsv(csv);
+  const valid = parsed.flatMap((p) => (p.data ? [p.data] : []));
+
+  const emails = [...new Set(valid.flatMap((r) => (r.guardianEmail ? [r.email, r.guardianEmail] : [r.email])))];
+  const [teams, users] = await Promise.all([
+    prisma.team.findMany({ where: { organizationId, archivedAt: null }, select: { id: true, name: true } }),
+    prisma.user.findMany({ where: { email: { in: emails, mode: "insensitive" } } }),
+  ]);
+  const userByEmail = new Map(users.map((u) => [u.email.toLowerCase(), u]));
+  const athleteMembers = await prisma.organizationMember.findMany({
+    where: { organizationId, role: "ATHLETE", userId: { in: users.map((u) => u.id) } },
+    select: { userId: true },
+  });
+  const athleteIds = new Set(athleteMembers.map((m) => m.userId));
+
+  const teamsByName = new Map<string, string[]>();
+  for (const team of teams) {
+    const key = team.name.trim().toLowerCase();
+    teamsByName.set(key, [...(teamsByName.get(key) ?? []), team.id]);
+  }
+
+  const plans = new Map<number, PlannedRow>();
+  const rows: RosterImportRowResult[] = parsed.map(({ line, email, name, data, errors }) => {
+    const rowErrors = [...errors];
+    const teamIds: string[] = [];
+    for (const teamName of data?.teams ?? []) {
+      const matches = teamsByName.get(teamName.toLowerCase()) ?? [];
+      if (matches.length === 0) rowErrors.push(`Unknown team: ${teamName}`);
+      else if (matches.length > 1) rowErrors.push(`Team name "${teamName}" matches more than one team`);
+      else if (!teamIds.includes(matches[0])) teamIds.push(matches[0]);
+    }
+
+    const guardian = data?.guardianEmail ? userByEmail.get(data.guardianEmail) : undefined;
+    if (guardian && athleteIds.has(guardian.id)) {
+      rowErrors.push(`Guardian ${data!.guardianEmail} is an athlete in this organization`);
+    }
+
+    const user = data ? userByEmail.get(data.email) ?? null : null;
+    if (data && rowErrors.length === 0) plans.set(line, { row: data, user, teamIds });
+
+    return {
+      line,
+      email: data?.email ?? email,
+      name,
+      status: rowErrors.length > 0 ? "ERROR" : user ? "EXISTING_USER" : "NEW_USER",
+      role: data?.role ?? null,
+      teams: data?.teams ?? [],
+      guardianEmail: data?.guardianEmail ?? null,
+      errors: rowErrors,
+    };
+  });
+
+  const errorCount = rows.filter((r) => r.status === "ERROR").length;
+  const guardianEmails = new Set(valid.flatMap((r) => (r.guardianEmail ? [r.guardianEmail] : [])));
+  const result: RosterImportResult = {
+    committed: false,
+    rows,
+    newUsers: rows.filter((r) => r.status === "NEW_USER").length,
+    existingUsers: rows.filter((r) => r.status === "EXISTING_USER").length,
+    guardianInvites: guardianEmails.size,
+    errorCount,
+  };
+  // All or nothing: a partial import is harder to fix up than a corrected file
+  if (dryRun || errorCount > 0 || plans.size === 0) return result;
+
+  const pendingEmails: PendingEmail[] = [];
+  const guardianInvites = await prisma.$transaction(
+    async (tx) => {
+      const athletesByGuardian = new Map<string, string[]>();
+      for (const plan of plans.values()) {
+        const userId = await importRow(tx, organizationId, plan, pendingEmails);
+        const { guardianEmail } = plan.row;
+        if (guardianEmail) {
+          athletesByGuardian.set(guardianEmail, [...(athletesByGuardian.get(guardianEmail) ?? []), userId]);
+        }
+      }
+      let invited = 0;
+      for (const [email, ids] of athletesByGuardian) {
+        if (await inviteGuardianOf(tx, organizationId, email, ids, pendingEmails)) invited++;
+      }
+      return invited;
+    },
+    { timeout: TRANSACTION_TIMEOUT_MS }
+  );
+
+  // Non-blocking like createInvite: admins can resend any invite that failed
+  const org = await prisma.organization.findUnique({ where: { id: organizationId }, select: { name: true } });
+  if (org) {
+    const sent = await Promise.allSettled(
+      pendingEmails.map((e) => sendInviteEmail({ ...e, organizationName: org.name }))
+    );
+    for (const outcome of sent) {
+      if (outcome.status === "rejected") console.error("Failed to send roster invite email:", outcome.reason);
+    }
+  }
+
+  return { ...result, committed: true, guardianInvites };
+}
@@ -0,0 +1,101 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../db.js";
+import { openSpots } from "../utils/rsvpCapacity.js";
+import { captureError } from "../utils/logger.js";
+import { sendPushNotification } from "../notifications/pushNotifications.js";
+
+/** GOING RSVPs for an event, optionally leaving one athlete out. */
+export function countGoing(
+  eventId: string,
+  excludeUserId?: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> {
+  return client.eventRsvp.count({
+    where: { eventId, status: "GOING", ...(excludeUserId && { userId: { not: excludeUserId } }) },
+  });
+}
+
+/**
+ * Serialise RSVP changes to one event for the rest of `tx` by locking its row.
+ * Capacity checks count GOING responses and then write, so without the lock
+ * concurrent requests for the last spot would all see it as free.
+ */
+export async function lockEventRsvps(tx: Prisma.TransactionClient, eventId: string): Promise<void> {
+  await tx.$queryRaw`SELECT 1 FROM "Event" WHERE "id" = ${eventId} FOR UPDATE`;
+}
+
+export interface WaitlistPromotion {
+  eventId: string;
+  title: string;
+  userIds: string[];
+}
+
+/**
+ * Move waitlisted athletes into any open spots, earliest first. The caller
+ * must hold `lockEventRsvps` for the event in `tx`; push the promoted athletes
+ * with `notifyPromoted` once it commits.
+ */
+export async function promoteWaitlisted(tx: Prisma.TransactionClient, eventId: string): Promise<WaitlistPromotion> {
+  const event = await tx.event.findUnique({
+    where: { id: eventId },
+    select: { title: true, capacity: true, status: true },
+  });
+  const promotion: WaitlistPromotion = { eventId, title: event?.title ?? "", userIds: [] };
+  if (!event || event.status !== "SCHEDULED") return promotion;
+
+  const spots = openSpots(event.capacity, await countGoing(eventId, undefined, tx));
+  if (spots === 0) return promotion;
+  const waitlisted = await tx.eventRsvp.findMany({
+    where: { eventId, status: "WAITLISTED" },
+    orderBy: [{ waitlistedAt: "asc" }, { createdAt: "asc" }],
+    ...(spots !== null && { take: spots }),
+    select: { id: true, userId: true },
+  });
+
+  // One row at a time so only athletes actually moved get told they're in
+  for (const { id, userId } of waitlisted) {
+    const { count } = await tx.eventRsvp.updateMany({
+      where: { id, status: "WAITLISTED" },
+      data: { status: "GOING", waitlistedAt: null },
+    });
+    if (count === 1) promotion.userIds.push(userId);
+  }
+  return promotion;
+}
+
+/** Push each promoted athlete a heads-up. */
+export function notifyPromoted({ eventId, title, userIds }: WaitlistPromotion): void {
+  for (const userId of userIds) {
+    sendPushNotification(userId, `You're in: ${title}`, "A spot opened up and you've been moved off the waitlist.", {
+      type: "RSVP_PROMOTED",
+      eventId,
+    }).catch((err) => captureError(err, { eventId, userId }));
+  }
+}
+
+/**
+ * Promote from the waitlist under the event's RSVP lock and notify whoever got
+ * in. Call whenever a GOING spot frees up or capacity grows. Returns the
+ * promoted user ids.
+ */
+export async function promoteFromWaitlist(eventId: string): Promise<string[]> {
+  const promotion = await prisma.$transaction(async (tx) => {
+    await lockEventRsvps(tx, eventId);
+    return promoteWaitlisted(tx, eventId);
+  });
+  notifyPromoted(promotion);
+  return promotion.userIds;
+}
+
+/** 1-based place in the event's waitlist, or null when the RSVP isn't waitlisted. */
+export async function waitlistPosition(rsvp: {
+  eventId: string;
+  status: string;
+  waitlistedAt: Date | null;
+}): Promise<number | null> {
+  if (rsvp.status !== "WAITLISTED" || !rsvp.waitlistedAt) return null;
+  const ahead = await prisma.eventRsvp.count({
+    where: { eventId: rsvp.eventId, status: "WAITLISTED", waitlistedAt: { lt: rsvp.waitlistedAt } },
+  });
+  return ahead + 1;
+}
@@ -0,0 +1,85 @@
+import type { Event, RsvpStatus } from "@prisma/client";
+import { prisma } from "../db.js";
+import { auditLog } from "../utils/audit.js";
+import { isRsvpClosed, resolveRsvpStatus } from "../utils/rsvpCapacity.js";
+import { countGoing, lockEventRsvps, notifyPromoted, promoteWaitlisted } from "./rsvpWaitlist.js";
+
+type RsvpEvent = Pick<Event, "id" | "organizationId" | "capacity" | "rsvpDeadline">;
+
+interface RsvpInput {
+  userId: string;
+  status: RsvpStatus;
+  note?: string;
+  // Caller has already checked the actor is a coach; skips the deadline and capacity
+  override?: boolean;
+}
+
+/** Throws unless `actorId` is the athlete or one of their guardians. */
+export async function assertCanRsvpFor(actorId: string, userId: string): Promise<void> {
+  if (actorId === userId) return;
+  const guardianLink = await prisma.guardianLink.findFirst({
+    where: { guardianId: actorId, athleteId: userId },
+  });
+  if (!guardianLink) throw new Error("Not authorized to RSVP for this user");
+}
+
+/**
+ * Save an athlete's RSVP to one event: waitlists GOING responses to a full
+ * event, lets the waitlist in when a spot frees up, and keeps the auto-created
+ * excuse for NOT_GOING in step.
+ */
+export async function saveRsvp(event: RsvpEvent, input: RsvpInput, actorId: string) {
+  const { userId, note, override } = input;
+  const eventId = event.id;
+  if (!override && isRsvpClosed(event)) throw new Error("RSVPs for this event are closed");
+
+  // Count and write under the event's lock so two requests can't both take the last spot
+  const { prev, status, rsvp, promotion } = await prisma.$transaction(async (tx) => {
+    await lockEventRsvps(tx, eventId);
+    const prev = await tx.eventRsvp.findUnique({
+      where: { userId_eventId: { userId, eventId } },
+    });
+    const status = override
+      ? input.status
+      : resolveRsvpStatus(input.status, event, {
+          goingCount: event.capacity == null ? 0 : await countGoing(eventId, userId, tx),
+          current: prev?.status ?? null,
+        });
+    // Keep an athlete's place in line when they re-submit while waitlisted
+    const waitlistedAt =
+      status === "WAITLISTED" ? (prev?.status === "WAITLISTED" && prev.waitlistedAt) || new Date() : null;
+    const rsvp = await tx.eventRsvp.upsert({
+      where: { userId_eventId: { userId, eventId } },
+      create: { userId, eventId, status, note, waitlistedAt },
+      update: { status, note, waitlistedAt },
+      include: { user: true, event: true },
+    });
+    const promotion = prev?.status === "GOING" && status !== "GOING" ? await promoteWaitlisted(tx, eventId) : null;
+    return { prev, status, rsvp, promotion };
+  });
+  if (promotion) notifyPromoted(promotion);
+  if (override) {
+    await auditLog({
+      action: "OVERRIDE_RSVP",
+      actorId,
+      targetId: rsvp.id,
+      targetType: "EventRsvp",
+      organizationId: event.organizationId,
+      metadata: { userId, eventId, status, previous: prev?.status ?? null },
+    });
+  }
+  if (status === "NOT_GOING") {
+    // Auto-create excuse request
+    await prisma.excuseRequest.upsert({
+      where: { userId_eventId: { userId, eventId } },
+      create: { userId, eventId, reason: note || "Unable to attend" },
+      update: { reason: note || "Unable to attend", status: "PENDING" },
+    });
+  } else if (prev?.status === "NOT_GOING") {
+    // Switched away from NOT_GOING — cancel pending auto-excuse
+    await prisma.excuseRequest.deleteMany({
+      where: { userId, eventId, status: "PENDING" },
+    });
+  }
+  return rsvp;
+}
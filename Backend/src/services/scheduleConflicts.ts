@@ -0,0 +1,153 @@
+import { GraphQLError } from "graphql";
+import type { Event, Prisma } from "@prisma/client";
+import { prisma } from "../db.js";
+import { findOverlaps, type ScheduleSlot } from "../utils/conflicts.js";
+import { occurrenceKey } from "../utils/recurrence.js";
+import { EVENT_DATE_SLACK_MS, eventTimeZone } from "../utils/time.js";
+
+export type ScheduleConflictReason = "VENUE" | "COACH";
+
+export interface ScheduleConflict {
+  reason: ScheduleConflictReason;
+  /** The proposed day that clashes — for a recurring series, the occurrence's day */
+  date: Date;
+  event: Event;
+  /** Coaches booked in both places; empty for venue conflicts */
+  coachIds: string[];
+}
+
+export interface ScheduleConflictCheck {
+  organizationId: string;
+  venueId?: string | null;
+  /** Teams taking part; their coaches' other bookings are checked too */
+  teamIds?: string[];
+  slots: ScheduleSlot[];
+  /** Events to leave out, e.g. the event being edited */
+  ignoreEventIds?: string[];
+}
+
+/** Maps each team coached by any coach of `teamIds` to those coaches. */
+async function coachedTeams(teamIds: string[]): Promise<Map<string, string[]>> {
+  const coachesByTeam = new Map<string, string[]>();
+  if (teamIds.length === 0) return coachesByTeam;
+
+  const coaches = await prisma.teamMember.findMany({
+    where: { teamId: { in: teamIds }, role: "COACH" },
+    select: { userId: true },
+  });
+  const coachIds = [...new Set(coaches.map((c) => c.userId))];
+  if (coachIds.length === 0) return coachesByTeam;
+
+  const memberships = await prisma.teamMember.findMany({
+    where: { userId: { in: coachIds }, role: "COACH", team: { archivedAt: null } },
+    select: { userId: true, teamId: true },
+  });
+  for (const m of memberships) {
+    coachesByTeam.set(m.teamId, [...(coachesByTeam.get(m.teamId) ?? []), m.userId]);
+  }
+  return coachesByTeam;
+}
+
+/**
+ * Scheduled events that would overlap the proposed slots, either at the same
+ * venue or with a coach of one of the participating teams.
+ */
+export async function findScheduleConflicts(check: ScheduleConflictCheck): Promise<ScheduleConflict[]> {
+  if (check.slots.length === 0) return [];
+  const coachesByTeam = await coachedTeams(check.teamIds ?? []);
+  const coachedTeamIds = [...coachesByTeam.keys()];
+  if (!check.venueId && coachedTeamIds.length === 0) return [];
+
+  const [organization, venue] = await Promise.all([
+    prisma.organization.findUnique({ where: { id: check.organizationId }, select: { timezone: true } }),
+    check.venueId ? prisma.venue.findUnique({ where: { id: check.venueId }, select: { timezone: true } }) : null,
+  ]);
+  const timeZone = eventTimeZone({ organization, venue });
+
+  const days = check.slots.flatMap((s) => [s.date.getTime(), (s.endDate ?? s.date).getTime()]);
+  const from = new Date(Math.min(...days) - EVENT_DATE_SLACK_MS);
+  const to = new Date(Math.max(...days) + EVENT_DATE_SLACK_MS);
+
+  const bookedBy: Prisma.EventWhereInput[] = [
+    ...(check.venueId ? [{ venueId: check.venueId }] : []),
+    ...(coachedTeamIds.length > 0
+      ? [{ teamId: { in: coachedTeamIds } }, { participatingTeams: { some: { id: { in: coachedTeamIds } } } }]
+      : []),
+  ];
+
+  const events = await prisma.event.findMany({
+    where: {
+      organizationId: check.organizationId,
+      status: "SCHEDULED",
+      isAdHoc: false,
+      ...(check.ignoreEventIds && { id: { notIn: check.ignoreEventIds } }),
+      AND: [
+        // Multi-day events that started before the range can still run into it
+        { OR: [{ date: { gte: from, lte: to } }, { date: { lt: from }, endDate: { gte: from } }] },
+        { OR: bookedBy },
+      ],
+    },
+    include: {
+      venue: true,
+      organization: { select: { timezone: true } },
+      participatingTeams: { select: { id: true } },
+    },
+    orderBy: { date: "asc" },
+  });
+
+  const overlaps = findOverlaps(
+    check.slots,
+    timeZone,
+    events.map((e) => ({ ...e, timeZone: eventTimeZone(e) }))
+  );
+
+  const conflicts: ScheduleConflict[] = [];
+  for (const { slot, event } of overlaps) {
+    if (check.venueId && event.venueId === check.venueId) {
+      conflicts.push({ reason: "VENUE", date: slot.date, event, coachIds: [] });
+    }
+    const eventTeams = [event.teamId, ...event.participatingTeams.map((t) => t.id)];
+    const coachIds = [
+      ...new Set(eventTeams.flatMap((teamId) => (teamId ? coachesByTeam.get(teamId) ?? [] : []))),
+    ];
+    if (coachIds.length > 0) {
+      conflicts.push({ reason: "COACH", date: slot.date, event, coachIds });
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Error for a booking that clashes with existing events. The conflicts are
+ * listed in `extensions.conflicts` so clients can show them and offer to
+ * retry with `allowConflicts`.
+ */
+export function scheduleConflictError(conflicts: ScheduleConflict[]): GraphQLError {
+  const shown = conflicts.slice(0, 3).map(
+    (c) =>
+      `"${c.event.title}" on ${occurrenceKey(c.event.date)} ${c.event.startTime}–${c.event.endTime} ` +
+      `(${c.reason === "VENUE" ? "venue" : "coach"} already booked)`
+  );
+  const more = conflicts.length > 3 ? ` and ${conflicts.length - 3} more` : "";
+  return new GraphQLError(`Scheduling conflict: ${shown.join("; ")}${more}`, {
+    extensions: {
+      code: "SCHEDULE_CONFLICT",
+      conflicts: conflicts.map((c) => ({
+        reason: c.reason,
+        date: occurrenceKey(c.date),
+        eventId: c.event.id,
+        title: c.event.title,
+        eventDate: occurrenceKey(c.event.date),
+        startTime: c.event.startTime,
+        endTime: c.event.endTime,
+        coachIds: c.coachIds,
+      })),
+    },
+  });
+}
+
+/** Throws scheduleConflictError if the proposed booking clashes with anything. */
+export async function assertNoScheduleConflicts(check: ScheduleConflictCheck): Promise<void> {
+  const conflicts = await findScheduleConflicts(check);
+  if (conflicts.length > 0) throw scheduleConflictError(conflicts);
+}
@@ -0,0 +1,378 @@
+import type { EventStatus, EventType, HomeAway, Prisma } from "@prisma/client";
+import { prisma } from "../db.js";
+import { notifyEventChange } from "../notifications/eventUpdates.js";
+import { addMinutesToTime, DEFAULT_TIMEZONE, parseDateInput } from "../utils/time.js";
+import {
+  findBestMatch,
+  inferEventType,
+  nameSimilarity,
+  normalizeName,
+  parseScheduleFile,
+  splitLocation,
+  type ParsedScheduleRow,
+} from "../utils/scheduleImport.js";
+
+// Hundreds of rows in one interactive transaction outlast Prisma's 5s default
+const TRANSACTION_TIMEOUT_MS = 60_000;
+// League schedules often list only the start time
+const DEFAULT_DURATION_MINUTES = 120;
+
+export type ScheduleImportRowStatus = "NEW" | "UPDATED" | "UNCHANGED" | "CANCELLED" | "SKIPPED" | "ERROR";
+
+export interface ScheduleImportChange {
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+export interface ScheduleImportRowResult {
+  line: number;
+  uid: string | null;
+  title: string | null;
+  date: string | null;
+  startTime: string | null;
+  endTime: string | null;
+  team: string | null;
+  type: EventType | null;
+  venue: string | null;
+  newVenue: boolean;
+  opponent: string | null;
+  homeAway: HomeAway | null;
+  status: ScheduleImportRowStatus;
+  eventId: string | null;
+  changes: ScheduleImportChange[];
+  errors: string[];
+}
+
+export interface ScheduleImportResult {
+  committed: boolean;
+  rows: ScheduleImportRowResult[];
+  created: number;
+  updated: number;
+  unchanged: number;
+  cancelled: number;
+  newVenues: string[];
+  newOpponents: string[];
+  errorCount: number;
+}
+
+export interface ScheduleImportOptions {
+  /** Team for rows whose team can't be read from the file */
+  teamId?: string | null;
+  /** Type for rows that don't say and can't be inferred; games otherwise */
+  defaultType?: EventType | null;
+  dryRun: boolean;
+}
+
+type Ref = { id: string; name: string } | { key: string; name: string };
+
+interface PlannedEvent {
+  uid: string;
+  existingId: string | null;
+  previous: { date: Date; startTime: string } | null;
+  cancel: boolean;
+  rescheduled: boolean;
+  changedFields: Set<string>;
+  title: string;
+  type: EventType;
+  date: string;
+  endDate: string | null;
+  startTime: string;
+  endTime: string;
+  teamId: string;
+  venue: Ref | null;
+  opponent: Ref | null;
+  homeAway: HomeAway | null;
+  description: string | null;
+}
+
+function dateKey(date: Date | null): string | null {
+  return date ? date.toISOString().slice(0, 10) : null;
+}
+
+/** Which side of a matchup is ours, by the team's name; null when neither or both look like it. */
+function ourSide(teamName: string, matchup: { home: string; away: string }): "HOME" | "AWAY" | null {
+  const home = nameSimilarity(teamName, matchup.home);
+  const away = nameSimilarity(teamName, matchup.away);
+  if (home === away) return null;
+  return home > away ? "HOME" : "AWAY";
+}
+
+/**
+ * Preview an uploaded league schedule (ICS or CSV) against the organization's
+ * events and, unless `dryRun` or any row has errors, apply it in a single
+ * transaction. Games are matched to existing events by the league's UID, so a
+ * re-import updates moved or renamed games instead of duplicating them; games
+ * missing from the file are left alone. Unknown venues and opponents are
+ * created. Schedule conflicts aren't checked — the league sets these times.
+ */
+export async function importSchedule(
+  organizationId: string,
+  content: string,
+  { teamId: defaultTeamId, defaultType, dryRun }: ScheduleImportOptions
+): Promise<ScheduleImportResult> {
+  const org = await prisma.organization.findUnique({ where: { id: organizationId }, select: { timezone: true } });
+  if (!org) throw new Error("Organization not found");
+  const parsed = parseScheduleFile(content, org.timezone || DEFAULT_TIMEZONE);
+
+  const uids = parsed.flatMap((row) => (row.uid ? [row.uid] : []));
+  const [teams, venues, opponents, existingEvents] = await Promise.all([
+    prisma.team.findMany({ where: { organizationId, archivedAt: null }, select: { id: true, name: true } }),
+    prisma.venue.findMany({ where: { organizationId }, select: { id: true, name: true } }),
+    prisma.opponent.findMany({
+      where: { organizationId },
+      select: { id: true, name: true, shortName: true, archivedAt: true },
+    }),
+    prisma.event.findMany({
+      where: { organizationId, externalUid: { in: uids } },
+      include: {
+        team: { select: { name: true } },
+        venue: { select: { name: true } },
+        opponent: { select: { name: true } },
+      },
+    }),
+  ]);
+  const defaultTeam = defaultTeamId ? teams.find((t) => t.id === defaultTeamId) : undefined;
+  if (defaultTeamId && !defaultTeam) throw new Error("Team not found");
+  const activeOpponents = opponents.filter((o) => !o.archivedAt);
+  const archivedOpponents = opponents.filter((o) => o.archivedAt);
+  const existingByUid = new Map(existingEvents.map((e) => [e.externalUid!, e]));
+
+  // New venues and opponents are shared by every row that names them
+  const newVenues = new Map<string, { name: string; address: string | null }>();
+  const newOpponents = new Map<string, string>();
+
+  const plans: PlannedEvent[] = [];
+  const rows: ScheduleImportRowResult[] = parsed.map((row: ParsedScheduleRow) => {
+    const errors = [...row.errors];
+
+    let team = row.team ? findBestMatch(row.team, teams, (t) => [t.name]) : null;
+    if (row.team && !team) errors.push(`Unknown team: ${row.team}`);
+    let opponentName = row.opponent;
+    let homeAway = row.homeAway;
+    if (!row.team && row.matchup) {
+      const home = findBestMatch(row.matchup.home, teams, (t) => [t.name]);
+      const away = findBestMatch(row.matchup.away, teams, (t) => [t.name]);
+      if (home && away && home.id !== away.id) {
+        // A game between two of our teams: only the picked team can say which side is ours
+        team = [home, away].find((t) => t.id === defaultTeam?.id) ?? null;
+        if (!team) errors.push(`${home.name} and ${away.name} are both our teams; pick which one to import into`);
+      } else {
+        team = home ?? away ?? defaultTeam ?? null;
+        if (!team) errors.push("No team: add a team column or pick a team to import into");
+      }
+    } else if (!row.team) {
+      team = defaultTeam ?? null;
+      if (!team) errors.push("No team: add a team column or pick a team to import into");
+    }
+    if (team && row.matchup && !opponentName) {
+      const side = ourSide(team.name, row.matchup);
+      if (side) {
+        opponentName = side === "HOME" ? row.matchup.away : row.matchup.home;
+        homeAway ??= side;
+      }
+    }
+
+    const type = inferEventType(row.type, row.title) ?? (opponentName ? "GAME" : defaultType ?? "GAME");
+    if (type !== "GAME") {
+      opponentName = null;
+      homeAway = null;
+    }
+    const title =
+      row.title ?? (opponentName ? `${homeAway === "AWAY" ? "@" : "vs"} ${opponentName}` : null);
+    if (!title) errors.push("Title is required");
+    const endTime =
+      row.endTime ?? (row.startTime ? addMinutesToTime(row.startTime, DEFAULT_DURATION_MINUTES) : null);
+    if (row.startTime && !endTime) errors.push("Add an end time; two hours after the start runs past midnight");
+
+    let venue: Ref | null = null;
+    if (row.location) {
+      const { name, address } = splitLocation(row.location);
+      const match = findBestMatch(name, venues, (v) => [v.name]);
+      const key = normalizeName(name);
+      venue = match ? { id: match.id, name: match.name } : { key, name };
+      if (!match && !newVenues.has(key)) newVenues.set(key, { name, address });
+    }
+
+    let opponent: Ref | null = null;
+    if (opponentName) {
+      const match = findBestMatch(opponentName, activeOpponents, (o) => [o.name, o.shortName]);
+      const archived = match ? null : findBestMatch(opponentName, archivedOpponents, (o) => [o.name, o.shortName]);
+      const key = normalizeName(opponentName);
+      if (archived) errors.push(`Opponent ${archived.name} is archived; restore it first`);
+      opponent = match ? { id: match.id, name: match.name } : { key, name: opponentName };
+      if (!match && !archived && !newOpponents.has(key)) newOpponents.set(key, opponentName);
+    }
+
+    const existing = row.uid ? existingByUid.get(row.uid) : undefined;
+    const next = {
+      title,
+      type,
+      date: row.date,
+      endDate: row.endDate,
+      startTime: row.startTime,
+      endTime,
+      team: team?.name ?? null,
+      venue: venue?.name ?? null,
+      opponent: opponent?.name ?? null,
+      homeAway,
+      status: (row.cancelled ? "CANCELLED" : "SCHEDULED") as EventStatus,
+    };
+    const changes: ScheduleImportChange[] = [];
+    if (existing) {
+      const current: Record<keyof typeof next, string | null> = {
+        title: existing.title,
+        type: existing.type,
+        date: dateKey(existing.date),
+        endDate: dateKey(existing.endDate),
+        startTime: existing.startTime,
+        endTime: existing.endTime,
+        team: existing.team?.name ?? null,
+        venue: existing.venue?.name ?? existing.location,
+        opponent: existing.opponent?.name ?? null,
+        homeAway: existing.homeAway,
+        status: existing.status,
+      };
+      for (const field of Object.keys(next) as (keyof typeof next)[]) {
+        if ((current[field] ?? null) !== (next[field] ?? null)) {
+          changes.push({ field, from: current[field], to: next[field] });
+        }
+      }
+    }
+
+    let status: ScheduleImportRowStatus;
+    if (errors.length > 0) status = "ERROR";
+    else if (!existing) status = row.cancelled ? "SKIPPED" : "NEW";
+    else if (changes.length === 0) status = "UNCHANGED";
+    else status = row.cancelled && existing.status !== "CANCELLED" ? "CANCELLED" : "UPDATED";
+
+    if (status === "NEW" || status === "UPDATED" || status === "CANCELLED") {
+      const changedFields = new Set(changes.map((c) => c.field));
+      plans.push({
+        uid: row.uid!,
+        existingId: existing?.id ?? null,
+        previous: existing ? { date: existing.date, startTime: existing.startTime } : null,
+        cancel: status === "CANCELLED",
+        rescheduled: ["date", "startTime"].some((f) => changedFields.has(f)),
+        changedFields,
+        title: title!,
+        type,
+        date: row.date!,
+        endDate: row.endDate,
+        startTime: row.startTime!,
+        endTime: endTime!,
+        teamId: team!.id,
+        venue,
+        opponent,
+        homeAway,
+        description: row.description,
+      });
+    }
+
+    return {
+      line: row.line,
+      uid: row.uid,
+      title,
+      date: row.date,
+      startTime: row.startTime,
+      endTime,
+      team: team?.name ?? null,
+      type,
+      venue: venue?.name ?? null,
+      newVenue: venue !== null && "key" in venue,
+      opponent: opponent?.name ?? null,
+      homeAway,
+      status,
+      eventId: existing?.id ?? null,
+      changes: status === "ERROR" ? [] : changes,
+      errors,
+    };
+  });
+
+  // Only venues and opponents a valid row still needs get created
+  const usedVenueKeys = new Set(plans.flatMap((p) => (p.venue && "key" in p.venue ? [p.venue.key] : [])));
+  const usedOpponentKeys = new Set(plans.flatMap((p) => (p.opponent && "key" in p.opponent ? [p.opponent.key] : [])));
+  const errorCount = rows.filter((r) => r.status === "ERROR").length;
+  const result: ScheduleImportResult = {
+    committed: false,
+    rows,
+    created: rows.filter((r) => r.status === "NEW").length,
+    updated: rows.filter((r) => r.status === "UPDATED").length,
+    unchanged: rows.filter((r) => r.status === "UNCHANGED").length,
+    cancelled: rows.filter((r) => r.status === "CANCELLED").length,
+    newVenues: [...newVenues].filter(([key]) => usedVenueKeys.has(key)).map(([, v]) => v.name),
+    newOpponents: [...newOpponents].filter(([key]) => usedOpponentKeys.has(key)).map(([, name]) => name),
+    errorCount,
+  };
+  // All or nothing: a partial import is harder to fix up than a corrected file
+  if (dryRun || errorCount > 0 || plans.length === 0) return result;
+
+  const createdIds = await prisma.$transaction(
+    async (tx) => {
+      const venueIds = new Map<string, string>();
+      for (const key of usedVenueKeys) {
+        const { name, address } = newVenues.get(key)!;
+        venueIds.set(key, (await tx.venue.create({ data: { name, address, organizationId } })).id);
+      }
+      const opponentIds = new Map<string, string>();
+      for (const key of usedOpponentKeys) {
+        const name = newOpponents.get(key)!;
+        opponentIds.set(key, (await tx.opponent.create({ data: { name, organizationId } })).id);
+      }
+      const refId = (ref: Ref | null, created: Map<string, string>) =>
+        ref ? ("id" in ref ? ref.id : created.get(ref.key)!) : null;
+
+      const ids: string[] = [];
+      for (const plan of plans) {
+        const fields = {
+          title: plan.title,
+          type: plan.type,
+          date: parseDateInput(plan.date),
+          endDate: plan.endDate ? parseDateInput(plan.endDate) : null,
+          startTime: plan.startTime,
+          endTime: plan.endTime,
+          teamId: plan.teamId,
+          venueId: refId(plan.venue, venueIds),
+          opponentId: refId(plan.opponent, opponentIds),
+          homeAway: plan.homeAway,
+        };
+        if (!plan.existingId) {
+          const event = await tx.event.create({
+            data: { ...fields, description: plan.description, organizationId, externalUid: plan.uid },
+          });
+          ids.push(event.id);
+          continue;
+        }
+        // Only what the league changed; a venue also replaces a typed-in location
+        const data: Prisma.EventUncheckedUpdateInput = {};
+        for (const field of plan.changedFields) {
+          if (field === "team") data.teamId = fields.teamId;
+          else if (field === "venue") Object.assign(data, { venueId: fields.venueId, location: null });
+          else if (field === "opponent") data.opponentId = fields.opponentId;
+          else if (field === "status") {
+            Object.assign(data, {
+              status: plan.cancel ? "CANCELLED" : "SCHEDULED",
+              statusReason: plan.cancel ? "Cancelled by the league" : null,
+              statusChangedAt: new Date(),
+            });
+          } else Object.assign(data, { [field]: fields[field as keyof typeof fields] });
+        }
+        await tx.event.update({ where: { id: plan.existingId }, data: { ...data, sequence: { increment: 1 } } });
+      }
+      return ids;
+    },
+    { timeout: TRANSACTION_TIMEOUT_MS }
+  );
+
+  for (const plan of plans) {
+    if (!plan.existingId || !(plan.cancel || plan.rescheduled)) continue;
+    const eventId = plan.existingId;
+    notifyEventChange(eventId, plan.cancel ? "CANCELLED" : "RESCHEDULED", plan.previous ?? undefined).catch((err) => {
+      console.error(`Failed to send schedule import notifications for event ${eventId}:`, err);
+    });
+  }
+
+  // New rows point at the events just created, which were made in file order
+  rows.filter((r) => r.status === "NEW").forEach((r, i) => (r.eventId = createdIds[i]));
+  return { ...result, committed: true };
+}
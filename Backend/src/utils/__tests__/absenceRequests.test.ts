@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { absenceCoversEvent } from "../absenceRequests.js";
+import { parseDateInput } from "../time.js";
+
+const trip = { startDate: parseDateInput("2026-11-02"), endDate: parseDateInput("2026-11-15"), teamIds: [] };
+const event = (date: string, teamId: string | null = "varsity", participatingTeamIds: string[] = []) => ({
+  date: parseDateInput(date),
+  teamId,
+  participatingTeamIds,
+});
+
+describe("absenceCoversEvent", () => {
+  it("covers events on the first and last day of the range", () => {
+    expect(absenceCoversEvent(trip, event("2026-11-02"))).toBe(true);
+    expect(absenceCoversEvent(trip, event("2026-11-15"))).toBe(true);
+  });
+
+  it("does not cover events outside the range", () => {
+    expect(absenceCoversEvent(trip, event("2026-11-01"))).toBe(false);
+    expect(absenceCoversEvent(trip, event("2026-11-16"))).toBe(false);
+  });
+
+  it("covers every team when the request names none", () => {
+    expect(absenceCoversEvent(trip, event("2026-11-05", "jv"))).toBe(true);
+  });
+
+  it("only covers the named teams' events, including ones they participate in", () => {
+    const varsityOnly = { ...trip, teamIds: ["varsity"] };
+    expect(absenceCoversEvent(varsityOnly, event("2026-11-05", "jv"))).toBe(false);
+    expect(absenceCoversEvent(varsityOnly, event("2026-11-05", null, ["jv", "varsity"]))).toBe(true);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_ATTENDANCE_RULES,
+  checkInOpensAt,
+  checkInStatus,
+  checkOutStatus,
+  resolveAttendanceRules,
+} from "../attendancePolicy.js";
+
+const policy = (overrides: Partial<Parameters<typeof resolveAttendanceRules>[0][number]>) => ({
+  teamId: null,
+  eventType: null,
+  checkInWindowMinutes: null,
+  lateGraceMinutes: null,
+  minPresencePercent: null,
+  ...overrides,
+});
+
+const practice = { teamId: "team-1", type: "PRACTICE" as const };
+const start = new Date("2026-10-19T18:00:00Z");
+const end = new Date("2026-10-19T20:00:00Z");
+const at = (minutes: number) => new Date(start.getTime() + minutes * 60 * 1000);
+
+describe("resolveAttendanceRules", () => {
+  it("falls back to the defaults without any policy", () => {
+    expect(resolveAttendanceRules([], practice)).toEqual(DEFAULT_ATTENDANCE_RULES);
+  });
+
+  it("layers more specific policies over the org default field by field", () => {
+    const rules = resolveAttendanceRules(
+      [
+        policy({ teamId: "team-1", eventType: "PRACTICE", lateGraceMinutes: 10 }),
+        policy({ checkInWindowMinutes: 60, lateGraceMinutes: 5, minPresencePercent: 50 }),
+        policy({ eventType: "PRACTICE", minPresencePercent: 75 }),
+        policy({ teamId: "team-1", checkInWindowMinutes: 15 }),
+      ],
+      practice
+    );
+    expect(rules).toEqual({ checkInWindowMinutes: 15, lateGraceMinutes: 10, minPresencePercent: 75 });
+  });
+
+  it("ignores policies for other teams and event types", () => {
+    const rules = resolveAttendanceRules(
+      [policy({ teamId: "team-2", lateGraceMinutes: 10 }), policy({ eventType: "MEETING", lateGraceMinutes: 20 })],
+      practice
+    );
+    expect(rules).toEqual(DEFAULT_ATTENDANCE_RULES);
+  });
+});
+
+describe("checkInOpensAt / checkInStatus", () => {
+  const rules = { ...DEFAULT_ATTENDANCE_RULES, checkInWindowMinutes: 45, lateGraceMinutes: 5 };
+
+  it("opens check-in the window before the start", () => {
+    expect(checkInOpensAt(rules, start)).toEqual(at(-45));
+  });
+
+  it("counts check-ins within the grace period as on time", () => {
+    expect(checkInStatus(rules, start, at(5))).toBe("ON_TIME");
+    expect(checkInStatus(rules, start, at(6))).toBe("LATE");
+  });
+
+  it("is late any time after the start without a grace period", () => {
+    expect(checkInStatus(DEFAULT_ATTENDANCE_RULES, start, at(0))).toBe("ON_TIME");
+    expect(checkInStatus(DEFAULT_ATTENDANCE_RULES, start, new Date(start.getTime() + 1000))).toBe("LATE");
+  });
+});
+
+describe("checkOutStatus", () => {
+  const rules = { ...DEFAULT_ATTENDANCE_RULES, minPresencePercent: 75 };
+  const checkIn = { status: "ON_TIME" as const, checkInTime: at(-10) };
+
+  it("keeps the check-in status when there's no minimum presence", () => {
+    expect(checkOutStatus(DEFAULT_ATTENDANCE_RULES, { start, end }, checkIn, at(10))).toBe("ON_TIME");
+  });
+
+  it("marks athletes who leave before the minimum as LEFT_EARLY", () => {
+    expect(checkOutStatus(rules, { start, end }, checkIn, at(60))).toBe("LEFT_EARLY");
+    expect(checkOutStatus(rules, { start, end }, checkIn, at(90))).toBe("ON_TIME");
+  });
+
+  it("only counts presence from the start for early arrivals", () => {
+    expect(checkOutStatus(rules, { start, end }, { status: "ON_TIME", checkInTime: at(-60) }, at(80))).toBe(
+      "LEFT_EARLY"
+    );
+  });
+
+  it("counts a late arrival's presence from when they checked in", () => {
+    expect(checkOutStatus(rules, { start, end }, { status: "LATE", checkInTime: at(40) }, end)).toBe("LEFT_EARLY");
+    expect(checkOutStatus(rules, { start, end }, { status: "LATE", checkInTime: at(30) }, end)).toBe("LATE");
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { findOverlaps, rangesOverlap } from "../conflicts.js";
+
+const day = (iso: string) => new Date(`${iso}T12:00:00.000Z`);
+const at = (iso: string) => new Date(iso);
+
+const booked = (id: string, iso: string, startTime: string, endTime: string, timeZone = "America/Toronto") => ({
+  id,
+  date: day(iso),
+  startTime,
+  endTime,
+  timeZone,
+});
+
+describe("rangesOverlap", () => {
+  it("treats back-to-back ranges as free", () => {
+    const a = { start: at("2026-03-10T17:00:00Z"), end: at("2026-03-10T18:00:00Z") };
+    const b = { start: at("2026-03-10T18:00:00Z"), end: at("2026-03-10T19:00:00Z") };
+    expect(rangesOverlap(a, b)).toBe(false);
+    expect(rangesOverlap(a, { ...b, start: at("2026-03-10T17:59:00Z") })).toBe(true);
+  });
+});
+
+describe("findOverlaps", () => {
+  const slot = { date: day("2026-03-10"), startTime: "6:00 PM", endTime: "8:00 PM" };
+
+  it("pairs a slot with the events it overlaps", () => {
+    const existing = [
+      booked("early", "2026-03-10", "4:00 PM", "6:00 PM"),
+      booked("clash", "2026-03-10", "7:00 PM", "9:00 PM"),
+      booked("other-day", "2026-03-11", "6:00 PM", "8:00 PM"),
+    ];
+    const overlaps = findOverlaps([slot], "America/Toronto", existing);
+    expect(overlaps.map((o) => o.event.id)).toEqual(["clash"]);
+    expect(overlaps[0].slot).toBe(slot);
+  });
+
+  it("compares events in their own time zones", () => {
+    // 6 PM Toronto is 3 PM Vancouver
+    const existing = [booked("west", "2026-03-10", "3:30 PM", "4:30 PM", "America/Vancouver")];
+    expect(findOverlaps([slot], "America/Toronto", existing)).toHaveLength(1);
+    expect(findOverlaps([slot], "America/Vancouver", existing)).toHaveLength(0);
+  });
+
+  it("blocks the whole day for all-day and multi-day events", () => {
+    const tournament = {
+      ...booked("tourney", "2026-03-09", "All Day", "All Day"),
+      endDate: day("2026-03-11"),
+    };
+    expect(findOverlaps([slot], "America/Toronto", [tournament])).toHaveLength(1);
+  });
+
+  it("reports each clashing occurrence of a series", () => {
+    const weekly = [slot, { ...slot, date: day("2026-03-17") }, { ...slot, date: day("2026-03-24") }];
+    const existing = [booked("a", "2026-03-17", "5:00 PM", "6:30 PM")];
+    const overlaps = findOverlaps(weekly, "America/Toronto", existing);
+    expect(overlaps.map((o) => o.slot.date)).toEqual([day("2026-03-17")]);
+  });
+});
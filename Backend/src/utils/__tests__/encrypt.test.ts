@@ -1,5 +1,5 @@
-import { describe, it, expect, beforeEach } from "vitest";
-import { encrypt, decrypt } from "../encrypt.js";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { LEGACY_KEY_ID, currentKeyId, decrypt, encrypt, needsReencryption, reencrypt } from "../encrypt.js";
 
 describe("encrypt / decrypt", () => {
   beforeEach(() => {
@@ -45,3 +45,78 @@ describe("encrypt / decrypt", () => {
     expect(() => decrypt("not-valid-base64!!")).toThrow();
   });
 });
+
+describe("key rotation", () => {
+  const KEY_1 = "1".repeat(64);
+  const KEY_2 = "2".repeat(64);
+
+  beforeEach(() => {
+    delete process.env.ENCRYPTION_KEY;
+    delete process.env.ENCRYPTION_KEY_ID;
+    process.env.ENCRYPTION_KEYS = `k1:${KEY_1}`;
+  });
+
+  afterEach(() => {
+    delete process.env.ENCRYPTION_KEYS;
+    delete process.env.ENCRYPTION_KEY_ID;
+  });
+
+  it("prefixes ciphertext with the current key id", () => {
+    expect(encrypt("hello")).toMatch(/^k1:/);
+    expect(currentKeyId()).toBe("k1");
+  });
+
+  it("decrypts values written with an older key after rotating", () => {
+    const old = encrypt("allergy: peanuts");
+    process.env.ENCRYPTION_KEYS = `k2:${KEY_2},k1:${KEY_1}`;
+    expect(encrypt("x")).toMatch(/^k2:/);
+    expect(decrypt(old)).toBe("allergy: peanuts");
+  });
+
+  it("honours ENCRYPTION_KEY_ID over the order of the keys", () => {
+    process.env.ENCRYPTION_KEYS = `k2:${KEY_2},k1:${KEY_1}`;
+    process.env.ENCRYPTION_KEY_ID = "k1";
+    expect(encrypt("x")).toMatch(/^k1:/);
+  });
+
+  it("throws for a key id that is no longer configured", () => {
+    const old = encrypt("secret");
+    process.env.ENCRYPTION_KEYS = `k2:${KEY_2}`;
+    expect(() => decrypt(old)).toThrow(/Unknown encryption key id "k1"/);
+  });
+
+  it("decrypts bare payloads written with the legacy ENCRYPTION_KEY", () => {
+    delete process.env.ENCRYPTION_KEYS;
+    process.env.ENCRYPTION_KEY = KEY_1;
+    const legacy = encrypt("insurance: 12345").slice(`${LEGACY_KEY_ID}:`.length);
+    process.env.ENCRYPTION_KEYS = `k2:${KEY_2}`;
+    expect(decrypt(legacy)).toBe("insurance: 12345");
+  });
+
+  it("flags plaintext, legacy and old-key values for re-encryption", () => {
+    const old = encrypt("x");
+    process.env.ENCRYPTION_KEYS = `k2:${KEY_2},k1:${KEY_1}`;
+    expect(needsReencryption(old)).toBe(true);
+    expect(needsReencryption("plain text")).toBe(true);
+    expect(needsReencryption(encrypt("x"))).toBe(false);
+    expect(needsReencryption(null)).toBe(false);
+  });
+
+  it("re-encrypts old ciphertext and plaintext with the current key", () => {
+    const old = encrypt("medication: insulin");
+    process.env.ENCRYPTION_KEYS = `k2:${KEY_2},k1:${KEY_1}`;
+
+    const rotated = reencrypt(old);
+    expect(rotated).toMatch(/^k2:/);
+    expect(decrypt(rotated)).toBe("medication: insulin");
+
+    const fromPlain = reencrypt("note: bring inhaler");
+    expect(decrypt(fromPlain)).toBe("note: bring inhaler");
+  });
+
+  it("refuses to re-encrypt ciphertext for an unknown key", () => {
+    const old = encrypt("secret");
+    process.env.ENCRYPTION_KEYS = `k2:${KEY_2}`;
+    expect(() => reencrypt(old)).toThrow();
+  });
+});
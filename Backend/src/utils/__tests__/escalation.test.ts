@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import type { AttendanceStatus } from "@prisma/client";
+import { MIN_RATED_EVENTS, evaluateEscalation, type AttendanceRecord } from "../escalation.js";
+
+const now = new Date("2026-10-19T20:00:00Z");
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+const record = (status: AttendanceStatus, days: number): AttendanceRecord => ({
+  status,
+  eventDate: daysAgo(days),
+  recordedAt: daysAgo(days),
+});
+
+describe("evaluateEscalation — ABSENCES_IN_PERIOD", () => {
+  const rule = { trigger: "ABSENCES_IN_PERIOD" as const, threshold: 3, periodDays: 30 };
+
+  it("fires once enough absences fall inside the period", () => {
+    const records = [record("ABSENT", 2), record("ON_TIME", 5), record("ABSENT", 10), record("ABSENT", 29)];
+    expect(evaluateEscalation(rule, records, { now, lastFiredAt: null })).toBe("3 absences in the last 30 days");
+  });
+
+  it("ignores absences older than the period", () => {
+    const records = [record("ABSENT", 2), record("ABSENT", 10), record("ABSENT", 45)];
+    expect(evaluateEscalation(rule, records, { now, lastFiredAt: null })).toBeNull();
+  });
+
+  it("only counts absences recorded since the rule last fired", () => {
+    const records = [record("ABSENT", 2), record("ABSENT", 10), record("ABSENT", 20)];
+    expect(evaluateEscalation(rule, records, { now, lastFiredAt: daysAgo(15) })).toBeNull();
+  });
+});
+
+describe("evaluateEscalation — LATE_STREAK", () => {
+  const rule = { trigger: "LATE_STREAK" as const, threshold: 3, periodDays: null };
+
+  it("fires on consecutive late arrivals, skipping excused events", () => {
+    const records = [record("LATE", 1), record("EXCUSED", 3), record("LATE", 5), record("LATE", 7), record("ON_TIME", 9)];
+    expect(evaluateEscalation(rule, records, { now, lastFiredAt: null })).toBe("3 late arrivals in a row");
+  });
+
+  it("is broken by the most recent on-time arrival", () => {
+    const records = [record("ON_TIME", 1), record("LATE", 3), record("LATE", 5), record("LATE", 7)];
+    expect(evaluateEscalation(rule, records, { now, lastFiredAt: null })).toBeNull();
+  });
+});
+
+describe("evaluateEscalation — ATTENDANCE_BELOW", () => {
+  const rule = { trigger: "ATTENDANCE_BELOW" as const, threshold: 75, periodDays: null };
+  const season = { name: "Fall 2026", start: new Date("2026-09-01T00:00:00Z"), end: new Date("2026-12-31T23:59:59Z") };
+  const records = [
+    record("ON_TIME", 1),
+    record("ABSENT", 3),
+    record("LATE", 5),
+    record("LEFT_EARLY", 7),
+    record("ON_TIME", 9),
+    record("ABSENT", 90),
+  ];
+
+  it("fires when the season's attendance rate is under the threshold", () => {
+    expect(evaluateEscalation(rule, records, { now, lastFiredAt: null, season })).toBe("60% attendance in Fall 2026");
+  });
+
+  it("waits for enough events before judging the rate", () => {
+    const early = records.slice(0, MIN_RATED_EVENTS - 1);
+    expect(evaluateEscalation(rule, early, { now, lastFiredAt: null, season })).toBeNull();
+  });
+
+  it("fires at most once per season", () => {
+    expect(evaluateEscalation(rule, records, { now, lastFiredAt: daysAgo(20), season })).toBeNull();
+    expect(evaluateEscalation(rule, records, { now, lastFiredAt: new Date("2026-06-01T00:00:00Z"), season })).toBe(
+      "60% attendance in Fall 2026"
+    );
+  });
+});
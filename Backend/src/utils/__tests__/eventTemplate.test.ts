@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { applyEventTemplate } from "../eventTemplate.js";
+
+const template = {
+  title: "Team Practice",
+  type: "PRACTICE" as const,
+  durationMinutes: 90,
+  teamId: "team-1",
+  venueId: "venue-1",
+  location: null,
+  description: "Bring both kits",
+  reminderMinutes: 60,
+  includedAthleteIds: ["guest-1"],
+  excludedAthleteIds: [],
+  staffUserIds: ["coach-1"],
+};
+
+describe("applyEventTemplate", () => {
+  it("fills missing fields and derives the end time from the duration", () => {
+    const filled = applyEventTemplate(template, { startTime: "5:30 PM", organizationId: "org-1" });
+    expect(filled).toMatchObject({
+      title: "Team Practice",
+      type: "PRACTICE",
+      endTime: "7:00 PM",
+      teamId: "team-1",
+      venueId: "venue-1",
+      location: undefined,
+      description: "Bring both kits",
+      reminderMinutes: 60,
+      includedUserIds: ["guest-1"],
+      staffUserIds: ["coach-1"],
+      organizationId: "org-1",
+    });
+  });
+
+  it("lets the scheduler's own values win, including clearing the reminder", () => {
+    const filled = applyEventTemplate(template, {
+      title: "Extra Practice",
+      startTime: "5:30 PM",
+      endTime: "6:00 PM",
+      reminderMinutes: null,
+      staffUserIds: [],
+    });
+    expect(filled).toMatchObject({ title: "Extra Practice", endTime: "6:00 PM", reminderMinutes: null, staffUserIds: [] });
+  });
+
+  it("rejects a template for another team", () => {
+    expect(() => applyEventTemplate(template, { startTime: "5:30 PM", teamId: "team-2" })).toThrow("another team");
+  });
+
+  it("rejects a duration that runs past midnight", () => {
+    expect(() => applyEventTemplate(template, { startTime: "11:00 PM" })).toThrow("past midnight");
+  });
+
+  it("requires title, type and end time without a template", () => {
+    expect(() => applyEventTemplate(null, { startTime: "5:30 PM", type: "PRACTICE" })).toThrow("Title and type");
+    expect(() => applyEventTemplate(null, { title: "Practice", type: "PRACTICE", startTime: "5:30 PM" })).toThrow(
+      "End time is required"
+    );
+  });
+});
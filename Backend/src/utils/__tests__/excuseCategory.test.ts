@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { applyCategoryRules } from "../excuseCategory.js";
+
+const category = (overrides: Partial<NonNullable<Parameters<typeof applyCategoryRules>[0]>> = {}) => ({
+  name: "Illness",
+  autoApprove: "NEVER" as const,
+  requiresAttachment: false,
+  isActive: true,
+  ...overrides,
+});
+
+describe("applyCategoryRules", () => {
+  it("leaves uncategorised excuses for a coach", () => {
+    expect(applyCategoryRules(null, 0)).toBe(false);
+  });
+
+  it("auto-approves ALWAYS categories", () => {
+    expect(applyCategoryRules(category({ autoApprove: "ALWAYS" }), 0)).toBe(true);
+  });
+
+  it("auto-approves WITH_ATTACHMENT categories only when a document is attached", () => {
+    expect(applyCategoryRules(category({ autoApprove: "WITH_ATTACHMENT" }), 0)).toBe(false);
+    expect(applyCategoryRules(category({ autoApprove: "WITH_ATTACHMENT" }), 1)).toBe(true);
+  });
+
+  it("rejects categories that need a document when none is attached", () => {
+    expect(() => applyCategoryRules(category({ name: "Injury", requiresAttachment: true }), 0)).toThrow(
+      "Injury excuses need a supporting document"
+    );
+  });
+
+  it("rejects inactive categories", () => {
+    expect(() => applyCategoryRules(category({ isActive: false }), 0)).toThrow("no longer available");
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { formatRecord, formatResultLine, gameResult, summarizeRecord } from "../gameRecord.js";
+
+describe("gameResult", () => {
+  it("compares the team's score with the opponent's", () => {
+    expect(gameResult({ teamScore: 3, opponentScore: 1 })).toBe("WIN");
+    expect(gameResult({ teamScore: 0, opponentScore: 2 })).toBe("LOSS");
+    expect(gameResult({ teamScore: 2, opponentScore: 2 })).toBe("DRAW");
+  });
+
+  it("has no result until both scores are entered", () => {
+    expect(gameResult({ teamScore: 3, opponentScore: null })).toBeNull();
+    expect(gameResult({ teamScore: null, opponentScore: null })).toBeNull();
+  });
+});
+
+describe("summarizeRecord", () => {
+  it("totals wins, losses, draws and goal differential", () => {
+    const record = summarizeRecord([
+      { teamScore: 3, opponentScore: 1 },
+      { teamScore: 0, opponentScore: 2 },
+      { teamScore: 1, opponentScore: 1 },
+      { teamScore: 4, opponentScore: 0 },
+    ]);
+    expect(record).toEqual({
+      played: 4,
+      wins: 2,
+      losses: 1,
+      draws: 1,
+      goalsFor: 8,
+      goalsAgainst: 4,
+      goalDifferential: 4,
+    });
+    expect(formatRecord(record)).toBe("2-1-1");
+  });
+
+  it("skips games that haven't been scored", () => {
+    const record = summarizeRecord([{ teamScore: 1, opponentScore: 2 }, { teamScore: null, opponentScore: null }]);
+    expect(record.played).toBe(1);
+    expect(record.goalDifferential).toBe(-1);
+  });
+});
+
+describe("formatResultLine", () => {
+  it("describes home and away results", () => {
+    expect(formatResultLine({ teamScore: 3, opponentScore: 1, homeAway: "HOME", opponentName: "Eagles" })).toBe(
+      "W 3-1 vs Eagles"
+    );
+    expect(formatResultLine({ teamScore: 0, opponentScore: 2, homeAway: "AWAY", opponentName: "Hawks" })).toBe(
+      "L 0-2 @ Hawks"
+    );
+  });
+
+  it("returns null for unscored games", () => {
+    expect(formatResultLine({ teamScore: null, opponentScore: null, homeAway: null, opponentName: "Hawks" })).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildVCalendar,
+  buildVEvent,
+  buildVTimezone,
+  escapeICalText,
+  formatEventLocation,
+  type ICalEvent,
+} from "../ical.js";
+
+const stamp = new Date("2026-03-01T00:00:00Z");
+
+const practice: ICalEvent = {
+  id: "evt1",
+  title: "Practice",
+  date: new Date("2026-03-10T12:00:00Z"),
+  startTime: "6:00 PM",
+  endTime: "8:00 PM",
+  timeZone: "America/New_York",
+};
+
+describe("escapeICalText", () => {
+  it("escapes backslashes, semicolons, commas and newlines", () => {
+    expect(escapeICalText("a\\b;c,d\ne")).toBe("a\\\\b\\;c\\,d\\ne");
+  });
+});
+
+describe("buildVEvent", () => {
+  it("emits UTC start/end computed in the event's time zone", () => {
+    const lines = buildVEvent(practice, stamp).split("\r\n");
+    expect(lines).toContain("DTSTART:20260310T220000Z");
+    expect(lines).toContain("DTEND:20260311T000000Z");
+  });
+
+  it("uses a stable UID and the event sequence", () => {
+    const lines = buildVEvent({ ...practice, sequence: 3 }, stamp).split("\r\n");
+    expect(lines).toContain("UID:event-evt1@athletiq.app");
+    expect(lines).toContain("SEQUENCE:3");
+    expect(lines).toContain("STATUS:CONFIRMED");
+  });
+
+  it("defaults SEQUENCE to 0", () => {
+    expect(buildVEvent(practice, stamp)).toContain("SEQUENCE:0");
+  });
+
+  it("marks cancelled events", () => {
+    expect(buildVEvent({ ...practice, status: "CANCELLED" }, stamp)).toContain("STATUS:CANCELLED");
+  });
+
+  it("marks postponed events as tentative", () => {
+    expect(buildVEvent({ ...practice, status: "POSTPONED" }, stamp)).toContain("STATUS:TENTATIVE");
+  });
+
+  it("emits exclusive date-only bounds for all-day events", () => {
+    const lines = buildVEvent(
+      { ...practice, startTime: "All Day", endTime: "All Day", endDate: new Date("2026-03-12T12:00:00Z") },
+      stamp
+    ).split("\r\n");
+    expect(lines).toContain("DTSTART;VALUE=DATE:20260310");
+    expect(lines).toContain("DTEND;VALUE=DATE:20260313");
+  });
+
+  it("writes a series master with its RRULE verbatim in local time", () => {
+    const lines = buildVEvent(
+      {
+        ...practice,
+        uid: "series-s1@athletiq.app",
+        rrule: "FREQ=MONTHLY;BYDAY=2SA;UNTIL=20261231T235959Z",
+        exdates: [new Date("2026-04-11T22:00:00Z")],
+      },
+      stamp
+    ).split("\r\n");
+    expect(lines).toContain("UID:series-s1@athletiq.app");
+    expect(lines).toContain("DTSTART;TZID=America/New_York:20260310T180000");
+    expect(lines).toContain("DTEND;TZID=America/New_York:20260310T200000");
+    expect(lines).toContain("RRULE:FREQ=MONTHLY;BYDAY=2SA;UNTIL=20261231T235959Z");
+    expect(lines).toContain("EXDATE:20260411T220000Z");
+  });
+
+  it("marks overrides of a series instance with RECURRENCE-ID", () => {
+    const vevent = buildVEvent({ ...practice, recurrenceId: new Date("2026-03-10T22:00:00Z") }, stamp);
+    expect(vevent).toContain("RECURRENCE-ID:20260310T220000Z");
+    expect(vevent).not.toContain("RRULE:");
+  });
+
+  it("omits empty location and description", () => {
+    const vevent = buildVEvent({ ...practice, location: "", description: null }, stamp);
+    expect(vevent).not.toContain("LOCATION:");
+    expect(vevent).not.toContain("DESCRIPTION:");
+  });
+});
+
+describe("buildVCalendar", () => {
+  it("wraps events with calendar name and time zone headers", () => {
+    const ics = buildVCalendar([practice], { name: "Lions, U12", timeZone: "America/New_York", stamp });
+    const lines = ics.split("\r\n");
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(lines).toContain("X-WR-CALNAME:Lions\\, U12");
+    expect(lines).toContain("X-WR-TIMEZONE:America/New_York");
+    expect(lines.filter((l) => l === "BEGIN:VEVENT")).toHaveLength(1);
+    expect(lines[lines.length - 1]).toBe("END:VCALENDAR");
+    expect(lines).not.toContain("BEGIN:VTIMEZONE");
+  });
+
+  it("defines each zone a series master anchors its local times to", () => {
+    const master = { ...practice, rrule: "FREQ=WEEKLY;BYDAY=TU;UNTIL=20261231T235959Z" };
+    const lines = buildVCalendar([master, { ...master, id: "evt2" }], { stamp }).split("\r\n");
+    expect(lines.filter((l) => l === "BEGIN:VTIMEZONE")).toHaveLength(1);
+    expect(lines).toContain("TZID:America/New_York");
+    expect(lines.indexOf("BEGIN:VTIMEZONE")).toBeLessThan(lines.indexOf("BEGIN:VEVENT"));
+  });
+});
+
+describe("buildVTimezone", () => {
+  it("describes each DST change in the range as an observance", () => {
+    const lines = buildVTimezone(
+      "America/New_York",
+      new Date("2026-03-01T00:00:00Z"),
+      new Date("2026-12-31T00:00:00Z")
+    ).split("\r\n");
+    expect(lines).toEqual([
+      "BEGIN:VTIMEZONE",
+      "TZID:America/New_York",
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      "TZOFFSETFROM:-0500",
+      "TZOFFSETTO:-0500",
+      "END:STANDARD",
+      "BEGIN:DAYLIGHT",
+      "DTSTART:20260308T020000",
+      "TZOFFSETFROM:-0500",
+      "TZOFFSETTO:-0400",
+      "END:DAYLIGHT",
+      "BEGIN:STANDARD",
+      "DTSTART:20261101T020000",
+      "TZOFFSETFROM:-0400",
+      "TZOFFSETTO:-0500",
+      "END:STANDARD",
+      "END:VTIMEZONE",
+    ]);
+  });
+
+  it("handles zones without DST and half-hour offsets", () => {
+    const lines = buildVTimezone("Asia/Kolkata", new Date("2026-01-01T00:00:00Z"), new Date("2027-01-01T00:00:00Z"));
+    expect(lines).toContain("TZOFFSETTO:+0530");
+    expect(lines.match(/BEGIN:STANDARD/g)).toHaveLength(1);
+  });
+});
+
+describe("formatEventLocation", () => {
+  it("prefers the venue over the free-text location", () => {
+    expect(
+      formatEventLocation({ location: "Gym", venue: { name: "Main Arena", address: null, city: "Toronto", country: "Canada" } })
+    ).toBe("Main Arena, Toronto, Canada");
+  });
+
+  it("falls back to the location string", () => {
+    expect(formatEventLocation({ location: "Gym", venue: null })).toBe("Gym");
+    expect(formatEventLocation({})).toBe("");
+  });
+});
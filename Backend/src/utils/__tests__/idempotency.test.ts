@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { HeaderMap } from "@apollo/server";
+import { Prisma } from "@prisma/client";
+
+vi.mock("../../db.js", () => ({
+  prisma: {
+    idempotencyKey: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      delete: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+import { idempotencyPlugin } from "../idempotency.js";
+import { prisma } from "../../db.js";
+
+const mockCreate = vi.mocked(prisma.idempotencyKey.create);
+const mockFindUnique = vi.mocked(prisma.idempotencyKey.findUnique);
+const mockUpdate = vi.mocked(prisma.idempotencyKey.update);
+const mockUpdateMany = vi.mocked(prisma.idempotencyKey.updateMany);
+const mockDelete = vi.mocked(prisma.idempotencyKey.delete);
+
+const uniqueViolation = () =>
+  new Prisma.PrismaClientKnownRequestError("Unique constraint failed", { code: "P2002", clientVersion: "test" });
+
+/** Run the plugin's hooks the way Apollo does for one request. */
+async function startRequest(opts: { key?: string; userId?: string; operation?: "mutation" | "query" }) {
+  const headers = new HeaderMap();
+  if (opts.key) headers.set("idempotency-key", opts.key);
+  const listener = await idempotencyPlugin().requestDidStart!({
+    request: { http: { headers } },
+    contextValue: { userId: opts.userId },
+  } as any);
+  const responseForOperation = () =>
+    listener!.responseForOperation!({
+      operation: { operation: opts.operation ?? "mutation" },
+      operationName: "UpsertRsvp",
+    } as any);
+  const executionDidStart = () => listener!.executionDidStart!({} as any);
+  const willSendResponse = (singleResult: object) =>
+    listener!.willSendResponse!({ response: { body: { kind: "single", singleResult } } } as any);
+  return { listener, responseForOperation, executionDidStart, willSendResponse };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("idempotencyPlugin", () => {
+  it("ignores requests without a key or user", async () => {
+    expect((await startRequest({ userId: "u1" })).listener).toBeUndefined();
+    expect((await startRequest({ key: "k1" })).listener).toBeUndefined();
+  });
+
+  it("leaves queries alone", async () => {
+    const { responseForOperation } = await startRequest({ key: "k1", userId: "u1", operation: "query" });
+    expect(await responseForOperation()).toBeNull();
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it("claims a new key and stores the successful result", async () => {
+    mockCreate.mockResolvedValue({ id: "claim-1" } as any);
+    const { responseForOperation, executionDidStart, willSendResponse } = await startRequest({
+      key: "k1",
+      userId: "u1",
+    });
+
+    expect(await responseForOperation()).toBeNull();
+    await executionDidStart();
+    await willSendResponse({ data: { upsertRsvp: { id: "r1" } } });
+
+    expect(mockCreate).toHaveBeenCalledWith({ data: { userId: "u1", key: "k1", operationName: "UpsertRsvp" } });
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: "claim-1" },
+      data: { response: { data: { upsertRsvp: { id: "r1" } } } },
+    });
+  });
+
+  it("stores a result with errors once the mutation has run, since it may have written", async () => {
+    mockCreate.mockResolvedValue({ id: "claim-1" } as any);
+    const { responseForOperation, executionDidStart, willSendResponse } = await startRequest({
+      key: "k1",
+      userId: "u1",
+    });
+    const partial = { data: { upsertRsvp: null }, errors: [{ message: "Internal server error" }] };
+
+    await responseForOperation();
+    await executionDidStart();
+    await willSendResponse(partial);
+
+    expect(mockUpdate).toHaveBeenCalledWith({ where: { id: "claim-1" }, data: { response: partial } });
+    expect(mockDelete).not.toHaveBeenCalled();
+  });
+
+  it("releases the key when execution never started so it can be retried", async () => {
+    mockCreate.mockResolvedValue({ id: "claim-1" } as any);
+    const { responseForOperation, willSendResponse } = await startRequest({ key: "k1", userId: "u1" });
+
+    await responseForOperation();
+    await willSendResponse({ errors: [{ message: "Internal server error" }] });
+
+    expect(mockDelete).toHaveBeenCalledWith({ where: { id: "claim-1" } });
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it("replays the stored result for a repeated key", async () => {
+    const stored = { data: { upsertRsvp: { id: "r1" } } };
+    mockCreate.mockRejectedValue(uniqueViolation());
+    mockFindUnique.mockResolvedValue({ id: "claim-1", operationName: "UpsertRsvp", response: stored } as any);
+    const { responseForOperation, willSendResponse } = await startRequest({ key: "k1", userId: "u1" });
+
+    const response = await responseForOperation();
+    await willSendResponse(stored);
+
+    expect(response?.body).toEqual({ kind: "single", singleResult: stored });
+    expect(response?.http.headers.get("idempotent-replayed")).toBe("true");
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it("refuses a key reused for another mutation", async () => {
+    mockCreate.mockRejectedValue(uniqueViolation());
+    mockFindUnique.mockResolvedValue({ id: "claim-1", operationName: "NfcCheckIn", response: {} } as any);
+    const { responseForOperation } = await startRequest({ key: "k1", userId: "u1" });
+
+    const response = await responseForOperation();
+    expect(response?.body).toMatchObject({
+      singleResult: { errors: [{ extensions: { code: "IDEMPOTENCY_KEY_REUSED" } }] },
+    });
+  });
+
+  it("reports a request that is still running", async () => {
+    mockCreate.mockRejectedValue(uniqueViolation());
+    mockFindUnique.mockResolvedValue({
+      id: "claim-1",
+      operationName: "UpsertRsvp",
+      response: null,
+      createdAt: new Date(),
+    } as any);
+    const { responseForOperation } = await startRequest({ key: "k1", userId: "u1" });
+
+    const response = await responseForOperation();
+    expect(response?.body).toMatchObject({
+      singleResult: { errors: [{ extensions: { code: "IDEMPOTENCY_IN_PROGRESS" } }] },
+    });
+    expect(mockUpdateMany).not.toHaveBeenCalled();
+  });
+
+  it("takes over a claim abandoned by a crashed request", async () => {
+    mockCreate.mockRejectedValue(uniqueViolation());
+    mockFindUnique.mockResolvedValue({
+      id: "claim-1",
+      operationName: "UpsertRsvp",
+      response: null,
+      createdAt: new Date(Date.now() - 10 * 60 * 1000),
+    } as any);
+    mockUpdateMany.mockResolvedValue({ count: 1 });
+    const { responseForOperation, executionDidStart, willSendResponse } = await startRequest({
+      key: "k1",
+      userId: "u1",
+    });
+
+    expect(await responseForOperation()).toBeNull();
+    await executionDidStart();
+    await willSendResponse({ data: { upsertRsvp: { id: "r1" } } });
+    expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({ where: { id: "claim-1" } }));
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAX_LOOKBACK_MINUTES,
+  MAX_RETRY_DELAY_MS,
+  catchUpLookbackMinutes,
+  cronSlot,
+  retryDelayMs,
+} from "../jobScheduler.js";
+
+describe("retryDelayMs", () => {
+  it("doubles the delay for each failed attempt", () => {
+    expect(retryDelayMs(1)).toBe(30_000);
+    expect(retryDelayMs(2)).toBe(60_000);
+    expect(retryDelayMs(3)).toBe(120_000);
+  });
+
+  it("caps the delay", () => {
+    expect(retryDelayMs(20)).toBe(MAX_RETRY_DELAY_MS);
+  });
+});
+
+describe("cronSlot", () => {
+  it("puts ticks from different tasks in the same minute into one slot", () => {
+    const a = cronSlot(new Date("2026-10-19T08:05:00.120Z"));
+    const b = cronSlot(new Date("2026-10-19T08:05:02.900Z"));
+    expect(a.toISOString()).toBe("2026-10-19T08:05:00.000Z");
+    expect(b.getTime()).toBe(a.getTime());
+  });
+});
+
+describe("catchUpLookbackMinutes", () => {
+  const now = new Date("2026-10-19T20:00:00Z");
+  const minutesAgo = (m: number) => new Date(now.getTime() - m * 60 * 1000);
+
+  it("looks back the full window when the job has never succeeded", () => {
+    expect(catchUpLookbackMinutes(null, 30, now)).toBe(MAX_LOOKBACK_MINUTES);
+  });
+
+  it("keeps the minimum lookback for regular runs", () => {
+    expect(catchUpLookbackMinutes(minutesAgo(5), 30, now)).toBe(30);
+  });
+
+  it("reaches back past downtime since the last successful run", () => {
+    expect(catchUpLookbackMinutes(minutesAgo(180), 30, now)).toBe(185);
+    expect(catchUpLookbackMinutes(minutesAgo(30 * 24 * 60), 30, now)).toBe(MAX_LOOKBACK_MINUTES);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { guardiansToCopy, isMinor } from "../messaging.js";
+
+const asOf = new Date("2026-10-19T12:00:00Z");
+
+const coach = { userId: "coach", dateOfBirth: new Date("1985-04-02"), isStaff: true };
+const minor = { userId: "kid", dateOfBirth: new Date("2012-06-01"), isStaff: false };
+const adult = { userId: "senior", dateOfBirth: new Date("2004-01-15"), isStaff: false };
+
+describe("isMinor", () => {
+  it("turns adult on the 18th birthday", () => {
+    expect(isMinor(new Date("2008-10-20"), asOf)).toBe(true);
+    expect(isMinor(new Date("2008-10-19"), asOf)).toBe(false);
+  });
+
+  it("is false without a birth date", () => {
+    expect(isMinor(null, asOf)).toBe(false);
+  });
+});
+
+describe("guardiansToCopy", () => {
+  const links = [
+    { guardianId: "mom", athleteId: "kid" },
+    { guardianId: "dad", athleteId: "kid" },
+    { guardianId: "parent", athleteId: "senior" },
+  ];
+
+  it("copies every guardian of a minor on a coach thread", () => {
+    expect(guardiansToCopy([coach, minor], links, asOf).sort()).toEqual(["dad", "mom"]);
+  });
+
+  it("leaves adults' guardians and athlete-only threads alone", () => {
+    expect(guardiansToCopy([coach, adult], links, asOf)).toEqual([]);
+    expect(guardiansToCopy([minor, adult], links, asOf)).toEqual([]);
+  });
+
+  it("treats a guarded athlete without a birth date as a minor", () => {
+    const unknownAge = { userId: "kid", dateOfBirth: null, isStaff: false };
+    expect(guardiansToCopy([coach, unknownAge], links, asOf).sort()).toEqual(["dad", "mom"]);
+  });
+
+  it("skips guardians already on the thread", () => {
+    const mom = { userId: "mom", dateOfBirth: null, isStaff: false };
+    expect(guardiansToCopy([coach, minor, mom], links, asOf)).toEqual(["dad"]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { resolveOfflineTapTime } from "../offlineTap.js";
+
+const serverNow = new Date("2026-10-19T18:00:00Z");
+
+describe("resolveOfflineTapTime", () => {
+  it("keeps the tap time when the device clock agrees with the server", () => {
+    const tap = { tappedAt: "2026-10-19T15:55:00Z", deviceNow: "2026-10-19T18:00:00Z" };
+    expect(resolveOfflineTapTime(tap, serverNow).toISOString()).toBe("2026-10-19T15:55:00.000Z");
+  });
+
+  it("corrects for a device clock that runs fast or slow", () => {
+    // Device is 7 minutes fast: it thought the tap was at 16:02
+    const fast = { tappedAt: "2026-10-19T16:02:00Z", deviceNow: "2026-10-19T18:07:00Z" };
+    expect(resolveOfflineTapTime(fast, serverNow).toISOString()).toBe("2026-10-19T15:55:00.000Z");
+
+    const slow = { tappedAt: "2026-10-19T15:50:00Z", deviceNow: "2026-10-19T17:55:00Z" };
+    expect(resolveOfflineTapTime(slow, serverNow).toISOString()).toBe("2026-10-19T15:55:00.000Z");
+  });
+
+  it("rejects devices whose clock is too far off", () => {
+    const tap = { tappedAt: "2026-10-19T13:00:00Z", deviceNow: "2026-10-19T15:00:00Z" };
+    expect(() => resolveOfflineTapTime(tap, serverNow)).toThrow("device clock is too far off");
+  });
+
+  it("rejects taps from the future", () => {
+    const tap = { tappedAt: "2026-10-19T18:30:00Z", deviceNow: "2026-10-19T18:00:00Z" };
+    expect(() => resolveOfflineTapTime(tap, serverNow)).toThrow("in the future");
+  });
+
+  it("clamps small latency overshoots to the server time", () => {
+    const tap = { tappedAt: "2026-10-19T18:00:30Z", deviceNow: "2026-10-19T18:00:00Z" };
+    expect(resolveOfflineTapTime(tap, serverNow)).toEqual(serverNow);
+  });
+
+  it("rejects taps older than the sync window", () => {
+    const tap = { tappedAt: "2026-10-18T17:00:00Z", deviceNow: "2026-10-19T18:00:00Z" };
+    expect(() => resolveOfflineTapTime(tap, serverNow)).toThrow("older than 24 hours");
+  });
+
+  it("rejects unparseable timestamps", () => {
+    expect(() => resolveOfflineTapTime({ tappedAt: "yesterday", deviceNow: "2026-10-19T18:00:00Z" }, serverNow)).toThrow(
+      "Validation error"
+    );
+  });
+});
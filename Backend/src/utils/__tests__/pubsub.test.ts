@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { InMemoryPubSub, withFilter } from "../pubsub.js";
+
+describe("InMemoryPubSub", () => {
+  it("buffers payloads published before the consumer asks for them", async () => {
+    const pubsub = new InMemoryPubSub();
+    const sub = pubsub.subscribe<number>("scores");
+    await pubsub.publish("scores", 1);
+    await pubsub.publish("scores", 2);
+    expect(await sub.next()).toEqual({ value: 1, done: false });
+    expect(await sub.next()).toEqual({ value: 2, done: false });
+  });
+
+  it("resolves a waiting consumer when a payload arrives", async () => {
+    const pubsub = new InMemoryPubSub();
+    const sub = pubsub.subscribe<string>("scores");
+    const next = sub.next();
+    await pubsub.publish("scores", "goal");
+    expect(await next).toEqual({ value: "goal", done: false });
+  });
+
+  it("only delivers to subscribers of the same topic", async () => {
+    const pubsub = new InMemoryPubSub();
+    const a = pubsub.subscribe<string>("a");
+    await pubsub.publish("b", "ignored");
+    await pubsub.publish("a", "kept");
+    expect(await a.next()).toEqual({ value: "kept", done: false });
+  });
+
+  it("unsubscribes on return() and ends pending reads", async () => {
+    const pubsub = new InMemoryPubSub();
+    const sub = pubsub.subscribe("scores");
+    const pending = sub.next();
+    expect(pubsub.listenerCount("scores")).toBe(1);
+    await sub.return!();
+    expect(pubsub.listenerCount("scores")).toBe(0);
+    expect(await pending).toEqual({ value: undefined, done: true });
+  });
+});
+
+describe("withFilter", () => {
+  it("skips payloads that fail the predicate and unsubscribes when closed", async () => {
+    const pubsub = new InMemoryPubSub();
+    const evens = withFilter(pubsub.subscribe<number>("n"), async (n) => n % 2 === 0);
+    for (const n of [1, 2, 3, 4]) await pubsub.publish("n", n);
+    expect((await evens.next()).value).toBe(2);
+    expect((await evens.next()).value).toBe(4);
+    await evens.return(undefined);
+    expect(pubsub.listenerCount("n")).toBe(0);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { QR_STEP_SECONDS, signQrCheckInCode, verifyQrCheckInCode } from "../qrCheckIn.js";
+
+const issuedAt = new Date("2026-10-19T18:00:05Z");
+const later = (seconds: number) => new Date(issuedAt.getTime() + seconds * 1000);
+
+describe("signQrCheckInCode / verifyQrCheckInCode", () => {
+  beforeEach(() => {
+    process.env.QR_CHECKIN_SECRET = "test-secret";
+  });
+
+  it("accepts a freshly displayed code", () => {
+    const { code } = signQrCheckInCode("event-1", issuedAt);
+    expect(verifyQrCheckInCode(code, issuedAt)).toBe("event-1");
+  });
+
+  it("rotates at the end of the time step", () => {
+    const { code, expiresAt } = signQrCheckInCode("event-1", issuedAt);
+    expect(expiresAt.toISOString()).toBe("2026-10-19T18:00:30.000Z");
+    expect(signQrCheckInCode("event-1", expiresAt).code).not.toBe(code);
+  });
+
+  it("still accepts a code scanned just after it rotated", () => {
+    const { code } = signQrCheckInCode("event-1", issuedAt);
+    expect(verifyQrCheckInCode(code, later(QR_STEP_SECONDS))).toBe("event-1");
+  });
+
+  it("rejects a screenshot scanned a minute later", () => {
+    const { code } = signQrCheckInCode("event-1", issuedAt);
+    expect(() => verifyQrCheckInCode(code, later(2 * QR_STEP_SECONDS))).toThrow("expired");
+  });
+
+  it("rejects a code pointed at another event", () => {
+    const { code } = signQrCheckInCode("event-1", issuedAt);
+    const [, step, sig] = code.split(".");
+    expect(verifyQrCheckInCode(`event-2.${step}.${sig}`, issuedAt)).toBeNull();
+  });
+
+  it("rejects a code signed with another secret", () => {
+    const { code } = signQrCheckInCode("event-1", issuedAt);
+    process.env.QR_CHECKIN_SECRET = "other-secret";
+    expect(verifyQrCheckInCode(code, issuedAt)).toBeNull();
+  });
+
+  it("rejects a code with a future step", () => {
+    const { code } = signQrCheckInCode("event-1", later(10 * QR_STEP_SECONDS));
+    expect(verifyQrCheckInCode(code, issuedAt)).toBeNull();
+  });
+
+  it("ignores things that aren't check-in codes", () => {
+    expect(verifyQrCheckInCode("https://example.com", issuedAt)).toBeNull();
+    expect(verifyQrCheckInCode("event-1.abc.sig", issuedAt)).toBeNull();
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from "vitest";
+import {
+  generateRecurringDates,
+  parseRRule,
+  planSeriesUpdate,
+  withRRuleUntil,
+  type SeriesOccurrence,
+} from "../recurrence.js";
+
+const day = (iso: string) => new Date(`${iso}T12:00:00.000Z`);
+const keys = (dates: Date[]) => dates.map((d) => d.toISOString().slice(0, 10));
+
+const occ = (id: string, iso: string, extra: Partial<SeriesOccurrence> = {}): SeriesOccurrence => ({
+  id,
+  date: day(iso),
+  overriddenFields: [],
+  hasCheckIns: false,
+  ...extra,
+});
+
+describe("generateRecurringDates", () => {
+  it("generates weekly dates on the given days at noon UTC", () => {
+    // 2026-03-02 is a Monday
+    const dates = generateRecurringDates(day("2026-03-02"), day("2026-03-15"), "WEEKLY", [1, 3]);
+    expect(dates.map((d) => d.toISOString())).toEqual([
+      "2026-03-02T12:00:00.000Z",
+      "2026-03-04T12:00:00.000Z",
+      "2026-03-09T12:00:00.000Z",
+      "2026-03-11T12:00:00.000Z",
+    ]);
+  });
+});
+
+describe("generateRecurringDates with an RRULE", () => {
+  const rrule = (rule: string, start: string, end: string, options = {}) =>
+    keys(generateRecurringDates(day(start), day(end), "WEEKLY", [], { rrule: rule, ...options }));
+
+  it("supports BYDAY ordinals (second Saturday of each month)", () => {
+    expect(rrule("FREQ=MONTHLY;BYDAY=2SA", "2026-01-01", "2026-04-30")).toEqual([
+      "2026-01-10",
+      "2026-02-14",
+      "2026-03-14",
+      "2026-04-11",
+    ]);
+  });
+
+  it("supports INTERVAL (every 3 weeks)", () => {
+    expect(rrule("FREQ=WEEKLY;INTERVAL=3;BYDAY=TU", "2026-03-03", "2026-04-30")).toEqual([
+      "2026-03-03",
+      "2026-03-24",
+      "2026-04-14",
+    ]);
+  });
+
+  it("supports BYSETPOS (last weekday of the month)", () => {
+    expect(rrule("FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1", "2026-01-01", "2026-02-28")).toEqual([
+      "2026-01-30",
+      "2026-02-27",
+    ]);
+  });
+
+  it("stops at COUNT and UNTIL", () => {
+    expect(rrule("RRULE:FREQ=DAILY;COUNT=3", "2026-03-01", "2026-12-31")).toEqual([
+      "2026-03-01",
+      "2026-03-02",
+      "2026-03-03",
+    ]);
+    expect(rrule("FREQ=DAILY;UNTIL=20260302T235959Z", "2026-03-01", "2026-12-31")).toEqual([
+      "2026-03-01",
+      "2026-03-02",
+    ]);
+  });
+
+  it("drops EXDATEs and blackout ranges", () => {
+    expect(
+      rrule("FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR", "2026-03-02", "2026-03-13", {
+        exdates: [day("2026-03-04")],
+        blackouts: [{ startDate: day("2026-03-09"), endDate: day("2026-03-13") }],
+      })
+    ).toEqual(["2026-03-02", "2026-03-03", "2026-03-05", "2026-03-06"]);
+  });
+
+  it("applies blackouts to simple frequencies too", () => {
+    const dates = generateRecurringDates(day("2026-03-01"), day("2026-03-05"), "DAILY", [], {
+      blackouts: [{ startDate: day("2026-03-02"), endDate: day("2026-03-03") }],
+    });
+    expect(keys(dates)).toEqual(["2026-03-01", "2026-03-04", "2026-03-05"]);
+  });
+});
+
+describe("parseRRule", () => {
+  it("rejects rules outside the supported subset", () => {
+    expect(() => parseRRule("FREQ=YEARLY")).toThrow(/FREQ must be/);
+    expect(() => parseRRule("FREQ=WEEKLY;BYDAY=2MO")).toThrow(/ordinals are only supported/);
+    expect(() => parseRRule("FREQ=DAILY;COUNT=2;UNTIL=20260101")).toThrow(/cannot both be set/);
+    expect(() => parseRRule("FREQ=MONTHLY;BYMONTHDAY=1")).toThrow(/BYMONTHDAY is not supported/);
+    expect(() => parseRRule("FREQ=DAILY;INTERVAL=0")).toThrow(/INTERVAL=0/);
+  });
+});
+
+describe("withRRuleUntil", () => {
+  it("replaces COUNT/UNTIL with an inclusive UNTIL", () => {
+    expect(withRRuleUntil("RRULE:FREQ=WEEKLY;COUNT=5;BYDAY=MO", day("2026-06-30"))).toBe(
+      "FREQ=WEEKLY;BYDAY=MO;UNTIL=20260630T235959Z"
+    );
+  });
+});
+
+describe("planSeriesUpdate", () => {
+  it("patches every occurrence when the pattern is unchanged", () => {
+    const plan = planSeriesUpdate([occ("a", "2026-03-02"), occ("b", "2026-03-09")], { startTime: "5:00 PM" }, null);
+    expect(plan.update).toEqual([
+      { id: "a", data: { startTime: "5:00 PM" } },
+      { id: "b", data: { startTime: "5:00 PM" } },
+    ]);
+    expect(plan.remove).toEqual([]);
+    expect(plan.create).toEqual([]);
+  });
+
+  it("never touches occurrences that have check-ins", () => {
+    const plan = planSeriesUpdate(
+      [occ("a", "2026-03-02", { hasCheckIns: true })],
+      { title: "New" },
+      [day("2026-03-03")]
+    );
+    expect(plan.update).toEqual([]);
+    expect(plan.remove).toEqual([]);
+    // The kept occurrence still occupies its day, but the new day is created
+    expect(plan.create).toEqual([day("2026-03-03")]);
+  });
+
+  it("keeps fields an occurrence overrides", () => {
+    const plan = planSeriesUpdate(
+      [occ("a", "2026-03-02", { overriddenFields: ["startTime"] })],
+      { startTime: "5:00 PM", venueId: "v1" },
+      null
+    );
+    expect(plan.update).toEqual([{ id: "a", data: { venueId: "v1" } }]);
+  });
+
+  it("skips undefined changes and occurrences with nothing left to patch", () => {
+    const plan = planSeriesUpdate(
+      [occ("a", "2026-03-02", { overriddenFields: ["title"] })],
+      { title: "New", location: undefined },
+      null
+    );
+    expect(plan.update).toEqual([]);
+  });
+
+  it("removes days that drop out and creates new ones when regenerating", () => {
+    const plan = planSeriesUpdate(
+      [occ("mon", "2026-03-02"), occ("wed", "2026-03-04")],
+      {},
+      [day("2026-03-02"), day("2026-03-06")]
+    );
+    expect(plan.remove).toEqual(["wed"]);
+    expect(plan.create).toEqual([day("2026-03-06")]);
+  });
+
+  it("matches moved occurrences by their original day", () => {
+    const plan = planSeriesUpdate(
+      [occ("a", "2026-03-05", { originalDate: day("2026-03-04") })],
+      {},
+      [day("2026-03-04")]
+    );
+    expect(plan.remove).toEqual([]);
+    expect(plan.create).toEqual([]);
+  });
+
+  it("does not recreate deleted occurrences", () => {
+    const plan = planSeriesUpdate([], {}, [day("2026-03-02"), day("2026-03-09")], [day("2026-03-02")]);
+    expect(plan.create).toEqual([day("2026-03-09")]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { parseCsv, parseRosterCsv, teamRoleForOrgRole } from "../rosterImport.js";
+
+describe("parseCsv", () => {
+  it("handles quoted commas, doubled quotes and CRLF", () => {
+    const records = parseCsv('a,b\r\n"Lee, Sam","say ""hi"""\r\n');
+    expect(records).toEqual([
+      { line: 1, cells: ["a", "b"] },
+      { line: 2, cells: ["Lee, Sam", 'say "hi"'] },
+    ]);
+  });
+
+  it("keeps line numbers right across blank lines and multi-line cells", () => {
+    const records = parseCsv('h\n\n"two\nlines"\nlast');
+    expect(records.map((r) => r.line)).toEqual([1, 3, 5]);
+    expect(records[1].cells).toEqual(["two\nlines"]);
+  });
+
+  it("strips a byte order mark", () => {
+    expect(parseCsv("\uFEFFemail\nx")[0].cells).toEqual(["email"]);
+  });
+});
+
+describe("parseRosterCsv", () => {
+  it("maps header aliases and splits full names and team lists", () => {
+    const [row] = parseRosterCsv(
+      "Full Name,E-mail Address,Date of Birth,Teams,Role,Parent Email\n" +
+        "Sam de la Cruz,SAM@Example.com,2012-03-04,U14; Travel,athlete,mom@example.com"
+    );
+    expect(row.errors).toEqual([]);
+    expect(row.data).toMatchObject({
+      firstName: "Sam",
+      lastName: "de la Cruz",
+      email: "sam@example.com",
+      dateOfBirth: "2012-03-04",
+      teams: ["U14", "Travel"],
+      role: "ATHLETE",
+      guardianEmail: "mom@example.com",
+    });
+  });
+
+  it("defaults the role and only builds an emergency contact when one is given", () => {
+    const [plain, withContact] = parseRosterCsv(
+      "first name,last name,email,emergency contact,emergency relationship,emergency phone\n" +
+        "Ari,Chen,ari@example.com,,,\n" +
+        "Bo,Park,bo@example.com,Kim Park,Aunt,555-0100"
+    );
+    expect(plain.data?.role).toBe("ATHLETE");
+    expect(plain.data?.emergencyContact).toBeUndefined();
+    expect(withContact.data?.emergencyContact).toEqual({ name: "Kim Park", relationship: "Aunt", phone: "555-0100" });
+  });
+
+  it("reports field errors per row and drops the row's data", () => {
+    const rows = parseRosterCsv(
+      "name,email,dob,role,emergency phone\n" +
+        "Sam Lee,not-an-email,2012-13-01,OWNER,\n" +
+        "Ari Chen,ari@example.com,,,555-0100"
+    );
+    expect(rows[0].data).toBeNull();
+    expect(rows[0].email).toBe("not-an-email");
+    expect(rows[0].errors).toEqual([
+      "email: Must be a valid email address",
+      "dateOfBirth: Date of birth must be a real date in the past",
+      "role: Role must be one of ATHLETE, COACH, MANAGER, ADMIN or GUARDIAN",
+    ]);
+    expect(rows[1].errors).toEqual([
+      "emergencyContact.name: Must not be empty",
+      "emergencyContact.relationship: Must not be empty",
+    ]);
+  });
+
+  it("flags duplicate emails and guardians who are staff in the same file", () => {
+    const rows = parseRosterCsv(
+      "name,email,role,guardian email\n" +
+        "Sam Lee,sam@example.com,athlete,coach@example.com\n" +
+        "Pat Coach,coach@example.com,coach,\n" +
+        "Sam Again,SAM@example.com,athlete,"
+    );
+    expect(rows[0].errors).toEqual(["Guardian coach@example.com is listed as coach in this file"]);
+    expect(rows[1].errors).toEqual([]);
+    expect(rows[2].errors).toEqual(["sam@example.com already appears on line 2"]);
+  });
+
+  it("only lets athletes carry a guardian email", () => {
+    const [row] = parseRosterCsv("name,email,role,guardian email\nPat Coach,pat@example.com,coach,mom@example.com");
+    expect(row.errors).toEqual(["Only athletes can have a guardian email"]);
+  });
+
+  it("rejects files without the required columns", () => {
+    expect(() => parseRosterCsv("name,team\nSam,U14")).toThrow("needs an email column");
+    expect(() => parseRosterCsv("first name,email\nSam,sam@example.com")).toThrow("needs a name column");
+    expect(() => parseRosterCsv("")).toThrow("The file is empty");
+  });
+});
+
+describe("teamRoleForOrgRole", () => {
+  it("maps staff roles onto team roles", () => {
+    expect(teamRoleForOrgRole("COACH")).toBe("COACH");
+    expect(teamRoleForOrgRole("MANAGER")).toBe("ADMIN");
+    expect(teamRoleForOrgRole("ATHLETE")).toBe("MEMBER");
+  });
+});
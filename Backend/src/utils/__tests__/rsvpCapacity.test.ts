@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { isRsvpClosed, openSpots, resolveRsvpStatus } from "../rsvpCapacity.js";
+
+describe("openSpots", () => {
+  it("is unlimited without a capacity", () => {
+    expect(openSpots(null, 40)).toBeNull();
+  });
+
+  it("never goes below zero", () => {
+    expect(openSpots(10, 7)).toBe(3);
+    expect(openSpots(10, 12)).toBe(0);
+  });
+});
+
+describe("isRsvpClosed", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+
+  it("stays open without a deadline", () => {
+    expect(isRsvpClosed({ rsvpDeadline: null }, now)).toBe(false);
+  });
+
+  it("closes once the deadline passes", () => {
+    expect(isRsvpClosed({ rsvpDeadline: new Date("2026-10-19T13:00:00Z") }, now)).toBe(false);
+    expect(isRsvpClosed({ rsvpDeadline: new Date("2026-10-19T12:00:00Z") }, now)).toBe(true);
+  });
+});
+
+describe("resolveRsvpStatus", () => {
+  it("accepts GOING while spots remain", () => {
+    expect(resolveRsvpStatus("GOING", { capacity: 10 }, { goingCount: 9, current: null })).toBe("GOING");
+    expect(resolveRsvpStatus("GOING", { capacity: null }, { goingCount: 99, current: null })).toBe("GOING");
+  });
+
+  it("waitlists GOING once the event is full", () => {
+    expect(resolveRsvpStatus("GOING", { capacity: 10 }, { goingCount: 10, current: "MAYBE" })).toBe("WAITLISTED");
+    expect(resolveRsvpStatus("WAITLISTED", { capacity: 10 }, { goingCount: 3, current: null })).toBe("GOING");
+  });
+
+  it("keeps an athlete's spot when they re-submit GOING", () => {
+    expect(resolveRsvpStatus("GOING", { capacity: 10 }, { goingCount: 12, current: "GOING" })).toBe("GOING");
+  });
+
+  it("passes other responses through", () => {
+    expect(resolveRsvpStatus("NOT_GOING", { capacity: 1 }, { goingCount: 5, current: "GOING" })).toBe("NOT_GOING");
+  });
+});
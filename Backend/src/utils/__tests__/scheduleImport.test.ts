@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import {
+  findBestMatch,
+  inferEventType,
+  normalizeDate,
+  normalizeTime,
+  parseScheduleFile,
+  splitMatchup,
+} from "../scheduleImport.js";
+
+const ics = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "BEGIN:VEVENT",
+  "UID:league-game-17@example.org",
+  "SUMMARY:Hawks vs Lakers",
+  "DTSTART:20261024T220000Z",
+  "DTEND:20261025T000000Z",
+  "LOCATION:Riverside Park Field 2\\, 12 Main St",
+  "DESCRIPTION:Bring white jerseys.\\nArrive early",
+  "BEGIN:VALARM",
+  "DESCRIPTION:Reminder",
+  "END:VALARM",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:league-tourney-1",
+  "SUMMARY:Fall Tournam",
+  " ent",
+  "DTSTART;VALUE=DATE:20261107",
+  "DTEND;VALUE=DATE:20261109",
+  "STATUS:CANCELLED",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+describe("parseScheduleFile (ICS)", () => {
+  it("converts UTC times to the organization's wall clock and unescapes text", () => {
+    const [game] = parseScheduleFile(ics, "America/Toronto");
+    expect(game).toMatchObject({
+      line: 3,
+      uid: "league-game-17@example.org",
+      title: "Hawks vs Lakers",
+      date: "2026-10-24",
+      startTime: "6:00 PM",
+      endTime: "8:00 PM",
+      location: "Riverside Park Field 2, 12 Main St",
+      description: "Bring white jerseys.\nArrive early",
+      matchup: { home: "Hawks", away: "Lakers" },
+      cancelled: false,
+      errors: [],
+    });
+  });
+
+  it("unfolds long lines and treats the all-day DTEND as exclusive", () => {
+    const [, tournament] = parseScheduleFile(ics, "America/Toronto");
+    expect(tournament).toMatchObject({
+      title: "Fall Tournament",
+      date: "2026-11-07",
+      endDate: "2026-11-08",
+      startTime: "All Day",
+      endTime: "All Day",
+      cancelled: true,
+    });
+  });
+
+  it("reads TZID times in their own zone", () => {
+    const [row] = parseScheduleFile(
+      "BEGIN:VCALENDAR\nBEGIN:VEVENT\nUID:x\nSUMMARY:Game\nDTSTART;TZID=America/Chicago:20261024T170000\nDURATION:PT90M\nEND:VEVENT\nEND:VCALENDAR",
+      "America/Toronto"
+    );
+    expect(row).toMatchObject({ startTime: "6:00 PM", endTime: "7:30 PM", errors: [] });
+  });
+});
+
+describe("parseScheduleFile (CSV)", () => {
+  it("maps header aliases and normalizes dates and times", () => {
+    const [row] = parseScheduleFile(
+      "Game #,Date,Time,Home Team,Away Team,Field\n101,10/24/26,6pm,U12 Hawks,Lakers,Riverside",
+      "UTC"
+    );
+    expect(row).toMatchObject({
+      uid: "101",
+      date: "2026-10-24",
+      startTime: "6:00 PM",
+      endTime: null,
+      matchup: { home: "U12 Hawks", away: "Lakers" },
+      location: "Riverside",
+      errors: [],
+    });
+  });
+
+  it("derives ids that survive a game moving to another date", () => {
+    const before = parseScheduleFile("Date,Time,Team,Opponent\n2026-10-24,18:00,Hawks,Lakers\n2026-11-07,18:00,Hawks,Lakers", "UTC");
+    const after = parseScheduleFile("Date,Time,Team,Opponent\n2026-10-31,18:00,Hawks,Lakers\n2026-11-07,18:00,Hawks,Lakers", "UTC");
+    expect(after.map((r) => r.uid)).toEqual(before.map((r) => r.uid));
+    expect(new Set(before.map((r) => r.uid)).size).toBe(2);
+  });
+
+  it("collects row errors and rejects files without a date column", () => {
+    const [row] = parseScheduleFile("Date,Time,Title\n2026-02-30,TBD,Game", "UTC");
+    expect(row.errors).toEqual(['"2026-02-30" is not a date', '"TBD" is not a time']);
+    expect(() => parseScheduleFile("Title\nGame", "UTC")).toThrow("needs a date column");
+  });
+
+  it("flags repeated game ids", () => {
+    const rows = parseScheduleFile("ID,Date,Time,Title\n7,2026-10-24,6 PM,Game\n7,2026-10-25,6 PM,Game", "UTC");
+    expect(rows[1].errors).toEqual(["Same game id as line 2"]);
+  });
+});
+
+describe("schedule import helpers", () => {
+  it("normalizes dates and times", () => {
+    expect(normalizeDate("2026-3-4")).toBe("2026-03-04");
+    expect(normalizeDate("13/01/2026")).toBeNull();
+    expect(normalizeTime("12:15 a.m.")).toBe("12:15 AM");
+    expect(normalizeTime("18:30:00")).toBe("6:30 PM");
+    expect(normalizeTime("6")).toBeNull();
+  });
+
+  it("splits matchups with the home side second after @", () => {
+    expect(splitMatchup("Hawks @ Lakers")).toEqual({ home: "Lakers", away: "Hawks" });
+    expect(splitMatchup("Team Practice")).toBeNull();
+  });
+
+  it("infers event types from type cells and titles", () => {
+    expect(inferEventType("Scrimmage", null)).toBe("GAME");
+    expect(inferEventType(null, "Skills Practice")).toBe("PRACTICE");
+    expect(inferEventType(null, "Hawks vs Lakers")).toBe("GAME");
+    expect(inferEventType(null, "Picture Day")).toBeNull();
+  });
+
+  it("fuzzy-matches names and ignores weak matches", () => {
+    const venues = [{ name: "Riverside Park - Field 2" }, { name: "The Dome" }];
+    expect(findBestMatch("riverside park field #2", venues, (v) => [v.name])).toBe(venues[0]);
+    expect(findBestMatch("dome", venues, (v) => [v.name])).toBe(venues[1]);
+    expect(findBestMatch("Lakeside Arena", venues, (v) => [v.name])).toBeNull();
+  });
+});
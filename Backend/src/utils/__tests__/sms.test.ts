@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { SMS_MAX_LENGTH, formatSms, parseSmsKeyword, toE164, usageMonth } from "../sms.js";
+
+describe("toE164", () => {
+  it("treats ten-digit numbers as North American", () => {
+    expect(toE164("6135550123")).toBe("+16135550123");
+    expect(toE164("(613) 555-0123")).toBe("+16135550123");
+  });
+
+  it("keeps numbers that already carry a country code", () => {
+    expect(toE164("16135550123")).toBe("+16135550123");
+    expect(toE164("+44 20 7946 0958")).toBe("+442079460958");
+  });
+
+  it("rejects numbers that can't be dialled", () => {
+    expect(toE164(null)).toBeNull();
+    expect(toE164("555-0123")).toBeNull();
+    expect(toE164("0123456789012")).toBeNull();
+    expect(toE164("1".repeat(16))).toBeNull();
+  });
+});
+
+describe("parseSmsKeyword", () => {
+  it("recognises opt-out keywords regardless of case and punctuation", () => {
+    expect(parseSmsKeyword("STOP")).toBe("STOP");
+    expect(parseSmsKeyword(" unsubscribe. ")).toBe("STOP");
+    expect(parseSmsKeyword("Stop!")).toBe("STOP");
+  });
+
+  it("recognises opt-in keywords", () => {
+    expect(parseSmsKeyword("start")).toBe("START");
+    expect(parseSmsKeyword("UNSTOP")).toBe("START");
+  });
+
+  it("ignores ordinary replies that merely contain a keyword", () => {
+    expect(parseSmsKeyword("please stop the bus")).toBeNull();
+    expect(parseSmsKeyword("See you at practice")).toBeNull();
+  });
+});
+
+describe("formatSms", () => {
+  it("prefixes the title and appends the opt-out footer", () => {
+    expect(formatSms("Event Cancelled", "Practice is off.")).toBe(
+      "Event Cancelled: Practice is off. Reply STOP to opt out."
+    );
+  });
+
+  it("clips long messages but always keeps the footer", () => {
+    const sms = formatSms("Announcement", "word ".repeat(200));
+    expect(sms.length).toBeLessThanOrEqual(SMS_MAX_LENGTH);
+    expect(sms.endsWith("… Reply STOP to opt out.")).toBe(true);
+  });
+});
+
+describe("usageMonth", () => {
+  it("buckets by UTC calendar month", () => {
+    expect(usageMonth(new Date("2026-10-31T23:30:00Z"))).toBe("2026-10");
+    expect(usageMonth(new Date("2026-11-01T00:00:00Z"))).toBe("2026-11");
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { createSign, generateKeyPairSync } from "crypto";
+import { isSnsUrl, snsStringToSign, verifySnsMessage, type SnsEnvelope } from "../snsMessage.js";
+
+const { publicKey, privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const cert = publicKey.export({ type: "spki", format: "pem" }).toString();
+const loadCert = async () => cert;
+
+function signed(envelope: SnsEnvelope, algorithm = "RSA-SHA256"): SnsEnvelope {
+  const signature = createSign(algorithm).update(snsStringToSign(envelope)!).sign(privateKey, "base64");
+  return { ...envelope, Signature: signature };
+}
+
+const notification: SnsEnvelope = {
+  Type: "Notification",
+  MessageId: "msg-1",
+  TopicArn: "arn:aws:sns:us-east-2:123456789012:inbound-sms",
+  Message: JSON.stringify({ originationNumber: "+15551234567", messageBody: "STOP" }),
+  Timestamp: "2026-10-19T12:00:00.000Z",
+  SignatureVersion: "2",
+  SigningCertURL: "https://sns.us-east-2.amazonaws.com/SimpleNotificationService-abc.pem",
+};
+
+describe("snsStringToSign", () => {
+  it("lists the signed fields in order, skipping a missing Subject", () => {
+    expect(snsStringToSign(notification)).toBe(
+      `Message\n${notification.Message}\nMessageId\nmsg-1\nTimestamp\n2026-10-19T12:00:00.000Z\n` +
+        `TopicArn\n${notification.TopicArn}\nType\nNotification\n`
+    );
+  });
+
+  it("requires the token and SubscribeURL on subscription confirmations", () => {
+    expect(snsStringToSign({ ...notification, Type: "SubscriptionConfirmation" })).toBeNull();
+    expect(snsStringToSign({ ...notification, Type: "Unknown" })).toBeNull();
+  });
+});
+
+describe("verifySnsMessage", () => {
+  it("accepts a message signed with the SNS certificate", async () => {
+    expect(await verifySnsMessage(signed(notification), loadCert)).toBe(true);
+    expect(
+      await verifySnsMessage(signed({ ...notification, SignatureVersion: "1" }, "RSA-SHA1"), loadCert)
+    ).toBe(true);
+  });
+
+  it("rejects a forged or altered message", async () => {
+    const message = JSON.stringify({ originationNumber: "+15550000000", messageBody: "STOP" });
+    const forged = { ...signed(notification), Message: message };
+    expect(await verifySnsMessage(forged, loadCert)).toBe(false);
+    expect(await verifySnsMessage(notification, loadCert)).toBe(false);
+  });
+
+  it("only trusts certificates served by SNS", async () => {
+    const elsewhere = { ...notification, SigningCertURL: "https://attacker.example.com/SimpleNotificationService.pem" };
+    expect(await verifySnsMessage(signed(elsewhere), loadCert)).toBe(false);
+    expect(isSnsUrl("http://sns.us-east-2.amazonaws.com/cert.pem")).toBe(false);
+    expect(isSnsUrl("https://sns.us-east-2.amazonaws.com.attacker.io/cert.pem")).toBe(false);
+  });
+});
@@ -1,5 +1,16 @@
 import { describe, it, expect } from "vitest";
-import { parseTimeString, computeEventDuration } from "../time.js";
+import {
+  parseTimeString,
+  computeEventDuration,
+  addMinutesToTime,
+  isValidTimeZone,
+  zonedTimeToUtc,
+  eventDateTime,
+  getEventWindow,
+  eventTimeZone,
+  getZonedDayRange,
+  toZonedCalendarDate,
+} from "../time.js";
 
 describe("parseTimeString", () => {
   // 12-hour AM/PM format
@@ -75,3 +86,118 @@ describe("computeEventDuration", () => {
     expect(computeEventDuration("8:00 PM", "6:00 PM")).toBe(0);
   });
 });
+
+describe("addMinutesToTime", () => {
+  it("keeps the 12-hour format and crosses noon", () => {
+    expect(addMinutesToTime("11:30 AM", 90)).toBe("1:00 PM");
+    expect(addMinutesToTime("6:00 PM", 45)).toBe("6:45 PM");
+  });
+
+  it("keeps the 24-hour format", () => {
+    expect(addMinutesToTime("09:15", 60)).toBe("10:15");
+  });
+
+  it("returns null past midnight", () => {
+    expect(addMinutesToTime("11:00 PM", 60)).toBeNull();
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zone names", () => {
+    expect(isValidTimeZone("America/Toronto")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+  });
+
+  it("rejects unknown zones", () => {
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
+
+describe("zonedTimeToUtc", () => {
+  it("converts a standard-time wall clock (EST = UTC-5)", () => {
+    expect(zonedTimeToUtc(2026, 1, 15, 18, 0, "America/Toronto").toISOString()).toBe("2026-01-15T23:00:00.000Z");
+  });
+
+  it("converts a daylight-time wall clock (EDT = UTC-4)", () => {
+    expect(zonedTimeToUtc(2026, 7, 15, 18, 0, "America/Toronto").toISOString()).toBe("2026-07-15T22:00:00.000Z");
+  });
+
+  it("handles zones east of UTC", () => {
+    expect(zonedTimeToUtc(2026, 7, 15, 9, 30, "Europe/Berlin").toISOString()).toBe("2026-07-15T07:30:00.000Z");
+  });
+
+  it("pushes times inside a spring-forward gap past the gap", () => {
+    // 2:30 AM does not exist on 2026-03-08 in Toronto; it becomes 3:30 AM EDT
+    expect(zonedTimeToUtc(2026, 3, 8, 2, 30, "America/Toronto").toISOString()).toBe("2026-03-08T07:30:00.000Z");
+    expect(zonedTimeToUtc(2026, 3, 29, 2, 30, "Europe/Berlin").toISOString()).toBe("2026-03-29T01:30:00.000Z");
+  });
+
+  it("resolves repeated fall-back times to the first occurrence", () => {
+    expect(zonedTimeToUtc(2026, 11, 1, 1, 30, "America/Toronto").toISOString()).toBe("2026-11-01T05:30:00.000Z");
+    expect(zonedTimeToUtc(2026, 10, 25, 2, 30, "Europe/Berlin").toISOString()).toBe("2026-10-25T00:30:00.000Z");
+  });
+});
+
+describe("eventDateTime", () => {
+  it("uses the UTC calendar day of Event.date regardless of the zone", () => {
+    const date = new Date("2026-03-10T12:00:00.000Z");
+    expect(eventDateTime(date, "6:00 PM", "America/Vancouver").toISOString()).toBe("2026-03-11T01:00:00.000Z");
+    expect(eventDateTime(date, "6:00 AM", "Asia/Tokyo").toISOString()).toBe("2026-03-09T21:00:00.000Z");
+  });
+
+  it("follows the DST change between two weekly occurrences", () => {
+    const before = eventDateTime(new Date("2026-03-05T12:00:00.000Z"), "6:00 PM", "America/Toronto");
+    const after = eventDateTime(new Date("2026-03-12T12:00:00.000Z"), "6:00 PM", "America/Toronto");
+    expect(before.toISOString()).toBe("2026-03-05T23:00:00.000Z");
+    expect(after.toISOString()).toBe("2026-03-12T22:00:00.000Z");
+  });
+});
+
+describe("getEventWindow", () => {
+  const date = new Date("2026-07-15T12:00:00.000Z");
+
+  it("returns start and end instants on the event day", () => {
+    const { start, end } = getEventWindow({ date, startTime: "6:00 PM", endTime: "8:00 PM" }, "America/Toronto");
+    expect(start.toISOString()).toBe("2026-07-15T22:00:00.000Z");
+    expect(end.toISOString()).toBe("2026-07-16T00:00:00.000Z");
+  });
+
+  it("ends multi-day events on endDate", () => {
+    const endDate = new Date("2026-07-17T12:00:00.000Z");
+    const { end } = getEventWindow({ date, endDate, startTime: "9:00 AM", endTime: "5:00 PM" }, "UTC");
+    expect(end.toISOString()).toBe("2026-07-17T17:00:00.000Z");
+  });
+
+  it("spans the whole zoned day for All Day events", () => {
+    const { start, end } = getEventWindow({ date, startTime: "All Day", endTime: "All Day" }, "America/Toronto");
+    expect(start.toISOString()).toBe("2026-07-15T04:00:00.000Z");
+    expect(end.toISOString()).toBe("2026-07-16T03:59:00.000Z");
+  });
+});
+
+describe("eventTimeZone", () => {
+  it("prefers the venue override", () => {
+    expect(eventTimeZone({ organization: { timezone: "America/Toronto" }, venue: { timezone: "America/Winnipeg" } })).toBe("America/Winnipeg");
+  });
+
+  it("falls back to the organization zone, then UTC", () => {
+    expect(eventTimeZone({ organization: { timezone: "America/Toronto" }, venue: { timezone: null } })).toBe("America/Toronto");
+    expect(eventTimeZone({})).toBe("UTC");
+  });
+});
+
+describe("getZonedDayRange / toZonedCalendarDate", () => {
+  // 02:00 UTC on Jul 16 is still the evening of Jul 15 in Toronto
+  const instant = new Date("2026-07-16T02:00:00.000Z");
+
+  it("bounds the zone-local calendar day in Event.date terms", () => {
+    const { start, end } = getZonedDayRange(instant, "America/Toronto");
+    expect(start.toISOString()).toBe("2026-07-15T00:00:00.000Z");
+    expect(end.toISOString()).toBe("2026-07-15T23:59:59.999Z");
+  });
+
+  it("returns the noon-UTC date of the zone-local day", () => {
+    expect(toZonedCalendarDate(instant, "America/Toronto").toISOString()).toBe("2026-07-15T12:00:00.000Z");
+    expect(toZonedCalendarDate(instant, "UTC").toISOString()).toBe("2026-07-16T12:00:00.000Z");
+  });
+});
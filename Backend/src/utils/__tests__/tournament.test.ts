@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { bracketRoundName, groupBracket, groupPools, poolStandings } from "../tournament.js";
+
+const game = (overrides: Partial<Parameters<typeof poolStandings>[0][number]> & { id: string }) => ({
+  teamId: "team-1",
+  teamScore: null,
+  opponentScore: null,
+  pool: null,
+  bracketRound: null,
+  bracketSlot: null,
+  ...overrides,
+});
+
+describe("bracketRoundName", () => {
+  it("names rounds from the final backwards", () => {
+    expect(bracketRoundName(4, 4)).toBe("Final");
+    expect(bracketRoundName(3, 4)).toBe("Semifinals");
+    expect(bracketRoundName(2, 4)).toBe("Quarterfinals");
+    expect(bracketRoundName(1, 4)).toBe("Round 1");
+  });
+});
+
+describe("groupPools", () => {
+  it("groups pool games by name and skips bracket games", () => {
+    const pools = groupPools([
+      game({ id: "g1", pool: "Pool B" }),
+      game({ id: "g2", pool: "Pool A" }),
+      game({ id: "g3", pool: "Pool B" }),
+      game({ id: "g4", bracketRound: 1 }),
+    ]);
+    expect(pools.map((p) => [p.name, p.games.map((g) => g.id)])).toEqual([
+      ["Pool A", ["g2"]],
+      ["Pool B", ["g1", "g3"]],
+    ]);
+  });
+});
+
+describe("poolStandings", () => {
+  it("ranks teams by wins, then goal differential", () => {
+    const standings = poolStandings([
+      game({ id: "g1", teamId: "a", teamScore: 2, opponentScore: 1 }),
+      game({ id: "g2", teamId: "b", teamScore: 5, opponentScore: 0 }),
+      game({ id: "g3", teamId: "a", teamScore: 0, opponentScore: 3 }),
+      game({ id: "g4", teamId: "c", teamScore: 1, opponentScore: 1 }),
+    ]);
+    expect(standings.map((s) => s.teamId)).toEqual(["b", "a", "c"]);
+    expect(standings[1].record).toMatchObject({ wins: 1, losses: 1, goalDifferential: -2 });
+  });
+});
+
+describe("groupBracket", () => {
+  it("orders rounds and slots and names them from the final", () => {
+    const rounds = groupBracket([
+      game({ id: "final", bracketRound: 2, bracketSlot: 1 }),
+      game({ id: "semi-2", bracketRound: 1, bracketSlot: 2 }),
+      game({ id: "semi-1", bracketRound: 1, bracketSlot: 1 }),
+    ]);
+    expect(rounds.map((r) => [r.name, r.games.map((g) => g.id)])).toEqual([
+      ["Semifinals", ["semi-1", "semi-2"]],
+      ["Final", ["final"]],
+    ]);
+  });
+});
@@ -4,6 +4,8 @@ import {
   createUserInputSchema,
   updateUserInputSchema,
   createEventInputSchema,
+  rescheduleEventInputSchema,
+  recurringEventChangesSchema,
   createOrganizationInputSchema,
   createExcuseRequestInputSchema,
   createEmergencyContactInputSchema,
@@ -111,6 +113,47 @@ describe("createEventInputSchema", () => {
   });
 });
 
+// ─── rescheduleEvent ──────────────────────────────────────────────────────────
+
+describe("rescheduleEventInputSchema", () => {
+  it("accepts a new date and times", () => {
+    expect(() =>
+      validate(rescheduleEventInputSchema, { date: "2025-09-08", startTime: "9:00 AM", endTime: "11:00 AM" })
+    ).not.toThrow();
+  });
+
+  it("accepts an empty input (postpone)", () => {
+    expect(() => validate(rescheduleEventInputSchema, { reason: "Field flooded" })).not.toThrow();
+  });
+
+  it("rejects new times without a new date", () => {
+    expect(() => validate(rescheduleEventInputSchema, { startTime: "10:00 AM" })).toThrow(
+      /A new date is required/
+    );
+  });
+});
+
+describe("recurringEventChangesSchema", () => {
+  it("accepts a time and days-of-week change", () => {
+    expect(() =>
+      validate(recurringEventChangesSchema, { startTime: "5:00 PM", endTime: "7:00 PM", daysOfWeek: [1, 3] })
+    ).not.toThrow();
+  });
+
+  it("accepts clearing the venue", () => {
+    expect(() => validate(recurringEventChangesSchema, { venueId: null })).not.toThrow();
+  });
+
+  it("rejects an empty change set", () => {
+    expect(() => validate(recurringEventChangesSchema, {})).toThrow(/No changes given/);
+  });
+
+  it("rejects invalid days of week", () => {
+    expect(() => validate(recurringEventChangesSchema, { daysOfWeek: [7] })).toThrow(/0 \(Sun\) to 6 \(Sat\)/);
+    expect(() => validate(recurringEventChangesSchema, { daysOfWeek: [] })).toThrow(/At least one day/);
+  });
+});
+
 // ─── createOrganization ───────────────────────────────────────────────────────
 
 describe("createOrganizationInputSchema", () => {
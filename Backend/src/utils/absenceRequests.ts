@@ -0,0 +1,28 @@
+export interface AbsenceWindow {
+  /** First day of the absence (noon UTC, inclusive) */
+  startDate: Date;
+  /** Last day of the absence (noon UTC, inclusive) */
+  endDate: Date;
+  /** Teams the absence is limited to; empty means all of the athlete's teams */
+  teamIds: string[];
+}
+
+export interface CoveredEvent {
+  /** Calendar day of the event (stored at noon UTC) */
+  date: Date;
+  teamId: string | null;
+  participatingTeamIds: string[];
+}
+
+/**
+ * Whether an absence request covers an event the athlete is expected at.
+ * Both are stored as noon-UTC calendar days, so the range compares directly.
+ */
+export function absenceCoversEvent(absence: AbsenceWindow, event: CoveredEvent): boolean {
+  if (event.date < absence.startDate || event.date > absence.endDate) return false;
+  if (absence.teamIds.length === 0) return true;
+  return (
+    (event.teamId !== null && absence.teamIds.includes(event.teamId)) ||
+    event.participatingTeamIds.some((id) => absence.teamIds.includes(id))
+  );
+}
@@ -1,5 +1,10 @@
+import { EventStatus } from "@prisma/client";
 import { prisma } from "../db.js";
 
+// Cancelled and postponed events keep their check-ins for history but never
+// count toward attendance. Spread into event where-clauses used by analytics.
+export const COUNTED_EVENT_FILTER = { status: EventStatus.SCHEDULED };
+
 // Build a map of userId -> Set<teamId> for non-athlete memberships in an org.
 // Used to exclude non-athlete check-ins on a per-event-team basis so that a user
 // who coaches Team A but is an athlete on Team B still has Team B data counted.
@@ -28,3 +33,10 @@ export function isAthleteCheckIn(
   if (!nonAthleteTeams) return true;
   return !nonAthleteTeams.has(checkIn.event.teamId);
 }
+
+// Hours that count toward attendance. LEFT_EARLY check-ins keep their
+// hoursLogged for payroll and history but fall short of the attendance
+// policy's minimum presence, so they earn no credit.
+export function creditedHours(checkIns: Array<{ status: string; hoursLogged: number | null }>): number {
+  return checkIns.reduce((sum, c) => sum + (c.status === "LEFT_EARLY" ? 0 : c.hoursLogged || 0), 0);
+}
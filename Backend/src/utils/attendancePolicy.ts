@@ -0,0 +1,81 @@
+import type { AttendancePolicy, AttendanceStatus, EventType } from "@prisma/client";
+
+export interface AttendanceRules {
+  /** Check-ins open this many minutes before an event starts. */
+  checkInWindowMinutes: number;
+  /** Minutes after the start a check-in still counts as ON_TIME. */
+  lateGraceMinutes: number;
+  /** Share of the event (0-100) an athlete must be present for; 0 = any check-in counts. */
+  minPresencePercent: number;
+}
+
+/** Rules for orgs that haven't set a policy, matching the historical behaviour. */
+export const DEFAULT_ATTENDANCE_RULES: AttendanceRules = {
+  checkInWindowMinutes: 30,
+  lateGraceMinutes: 0,
+  minPresencePercent: 0,
+};
+
+type PolicyRow = Pick<
+  AttendancePolicy,
+  "teamId" | "eventType" | "checkInWindowMinutes" | "lateGraceMinutes" | "minPresencePercent"
+>;
+
+const RULE_KEYS = ["checkInWindowMinutes", "lateGraceMinutes", "minPresencePercent"] as const;
+
+/**
+ * The rules for one event, layering an org's policy rows from least to most
+ * specific: org default, event type, team, then team + event type. A row only
+ * overrides the fields it sets. Multi-team events use their owning team.
+ */
+export function resolveAttendanceRules(
+  policies: PolicyRow[],
+  event: { teamId: string | null; type: EventType }
+): AttendanceRules {
+  const specificity = (p: PolicyRow) => (p.teamId ? 2 : 0) + (p.eventType ? 1 : 0);
+  const applicable = policies
+    .filter((p) => (!p.teamId || p.teamId === event.teamId) && (!p.eventType || p.eventType === event.type))
+    .sort((a, b) => specificity(a) - specificity(b));
+
+  const rules = { ...DEFAULT_ATTENDANCE_RULES };
+  for (const policy of applicable) {
+    for (const key of RULE_KEYS) {
+      const value = policy[key];
+      if (value !== null) rules[key] = value;
+    }
+  }
+  return rules;
+}
+
+/** When check-in opens for an event starting at `eventStart`. */
+export function checkInOpensAt(rules: AttendanceRules, eventStart: Date): Date {
+  return new Date(eventStart.getTime() - rules.checkInWindowMinutes * 60 * 1000);
+}
+
+/** ON_TIME up to the grace period after the start, LATE after it. */
+export function checkInStatus(rules: AttendanceRules, eventStart: Date, checkInTime: Date): AttendanceStatus {
+  const lateAfter = eventStart.getTime() + rules.lateGraceMinutes * 60 * 1000;
+  return checkInTime.getTime() <= lateAfter ? "ON_TIME" : "LATE";
+}
+
+/**
+ * The status a check-in ends with once checked out: LEFT_EARLY when the
+ * athlete was present (from the later of check-in and the start) for less
+ * than the minimum share of the event, otherwise unchanged. Only attended
+ * (ON_TIME / LATE) check-ins can become LEFT_EARLY.
+ */
+export function checkOutStatus(
+  rules: AttendanceRules,
+  eventWindow: { start: Date; end: Date },
+  checkIn: { status: AttendanceStatus; checkInTime: Date },
+  checkOutTime: Date
+): AttendanceStatus {
+  const duration = eventWindow.end.getTime() - eventWindow.start.getTime();
+  if (checkIn.status !== "ON_TIME" && checkIn.status !== "LATE") return checkIn.status;
+  if (rules.minPresencePercent <= 0 || duration <= 0) return checkIn.status;
+
+  const presentFrom = Math.max(checkIn.checkInTime.getTime(), eventWindow.start.getTime());
+  const presentUntil = Math.min(checkOutTime.getTime(), eventWindow.end.getTime());
+  const presence = Math.max(0, presentUntil - presentFrom) / duration;
+  return presence * 100 < rules.minPresencePercent ? "LEFT_EARLY" : checkIn.status;
+}
@@ -13,16 +13,37 @@ export type AuditAction =
   // Events
   | "DELETE_EVENT"
   | "DELETE_RECURRING_EVENT"
+  | "RECORD_GAME_RESULT"
+  | "DELETE_EVENT_GROUP"
+  | "DELETE_EVENT_TEMPLATE"
   // Members & athletes
   | "DELETE_USER_ACCOUNT"
   | "REMOVE_TEAM_MEMBER"
+  | "IMPORT_ROSTER"
+  | "IMPORT_SCHEDULE"
   // Check-ins
   | "DELETE_CHECKIN"
   | "ADMIN_CHECKIN"
+  | "OVERRIDE_RSVP"
+  | "SET_ATTENDANCE_POLICY"
+  | "DELETE_ATTENDANCE_POLICY"
+  | "SET_ESCALATION_RULE"
+  | "DELETE_ESCALATION_RULE"
+  | "RESOLVE_ESCALATION"
+  | "REVIEW_ABSENCE_REQUEST"
+  | "SET_EXCUSE_CATEGORY"
+  | "DELETE_EXCUSE_CATEGORY"
   // Invites
   | "CANCEL_INVITE"
   // NFC
   | "DEACTIVATE_NFC_TAG"
+  // Kiosk
+  | "REGISTER_KIOSK_DEVICE"
+  | "REVOKE_KIOSK_DEVICE"
+  | "SET_KIOSK_PIN"
+  // Background jobs
+  | "TRIGGER_SCHEDULED_JOB"
+  | "SET_SCHEDULED_JOB_ENABLED"
   // Security
   | "SUSPICIOUS_ACTIVITY";
 
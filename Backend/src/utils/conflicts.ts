@@ -0,0 +1,48 @@
+import { getEventWindow } from "./time.js";
+
+// ─── Schedule overlap detection ──────────────────────────────────────────────
+// Slots are compared as real instants (each in its own zone), so a 6 PM
+// practice at a venue with a time-zone override can't be mistaken for a
+// 6 PM practice elsewhere in the organization.
+
+export interface ScheduleSlot {
+  date: Date;
+  endDate?: Date | null;
+  startTime: string;
+  endTime: string;
+}
+
+export interface ScheduledEvent extends ScheduleSlot {
+  id: string;
+  timeZone: string;
+}
+
+export interface SlotOverlap<T extends ScheduledEvent> {
+  slot: ScheduleSlot;
+  event: T;
+}
+
+/** Half-open overlap: back-to-back bookings (one ends at 6, next starts at 6) don't conflict. */
+export function rangesOverlap(a: { start: Date; end: Date }, b: { start: Date; end: Date }): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Pair every proposed slot with the existing events it overlaps.
+ * Slots are interpreted in `timeZone`; existing events in their own zone.
+ */
+export function findOverlaps<T extends ScheduledEvent>(
+  slots: ScheduleSlot[],
+  timeZone: string,
+  existing: T[]
+): SlotOverlap<T>[] {
+  const existingWindows = existing.map((event) => ({ event, window: getEventWindow(event, event.timeZone) }));
+  const overlaps: SlotOverlap<T>[] = [];
+  for (const slot of slots) {
+    const window = getEventWindow(slot, timeZone);
+    for (const { event, window: other } of existingWindows) {
+      if (rangesOverlap(window, other)) overlaps.push({ slot, event });
+    }
+  }
+  return overlaps;
+}
@@ -39,6 +39,14 @@ export function createLoaders() {
       prisma.venue.findMany({ where: { id: { in: [...ids] } } })
     ),
 
+    opponent: createByIdLoader((ids) =>
+      prisma.opponent.findMany({ where: { id: { in: [...ids] } } })
+    ),
+
+    eventGroup: createByIdLoader((ids) =>
+      prisma.eventGroup.findMany({ where: { id: { in: [...ids] } } })
+    ),
+
     event: createByIdLoader((ids) =>
       prisma.event.findMany({ where: { id: { in: [...ids] } } })
     ),
@@ -1,73 +1,194 @@
 import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
 
-// AES-256-GCM authenticated encryption.
-// The encryption key is a 64-char hex string (32 bytes = 256 bits).
-// In production, inject it from AWS Secrets Manager via ECS task secrets (SSM).
-// Environment variable: ENCRYPTION_KEY
+// AES-256-GCM authenticated encryption with versioned keys.
+// Each key is a 64-char hex string (32 bytes = 256 bits) with a short id.
+// In production, inject them from AWS Secrets Manager via ECS task secrets (SSM).
+// Environment variables:
+//   ENCRYPTION_KEYS   — comma-separated "id:hex" pairs, e.g. "k2:ab12…,k1:cd34…"
+//   ENCRYPTION_KEY_ID — id of the key new values are encrypted with (default: first in ENCRYPTION_KEYS)
+//   ENCRYPTION_KEY    — the original single key, still accepted under the id "k0"
+//
+// To rotate: add the new key to the front of ENCRYPTION_KEYS, keep the old
+// ones until the pii-reencryption job reports nothing left, then drop them.
 
 const ALGORITHM = "aes-256-gcm";
 const IV_BYTES = 12;   // 96-bit IV recommended for GCM
 const TAG_BYTES = 16;  // 128-bit auth tag
 
-function getKey(): Buffer {
-  const hex = process.env.ENCRYPTION_KEY;
-  if (!hex || hex.length !== 64) {
+/** Id of the key configured through the legacy ENCRYPTION_KEY variable. */
+export const LEGACY_KEY_ID = "k0";
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,16}$/;
+// Values written before key ids existed are bare base64, which never contains ":"
+const PAYLOAD_PATTERN = /^([A-Za-z0-9_-]{1,16}):([A-Za-z0-9+/=]+)$/;
+
+interface Keyring {
+  currentId: string;
+  keys: Map<string, Buffer>;
+}
+
+function parseKey(id: string, hex: string | undefined): Buffer {
+  if (!KEY_ID_PATTERN.test(id)) {
+    throw new Error(`Encryption key id "${id}" must be 1-16 letters, digits, "-" or "_"`);
+  }
+  if (!hex || !/^[0-9a-fA-F]{64}$/.test(hex)) {
     throw new Error(
-      "ENCRYPTION_KEY must be a 64-character hex string (32 bytes). " +
+      `Encryption key "${id}" must be a 64-character hex string (32 bytes). ` +
       "Generate one with: node -e \"console.log(require('crypto').randomBytes(32).toString('hex'))\""
     );
   }
   return Buffer.from(hex, "hex");
 }
 
+let cached: { source: string; keyring: Keyring | null } | null = null;
+
+/** Keys from the environment, or null when encryption isn't configured. Re-read if the variables change. */
+function loadKeyring(): Keyring | null {
+  const { ENCRYPTION_KEYS = "", ENCRYPTION_KEY_ID = "", ENCRYPTION_KEY = "" } = process.env;
+  const source = `${ENCRYPTION_KEYS}|${ENCRYPTION_KEY_ID}|${ENCRYPTION_KEY}`;
+  if (cached?.source === source) return cached.keyring;
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of ENCRYPTION_KEYS.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const [id, hex] = entry.split(":");
+    keys.set(id, parseKey(id, hex));
+  }
+  if (ENCRYPTION_KEY && !keys.has(LEGACY_KEY_ID)) {
+    keys.set(LEGACY_KEY_ID, parseKey(LEGACY_KEY_ID, ENCRYPTION_KEY));
+  }
+
+  let keyring: Keyring | null = null;
+  if (keys.size > 0) {
+    const currentId = ENCRYPTION_KEY_ID || keys.keys().next().value!;
+    if (!keys.has(currentId)) throw new Error(`ENCRYPTION_KEY_ID "${currentId}" is not one of the configured keys`);
+    keyring = { currentId, keys };
+  }
+  cached = { source, keyring };
+  return keyring;
+}
+
+function requireKeyring(): Keyring {
+  const keyring = loadKeyring();
+  if (!keyring) {
+    throw new Error(
+      "No encryption key configured. Set ENCRYPTION_KEYS (\"id:hex\" pairs) or ENCRYPTION_KEY to a 64-character hex string. " +
+      "Generate one with: node -e \"console.log(require('crypto').randomBytes(32).toString('hex'))\""
+    );
+  }
+  return keyring;
+}
+
+function decryptWith(key: Buffer, data: string): string {
+  const buf = Buffer.from(data, "base64");
+  const iv = buf.subarray(0, IV_BYTES);
+  const tag = buf.subarray(IV_BYTES, IV_BYTES + TAG_BYTES);
+  const encrypted = buf.subarray(IV_BYTES + TAG_BYTES);
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
+
+/** Whether any encryption key is configured. */
+export function isEncryptionConfigured(): boolean {
+  return loadKeyring() !== null;
+}
+
+/** Id of the key new values are encrypted with, or null when none is configured. */
+export function currentKeyId(): string | null {
+  return loadKeyring()?.currentId ?? null;
+}
+
 /**
- * Encrypts `plaintext` using AES-256-GCM.
- * Returns a base64 string: iv (12 bytes) + authTag (16 bytes) + ciphertext.
+ * Encrypts `plaintext` using AES-256-GCM with the current key.
+ * Returns "<keyId>:<base64>" where the base64 is iv (12 bytes) + authTag (16 bytes) + ciphertext.
  */
 export function encrypt(plaintext: string): string {
-  const key = getKey();
+  const { currentId, keys } = requireKeyring();
   const iv = randomBytes(IV_BYTES);
-  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const cipher = createCipheriv(ALGORITHM, keys.get(currentId)!, iv);
   const encrypted = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
   const tag = cipher.getAuthTag();
-  // Pack: iv | tag | ciphertext → base64
-  return Buffer.concat([iv, tag, encrypted]).toString("base64");
+  // Pack: iv | tag | ciphertext → base64, prefixed with the key id
+  return `${currentId}:${Buffer.concat([iv, tag, encrypted]).toString("base64")}`;
 }
 
 /**
- * Decrypts a base64 string produced by `encrypt()`.
- * Throws if the key is wrong or the ciphertext has been tampered with.
+ * Decrypts a value produced by `encrypt()` with whichever configured key it
+ * names. Values from before key ids (bare base64) are tried against every key,
+ * the legacy ENCRYPTION_KEY first.
+ * Throws if the key is unknown or wrong, or the ciphertext has been tampered with.
  */
 export function decrypt(ciphertext: string): string {
-  const key = getKey();
-  const buf = Buffer.from(ciphertext, "base64");
-  const iv = buf.subarray(0, IV_BYTES);
-  const tag = buf.subarray(IV_BYTES, IV_BYTES + TAG_BYTES);
-  const encrypted = buf.subarray(IV_BYTES + TAG_BYTES);
-  const decipher = createDecipheriv(ALGORITHM, key, iv);
-  decipher.setAuthTag(tag);
-  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+  const { keys } = requireKeyring();
+  const match = PAYLOAD_PATTERN.exec(ciphertext);
+  if (match) {
+    const key = keys.get(match[1]);
+    if (!key) throw new Error(`Unknown encryption key id "${match[1]}"`);
+    return decryptWith(key, match[2]);
+  }
+
+  const candidates = [keys.get(LEGACY_KEY_ID), ...keys.values()].filter((k): k is Buffer => !!k);
+  let lastError: unknown;
+  for (const key of new Set(candidates)) {
+    try {
+      return decryptWith(key, ciphertext);
+    } catch (err) {
+      lastError = err;
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Whether a stored value should be rewritten with the current key: it's
+ * plaintext, predates key ids, or was encrypted with an older key.
+ */
+export function needsReencryption(value: string | null | undefined): boolean {
+  const keyring = loadKeyring();
+  if (value == null || !keyring) return false;
+  return !value.startsWith(`${keyring.currentId}:`) || !PAYLOAD_PATTERN.test(value);
+}
+
+/**
+ * Rewrites a stored value with the current key; plaintext is simply encrypted.
+ * Throws for ciphertext naming a key that is no longer configured rather
+ * than encrypting the ciphertext itself.
+ */
+export function reencrypt(value: string): string {
+  const { keys } = requireKeyring();
+  const match = PAYLOAD_PATTERN.exec(value);
+  // Anything shorter than an iv and tag can't be ours, e.g. a plaintext "note:abc"
+  const looksEncrypted = !!match && Buffer.from(match[2], "base64").length > IV_BYTES + TAG_BYTES;
+  if (match && looksEncrypted) {
+    if (!keys.has(match[1])) throw new Error(`Unknown encryption key id "${match[1]}"`);
+    return encrypt(decrypt(value));
+  }
+  try {
+    return encrypt(decrypt(value));
+  } catch {
+    return encrypt(value);
+  }
 }
 
 /**
- * Encrypts a value only when ENCRYPTION_KEY is configured.
- * Falls back to plaintext in dev environments where the key is not set.
+ * Encrypts a value only when an encryption key is configured.
+ * Falls back to plaintext in dev environments where no key is set.
  * This prevents hard failures during local development.
  */
 export function encryptIfConfigured(value: string | null | undefined): string | null | undefined {
   if (value == null) return value;
-  if (!process.env.ENCRYPTION_KEY) return value;
+  if (!isEncryptionConfigured()) return value;
   return encrypt(value);
 }
 
 /**
- * Decrypts a value only when ENCRYPTION_KEY is configured and the value
- * looks like a base64 ciphertext.  Falls back to returning the value as-is
- * for rows written before encryption was enabled (plaintext migration).
+ * Decrypts a value only when an encryption key is configured. Falls back to
+ * returning the value as-is for rows written before encryption was enabled
+ * (plaintext migration) or that can't be decrypted with the configured keys.
  */
 export function decryptIfConfigured(value: string | null | undefined): string | null | undefined {
   if (value == null) return value;
-  if (!process.env.ENCRYPTION_KEY) return value;
+  if (!isEncryptionConfigured()) return value;
   try {
     return decrypt(value);
   } catch {
@@ -0,0 +1,80 @@
+import type { AttendanceStatus, EscalationRule } from "@prisma/client";
+
+export type EscalationCriteria = Pick<EscalationRule, "trigger" | "threshold" | "periodDays">;
+
+export interface AttendanceRecord {
+  status: AttendanceStatus;
+  /** Calendar day of the event (stored at noon UTC) */
+  eventDate: Date;
+  /** When the check-in or ABSENT record was created */
+  recordedAt: Date;
+}
+
+export interface EscalationContext {
+  now: Date;
+  /** When this rule last fired for the athlete; records from before it don't count again. */
+  lastFiredAt: Date | null;
+  /** The athlete's current season, judged by ATTENDANCE_BELOW rules */
+  season?: { name: string; start: Date; end: Date } | null;
+}
+
+/** ATTENDANCE_BELOW waits for this many expected events before judging a rate. */
+export const MIN_RATED_EVENTS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function byEventDate(a: AttendanceRecord, b: AttendanceRecord): number {
+  return a.eventDate.getTime() - b.eventDate.getTime() || a.recordedAt.getTime() - b.recordedAt.getTime();
+}
+
+/**
+ * Whether a rule fires for one athlete's attendance records, returning a short
+ * description of why (e.g. "3 absences in the last 30 days") or null.
+ *
+ * Counts restart once a rule fires: ABSENCES_IN_PERIOD and LATE_STREAK only
+ * look at records created after the last firing, and ATTENDANCE_BELOW fires
+ * at most once per season (or per `periodDays` outside a season).
+ */
+export function evaluateEscalation(
+  rule: EscalationCriteria,
+  records: AttendanceRecord[],
+  context: EscalationContext
+): string | null {
+  const { now, lastFiredAt } = context;
+  const fresh = lastFiredAt ? records.filter((r) => r.recordedAt > lastFiredAt) : records;
+
+  switch (rule.trigger) {
+    case "ABSENCES_IN_PERIOD": {
+      if (!rule.periodDays) return null;
+      const from = now.getTime() - rule.periodDays * DAY_MS;
+      const absences = fresh.filter((r) => r.status === "ABSENT" && r.eventDate.getTime() >= from).length;
+      return absences >= rule.threshold ? `${absences} absences in the last ${rule.periodDays} days` : null;
+    }
+
+    case "LATE_STREAK": {
+      // Excused events neither extend nor break a streak
+      let streak = 0;
+      for (const record of [...fresh].sort(byEventDate).reverse()) {
+        if (record.status === "EXCUSED") continue;
+        if (record.status !== "LATE") break;
+        streak++;
+      }
+      return streak >= rule.threshold ? `${streak} late arrivals in a row` : null;
+    }
+
+    case "ATTENDANCE_BELOW": {
+      const window = context.season
+        ? { start: context.season.start, end: context.season.end, label: `in ${context.season.name}` }
+        : rule.periodDays
+          ? { start: new Date(now.getTime() - rule.periodDays * DAY_MS), end: now, label: `in the last ${rule.periodDays} days` }
+          : { start: new Date(0), end: now, label: "overall" };
+      if (lastFiredAt && lastFiredAt >= window.start) return null;
+
+      const inWindow = records.filter((r) => r.eventDate >= window.start && r.eventDate <= window.end);
+      if (inWindow.length < MIN_RATED_EVENTS) return null;
+      const attended = inWindow.filter((r) => r.status === "ON_TIME" || r.status === "LATE").length;
+      const percent = (attended / inWindow.length) * 100;
+      return percent < rule.threshold ? `${Math.round(percent)}% attendance ${window.label}` : null;
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import type { EventTemplate, EventType } from "@prisma/client";
+import { addMinutesToTime } from "./time.js";
+
+/** Fields a template can fill in on a new event or recurring series. */
+export interface TemplatedEventInput {
+  title?: string;
+  type?: EventType;
+  startTime: string;
+  endTime?: string;
+  location?: string;
+  description?: string;
+  teamId?: string;
+  venueId?: string;
+  reminderMinutes?: number | null;
+  includedUserIds?: string[];
+  excludedUserIds?: string[];
+  staffUserIds?: string[];
+}
+
+type TemplateDefaults = Pick<
+  EventTemplate,
+  | "title"
+  | "type"
+  | "durationMinutes"
+  | "teamId"
+  | "venueId"
+  | "location"
+  | "description"
+  | "reminderMinutes"
+  | "includedAthleteIds"
+  | "excludedAthleteIds"
+  | "staffUserIds"
+>;
+
+/**
+ * Fill the gaps in `input` from `template`. Anything the scheduler set wins;
+ * the end time defaults to the template's duration after the start. Without a
+ * template, title, type and end time must all be given.
+ */
+export function applyEventTemplate<T extends TemplatedEventInput>(template: TemplateDefaults | null, input: T) {
+  if (template?.teamId && input.teamId && template.teamId !== input.teamId) {
+    throw new Error("That template belongs to another team");
+  }
+  const title = input.title || template?.title;
+  const type = input.type ?? template?.type;
+  const endTime =
+    input.endTime ||
+    (template && (input.startTime === "All Day" ? "All Day" : addMinutesToTime(input.startTime, template.durationMinutes)));
+  if (!title || !type) throw new Error("Title and type are required unless you pick a template");
+  if (!endTime) {
+    throw new Error(template ? "The template's duration runs past midnight; set an end time" : "End time is required");
+  }
+
+  return {
+    ...input,
+    title,
+    type,
+    endTime,
+    location: input.location ?? template?.location ?? undefined,
+    description: input.description ?? template?.description ?? undefined,
+    teamId: input.teamId ?? template?.teamId ?? undefined,
+    venueId: input.venueId ?? template?.venueId ?? undefined,
+    reminderMinutes: input.reminderMinutes !== undefined ? input.reminderMinutes : template?.reminderMinutes ?? null,
+    includedUserIds: input.includedUserIds ?? template?.includedAthleteIds ?? [],
+    excludedUserIds: input.excludedUserIds ?? template?.excludedAthleteIds ?? [],
+    staffUserIds: input.staffUserIds ?? template?.staffUserIds ?? [],
+  };
+}
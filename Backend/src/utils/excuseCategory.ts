@@ -0,0 +1,23 @@
+import type { ExcuseCategory } from "@prisma/client";
+
+type CategoryRules = Pick<ExcuseCategory, "name" | "autoApprove" | "requiresAttachment" | "isActive">;
+
+/**
+ * Check an excuse against its category's rules, returning whether it is
+ * approved straight away. Throws when the category can't be used as given.
+ */
+export function applyCategoryRules(category: CategoryRules | null, attachmentCount: number): boolean {
+  if (!category) return false;
+  if (!category.isActive) throw new Error(`The ${category.name} category is no longer available`);
+  if (category.requiresAttachment && attachmentCount === 0) {
+    throw new Error(`${category.name} excuses need a supporting document`);
+  }
+  switch (category.autoApprove) {
+    case "ALWAYS":
+      return true;
+    case "WITH_ATTACHMENT":
+      return attachmentCount > 0;
+    case "NEVER":
+      return false;
+  }
+}
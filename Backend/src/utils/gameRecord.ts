@@ -0,0 +1,60 @@
+import type { HomeAway } from "@prisma/client";
+
+export type GameResult = "WIN" | "LOSS" | "DRAW";
+
+interface Score {
+  teamScore: number | null;
+  opponentScore: number | null;
+}
+
+export interface GameRecord {
+  played: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifferential: number;
+}
+
+/** The team's result for a game, or null until both scores are in. */
+export function gameResult({ teamScore, opponentScore }: Score): GameResult | null {
+  if (teamScore == null || opponentScore == null) return null;
+  if (teamScore > opponentScore) return "WIN";
+  if (teamScore < opponentScore) return "LOSS";
+  return "DRAW";
+}
+
+/** W/L/D and goal totals over the games that have a result; unscored games are skipped. */
+export function summarizeRecord(games: Score[]): GameRecord {
+  const record = { played: 0, wins: 0, losses: 0, draws: 0, goalsFor: 0, goalsAgainst: 0, goalDifferential: 0 };
+  for (const game of games) {
+    const result = gameResult(game);
+    if (!result) continue;
+    record.played++;
+    if (result === "WIN") record.wins++;
+    else if (result === "LOSS") record.losses++;
+    else record.draws++;
+    record.goalsFor += game.teamScore!;
+    record.goalsAgainst += game.opponentScore!;
+  }
+  record.goalDifferential = record.goalsFor - record.goalsAgainst;
+  return record;
+}
+
+/** "3-1-2" style summary (wins-losses-draws). */
+export function formatRecord(record: Pick<GameRecord, "wins" | "losses" | "draws">): string {
+  return `${record.wins}-${record.losses}-${record.draws}`;
+}
+
+/**
+ * One-line result for reports, e.g. "W 3-1 vs Eagles" or "L 0-2 @ Hawks".
+ * Null until the game has been scored.
+ */
+export function formatResultLine(game: Score & { homeAway: HomeAway | null; opponentName: string | null }): string | null {
+  const result = gameResult(game);
+  if (!result) return null;
+  const opponent = game.opponentName ?? "TBD";
+  const against = game.homeAway === "AWAY" ? `@ ${opponent}` : `vs ${opponent}`;
+  return `${result[0]} ${game.teamScore}-${game.opponentScore} ${against}`;
+}
@@ -0,0 +1,206 @@
+import { eventDateTime, getTimeZoneOffset, parseTimeString } from "./time.js";
+
+// Minimal RFC 5545 writer shared by the GraphQL export and the subscribable feeds.
+
+export interface ICalEvent {
+  id: string;
+  title: string;
+  date: Date;
+  endDate?: Date | null;
+  startTime: string;
+  endTime: string;
+  timeZone: string;
+  location?: string | null;
+  description?: string | null;
+  sequence?: number;
+  status?: "SCHEDULED" | "CANCELLED" | "POSTPONED";
+  /** Overrides the per-event UID, e.g. to share a series master's UID */
+  uid?: string;
+  /** Series master: the RRULE is written verbatim and times are anchored to `timeZone` */
+  rrule?: string;
+  /** Instances the master's RRULE generates that don't exist (instants, or days for all-day series) */
+  exdates?: Date[];
+  /** Marks this VEVENT as an override of the master instance starting at this instant */
+  recurrenceId?: Date;
+}
+
+// Postponed events stay on calendars as tentative until they get a new date
+const ICAL_STATUS = { SCHEDULED: "CONFIRMED", CANCELLED: "CANCELLED", POSTPONED: "TENTATIVE" } as const;
+
+/** Format an instant as a UTC iCal datetime: YYYYMMDDTHHMMSSZ */
+export function formatICalDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Format the UTC calendar day of a noon-UTC event date: YYYYMMDD */
+function formatICalDate(date: Date): string {
+  const y = date.getUTCFullYear();
+  const m = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const d = String(date.getUTCDate()).padStart(2, "0");
+  return `${y}${m}${d}`;
+}
+
+/** Wall-clock datetime on a noon-UTC event date: YYYYMMDDTHHMMSS (used with TZID) */
+function formatICalLocalDateTime(date: Date, timeStr: string): string {
+  const { hours, minutes } = parseTimeString(timeStr);
+  return `${formatICalDate(date)}T${String(hours).padStart(2, "0")}${String(minutes).padStart(2, "0")}00`;
+}
+
+/** Escape special iCal text characters */
+export function escapeICalText(str: string): string {
+  return str.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\n/g, "\\n");
+}
+
+/** Stable UID so calendar clients update an event in place instead of duplicating it. */
+export function eventUid(eventId: string): string {
+  return `event-${eventId}@athletiq.app`;
+}
+
+export function seriesUid(recurringEventId: string): string {
+  return `series-${recurringEventId}@athletiq.app`;
+}
+
+export function buildVEvent(e: ICalEvent, stamp: Date): string {
+  const allDay = e.startTime === "All Day";
+  let dtstart: string;
+  let dtend: string;
+
+  if (allDay) {
+    dtstart = `DTSTART;VALUE=DATE:${formatICalDate(e.date)}`;
+    // DTEND is exclusive for all-day events
+    const nextDay = new Date(e.endDate || e.date);
+    nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+    dtend = `DTEND;VALUE=DATE:${formatICalDate(nextDay)}`;
+  } else if (e.rrule) {
+    // Recurrence expands in local time, so instances keep their wall-clock time across DST
+    dtstart = `DTSTART;TZID=${e.timeZone}:${formatICalLocalDateTime(e.date, e.startTime)}`;
+    dtend = `DTEND;TZID=${e.timeZone}:${formatICalLocalDateTime(e.endDate || e.date, e.endTime)}`;
+  } else {
+    dtstart = `DTSTART:${formatICalDateTime(eventDateTime(e.date, e.startTime, e.timeZone))}`;
+    dtend = `DTEND:${formatICalDateTime(eventDateTime(e.endDate || e.date, e.endTime, e.timeZone))}`;
+  }
+
+  const formatInstance = (d: Date) => (allDay ? formatICalDate(d) : formatICalDateTime(d));
+  const valueParam = allDay ? ";VALUE=DATE" : "";
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${e.uid ?? eventUid(e.id)}`,
+    `DTSTAMP:${formatICalDateTime(stamp)}`,
+    `SEQUENCE:${e.sequence ?? 0}`,
+    ...(e.recurrenceId ? [`RECURRENCE-ID${valueParam}:${formatInstance(e.recurrenceId)}`] : []),
+    dtstart,
+    dtend,
+    ...(e.rrule ? [`RRULE:${e.rrule}`] : []),
+    ...(e.exdates?.length ? [`EXDATE${valueParam}:${e.exdates.map(formatInstance).join(",")}`] : []),
+    `SUMMARY:${escapeICalText(e.title)}`,
+    ...(e.location ? [`LOCATION:${escapeICalText(e.location)}`] : []),
+    ...(e.description ? [`DESCRIPTION:${escapeICalText(e.description)}`] : []),
+    `STATUS:${ICAL_STATUS[e.status ?? "SCHEDULED"]}`,
+    "END:VEVENT",
+  ].join("\r\n");
+}
+
+const MINUTE_MS = 60 * 1000;
+const WEEK_MS = 7 * 24 * 60 * MINUTE_MS;
+// Series with a COUNT instead of an UNTIL are described this far ahead
+const OPEN_SERIES_SPAN_MS = 2 * 365 * 24 * 60 * MINUTE_MS;
+
+/** UTC offset as iCal writes it: +HHMM / -HHMM */
+function formatUtcOffset(offsetMs: number): string {
+  const minutes = Math.abs(offsetMs) / MINUTE_MS;
+  const hhmm = `${String(Math.floor(minutes / 60)).padStart(2, "0")}${String(minutes % 60).padStart(2, "0")}`;
+  return `${offsetMs < 0 ? "-" : "+"}${hhmm}`;
+}
+
+/**
+ * VTIMEZONE for a TZID used by series masters (RFC 5545 requires one). Each
+ * offset change between `from` and `to` becomes its own observance, found by
+ * scanning weekly and narrowing to the minute.
+ */
+export function buildVTimezone(timeZone: string, from: Date, to: Date): string {
+  const observance = (onset: Date | null, offsetFrom: number, offsetTo: number, daylight: boolean) => {
+    const kind = daylight ? "DAYLIGHT" : "STANDARD";
+    // The onset is written in the wall time in force just before it
+    const start = onset
+      ? formatICalDateTime(new Date(onset.getTime() + offsetFrom)).slice(0, -1)
+      : "19700101T000000";
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${start}`,
+      `TZOFFSETFROM:${formatUtcOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatUtcOffset(offsetTo)}`,
+      `END:${kind}`,
+    ];
+  };
+
+  const initial = getTimeZoneOffset(from, timeZone);
+  const transitions: { at: Date; offsetFrom: number; offsetTo: number }[] = [];
+  let offset = initial;
+  for (let t = from.getTime(); t < to.getTime(); t += WEEK_MS) {
+    const next = Math.min(t + WEEK_MS, to.getTime());
+    const nextOffset = getTimeZoneOffset(new Date(next), timeZone);
+    if (nextOffset === offset) continue;
+    let [lo, hi] = [t, next];
+    while (hi - lo > MINUTE_MS) {
+      const mid = lo + Math.floor((hi - lo) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (getTimeZoneOffset(new Date(mid), timeZone) === offset) lo = mid;
+      else hi = mid;
+    }
+    transitions.push({ at: new Date(hi), offsetFrom: offset, offsetTo: nextOffset });
+    offset = nextOffset;
+  }
+
+  return [
+    "BEGIN:VTIMEZONE",
+    `TZID:${timeZone}`,
+    ...observance(null, initial, initial, transitions.length > 0 && initial > transitions[0].offsetTo),
+    ...transitions.flatMap((tr) => observance(tr.at, tr.offsetFrom, tr.offsetTo, tr.offsetTo > tr.offsetFrom)),
+    "END:VTIMEZONE",
+  ].join("\r\n");
+}
+
+/** VTIMEZONEs for the zones series masters anchor their local times to. */
+function seriesTimezones(events: ICalEvent[]): string[] {
+  const spans = new Map<string, { from: number; to: number }>();
+  for (const e of events) {
+    if (!e.rrule || e.startTime === "All Day") continue;
+    const until = e.rrule.match(/UNTIL=(\d{4})(\d{2})(\d{2})/);
+    const from = e.date.getTime() - WEEK_MS;
+    const to = until
+      ? Date.UTC(+until[1], +until[2] - 1, +until[3]) + WEEK_MS
+      : e.date.getTime() + OPEN_SERIES_SPAN_MS;
+    const span = spans.get(e.timeZone);
+    spans.set(e.timeZone, { from: Math.min(from, span?.from ?? from), to: Math.max(to, span?.to ?? to) });
+  }
+  return [...spans].map(([timeZone, { from, to }]) => buildVTimezone(timeZone, new Date(from), new Date(to)));
+}
+
+export function buildVCalendar(
+  events: ICalEvent[],
+  options: { name?: string; timeZone?: string; stamp?: Date } = {}
+): string {
+  const stamp = options.stamp ?? new Date();
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//AthletiQ//Events//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(options.name ? [`X-WR-CALNAME:${escapeICalText(options.name)}`] : []),
+    ...(options.timeZone ? [`X-WR-TIMEZONE:${options.timeZone}`] : []),
+    ...seriesTimezones(events),
+    ...events.map((e) => buildVEvent(e, stamp)),
+    "END:VCALENDAR",
+  ].join("\r\n");
+}
+
+/** Human-readable location line for an event, preferring its venue. */
+export function formatEventLocation(event: {
+  location?: string | null;
+  venue?: { name: string; address?: string | null; city?: string | null; country?: string | null } | null;
+}): string {
+  return event.venue
+    ? [event.venue.name, event.venue.address, event.venue.city, event.venue.country].filter(Boolean).join(", ")
+    : event.location || "";
+}
@@ -0,0 +1,107 @@
+import { HeaderMap, type ApolloServerPlugin, type GraphQLResponse } from "@apollo/server";
+import type { FormattedExecutionResult } from "graphql";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db.js";
+
+export const IDEMPOTENCY_HEADER = "idempotency-key";
+// Long enough to cover a phone that stays offline over a weekend tournament
+const KEY_TTL_HOURS = 72;
+const MAX_KEY_LENGTH = 128;
+// A claim this old with no stored response belongs to a request that died mid-flight
+const STALE_CLAIM_MS = 2 * 60 * 1000;
+
+function errorResponse(message: string, code: string): GraphQLResponse {
+  return {
+    http: { status: 200, headers: new HeaderMap() },
+    body: { kind: "single", singleResult: { errors: [{ message, extensions: { code } }] } },
+  };
+}
+
+function replayResponse(result: FormattedExecutionResult): GraphQLResponse {
+  const headers = new HeaderMap();
+  headers.set("idempotent-replayed", "true");
+  return { http: { status: 200, headers }, body: { kind: "single", singleResult: result } };
+}
+
+/**
+ * Makes mutations sent with an `Idempotency-Key` header safe to retry. The
+ * first request claims the key and, once the mutation has executed, its result
+ * is stored, errors included, since the resolver may have written before failing.
+ * A repeat with the same key gets that stored result without running the
+ * resolvers again. The claim is only released when execution never started.
+ * Keys are scoped per user and expire after KEY_TTL_HOURS.
+ */
+export function idempotencyPlugin<TContext extends { userId?: string }>(): ApolloServerPlugin<TContext> {
+  return {
+    async requestDidStart({ request, contextValue }) {
+      const key = request.http?.headers.get(IDEMPOTENCY_HEADER);
+      const userId = contextValue.userId;
+      if (!key || !userId) return;
+
+      let claimId: string | null = null;
+      let executed = false;
+
+      return {
+        async responseForOperation({ operation, operationName }) {
+          if (operation.operation !== "mutation") return null;
+          if (key.length > MAX_KEY_LENGTH) {
+            return errorResponse("Validation error: Idempotency-Key is too long", "BAD_USER_INPUT");
+          }
+          const name = operationName ?? "";
+
+          await prisma.idempotencyKey.deleteMany({
+            where: { userId, createdAt: { lt: new Date(Date.now() - KEY_TTL_HOURS * 60 * 60 * 1000) } },
+          });
+
+          try {
+            const claim = await prisma.idempotencyKey.create({ data: { userId, key, operationName: name } });
+            claimId = claim.id;
+            return null;
+          } catch (err) {
+            if (!(err instanceof Prisma.PrismaClientKnownRequestError) || err.code !== "P2002") throw err;
+          }
+
+          const existing = await prisma.idempotencyKey.findUnique({ where: { userId_key: { userId, key } } });
+          if (!existing) return errorResponse("This request is still being processed", "IDEMPOTENCY_IN_PROGRESS");
+          if (existing.operationName !== name) {
+            return errorResponse("Idempotency-Key was already used for a different mutation", "IDEMPOTENCY_KEY_REUSED");
+          }
+          if (existing.response !== null) {
+            return replayResponse(existing.response as FormattedExecutionResult);
+          }
+
+          // Take over an abandoned claim; the conditional update keeps two retries from both winning
+          if (Date.now() - existing.createdAt.getTime() > STALE_CLAIM_MS) {
+            const { count } = await prisma.idempotencyKey.updateMany({
+              where: { id: existing.id, response: { equals: Prisma.AnyNull }, createdAt: existing.createdAt },
+              data: { createdAt: new Date() },
+            });
+            if (count === 1) {
+              claimId = existing.id;
+              return null;
+            }
+          }
+          return errorResponse("This request is still being processed", "IDEMPOTENCY_IN_PROGRESS");
+        },
+
+        async executionDidStart() {
+          executed = true;
+        },
+
+        async willSendResponse({ response }) {
+          if (!claimId) return;
+          const result = response.body.kind === "single" ? response.body.singleResult : null;
+          if (result && executed) {
+            await prisma.idempotencyKey.update({
+              where: { id: claimId },
+              data: { response: result as Prisma.InputJsonValue },
+            });
+          } else {
+            // Nothing ran, so the client can safely retry under the same key
+            await prisma.idempotencyKey.delete({ where: { id: claimId } });
+          }
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,33 @@
+const MINUTE_MS = 60 * 1000;
+
+/** First retry waits this long, doubling on each further attempt. */
+export const BASE_RETRY_DELAY_MS = 30 * 1000;
+export const MAX_RETRY_DELAY_MS = 15 * MINUTE_MS;
+
+/** Catch-up jobs never look back further than this (7 days). */
+export const MAX_LOOKBACK_MINUTES = 7 * 24 * 60;
+
+/** Delay before retrying a run that failed on `attempt`: 30s, 60s, 120s, ... capped at 15 minutes. */
+export function retryDelayMs(attempt: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempt - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * The cron slot a tick belongs to: the start of its minute. Every task's
+ * timer fires within the same minute for a given occurrence, so the slot
+ * identifies the occurrence across tasks.
+ */
+export function cronSlot(firedAt: Date): Date {
+  return new Date(Math.floor(firedAt.getTime() / MINUTE_MS) * MINUTE_MS);
+}
+
+/**
+ * How far a catch-up job should look back: to just before its last
+ * successful run, at least `minMinutes`, and the full 7 days when it has
+ * never succeeded (fresh database or long outage).
+ */
+export function catchUpLookbackMinutes(lastSucceededAt: Date | null, minMinutes: number, now = new Date()): number {
+  if (!lastSucceededAt) return MAX_LOOKBACK_MINUTES;
+  const sinceLastRun = Math.ceil((now.getTime() - lastSucceededAt.getTime()) / MINUTE_MS) + 5;
+  return Math.min(Math.max(sinceLastRun, minMinutes), MAX_LOOKBACK_MINUTES);
+}
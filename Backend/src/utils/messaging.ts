@@ -0,0 +1,48 @@
+// ─── Guardian visibility for minors ──────────────────────────────────────────
+// A coach (or any org staff) may not message a minor athlete privately: the
+// athlete's guardians in the organization are copied on the thread.
+
+export const ADULT_AGE = 18;
+
+export interface ThreadMember {
+  userId: string;
+  dateOfBirth: Date | null;
+  /** OWNER/ADMIN/MANAGER/COACH in the org, or a coach of one of its teams */
+  isStaff: boolean;
+}
+
+export interface GuardianPair {
+  guardianId: string;
+  athleteId: string;
+}
+
+/** Under ADULT_AGE on `asOf`; false when the birth date is unknown. */
+export function isMinor(dateOfBirth: Date | null, asOf: Date = new Date()): boolean {
+  if (!dateOfBirth) return false;
+  const adultOn = new Date(dateOfBirth);
+  adultOn.setUTCFullYear(adultOn.getUTCFullYear() + ADULT_AGE);
+  return asOf < adultOn;
+}
+
+/**
+ * Guardians who must be added to a thread with these members. Athletes with no
+ * birth date on file are treated as minors when they have a guardian linked.
+ * Members already on the thread are never returned.
+ */
+export function guardiansToCopy(members: ThreadMember[], links: GuardianPair[], asOf: Date = new Date()): string[] {
+  if (!members.some((m) => m.isStaff)) return [];
+
+  const memberIds = new Set(members.map((m) => m.userId));
+  const guarded = new Set(links.map((l) => l.athleteId));
+  const minors = new Set(
+    members
+      .filter((m) => !m.isStaff && (isMinor(m.dateOfBirth, asOf) || (!m.dateOfBirth && guarded.has(m.userId))))
+      .map((m) => m.userId)
+  );
+
+  const copied = new Set<string>();
+  for (const link of links) {
+    if (minors.has(link.athleteId) && !memberIds.has(link.guardianId)) copied.add(link.guardianId);
+  }
+  return [...copied];
+}
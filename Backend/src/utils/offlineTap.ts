@@ -0,0 +1,41 @@
+export const MAX_OFFLINE_TAP_AGE_HOURS = 24;
+export const MAX_DEVICE_CLOCK_SKEW_MINUTES = 60;
+// Allow for request latency between the device stamping deviceNow and the server reading it
+const FUTURE_TOLERANCE_MS = 2 * 60 * 1000;
+
+export interface OfflineTap {
+  /** Device clock when the tag was tapped (ISO 8601) */
+  tappedAt: string;
+  /** Device clock when the queued tap was sent (ISO 8601) */
+  deviceNow: string;
+}
+
+/**
+ * Convert a tap time recorded on a device into server time. The device's
+ * offset from the server (deviceNow vs. serverNow) is applied to tappedAt so
+ * a phone running a few minutes fast or slow doesn't flip ON_TIME/LATE.
+ * Throws when the result isn't believable: a clock that's badly off, a tap
+ * from the future, or one older than MAX_OFFLINE_TAP_AGE_HOURS.
+ */
+export function resolveOfflineTapTime(tap: OfflineTap, serverNow: Date = new Date()): Date {
+  const tappedAt = new Date(tap.tappedAt);
+  const deviceNow = new Date(tap.deviceNow);
+  if (isNaN(tappedAt.getTime()) || isNaN(deviceNow.getTime())) {
+    throw new Error("Validation error: Offline check-in times must be ISO 8601 timestamps");
+  }
+
+  const skewMs = serverNow.getTime() - deviceNow.getTime();
+  if (Math.abs(skewMs) > MAX_DEVICE_CLOCK_SKEW_MINUTES * 60 * 1000) {
+    throw new Error("Your device clock is too far off to trust the offline check-in time");
+  }
+
+  const corrected = new Date(tappedAt.getTime() + skewMs);
+  if (corrected.getTime() > serverNow.getTime() + FUTURE_TOLERANCE_MS) {
+    throw new Error("Offline check-in time is in the future");
+  }
+  if (serverNow.getTime() - corrected.getTime() > MAX_OFFLINE_TAP_AGE_HOURS * 60 * 60 * 1000) {
+    throw new Error(`Offline check-ins older than ${MAX_OFFLINE_TAP_AGE_HOURS} hours can't be synced`);
+  }
+  // Latency can push a fresh tap slightly past serverNow; never record a future time
+  return corrected > serverNow ? serverNow : corrected;
+}
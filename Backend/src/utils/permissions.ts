@@ -72,6 +72,27 @@ export async function requireOrgOwner(
   return requireOrgRole(context, organizationId, [OrgRole.OWNER]);
 }
 
+/**
+ * Throws FORBIDDEN unless the caller's email is listed in PLATFORM_ADMIN_EMAILS
+ * (comma-separated). Guards operations that span every organization.
+ */
+export async function requirePlatformAdmin(context: Context): Promise<string> {
+  const userId = requireAuth(context);
+  const admins = (process.env.PLATFORM_ADMIN_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  const user = admins.length
+    ? await prisma.user.findUnique({ where: { id: userId }, select: { email: true } })
+    : null;
+  if (!user || !admins.includes(user.email.toLowerCase())) {
+    throw new GraphQLError("Insufficient permissions", {
+      extensions: { code: "FORBIDDEN" },
+    });
+  }
+  return userId;
+}
+
 /**
  * Returns true if the calling user has the given permission in the org.
  * Checks customRole first; falls back to built-in role defaults.
@@ -0,0 +1,93 @@
+// Pub/sub for GraphQL subscriptions.
+// Uses in-memory listeners — a publish only reaches clients connected to the
+// same process. For multi-instance deployments, replace with a Redis-backed
+// implementation of the PubSub interface.
+
+export interface PubSub {
+  publish<T>(topic: string, payload: T): Promise<void>;
+  /** Async iterator of payloads published to `topic`; call return() to unsubscribe. */
+  subscribe<T>(topic: string): AsyncIterableIterator<T>;
+}
+
+type Listener = (payload: unknown) => void;
+
+export class InMemoryPubSub implements PubSub {
+  private listeners = new Map<string, Set<Listener>>();
+
+  async publish<T>(topic: string, payload: T): Promise<void> {
+    for (const listener of this.listeners.get(topic) ?? []) listener(payload);
+  }
+
+  subscribe<T>(topic: string): AsyncIterableIterator<T> {
+    // Payloads published before the consumer asks for them are buffered
+    const queue: T[] = [];
+    const waiting: ((result: IteratorResult<T>) => void)[] = [];
+    let done = false;
+
+    const listener: Listener = (payload) => {
+      const next = waiting.shift();
+      if (next) next({ value: payload as T, done: false });
+      else queue.push(payload as T);
+    };
+
+    if (!this.listeners.has(topic)) this.listeners.set(topic, new Set());
+    this.listeners.get(topic)!.add(listener);
+
+    const close = (): Promise<IteratorResult<T>> => {
+      if (!done) {
+        done = true;
+        const topicListeners = this.listeners.get(topic);
+        topicListeners?.delete(listener);
+        if (topicListeners?.size === 0) this.listeners.delete(topic);
+        queue.length = 0;
+        for (const resolve of waiting.splice(0)) resolve({ value: undefined, done: true });
+      }
+      return Promise.resolve({ value: undefined, done: true });
+    };
+
+    return {
+      next: () => {
+        if (queue.length > 0) return Promise.resolve({ value: queue.shift()!, done: false });
+        if (done) return Promise.resolve({ value: undefined, done: true });
+        return new Promise((resolve) => waiting.push(resolve));
+      },
+      return: close,
+      throw: (err) => {
+        close();
+        return Promise.reject(err);
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  /** Number of active subscribers on a topic (for tests and diagnostics). */
+  listenerCount(topic: string): number {
+    return this.listeners.get(topic)?.size ?? 0;
+  }
+}
+
+/** Only yield payloads matching `predicate`; closing the result unsubscribes the source. */
+export async function* withFilter<T>(
+  source: AsyncIterableIterator<T>,
+  predicate: (payload: T) => boolean | Promise<boolean>
+): AsyncGenerator<T> {
+  try {
+    for await (const payload of source) {
+      if (await predicate(payload)) yield payload;
+    }
+  } finally {
+    await source.return?.();
+  }
+}
+
+// Topic names carry the id being watched so subscribers don't need to filter
+export const topics = {
+  eventCheckInChanged: (eventId: string) => `EVENT_CHECK_IN_CHANGED.${eventId}`,
+  pendingAdHocCheckInAdded: (organizationId: string) => `PENDING_AD_HOC_CHECK_IN_ADDED.${organizationId}`,
+  notificationReceived: (userId: string) => `NOTIFICATION_RECEIVED.${userId}`,
+  messageAdded: (conversationId: string) => `MESSAGE_ADDED.${conversationId}`,
+};
+
+export const pubsub: PubSub = new InMemoryPubSub();
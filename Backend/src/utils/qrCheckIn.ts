@@ -0,0 +1,59 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// QR check-in codes are `<eventId>.<step>.<hmac>`, where step counts
+// QR_STEP_SECONDS intervals since the epoch (TOTP-style). A code is accepted
+// for its own step and the one after it, so a screenshot forwarded to
+// someone who isn't at the venue is useless within a minute.
+// Environment variable: QR_CHECKIN_SECRET
+
+export const QR_STEP_SECONDS = 30;
+/** Steps after the one a code was issued in that it is still accepted for */
+const ACCEPTED_PAST_STEPS = 1;
+
+function getQrSecret(): string {
+  const secret = process.env.QR_CHECKIN_SECRET;
+  if (!secret) throw new Error("QR_CHECKIN_SECRET is not set");
+  return secret;
+}
+
+function timeStep(at: Date): number {
+  return Math.floor(at.getTime() / (QR_STEP_SECONDS * 1000));
+}
+
+function signature(eventId: string, step: number): string {
+  return createHmac("sha256", getQrSecret()).update(`${eventId}.${step}`).digest("base64url");
+}
+
+/** The code to display for an event right now, and when the display should rotate it. */
+export function signQrCheckInCode(eventId: string, now: Date = new Date()): { code: string; expiresAt: Date } {
+  const step = timeStep(now);
+  return {
+    code: `${eventId}.${step}.${signature(eventId, step)}`,
+    expiresAt: new Date((step + 1) * QR_STEP_SECONDS * 1000),
+  };
+}
+
+/**
+ * Returns the event id if the code's signature is valid and it is no more than
+ * ACCEPTED_PAST_STEPS old. Throws a user-facing error for a genuine code that
+ * has expired; returns null for anything that isn't a code we issued.
+ */
+export function verifyQrCheckInCode(code: string, now: Date = new Date()): string | null {
+  const parts = code.trim().split(".");
+  if (parts.length !== 3) return null;
+  const [eventId, stepPart, sig] = parts;
+  if (!eventId || !/^\d+$/.test(stepPart)) return null;
+  const step = Number(stepPart);
+
+  const given = Buffer.from(sig);
+  const expected = Buffer.from(signature(eventId, step));
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+
+  const current = timeStep(now);
+  // A display a second or two ahead of this server shouldn't be rejected
+  if (step > current + 1) return null;
+  if (current - step > ACCEPTED_PAST_STEPS) {
+    throw new Error("This QR code has expired. Scan the code on the screen again.");
+  }
+  return eventId;
+}
@@ -1,7 +1,41 @@
 import { RecurrenceFrequency } from "@prisma/client";
 
-// Generate recurring event dates based on frequency and pattern
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RecurrenceOptions {
+  /** RFC 5545 RRULE (subset); overrides frequency/daysOfWeek when set */
+  rrule?: string | null;
+  /** Individual days to skip (EXDATE) */
+  exdates?: Date[];
+  /** Organization blackout ranges, inclusive */
+  blackouts?: { startDate: Date; endDate: Date }[];
+}
+
+// Generate recurring event dates based on frequency and pattern, or an RRULE,
+// minus EXDATEs and blackout ranges
 export function generateRecurringDates(
+  startDate: Date,
+  endDate: Date,
+  frequency: RecurrenceFrequency,
+  daysOfWeek: number[],
+  options: RecurrenceOptions = {}
+): Date[] {
+  const dates = options.rrule
+    ? expandRRule(parseRRule(options.rrule), startDate, endDate)
+    : generateFrequencyDates(startDate, endDate, frequency, daysOfWeek);
+
+  const skipped = new Set((options.exdates ?? []).map(occurrenceKey));
+  const blackouts = (options.blackouts ?? []).map((b) => ({
+    start: occurrenceKey(b.startDate),
+    end: occurrenceKey(b.endDate),
+  }));
+  return dates.filter((d) => {
+    const key = occurrenceKey(d);
+    return !skipped.has(key) && !blackouts.some((b) => key >= b.start && key <= b.end);
+  });
+}
+
+function generateFrequencyDates(
   startDate: Date,
   endDate: Date,
   frequency: RecurrenceFrequency,
@@ -66,3 +100,268 @@ export function generateRecurringDates(
 
   return dates;
 }
+
+// ─── RRULE (RFC 5545 subset) ─────────────────────────────────────────────────
+// Supported: FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY (ordinals with MONTHLY,
+// e.g. 2SA or -1FR), BYSETPOS, COUNT, UNTIL and WKST. Rules are evaluated on
+// calendar days; the time of day comes from the series.
+
+const RRULE_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// Guards against rules that never produce a date (e.g. the 5th Monday every 12 months)
+const MAX_RRULE_PERIODS = 5000;
+
+export interface RRule {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY";
+  interval: number;
+  byDay: { weekday: number; ordinal?: number }[];
+  bySetPos: number[];
+  count?: number;
+  until?: Date;
+  wkst: number;
+}
+
+function parseRRuleInt(name: string, value: string, { min, max }: { min: number; max: number }): number {
+  const n = Number(value);
+  if (!/^[+-]?\d+$/.test(value) || n < min || n > max || n === 0) {
+    throw new Error(`Invalid RRULE: ${name}=${value}`);
+  }
+  return n;
+}
+
+/** Parse an RRULE string (with or without the "RRULE:" prefix). Throws on anything outside the supported subset. */
+export function parseRRule(rule: string): RRule {
+  const body = rule.trim().replace(/^RRULE:/i, "");
+  const parts = new Map<string, string>();
+  for (const part of body.split(";").filter(Boolean)) {
+    const [key, value] = part.split("=");
+    if (!key || value === undefined) throw new Error(`Invalid RRULE: malformed part "${part}"`);
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") {
+    throw new Error("Invalid RRULE: FREQ must be DAILY, WEEKLY or MONTHLY");
+  }
+
+  const supported = new Set(["FREQ", "INTERVAL", "BYDAY", "BYSETPOS", "COUNT", "UNTIL", "WKST"]);
+  for (const key of parts.keys()) {
+    if (!supported.has(key)) throw new Error(`Invalid RRULE: ${key} is not supported`);
+  }
+  if (parts.has("COUNT") && parts.has("UNTIL")) {
+    throw new Error("Invalid RRULE: COUNT and UNTIL cannot both be set");
+  }
+
+  const byDay = (parts.get("BYDAY") ?? "")
+    .split(",")
+    .filter(Boolean)
+    .map((token) => {
+      const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(token);
+      if (!match) throw new Error(`Invalid RRULE: BYDAY=${token}`);
+      const ordinal = match[1] ? parseRRuleInt("BYDAY", match[1], { min: -5, max: 5 }) : undefined;
+      if (ordinal !== undefined && freq !== "MONTHLY") {
+        throw new Error("Invalid RRULE: BYDAY ordinals are only supported with FREQ=MONTHLY");
+      }
+      return { weekday: RRULE_WEEKDAYS.indexOf(match[2]), ordinal };
+    });
+
+  const bySetPos = (parts.get("BYSETPOS") ?? "")
+    .split(",")
+    .filter(Boolean)
+    .map((v) => parseRRuleInt("BYSETPOS", v, { min: -366, max: 366 }));
+
+  let until: Date | undefined;
+  const untilValue = parts.get("UNTIL");
+  if (untilValue) {
+    const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(untilValue);
+    if (!match) throw new Error(`Invalid RRULE: UNTIL=${untilValue}`);
+    until = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 12));
+  }
+
+  const wkstValue = parts.get("WKST") ?? "MO";
+  const wkst = RRULE_WEEKDAYS.indexOf(wkstValue);
+  if (wkst < 0) throw new Error(`Invalid RRULE: WKST=${wkstValue}`);
+
+  return {
+    freq,
+    interval: parts.has("INTERVAL") ? parseRRuleInt("INTERVAL", parts.get("INTERVAL")!, { min: 1, max: 366 }) : 1,
+    byDay,
+    bySetPos,
+    count: parts.has("COUNT") ? parseRRuleInt("COUNT", parts.get("COUNT")!, { min: 1, max: 1000 }) : undefined,
+    until,
+    wkst,
+  };
+}
+
+/**
+ * Rewrite a rule to end on `until` (a noon-UTC day), dropping any COUNT/UNTIL
+ * it had. Used to bound open-ended rules by the series end date and when a
+ * series is split.
+ */
+export function withRRuleUntil(rule: string, until: Date): string {
+  const kept = rule
+    .trim()
+    .replace(/^RRULE:/i, "")
+    .split(";")
+    .filter((part) => part && !/^(COUNT|UNTIL)=/i.test(part));
+  return [...kept, `UNTIL=${occurrenceKey(until).replace(/-/g, "")}T235959Z`].join(";");
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/** Candidate days within one period (a day, week or month) before BYSETPOS. */
+function rrulePeriodCandidates(rule: RRule, periodStart: Date, dtstart: Date): Date[] {
+  switch (rule.freq) {
+    case "DAILY":
+      return rule.byDay.length === 0 || rule.byDay.some((d) => d.weekday === periodStart.getUTCDay())
+        ? [periodStart]
+        : [];
+
+    case "WEEKLY": {
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map((d) => d.weekday) : [dtstart.getUTCDay()];
+      return Array.from({ length: 7 }, (_, i) => addDays(periodStart, i)).filter((d) =>
+        weekdays.includes(d.getUTCDay())
+      );
+    }
+
+    case "MONTHLY": {
+      const year = periodStart.getUTCFullYear();
+      const month = periodStart.getUTCMonth();
+      const lastDay = daysInMonth(year, month);
+      const day = (d: number) => new Date(Date.UTC(year, month, d, 12));
+
+      if (rule.byDay.length === 0) {
+        return dtstart.getUTCDate() <= lastDay ? [day(dtstart.getUTCDate())] : [];
+      }
+
+      const days = new Set<number>();
+      for (const { weekday, ordinal } of rule.byDay) {
+        const matching: number[] = [];
+        for (let d = 1; d <= lastDay; d++) {
+          if (day(d).getUTCDay() === weekday) matching.push(d);
+        }
+        if (ordinal === undefined) matching.forEach((d) => days.add(d));
+        else {
+          const pick = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+          if (pick !== undefined) days.add(pick);
+        }
+      }
+      return [...days].sort((a, b) => a - b).map(day);
+    }
+  }
+}
+
+function applySetPos(candidates: Date[], bySetPos: number[]): Date[] {
+  if (bySetPos.length === 0) return candidates;
+  const picked = bySetPos
+    .map((pos) => (pos > 0 ? candidates[pos - 1] : candidates[candidates.length + pos]))
+    .filter((d): d is Date => d !== undefined);
+  return [...new Map(picked.map((d) => [d.getTime(), d])).values()].sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * Expand a parsed rule into noon-UTC dates from `startDate` (the rule's DTSTART)
+ * through the earlier of `endDate` and the rule's UNTIL, stopping after COUNT
+ * occurrences.
+ */
+export function expandRRule(rule: RRule, startDate: Date, endDate: Date): Date[] {
+  const dtstart = new Date(Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), startDate.getUTCDate(), 12));
+  const endBound = rule.until && rule.until < endDate ? rule.until : endDate;
+  const end = new Date(Date.UTC(endBound.getUTCFullYear(), endBound.getUTCMonth(), endBound.getUTCDate(), 23, 59, 59));
+  const dates: Date[] = [];
+
+  for (let period = 0; period < MAX_RRULE_PERIODS; period++) {
+    let periodStart: Date;
+    if (rule.freq === "DAILY") {
+      periodStart = addDays(dtstart, period * rule.interval);
+    } else if (rule.freq === "WEEKLY") {
+      const weekStart = addDays(dtstart, -((dtstart.getUTCDay() - rule.wkst + 7) % 7));
+      periodStart = addDays(weekStart, period * 7 * rule.interval);
+    } else {
+      periodStart = new Date(Date.UTC(dtstart.getUTCFullYear(), dtstart.getUTCMonth() + period * rule.interval, 1, 12));
+    }
+    if (periodStart > end) break;
+
+    for (const date of applySetPos(rrulePeriodCandidates(rule, periodStart, dtstart), rule.bySetPos)) {
+      if (date < dtstart) continue;
+      if (date > end) return dates;
+      dates.push(date);
+      if (rule.count !== undefined && dates.length >= rule.count) return dates;
+    }
+  }
+
+  return dates;
+}
+
+/** Calendar-day key for a noon-UTC event date. */
+export function occurrenceKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export interface SeriesOccurrence {
+  id: string;
+  date: Date;
+  // The day the series generated this occurrence on, if it was since moved
+  originalDate?: Date | null;
+  // Fields edited on this occurrence alone; series-wide edits leave them as they are
+  overriddenFields: string[];
+  hasCheckIns: boolean;
+}
+
+export interface SeriesUpdatePlan<T extends Record<string, unknown>> {
+  update: { id: string; data: Partial<T> }[];
+  remove: string[];
+  create: Date[];
+}
+
+/**
+ * Work out how a series edit lands on its generated occurrences. `changes`
+ * is patched onto every occurrence except those with check-ins (never touched)
+ * and fields that occurrence overrides. When the pattern changed, `newDates`
+ * is the regenerated schedule: occurrences on days that dropped out are removed,
+ * and new days are created unless they were deliberately deleted (`skippedDates`).
+ */
+export function planSeriesUpdate<T extends Record<string, unknown>>(
+  occurrences: SeriesOccurrence[],
+  changes: T,
+  newDates: Date[] | null,
+  skippedDates: Date[] = []
+): SeriesUpdatePlan<T> {
+  const plan: SeriesUpdatePlan<T> = { update: [], remove: [], create: [] };
+  const wanted = newDates ? new Set(newDates.map(occurrenceKey)) : null;
+  const covered = new Set(skippedDates.map(occurrenceKey));
+
+  for (const occ of occurrences) {
+    const key = occurrenceKey(occ.originalDate ?? occ.date);
+    covered.add(key);
+    if (occ.hasCheckIns) continue;
+
+    if (wanted && !wanted.has(key)) {
+      plan.remove.push(occ.id);
+      continue;
+    }
+
+    const data = Object.fromEntries(
+      Object.entries(changes).filter(([field, value]) => value !== undefined && !occ.overriddenFields.includes(field))
+    ) as Partial<T>;
+    if (Object.keys(data).length > 0) plan.update.push({ id: occ.id, data });
+  }
+
+  if (newDates) {
+    plan.create = newDates.filter((d) => !covered.has(occurrenceKey(d)));
+  }
+
+  return plan;
+}
+
+/** Closest stored RecurrenceFrequency and days of week for a rule, for views that only understand the simple patterns. */
+export function describeRRule(rule: RRule): { frequency: RecurrenceFrequency; daysOfWeek: number[] } {
+  const frequency: RecurrenceFrequency = rule.freq === "WEEKLY" && rule.interval === 2 ? "BIWEEKLY" : rule.freq;
+  return { frequency, daysOfWeek: [...new Set(rule.byDay.map((d) => d.weekday))].sort() };
+}
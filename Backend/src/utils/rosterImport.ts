@@ -0,0 +1,206 @@
+import type { OrgRole, TeamRole } from "@prisma/client";
+import { collectIssues, rosterRowSchema, type RosterRow } from "./validate.js";
+
+export const MAX_ROSTER_ROWS = 1000;
+
+export interface CsvRecord {
+  /** 1-based line the record starts on, so errors point at the right spot in the file */
+  line: number;
+  cells: string[];
+}
+
+export interface ParsedRosterRow {
+  line: number;
+  /** Raw values echoed back for display, even when the row is invalid */
+  email: string | null;
+  name: string | null;
+  data: RosterRow | null;
+  errors: string[];
+}
+
+type RosterField =
+  | "name"
+  | "firstName"
+  | "lastName"
+  | "email"
+  | "dateOfBirth"
+  | "teams"
+  | "role"
+  | "guardianEmail"
+  | "emergencyContactName"
+  | "emergencyContactRelationship"
+  | "emergencyContactPhone";
+
+// Keys are header cells lowercased with everything but letters and digits removed
+const HEADER_ALIASES: Record<string, RosterField> = {
+  name: "name",
+  fullname: "name",
+  firstname: "firstName",
+  first: "firstName",
+  lastname: "lastName",
+  last: "lastName",
+  surname: "lastName",
+  email: "email",
+  emailaddress: "email",
+  dob: "dateOfBirth",
+  dateofbirth: "dateOfBirth",
+  birthdate: "dateOfBirth",
+  team: "teams",
+  teams: "teams",
+  role: "role",
+  guardianemail: "guardianEmail",
+  parentemail: "guardianEmail",
+  emergencycontact: "emergencyContactName",
+  emergencycontactname: "emergencyContactName",
+  emergencycontactrelationship: "emergencyContactRelationship",
+  emergencyrelationship: "emergencyContactRelationship",
+  emergencycontactphone: "emergencyContactPhone",
+  emergencyphone: "emergencyContactPhone",
+};
+
+/**
+ * Split RFC 4180 CSV into records. Handles quoted cells with embedded commas,
+ * newlines and doubled quotes; blank lines are dropped.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.some((c) => c.trim() !== "")) records.push({ line: recordLine, cells });
+    cells = [];
+    cell = "";
+  };
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === "\n") line++;
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += ch;
+    }
+  }
+  endRecord();
+  return records;
+}
+
+/** Team role a new member gets from their org role — same mapping invites use on accept. */
+export function teamRoleForOrgRole(role: OrgRole): TeamRole {
+  if (role === "COACH") return "COACH";
+  if (role === "ADMIN" || role === "MANAGER") return "ADMIN";
+  return "MEMBER";
+}
+
+function toRowInput(values: Partial<Record<RosterField, string>>) {
+  let { firstName, lastName } = values;
+  if (!firstName && !lastName && values.name) {
+    const [first, ...rest] = values.name.split(/\s+/);
+    firstName = first;
+    lastName = rest.join(" ") || undefined;
+  }
+  const hasContact =
+    values.emergencyContactName || values.emergencyContactRelationship || values.emergencyContactPhone;
+  return {
+    firstName: firstName ?? "",
+    lastName: lastName ?? "",
+    email: values.email ?? "",
+    dateOfBirth: values.dateOfBirth,
+    teams: (values.teams ?? "")
+      .split(/[;|]/)
+      .map((t) => t.trim())
+      .filter(Boolean),
+    role: values.role ?? "ATHLETE",
+    guardianEmail: values.guardianEmail,
+    emergencyContact: hasContact
+      ? {
+          name: values.emergencyContactName ?? "",
+          relationship: values.emergencyContactRelationship ?? "",
+          phone: values.emergencyContactPhone ?? "",
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Parse and validate a roster CSV. Header problems throw; row problems are
+ * collected per row so the whole file can be reviewed in one pass.
+ * Checks that need the database (team names, existing members) happen in
+ * the import service.
+ */
+export function parseRosterCsv(csv: string): ParsedRosterRow[] {
+  const [header, ...records] = parseCsv(csv);
+  if (!header) throw new Error("Validation error: The file is empty");
+  if (records.length > MAX_ROSTER_ROWS) {
+    throw new Error(`Validation error: Import at most ${MAX_ROSTER_ROWS} rows at a time`);
+  }
+
+  const columns = header.cells.map((c) => HEADER_ALIASES[c.toLowerCase().replace(/[^a-z0-9]/g, "")] ?? null);
+  if (!columns.includes("email")) throw new Error("Validation error: The file needs an email column");
+  if (!columns.includes("name") && !(columns.includes("firstName") && columns.includes("lastName"))) {
+    throw new Error("Validation error: The file needs a name column, or first and last name columns");
+  }
+
+  const rows: ParsedRosterRow[] = records.map(({ line, cells }) => {
+    const values: Partial<Record<RosterField, string>> = {};
+    columns.forEach((field, i) => {
+      const value = cells[i]?.trim();
+      if (field && value) values[field] = value;
+    });
+    const input = toRowInput(values);
+    const { data, errors } = collectIssues(rosterRowSchema, input);
+    return {
+      line,
+      email: values.email ?? null,
+      name: [input.firstName, input.lastName].filter(Boolean).join(" ") || null,
+      data,
+      errors: [...errors],
+    };
+  });
+
+  // Cross-row checks: one row per person, and guardian emails can't collide with staff or athlete rows
+  const firstLineByEmail = new Map<string, number>();
+  const roleByEmail = new Map<string, RosterRow["role"]>();
+  for (const row of rows) {
+    if (!row.data) continue;
+    const firstLine = firstLineByEmail.get(row.data.email);
+    if (firstLine !== undefined) {
+      row.errors.push(`${row.data.email} already appears on line ${firstLine}`);
+    } else {
+      firstLineByEmail.set(row.data.email, row.line);
+      roleByEmail.set(row.data.email, row.data.role);
+    }
+  }
+  for (const row of rows) {
+    const guardianEmail = row.data?.guardianEmail;
+    const role = guardianEmail && roleByEmail.get(guardianEmail);
+    if (role && role !== "GUARDIAN") {
+      row.errors.push(`Guardian ${guardianEmail} is listed as ${role.toLowerCase()} in this file`);
+    }
+  }
+
+  return rows.map((row) => (row.errors.length > 0 ? { ...row, data: null } : row));
+}
@@ -0,0 +1,29 @@
+import type { RsvpStatus } from "@prisma/client";
+
+type CapacityRules = { capacity: number | null; rsvpDeadline: Date | null };
+
+/** Open GOING spots, or null when the event has no capacity limit. */
+export function openSpots(capacity: number | null, goingCount: number): number | null {
+  return capacity == null ? null : Math.max(0, capacity - goingCount);
+}
+
+/** True once the event's RSVP deadline has passed. */
+export function isRsvpClosed(event: Pick<CapacityRules, "rsvpDeadline">, now = new Date()): boolean {
+  return !!event.rsvpDeadline && event.rsvpDeadline <= now;
+}
+
+/**
+ * The status an RSVP is actually saved with. A GOING response to a full event
+ * is waitlisted, unless the athlete already holds a spot. Asking for WAITLISTED
+ * directly is treated as asking for GOING. `goingCount` excludes the athlete.
+ */
+export function resolveRsvpStatus(
+  requested: RsvpStatus,
+  event: Pick<CapacityRules, "capacity">,
+  { goingCount, current }: { goingCount: number; current: RsvpStatus | null }
+): RsvpStatus {
+  if (requested !== "GOING" && requested !== "WAITLISTED") return requested;
+  if (current === "GOING") return "GOING";
+  const spots = openSpots(event.capacity, goingCount);
+  return spots === null || spots > 0 ? "GOING" : "WAITLISTED";
+}
@@ -0,0 +1,552 @@
+import type { EventType, HomeAway } from "@prisma/client";
+import { parseCsv } from "./rosterImport.js";
+import { addMinutesToTime, getZonedParts, isValidTimeZone, zonedTimeToUtc } from "./time.js";
+
+export const MAX_SCHEDULE_ROWS = 500;
+
+// Names scoring at least this against a venue, team or opponent count as the same place or side
+export const NAME_MATCH_THRESHOLD = 0.8;
+
+export interface ParsedScheduleRow {
+  /** 1-based line the row (CSV record or VEVENT) starts on */
+  line: number;
+  /** The league's id for the game; CSV rows without one get a derived id */
+  uid: string | null;
+  title: string | null;
+  date: string | null;
+  /** Last day of a multi-day all-day entry */
+  endDate: string | null;
+  /** "6:00 PM" style, or "All Day" */
+  startTime: string | null;
+  endTime: string | null;
+  location: string | null;
+  team: string | null;
+  opponent: string | null;
+  homeAway: HomeAway | null;
+  /** Both sides of "A vs B" when the file doesn't say which one is ours */
+  matchup: { home: string; away: string } | null;
+  type: string | null;
+  description: string | null;
+  cancelled: boolean;
+  errors: string[];
+}
+
+type ScheduleField =
+  | "uid"
+  | "date"
+  | "endDate"
+  | "startTime"
+  | "endTime"
+  | "title"
+  | "type"
+  | "team"
+  | "location"
+  | "opponent"
+  | "homeAway"
+  | "home"
+  | "away"
+  | "description"
+  | "status";
+
+// Keys are header cells lowercased with everything but letters and digits removed
+const HEADER_ALIASES: Record<string, ScheduleField> = {
+  uid: "uid",
+  id: "uid",
+  gameid: "uid",
+  game: "uid",
+  gameno: "uid",
+  gamenumber: "uid",
+  matchid: "uid",
+  eventid: "uid",
+  date: "date",
+  day: "date",
+  gamedate: "date",
+  startdate: "date",
+  enddate: "endDate",
+  time: "startTime",
+  start: "startTime",
+  starttime: "startTime",
+  kickoff: "startTime",
+  end: "endTime",
+  endtime: "endTime",
+  title: "title",
+  summary: "title",
+  event: "title",
+  subject: "title",
+  type: "type",
+  eventtype: "type",
+  category: "type",
+  team: "team",
+  ourteam: "team",
+  venue: "location",
+  location: "location",
+  field: "location",
+  facility: "location",
+  site: "location",
+  rink: "location",
+  arena: "location",
+  court: "location",
+  opponent: "opponent",
+  against: "opponent",
+  vs: "opponent",
+  homeaway: "homeAway",
+  ha: "homeAway",
+  homeoraway: "homeAway",
+  home: "home",
+  hometeam: "home",
+  away: "away",
+  awayteam: "away",
+  visitor: "away",
+  visitors: "away",
+  visitingteam: "away",
+  notes: "description",
+  description: "description",
+  details: "description",
+  comments: "description",
+  status: "status",
+};
+
+const EVENT_TYPES: EventType[] = ["PRACTICE", "EVENT", "MEETING", "REST", "GAME"];
+
+function emptyRow(line: number): ParsedScheduleRow {
+  return {
+    line,
+    uid: null,
+    title: null,
+    date: null,
+    endDate: null,
+    startTime: null,
+    endTime: null,
+    location: null,
+    team: null,
+    opponent: null,
+    homeAway: null,
+    matchup: null,
+    type: null,
+    description: null,
+    cancelled: false,
+    errors: [],
+  };
+}
+
+// ─── Names ────────────────────────────────────────────────────────────────────
+
+/** Lowercase, "&" as "and", punctuation dropped and a leading "the" ignored. */
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .replace(/^the /, "");
+}
+
+function bigrams(text: string): string[] {
+  const compact = normalizeName(text).replace(/ /g, "");
+  const grams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) grams.push(compact.slice(i, i + 2));
+  return grams;
+}
+
+/** Dice coefficient over letter pairs: 1 for the same name, near 0 for unrelated ones. */
+export function nameSimilarity(a: string, b: string): number {
+  if (normalizeName(a) === normalizeName(b)) return 1;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) return 0;
+  const counts = new Map<string, number>();
+  for (const gram of left) counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  let shared = 0;
+  for (const gram of right) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+}
+
+/**
+ * The candidate whose names best match `name`, or null when none reaches
+ * NAME_MATCH_THRESHOLD. An exact match (ignoring case and punctuation) always wins.
+ */
+export function findBestMatch<T>(name: string, candidates: T[], namesOf: (candidate: T) => (string | null)[]): T | null {
+  let best: T | null = null;
+  let bestScore = 0;
+  for (const candidate of candidates) {
+    for (const candidateName of namesOf(candidate)) {
+      if (!candidateName) continue;
+      const score = nameSimilarity(name, candidateName);
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+  }
+  return bestScore >= NAME_MATCH_THRESHOLD ? best : null;
+}
+
+/**
+ * Venue name and address from a location like "Riverside Park Field 2, 12 Main St".
+ * Calendar feeds usually put the address after the first comma.
+ */
+export function splitLocation(location: string): { name: string; address: string | null } {
+  const [name, ...rest] = location.split(",");
+  return { name: name.trim(), address: rest.join(",").trim() || null };
+}
+
+/** "Hawks vs Lakers" → home Hawks; "Hawks @ Lakers" → home Lakers. */
+export function splitMatchup(text: string): { home: string; away: string } | null {
+  const versus = text.match(/^(.+?)\s+(?:vs\.?|v\.?|versus)\s+(.+)$/i);
+  if (versus) return { home: versus[1].trim(), away: versus[2].trim() };
+  const at = text.match(/^(.+?)\s+@\s+(.+)$/);
+  if (at) return { home: at[2].trim(), away: at[1].trim() };
+  return null;
+}
+
+/** An EventType from a type cell, falling back to keywords in the title. */
+export function inferEventType(type: string | null, title: string | null): EventType | null {
+  const explicit = type?.trim().toUpperCase();
+  if (explicit) {
+    if ((EVENT_TYPES as string[]).includes(explicit)) return explicit as EventType;
+    if (/^(MATCH|SCRIMMAGE|FIXTURE)$/.test(explicit)) return "GAME";
+    if (/^TOURNAMENT$/.test(explicit)) return "EVENT";
+  }
+  const text = `${type ?? ""} ${title ?? ""}`.toLowerCase();
+  if (/\b(practice|training|skills)\b/.test(text)) return "PRACTICE";
+  if (/\bmeeting\b/.test(text)) return "MEETING";
+  if (/\b(tournament|jamboree|festival)\b/.test(text)) return "EVENT";
+  if (/\b(game|match|scrimmage|vs|versus)\b|@/.test(text)) return "GAME";
+  return null;
+}
+
+// ─── Dates and times ──────────────────────────────────────────────────────────
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+function formatClock(hours: number, minutes: number): string {
+  return `${hours % 12 || 12}:${pad(minutes)} ${hours < 12 ? "AM" : "PM"}`;
+}
+
+function isRealDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const moved = new Date(Date.UTC(year, month - 1, day + days));
+  return formatDate(moved.getUTCFullYear(), moved.getUTCMonth() + 1, moved.getUTCDate());
+}
+
+/** "2026-10-24", "10/24/2026" or "10/24/26" as YYYY-MM-DD; null when unreadable. */
+export function normalizeDate(value: string): string | null {
+  const iso = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (!iso && !us) return null;
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : [us![3].length === 2 ? 2000 + Number(us![3]) : Number(us![3]), Number(us![1]), Number(us![2])];
+  return isRealDate(year, month, day) ? formatDate(year, month, day) : null;
+}
+
+/** "6pm", "6:00 p.m.", "18:00" or "18:00:00" as "6:00 PM"; "All Day" passes through. */
+export function normalizeTime(value: string): string | null {
+  if (/^all[\s-]?day$/i.test(value)) return "All Day";
+  const match = value.replace(/\./g, "").match(/^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*(am|pm)?$/i);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const period = match[3]?.toUpperCase();
+  if (!period && match[2] === undefined) return null;
+  if (minutes > 59 || (period ? hours < 1 || hours > 12 : hours > 23)) return null;
+  if (period === "PM" && hours !== 12) hours += 12;
+  if (period === "AM" && hours === 12) hours = 0;
+  return formatClock(hours, minutes);
+}
+
+// ─── ICS ──────────────────────────────────────────────────────────────────────
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/** Undo RFC 5545 line folding, keeping the line each logical line starts on. */
+function unfoldIcs(text: string): { line: number; text: string }[] {
+  const lines: { line: number; text: string }[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    if ((raw.startsWith(" ") || raw.startsWith("\t")) && lines.length > 0) {
+      lines[lines.length - 1].text += raw.slice(1);
+    } else if (raw.trim() !== "") {
+      lines.push({ line: i + 1, text: raw });
+    }
+  });
+  return lines;
+}
+
+function parseIcsProperty(text: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '"') quoted = !quoted;
+    else if (text[i] === ":" && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+  const [name, ...rawParams] = text.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf("=");
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: text.slice(colon + 1) };
+}
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === "n" || ch === "N" ? "\n" : ch)).trim();
+}
+
+/**
+ * Calendar day and wall-clock time of a DTSTART/DTEND in `timeZone`. UTC and
+ * TZID times are converted; floating times and unknown TZIDs (e.g. Windows zone
+ * names) are taken as already being in `timeZone`. Dates alone have no time.
+ */
+function parseIcsDateTime(
+  { value, params }: IcsProperty,
+  timeZone: string
+): { date: string; time: string | null } | null {
+  const dateOnly = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (dateOnly) {
+    const [year, month, day] = dateOnly.slice(1).map(Number);
+    return isRealDate(year, month, day) ? { date: formatDate(year, month, day), time: null } : null;
+  }
+  const dateTime = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(?:\d{2})?(Z)?$/);
+  if (!dateTime) return null;
+  const [year, month, day, hours, minutes] = dateTime.slice(1, 6).map(Number);
+  if (!isRealDate(year, month, day) || hours > 23 || minutes > 59) return null;
+
+  const sourceZone = dateTime[6] ? "UTC" : params.TZID && isValidTimeZone(params.TZID) ? params.TZID : null;
+  if (!sourceZone) return { date: formatDate(year, month, day), time: formatClock(hours, minutes) };
+  const local = getZonedParts(zonedTimeToUtc(year, month, day, hours, minutes, sourceZone), timeZone);
+  return { date: formatDate(local.year, local.month, local.day), time: formatClock(local.hours, local.minutes) };
+}
+
+/** Minutes in an ICS DURATION like "PT1H30M" or "P1D"; null for anything else. */
+function parseIcsDuration(value: string): number | null {
+  const match = value.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/);
+  if (!match || value === "P" || value === "PT") return null;
+  return Number(match[1] ?? 0) * 1440 + Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0);
+}
+
+function icsEventRow(line: number, props: IcsProperty[], timeZone: string): ParsedScheduleRow {
+  const row = emptyRow(line);
+  const find = (name: string) => props.find((p) => p.name === name);
+  const text = (name: string) => {
+    const prop = find(name);
+    return prop ? unescapeIcsText(prop.value) || null : null;
+  };
+
+  row.uid = text("UID");
+  if (!row.uid) row.errors.push("The entry has no UID, so a re-import couldn't find it again");
+  row.title = text("SUMMARY");
+  row.location = text("LOCATION");
+  row.description = text("DESCRIPTION");
+  row.type = text("CATEGORIES");
+  row.cancelled = find("STATUS")?.value.trim().toUpperCase() === "CANCELLED";
+  row.matchup = row.title ? splitMatchup(row.title) : null;
+  if (find("RRULE")) row.errors.push("Repeating entries aren't supported; export each game separately");
+
+  const dtStart = find("DTSTART");
+  const start = dtStart ? parseIcsDateTime(dtStart, timeZone) : null;
+  if (!start) {
+    row.errors.push(dtStart ? "Start date is not a valid date" : "Start date is required");
+    return row;
+  }
+  row.date = start.date;
+
+  const dtEnd = find("DTEND");
+  const end = dtEnd ? parseIcsDateTime(dtEnd, timeZone) : null;
+  if (dtEnd && !end) row.errors.push("End date is not a valid date");
+
+  if (!start.time) {
+    // All-day DTEND is exclusive: the event ends the day before
+    const lastDay = end ? addDays(end.date, -1) : start.date;
+    row.startTime = "All Day";
+    row.endTime = "All Day";
+    row.endDate = lastDay > start.date ? lastDay : null;
+    return row;
+  }
+
+  row.startTime = start.time;
+  const duration = find("DURATION");
+  if (end?.time) {
+    if (end.date !== start.date) row.errors.push("Only all-day entries can run past midnight");
+    else row.endTime = end.time;
+  } else if (duration) {
+    const minutes = parseIcsDuration(duration.value.trim());
+    row.endTime = minutes === null ? null : addMinutesToTime(start.time, minutes);
+    if (!row.endTime) row.errors.push("Only all-day entries can run past midnight");
+  }
+  return row;
+}
+
+function parseIcs(text: string, timeZone: string): ParsedScheduleRow[] {
+  const rows: ParsedScheduleRow[] = [];
+  let current: { line: number; props: IcsProperty[] } | null = null;
+  // Nested components (VALARM) have their own DTSTART/DESCRIPTION to ignore
+  let depth = 0;
+
+  for (const { line, text: content } of unfoldIcs(text)) {
+    const prop = parseIcsProperty(content);
+    if (!prop) continue;
+    const component = prop.value.trim().toUpperCase();
+    if (prop.name === "BEGIN" && component === "VEVENT") {
+      current = { line, props: [] };
+      depth = 0;
+    } else if (prop.name === "END" && component === "VEVENT" && current) {
+      rows.push(icsEventRow(current.line, current.props, timeZone));
+      current = null;
+    } else if (current && prop.name === "BEGIN") {
+      depth++;
+    } else if (current && prop.name === "END") {
+      depth--;
+    } else if (current && depth === 0) {
+      current.props.push(prop);
+    }
+  }
+  return rows;
+}
+
+// ─── CSV ──────────────────────────────────────────────────────────────────────
+
+function parseHomeAway(value: string): HomeAway | null {
+  if (/^h(ome)?$/i.test(value)) return "HOME";
+  if (/^a(way)?$/i.test(value)) return "AWAY";
+  if (/^n(eutral)?$/i.test(value)) return "NEUTRAL";
+  return null;
+}
+
+function csvRow(line: number, values: Partial<Record<ScheduleField, string>>): ParsedScheduleRow {
+  const row = emptyRow(line);
+  row.uid = values.uid ?? null;
+  row.title = values.title ?? null;
+  row.location = values.location ?? null;
+  row.team = values.team ?? null;
+  row.opponent = values.opponent ?? null;
+  row.type = values.type ?? null;
+  row.description = values.description ?? null;
+  row.cancelled = /cancel/i.test(values.status ?? "");
+
+  if (values.home && values.away) row.matchup = { home: values.home, away: values.away };
+  else if (row.title && !row.opponent) row.matchup = splitMatchup(row.title);
+  if (values.homeAway) {
+    row.homeAway = parseHomeAway(values.homeAway);
+    if (!row.homeAway) row.errors.push(`Home/away must be home, away or neutral, not "${values.homeAway}"`);
+  }
+
+  // A date cell can carry the time too ("2026-10-24 18:00", "2026-10-24T18:00")
+  const [dateText, timeInDate] = (values.date ?? "").split(/[ T](.+)/);
+  const startText = values.startTime ?? timeInDate?.trim();
+  row.date = dateText ? normalizeDate(dateText) : null;
+  if (!dateText) row.errors.push("Date is required");
+  else if (!row.date) row.errors.push(`"${dateText}" is not a date`);
+  if (values.endDate) {
+    row.endDate = normalizeDate(values.endDate);
+    if (!row.endDate) row.errors.push(`"${values.endDate}" is not a date`);
+    else if (row.date && row.endDate < row.date) row.errors.push("End date can't be before the date");
+    else if (row.endDate === row.date) row.endDate = null;
+  }
+
+  row.startTime = startText ? normalizeTime(startText) : null;
+  if (!startText) row.errors.push("Start time is required");
+  else if (!row.startTime) row.errors.push(`"${startText}" is not a time`);
+  if (values.endTime) {
+    row.endTime = normalizeTime(values.endTime);
+    if (!row.endTime) row.errors.push(`"${values.endTime}" is not a time`);
+  }
+  if (row.endDate && row.startTime && row.startTime !== "All Day") {
+    row.errors.push("Only all-day entries can span several days");
+  }
+  if (row.startTime === "All Day") row.endTime = "All Day";
+  return row;
+}
+
+function parseScheduleCsv(text: string): ParsedScheduleRow[] {
+  const [header, ...records] = parseCsv(text);
+  if (!header) throw new Error("Validation error: The file is empty");
+  const columns = header.cells.map((c) => HEADER_ALIASES[c.toLowerCase().replace(/[^a-z0-9]/g, "")] ?? null);
+  if (!columns.includes("date")) throw new Error("Validation error: The file needs a date column");
+  if (
+    !columns.includes("title") &&
+    !columns.includes("opponent") &&
+    !(columns.includes("home") && columns.includes("away"))
+  ) {
+    throw new Error("Validation error: The file needs a title or opponent column, or home and away columns");
+  }
+
+  const rows = records.map(({ line, cells }) => {
+    const values: Partial<Record<ScheduleField, string>> = {};
+    columns.forEach((field, i) => {
+      const value = cells[i]?.trim();
+      if (field && value) values[field] = value;
+    });
+    return csvRow(line, values);
+  });
+
+  // Spreadsheets rarely carry an id, so derive one that survives a reschedule:
+  // the nth game between the same two sides keeps its key when its date moves.
+  const seen = new Map<string, number>();
+  const byDate = rows.filter((r) => !r.uid).sort((a, b) => (a.date ?? "").localeCompare(b.date ?? "") || a.line - b.line);
+  for (const row of byDate) {
+    const sides = row.matchup
+      ? [row.matchup.home, row.matchup.away].map(normalizeName).sort()
+      : [normalizeName(row.team ?? ""), normalizeName(row.opponent ?? row.title ?? "")];
+    const key = sides.join("|");
+    const nth = (seen.get(key) ?? 0) + 1;
+    seen.set(key, nth);
+    row.uid = `csv:${key}|${nth}`;
+  }
+  return rows;
+}
+
+// ─── Entry point ──────────────────────────────────────────────────────────────
+
+/**
+ * Parse an uploaded league schedule — an iCalendar feed or a CSV export,
+ * detected by content — into rows with dates and wall-clock times in
+ * `timeZone`. File-level problems throw; row problems are collected per row.
+ * Matching teams, venues and opponents needs the database and happens in the
+ * import service.
+ */
+export function parseScheduleFile(content: string, timeZone: string): ParsedScheduleRow[] {
+  const text = content.replace(/^\uFEFF/, "");
+  const isIcs = /^\s*BEGIN:VCALENDAR/i.test(text);
+  const rows = isIcs ? parseIcs(text, timeZone) : parseScheduleCsv(text);
+  if (rows.length === 0) {
+    throw new Error(`Validation error: ${isIcs ? "The calendar has no events" : "The file has no games"}`);
+  }
+  if (rows.length > MAX_SCHEDULE_ROWS) {
+    throw new Error(`Validation error: Import at most ${MAX_SCHEDULE_ROWS} games at a time`);
+  }
+
+  const firstLineByUid = new Map<string, number>();
+  for (const row of rows) {
+    if (!row.uid) continue;
+    const firstLine = firstLineByUid.get(row.uid);
+    if (firstLine !== undefined) row.errors.push(`Same game id as line ${firstLine}`);
+    else firstLineByUid.set(row.uid, row.line);
+  }
+  return rows;
+}
@@ -0,0 +1,43 @@
+// Carriers concatenate longer messages, but every extra segment is billed
+export const SMS_MAX_LENGTH = 320;
+
+export const SMS_OPT_OUT_FOOTER = "Reply STOP to opt out.";
+
+// Keywords carriers and SNS treat as opt-out / opt-in (case-insensitive, whole message)
+const STOP_KEYWORDS = new Set(["STOP", "STOPALL", "UNSUBSCRIBE", "CANCEL", "END", "QUIT", "OPTOUT"]);
+const START_KEYWORDS = new Set(["START", "UNSTOP", "YES", "OPTIN"]);
+
+/**
+ * Normalize a phone number to E.164. Stored numbers are digits only (see
+ * sanitizePhone); ten-digit numbers are taken as North American.
+ * Returns null for anything that can't be a valid number.
+ */
+export function toE164(phone: string | null | undefined): string | null {
+  if (!phone) return null;
+  const digits = phone.replace(/\D/g, "");
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length < 11 || digits.length > 15 || digits.startsWith("0")) return null;
+  return `+${digits}`;
+}
+
+/** Classify an inbound message body as an opt-out or opt-in request. */
+export function parseSmsKeyword(body: string): "STOP" | "START" | null {
+  const word = body.trim().toUpperCase().replace(/[^A-Z]/g, "");
+  if (STOP_KEYWORDS.has(word)) return "STOP";
+  if (START_KEYWORDS.has(word)) return "START";
+  return null;
+}
+
+/** "Title: message" with the opt-out footer, trimmed to fit SMS_MAX_LENGTH. */
+export function formatSms(title: string, message: string): string {
+  const footer = ` ${SMS_OPT_OUT_FOOTER}`;
+  const body = `${title}: ${message}`.replace(/\s+/g, " ").trim();
+  const room = SMS_MAX_LENGTH - footer.length;
+  const clipped = body.length > room ? `${body.slice(0, room - 1).trimEnd()}…` : body;
+  return `${clipped}${footer}`;
+}
+
+/** Calendar month (UTC) that SMS usage is counted against, e.g. "2026-10". */
+export function usageMonth(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
@@ -0,0 +1,93 @@
+import { createVerify } from "crypto";
+
+/** The JSON envelope SNS POSTs to HTTPS subscriptions. */
+export interface SnsEnvelope {
+  Type?: string;
+  MessageId?: string;
+  TopicArn?: string;
+  Subject?: string;
+  Message?: string;
+  Timestamp?: string;
+  Token?: string;
+  SubscribeURL?: string;
+  SignatureVersion?: string;
+  Signature?: string;
+  SigningCertURL?: string;
+}
+
+// Fields SNS signs, in order; absent optional fields (Subject) are skipped
+const SIGNED_FIELDS: Record<string, (keyof SnsEnvelope)[]> = {
+  Notification: ["Message", "MessageId", "Subject", "Timestamp", "TopicArn", "Type"],
+  SubscriptionConfirmation: ["Message", "MessageId", "SubscribeURL", "Timestamp", "Token", "TopicArn", "Type"],
+  UnsubscribeConfirmation: ["Message", "MessageId", "SubscribeURL", "Timestamp", "Token", "TopicArn", "Type"],
+};
+
+const SNS_HOST = /^sns\.[a-z0-9-]+\.amazonaws\.com(\.cn)?$/;
+
+/** True for an HTTPS URL on an SNS endpoint, e.g. the signing cert or SubscribeURL. */
+export function isSnsUrl(url: string | undefined): boolean {
+  if (!url) return false;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === "https:" && SNS_HOST.test(parsed.hostname);
+  } catch {
+    return false;
+  }
+}
+
+/** The canonical "Key\nValue\n" string SNS signs for this message, or null for unknown types. */
+export function snsStringToSign(envelope: SnsEnvelope): string | null {
+  const fields = envelope.Type ? SIGNED_FIELDS[envelope.Type] : undefined;
+  if (!fields) return null;
+  let signed = "";
+  for (const field of fields) {
+    const value = envelope[field];
+    if (value === undefined) {
+      if (field === "Subject") continue;
+      return null;
+    }
+    signed += `${field}\n${value}\n`;
+  }
+  return signed;
+}
+
+const certCache = new Map<string, Promise<string>>();
+
+async function fetchSigningCert(url: string): Promise<string> {
+  let cert = certCache.get(url);
+  if (!cert) {
+    cert = fetch(url).then((res) => {
+      if (!res.ok) throw new Error(`SNS signing certificate fetch failed: ${res.status}`);
+      return res.text();
+    });
+    // Don't cache a failed fetch
+    cert.catch(() => certCache.delete(url));
+    certCache.set(url, cert);
+  }
+  return cert;
+}
+
+/**
+ * Checks an SNS message's signature against the certificate it names, which
+ * must be served by SNS itself. Anything unsigned, of an unknown type or with
+ * a certificate from elsewhere is rejected.
+ */
+export async function verifySnsMessage(
+  envelope: SnsEnvelope,
+  loadCert: (url: string) => Promise<string> = fetchSigningCert
+): Promise<boolean> {
+  const signed = snsStringToSign(envelope);
+  if (!signed || !envelope.Signature || !isSnsUrl(envelope.SigningCertURL)) return false;
+  if (!new URL(envelope.SigningCertURL!).pathname.endsWith(".pem")) return false;
+
+  const algorithm =
+    envelope.SignatureVersion === "1" ? "RSA-SHA1" : envelope.SignatureVersion === "2" ? "RSA-SHA256" : null;
+  if (!algorithm) return false;
+
+  const cert = await loadCert(envelope.SigningCertURL!);
+  try {
+    return createVerify(algorithm).update(signed, "utf8").verify(cert, envelope.Signature, "base64");
+  } catch {
+    return false;
+  }
+}
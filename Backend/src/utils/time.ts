@@ -107,3 +107,164 @@ export function computeEventDuration(startTime: string, endTime: string): number
   const minutes = (end.hours * 60 + end.minutes) - (start.hours * 60 + start.minutes);
   return Math.max(0, minutes / 60);
 }
+
+/**
+ * The clock time `minutes` after `timeStr`, written the same way ("7:30 PM" or
+ * "19:30"). Returns null when that would run past midnight.
+ */
+export function addMinutesToTime(timeStr: string, minutes: number): string | null {
+  const start = parseTimeString(timeStr.trim());
+  const total = start.hours * 60 + start.minutes + minutes;
+  if (isNaN(total) || total >= 24 * 60) return null;
+  const hours = Math.floor(total / 60);
+  const mm = String(total % 60).padStart(2, "0");
+  if (/(AM|PM)$/i.test(timeStr.trim())) return `${hours % 12 || 12}:${mm} ${hours < 12 ? "AM" : "PM"}`;
+  return `${String(hours).padStart(2, "0")}:${mm}`;
+}
+
+// ─── Time zones ───────────────────────────────────────────────────────────────
+// Event.date holds the calendar day (noon UTC) and startTime/endTime hold
+// wall-clock strings, so turning an event into real instants needs the IANA
+// zone the event happens in — never the server's local zone.
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+// Event.date can sit up to ~26h away from the wall-clock start/end of its day
+// (UTC-12 to UTC+14), so date-column range queries are widened by this much
+// before filtering on the computed instants.
+export const EVENT_DATE_SLACK_MS = 36 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Wall-clock components (month is 1-12) of an instant as seen in the given zone. */
+export function getZonedParts(
+  instant: Date,
+  timeZone: string
+): { year: number; month: number; day: number; hours: number; minutes: number; seconds: number } {
+  const parts: Record<string, number> = {};
+  for (const part of getZonedFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value, 10);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hours: parts.hour,
+    minutes: parts.minute,
+    seconds: parts.second,
+  };
+}
+
+/** Offset of the zone from UTC at the given instant in ms (e.g. -4h for EDT). */
+export function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const p = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hours, p.minutes, p.seconds);
+  return asUtc - (instant.getTime() - instant.getUTCMilliseconds());
+}
+
+/**
+ * Convert a wall-clock time in `timeZone` to the UTC instant it denotes.
+ * Times skipped by a spring-forward transition resolve to the same offset past
+ * the gap (2:30 → 3:30); repeated fall-back times resolve to the first occurrence.
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hours: number,
+  minutes: number,
+  timeZone: string
+): Date {
+  const guess = Date.UTC(year, month - 1, day, hours, minutes);
+  // Offsets on either side of any transition near this wall time
+  const offsetBefore = getTimeZoneOffset(new Date(guess - DAY_MS), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(guess + DAY_MS), timeZone);
+  const candidates = [guess - offsetBefore, guess - offsetAfter].filter(
+    (candidate) => getTimeZoneOffset(new Date(candidate), timeZone) === guess - candidate
+  );
+  if (candidates.length > 0) return new Date(Math.min(...candidates));
+  // No offset round-trips: the wall time falls inside a DST gap
+  return new Date(guess - offsetBefore);
+}
+
+/** Combine an Event.date calendar day with a time string like "6:00 PM" in the given zone. */
+export function eventDateTime(date: Date, timeStr: string, timeZone: string): Date {
+  const { hours, minutes } = parseTimeString(timeStr);
+  return zonedTimeToUtc(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), hours, minutes, timeZone);
+}
+
+/**
+ * Start/end instants of an event in its zone. "All Day" events span the whole
+ * calendar day; multi-day events end on endDate.
+ */
+export function getEventWindow(
+  event: { date: Date; endDate?: Date | null; startTime: string; endTime: string },
+  timeZone: string
+): { start: Date; end: Date } {
+  const lastDay = event.endDate ?? event.date;
+  if (event.startTime === "All Day" || event.endTime === "All Day") {
+    return {
+      start: eventDateTime(event.date, "0:00", timeZone),
+      end: eventDateTime(lastDay, "23:59", timeZone),
+    };
+  }
+  return {
+    start: eventDateTime(event.date, event.startTime, timeZone),
+    end: eventDateTime(lastDay, event.endTime, timeZone),
+  };
+}
+
+/** The zone an event's wall-clock times are in: the venue's override, else the organization's. */
+export function eventTimeZone(event: {
+  organization?: { timezone: string } | null;
+  venue?: { timezone: string | null } | null;
+}): string {
+  return event.venue?.timezone || event.organization?.timezone || DEFAULT_TIMEZONE;
+}
+
+/**
+ * Event.date bounds of the calendar day `instant` falls on in `timeZone`,
+ * for querying "today's" events the way they are stored (UTC calendar days).
+ */
+export function getZonedDayRange(instant: Date, timeZone: string): { start: Date; end: Date } {
+  const { year, month, day } = getZonedParts(instant, timeZone);
+  return {
+    start: new Date(Date.UTC(year, month - 1, day, 0, 0, 0, 0)),
+    end: new Date(Date.UTC(year, month - 1, day, 23, 59, 59, 999)),
+  };
+}
+
+/** Noon-UTC Event.date value for the calendar day `instant` falls on in `timeZone`. */
+export function toZonedCalendarDate(instant: Date, timeZone: string): Date {
+  const { year, month, day } = getZonedParts(instant, timeZone);
+  return new Date(Date.UTC(year, month - 1, day, 12, 0, 0));
+}
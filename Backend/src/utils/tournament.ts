@@ -0,0 +1,76 @@
+import { summarizeRecord, type GameRecord } from "./gameRecord.js";
+
+interface PlacedGame {
+  teamId: string | null;
+  teamScore: number | null;
+  opponentScore: number | null;
+  pool: string | null;
+  bracketRound: number | null;
+  bracketSlot: number | null;
+}
+
+export interface PoolStanding {
+  teamId: string;
+  record: GameRecord;
+}
+
+/**
+ * Name for a knockout round counted from the first: the last round is the
+ * Final, the one before it the Semifinals, and so on.
+ */
+export function bracketRoundName(round: number, totalRounds: number): string {
+  const fromEnd = totalRounds - round;
+  if (fromEnd === 0) return "Final";
+  if (fromEnd === 1) return "Semifinals";
+  if (fromEnd === 2) return "Quarterfinals";
+  return `Round ${round}`;
+}
+
+/** Pool games grouped by pool name, pools in alphabetical order. */
+export function groupPools<T extends PlacedGame>(games: T[]): { name: string; games: T[] }[] {
+  const pools = new Map<string, T[]>();
+  for (const game of games) {
+    if (!game.pool) continue;
+    pools.set(game.pool, [...(pools.get(game.pool) ?? []), game]);
+  }
+  return [...pools.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, poolGames]) => ({ name, games: poolGames }));
+}
+
+/**
+ * Each of our teams' record within a pool, best first: most wins, then goal
+ * differential, then goals scored.
+ */
+export function poolStandings(games: PlacedGame[]): PoolStanding[] {
+  const byTeam = new Map<string, PlacedGame[]>();
+  for (const game of games) {
+    if (!game.teamId) continue;
+    byTeam.set(game.teamId, [...(byTeam.get(game.teamId) ?? []), game]);
+  }
+  return [...byTeam.entries()]
+    .map(([teamId, teamGames]) => ({ teamId, record: summarizeRecord(teamGames) }))
+    .sort(
+      (a, b) =>
+        b.record.wins - a.record.wins ||
+        b.record.goalDifferential - a.record.goalDifferential ||
+        b.record.goalsFor - a.record.goalsFor
+    );
+}
+
+/** Knockout games grouped by round, each round ordered by bracket slot. */
+export function groupBracket<T extends PlacedGame>(games: T[]): { round: number; name: string; games: T[] }[] {
+  const rounds = new Map<number, T[]>();
+  for (const game of games) {
+    if (game.bracketRound == null) continue;
+    rounds.set(game.bracketRound, [...(rounds.get(game.bracketRound) ?? []), game]);
+  }
+  const totalRounds = Math.max(0, ...rounds.keys());
+  return [...rounds.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([round, roundGames]) => ({
+      round,
+      name: bracketRoundName(round, totalRounds),
+      games: roundGames.sort((a, b) => (a.bracketSlot ?? Infinity) - (b.bracketSlot ?? Infinity)),
+    }));
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { isValidTimeZone } from "./time.js";
 
 // ─── Primitives ───────────────────────────────────────────────────────────────
 
@@ -15,6 +16,8 @@ const emailSchema = z.string().email("Must be a valid email address").trim().toL
 
 const optionalEmail = z.string().email("Must be a valid email address").trim().toLowerCase().optional();
 
+const timeZoneSchema = z.string().trim().refine(isValidTimeZone, "Must be a valid IANA time zone (e.g. America/Toronto)");
+
 // ─── validate() ───────────────────────────────────────────────────────────────
 
 /**
@@ -36,6 +39,25 @@ export function validate<T>(schema: z.ZodSchema<T>, data: unknown): T {
   return result.data;
 }
 
+/**
+ * Like validate(), but returns every issue instead of throwing, for batch
+ * input where each bad record is reported back alongside the good ones.
+ */
+export function collectIssues<T>(
+  schema: z.ZodSchema<T>,
+  data: unknown
+): { data: T; errors: [] } | { data: null; errors: string[] } {
+  const result = schema.safeParse(data);
+  if (result.success) return { data: result.data, errors: [] };
+  const issues =
+    (result.error as unknown as { issues?: Array<{ message: string; path: PropertyKey[] }> }).issues ?? [];
+  if (issues.length === 0) return { data: null, errors: [String(result.error)] };
+  return {
+    data: null,
+    errors: issues.map((i) => (i.path.length > 0 ? `${i.path.map(String).join(".")}: ${i.message}` : i.message)),
+  };
+}
+
 // ─── User ─────────────────────────────────────────────────────────────────────
 
 export const createUserInputSchema = z.object({
@@ -72,6 +94,22 @@ export const createOrganizationInputSchema = z.object({
   logo: optionalShortStr(500),
 });
 
+export const updateOrganizationSettingsInputSchema = z.object({
+  timezone: timeZoneSchema.optional(),
+});
+
+// ─── Venue ────────────────────────────────────────────────────────────────────
+
+export const venueInputSchema = z.object({
+  name: optionalShortStr(100),
+  address: optionalShortStr(200),
+  city: optionalShortStr(100),
+  state: optionalShortStr(100),
+  country: optionalShortStr(100),
+  notes: longStr(1000),
+  timezone: timeZoneSchema.or(z.literal("")).nullable().optional(),
+});
+
 // ─── Event ────────────────────────────────────────────────────────────────────
 
 const EVENT_TYPES = [
@@ -79,6 +117,12 @@ const EVENT_TYPES = [
   "practice", "game", "meeting", "tournament", "scrimmage", "other",
 ] as const;
 
+const reminderMinutes = z
+  .number()
+  .int("Reminder must be a whole number of minutes")
+  .min(5, "Reminders must be at least 5 minutes before")
+  .max(24 * 60, "Reminders can be at most a day before");
+
 export const createEventInputSchema = z.object({
   title: shortStr(200),
   description: longStr(1000),
@@ -91,17 +135,165 @@ export const createEventInputSchema = z.object({
   location: optionalShortStr(200),
   venueId: optionalShortStr(50),
   notes: longStr(2000),
+  opponentId: optionalShortStr(50),
+  homeAway: z.enum(["HOME", "AWAY", "NEUTRAL"]).optional(),
+  capacity: z.number().int("Capacity must be a whole number").min(1, "Capacity must be at least 1").max(10000).nullable().optional(),
+  rsvpDeadline: z
+    .string()
+    .trim()
+    .refine((s) => !isNaN(Date.parse(s)), "RSVP deadline must be a valid date and time")
+    .nullable()
+    .optional(),
+  eventGroupId: optionalShortStr(50),
+  reminderMinutes: reminderMinutes.nullable().optional(),
 });
 
 export const updateEventInputSchema = createEventInputSchema.partial().omit({ organizationId: true });
 
+export const cancelEventInputSchema = z.object({
+  reason: longStr(500),
+});
+
+export const rescheduleEventInputSchema = z
+  .object({
+    date: optionalShortStr(20),
+    endDate: optionalShortStr(20),
+    startTime: optionalShortStr(20),
+    endTime: optionalShortStr(20),
+    reason: longStr(500),
+  })
+  .refine((d) => d.date || (!d.endDate && !d.startTime && !d.endTime), {
+    message: "A new date is required when changing times; omit all fields to postpone",
+  });
+
+export const recurringEventChangesSchema = z
+  .object({
+    title: shortStr(200).optional(),
+    startTime: optionalShortStr(20),
+    endTime: optionalShortStr(20),
+    location: optionalShortStr(200),
+    description: longStr(1000),
+    venueId: optionalShortStr(50).nullable(),
+    daysOfWeek: z
+      .array(z.number().int().min(0).max(6, "Days of week must be 0 (Sun) to 6 (Sat)"))
+      .min(1, "At least one day of the week is required")
+      .optional(),
+  })
+  .refine((d) => Object.values(d).some((v) => v !== undefined), { message: "No changes given" });
+
+export const blackoutDateInputSchema = z
+  .object({
+    name: shortStr(100),
+    startDate: shortStr(20),
+    endDate: shortStr(20),
+  })
+  .refine((d) => d.endDate >= d.startDate, { message: "End date must be on or after start date" });
+
+// ─── Event Templates ──────────────────────────────────────────────────────────
+
+const userIdList = z.array(shortStr(50)).max(500, "Too many people on one template");
+
+export const eventTemplateInputSchema = z.object({
+  name: shortStr(100),
+  title: shortStr(200),
+  type: z.enum(["PRACTICE", "EVENT", "MEETING", "REST", "GAME"], { message: "Invalid event type" }),
+  durationMinutes: z
+    .number()
+    .int("Duration must be a whole number of minutes")
+    .min(5, "Duration must be at least 5 minutes")
+    .max(24 * 60, "Duration can be at most a day"),
+  teamId: optionalShortStr(50),
+  venueId: optionalShortStr(50),
+  location: optionalShortStr(200),
+  description: longStr(1000),
+  reminderMinutes: reminderMinutes.nullable().optional(),
+  includedAthleteIds: userIdList.optional(),
+  excludedAthleteIds: userIdList.optional(),
+  staffUserIds: userIdList.optional(),
+});
+
+// ─── Games ────────────────────────────────────────────────────────────────────
+
+export const opponentInputSchema = z.object({
+  name: shortStr(100),
+  shortName: optionalShortStr(20),
+  notes: longStr(1000),
+});
+
+const score = z.number().int("Scores must be whole numbers").min(0, "Scores can't be negative").max(999);
+
+export const gameScoreInputSchema = z.object({
+  teamScore: score,
+  opponentScore: score,
+});
+
+// ─── Tournaments ──────────────────────────────────────────────────────────────
+
+export const eventGroupInputSchema = z
+  .object({
+    name: shortStr(200),
+    description: longStr(2000),
+    startDate: shortStr(20),
+    endDate: shortStr(20),
+    travelNotes: longStr(5000),
+  })
+  .refine((d) => d.endDate >= d.startDate, { message: "End date must be on or after start date" });
+
+export const gameBracketInputSchema = z.object({
+  pool: optionalShortStr(50),
+  bracketRound: z.number().int().min(1, "Rounds start at 1").max(10).nullable().optional(),
+  bracketSlot: z.number().int().min(1, "Slots start at 1").max(128).nullable().optional(),
+});
+
 // ─── Excuse Request ───────────────────────────────────────────────────────────
 
+/** Most supporting documents one excuse request can carry. */
+export const MAX_EXCUSE_ATTACHMENTS = 5;
+
+export const excuseAttachmentInputSchema = z.object({
+  key: shortStr(300),
+  fileName: shortStr(200),
+  contentType: shortStr(100),
+});
+
 export const createExcuseRequestInputSchema = z.object({
   eventId: shortStr(50),
   reason: shortStr(1000),
+  categoryId: shortStr(50).optional(),
+  attachments: z
+    .array(excuseAttachmentInputSchema)
+    .max(MAX_EXCUSE_ATTACHMENTS, `At most ${MAX_EXCUSE_ATTACHMENTS} attachments`)
+    .optional(),
+});
+
+export const excuseCategoryInputSchema = z.object({
+  organizationId: shortStr(50),
+  name: shortStr(50),
+  autoApprove: z.enum(["NEVER", "ALWAYS", "WITH_ATTACHMENT"]).optional(),
+  requiresAttachment: z.boolean().optional(),
+  isActive: z.boolean().optional(),
 });
 
+/** Longest date range a single absence request may cover, in days. */
+export const MAX_ABSENCE_DAYS = 180;
+
+const calendarDate = (label: string) => z.string().trim().regex(/^\d{4}-\d{2}-\d{2}$/, `${label} must be YYYY-MM-DD`);
+
+export const createAbsenceRequestInputSchema = z
+  .object({
+    userId: shortStr(50),
+    organizationId: shortStr(50),
+    startDate: calendarDate("Start date"),
+    endDate: calendarDate("End date"),
+    reason: shortStr(1000),
+    teamIds: z.array(shortStr(50)).max(20, "At most 20 teams").optional(),
+  })
+  .refine((d) => d.endDate >= d.startDate, { message: "End date must be on or after start date" })
+  .refine(
+    (d) => (Date.parse(d.endDate) - Date.parse(d.startDate)) / (24 * 60 * 60 * 1000) < MAX_ABSENCE_DAYS,
+    { message: `An absence request can cover at most ${MAX_ABSENCE_DAYS} days` }
+  );
+
 // ─── Emergency Contact ────────────────────────────────────────────────────────
 
 export const createEmergencyContactInputSchema = z.object({
@@ -163,6 +355,105 @@ export const submitFeedbackInputSchema = z.object({
   category: optionalShortStr(50),
 });
 
+// ─── Messaging ────────────────────────────────────────────────────────────────
+
+export const startConversationInputSchema = z.object({
+  organizationId: shortStr(50),
+  participantIds: z
+    .array(shortStr(50))
+    .min(1, "Add at least one other participant")
+    .max(50, "A conversation can have at most 50 participants"),
+  title: optionalShortStr(100),
+});
+
+export const messageBodySchema = shortStr(4000);
+
+// ─── Roster Import ────────────────────────────────────────────────────────────
+
+// OWNER is transferred, never imported
+const IMPORTABLE_ROLES = ["ADMIN", "MANAGER", "COACH", "ATHLETE", "GUARDIAN"] as const;
+
+const isPastDate = (value: string) => {
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value) && date.getTime() < Date.now();
+};
+
+export const rosterRowSchema = z
+  .object({
+    firstName: shortStr(100),
+    lastName: shortStr(100),
+    email: emailSchema,
+    dateOfBirth: z
+      .string()
+      .trim()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Date of birth must be YYYY-MM-DD")
+      .refine(isPastDate, "Date of birth must be a real date in the past")
+      .optional(),
+    teams: z.array(shortStr(100)).max(20, "A row can list at most 20 teams"),
+    role: z.preprocess(
+      (v) => (typeof v === "string" ? v.trim().toUpperCase() : v),
+      z.enum(IMPORTABLE_ROLES, { message: "Role must be one of ATHLETE, COACH, MANAGER, ADMIN or GUARDIAN" })
+    ),
+    guardianEmail: optionalEmail,
+    emergencyContact: createEmergencyContactInputSchema.pick({ name: true, relationship: true, phone: true }).optional(),
+  })
+  .refine((r) => !r.guardianEmail || r.role === "ATHLETE", {
+    message: "Only athletes can have a guardian email",
+  })
+  .refine((r) => !r.guardianEmail || r.guardianEmail !== r.email, {
+    message: "Guardian email must differ from the athlete's email",
+  });
+
+export type RosterRow = z.infer<typeof rosterRowSchema>;
+
+// ─── Attendance policy ────────────────────────────────────────────────────────
+
+const policyMinutes = z.number().int().min(0).max(24 * 60).nullable().optional();
+
+export const attendancePolicyInputSchema = z.object({
+  organizationId: shortStr(50),
+  teamId: optionalShortStr(50).nullable(),
+  eventType: z.enum(["PRACTICE", "EVENT", "MEETING", "REST", "GAME"]).nullable().optional(),
+  checkInWindowMinutes: policyMinutes,
+  lateGraceMinutes: policyMinutes,
+  minPresencePercent: z.number().int().min(0).max(100).nullable().optional(),
+});
+
+// ─── Attendance escalations ───────────────────────────────────────────────────
+
+export const escalationRuleInputSchema = z
+  .object({
+    organizationId: shortStr(50),
+    teamId: optionalShortStr(50).nullable(),
+    name: shortStr(100),
+    trigger: z.enum(["ABSENCES_IN_PERIOD", "LATE_STREAK", "ATTENDANCE_BELOW"]),
+    threshold: z.number().int().min(1, "Threshold must be at least 1").max(100, "Threshold must be at most 100"),
+    periodDays: z.number().int().min(1).max(366).nullable().optional(),
+    notifyCoaches: z.boolean().optional(),
+    notifyGuardians: z.boolean().optional(),
+    createFollowUp: z.boolean().optional(),
+    proposedStatus: z.enum(["ACTIVE", "SUSPENDED", "QUIT", "RETIRED"]).nullable().optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((r) => r.trigger !== "ABSENCES_IN_PERIOD" || r.periodDays, {
+    message: "Absence rules need a period in days",
+  })
+  .refine((r) => r.notifyCoaches !== false || r.notifyGuardians || r.createFollowUp || r.proposedStatus, {
+    message: "A rule needs at least one action",
+  });
+
+export const escalationNoteSchema = longStr(1000);
+
+// ─── Kiosk ────────────────────────────────────────────────────────────────────
+
+export const registerKioskDeviceInputSchema = z.object({
+  organizationId: shortStr(50),
+  name: shortStr(100),
+  venueId: optionalShortStr(50),
+});
+
+export const kioskPinSchema = z.string().trim().regex(/^\d{4,6}$/, "PIN must be 4 to 6 digits");
+
 // ─── Payments (#27) ───────────────────────────────────────────────────────────
 
 const INVOICE_STATUSES = ["DRAFT", "SENT", "PAID", "OVERDUE", "CANCELLED"] as const;
@@ -13,7 +13,8 @@ const TAB_ICONS: Record<string, IconName> = {
   index: "home",
   analytics: "trending-up",
   calendar: "calendar",
-  messages: "activity",
+  team: "activity",
+  messages: "message-circle",
   profile: "user",
 };
 
@@ -50,7 +51,7 @@ function GlassTabBar({ state, navigation }: BottomTabBarProps) {
               }}
             >
               <Feather
-                name={route.name === "messages" && isTeamCoach && !isViewingAsGuardian ? "users" : (TAB_ICONS[route.name] ?? "circle")}
+                name={route.name === "team" && isTeamCoach && !isViewingAsGuardian ? "users" : (TAB_ICONS[route.name] ?? "circle")}
                 size={24}
                 color={focused ? "#E6F4FE" : "rgba(255,255,255,0.35)"}
               />
@@ -81,6 +82,7 @@ export default function TabsLayout() {
         <Tabs.Screen name="index" options={{ href: hasOrg ? undefined : null }} />
         <Tabs.Screen name="analytics" options={{ href: hasOrg ? undefined : null }} />
         <Tabs.Screen name="calendar" options={{ href: hasOrg ? undefined : null }} />
+        <Tabs.Screen name="team" options={{ href: hasOrg ? undefined : null }} />
         <Tabs.Screen name="messages" options={{ href: hasOrg ? undefined : null }} />
         <Tabs.Screen name="profile" />
       </Tabs>
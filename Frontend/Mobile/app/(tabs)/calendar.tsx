@@ -5,7 +5,8 @@ import { OrgTeamPicker } from "@/components/OrgTeamPicker";
 import { OrgTeamSubtitle } from "@/components/OrgTeamSubtitle";
 import { AthletePicker } from "@/components/AthletePicker";
 import { GET_EVENTS, GET_CHECKIN_HISTORY, GET_MY_EXCUSE_REQUESTS, GET_MY_RSVPS, GET_ORGANIZATION } from "@/lib/graphql/queries";
-import { CANCEL_EXCUSE_REQUEST, UPSERT_RSVP, DELETE_RSVP, CREATE_EXCUSE_REQUEST, UPDATE_CHECK_IN_TIMES } from "@/lib/graphql/mutations";
+import { CANCEL_EXCUSE_REQUEST } from "@/lib/graphql/mutations";
+import { alertQueued, useOffline } from "@/contexts/OfflineContext";
 import { useQuery, useMutation } from "@apollo/client";
 import { Feather } from "@expo/vector-icons";
 import { Image } from "expo-image";
@@ -43,6 +44,17 @@ type CalendarEvent = {
   team?: { id: string; name: string };
   venue?: { id: string; name: string; address?: string; city?: string } | null;
   rsvps?: { id: string; status: string }[];
+  capacity?: number | null;
+  rsvpDeadline?: string | null;
+  rsvpClosed?: boolean;
+  spotsRemaining?: number | null;
+  eventGroup?: {
+    id: string;
+    name: string;
+    startDate: string;
+    endDate: string;
+    travelNotes?: string | null;
+  } | null;
 };
 
 const AVATAR_SIZE = 45;
@@ -81,6 +93,7 @@ const STATUS_CONFIG: Record<string, { color: string; icon: string; label: string
   LATE: { color: "#f39c12", icon: "clock", label: "Late" },
   ABSENT: { color: "#e74c3c", icon: "x-circle", label: "Absent" },
   EXCUSED: { color: "#9b59b6", icon: "info", label: "Excused" },
+  LEFT_EARLY: { color: "#e67e22", icon: "log-out", label: "Left Early" },
 };
 
 function getMonthData(year: number, month: number) {
@@ -281,20 +294,8 @@ export default function Calendar() {
   const [cancelExcuse] = useMutation(CANCEL_EXCUSE_REQUEST, {
     refetchQueries: ["GetMyExcuseRequests"],
   });
-  const [createExcuseRequest] = useMutation(CREATE_EXCUSE_REQUEST, {
-    refetchQueries: ["GetMyExcuseRequests"],
-  });
-  const [updateCheckInTimes] = useMutation(UPDATE_CHECK_IN_TIMES, {
-    refetchQueries: ["GetCheckInHistory"],
-  });
-
-  const [upsertRsvp] = useMutation(UPSERT_RSVP, {
-    refetchQueries: ["GetMyRsvps"],
-  });
-
-  const [deleteRsvp] = useMutation(DELETE_RSVP, {
-    refetchQueries: ["GetMyRsvps", "GetMyExcuseRequests"],
-  });
+  // RSVPs, time-off requests and time edits go through the outbox so they survive a dead zone
+  const { mutateOrQueue } = useOffline();
 
   // Build lookup maps for check-ins and excuses by eventId
   const checkinByEvent = useMemo(() => {
@@ -338,6 +339,11 @@ export default function Calendar() {
       team: e.team,
       venue: e.venue || null,
       rsvps: e.rsvps || [],
+      capacity: e.capacity,
+      rsvpDeadline: e.rsvpDeadline,
+      rsvpClosed: e.rsvpClosed,
+      spotsRemaining: e.spotsRemaining,
+      eventGroup: e.eventGroup || null,
     }));
   }, [eventsData]);
 
@@ -432,14 +438,34 @@ export default function Calendar() {
 
   const displayedEvents = eventsTab === "upcoming" ? monthUpcoming : monthPast;
 
+  // A tournament's sessions are listed together under one header, where its first session falls
+  const displayedSections = useMemo(() => {
+    const sections: { group: CalendarEvent["eventGroup"]; events: CalendarEvent[] }[] = [];
+    const byGroup = new Map<string, (typeof sections)[number]>();
+    for (const event of displayedEvents) {
+      if (!event.eventGroup) {
+        sections.push({ group: null, events: [event] });
+        continue;
+      }
+      let section = byGroup.get(event.eventGroup.id);
+      if (!section) {
+        section = { group: event.eventGroup, events: [] };
+        byGroup.set(event.eventGroup.id, section);
+        sections.push(section);
+      }
+      section.events.push(event);
+    }
+    return sections;
+  }, [displayedEvents]);
+
   const isEventPast = selectedEvent ? selectedEvent.date < (() => { const d = new Date(); d.setHours(0, 0, 0, 0); return d; })() : false;
   const selectedCheckIn = selectedEvent ? checkinByEvent.get(selectedEvent.id) : null;
   const selectedExcuse = selectedEvent ? excuseByEvent.get(selectedEvent.id) : null;
   const selectedRsvp = selectedEvent ? rsvpByEvent.get(selectedEvent.id) : null;
 
   const rsvpCounts = useMemo(() => {
-    if (!selectedEvent?.rsvps) return { GOING: 0, MAYBE: 0, NOT_GOING: 0 };
-    const counts = { GOING: 0, MAYBE: 0, NOT_GOING: 0 };
+    if (!selectedEvent?.rsvps) return { GOING: 0, MAYBE: 0, NOT_GOING: 0, WAITLISTED: 0 };
+    const counts = { GOING: 0, MAYBE: 0, NOT_GOING: 0, WAITLISTED: 0 };
     for (const r of selectedEvent.rsvps) {
       if (r.status in counts) counts[r.status as keyof typeof counts]++;
     }
@@ -487,11 +513,22 @@ export default function Calendar() {
 
   const handleRsvpPress = async (status: "GOING" | "MAYBE" | "NOT_GOING") => {
     if (!selectedEvent || !targetUserId) return;
+    if (selectedEvent.rsvpClosed) {
+      Alert.alert("RSVPs Closed", "The RSVP deadline for this event has passed. Ask a coach if your plans change.");
+      return;
+    }
     const currentRsvp = rsvpByEvent.get(selectedEvent.id);
+    // Waitlisted athletes see GOING selected; tapping it leaves the waitlist
+    const currentStatus = currentRsvp?.status === "WAITLISTED" ? "GOING" : currentRsvp?.status;
     // Tapping the already-selected status clears it
-    if (currentRsvp?.status === status) {
+    if (currentStatus === status) {
       try {
-        await deleteRsvp({ variables: { userId: targetUserId, eventId: selectedEvent.id } });
+        const result = await mutateOrQueue(
+          "DELETE_RSVP",
+          { userId: targetUserId, eventId: selectedEvent.id },
+          `Clear RSVP for ${selectedEvent.title}`
+        );
+        if (result === "queued") alertQueued();
         setPendingRsvpStatus(null);
         setRsvpNote("");
       } catch (error: any) {
@@ -506,7 +543,12 @@ export default function Calendar() {
       return;
     }
     try {
-      await upsertRsvp({ variables: { input: { userId: targetUserId, eventId: selectedEvent.id, status } } });
+      const result = await mutateOrQueue(
+        "UPSERT_RSVP",
+        { input: { userId: targetUserId, eventId: selectedEvent.id, status } },
+        `RSVP ${status === "GOING" ? "Going" : "Maybe"} to ${selectedEvent.title}`
+      );
+      if (result === "queued") alertQueued();
       setPendingRsvpStatus(null);
       setRsvpNote("");
     } catch (error: any) {
@@ -514,11 +556,35 @@ export default function Calendar() {
     }
   };
 
+  const handleRsvpAllSessions = () => {
+    const group = selectedEvent?.eventGroup;
+    if (!group || !targetUserId) return;
+    const rsvpAll = async (status: "GOING" | "MAYBE" | "NOT_GOING", label: string) => {
+      try {
+        const result = await mutateOrQueue(
+          "RSVP_EVENT_GROUP",
+          { eventGroupId: group.id, userId: targetUserId, status },
+          `RSVP ${label} to ${group.name}`
+        );
+        if (result === "queued") alertQueued();
+      } catch (error: any) {
+        Alert.alert("Error", error.message || "Failed to save RSVPs.");
+      }
+    };
+    Alert.alert(group.name, "Answer for every upcoming session you're part of. Sessions with closed RSVPs are skipped.", [
+      { text: "Going", onPress: () => rsvpAll("GOING", "Going") },
+      { text: "Maybe", onPress: () => rsvpAll("MAYBE", "Maybe") },
+      { text: "Not Going", style: "destructive", onPress: () => rsvpAll("NOT_GOING", "Not Going") },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
   const handleConfirmNotGoing = async () => {
     if (!selectedEvent || !targetUserId) return;
     try {
-      await upsertRsvp({
-        variables: {
+      const result = await mutateOrQueue(
+        "UPSERT_RSVP",
+        {
           input: {
             userId: targetUserId,
             eventId: selectedEvent.id,
@@ -526,7 +592,9 @@ export default function Calendar() {
             note: rsvpNote.trim() || undefined,
           },
         },
-      });
+        `RSVP Not Going to ${selectedEvent.title}`
+      );
+      if (result === "queued") alertQueued();
       setPendingRsvpStatus(null);
       setRsvpNote("");
     } catch (error: any) {
@@ -554,9 +622,12 @@ export default function Calendar() {
       }
       const checkInISO = editCheckInTime ? toISO(editCheckInTime, eventDate!) : undefined;
       const checkOutISO = editCheckOutTime ? toISO(editCheckOutTime, eventDate!) : undefined;
-      await updateCheckInTimes({
-        variables: { checkInId: selectedCheckIn.id, checkInTime: checkInISO, checkOutTime: checkOutISO },
-      });
+      const result = await mutateOrQueue(
+        "UPDATE_CHECK_IN_TIMES",
+        { checkInId: selectedCheckIn.id, checkInTime: checkInISO, checkOutTime: checkOutISO },
+        `Edit times for ${selectedEvent?.title ?? "check-in"}`
+      );
+      if (result === "queued") alertQueued();
       setEditingTimes(false);
     } catch (err: any) {
       Alert.alert("Error", err.message || "Failed to save times.");
@@ -569,9 +640,12 @@ export default function Calendar() {
     if (!selectedEvent || !targetUserId || !timeOffReason.trim()) return;
     setRequestingTimeOff(true);
     try {
-      await createExcuseRequest({
-        variables: { input: { userId: targetUserId, eventId: selectedEvent.id, reason: timeOffReason.trim() } },
-      });
+      const result = await mutateOrQueue(
+        "CREATE_EXCUSE_REQUEST",
+        { input: { userId: targetUserId, eventId: selectedEvent.id, reason: timeOffReason.trim() } },
+        `Time-off request for ${selectedEvent.title}`
+      );
+      if (result === "queued") alertQueued();
       setTimeOffReason("");
       setRequestingTimeOff(false);
     } catch (err: any) {
@@ -785,12 +859,28 @@ export default function Calendar() {
                     </View>
                   )}
 
+                  {selectedEvent.eventGroup && (
+                    <View style={styles.eventModalRow}>
+                      <Feather name="award" size={16} color="rgba(255,255,255,0.6)" />
+                      <Text style={styles.eventModalText}>
+                        Part of {selectedEvent.eventGroup.name}
+                      </Text>
+                    </View>
+                  )}
+
                   {selectedEvent.description && (
                     <Text style={styles.eventModalDescription}>
                       {selectedEvent.description}
                     </Text>
                   )}
 
+                  {selectedEvent.eventGroup?.travelNotes && (
+                    <View style={styles.travelNotesBox}>
+                      <Text style={styles.travelNotesLabel}>Travel Notes</Text>
+                      <Text style={styles.travelNotesText}>{selectedEvent.eventGroup.travelNotes}</Text>
+                    </View>
+                  )}
+
                   {/* Past Event: Attendance / Hours Info */}
                   {isEventPast && (
                     <View style={styles.attendanceSection}>
@@ -947,6 +1037,39 @@ export default function Calendar() {
                       <Text style={styles.attendanceSectionTitle}>Are you going?</Text>
 
                       {/* RSVP Aggregate Counts */}
+                      {/* Capacity and deadline */}
+                      {(selectedEvent.capacity != null || selectedEvent.rsvpDeadline) && (
+                        <View style={{ marginBottom: 10, gap: 2 }}>
+                          {selectedEvent.capacity != null && (
+                            <Text style={{ fontSize: 12, color: selectedEvent.spotsRemaining ? "rgba(255,255,255,0.6)" : "#f39c12" }}>
+                              {selectedEvent.spotsRemaining
+                                ? `${selectedEvent.spotsRemaining} of ${selectedEvent.capacity} spots left`
+                                : "Full — choosing Going adds you to the waitlist"}
+                            </Text>
+                          )}
+                          {selectedEvent.rsvpDeadline && (
+                            <Text style={{ fontSize: 12, color: selectedEvent.rsvpClosed ? "#e74c3c" : "rgba(255,255,255,0.6)" }}>
+                              {selectedEvent.rsvpClosed ? "RSVPs closed " : "RSVPs close "}
+                              {new Date(selectedEvent.rsvpDeadline).toLocaleString("en-US", {
+                                month: "short",
+                                day: "numeric",
+                                hour: "numeric",
+                                minute: "2-digit",
+                              })}
+                            </Text>
+                          )}
+                        </View>
+                      )}
+
+                      {selectedRsvp?.status === "WAITLISTED" && (
+                        <View style={[styles.attendanceStatusBadge, { backgroundColor: "rgba(108,92,231,0.2)", marginBottom: 10, alignSelf: "flex-start" }]}>
+                          <Feather name="clock" size={14} color="#a78bfa" />
+                          <Text style={[styles.attendanceStatusText, { color: "#a78bfa" }]}>
+                            {`Waitlisted${selectedRsvp.waitlistPosition ? ` #${selectedRsvp.waitlistPosition}` : ""} — we'll let you know if a spot opens`}
+                          </Text>
+                        </View>
+                      )}
+
                       {(rsvpCounts.GOING > 0 || rsvpCounts.MAYBE > 0 || rsvpCounts.NOT_GOING > 0) && (
                         <View style={{ flexDirection: "row", gap: 10, marginBottom: 10 }}>
                           {rsvpCounts.GOING > 0 && (
@@ -958,13 +1081,19 @@ export default function Calendar() {
                           {rsvpCounts.NOT_GOING > 0 && (
                             <Text style={{ fontSize: 12, color: "#e74c3c" }}>{rsvpCounts.NOT_GOING} Not Going</Text>
                           )}
+                          {rsvpCounts.WAITLISTED > 0 && (
+                            <Text style={{ fontSize: 12, color: "#a78bfa" }}>{rsvpCounts.WAITLISTED} Waitlisted</Text>
+                          )}
                         </View>
                       )}
 
                       {/* RSVP Pill Buttons */}
                       <View style={styles.rsvpPillRow}>
                         {(["GOING", "MAYBE", "NOT_GOING"] as const).map((status) => {
-                          const isSelected = selectedRsvp?.status === status || pendingRsvpStatus === status;
+                          const isSelected =
+                            selectedRsvp?.status === status ||
+                            (status === "GOING" && selectedRsvp?.status === "WAITLISTED") ||
+                            pendingRsvpStatus === status;
                           const colors: Record<string, { bg: string; text: string; activeBg: string }> = {
                             GOING: { bg: "rgba(39,174,96,0.15)", text: "#27ae60", activeBg: "rgba(39,174,96,0.35)" },
                             MAYBE: { bg: "rgba(243,156,18,0.15)", text: "#f39c12", activeBg: "rgba(243,156,18,0.35)" },
@@ -978,6 +1107,7 @@ export default function Calendar() {
                               style={({ pressed }) => [
                                 styles.rsvpPill,
                                 { backgroundColor: isSelected ? c.activeBg : c.bg, borderColor: c.text },
+                                selectedEvent.rsvpClosed && { opacity: 0.4 },
                                 pressed && { opacity: 0.7 },
                               ]}
                               onPress={() => handleRsvpPress(status)}
@@ -990,6 +1120,16 @@ export default function Calendar() {
                         })}
                       </View>
 
+                      {selectedEvent.eventGroup && (
+                        <Pressable
+                          style={({ pressed }) => [styles.rsvpAllBtn, pressed && { opacity: 0.7 }]}
+                          onPress={handleRsvpAllSessions}
+                        >
+                          <Feather name="award" size={14} color="#a78bfa" />
+                          <Text style={styles.rsvpAllBtnText}>RSVP to all sessions</Text>
+                        </Pressable>
+                      )}
+
                       {/* Not Going note input */}
                       {pendingRsvpStatus === "NOT_GOING" && (
                         <View style={styles.rsvpNoteContainer}>
@@ -1314,56 +1454,69 @@ export default function Calendar() {
               </Text>
             </View>
           ) : (
-            displayedEvents.map((event) => (
-              <Pressable
-                key={event.id}
-                style={({ pressed }) => [
-                  styles.upcomingCard,
-                  pressed && { opacity: 0.8 },
-                ]}
-                onPress={() => {
-                  setPendingRsvpStatus(null);
-                  setRsvpNote("");
-                  setSelectedEvent(event);
-                  setModalVisible(true);
-                }}
-              >
-                <View
-                  style={[
-                    styles.upcomingCardAccent,
-                    { backgroundColor: getEventColor(event.type) },
-                  ]}
-                />
-                <View style={styles.upcomingCardContent}>
-                  <View style={styles.upcomingCardHeader}>
-                    <Text style={styles.upcomingCardTitle} numberOfLines={1}>
-                      {event.title}
-                    </Text>
-                    <Text style={styles.upcomingCardDate}>
-                      {formatRelativeDate(event.date)}
+            displayedSections.map(({ group, events: sectionEvents }) => (
+              <View key={group ? `group-${group.id}` : sectionEvents[0].id} style={group ? styles.groupSection : undefined}>
+                {group && (
+                  <View style={styles.groupHeader}>
+                    <Feather name="award" size={14} color="#a78bfa" />
+                    <Text style={styles.groupHeaderTitle} numberOfLines={1}>{group.name}</Text>
+                    <Text style={styles.groupHeaderMeta}>
+                      {sectionEvents.length} {sectionEvents.length === 1 ? "session" : "sessions"}
                     </Text>
                   </View>
-                  <View style={styles.upcomingCardDetails}>
-                    {event.startTime && (
-                      <View style={styles.upcomingCardDetail}>
-                        <Feather name="clock" size={12} color="rgba(255,255,255,0.5)" />
-                        <Text style={styles.upcomingCardDetailText}>
-                          {event.startTime}
+                )}
+                {sectionEvents.map((event) => (
+                  <Pressable
+                    key={event.id}
+                    style={({ pressed }) => [
+                      styles.upcomingCard,
+                      pressed && { opacity: 0.8 },
+                    ]}
+                    onPress={() => {
+                      setPendingRsvpStatus(null);
+                      setRsvpNote("");
+                      setSelectedEvent(event);
+                      setModalVisible(true);
+                    }}
+                  >
+                    <View
+                      style={[
+                        styles.upcomingCardAccent,
+                        { backgroundColor: getEventColor(event.type) },
+                      ]}
+                    />
+                    <View style={styles.upcomingCardContent}>
+                      <View style={styles.upcomingCardHeader}>
+                        <Text style={styles.upcomingCardTitle} numberOfLines={1}>
+                          {event.title}
                         </Text>
-                      </View>
-                    )}
-                    {(event.venue || event.location) && (
-                      <View style={styles.upcomingCardDetail}>
-                        <Feather name="map-pin" size={12} color="rgba(255,255,255,0.5)" />
-                        <Text style={styles.upcomingCardDetailText} numberOfLines={1}>
-                          {event.venue ? event.venue.name : event.location}
+                        <Text style={styles.upcomingCardDate}>
+                          {formatRelativeDate(event.date)}
                         </Text>
                       </View>
-                    )}
-                  </View>
-                </View>
-                <Feather name="chevron-right" size={18} color="rgba(255,255,255,0.3)" />
-              </Pressable>
+                      <View style={styles.upcomingCardDetails}>
+                        {event.startTime && (
+                          <View style={styles.upcomingCardDetail}>
+                            <Feather name="clock" size={12} color="rgba(255,255,255,0.5)" />
+                            <Text style={styles.upcomingCardDetailText}>
+                              {event.startTime}
+                            </Text>
+                          </View>
+                        )}
+                        {(event.venue || event.location) && (
+                          <View style={styles.upcomingCardDetail}>
+                            <Feather name="map-pin" size={12} color="rgba(255,255,255,0.5)" />
+                            <Text style={styles.upcomingCardDetailText} numberOfLines={1}>
+                              {event.venue ? event.venue.name : event.location}
+                            </Text>
+                          </View>
+                        )}
+                      </View>
+                    </View>
+                    <Feather name="chevron-right" size={18} color="rgba(255,255,255,0.3)" />
+                  </Pressable>
+                ))}
+              </View>
             ))
           )}
         </View>
@@ -1588,6 +1741,27 @@ const styles = StyleSheet.create({
     paddingTop: 12,
     minHeight: SCREEN_HEIGHT,
   },
+  groupSection: {
+    gap: 8,
+    paddingLeft: 10,
+    borderLeftWidth: 2,
+    borderLeftColor: "rgba(167,139,250,0.4)",
+  },
+  groupHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  groupHeaderTitle: {
+    flex: 1,
+    color: "#a78bfa",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  groupHeaderMeta: {
+    color: "rgba(255,255,255,0.4)",
+    fontSize: 12,
+  },
   upcomingCard: {
     flexDirection: "row",
     alignItems: "center",
@@ -1786,6 +1960,22 @@ const styles = StyleSheet.create({
   excuseReasonBox: {
     marginTop: 4,
   },
+  travelNotesBox: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: "rgba(255,255,255,0.1)",
+  },
+  travelNotesLabel: {
+    color: "rgba(255,255,255,0.5)",
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  travelNotesText: {
+    color: "rgba(255,255,255,0.7)",
+    fontSize: 14,
+    lineHeight: 20,
+  },
   excuseReasonLabel: {
     color: "rgba(255,255,255,0.5)",
     fontSize: 12,
@@ -1955,6 +2145,21 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: "600",
   },
+  rsvpAllBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    marginTop: 10,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: "rgba(108,92,231,0.15)",
+  },
+  rsvpAllBtnText: {
+    color: "#a78bfa",
+    fontSize: 13,
+    fontWeight: "600",
+  },
 
   // Day Picker Modal
   dayPickerOverlay: {
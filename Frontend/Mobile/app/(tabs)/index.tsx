@@ -39,6 +39,7 @@ const STATUS_CONFIG: Record<string, { color: string; icon: string; label: string
   LATE:        { color: "#f39c12", icon: "clock",        label: "Late" },
   ABSENT:      { color: "#e74c3c", icon: "x-circle",     label: "Absent" },
   EXCUSED:     { color: "#9b59b6", icon: "info",         label: "Excused" },
+  LEFT_EARLY:  { color: "#e67e22", icon: "log-out",      label: "Left Early" },
   CHECKED_OUT: { color: "#3498db", icon: "log-out",      label: "Completed" },
 };
 
@@ -227,6 +228,8 @@ export default function Index() {
       const s = ci.status;
       if (s === "ON_TIME" || s === "LATE") return "checkedIn";
       if (s === "EXCUSED") return "excuseApproved";
+      // Left before the attendance policy's minimum presence: no credit
+      if (s === "LEFT_EARLY") return "absent";
       if (s === "ABSENT") {
         const excuse = excuses.find((ex: any) => ex.event?.id === ci.event?.id);
         if (excuse?.status === "PENDING") return "excusePending";
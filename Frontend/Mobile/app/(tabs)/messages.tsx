@@ -1,17 +1,10 @@
 import { useAuth } from "@/contexts/AuthContext";
 import { NoOrgScreen } from "@/components/NoOrgScreen";
-import { OrgTeamPicker } from "@/components/OrgTeamPicker";
-import { OrgTeamSubtitle } from "@/components/OrgTeamSubtitle";
-import { AthletePicker } from "@/components/AthletePicker";
-import { CoachView } from "@/components/team/CoachView";
 import { NotificationBell } from "@/components/NotificationBell";
-import {
-  GET_UPCOMING_EVENTS,
-  GET_CHECKIN_HISTORY,
-  GET_MY_EXCUSE_REQUESTS,
-} from "@/lib/graphql/queries";
-import { CANCEL_EXCUSE_REQUEST } from "@/lib/graphql/mutations";
-import { useQuery, useMutation } from "@apollo/client";
+import { GET_MY_CONVERSATIONS, GET_ORGANIZATION_DIRECTORY } from "@/lib/graphql/queries";
+import { OPEN_TEAM_CHANNEL, START_CONVERSATION } from "@/lib/graphql/mutations";
+import { conversationName } from "@/lib/utils";
+import { useMutation, useQuery } from "@apollo/client";
 import { Feather } from "@expo/vector-icons";
 import { Image } from "expo-image";
 import { LinearGradient } from "expo-linear-gradient";
@@ -21,77 +14,81 @@ import { useMemo, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
+  Modal,
   Pressable,
+  RefreshControl,
   ScrollView,
   StyleSheet,
   Text,
+  TextInput,
   View,
 } from "react-native";
 
-type AttendanceStatus = "ON_TIME" | "LATE" | "ABSENT" | "EXCUSED";
-
-const AVATAR_SIZE = 45;
-
-const STATUS_CONFIG: Record<AttendanceStatus, { color: string; icon: string; label: string }> = {
-  ON_TIME: { color: "#27ae60", icon: "check-circle", label: "On Time" },
-  LATE: { color: "#f39c12", icon: "clock", label: "Late" },
-  ABSENT: { color: "#e74c3c", icon: "x-circle", label: "Absent" },
-  EXCUSED: { color: "#9b59b6", icon: "info", label: "Excused" },
+type ChatUser = {
+  id: string;
+  firstName: string;
+  lastName: string;
+  image?: string | null;
 };
 
-const EVENT_TYPE_COLORS: Record<string, string> = {
-  PRACTICE: "#6c5ce7",
-  EVENT: "#e74c3c",
-  MEETING: "#f39c12",
-  GAME: "#e74c3c",
-  REST: "#27ae60",
+type Conversation = {
+  id: string;
+  type: "TEAM" | "DIRECT" | "GROUP";
+  title: string | null;
+  unreadCount: number;
+  lastMessageAt: string;
+  team: { id: string; name: string } | null;
+  participants: { id: string; role: "MEMBER" | "GUARDIAN"; user: ChatUser }[];
+  lastMessage: { id: string; body: string; createdAt: string; sender: { id: string; firstName: string } } | null;
 };
 
-function formatDate(isoDate: string): string {
-  const date = new Date(isoDate);
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const yesterday = new Date(today);
-  yesterday.setDate(yesterday.getDate() - 1);
-
-  const eventDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
-
-  if (eventDate.getTime() === today.getTime()) return "Today";
-  if (eventDate.getTime() === yesterday.getTime()) return "Yesterday";
-
-  const diffDays = Math.floor((today.getTime() - eventDate.getTime()) / (1000 * 60 * 60 * 24));
-  if (diffDays < 7) return date.toLocaleDateString("en-US", { weekday: "long" });
+const AVATAR_SIZE = 44;
 
+function formatTimestamp(iso: string): string {
+  const date = new Date(iso);
+  const now = new Date();
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+  }
   return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
 }
 
-function formatFutureDate(isoDate: string): string {
-  const date = new Date(isoDate);
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const tomorrow = new Date(today);
-  tomorrow.setDate(tomorrow.getDate() + 1);
+export default function MessagesTab() {
+  const router = useRouter();
+  const { user, selectedOrganization, teamsForCurrentOrg } = useAuth();
+  const [composerVisible, setComposerVisible] = useState(false);
 
-  const eventDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const { data, loading, refetch } = useQuery(GET_MY_CONVERSATIONS, {
+    variables: { organizationId: selectedOrganization?.id },
+    skip: !selectedOrganization?.id,
+    fetchPolicy: "cache-and-network",
+    pollInterval: 15000,
+  });
 
-  if (eventDate.getTime() === today.getTime()) return "Today";
-  if (eventDate.getTime() === tomorrow.getTime()) return "Tomorrow";
+  const [openTeamChannel] = useMutation(OPEN_TEAM_CHANNEL);
 
-  const diffDays = Math.floor((eventDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-  if (diffDays < 7) return date.toLocaleDateString("en-US", { weekday: "long" });
+  const conversations: Conversation[] = useMemo(() => data?.myConversations || [], [data]);
 
-  return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
-}
+  // Team channels the user hasn't joined yet
+  const unopenedTeams = useMemo(
+    () => teamsForCurrentOrg.filter((team) => !conversations.some((c) => c.team?.id === team.id)),
+    [teamsForCurrentOrg, conversations]
+  );
+
+  const openConversation = (id: string) => router.push({ pathname: "/conversation", params: { id } });
 
-export default function ActivityTab() {
-  const {
-    user, selectedOrganization, isTeamCoach, selectedTeam,
-    isViewingAsGuardian, hasGuardianLinks, selectedAthlete,
-  } = useAuth();
-  const [pickerVisible, setPickerVisible] = useState(false);
+  const handleOpenTeamChannel = async (teamId: string) => {
+    try {
+      const { data: opened } = await openTeamChannel({ variables: { teamId } });
+      refetch();
+      openConversation(opened.openTeamChannel.id);
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to open team channel.");
+    }
+  };
 
   if (!user) return null;
-  if (!selectedOrganization) return <NoOrgScreen title="Activity" />;
+  if (!selectedOrganization) return <NoOrgScreen title="Messages" />;
 
   return (
     <LinearGradient
@@ -101,371 +98,229 @@ export default function ActivityTab() {
     >
       <StatusBar style="light" />
 
-      <OrgTeamPicker visible={pickerVisible} onClose={() => setPickerVisible(false)} />
-
-      {/* Header */}
       <View style={styles.header}>
-        <View style={styles.headerLeft}>
-          <Text style={styles.title}>
-            {isViewingAsGuardian
-              ? `${selectedAthlete?.firstName}'s Activity`
-              : isTeamCoach ? "Team Management" : "Activity"}
-          </Text>
-          <OrgTeamSubtitle onPress={() => setPickerVisible(true)} />
-        </View>
-
+        <Text style={styles.title}>Messages</Text>
         <View style={styles.headerRight}>
           <NotificationBell />
-          {user.image ? (
-            <Image
-              source={user.image}
-              style={[styles.avatar, styles.avatarImage]}
-            />
-          ) : (
-            <View style={styles.avatar}>
-              <Text style={styles.avatarText}>
-                {user.firstName.charAt(0)}
-                {user.lastName.charAt(0)}
-              </Text>
-            </View>
-          )}
+          <Pressable style={styles.composeButton} onPress={() => setComposerVisible(true)}>
+            <Feather name="edit" size={20} color="white" />
+          </Pressable>
         </View>
       </View>
 
-      <AthletePicker />
-
-      {/* Content based on role */}
-      {isViewingAsGuardian ? (
-        <AthleteActivityView />
-      ) : isTeamCoach && selectedTeam ? (
-        <CoachView />
-      ) : (
-        <AthleteActivityView />
-      )}
-    </LinearGradient>
-  );
-}
-
-function AthleteActivityView() {
-  const router = useRouter();
-  const { user, selectedOrganization, selectedTeamId, targetUserId, isViewingAsGuardian } = useAuth();
-
-  const { data: upcomingData, loading: upcomingLoading } = useQuery(GET_UPCOMING_EVENTS, {
-    variables: { organizationId: selectedOrganization?.id, teamId: selectedTeamId || undefined, limit: 3 },
-    skip: !selectedOrganization?.id,
-  });
-
-  const { data: checkinData, loading: checkinLoading } = useQuery(GET_CHECKIN_HISTORY, {
-    variables: { userId: targetUserId, teamId: selectedTeamId || undefined, limit: 50 },
-    skip: !targetUserId,
-  });
-
-  const { data: excuseData } = useQuery(GET_MY_EXCUSE_REQUESTS, {
-    variables: { userId: targetUserId },
-    skip: !targetUserId,
-  });
-
-  const [cancelExcuse] = useMutation(CANCEL_EXCUSE_REQUEST, {
-    refetchQueries: ["GetMyExcuseRequests"],
-  });
-
-  const upcomingEvents = upcomingData?.upcomingEvents || [];
-  const allCheckInHistory = checkinData?.checkInHistory || [];
-  const excuseRequests = excuseData?.myExcuseRequests || [];
-
-  const checkInHistory = useMemo(() => {
-    const oneWeekAgo = new Date();
-    oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
-    oneWeekAgo.setHours(0, 0, 0, 0);
-    return allCheckInHistory.filter((ci: any) => {
-      const ciDate = new Date(ci.event?.date || ci.checkInTime);
-      return ciDate >= oneWeekAgo;
-    });
-  }, [allCheckInHistory]);
-
-  const excusesByEvent = useMemo(() => {
-    const map = new Map<string, any>();
-    for (const er of excuseRequests) {
-      if (er.status === "PENDING" || er.status === "APPROVED") {
-        map.set(er.event.id, er);
-      }
-    }
-    return map;
-  }, [excuseRequests]);
-
-  const stats = useMemo(() => {
-    let onTime = 0;
-    let late = 0;
-    let absent = 0;
-    for (const ci of allCheckInHistory) {
-      if (ci.status === "ON_TIME") onTime++;
-      else if (ci.status === "LATE") late++;
-      else if (ci.status === "ABSENT") absent++;
-    }
-    return { onTime, late, absent };
-  }, [allCheckInHistory]);
-
-  const handleExcusePress = (event: any) => {
-    router.push({
-      pathname: "/request-absence",
-      params: {
-        eventId: event.id,
-        eventTitle: event.title,
-        eventDate: event.date,
-        eventStartTime: event.startTime || "",
-        eventEndTime: event.endTime || "",
-        eventType: event.type || "",
-        teamName: event.team?.name || "",
-      },
-    });
-  };
-
-  const handleCancelExcuse = (excuseId: string) => {
-    Alert.alert("Cancel Excuse", "Are you sure you want to cancel this excuse request?", [
-      { text: "No", style: "cancel" },
-      {
-        text: "Yes, Cancel",
-        style: "destructive",
-        onPress: async () => {
-          try {
-            await cancelExcuse({ variables: { id: excuseId } });
-          } catch (error: any) {
-            Alert.alert("Error", error.message || "Failed to cancel excuse request.");
-          }
-        },
-      },
-    ]);
-  };
-
-  return (
-    <ScrollView
-      style={styles.scrollView}
-      contentContainerStyle={styles.scrollContent}
-      showsVerticalScrollIndicator={false}
-    >
-      {/* Quick Stats */}
-      <View style={styles.statsRow}>
-        {checkinLoading ? (
-          <View style={[styles.statCard, { flex: 1 }]}>
-            <ActivityIndicator color="#a855f7" />
-          </View>
-        ) : (
-          <>
-            <View style={styles.statCard}>
-              <Text style={[styles.statValue, { color: STATUS_CONFIG.ON_TIME.color }]}>
-                {stats.onTime}
-              </Text>
-              <Text style={styles.statLabel}>On Time</Text>
-            </View>
-            <View style={styles.statCard}>
-              <Text style={[styles.statValue, { color: STATUS_CONFIG.LATE.color }]}>
-                {stats.late}
-              </Text>
-              <Text style={styles.statLabel}>Late</Text>
-            </View>
-            <View style={styles.statCard}>
-              <Text style={[styles.statValue, { color: STATUS_CONFIG.ABSENT.color }]}>
-                {stats.absent}
-              </Text>
-              <Text style={styles.statLabel}>Absent</Text>
-            </View>
-          </>
-        )}
-      </View>
-
-      {/* Upcoming - Request Excuse */}
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Upcoming</Text>
-        <Text style={styles.sectionSubtitle}>Request an excuse if you can't attend</Text>
-
-        {upcomingLoading ? (
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={false} onRefresh={() => refetch()} tintColor="#a855f7" />}
+      >
+        {loading && conversations.length === 0 ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator color="#a855f7" />
           </View>
-        ) : upcomingEvents.length === 0 ? (
+        ) : conversations.length === 0 && unopenedTeams.length === 0 ? (
           <View style={styles.emptyContainer}>
-            <Feather name="calendar" size={20} color="rgba(255,255,255,0.3)" />
-            <Text style={styles.emptyText}>No upcoming events</Text>
+            <Feather name="message-circle" size={20} color="rgba(255,255,255,0.3)" />
+            <Text style={styles.emptyText}>No conversations yet</Text>
           </View>
         ) : (
-          <View style={styles.upcomingList}>
-            {upcomingEvents.map((event: any) => {
-              const excuse = excusesByEvent.get(event.id);
-              const eventColor = EVENT_TYPE_COLORS[event.type] || "#6c5ce7";
-
+          <View style={styles.list}>
+            {conversations.map((conversation) => {
+              const others = conversation.participants.filter((p) => p.user.id !== user.id);
+              const avatarUser = conversation.type === "DIRECT" ? others[0]?.user : null;
               return (
-                <View key={event.id} style={styles.upcomingCard}>
-                  <View
-                    style={[styles.upcomingAccent, { backgroundColor: eventColor }]}
-                  />
-                  <View style={styles.upcomingContent}>
-                    <View style={styles.upcomingHeader}>
-                      <View style={{ flex: 1 }}>
-                        <Text style={styles.upcomingName}>{event.title}</Text>
-                        <Text style={styles.upcomingDate}>
-                          {formatFutureDate(event.date)}
-                          {event.startTime ? ` \u2022 ${event.startTime}` : ""}
-                          {event.endTime ? ` - ${event.endTime}` : ""}
+                <Pressable
+                  key={conversation.id}
+                  style={({ pressed }) => [styles.row, pressed && { opacity: 0.7 }]}
+                  onPress={() => openConversation(conversation.id)}
+                >
+                  {avatarUser?.image ? (
+                    <Image source={avatarUser.image} style={[styles.avatar, styles.avatarImage]} />
+                  ) : (
+                    <View style={styles.avatar}>
+                      {avatarUser ? (
+                        <Text style={styles.avatarText}>
+                          {avatarUser.firstName.charAt(0)}
+                          {avatarUser.lastName.charAt(0)}
                         </Text>
-                        {event.team && (
-                          <Text style={styles.upcomingTeam}>{event.team.name}</Text>
-                        )}
-                      </View>
+                      ) : (
+                        <Feather name={conversation.type === "TEAM" ? "hash" : "users"} size={18} color="white" />
+                      )}
+                    </View>
+                  )}
+                  <View style={styles.rowContent}>
+                    <View style={styles.rowHeader}>
+                      <Text style={styles.rowName} numberOfLines={1}>
+                        {conversationName(conversation, user.id)}
+                      </Text>
+                      <Text style={styles.rowTime}>{formatTimestamp(conversation.lastMessageAt)}</Text>
                     </View>
-                    {!isViewingAsGuardian && (excuse ? (
-                      <View style={styles.excusedBadgeContainer}>
-                        <View style={styles.excusedBadge}>
-                          <Feather
-                            name={excuse.status === "APPROVED" ? "check" : "clock"}
-                            size={12}
-                            color="#9b59b6"
-                          />
-                          <Text style={styles.excusedBadgeText}>
-                            {excuse.status === "APPROVED" ? "Excused" : "Pending"}
-                          </Text>
+                    <View style={styles.rowHeader}>
+                      <Text style={styles.rowPreview} numberOfLines={1}>
+                        {conversation.lastMessage
+                          ? `${conversation.lastMessage.sender.id === user.id ? "You" : conversation.lastMessage.sender.firstName}: ${conversation.lastMessage.body}`
+                          : "No messages yet"}
+                      </Text>
+                      {conversation.unreadCount > 0 && (
+                        <View style={styles.unreadBadge}>
+                          <Text style={styles.unreadText}>{conversation.unreadCount}</Text>
                         </View>
-                        {excuse.status === "PENDING" && (
-                          <Pressable
-                            style={styles.cancelExcuseButton}
-                            onPress={() => handleCancelExcuse(excuse.id)}
-                          >
-                            <Text style={styles.cancelExcuseText}>Cancel</Text>
-                          </Pressable>
-                        )}
-                      </View>
-                    ) : (
-                      <Pressable
-                        style={({ pressed }) => [
-                          styles.excuseRequestButton,
-                          pressed && { opacity: 0.7 },
-                        ]}
-                        onPress={() => handleExcusePress(event)}
-                      >
-                        <Feather name="alert-circle" size={14} color="#a855f7" />
-                        <Text style={styles.excuseRequestText}>Request Absence</Text>
-                      </Pressable>
-                    ))}
+                      )}
+                    </View>
                   </View>
-                </View>
+                </Pressable>
               );
             })}
-          </View>
-        )}
-      </View>
 
-      {/* Check-In History */}
-      <View style={styles.section}>
-        <View style={styles.sectionHeader}>
-          <Text style={styles.sectionTitle}>Check-In History</Text>
-          <Pressable onPress={() => router.push("/checkin-history")}>
-            <Text style={styles.seeAll}>See All</Text>
-          </Pressable>
-        </View>
-
-        {checkinLoading ? (
-          <View style={styles.loadingContainer}>
-            <ActivityIndicator color="#a855f7" />
-          </View>
-        ) : checkInHistory.length === 0 ? (
-          <View style={styles.emptyContainer}>
-            <Feather name="clipboard" size={20} color="rgba(255,255,255,0.3)" />
-            <Text style={styles.emptyText}>No check-in history yet</Text>
+            {unopenedTeams.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Team Channels</Text>
+                {unopenedTeams.map((team) => (
+                  <Pressable
+                    key={team.id}
+                    style={({ pressed }) => [styles.teamRow, pressed && { opacity: 0.7 }]}
+                    onPress={() => handleOpenTeamChannel(team.id)}
+                  >
+                    <Feather name="hash" size={16} color="#a855f7" />
+                    <Text style={styles.teamName}>{team.name}</Text>
+                    <Feather name="chevron-right" size={16} color="rgba(255,255,255,0.3)" />
+                  </Pressable>
+                ))}
+              </View>
+            )}
           </View>
-        ) : (
-          <View style={styles.timelineContainer}>
-            {checkInHistory.map((log: any, index: number) => {
-              const config = STATUS_CONFIG[log.status as AttendanceStatus] || STATUS_CONFIG.ON_TIME;
-              const isLast = index === checkInHistory.length - 1;
-              const eventColor = EVENT_TYPE_COLORS[log.event?.type] || "#6c5ce7";
+        )}
+      </ScrollView>
+
+      <NewConversationModal
+        visible={composerVisible}
+        organizationId={selectedOrganization.id}
+        myId={user.id}
+        onClose={() => setComposerVisible(false)}
+        onStarted={(id) => {
+          setComposerVisible(false);
+          refetch();
+          openConversation(id);
+        }}
+      />
+    </LinearGradient>
+  );
+}
 
-              return (
-                <View key={log.id} style={styles.timelineItem}>
-                  {/* Timeline connector */}
-                  <View style={styles.timelineLeft}>
-                    <View
-                      style={[styles.timelineDot, { backgroundColor: config.color }]}
-                    >
-                      <Feather name={config.icon as any} size={12} color="white" />
-                    </View>
-                    {!isLast && <View style={styles.timelineLine} />}
-                  </View>
+function NewConversationModal({
+  visible,
+  organizationId,
+  myId,
+  onClose,
+  onStarted,
+}: {
+  visible: boolean;
+  organizationId: string;
+  myId: string;
+  onClose: () => void;
+  onStarted: (conversationId: string) => void;
+}) {
+  const [search, setSearch] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [title, setTitle] = useState("");
+
+  const { data } = useQuery(GET_ORGANIZATION_DIRECTORY, {
+    variables: { id: organizationId },
+    skip: !visible,
+  });
+  const [startConversation, { loading }] = useMutation(START_CONVERSATION);
+
+  const members: { id: string; role: string; user: ChatUser }[] = useMemo(
+    () =>
+      (data?.organization?.members || [])
+        .filter((m: { user: ChatUser }) => m.user.id !== myId)
+        .filter((m: { user: ChatUser }) =>
+          `${m.user.firstName} ${m.user.lastName}`.toLowerCase().includes(search.toLowerCase())
+        )
+        .sort((a: { user: ChatUser }, b: { user: ChatUser }) => a.user.firstName.localeCompare(b.user.firstName)),
+    [data, myId, search]
+  );
 
-                  {/* Log content */}
-                  <View style={[styles.timelineContent, isLast && { marginBottom: 0 }]}>
-                    <View style={styles.logHeader}>
-                      <Text style={styles.logDate}>
-                        {log.event?.date ? formatDate(log.event.date) : ""}
-                      </Text>
-                      <View style={[styles.statusBadge, { backgroundColor: `${config.color}20` }]}>
-                        <Text style={[styles.statusBadgeText, { color: config.color }]}>
-                          {config.label}
-                        </Text>
-                      </View>
-                    </View>
+  const toggle = (id: string) =>
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
 
-                    <View style={styles.logCard}>
-                      <View style={styles.logCardHeader}>
-                        <View
-                          style={[styles.logEventDot, { backgroundColor: eventColor }]}
-                        />
-                        <Text style={styles.logEventName}>
-                          {log.event?.title || "Unknown Event"}
-                        </Text>
-                      </View>
-
-                      <View style={styles.logDetails}>
-                        {log.event?.startTime && (
-                          <View style={styles.logDetailRow}>
-                            <Text style={styles.logDetailLabel}>Scheduled</Text>
-                            <Text style={styles.logDetailValue}>
-                              {log.event.startTime}
-                              {log.event.endTime ? ` - ${log.event.endTime}` : ""}
-                            </Text>
-                          </View>
-                        )}
+  const close = () => {
+    setSearch("");
+    setSelectedIds([]);
+    setTitle("");
+    onClose();
+  };
 
-                        {log.checkInTime && (
-                          <View style={styles.logDetailRow}>
-                            <Text style={styles.logDetailLabel}>Check-in</Text>
-                            <Text style={styles.logDetailValue}>
-                              {new Date(log.checkInTime).toLocaleTimeString("en-US", {
-                                hour: "numeric",
-                                minute: "2-digit",
-                              })}
-                            </Text>
-                          </View>
-                        )}
+  const handleStart = async () => {
+    try {
+      const { data: started } = await startConversation({
+        variables: {
+          input: {
+            organizationId,
+            participantIds: selectedIds,
+            title: selectedIds.length > 1 && title.trim() ? title.trim() : undefined,
+          },
+        },
+      });
+      setSearch("");
+      setSelectedIds([]);
+      setTitle("");
+      onStarted(started.startConversation.id);
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to start conversation.");
+    }
+  };
 
-                        {log.checkOutTime && (
-                          <View style={styles.logDetailRow}>
-                            <Text style={styles.logDetailLabel}>Check-out</Text>
-                            <Text style={styles.logDetailValue}>
-                              {new Date(log.checkOutTime).toLocaleTimeString("en-US", {
-                                hour: "numeric",
-                                minute: "2-digit",
-                              })}
-                            </Text>
-                          </View>
-                        )}
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={close}>
+      <View style={styles.modal}>
+        <View style={styles.modalHeader}>
+          <Pressable onPress={close}>
+            <Text style={styles.modalCancel}>Cancel</Text>
+          </Pressable>
+          <Text style={styles.modalTitle}>New Message</Text>
+          <Pressable onPress={handleStart} disabled={loading || selectedIds.length === 0}>
+            <Text style={[styles.modalStart, (loading || selectedIds.length === 0) && { opacity: 0.4 }]}>
+              Start
+            </Text>
+          </Pressable>
+        </View>
 
-                        {log.hoursLogged != null && log.hoursLogged > 0 && (
-                          <View style={styles.logDetailRow}>
-                            <Text style={styles.logDetailLabel}>Hours Logged</Text>
-                            <Text style={[styles.logDetailValue, styles.logHours]}>
-                              {log.hoursLogged.toFixed(2)}h
-                            </Text>
-                          </View>
-                        )}
-                      </View>
-                    </View>
-                  </View>
-                </View>
-              );
-            })}
-          </View>
+        <TextInput
+          style={styles.input}
+          value={search}
+          onChangeText={setSearch}
+          placeholder="Search people"
+          placeholderTextColor="rgba(255,255,255,0.4)"
+        />
+        {selectedIds.length > 1 && (
+          <TextInput
+            style={styles.input}
+            value={title}
+            onChangeText={setTitle}
+            placeholder="Group name (optional)"
+            placeholderTextColor="rgba(255,255,255,0.4)"
+            maxLength={100}
+          />
         )}
+        <Text style={styles.modalHint}>Guardians are copied when staff message an athlete under 18.</Text>
+
+        <ScrollView style={{ flex: 1 }}>
+          {members.map((member) => {
+            const checked = selectedIds.includes(member.user.id);
+            return (
+              <Pressable key={member.id} style={styles.memberRow} onPress={() => toggle(member.user.id)}>
+                <Feather name={checked ? "check-circle" : "circle"} size={20} color={checked ? "#a855f7" : "rgba(255,255,255,0.3)"} />
+                <Text style={styles.memberName}>
+                  {member.user.firstName} {member.user.lastName}
+                </Text>
+                <Text style={styles.memberRole}>{member.role}</Text>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
       </View>
-    </ScrollView>
+    </Modal>
   );
 }
 
@@ -473,86 +328,40 @@ const styles = StyleSheet.create({
   gradient: {
     flex: 1,
   },
-  scrollView: {
-    flex: 1,
-  },
-  scrollContent: {
-    paddingHorizontal: 20,
-    paddingBottom: 100,
-  },
   header: {
     flexDirection: "row",
     justifyContent: "space-between",
     alignItems: "center",
-    width: "100%",
     paddingTop: 80,
     paddingHorizontal: 20,
     paddingBottom: 8,
   },
-  headerLeft: {
-    flexDirection: "column",
-    justifyContent: "flex-start",
-    alignItems: "flex-start",
-    gap: 4,
-    flex: 1,
-    minHeight: 58,
-  },
   title: {
     color: "white",
     fontSize: 22,
     fontWeight: "bold",
   },
-  avatar: {
-    width: AVATAR_SIZE,
-    height: AVATAR_SIZE,
-    borderRadius: AVATAR_SIZE / 2,
-    justifyContent: "center",
-    alignItems: "center",
-    overflow: "hidden",
-    backgroundColor: "#241e4a",
-    borderWidth: 0.5,
-    borderColor: "#463e70",
-  },
-  avatarImage: {
-    backgroundColor: "transparent",
-  },
-  avatarText: {
-    color: "white",
-    fontSize: 15,
-    fontWeight: "600",
-  },
   headerRight: {
     flexDirection: "row",
     alignItems: "center",
     gap: 10,
   },
-
-  // Stats Row
-  statsRow: {
-    flexDirection: "row",
-    gap: 12,
-    marginTop: 16,
-  },
-  statCard: {
-    flex: 1,
-    backgroundColor: "rgba(255,255,255,0.08)",
-    borderRadius: 12,
-    paddingVertical: 14,
+  composeButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "rgba(255,255,255,0.1)",
+    justifyContent: "center",
     alignItems: "center",
-    borderWidth: 1,
-    borderColor: "rgba(255,255,255,0.06)",
   },
-  statValue: {
-    fontSize: 22,
-    fontWeight: "bold",
+  scrollView: {
+    flex: 1,
   },
-  statLabel: {
-    color: "rgba(255,255,255,0.55)",
-    fontSize: 12,
-    marginTop: 2,
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 100,
   },
-
-  // Loading / Empty
   loadingContainer: {
     paddingVertical: 24,
     alignItems: "center",
@@ -570,210 +379,155 @@ const styles = StyleSheet.create({
     color: "rgba(255,255,255,0.3)",
     fontSize: 14,
   },
-
-  // Sections
-  section: {
-    marginTop: 24,
+  list: {
+    gap: 8,
   },
-  sectionHeader: {
+  row: {
     flexDirection: "row",
-    justifyContent: "space-between",
     alignItems: "center",
-    marginBottom: 12,
-  },
-  sectionTitle: {
-    color: "white",
-    fontSize: 17,
-    fontWeight: "600",
-  },
-  sectionSubtitle: {
-    color: "rgba(255,255,255,0.5)",
-    fontSize: 13,
-    marginTop: 2,
-    marginBottom: 12,
-  },
-  seeAll: {
-    color: "#a855f7",
-    fontSize: 14,
-    fontWeight: "500",
-  },
-
-  // Upcoming Events
-  upcomingList: {
-    gap: 10,
-  },
-  upcomingCard: {
-    flexDirection: "row",
+    gap: 12,
     backgroundColor: "rgba(255,255,255,0.08)",
     borderRadius: 12,
-    overflow: "hidden",
+    padding: 12,
     borderWidth: 1,
     borderColor: "rgba(255,255,255,0.06)",
   },
-  upcomingAccent: {
-    width: 4,
+  avatar: {
+    width: AVATAR_SIZE,
+    height: AVATAR_SIZE,
+    borderRadius: AVATAR_SIZE / 2,
+    justifyContent: "center",
+    alignItems: "center",
+    overflow: "hidden",
+    backgroundColor: "#241e4a",
+    borderWidth: 0.5,
+    borderColor: "#463e70",
+  },
+  avatarImage: {
+    backgroundColor: "transparent",
   },
-  upcomingContent: {
+  avatarText: {
+    color: "white",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  rowContent: {
     flex: 1,
-    padding: 14,
+    gap: 3,
   },
-  upcomingHeader: {
+  rowHeader: {
     flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "flex-start",
+    alignItems: "center",
+    gap: 8,
   },
-  upcomingName: {
+  rowName: {
+    flex: 1,
     color: "white",
     fontSize: 15,
     fontWeight: "600",
   },
-  upcomingDate: {
-    color: "rgba(255,255,255,0.5)",
-    fontSize: 13,
-    marginTop: 2,
-  },
-  upcomingTeam: {
+  rowTime: {
     color: "rgba(255,255,255,0.4)",
     fontSize: 12,
-    marginTop: 2,
   },
-  excuseRequestButton: {
-    flexDirection: "row",
-    alignItems: "center",
-    gap: 6,
-    alignSelf: "flex-start",
-    marginTop: 10,
-    backgroundColor: "rgba(168,85,247,0.15)",
-    paddingHorizontal: 12,
-    paddingVertical: 6,
-    borderRadius: 8,
-  },
-  excuseRequestText: {
-    color: "#a855f7",
+  rowPreview: {
+    flex: 1,
+    color: "rgba(255,255,255,0.55)",
     fontSize: 13,
-    fontWeight: "500",
   },
-  excusedBadgeContainer: {
-    flexDirection: "row",
-    alignItems: "center",
-    gap: 10,
-    marginTop: 10,
-  },
-  excusedBadge: {
-    flexDirection: "row",
+  unreadBadge: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    backgroundColor: "#e74c3c",
+    justifyContent: "center",
     alignItems: "center",
-    gap: 4,
-    backgroundColor: "rgba(155,89,182,0.15)",
-    paddingHorizontal: 10,
-    paddingVertical: 6,
-    borderRadius: 8,
-  },
-  excusedBadgeText: {
-    color: "#9b59b6",
-    fontSize: 13,
-    fontWeight: "500",
   },
-  cancelExcuseButton: {
-    paddingHorizontal: 8,
-    paddingVertical: 4,
+  unreadText: {
+    color: "white",
+    fontSize: 11,
+    fontWeight: "700",
   },
-  cancelExcuseText: {
-    color: "rgba(255,255,255,0.4)",
-    fontSize: 12,
-    fontWeight: "500",
+  section: {
+    marginTop: 16,
+    gap: 8,
   },
-
-  // Timeline
-  timelineContainer: {
-    marginTop: 4,
+  sectionTitle: {
+    color: "white",
+    fontSize: 17,
+    fontWeight: "600",
+    marginBottom: 4,
   },
-  timelineItem: {
+  teamRow: {
     flexDirection: "row",
-  },
-  timelineLeft: {
     alignItems: "center",
-    width: 32,
-  },
-  timelineDot: {
-    width: 24,
-    height: 24,
+    gap: 10,
+    backgroundColor: "rgba(255,255,255,0.05)",
     borderRadius: 12,
-    justifyContent: "center",
-    alignItems: "center",
+    paddingHorizontal: 14,
+    paddingVertical: 12,
   },
-  timelineLine: {
+  teamName: {
     flex: 1,
-    width: 2,
-    backgroundColor: "rgba(255,255,255,0.1)",
-    marginVertical: 4,
+    color: "rgba(255,255,255,0.8)",
+    fontSize: 15,
   },
-  timelineContent: {
+  modal: {
     flex: 1,
-    marginLeft: 12,
-    marginBottom: 16,
+    backgroundColor: "#1a1640",
+    paddingHorizontal: 20,
+    paddingTop: 16,
   },
-  logHeader: {
+  modalHeader: {
     flexDirection: "row",
     justifyContent: "space-between",
     alignItems: "center",
-    marginBottom: 8,
+    marginBottom: 16,
   },
-  logDate: {
+  modalCancel: {
     color: "rgba(255,255,255,0.6)",
-    fontSize: 13,
-    fontWeight: "500",
-  },
-  statusBadge: {
-    paddingHorizontal: 8,
-    paddingVertical: 3,
-    borderRadius: 6,
+    fontSize: 16,
   },
-  statusBadgeText: {
-    fontSize: 11,
+  modalTitle: {
+    color: "white",
+    fontSize: 17,
     fontWeight: "600",
   },
-  logCard: {
-    backgroundColor: "rgba(255,255,255,0.08)",
-    borderRadius: 12,
-    padding: 14,
-    borderWidth: 1,
-    borderColor: "rgba(255,255,255,0.06)",
-  },
-  logCardHeader: {
-    flexDirection: "row",
-    alignItems: "center",
-    gap: 8,
-    marginBottom: 10,
+  modalStart: {
+    color: "#a855f7",
+    fontSize: 16,
+    fontWeight: "600",
   },
-  logEventDot: {
-    width: 8,
-    height: 8,
-    borderRadius: 4,
+  modalHint: {
+    color: "rgba(255,255,255,0.4)",
+    fontSize: 12,
+    marginBottom: 12,
   },
-  logEventName: {
+  input: {
+    backgroundColor: "rgba(255,255,255,0.1)",
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
     color: "white",
     fontSize: 15,
-    fontWeight: "600",
-  },
-  logDetails: {
-    gap: 6,
+    marginBottom: 10,
   },
-  logDetailRow: {
+  memberRow: {
     flexDirection: "row",
-    justifyContent: "space-between",
     alignItems: "center",
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "rgba(255,255,255,0.1)",
   },
-  logDetailLabel: {
-    color: "rgba(255,255,255,0.5)",
-    fontSize: 13,
-  },
-  logDetailValue: {
-    color: "rgba(255,255,255,0.8)",
-    fontSize: 13,
-    fontWeight: "500",
+  memberName: {
+    flex: 1,
+    color: "white",
+    fontSize: 15,
   },
-  logHours: {
-    color: "#27ae60",
-    fontWeight: "600",
+  memberRole: {
+    color: "rgba(255,255,255,0.4)",
+    fontSize: 12,
   },
 });
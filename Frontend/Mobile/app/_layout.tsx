@@ -40,6 +40,13 @@ function RootNavigator() {
           animation: "slide_from_bottom",
         }}
       />
+      <Stack.Screen
+        name="scan-qr"
+        options={{
+          presentation: "fullScreenModal",
+          animation: "slide_from_bottom",
+        }}
+      />
       <Stack.Screen
         name="activity"
         options={{
@@ -71,6 +78,19 @@ function RootNavigator() {
           presentation: "modal",
         }}
       />
+      <Stack.Screen
+        name="request-absence-range"
+        options={{
+          animation: "slide_from_bottom",
+          presentation: "modal",
+        }}
+      />
+      <Stack.Screen
+        name="conversation"
+        options={{
+          animation: "slide_from_right",
+        }}
+      />
       <Stack.Screen
         name="help-support"
         options={{
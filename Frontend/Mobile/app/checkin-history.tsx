@@ -31,6 +31,7 @@ const STATUS_CONFIG: Record<string, { color: string; icon: string; label: string
   "LATE": { color: "#f39c12", icon: "clock", label: "Late" },
   "ABSENT": { color: "#e74c3c", icon: "x-circle", label: "Absent" },
   "EXCUSED": { color: "#9b59b6", icon: "info", label: "Excused" },
+  "LEFT_EARLY": { color: "#e67e22", icon: "log-out", label: "Left Early" },
 };
 
 const EVENT_TYPE_COLORS: Record<string, string> = {
@@ -1,6 +1,5 @@
 import { useAuth } from "@/contexts/AuthContext";
 import { useOffline } from "@/contexts/OfflineContext";
-import { enqueueCheckIn } from "@/lib/offline-queue";
 import { Feather } from "@expo/vector-icons";
 import { useMutation } from "@apollo/client";
 import { LinearGradient } from "expo-linear-gradient";
@@ -56,7 +55,7 @@ function extractNdefText(tag: any): string | null {
 export default function CheckIn() {
   const router = useRouter();
   const { user, selectedOrganization, selectedTeam, isViewingAsGuardian, selectedAthlete, targetUserId } = useAuth();
-  const { isOnline, refreshPendingCount } = useOffline();
+  const { isOnline, queueMutation } = useOffline();
   const [scanState, setScanState] = useState<ScanState>("scanning");
   const [nfcSupported, setNfcSupported] = useState(true);
   const [resultMessage, setResultMessage] = useState("");
@@ -195,11 +194,16 @@ export default function CheckIn() {
 
       // If offline, queue the check-in for later sync
       if (!isOnline) {
-        await enqueueCheckIn({
-          token: scannedNfcToken,
-          forUserId: isViewingAsGuardian ? selectedAthlete?.id : undefined,
-        });
-        await refreshPendingCount();
+        await queueMutation(
+          "NFC_CHECK_IN",
+          {
+            token: scannedNfcToken,
+            forUserId: isViewingAsGuardian ? selectedAthlete?.id : undefined,
+          },
+          isViewingAsGuardian && selectedAthlete
+            ? `NFC check-in for ${selectedAthlete.firstName}`
+            : "NFC check-in"
+        );
         setScanState("queued");
         return;
       }
@@ -234,11 +238,16 @@ export default function CheckIn() {
       // Network failure while online → queue for sync
       const isNetworkError = !err?.graphQLErrors?.length && !!err?.networkError;
       if (isNetworkError && scannedNfcToken) {
-        await enqueueCheckIn({
-          token: scannedNfcToken,
-          forUserId: isViewingAsGuardian ? selectedAthlete?.id : undefined,
-        });
-        await refreshPendingCount();
+        await queueMutation(
+          "NFC_CHECK_IN",
+          {
+            token: scannedNfcToken,
+            forUserId: isViewingAsGuardian ? selectedAthlete?.id : undefined,
+          },
+          isViewingAsGuardian && selectedAthlete
+            ? `NFC check-in for ${selectedAthlete.firstName}`
+            : "NFC check-in"
+        );
         setScanState("queued");
         return;
       }
@@ -369,6 +378,10 @@ export default function CheckIn() {
                   ? "NFC is not available on this device"
                   : "NFC is not supported on this device"}
             </Text>
+            <Pressable style={styles.qrLink} onPress={() => router.replace("/scan-qr")} hitSlop={8}>
+              <Feather name="maximize" size={16} color="#a78bfa" />
+              <Text style={styles.qrLinkText}>Scan a QR code instead</Text>
+            </Pressable>
             {/* Team chip selector — shown when user belongs to multiple teams */}
             {userTeams.length > 1 && (
               <View style={styles.teamChipRow}>
@@ -933,6 +946,18 @@ const styles = StyleSheet.create({
     fontWeight: "500",
   },
 
+  qrLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 16,
+  },
+  qrLinkText: {
+    color: "#a78bfa",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+
   // Action buttons
   retryButton: {
     flexDirection: "row",
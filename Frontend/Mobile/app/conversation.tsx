@@ -0,0 +1,328 @@
+import { useAuth } from "@/contexts/AuthContext";
+import { GET_CONVERSATION, GET_CONVERSATION_MESSAGES } from "@/lib/graphql/queries";
+import { MARK_CONVERSATION_READ, SEND_MESSAGE } from "@/lib/graphql/mutations";
+import { conversationName } from "@/lib/utils";
+import { useMutation, useQuery } from "@apollo/client";
+import { Feather } from "@expo/vector-icons";
+import { LinearGradient } from "expo-linear-gradient";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { StatusBar } from "expo-status-bar";
+import { useEffect, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+type ChatMessage = {
+  id: string;
+  body: string;
+  createdAt: string;
+  sender: { id: string; firstName: string; lastName: string };
+  readBy: { id: string; firstName: string }[];
+};
+
+type Participant = {
+  id: string;
+  role: "MEMBER" | "GUARDIAN";
+  user: { id: string; firstName: string; lastName: string };
+};
+
+function formatTime(iso: string): string {
+  const date = new Date(iso);
+  const time = date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+  if (date.toDateString() === new Date().toDateString()) return time;
+  return `${date.toLocaleDateString("en-US", { month: "short", day: "numeric" })}, ${time}`;
+}
+
+export default function ConversationScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuth();
+  const [body, setBody] = useState("");
+  const scrollRef = useRef<ScrollView>(null);
+
+  const { data: conversationData } = useQuery(GET_CONVERSATION, {
+    variables: { id },
+    skip: !id,
+  });
+  const { data, loading, refetch } = useQuery(GET_CONVERSATION_MESSAGES, {
+    variables: { conversationId: id, limit: 50 },
+    skip: !id,
+    fetchPolicy: "cache-and-network",
+    pollInterval: 5000,
+  });
+
+  const [sendMessage, { loading: sending }] = useMutation(SEND_MESSAGE);
+  const [markRead] = useMutation(MARK_CONVERSATION_READ, {
+    refetchQueries: ["GetMyConversations"],
+  });
+
+  const conversation = conversationData?.conversation;
+  const messages: ChatMessage[] = data?.conversationMessages || [];
+  const latestId = messages[messages.length - 1]?.id;
+  const guardians: Participant[] = (conversation?.participants || []).filter(
+    (p: Participant) => p.role === "GUARDIAN"
+  );
+  const myLastMessage = [...messages].reverse().find((m) => m.sender.id === user?.id);
+
+  // Mark read whenever a new message arrives while the screen is open
+  useEffect(() => {
+    if (!latestId || !id) return;
+    markRead({ variables: { conversationId: id } }).catch(() => {});
+  }, [latestId, id, markRead]);
+
+  const handleSend = async () => {
+    const text = body.trim();
+    if (!text || !id) return;
+    try {
+      await sendMessage({ variables: { conversationId: id, body: text } });
+      setBody("");
+      refetch();
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to send message.");
+    }
+  };
+
+  return (
+    <LinearGradient
+      colors={["#302b6f", "#4d2a69", "#302b6f"]}
+      style={styles.container}
+      locations={[0.1, 0.6, 1]}
+    >
+      <StatusBar style="light" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable style={styles.backButton} onPress={() => router.back()}>
+          <Feather name="arrow-left" size={24} color="white" />
+        </Pressable>
+        <View style={styles.headerCenter}>
+          <Text style={styles.title} numberOfLines={1}>
+            {conversation ? conversationName(conversation, user?.id) : ""}
+          </Text>
+          {conversation && (
+            <Text style={styles.subtitle}>
+              {conversation.participants.length} participant{conversation.participants.length !== 1 ? "s" : ""}
+            </Text>
+          )}
+        </View>
+        <View style={styles.placeholder} />
+      </View>
+
+      {guardians.length > 0 && (
+        <View style={styles.guardianBanner}>
+          <Feather name="shield" size={14} color="#a855f7" />
+          <Text style={styles.guardianText}>
+            Guardians copied: {guardians.map((g) => `${g.user.firstName} ${g.user.lastName}`).join(", ")}
+          </Text>
+        </View>
+      )}
+
+      <KeyboardAvoidingView
+        style={{ flex: 1 }}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        {loading && messages.length === 0 ? (
+          <View style={{ flex: 1, justifyContent: "center", alignItems: "center" }}>
+            <ActivityIndicator color="#a855f7" size="large" />
+          </View>
+        ) : (
+          <ScrollView
+            ref={scrollRef}
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            onContentSizeChange={() => scrollRef.current?.scrollToEnd({ animated: true })}
+          >
+            {messages.length === 0 ? (
+              <Text style={styles.emptyText}>No messages yet. Say hello!</Text>
+            ) : (
+              messages.map((message) => {
+                const mine = message.sender.id === user?.id;
+                return (
+                  <View key={message.id} style={[styles.messageRow, mine && styles.messageRowMine]}>
+                    {!mine && (
+                      <Text style={styles.senderName}>
+                        {message.sender.firstName} {message.sender.lastName}
+                      </Text>
+                    )}
+                    <View style={[styles.bubble, mine ? styles.bubbleMine : styles.bubbleTheirs]}>
+                      <Text style={styles.bubbleText}>{message.body}</Text>
+                    </View>
+                    <Text style={styles.messageMeta}>
+                      {formatTime(message.createdAt)}
+                      {message.id === myLastMessage?.id && message.readBy.length > 0
+                        ? ` • Seen by ${message.readBy.map((u) => u.firstName).join(", ")}`
+                        : ""}
+                    </Text>
+                  </View>
+                );
+              })
+            )}
+          </ScrollView>
+        )}
+
+        {/* Composer */}
+        <View style={styles.composer}>
+          <TextInput
+            style={styles.input}
+            value={body}
+            onChangeText={setBody}
+            placeholder="Message"
+            placeholderTextColor="rgba(255,255,255,0.4)"
+            multiline
+            maxLength={4000}
+          />
+          <Pressable
+            style={[styles.sendButton, (!body.trim() || sending) && { opacity: 0.4 }]}
+            onPress={handleSend}
+            disabled={!body.trim() || sending}
+          >
+            <Feather name="send" size={18} color="white" />
+          </Pressable>
+        </View>
+      </KeyboardAvoidingView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "rgba(255,255,255,0.1)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerCenter: {
+    flex: 1,
+    alignItems: "center",
+    paddingHorizontal: 12,
+  },
+  title: {
+    color: "white",
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  subtitle: {
+    color: "rgba(255,255,255,0.5)",
+    fontSize: 12,
+    marginTop: 2,
+  },
+  placeholder: {
+    width: 40,
+  },
+  guardianBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginHorizontal: 20,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: "rgba(168,85,247,0.12)",
+  },
+  guardianText: {
+    flex: 1,
+    color: "rgba(255,255,255,0.7)",
+    fontSize: 12,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    gap: 10,
+  },
+  emptyText: {
+    color: "rgba(255,255,255,0.4)",
+    fontSize: 14,
+    textAlign: "center",
+    marginTop: 40,
+  },
+  messageRow: {
+    alignItems: "flex-start",
+    maxWidth: "80%",
+  },
+  messageRowMine: {
+    alignSelf: "flex-end",
+    alignItems: "flex-end",
+  },
+  senderName: {
+    color: "rgba(255,255,255,0.5)",
+    fontSize: 11,
+    marginBottom: 2,
+  },
+  bubble: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  bubbleMine: {
+    backgroundColor: "#6c5ce7",
+    borderBottomRightRadius: 4,
+  },
+  bubbleTheirs: {
+    backgroundColor: "rgba(255,255,255,0.12)",
+    borderBottomLeftRadius: 4,
+  },
+  bubbleText: {
+    color: "white",
+    fontSize: 15,
+  },
+  messageMeta: {
+    color: "rgba(255,255,255,0.35)",
+    fontSize: 10,
+    marginTop: 2,
+  },
+  composer: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    gap: 10,
+    paddingHorizontal: 16,
+    paddingTop: 10,
+    paddingBottom: 34,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: "rgba(255,255,255,0.1)",
+  },
+  input: {
+    flex: 1,
+    maxHeight: 120,
+    backgroundColor: "rgba(255,255,255,0.1)",
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingTop: 10,
+    paddingBottom: 10,
+    color: "white",
+    fontSize: 15,
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "#6c5ce7",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+});
@@ -1,4 +1,4 @@
-import { View, Text, ScrollView, Switch, StyleSheet, Pressable } from "react-native";
+import { View, Text, ScrollView, Switch, StyleSheet, Pressable, TextInput, Alert } from "react-native";
 import { Stack, router } from "expo-router";
 import { useQuery, useMutation } from "@apollo/client";
 import { gql } from "@apollo/client";
@@ -14,6 +14,8 @@ const GET_NOTIFICATION_PREFERENCES = gql(`
       emailEnabled
       pushEnabled
       smsEnabled
+      smsPhone
+      smsOptedOut
       eventRemindersEnabled
       eventReminderMinutes
       announcementsEnabled
@@ -30,6 +32,8 @@ const UPDATE_NOTIFICATION_PREFERENCES = gql(`
       emailEnabled
       pushEnabled
       smsEnabled
+      smsPhone
+      smsOptedOut
       eventRemindersEnabled
       eventReminderMinutes
       announcementsEnabled
@@ -39,6 +43,23 @@ const UPDATE_NOTIFICATION_PREFERENCES = gql(`
   }
 `);
 
+const REQUEST_PHONE_VERIFICATION = gql(`
+  mutation RequestPhoneVerification($phone: String!) {
+    requestPhoneVerification(phone: $phone)
+  }
+`);
+
+const VERIFY_PHONE = gql(`
+  mutation VerifyPhone($code: String!) {
+    verifyPhone(code: $code) {
+      id
+      smsEnabled
+      smsPhone
+      smsOptedOut
+    }
+  }
+`);
+
 const REMINDER_OPTIONS = [
   { label: "30 minutes before", value: 30 },
   { label: "1 hour before", value: 60 },
@@ -50,11 +71,17 @@ const REMINDER_OPTIONS = [
 export default function NotificationSettings() {
   const { data, loading } = useQuery(GET_NOTIFICATION_PREFERENCES);
   const [updatePreferences] = useMutation(UPDATE_NOTIFICATION_PREFERENCES);
+  const [requestPhoneVerification, { loading: sendingCode }] = useMutation(REQUEST_PHONE_VERIFICATION);
+  const [verifyPhone, { loading: verifying }] = useMutation(VERIFY_PHONE);
 
   const prefs = data?.myNotificationPreferences;
 
   const [pushEnabled, setPushEnabled] = useState(true);
   const [emailEnabled, setEmailEnabled] = useState(false);
+  const [smsEnabled, setSmsEnabled] = useState(false);
+  const [verifyStep, setVerifyStep] = useState<"phone" | "code" | null>(null);
+  const [phoneInput, setPhoneInput] = useState("");
+  const [codeInput, setCodeInput] = useState("");
   const [eventRemindersEnabled, setEventRemindersEnabled] = useState(true);
   const [eventReminderMinutes, setEventReminderMinutes] = useState(120);
   const [announcementsEnabled, setAnnouncementsEnabled] = useState(true);
@@ -65,6 +92,7 @@ export default function NotificationSettings() {
     if (prefs) {
       setPushEnabled(prefs.pushEnabled);
       setEmailEnabled(prefs.emailEnabled);
+      setSmsEnabled(prefs.smsEnabled);
       setEventRemindersEnabled(prefs.eventRemindersEnabled);
       setEventReminderMinutes(prefs.eventReminderMinutes);
       setAnnouncementsEnabled(prefs.announcementsEnabled);
@@ -81,6 +109,49 @@ export default function NotificationSettings() {
     }
   };
 
+  const handleSmsToggle = async (value: boolean) => {
+    if (value && !prefs?.smsPhone) {
+      setVerifyStep("phone");
+      return;
+    }
+    setSmsEnabled(value);
+    try {
+      await updatePreferences({ variables: { input: { smsEnabled: value } } });
+    } catch (error: any) {
+      setSmsEnabled(!value);
+      Alert.alert("Error", error.message || "Failed to update text messages.");
+    }
+  };
+
+  const handleSendCode = async () => {
+    try {
+      await requestPhoneVerification({ variables: { phone: phoneInput } });
+      setCodeInput("");
+      setVerifyStep("code");
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to send the code.");
+    }
+  };
+
+  const handleVerify = async () => {
+    try {
+      await verifyPhone({ variables: { code: codeInput } });
+      await updatePreferences({ variables: { input: { smsEnabled: true } } });
+      setSmsEnabled(true);
+      setVerifyStep(null);
+      setPhoneInput("");
+      setCodeInput("");
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to verify your number.");
+    }
+  };
+
+  const smsDescription = prefs?.smsOptedOut
+    ? "You replied STOP. Text START to resume."
+    : prefs?.smsPhone
+      ? `Urgent alerts by text to ${prefs.smsPhone}`
+      : "Verify your mobile number to get texts";
+
   return (
     <LinearGradient
       colors={["#302b6f", "#4d2a69", "#302b6f"]}
@@ -150,6 +221,90 @@ export default function NotificationSettings() {
                   thumbColor="#fff"
                 />
               </View>
+
+              <View style={styles.divider} />
+
+              <View style={styles.row}>
+                <View style={styles.iconContainer}>
+                  <Feather name="message-square" size={18} color="#a855f7" />
+                </View>
+                <View style={styles.rowContent}>
+                  <Text style={styles.rowLabel}>Text Messages</Text>
+                  <Text style={styles.rowDescription}>{smsDescription}</Text>
+                </View>
+                <Switch
+                  value={smsEnabled}
+                  onValueChange={handleSmsToggle}
+                  trackColor={{ false: "rgba(255,255,255,0.15)", true: "#a855f7" }}
+                  thumbColor="#fff"
+                />
+              </View>
+
+              {prefs?.smsPhone && !verifyStep && (
+                <Pressable style={styles.linkRow} onPress={() => setVerifyStep("phone")}>
+                  <Text style={styles.linkText}>Change number</Text>
+                </Pressable>
+              )}
+
+              {verifyStep && (
+                <View style={styles.verifyPanel}>
+                  {verifyStep === "phone" ? (
+                    <>
+                      <Text style={styles.verifyLabel}>Mobile number</Text>
+                      <TextInput
+                        style={styles.input}
+                        value={phoneInput}
+                        onChangeText={setPhoneInput}
+                        placeholder="(613) 555-0123"
+                        placeholderTextColor="rgba(255,255,255,0.3)"
+                        keyboardType="phone-pad"
+                        autoComplete="tel"
+                      />
+                    </>
+                  ) : (
+                    <>
+                      <Text style={styles.verifyLabel}>Enter the 6-digit code we texted you</Text>
+                      <TextInput
+                        style={styles.input}
+                        value={codeInput}
+                        onChangeText={setCodeInput}
+                        placeholder="123456"
+                        placeholderTextColor="rgba(255,255,255,0.3)"
+                        keyboardType="number-pad"
+                        autoComplete="sms-otp"
+                        textContentType="oneTimeCode"
+                        maxLength={6}
+                      />
+                    </>
+                  )}
+                  <View style={styles.verifyActions}>
+                    <Pressable
+                      style={styles.secondaryButton}
+                      onPress={() => setVerifyStep(verifyStep === "code" ? "phone" : null)}
+                    >
+                      <Text style={styles.secondaryButtonText}>{verifyStep === "code" ? "Back" : "Cancel"}</Text>
+                    </Pressable>
+                    <Pressable
+                      style={[
+                        styles.primaryButton,
+                        (sendingCode || verifying) && styles.buttonDisabled,
+                      ]}
+                      disabled={
+                        sendingCode ||
+                        verifying ||
+                        (verifyStep === "phone" ? !phoneInput.trim() : codeInput.trim().length !== 6)
+                      }
+                      onPress={verifyStep === "phone" ? handleSendCode : handleVerify}
+                    >
+                      <Text style={styles.primaryButtonText}>
+                        {verifyStep === "phone"
+                          ? sendingCode ? "Sending..." : "Send Code"
+                          : verifying ? "Verifying..." : "Verify"}
+                      </Text>
+                    </Pressable>
+                  </View>
+                </View>
+              )}
             </View>
 
             {/* Event Reminders */}
@@ -347,6 +502,64 @@ const styles = StyleSheet.create({
     fontSize: 13,
     marginTop: 2,
   },
+  linkRow: {
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    marginLeft: 48,
+  },
+  linkText: {
+    color: "#a855f7",
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  verifyPanel: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  verifyLabel: {
+    color: "rgba(255,255,255,0.5)",
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: "rgba(255,255,255,0.06)",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.1)",
+    color: "white",
+    fontSize: 15,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  verifyActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 10,
+    marginTop: 12,
+  },
+  primaryButton: {
+    backgroundColor: "#a855f7",
+    borderRadius: 10,
+    paddingVertical: 9,
+    paddingHorizontal: 16,
+  },
+  primaryButtonText: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    borderRadius: 10,
+    paddingVertical: 9,
+    paddingHorizontal: 16,
+  },
+  secondaryButtonText: {
+    color: "rgba(255,255,255,0.7)",
+    fontSize: 14,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
   reminderLabel: {
     color: "rgba(255,255,255,0.5)",
     fontSize: 13,
@@ -38,6 +38,8 @@ const TYPE_CONFIG: Record<string, { icon: string; color: string; label: string }
   ATTENDANCE_MILESTONE: { icon: "award", color: "#10b981", label: "Milestone" },
   EMAIL_REPORT: { icon: "mail", color: "#6c5ce7", label: "Report" },
   GUARDIAN_INVITE: { icon: "user-plus", color: "#06b6d4", label: "Guardian Invite" },
+  MESSAGE: { icon: "message-circle", color: "#a855f7", label: "Message" },
+  ATTENDANCE_ESCALATION: { icon: "alert-triangle", color: "#ef4444", label: "Attendance Alert" },
 };
 
 function formatRelativeTime(dateStr: string): string {
@@ -90,12 +92,20 @@ export default function Notifications() {
   );
 
   const handleOpen = async (notif: NotificationDelivery) => {
-    setSelectedNotif(notif);
     if (!notif.readAt) {
+      markRead({ variables: { id: notif.id } }).catch(() => {});
+    }
+    // Message notifications open the conversation itself
+    if (notif.type === "MESSAGE") {
       try {
-        await markRead({ variables: { id: notif.id } });
+        const meta = notif.metadata ? JSON.parse(notif.metadata) : null;
+        if (meta?.conversationId) {
+          router.push({ pathname: "/conversation", params: { id: meta.conversationId } });
+          return;
+        }
       } catch {}
     }
+    setSelectedNotif(notif);
   };
 
   const handleMarkAllRead = async () => {
@@ -1,4 +1,6 @@
 import { useAuth } from "@/contexts/AuthContext";
+import { useOffline } from "@/contexts/OfflineContext";
+import type { OutboxItem } from "@/lib/offline-queue";
 import {
   GET_PENDING_AD_HOC_CHECK_INS,
   APPROVE_AD_HOC_CHECK_IN,
@@ -54,6 +56,21 @@ export default function PendingCheckIns() {
 
   const pendingList: PendingCheckIn[] = data?.pendingAdHocCheckIns || [];
 
+  // Check-ins tapped offline on this device that the server wouldn't accept
+  const { outbox, isSyncing, retryItem, discardItem } = useOffline();
+  const conflicts = outbox.filter((q) => q.kind === "NFC_CHECK_IN" && q.conflict);
+
+  function handleDiscard(item: OutboxItem) {
+    Alert.alert(
+      "Discard Check-In",
+      `Discard the check-in from ${formatDate(item.queuedAt)} at ${formatTime(item.queuedAt)}? Ask a coach to record your attendance instead.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Discard", style: "destructive", onPress: () => discardItem(item.id) },
+      ]
+    );
+  }
+
   async function handleApprove(checkInId: string) {
     try {
       await approveCheckIn({ variables: { checkInId } });
@@ -121,6 +138,49 @@ export default function PendingCheckIns() {
         <View style={styles.placeholder} />
       </View>
 
+      {conflicts.length > 0 && (
+        <View style={styles.conflictSection}>
+          <Text style={styles.countText}>
+            {`${conflicts.length} offline check-in${conflicts.length !== 1 ? "s" : ""} couldn't sync`}
+          </Text>
+          {conflicts.map((item) => (
+            <View key={item.id} style={[styles.card, styles.conflictCard]}>
+              <View style={styles.cardHeader}>
+                <View style={styles.userInfo}>
+                  <Feather name="alert-triangle" size={20} color="#ef4444" />
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.userName}>
+                      Tapped {formatDate(item.queuedAt)} at {formatTime(item.queuedAt)}
+                    </Text>
+                    <Text style={styles.cardMeta}>{item.conflict}</Text>
+                  </View>
+                </View>
+              </View>
+              <View style={styles.actions}>
+                <Pressable
+                  style={({ pressed }) => [styles.denyButton, pressed && { opacity: 0.8 }]}
+                  onPress={() => handleDiscard(item)}
+                >
+                  <Feather name="trash-2" size={16} color="#ef4444" />
+                  <Text style={styles.denyText}>Discard</Text>
+                </Pressable>
+                <Pressable
+                  style={({ pressed }) => [
+                    styles.approveButton,
+                    (pressed || isSyncing) && { opacity: 0.8 },
+                  ]}
+                  disabled={isSyncing}
+                  onPress={() => retryItem(item.id)}
+                >
+                  <Feather name="refresh-cw" size={16} color="white" />
+                  <Text style={styles.approveText}>Retry</Text>
+                </Pressable>
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+
       {loading ? (
         <View style={styles.centered}>
           <ActivityIndicator color="#a855f7" size="large" />
@@ -246,6 +306,13 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     paddingBottom: 40,
   },
+  conflictSection: {
+    paddingHorizontal: 20,
+    marginBottom: 8,
+  },
+  conflictCard: {
+    borderColor: "rgba(239,68,68,0.3)",
+  },
   countText: {
     color: "rgba(255,255,255,0.5)",
     fontSize: 13,
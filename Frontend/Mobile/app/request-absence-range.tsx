@@ -0,0 +1,506 @@
+import { useAuth } from "@/contexts/AuthContext";
+import { alertQueued, useOffline } from "@/contexts/OfflineContext";
+import { CANCEL_ABSENCE_REQUEST, GET_MY_ABSENCE_REQUESTS } from "@/lib/graphql";
+import { useMutation, useQuery } from "@apollo/client";
+import { Feather } from "@expo/vector-icons";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import { LinearGradient } from "expo-linear-gradient";
+import { useRouter } from "expo-router";
+import { StatusBar } from "expo-status-bar";
+import { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+const STATUS_COLORS: Record<string, string> = {
+  PENDING: "#f39c12",
+  APPROVED: "#27ae60",
+  DENIED: "#e74c3c",
+};
+
+type AbsenceRequest = {
+  id: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+  status: "PENDING" | "APPROVED" | "DENIED";
+  teams: { id: string; name: string }[];
+  events: { id: string }[];
+};
+
+/** YYYY-MM-DD for the picked calendar day. */
+function toDateInput(date: Date): string {
+  const pad2 = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+}
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" });
+}
+
+// Request days are stored at noon UTC, so show them in UTC to keep the same day
+function formatRange(startDate: string, endDate: string): string {
+  const fmt = (iso: string) =>
+    new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+  const start = fmt(startDate);
+  const end = fmt(endDate);
+  return start === end ? start : `${start} – ${end}`;
+}
+
+export default function RequestAbsenceRange() {
+  const router = useRouter();
+  const { selectedOrganization, targetUserId, teamsForCurrentOrg, isViewingAsGuardian } = useAuth();
+  const { mutateOrQueue } = useOffline();
+
+  const [startDate, setStartDate] = useState(() => new Date());
+  const [endDate, setEndDate] = useState(() => new Date());
+  const [picker, setPicker] = useState<"start" | "end" | null>(null);
+  const [teamIds, setTeamIds] = useState<string[]>([]);
+  const [reason, setReason] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  // A guardian's own teams aren't the athlete's, so they request for all teams
+  const athleteTeams = isViewingAsGuardian
+    ? []
+    : teamsForCurrentOrg.filter((t) => t.role === "MEMBER" || t.role === "CAPTAIN");
+
+  const { data } = useQuery<{ myAbsenceRequests: AbsenceRequest[] }>(GET_MY_ABSENCE_REQUESTS, {
+    variables: { userId: targetUserId, organizationId: selectedOrganization?.id },
+    skip: !targetUserId || !selectedOrganization?.id,
+  });
+  const [cancelAbsence] = useMutation(CANCEL_ABSENCE_REQUEST, {
+    refetchQueries: ["GetMyAbsenceRequests"],
+  });
+  const requests = data?.myAbsenceRequests ?? [];
+
+  const toggleTeam = (id: string) =>
+    setTeamIds((prev) => (prev.includes(id) ? prev.filter((t) => t !== id) : [...prev, id]));
+
+  const handleDateChange = (date: Date | undefined) => {
+    if (Platform.OS === "android") setPicker(null);
+    if (!date) return;
+    if (picker === "start") {
+      setStartDate(date);
+      if (date > endDate) setEndDate(date);
+    } else {
+      setEndDate(date);
+      if (date < startDate) setStartDate(date);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!reason.trim() || !targetUserId || !selectedOrganization) return;
+
+    setLoading(true);
+    try {
+      const range = `${formatDay(startDate)} – ${formatDay(endDate)}`;
+      const result = await mutateOrQueue(
+        "CREATE_ABSENCE_REQUEST",
+        {
+          input: {
+            userId: targetUserId,
+            organizationId: selectedOrganization.id,
+            startDate: toDateInput(startDate),
+            endDate: toDateInput(endDate),
+            reason: reason.trim(),
+            ...(teamIds.length > 0 && { teamIds }),
+          },
+        },
+        `Absence request for ${range}`
+      );
+      if (result === "queued") alertQueued();
+      router.back();
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to submit absence request.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = (id: string) => {
+    Alert.alert("Cancel Request", "Withdraw this absence request?", [
+      { text: "Keep", style: "cancel" },
+      {
+        text: "Withdraw",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await cancelAbsence({ variables: { id } });
+          } catch (error: any) {
+            Alert.alert("Error", error.message || "Failed to cancel absence request.");
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <LinearGradient
+      colors={["#302b6f", "#4d2a69", "#302b6f"]}
+      style={styles.gradient}
+      locations={[0.1, 0.6, 1]}
+    >
+      <StatusBar style="light" />
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.container}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Pressable
+            style={({ pressed }) => [styles.backButton, pressed && { opacity: 0.5 }]}
+            onPress={() => router.back()}
+          >
+            <Feather name="arrow-left" size={22} color="white" />
+          </Pressable>
+          <Text style={styles.headerTitle}>Time Off</Text>
+          <View style={{ width: 40 }} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <Text style={styles.intro}>
+            One request covers every event in the range, including ones scheduled later. A coach reviews it once.
+          </Text>
+
+          {/* Dates */}
+          <View style={styles.dateRow}>
+            <View style={styles.dateField}>
+              <Text style={styles.inputLabel}>From</Text>
+              <Pressable
+                style={[styles.dateButton, picker === "start" && styles.dateButtonActive]}
+                onPress={() => setPicker(picker === "start" ? null : "start")}
+              >
+                <Feather name="calendar" size={16} color="#a855f7" />
+                <Text style={styles.dateButtonText}>{formatDay(startDate)}</Text>
+              </Pressable>
+            </View>
+            <View style={styles.dateField}>
+              <Text style={styles.inputLabel}>To</Text>
+              <Pressable
+                style={[styles.dateButton, picker === "end" && styles.dateButtonActive]}
+                onPress={() => setPicker(picker === "end" ? null : "end")}
+              >
+                <Feather name="calendar" size={16} color="#a855f7" />
+                <Text style={styles.dateButtonText}>{formatDay(endDate)}</Text>
+              </Pressable>
+            </View>
+          </View>
+          {picker && (
+            <View style={styles.pickerContainer}>
+              <DateTimePicker
+                value={picker === "start" ? startDate : endDate}
+                mode="date"
+                display={Platform.OS === "ios" ? "inline" : "default"}
+                minimumDate={picker === "end" ? startDate : undefined}
+                themeVariant="dark"
+                onChange={(_, date) => handleDateChange(date)}
+              />
+            </View>
+          )}
+
+          {/* Teams */}
+          {athleteTeams.length > 1 && (
+            <View style={styles.inputSection}>
+              <Text style={styles.inputLabel}>Teams</Text>
+              <View style={styles.chipRow}>
+                <Pressable
+                  style={[styles.chip, teamIds.length === 0 && styles.chipActive]}
+                  onPress={() => setTeamIds([])}
+                >
+                  <Text style={[styles.chipText, teamIds.length === 0 && styles.chipTextActive]}>All teams</Text>
+                </Pressable>
+                {athleteTeams.map((team) => {
+                  const active = teamIds.includes(team.id);
+                  return (
+                    <Pressable
+                      key={team.id}
+                      style={[styles.chip, active && styles.chipActive]}
+                      onPress={() => toggleTeam(team.id)}
+                    >
+                      <Text style={[styles.chipText, active && styles.chipTextActive]}>{team.name}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+
+          {/* Reason Input */}
+          <View style={styles.inputSection}>
+            <Text style={styles.inputLabel}>Reason for absence</Text>
+            <TextInput
+              style={styles.reasonInput}
+              placeholder="e.g. Family trip"
+              placeholderTextColor="rgba(255,255,255,0.3)"
+              value={reason}
+              onChangeText={setReason}
+              multiline
+              numberOfLines={4}
+              textAlignVertical="top"
+              maxLength={1000}
+            />
+          </View>
+
+          {/* Existing requests */}
+          {requests.length > 0 && (
+            <View style={styles.inputSection}>
+              <Text style={styles.inputLabel}>Your requests</Text>
+              <View style={styles.requestList}>
+                {requests.map((request) => (
+                  <View key={request.id} style={styles.requestCard}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.requestRange}>{formatRange(request.startDate, request.endDate)}</Text>
+                      <Text style={styles.requestMeta} numberOfLines={1}>
+                        {request.teams.length ? request.teams.map((t) => t.name).join(", ") : "All teams"} ·{" "}
+                        {request.events.length} event{request.events.length === 1 ? "" : "s"}
+                      </Text>
+                    </View>
+                    <View style={[styles.statusBadge, { backgroundColor: `${STATUS_COLORS[request.status]}33` }]}>
+                      <Text style={[styles.statusText, { color: STATUS_COLORS[request.status] }]}>
+                        {request.status.charAt(0) + request.status.slice(1).toLowerCase()}
+                      </Text>
+                    </View>
+                    {request.status === "PENDING" && (
+                      <Pressable style={styles.cancelButton} onPress={() => handleCancel(request.id)}>
+                        <Feather name="x" size={16} color="rgba(255,255,255,0.5)" />
+                      </Pressable>
+                    )}
+                  </View>
+                ))}
+              </View>
+            </View>
+          )}
+        </ScrollView>
+
+        {/* Submit Button */}
+        <View style={styles.footer}>
+          <Pressable
+            style={({ pressed }) => [
+              styles.submitButton,
+              pressed && { opacity: 0.9, transform: [{ scale: 0.98 }] },
+              (!reason.trim() || loading) && styles.submitButtonDisabled,
+            ]}
+            onPress={handleSubmit}
+            disabled={!reason.trim() || loading}
+          >
+            <LinearGradient
+              colors={["#6c5ce7", "#a855f7"]}
+              start={{ x: 0, y: 0 }}
+              end={{ x: 1, y: 1 }}
+              style={styles.submitGradient}
+            >
+              {loading ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <Text style={styles.submitText}>Submit Request</Text>
+              )}
+            </LinearGradient>
+          </Pressable>
+        </View>
+      </KeyboardAvoidingView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  gradient: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingTop: 70,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "rgba(255,255,255,0.1)",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  headerTitle: {
+    color: "white",
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  intro: {
+    color: "rgba(255,255,255,0.5)",
+    fontSize: 14,
+    lineHeight: 20,
+  },
+
+  // Dates
+  dateRow: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 20,
+  },
+  dateField: {
+    flex: 1,
+  },
+  dateButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "rgba(255,255,255,0.08)",
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.1)",
+  },
+  dateButtonActive: {
+    borderColor: "#a855f7",
+  },
+  dateButtonText: {
+    color: "white",
+    fontSize: 15,
+  },
+  pickerContainer: {
+    marginTop: 12,
+    backgroundColor: "rgba(255,255,255,0.05)",
+    borderRadius: 14,
+    overflow: "hidden",
+  },
+
+  // Teams
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: "rgba(255,255,255,0.08)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.1)",
+  },
+  chipActive: {
+    backgroundColor: "rgba(168,85,247,0.25)",
+    borderColor: "#a855f7",
+  },
+  chipText: {
+    color: "rgba(255,255,255,0.6)",
+    fontSize: 14,
+  },
+  chipTextActive: {
+    color: "white",
+    fontWeight: "600",
+  },
+
+  // Input
+  inputSection: {
+    marginTop: 24,
+  },
+  inputLabel: {
+    color: "rgba(255,255,255,0.6)",
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 10,
+  },
+  reasonInput: {
+    backgroundColor: "rgba(255,255,255,0.08)",
+    borderRadius: 14,
+    padding: 16,
+    color: "white",
+    fontSize: 16,
+    minHeight: 110,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.1)",
+    lineHeight: 22,
+  },
+
+  // Existing requests
+  requestList: {
+    gap: 8,
+  },
+  requestCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    backgroundColor: "rgba(255,255,255,0.06)",
+    borderRadius: 12,
+    padding: 12,
+  },
+  requestRange: {
+    color: "white",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  requestMeta: {
+    color: "rgba(255,255,255,0.45)",
+    fontSize: 13,
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 8,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  cancelButton: {
+    padding: 4,
+  },
+
+  // Footer
+  footer: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+    paddingTop: 12,
+  },
+  submitButton: {
+    borderRadius: 14,
+    overflow: "hidden",
+    shadowColor: "#a855f7",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 12,
+    elevation: 6,
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitGradient: {
+    paddingVertical: 16,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  submitText: {
+    color: "white",
+    fontSize: 17,
+    fontWeight: "bold",
+  },
+});
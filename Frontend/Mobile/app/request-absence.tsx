@@ -1,6 +1,7 @@
 import { useAuth } from "@/contexts/AuthContext";
-import { CREATE_EXCUSE_REQUEST } from "@/lib/graphql/mutations";
-import { useMutation } from "@apollo/client";
+import { alertQueued, useOffline } from "@/contexts/OfflineContext";
+import { GENERATE_EXCUSE_ATTACHMENT_UPLOAD_URL, GET_EXCUSE_CATEGORIES } from "@/lib/graphql";
+import { useMutation, useQuery } from "@apollo/client";
 import { Feather } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
 import { useLocalSearchParams, useRouter } from "expo-router";
@@ -31,6 +32,17 @@ const EVENT_TYPE_COLORS: Record<string, string> = {
   game: "#e74c3c",
 };
 
+const MAX_ATTACHMENTS = 5;
+
+type ExcuseCategory = {
+  id: string;
+  name: string;
+  autoApprove: "NEVER" | "ALWAYS" | "WITH_ATTACHMENT";
+  requiresAttachment: boolean;
+};
+
+type PickedAttachment = { uri: string; fileName: string; contentType: string };
+
 function formatDate(isoDate: string): string {
   const date = new Date(isoDate);
   return date.toLocaleDateString("en-US", {
@@ -43,7 +55,7 @@ function formatDate(isoDate: string): string {
 
 export default function RequestAbsence() {
   const router = useRouter();
-  const { user, targetUserId } = useAuth();
+  const { user, targetUserId, selectedOrganization } = useAuth();
   const params = useLocalSearchParams<{
     eventId: string;
     eventTitle: string;
@@ -58,26 +70,96 @@ export default function RequestAbsence() {
   const [reason, setReason] = useState("");
   const currentAttempt = params.attemptCount ? parseInt(params.attemptCount) + 1 : 1;
   const attemptsRemaining = 3 - (currentAttempt - 1);
-  const [createExcuse, { loading }] = useMutation(CREATE_EXCUSE_REQUEST, {
-    refetchQueries: ["GetMyExcuseRequests"],
+  const { mutateOrQueue, isOnline } = useOffline();
+  const [loading, setLoading] = useState(false);
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<PickedAttachment[]>([]);
+
+  const { data: categoriesData } = useQuery(GET_EXCUSE_CATEGORIES, {
+    variables: { organizationId: selectedOrganization?.id },
+    skip: !selectedOrganization?.id,
   });
+  const [generateUploadUrl] = useMutation(GENERATE_EXCUSE_ATTACHMENT_UPLOAD_URL);
+
+  const categories: ExcuseCategory[] = categoriesData?.excuseCategories || [];
+  const category = categories.find((c) => c.id === categoryId);
+  const missingAttachment = !!category?.requiresAttachment && attachments.length === 0;
+  const canSubmit = !!reason.trim() && !missingAttachment && !loading;
+
+  const handleAttach = async () => {
+    let ImagePicker: typeof import("expo-image-picker");
+    try {
+      ImagePicker = await import("expo-image-picker");
+    } catch {
+      Alert.alert("Rebuild Required", "Attaching documents requires a native rebuild. Run 'npx expo run:ios' or 'npx expo run:android'.");
+      return;
+    }
+
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert("Permission Required", "Please allow access to your photo library to attach a document.");
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({ mediaTypes: ["images"], quality: 0.8 });
+    if (result.canceled || !result.assets[0]) return;
+
+    const asset = result.assets[0];
+    const contentType = asset.mimeType || "image/jpeg";
+    const fileName = asset.fileName || `document-${attachments.length + 1}.${contentType.split("/")[1] || "jpg"}`;
+    setAttachments((prev) => [...prev, { uri: asset.uri, fileName, contentType }]);
+  };
+
+  // Documents go straight to storage, so unlike the request itself they can't wait in the outbox
+  const uploadAttachments = async () => {
+    const uploaded: { key: string; fileName: string; contentType: string }[] = [];
+    for (const attachment of attachments) {
+      const { data } = await generateUploadUrl({ variables: { fileType: attachment.contentType } });
+      const { uploadUrl, key } = data.generateExcuseAttachmentUploadUrl;
+
+      const response = await fetch(attachment.uri);
+      const blob = await response.blob();
+      const put = await fetch(uploadUrl, {
+        method: "PUT",
+        body: blob,
+        headers: { "Content-Type": attachment.contentType },
+      });
+      if (!put.ok) throw new Error(`Could not upload ${attachment.fileName}.`);
+
+      uploaded.push({ key, fileName: attachment.fileName, contentType: attachment.contentType });
+    }
+    return uploaded;
+  };
 
   const handleSubmit = async () => {
-    if (!reason.trim() || !targetUserId || !params.eventId) return;
+    if (!canSubmit || !targetUserId || !params.eventId) return;
+    if (attachments.length > 0 && !isOnline) {
+      Alert.alert("No Connection", "Supporting documents can only be sent while you're online.");
+      return;
+    }
 
+    setLoading(true);
     try {
-      await createExcuse({
-        variables: {
+      const uploaded = attachments.length > 0 ? await uploadAttachments() : undefined;
+      const result = await mutateOrQueue(
+        "CREATE_EXCUSE_REQUEST",
+        {
           input: {
             userId: targetUserId,
             eventId: params.eventId,
             reason: reason.trim(),
+            ...(categoryId && { categoryId }),
+            ...(uploaded && { attachments: uploaded }),
           },
         },
-      });
+        `Absence request for ${params.eventTitle || "event"}`
+      );
+      if (result === "queued") alertQueued();
       router.back();
     } catch (error: any) {
       Alert.alert("Error", error.message || "Failed to submit absence request.");
+    } finally {
+      setLoading(false);
     }
   };
 
@@ -167,6 +249,72 @@ export default function RequestAbsence() {
               autoFocus
             />
           </View>
+
+          {/* Category */}
+          {categories.length > 0 && (
+            <View style={styles.inputSection}>
+              <Text style={styles.inputLabel}>Category</Text>
+              <View style={styles.chipRow}>
+                {categories.map((c) => {
+                  const active = c.id === categoryId;
+                  return (
+                    <Pressable
+                      key={c.id}
+                      style={[styles.chip, active && styles.chipActive]}
+                      onPress={() => setCategoryId(active ? null : c.id)}
+                    >
+                      <Text style={[styles.chipText, active && styles.chipTextActive]}>{c.name}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              {category && (category.requiresAttachment || category.autoApprove !== "NEVER") ? (
+                <Text style={styles.categoryHint}>
+                  {[
+                    category.requiresAttachment && "Needs a supporting document.",
+                    category.autoApprove === "ALWAYS" && "Approved as soon as you submit.",
+                    category.autoApprove === "WITH_ATTACHMENT" && "Approved as soon as you submit with a document.",
+                  ]
+                    .filter(Boolean)
+                    .join(" ")}
+                </Text>
+              ) : null}
+            </View>
+          )}
+
+          {/* Supporting documents */}
+          <View style={styles.inputSection}>
+            <Text style={styles.inputLabel}>Supporting documents</Text>
+            {attachments.map((a, index) => (
+              <View key={a.uri} style={styles.attachmentRow}>
+                <Feather name="paperclip" size={14} color="rgba(255,255,255,0.6)" />
+                <Text style={styles.attachmentName} numberOfLines={1}>{a.fileName}</Text>
+                <Pressable
+                  hitSlop={8}
+                  onPress={() => setAttachments((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <Feather name="x" size={16} color="rgba(255,255,255,0.5)" />
+                </Pressable>
+              </View>
+            ))}
+            {attachments.length < MAX_ATTACHMENTS && (
+              <Pressable
+                style={({ pressed }) => [styles.attachButton, pressed && { opacity: 0.6 }]}
+                onPress={handleAttach}
+              >
+                <Feather name="camera" size={14} color="#a855f7" />
+                <Text style={styles.rangeLinkText}>Attach a photo of a note</Text>
+              </Pressable>
+            )}
+          </View>
+
+          <Pressable
+            style={({ pressed }) => [styles.rangeLink, pressed && { opacity: 0.6 }]}
+            onPress={() => router.replace("/request-absence-range")}
+          >
+            <Feather name="calendar" size={14} color="#a855f7" />
+            <Text style={styles.rangeLinkText}>Away for more than one event? Request time off</Text>
+          </Pressable>
         </ScrollView>
 
         {/* Submit Button */}
@@ -175,10 +323,10 @@ export default function RequestAbsence() {
             style={({ pressed }) => [
               styles.submitButton,
               pressed && { opacity: 0.9, transform: [{ scale: 0.98 }] },
-              (!reason.trim() || loading) && styles.submitButtonDisabled,
+              !canSubmit && styles.submitButtonDisabled,
             ]}
             onPress={handleSubmit}
-            disabled={!reason.trim() || loading}
+            disabled={!canSubmit}
           >
             <LinearGradient
               colors={["#6c5ce7", "#a855f7"]}
@@ -307,6 +455,72 @@ const styles = StyleSheet.create({
     lineHeight: 22,
   },
 
+  // Category
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: "rgba(255,255,255,0.08)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.1)",
+  },
+  chipActive: {
+    backgroundColor: "rgba(168,85,247,0.25)",
+    borderColor: "#a855f7",
+  },
+  chipText: {
+    color: "rgba(255,255,255,0.6)",
+    fontSize: 14,
+  },
+  chipTextActive: {
+    color: "white",
+    fontWeight: "600",
+  },
+  categoryHint: {
+    color: "rgba(255,255,255,0.45)",
+    fontSize: 13,
+    marginTop: 10,
+  },
+
+  // Attachments
+  attachmentRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 8,
+    backgroundColor: "rgba(255,255,255,0.06)",
+    borderRadius: 10,
+  },
+  attachmentName: {
+    flex: 1,
+    color: "rgba(255,255,255,0.8)",
+    fontSize: 14,
+  },
+  attachButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+
+  rangeLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 16,
+  },
+  rangeLinkText: {
+    color: "#a855f7",
+    fontSize: 14,
+    fontWeight: "500",
+  },
+
   // Footer
   footer: {
     paddingHorizontal: 20,
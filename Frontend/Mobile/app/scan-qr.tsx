@@ -0,0 +1,404 @@
+import { useAuth } from "@/contexts/AuthContext";
+import { useOffline } from "@/contexts/OfflineContext";
+import { Feather } from "@expo/vector-icons";
+import { useMutation } from "@apollo/client";
+import { CameraView, useCameraPermissions, type BarcodeScanningResult } from "expo-camera";
+import { LinearGradient } from "expo-linear-gradient";
+import { useRouter } from "expo-router";
+import { StatusBar } from "expo-status-bar";
+import { useRef, useState } from "react";
+import { ActivityIndicator, Linking, Pressable, StyleSheet, Text, View } from "react-native";
+import { QR_CHECK_IN } from "@/lib/graphql";
+
+type ScanState = "scanning" | "submitting" | "success" | "error" | "tooEarly";
+
+export default function ScanQrCheckIn() {
+  const router = useRouter();
+  const { isViewingAsGuardian, selectedAthlete } = useAuth();
+  const { isOnline } = useOffline();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [scanState, setScanState] = useState<ScanState>("scanning");
+  const [resultMessage, setResultMessage] = useState("");
+  const [resultDetails, setResultDetails] = useState("");
+  const [checkedOut, setCheckedOut] = useState(false);
+  const [earlyEventTitle, setEarlyEventTitle] = useState("");
+  const [earlyEventTime, setEarlyEventTime] = useState("");
+  // The camera reports the same code many times a second; only submit the first
+  const handlingRef = useRef(false);
+  const scannedCodeRef = useRef<string | null>(null);
+
+  const [qrCheckIn] = useMutation(QR_CHECK_IN, {
+    refetchQueries: ["GetActiveCheckIn", "GetCheckInHistory"],
+  });
+
+  function showError(message: string, details: string) {
+    setScanState("error");
+    setResultMessage(message);
+    setResultDetails(details);
+  }
+
+  async function submit(code: string, bypassEarlyCheck = false) {
+    setScanState("submitting");
+    try {
+      const { data } = await qrCheckIn({
+        variables: {
+          code,
+          forUserId: isViewingAsGuardian ? selectedAthlete?.id : undefined,
+          bypassEarlyCheck,
+        },
+      });
+      const { action, event, checkIn } = data.qrCheckIn;
+      setCheckedOut(action === "CHECKED_OUT");
+      setScanState("success");
+      if (action === "CHECKED_IN") {
+        setResultMessage("Checked In!");
+        const statusLabel = checkIn.status === "ON_TIME" ? "On Time" : "Late";
+        setResultDetails(`${event.title} • ${bypassEarlyCheck ? "Hours counted from event start" : statusLabel}`);
+      } else {
+        setResultMessage("Checked Out!");
+        const hours = checkIn.hoursLogged ? `${checkIn.hoursLogged.toFixed(1)}h logged` : "";
+        setResultDetails(`${event.title}${hours ? ` • ${hours}` : ""}`);
+      }
+    } catch (err: any) {
+      const gqlError: string = err?.graphQLErrors?.[0]?.message || "";
+      if (!gqlError && err?.networkError) {
+        // Codes expire within a minute, so there's nothing useful to queue
+        showError("No Connection", "QR check-in needs an internet connection. Try again once you're back online.");
+      } else if (gqlError.startsWith("TOO_EARLY:")) {
+        const parts = gqlError.split(":");
+        setEarlyEventTitle(parts[1] || "Event");
+        setEarlyEventTime(parts[2] || "");
+        setScanState("tooEarly");
+      } else if (gqlError.includes("expired")) {
+        showError("Code Expired", "Scan the code on the coach's screen again.");
+      } else if (gqlError.includes("Unrecognized QR code")) {
+        showError("Unrecognized Code", "This isn't an Athletiq check-in code");
+      } else if (gqlError.includes("Already checked out")) {
+        showError("Already Checked Out", "You have already checked in and out of this event");
+      } else if (gqlError.includes("not a member")) {
+        showError("Not a Member", "You are not a member of this organization");
+      } else {
+        showError("Check-In Failed", gqlError || "Could not process check-in");
+      }
+    }
+  }
+
+  function handleScanned({ data }: BarcodeScanningResult) {
+    if (handlingRef.current) return;
+    handlingRef.current = true;
+    scannedCodeRef.current = data;
+    if (!isOnline) {
+      showError("No Connection", "QR check-in needs an internet connection. Try again once you're back online.");
+      return;
+    }
+    submit(data);
+  }
+
+  function scanAgain() {
+    handlingRef.current = false;
+    scannedCodeRef.current = null;
+    setScanState("scanning");
+  }
+
+  const cameraReady = permission?.granted && scanState === "scanning";
+
+  return (
+    <LinearGradient
+      colors={["#302b6f", "#4d2a69", "#302b6f"]}
+      style={styles.container}
+      locations={[0.1, 0.6, 1]}
+    >
+      <StatusBar style="light" />
+
+      <Pressable style={styles.closeButton} onPress={() => router.back()}>
+        <Feather name="x" size={24} color="white" />
+      </Pressable>
+
+      <View style={styles.content}>
+        {scanState === "scanning" && (
+          <>
+            <Text style={styles.title}>
+              {isViewingAsGuardian ? `Checking in ${selectedAthlete?.firstName}` : "Scan QR Code"}
+            </Text>
+            <Text style={styles.subtitle}>{"Point your camera at the code on the coach's screen"}</Text>
+          </>
+        )}
+
+        {scanState === "submitting" && <Text style={styles.title}>Checking In...</Text>}
+
+        {(scanState === "success" || scanState === "error") && (
+          <>
+            <Text style={styles.title}>{resultMessage}</Text>
+            <Text style={styles.subtitle}>{resultDetails}</Text>
+          </>
+        )}
+
+        {scanState === "tooEarly" && (
+          <>
+            <Text style={styles.title}>Too Early</Text>
+            <Text style={styles.subtitle}>
+              Check-in for{" "}
+              <Text style={{ color: "#a78bfa", fontWeight: "600" }}>{earlyEventTitle}</Text>
+              {" "}opens 30 minutes before the event
+            </Text>
+            <View style={styles.earlyCard}>
+              <Feather name="calendar" size={18} color="#a78bfa" />
+              <Text style={styles.earlyCardText}>
+                {earlyEventTitle} at {earlyEventTime}
+              </Text>
+            </View>
+          </>
+        )}
+
+        {/* Camera / status indicator */}
+        {cameraReady ? (
+          <View style={styles.cameraFrame}>
+            <CameraView
+              style={StyleSheet.absoluteFill}
+              facing="back"
+              barcodeScannerSettings={{ barcodeTypes: ["qr"] }}
+              onBarcodeScanned={handleScanned}
+            />
+          </View>
+        ) : scanState === "scanning" ? (
+          <View style={styles.permissionCard}>
+            <Feather name="camera-off" size={32} color="rgba(255,255,255,0.6)" />
+            <Text style={styles.permissionText}>
+              {permission?.canAskAgain === false
+                ? "Camera access is turned off for Athletiq. Turn it on in Settings to scan check-in codes."
+                : "Athletiq needs your camera to scan check-in codes."}
+            </Text>
+            <Pressable
+              style={({ pressed }) => [styles.doneButton, { marginTop: 20 }, pressed && { opacity: 0.8 }]}
+              onPress={() => (permission?.canAskAgain === false ? Linking.openSettings() : requestPermission())}
+            >
+              <Text style={styles.doneText}>
+                {permission?.canAskAgain === false ? "Open Settings" : "Allow Camera"}
+              </Text>
+            </Pressable>
+          </View>
+        ) : scanState === "submitting" ? (
+          <View style={styles.scanArea}>
+            <ActivityIndicator size="large" color="#a855f7" />
+          </View>
+        ) : (
+          <View style={styles.scanArea}>
+            <View
+              style={[
+                styles.scanIcon,
+                scanState === "success" && styles.scanIconSuccess,
+                scanState === "error" && styles.scanIconError,
+                scanState === "tooEarly" && styles.scanIconWarning,
+              ]}
+            >
+              <Feather
+                name={
+                  scanState === "error"
+                    ? "alert-triangle"
+                    : scanState === "tooEarly"
+                      ? "clock"
+                      : checkedOut
+                        ? "log-out"
+                        : "check"
+                }
+                size={48}
+                color="white"
+              />
+            </View>
+          </View>
+        )}
+
+        {scanState === "error" && (
+          <Pressable style={({ pressed }) => [styles.retryButton, pressed && { opacity: 0.8 }]} onPress={scanAgain}>
+            <Feather name="refresh-cw" size={18} color="white" />
+            <Text style={styles.retryText}>Scan Again</Text>
+          </Pressable>
+        )}
+
+        {scanState === "tooEarly" && (
+          <View style={styles.earlyActions}>
+            <Pressable
+              style={({ pressed }) => [styles.earlyConfirmButton, pressed && { opacity: 0.8 }]}
+              onPress={() => scannedCodeRef.current && submit(scannedCodeRef.current, true)}
+            >
+              <Text style={styles.earlyConfirmText}>Check In Anyway</Text>
+            </Pressable>
+            <Pressable
+              style={({ pressed }) => [styles.earlyCancelButton, pressed && { opacity: 0.8 }]}
+              onPress={() => router.back()}
+            >
+              <Text style={styles.earlyCancelText}>Cancel</Text>
+            </Pressable>
+          </View>
+        )}
+
+        {scanState === "success" && (
+          <Pressable style={({ pressed }) => [styles.doneButton, pressed && { opacity: 0.8 }]} onPress={() => router.back()}>
+            <Text style={styles.doneText}>Done</Text>
+          </Pressable>
+        )}
+      </View>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  closeButton: {
+    position: "absolute",
+    top: 60,
+    right: 20,
+    zIndex: 10,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "rgba(255,255,255,0.1)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 30,
+    paddingTop: 100,
+    paddingBottom: 40,
+  },
+  title: {
+    color: "white",
+    fontSize: 28,
+    fontWeight: "bold",
+    textAlign: "center",
+  },
+  subtitle: {
+    color: "rgba(255,255,255,0.6)",
+    fontSize: 16,
+    textAlign: "center",
+    marginTop: 8,
+    lineHeight: 22,
+  },
+  cameraFrame: {
+    marginTop: 40,
+    width: 280,
+    height: 280,
+    borderRadius: 24,
+    overflow: "hidden",
+    borderWidth: 2,
+    borderColor: "rgba(168,85,247,0.6)",
+  },
+  permissionCard: {
+    marginTop: 40,
+    alignItems: "center",
+    backgroundColor: "rgba(255,255,255,0.06)",
+    borderRadius: 16,
+    padding: 24,
+  },
+  permissionText: {
+    color: "rgba(255,255,255,0.75)",
+    fontSize: 15,
+    textAlign: "center",
+    marginTop: 12,
+    lineHeight: 21,
+  },
+  scanArea: {
+    marginTop: 48,
+    width: 160,
+    height: 160,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  scanIcon: {
+    width: 110,
+    height: 110,
+    borderRadius: 55,
+    backgroundColor: "rgba(108,92,231,0.3)",
+    justifyContent: "center",
+    alignItems: "center",
+    borderWidth: 2,
+    borderColor: "rgba(168,85,247,0.4)",
+  },
+  scanIconSuccess: {
+    backgroundColor: "rgba(34,197,94,0.3)",
+    borderColor: "rgba(34,197,94,0.5)",
+  },
+  scanIconError: {
+    backgroundColor: "rgba(239,68,68,0.3)",
+    borderColor: "rgba(239,68,68,0.5)",
+  },
+  scanIconWarning: {
+    backgroundColor: "rgba(245,158,11,0.3)",
+    borderColor: "rgba(245,158,11,0.5)",
+  },
+  earlyCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    marginTop: 20,
+    backgroundColor: "rgba(167,139,250,0.15)",
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "rgba(167,139,250,0.2)",
+  },
+  earlyCardText: {
+    color: "rgba(255,255,255,0.8)",
+    fontSize: 15,
+    fontWeight: "500",
+  },
+  earlyActions: {
+    marginTop: 32,
+    width: "100%",
+    gap: 12,
+  },
+  earlyConfirmButton: {
+    backgroundColor: "#6c5ce7",
+    paddingVertical: 16,
+    borderRadius: 14,
+    alignItems: "center",
+  },
+  earlyConfirmText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  earlyCancelButton: {
+    paddingVertical: 14,
+    borderRadius: 14,
+    alignItems: "center",
+  },
+  earlyCancelText: {
+    color: "rgba(255,255,255,0.55)",
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  retryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 40,
+    backgroundColor: "rgba(255,255,255,0.1)",
+    paddingHorizontal: 24,
+    paddingVertical: 14,
+    borderRadius: 14,
+  },
+  retryText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  doneButton: {
+    marginTop: 40,
+    backgroundColor: "#6c5ce7",
+    paddingHorizontal: 48,
+    paddingVertical: 14,
+    borderRadius: 14,
+  },
+  doneText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
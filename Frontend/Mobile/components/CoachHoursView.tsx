@@ -1,7 +1,7 @@
 import { useAuth } from "@/contexts/AuthContext";
 import { GET_COACH_MY_HOURS, GET_EVENTS } from "@/lib/graphql/queries";
-import { ADMIN_CHECK_IN } from "@/lib/graphql/mutations";
-import { useMutation, useQuery } from "@apollo/client";
+import { alertQueued, useOffline } from "@/contexts/OfflineContext";
+import { useQuery } from "@apollo/client";
 import { Image } from "expo-image";
 import { Feather } from "@expo/vector-icons";
 import { useRef, useState, useMemo } from "react";
@@ -204,7 +204,7 @@ function DaySheet({
   slideAnim: Animated.Value; backdropAnim: Animated.Value;
   onClose: () => void; onCheckInAdded: () => void;
 }) {
-  const [addCheckIn]    = useMutation(ADMIN_CHECK_IN);
+  const { mutateOrQueue } = useOffline();
   const [addingId, setAddingId] = useState<string | null>(null);
 
   const checkedIds  = new Set(entries.map((e) => e.event.id));
@@ -213,15 +213,18 @@ function DaySheet({
   async function handleAdd(event: DayEvent) {
     setAddingId(event.id);
     try {
-      await addCheckIn({
-        variables: {
+      const result = await mutateOrQueue(
+        "ADMIN_CHECK_IN",
+        {
           input: {
             userId, eventId: event.id, status: "ON_TIME",
             checkInTime:  buildDateTime(event.date, event.startTime),
             checkOutTime: buildDateTime(event.date, event.endTime),
           },
         },
-      });
+        `Log hours for ${event.title}`
+      );
+      if (result === "queued") alertQueued();
       onCheckInAdded();
     } finally { setAddingId(null); }
   }
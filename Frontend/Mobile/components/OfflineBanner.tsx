@@ -1,17 +1,31 @@
 import { Feather } from "@expo/vector-icons";
-import { Animated, Pressable, StyleSheet, Text, View } from "react-native";
+import { Animated, Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
 import { useEffect, useRef, useState } from "react";
 import { useOffline } from "@/contexts/OfflineContext";
+import type { OutboxItem } from "@/lib/offline-queue";
+
+function itemStatus(item: OutboxItem): { text: string; color: string } {
+  if (item.conflict) return { text: item.conflict, color: "#ef4444" };
+  if (item.nextAttemptAt) {
+    const seconds = Math.max(0, Math.round((new Date(item.nextAttemptAt).getTime() - Date.now()) / 1000));
+    const when = seconds < 60 ? `${seconds}s` : `${Math.round(seconds / 60)}m`;
+    return { text: `${item.lastError ?? "Failed"} • retrying in ${when}`, color: "#f59e0b" };
+  }
+  return { text: "Waiting to send", color: "rgba(255,255,255,0.5)" };
+}
 
 export function OfflineBanner() {
-  const { isOnline, pendingCount, isSyncing, syncNow } = useOffline();
+  const { isOnline, outbox, pendingCount, conflictCount, isSyncing, syncNow, retryItem, discardItem } =
+    useOffline();
   const slideAnim = useRef(new Animated.Value(0)).current;
   const [rendered, setRendered] = useState(false);
+  const [expanded, setExpanded] = useState(false);
 
-  const visible = !isOnline || pendingCount > 0;
+  const visible = !isOnline || outbox.length > 0;
 
   useEffect(() => {
     if (visible && !rendered) setRendered(true);
+    if (!visible) setExpanded(false);
 
     Animated.timing(slideAnim, {
       toValue: visible ? 1 : 0,
@@ -29,32 +43,78 @@ export function OfflineBanner() {
     outputRange: [-48, 0],
   });
 
+  const summary = isSyncing
+    ? "Syncing changes..."
+    : [
+        pendingCount > 0 && `${pendingCount} change${pendingCount !== 1 ? "s" : ""} pending sync`,
+        conflictCount > 0 && `${conflictCount} couldn't sync`,
+      ]
+        .filter(Boolean)
+        .join(" • ");
+
   return (
     <Animated.View style={[styles.banner, { transform: [{ translateY }] }]}>
-      {!isOnline ? (
-        <View style={styles.row}>
-          <Feather name="wifi-off" size={14} color="rgba(255,255,255,0.9)" />
-          <Text style={styles.text}>No internet connection</Text>
-          {pendingCount > 0 && (
-            <View style={styles.badge}>
-              <Text style={styles.badgeText}>{pendingCount} pending</Text>
-            </View>
-          )}
-        </View>
-      ) : (
-        <Pressable style={styles.row} onPress={syncNow} disabled={isSyncing}>
-          <Feather
-            name={isSyncing ? "loader" : "upload-cloud"}
-            size={14}
-            color="rgba(255,255,255,0.9)"
-          />
-          <Text style={styles.text}>
-            {isSyncing
-              ? "Syncing check-ins..."
-              : `${pendingCount} check-in${pendingCount !== 1 ? "s" : ""} pending sync`}
-          </Text>
-          {!isSyncing && <Text style={styles.tapToSync}>Tap to sync</Text>}
-        </Pressable>
+      <View style={styles.row}>
+        {!isOnline ? (
+          <>
+            <Feather name="wifi-off" size={14} color="rgba(255,255,255,0.9)" />
+            <Text style={styles.text}>No internet connection</Text>
+            {pendingCount > 0 && (
+              <View style={styles.badge}>
+                <Text style={styles.badgeText}>{pendingCount} pending</Text>
+              </View>
+            )}
+          </>
+        ) : (
+          <>
+            <Feather
+              name={isSyncing ? "loader" : conflictCount > 0 ? "alert-triangle" : "upload-cloud"}
+              size={14}
+              color={conflictCount > 0 && !isSyncing ? "#f59e0b" : "rgba(255,255,255,0.9)"}
+            />
+            <Text style={styles.text}>{summary}</Text>
+            {!isSyncing && pendingCount > 0 && (
+              <Pressable onPress={syncNow} hitSlop={8}>
+                <Text style={styles.tapToSync}>Sync now</Text>
+              </Pressable>
+            )}
+          </>
+        )}
+        {outbox.length > 0 && (
+          <Pressable onPress={() => setExpanded((e) => !e)} hitSlop={8}>
+            <Feather name={expanded ? "chevron-up" : "chevron-down"} size={16} color="rgba(255,255,255,0.7)" />
+          </Pressable>
+        )}
+      </View>
+
+      {expanded && outbox.length > 0 && (
+        <ScrollView style={styles.list} nestedScrollEnabled>
+          {outbox.map((item) => {
+            const status = itemStatus(item);
+            return (
+              <View key={item.id} style={styles.item}>
+                <View style={styles.itemContent}>
+                  <Text style={styles.itemLabel} numberOfLines={1}>
+                    {item.label}
+                  </Text>
+                  <Text style={[styles.itemStatus, { color: status.color }]} numberOfLines={2}>
+                    {status.text}
+                  </Text>
+                </View>
+                {(item.conflict || item.nextAttemptAt) && isOnline && (
+                  <Pressable onPress={() => retryItem(item.id)} hitSlop={6} style={styles.itemAction}>
+                    <Feather name="refresh-cw" size={14} color="#a855f7" />
+                  </Pressable>
+                )}
+                {item.conflict && (
+                  <Pressable onPress={() => discardItem(item.id)} hitSlop={6} style={styles.itemAction}>
+                    <Feather name="x" size={16} color="#ef4444" />
+                  </Pressable>
+                )}
+              </View>
+            );
+          })}
+        </ScrollView>
       )}
     </Animated.View>
   );
@@ -95,4 +155,31 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: "600",
   },
+  list: {
+    maxHeight: 220,
+    marginTop: 8,
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 8,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: "rgba(255,255,255,0.08)",
+  },
+  itemContent: {
+    flex: 1,
+  },
+  itemLabel: {
+    color: "white",
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  itemStatus: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  itemAction: {
+    padding: 4,
+  },
 });
@@ -28,6 +28,7 @@ const STATUS_CONFIG: Record<string, { label: string; color: string; bg: string }
   LATE: { label: "Late", color: "#f39c12", bg: "rgba(243,156,18,0.15)" },
   ABSENT: { label: "Absent", color: "#e74c3c", bg: "rgba(231,76,60,0.15)" },
   EXCUSED: { label: "Excused", color: "#a855f7", bg: "rgba(168,85,247,0.15)" },
+  LEFT_EARLY: { label: "Left Early", color: "#e67e22", bg: "rgba(230,126,34,0.15)" },
 };
 
 export function AttendanceSubTab() {
@@ -124,6 +125,7 @@ export function AttendanceSubTab() {
               { key: "lateCount", ...STATUS_CONFIG.LATE },
               { key: "absentCount", ...STATUS_CONFIG.ABSENT },
               { key: "excusedCount", ...STATUS_CONFIG.EXCUSED },
+              { key: "leftEarlyCount", ...STATUS_CONFIG.LEFT_EARLY },
             ].map((s) => (
               <View key={s.key} style={[styles.statusCard, { backgroundColor: s.bg }]}>
                 <Text style={[styles.statusCount, { color: s.color }]}>
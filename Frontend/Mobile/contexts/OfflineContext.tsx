@@ -6,24 +6,29 @@ import React, {
   useRef,
   useState,
 } from "react";
-import { AppState, AppStateStatus } from "react-native";
+import { Alert, AppState, AppStateStatus } from "react-native";
 import { useApolloClient } from "@apollo/client";
 import {
-  getPendingCheckIns,
-  removeCheckIn,
-  PendingCheckIn,
+  getOutbox,
+  enqueueMutation,
+  markOutboxRetry,
+  markOutboxConflict,
+  resetOutboxItem,
+  removeOutboxItem,
+  newIdempotencyKey,
+  OUTBOX_MUTATIONS,
+  OutboxItem,
+  OutboxKind,
+  OutboxVariables,
 } from "@/lib/offline-queue";
-import {
-  NFC_CHECK_IN,
-  GET_CHECKIN_HISTORY,
-  GET_UPCOMING_EVENTS,
-} from "@/lib/graphql";
-import { useAuth } from "@/contexts/AuthContext";
 
 const CONNECTIVITY_URL = "https://api.athletiq.fitness/graphql";
 const POLL_OFFLINE_MS = 8_000;
 const POLL_ONLINE_MS = 60_000;
 
+// Server error codes that mean "try again later" rather than "this will never work"
+const RETRYABLE_CODES = ["IDEMPOTENCY_IN_PROGRESS", "RATE_LIMITED", "UNAUTHENTICATED"];
+
 async function checkConnectivity(): Promise<boolean> {
   try {
     const controller = new AbortController();
@@ -40,87 +45,187 @@ async function checkConnectivity(): Promise<boolean> {
   }
 }
 
+/** The server's rejection message, or null if the request should be retried. */
+function rejectionMessage(err: any): string | null {
+  const gqlError = err?.graphQLErrors?.[0];
+  if (!gqlError) return null;
+  if (RETRYABLE_CODES.includes(gqlError.extensions?.code)) return null;
+  if (gqlError.message === "Authentication required") return null;
+  return gqlError.message || "Rejected by the server";
+}
+
+function retryReason(err: any): string {
+  return err?.graphQLErrors?.[0]?.message || (err?.networkError ? "No connection" : err?.message || "Failed to send");
+}
+
 interface OfflineContextType {
   isOnline: boolean;
+  /** Everything in the outbox, oldest first */
+  outbox: OutboxItem[];
+  /** Items still waiting to be sent */
   pendingCount: number;
+  /** Items the server rejected; they stay until the user retries or discards them */
+  conflictCount: number;
   isSyncing: boolean;
   syncNow: () => Promise<void>;
-  refreshPendingCount: () => Promise<void>;
+  refreshOutbox: () => Promise<void>;
+  /** Queue a mutation to send when possible */
+  queueMutation: <K extends OutboxKind>(kind: K, variables: OutboxVariables[K], label: string) => Promise<void>;
+  /**
+   * Send a mutation now, or queue it if there's no connection. Resolves to
+   * "queued" when it went to the outbox; rejects with the server's error if
+   * the server refused it.
+   */
+  mutateOrQueue: <K extends OutboxKind>(
+    kind: K,
+    variables: OutboxVariables[K],
+    label: string
+  ) => Promise<"sent" | "queued">;
+  retryItem: (id: string) => Promise<void>;
+  discardItem: (id: string) => Promise<void>;
 }
 
 const OfflineContext = createContext<OfflineContextType>({
   isOnline: true,
+  outbox: [],
   pendingCount: 0,
+  conflictCount: 0,
   isSyncing: false,
   syncNow: async () => {},
-  refreshPendingCount: async () => {},
+  refreshOutbox: async () => {},
+  queueMutation: async () => {},
+  mutateOrQueue: async () => "queued",
+  retryItem: async () => {},
+  discardItem: async () => {},
 });
 
 export function useOffline() {
   return useContext(OfflineContext);
 }
 
+/** Tell the user a change was saved to the outbox instead of sent. */
+export function alertQueued() {
+  Alert.alert("Saved Offline", "We'll send this as soon as you're back online.");
+}
+
 export function OfflineProvider({ children }: { children: React.ReactNode }) {
   const apolloClient = useApolloClient();
-  const { user, selectedOrganization } = useAuth();
   const [isOnline, setIsOnline] = useState(true);
-  const [pendingCount, setPendingCount] = useState(0);
+  const [outbox, setOutbox] = useState<OutboxItem[]>([]);
   const [isSyncing, setIsSyncing] = useState(false);
 
   // Use refs for values needed inside timer callbacks to avoid stale closures
   const isSyncingRef = useRef(false);
   const isOnlineRef = useRef(true);
   const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const userIdRef = useRef(user?.id);
-  const orgIdRef = useRef(selectedOrganization?.id);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const apolloRef = useRef(apolloClient);
 
-  useEffect(() => { userIdRef.current = user?.id; }, [user]);
-  useEffect(() => { orgIdRef.current = selectedOrganization?.id; }, [selectedOrganization]);
   useEffect(() => { apolloRef.current = apolloClient; }, [apolloClient]);
 
-  const refreshPendingCount = useCallback(async () => {
-    const queue = await getPendingCheckIns();
-    setPendingCount(queue.length);
+  const refreshOutbox = useCallback(async () => {
+    setOutbox(await getOutbox());
+  }, []);
+
+  const send = useCallback(async (item: OutboxItem) => {
+    const entry = OUTBOX_MUTATIONS[item.kind] as (typeof OUTBOX_MUTATIONS)[OutboxKind];
+    const prepare = entry.prepare as ((v: unknown, i: OutboxItem) => Record<string, unknown>) | undefined;
+    await apolloRef.current.mutate({
+      mutation: entry.mutation,
+      variables: prepare ? prepare(item.variables, item) : item.variables,
+      context: { headers: { "Idempotency-Key": item.id } },
+      refetchQueries: entry.refetchQueries,
+    });
   }, []);
 
   const syncNow = useCallback(async () => {
     if (isSyncingRef.current) return;
-    const queue = await getPendingCheckIns();
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    const queue = (await getOutbox()).filter((q) => !q.conflict);
     if (queue.length === 0) return;
 
     isSyncingRef.current = true;
     setIsSyncing(true);
 
-    await Promise.allSettled(
-      queue.map(async (item: PendingCheckIn) => {
-        try {
-          await apolloRef.current.mutate({
-            mutation: NFC_CHECK_IN,
-            variables: { token: item.token, forUserId: item.forUserId },
-            refetchQueries: [
-              {
-                query: GET_CHECKIN_HISTORY,
-                variables: { userId: userIdRef.current, limit: 20 },
-              },
-              {
-                query: GET_UPCOMING_EVENTS,
-                variables: { organizationId: orgIdRef.current, limit: 10 },
-              },
-            ],
-          });
-          await removeCheckIn(item.id);
-        } catch {
-          // Leave in queue if the request fails
+    // Replay strictly in order: a later item may depend on an earlier one
+    // (check-in before check-out, RSVP changed twice), so stop at the first
+    // item that can't go yet instead of skipping past it.
+    for (const item of queue) {
+      if (item.nextAttemptAt && new Date(item.nextAttemptAt) > new Date()) break;
+      try {
+        await send(item);
+        await removeOutboxItem(item.id);
+      } catch (err: any) {
+        const rejection = rejectionMessage(err);
+        if (rejection) {
+          await markOutboxConflict(item.id, rejection);
+          continue;
         }
-      })
-    );
+        await markOutboxRetry(item.id, retryReason(err));
+        break;
+      }
+    }
 
-    const remaining = await getPendingCheckIns();
-    setPendingCount(remaining.length);
+    const remaining = await getOutbox();
+    setOutbox(remaining);
     isSyncingRef.current = false;
     setIsSyncing(false);
-  }, []);
+
+    // Come back for backed-off items once their delay is up
+    const next = remaining
+      .filter((q) => !q.conflict && q.nextAttemptAt)
+      .map((q) => new Date(q.nextAttemptAt!).getTime())
+      .sort((a, b) => a - b)[0];
+    if (next !== undefined && isOnlineRef.current) {
+      retryTimerRef.current = setTimeout(() => syncNowRef.current(), Math.max(0, next - Date.now()));
+    }
+  }, [send]);
+
+  const queueMutation = useCallback(
+    async <K extends OutboxKind>(kind: K, variables: OutboxVariables[K], label: string) => {
+      await enqueueMutation(kind, variables, label);
+      await refreshOutbox();
+    },
+    [refreshOutbox]
+  );
+
+  const mutateOrQueue = useCallback(
+    async <K extends OutboxKind>(kind: K, variables: OutboxVariables[K], label: string) => {
+      // Anything already waiting must go first, so join the back of the line
+      const waiting = (await getOutbox()).some((q) => !q.conflict);
+      if (!isOnlineRef.current || waiting) {
+        await enqueueMutation(kind, variables, label);
+        await refreshOutbox();
+        if (isOnlineRef.current) syncNowRef.current();
+        return "queued" as const;
+      }
+
+      const id = newIdempotencyKey();
+      try {
+        await send({ id, kind, variables, label, queuedAt: new Date().toISOString(), attempts: 0 } as OutboxItem);
+        return "sent" as const;
+      } catch (err: any) {
+        if (rejectionMessage(err)) throw err;
+        // Lost the connection mid-request — queue under the same key in case it landed
+        await enqueueMutation(kind, variables, label, id);
+        await markOutboxRetry(id, retryReason(err));
+        await refreshOutbox();
+        return "queued" as const;
+      }
+    },
+    [send, refreshOutbox]
+  );
+
+  const retryItem = useCallback(async (id: string) => {
+    await resetOutboxItem(id);
+    await refreshOutbox();
+    await syncNowRef.current();
+  }, [refreshOutbox]);
+
+  const discardItem = useCallback(async (id: string) => {
+    await removeOutboxItem(id);
+    await refreshOutbox();
+  }, [refreshOutbox]);
 
   // Keep a stable ref to syncNow so the poll loop can call it without restarts
   const syncNowRef = useRef(syncNow);
@@ -146,7 +251,7 @@ export function OfflineProvider({ children }: { children: React.ReactNode }) {
       }
     }
 
-    refreshPendingCount();
+    refreshOutbox();
     poll();
 
     const appStateSub = AppState.addEventListener("change", (state: AppStateStatus) => {
@@ -159,13 +264,29 @@ export function OfflineProvider({ children }: { children: React.ReactNode }) {
     return () => {
       cancelled = true;
       if (pollTimerRef.current) clearTimeout(pollTimerRef.current);
+      if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
       appStateSub.remove();
     };
   }, []); // only run once on mount
 
+  const pendingCount = outbox.filter((q) => !q.conflict).length;
+  const conflictCount = outbox.length - pendingCount;
+
   return (
     <OfflineContext.Provider
-      value={{ isOnline, pendingCount, isSyncing, syncNow, refreshPendingCount }}
+      value={{
+        isOnline,
+        outbox,
+        pendingCount,
+        conflictCount,
+        isSyncing,
+        syncNow,
+        refreshOutbox,
+        queueMutation,
+        mutateOrQueue,
+        retryItem,
+        discardItem,
+      }}
     >
       {children}
     </OfflineContext.Provider>
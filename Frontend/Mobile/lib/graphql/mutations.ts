@@ -36,6 +36,15 @@ export const GENERATE_UPLOAD_URL = gql`
   }
 `;
 
+export const GENERATE_EXCUSE_ATTACHMENT_UPLOAD_URL = gql`
+  mutation GenerateExcuseAttachmentUploadUrl($fileType: String!) {
+    generateExcuseAttachmentUploadUrl(fileType: $fileType) {
+      uploadUrl
+      key
+    }
+  }
+`;
+
 // ============================================
 // Check-in Mutations
 // ============================================
@@ -68,7 +77,9 @@ export const CREATE_EXCUSE_REQUEST = gql`
       id
       reason
       status
+      autoApproved
       attemptCount
+      category { id name }
       event {
         ...EventFields
       }
@@ -83,13 +94,44 @@ export const CANCEL_EXCUSE_REQUEST = gql`
   }
 `;
 
+export const CREATE_ABSENCE_REQUEST = gql`
+  mutation CreateAbsenceRequest($input: CreateAbsenceRequestInput!) {
+    createAbsenceRequest(input: $input) {
+      id
+      startDate
+      endDate
+      reason
+      status
+      teams { id name }
+    }
+  }
+`;
+
+export const CANCEL_ABSENCE_REQUEST = gql`
+  mutation CancelAbsenceRequest($id: ID!) {
+    cancelAbsenceRequest(id: $id)
+  }
+`;
+
 // ============================================
 // NFC Mutations
 // ============================================
 
 export const NFC_CHECK_IN = gql`
-  mutation NfcCheckIn($token: String!, $forUserId: ID, $teamId: ID, $bypassEarlyCheck: Boolean) {
-    nfcCheckIn(token: $token, forUserId: $forUserId, teamId: $teamId, bypassEarlyCheck: $bypassEarlyCheck) {
+  mutation NfcCheckIn(
+    $token: String!
+    $forUserId: ID
+    $teamId: ID
+    $bypassEarlyCheck: Boolean
+    $offlineTap: OfflineTapInput
+  ) {
+    nfcCheckIn(
+      token: $token
+      forUserId: $forUserId
+      teamId: $teamId
+      bypassEarlyCheck: $bypassEarlyCheck
+      offlineTap: $offlineTap
+    ) {
       checkIn {
         ...CheckInFields
       }
@@ -124,6 +166,21 @@ export const DEACTIVATE_NFC_TAG = gql`
   }
 `;
 
+export const QR_CHECK_IN = gql`
+  mutation QrCheckIn($code: String!, $forUserId: ID, $bypassEarlyCheck: Boolean) {
+    qrCheckIn(code: $code, forUserId: $forUserId, bypassEarlyCheck: $bypassEarlyCheck) {
+      checkIn {
+        ...CheckInFields
+      }
+      action
+      event {
+        ...EventFields
+      }
+    }
+  }
+  ${CHECKIN_FRAGMENT}
+`;
+
 export const AD_HOC_NFC_CHECK_IN = gql`
   mutation AdHocNfcCheckIn($input: AdHocNfcCheckInInput!) {
     adHocNfcCheckIn(input: $input) {
@@ -259,6 +316,17 @@ export const UPSERT_RSVP = gql`
       id
       status
       note
+      waitlistPosition
+      eventId
+    }
+  }
+`;
+
+export const RSVP_EVENT_GROUP = gql`
+  mutation RsvpEventGroup($eventGroupId: ID!, $userId: ID!, $status: RsvpStatus!, $note: String) {
+    rsvpEventGroup(eventGroupId: $eventGroupId, userId: $userId, status: $status, note: $note) {
+      id
+      status
       eventId
     }
   }
@@ -320,3 +388,43 @@ export const UPSERT_MEDICAL_INFO = gql`
     }
   }
 `;
+
+// ============================================
+// Messaging
+// ============================================
+
+export const START_CONVERSATION = gql`
+  mutation StartConversation($input: StartConversationInput!) {
+    startConversation(input: $input) {
+      id
+    }
+  }
+`;
+
+export const OPEN_TEAM_CHANNEL = gql`
+  mutation OpenTeamChannel($teamId: ID!) {
+    openTeamChannel(teamId: $teamId) {
+      id
+    }
+  }
+`;
+
+export const SEND_MESSAGE = gql`
+  mutation SendMessage($conversationId: ID!, $body: String!) {
+    sendMessage(conversationId: $conversationId, body: $body) {
+      id
+      conversationId
+      body
+      createdAt
+    }
+  }
+`;
+
+export const MARK_CONVERSATION_READ = gql`
+  mutation MarkConversationRead($conversationId: ID!) {
+    markConversationRead(conversationId: $conversationId) {
+      id
+      lastReadAt
+    }
+  }
+`;
@@ -47,6 +47,7 @@ export const CHECKIN_FRAGMENT = gql`
     hoursLogged
     isAdHoc
     approved
+    offlineSyncedAt
     event {
       ...EventFields
     }
@@ -166,10 +167,21 @@ export const GET_EVENTS = gql`
         id
         name
       }
+      capacity
+      rsvpDeadline
+      rsvpClosed
+      spotsRemaining
       rsvps {
         id
         status
       }
+      eventGroup {
+        id
+        name
+        startDate
+        endDate
+        travelNotes
+      }
     }
   }
   ${EVENT_FRAGMENT}
@@ -389,6 +401,31 @@ export const GET_MY_EXCUSE_REQUESTS = gql`
   ${EVENT_FRAGMENT}
 `;
 
+export const GET_EXCUSE_CATEGORIES = gql`
+  query GetExcuseCategories($organizationId: ID!) {
+    excuseCategories(organizationId: $organizationId) {
+      id
+      name
+      autoApprove
+      requiresAttachment
+    }
+  }
+`;
+
+export const GET_MY_ABSENCE_REQUESTS = gql`
+  query GetMyAbsenceRequests($userId: ID!, $organizationId: ID!) {
+    myAbsenceRequests(userId: $userId, organizationId: $organizationId) {
+      id
+      startDate
+      endDate
+      reason
+      status
+      teams { id name }
+      events { id }
+    }
+  }
+`;
+
 // ============================================
 // Team Management Queries
 // ============================================
@@ -426,6 +463,7 @@ export const GET_TEAM_ATTENDANCE_INSIGHTS = gql`
       lateCount
       absentCount
       excusedCount
+      leftEarlyCount
       attendanceRate
       eventCount
     }
@@ -558,6 +596,7 @@ export const GET_MY_RSVPS = gql`
       id
       status
       note
+      waitlistPosition
       eventId
       event {
         id
@@ -627,3 +666,105 @@ export const GET_COACH_MY_HOURS = gql`
     }
   }
 `;
+
+// ============================================
+// Messaging
+// ============================================
+
+export const GET_MY_CONVERSATIONS = gql`
+  query GetMyConversations($organizationId: ID!) {
+    myConversations(organizationId: $organizationId) {
+      id
+      type
+      title
+      unreadCount
+      lastMessageAt
+      team {
+        id
+        name
+      }
+      participants {
+        id
+        role
+        user {
+          id
+          firstName
+          lastName
+          image
+        }
+      }
+      lastMessage {
+        id
+        body
+        createdAt
+        sender {
+          id
+          firstName
+        }
+      }
+    }
+  }
+`;
+
+export const GET_CONVERSATION = gql`
+  query GetConversation($id: ID!) {
+    conversation(id: $id) {
+      id
+      type
+      title
+      team {
+        id
+        name
+      }
+      participants {
+        id
+        role
+        user {
+          id
+          firstName
+          lastName
+          image
+        }
+      }
+    }
+  }
+`;
+
+export const GET_CONVERSATION_MESSAGES = gql`
+  query GetConversationMessages($conversationId: ID!, $before: String, $limit: Int) {
+    conversationMessages(conversationId: $conversationId, before: $before, limit: $limit) {
+      id
+      conversationId
+      body
+      createdAt
+      sender {
+        id
+        firstName
+        lastName
+        image
+      }
+      readBy {
+        id
+        firstName
+      }
+    }
+  }
+`;
+
+export const GET_ORGANIZATION_DIRECTORY = gql`
+  query GetOrganizationDirectory($id: ID!) {
+    organization(id: $id) {
+      id
+      members {
+        id
+        role
+        user {
+          id
+          firstName
+          lastName
+          image
+        }
+      }
+    }
+  }
+`;
@@ -1,38 +1,204 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { randomUUID } from "expo-crypto";
+import type { DocumentNode } from "@apollo/client";
+import {
+  NFC_CHECK_IN,
+  UPSERT_RSVP,
+  RSVP_EVENT_GROUP,
+  DELETE_RSVP,
+  CREATE_EXCUSE_REQUEST,
+  CREATE_ABSENCE_REQUEST,
+  ADMIN_CHECK_IN,
+  UPDATE_CHECK_IN_TIMES,
+} from "@/lib/graphql/mutations";
 
-const QUEUE_KEY = "athletiq_offline_checkin_queue";
+const OUTBOX_KEY = "athletiq_offline_outbox";
+// NFC-only queue from earlier app versions; migrated into the outbox on first read
+const LEGACY_QUEUE_KEY = "athletiq_offline_checkin_queue";
 
-export interface PendingCheckIn {
+const BASE_RETRY_MS = 5_000;
+const MAX_RETRY_MS = 5 * 60_000;
+
+/** Variables for each mutation the outbox can hold, keyed by outbox kind. */
+export interface OutboxVariables {
+  NFC_CHECK_IN: { token: string; forUserId?: string };
+  UPSERT_RSVP: {
+    input: { userId: string; eventId: string; status: "GOING" | "MAYBE" | "NOT_GOING"; note?: string };
+  };
+  RSVP_EVENT_GROUP: {
+    eventGroupId: string;
+    userId: string;
+    status: "GOING" | "MAYBE" | "NOT_GOING";
+    note?: string;
+  };
+  DELETE_RSVP: { userId: string; eventId: string };
+  CREATE_EXCUSE_REQUEST: {
+    input: {
+      userId: string;
+      eventId: string;
+      reason: string;
+      categoryId?: string;
+      attachments?: { key: string; fileName: string; contentType: string }[];
+    };
+  };
+  CREATE_ABSENCE_REQUEST: {
+    input: { userId: string; organizationId: string; startDate: string; endDate: string; reason: string; teamIds?: string[] };
+  };
+  ADMIN_CHECK_IN: {
+    input: { userId: string; eventId: string; status: string; checkInTime?: string; checkOutTime?: string };
+  };
+  UPDATE_CHECK_IN_TIMES: { checkInId: string; checkInTime?: string; checkOutTime?: string };
+}
+
+export type OutboxKind = keyof OutboxVariables;
+
+interface OutboxItemBase {
+  /** Also sent as the Idempotency-Key header, so a replay never applies twice */
   id: string;
-  token: string;
-  forUserId?: string;
+  /** What the user did, for the offline banner ("RSVP Going to Practice") */
+  label: string;
+  /** When the user acted (device clock); NFC taps are judged at this time */
   queuedAt: string;
+  attempts: number;
+  /** Earliest time to retry after a failed attempt */
+  nextAttemptAt?: string;
+  /** Why the last attempt failed (network, server busy); the item is still retried */
+  lastError?: string;
+  /** Why the server rejected the mutation; set items are no longer retried automatically */
+  conflict?: string;
+}
+
+export type OutboxItem = {
+  [K in OutboxKind]: OutboxItemBase & { kind: K; variables: OutboxVariables[K] };
+}[OutboxKind];
+
+interface OutboxMutation<K extends OutboxKind> {
+  mutation: DocumentNode;
+  /** Active queries to refresh once the mutation lands */
+  refetchQueries: string[];
+  /** Variables to send; defaults to the stored variables */
+  prepare?: (variables: OutboxVariables[K], item: OutboxItemBase) => Record<string, unknown>;
+}
+
+export const OUTBOX_MUTATIONS: { [K in OutboxKind]: OutboxMutation<K> } = {
+  NFC_CHECK_IN: {
+    mutation: NFC_CHECK_IN,
+    refetchQueries: ["GetCheckInHistory", "GetUpcomingEvents"],
+    prepare: (variables, item) => ({
+      ...variables,
+      // Nobody is around to confirm an early tap, so accept it as the athlete meant it
+      bypassEarlyCheck: true,
+      offlineTap: { tappedAt: item.queuedAt, deviceNow: new Date().toISOString() },
+    }),
+  },
+  UPSERT_RSVP: { mutation: UPSERT_RSVP, refetchQueries: ["GetMyRsvps", "GetEvents"] },
+  RSVP_EVENT_GROUP: {
+    mutation: RSVP_EVENT_GROUP,
+    refetchQueries: ["GetMyRsvps", "GetMyExcuseRequests", "GetEvents"],
+  },
+  DELETE_RSVP: { mutation: DELETE_RSVP, refetchQueries: ["GetMyRsvps", "GetMyExcuseRequests", "GetEvents"] },
+  CREATE_EXCUSE_REQUEST: { mutation: CREATE_EXCUSE_REQUEST, refetchQueries: ["GetMyExcuseRequests"] },
+  CREATE_ABSENCE_REQUEST: { mutation: CREATE_ABSENCE_REQUEST, refetchQueries: ["GetMyAbsenceRequests"] },
+  ADMIN_CHECK_IN: { mutation: ADMIN_CHECK_IN, refetchQueries: ["GetCheckInHistory"] },
+  UPDATE_CHECK_IN_TIMES: { mutation: UPDATE_CHECK_IN_TIMES, refetchQueries: ["GetCheckInHistory"] },
+};
+
+export function newIdempotencyKey(): string {
+  return randomUUID();
 }
 
-export async function getPendingCheckIns(): Promise<PendingCheckIn[]> {
-  const raw = await AsyncStorage.getItem(QUEUE_KEY);
-  return raw ? JSON.parse(raw) : [];
+/** Delay before the next retry: 5s, 10s, 20s, ... capped at 5 minutes. */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_MS);
 }
 
-export async function enqueueCheckIn(
-  params: Omit<PendingCheckIn, "id" | "queuedAt">
-): Promise<PendingCheckIn> {
-  const item: PendingCheckIn = {
-    ...params,
-    id: `${Date.now()}_${Math.random().toString(36).slice(2)}`,
+async function saveOutbox(items: OutboxItem[]): Promise<void> {
+  await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(items));
+}
+
+/** Queued mutations, oldest first. */
+export async function getOutbox(): Promise<OutboxItem[]> {
+  const raw = await AsyncStorage.getItem(OUTBOX_KEY);
+  const items: OutboxItem[] = raw ? JSON.parse(raw) : [];
+
+  const legacyRaw = await AsyncStorage.getItem(LEGACY_QUEUE_KEY);
+  if (legacyRaw) {
+    const legacy: { id: string; token: string; forUserId?: string; queuedAt: string }[] = JSON.parse(legacyRaw);
+    for (const q of legacy) {
+      items.push({
+        id: newIdempotencyKey(),
+        kind: "NFC_CHECK_IN",
+        variables: { token: q.token, forUserId: q.forUserId },
+        label: "NFC check-in",
+        queuedAt: q.queuedAt,
+        attempts: 0,
+      });
+    }
+    await saveOutbox(items);
+    await AsyncStorage.removeItem(LEGACY_QUEUE_KEY);
+  }
+
+  return items.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+export async function enqueueMutation<K extends OutboxKind>(
+  kind: K,
+  variables: OutboxVariables[K],
+  label: string,
+  id: string = newIdempotencyKey()
+): Promise<OutboxItem> {
+  const item = {
+    id,
+    kind,
+    variables,
+    label,
     queuedAt: new Date().toISOString(),
-  };
-  const queue = await getPendingCheckIns();
-  queue.push(item);
-  await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+    attempts: 0,
+  } as OutboxItem;
+  const items = await getOutbox();
+  items.push(item);
+  await saveOutbox(items);
   return item;
 }
 
-export async function removeCheckIn(id: string): Promise<void> {
-  const queue = await getPendingCheckIns();
-  await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue.filter((q) => q.id !== id)));
+async function updateOutboxItem(id: string, update: (item: OutboxItem) => OutboxItem): Promise<void> {
+  const items = await getOutbox();
+  await saveOutbox(items.map((item) => (item.id === id ? update(item) : item)));
+}
+
+/** Record a failed attempt that's worth retrying and schedule the next one. */
+export async function markOutboxRetry(id: string, error: string): Promise<void> {
+  await updateOutboxItem(id, (item) => {
+    const attempts = item.attempts + 1;
+    return {
+      ...item,
+      attempts,
+      lastError: error,
+      nextAttemptAt: new Date(Date.now() + retryDelayMs(attempts)).toISOString(),
+    };
+  });
+}
+
+export async function markOutboxConflict(id: string, conflict: string): Promise<void> {
+  await updateOutboxItem(id, (item) => ({ ...item, conflict }));
+}
+
+/** Put a rejected or backed-off item back in line to send right away. */
+export async function resetOutboxItem(id: string): Promise<void> {
+  await updateOutboxItem(id, (item) => ({
+    ...item,
+    attempts: 0,
+    conflict: undefined,
+    lastError: undefined,
+    nextAttemptAt: undefined,
+  }));
+}
+
+export async function removeOutboxItem(id: string): Promise<void> {
+  const items = await getOutbox();
+  await saveOutbox(items.filter((item) => item.id !== id));
 }
 
-export async function clearPendingCheckIns(): Promise<void> {
-  await AsyncStorage.removeItem(QUEUE_KEY);
+export async function clearOutbox(): Promise<void> {
+  await AsyncStorage.removeItem(OUTBOX_KEY);
 }
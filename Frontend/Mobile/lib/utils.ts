@@ -22,3 +22,17 @@ export function maskPhone(value: string): string {
 export function sanitizePhone(phone: string): string {
   return phone.replace(/\D/g, "");
 }
+
+type ConversationLike = {
+  team: { name: string } | null;
+  title: string | null;
+  participants: { role: string; user: { id: string; firstName: string; lastName: string } }[];
+};
+
+/** Team name, group title, or the other people's names for a direct message. */
+export function conversationName(conversation: ConversationLike, myId?: string): string {
+  if (conversation.team) return conversation.team.name;
+  if (conversation.title) return conversation.title;
+  const others = conversation.participants.filter((p) => p.user.id !== myId && p.role === "MEMBER");
+  return others.map((p) => `${p.user.firstName} ${p.user.lastName}`).join(", ") || "Just you";
+}
@@ -8,7 +8,7 @@ import { UPDATE_EXCUSE_REQUEST } from "@/lib/graphql/mutations";
 import {
   FileCheck, Search, X, CheckCircle, XCircle,
   ChevronDown, ChevronUp, ChevronLeft, ChevronRight,
-  Clock, CalendarDays, User,
+  Clock, CalendarDays, Paperclip, Tag, User,
 } from "lucide-react";
 
 // ─── Constants ────────────────────────────────────────────────────────────────
@@ -98,9 +98,37 @@ function DetailModal({
             <p className="text-white/50 text-xs font-medium uppercase tracking-wide mb-1.5">Reason</p>
             <p className="text-white/80 text-sm leading-relaxed">{excuse.reason || "No reason provided."}</p>
           </div>
+          {excuse.category && (
+            <div className="flex items-center gap-2 text-sm text-white/70">
+              <Tag className="w-3.5 h-3.5 text-[#a78bfa]" />
+              {excuse.category.name}
+            </div>
+          )}
+          {excuse.attachments?.length > 0 && (
+            <div>
+              <p className="text-white/50 text-xs font-medium uppercase tracking-wide mb-1.5">Supporting documents</p>
+              <div className="space-y-1.5">
+                {excuse.attachments.map((a: { id: string; fileName: string; url?: string | null }) =>
+                  a.url ? (
+                    <a key={a.id} href={a.url} target="_blank" rel="noopener noreferrer"
+                      className="flex items-center gap-2 text-sm text-[#a78bfa] hover:text-white transition-colors">
+                      <Paperclip className="w-3.5 h-3.5 shrink-0" />
+                      <span className="truncate">{a.fileName}</span>
+                    </a>
+                  ) : (
+                    <p key={a.id} className="flex items-center gap-2 text-sm text-white/40">
+                      <Paperclip className="w-3.5 h-3.5 shrink-0" />
+                      <span className="truncate">{a.fileName}</span>
+                    </p>
+                  )
+                )}
+              </div>
+            </div>
+          )}
           <div className="flex items-center gap-4 text-xs text-white/40">
             <span>Submitted {formatDate(excuse.createdAt)}</span>
             {excuse.attemptCount > 1 && <span>{excuse.attemptCount} attempts</span>}
+            {excuse.autoApproved && <span>Approved automatically by its category</span>}
           </div>
         </div>
         <div className="px-6 py-4 border-t border-white/10 flex justify-end gap-3">
@@ -171,6 +199,7 @@ export default function StaffAbsenceRequestsPage() {
   const [sortKey, setSortKey] = useState<SortKey>("date");
   const [sortDir, setSortDir] = useState<SortDir>("desc");
   const [page, setPage]       = useState(1);
+  const [categoryId, setCategoryId] = useState<string | null>(null);
   const [selected, setSelected]     = useState<any | null>(null);
   const [updatingId, setUpdatingId] = useState<string | null>(null);
 
@@ -186,7 +215,7 @@ export default function StaffAbsenceRequestsPage() {
   }, [search]);
 
   // Reset page when tab or sort changes
-  useEffect(() => { setPage(1); }, [tab, sortKey, sortDir]);
+  useEffect(() => { setPage(1); }, [tab, sortKey, sortDir, categoryId]);
 
   const status = tab === "pending" ? "PENDING" : "HANDLED";
 
@@ -196,6 +225,7 @@ export default function StaffAbsenceRequestsPage() {
       status,
       requesterType: "STAFF",
       search: debouncedSearch || undefined,
+      categoryId: categoryId || undefined,
       sortBy: sortKey,
       sortDir,
       limit: PAGE_SIZE,
@@ -218,6 +248,11 @@ export default function StaffAbsenceRequestsPage() {
 
   const excuses: any[] = data?.orgExcuseRequests?.items ?? [];
   const total: number  = data?.orgExcuseRequests?.total ?? 0;
+  // Uncategorized excuses can't be filtered on, so they only count toward "All"
+  const breakdown: { category: { id: string; name: string } | null; count: number }[] =
+    data?.orgExcuseRequests?.categoryBreakdown ?? [];
+  const categoryCounts = breakdown.filter((b) => b.category);
+  const allCount = breakdown.reduce((sum, b) => sum + b.count, 0);
 
   const toggleSort = (key: SortKey) => {
     if (sortKey === key) setSortDir((d) => (d === "asc" ? "desc" : "asc"));
@@ -282,6 +317,26 @@ export default function StaffAbsenceRequestsPage() {
         </div>
       </div>
 
+      {categoryCounts.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {[{ category: null, count: allCount }, ...categoryCounts].map(({ category, count }) => {
+            const active = (category?.id ?? null) === categoryId;
+            return (
+              <button
+                key={category?.id ?? "all"}
+                onClick={() => setCategoryId(category?.id ?? null)}
+                className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                  active ? "bg-[#6c5ce7] border-[#6c5ce7] text-white" : "bg-white/5 border-white/10 text-white/60 hover:text-white"
+                }`}
+              >
+                {category?.name ?? "All categories"}
+                <span className={active ? "text-white/70" : "text-white/35"}>{count}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       {/* Table */}
       <div className="bg-white/5 border border-white/8 rounded-2xl overflow-hidden">
         {/* Column headers */}
@@ -326,7 +381,12 @@ export default function StaffAbsenceRequestsPage() {
                   </div>
                   <div className="min-w-0">
                     <p className="text-white/80 text-sm truncate">{excuse.event.title}</p>
-                    {excuse.event.team?.name && <p className="text-white/40 text-xs truncate">{excuse.event.team.name}</p>}
+                    {(excuse.event.team?.name || excuse.category) && (
+                      <p className="text-white/40 text-xs truncate">
+                        {[excuse.event.team?.name, excuse.category?.name].filter(Boolean).join(" · ")}
+                        {excuse.attachments?.length > 0 && <Paperclip className="inline w-3 h-3 ml-1.5 -mt-0.5" />}
+                      </p>
+                    )}
                   </div>
                   <p className="text-white/60 text-sm">{formatDate(excuse.event.date)}</p>
                   <StatusBadge status={excuse.status} />
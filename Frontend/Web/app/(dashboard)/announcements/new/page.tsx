@@ -5,7 +5,7 @@ import { useQuery, useMutation } from "@apollo/client/react";
 import { useAuth } from "@/contexts/AuthContext";
 import { useRouter } from "next/navigation";
 import { gql } from "@apollo/client";
-import { ArrowLeft, Send, Users, Calendar, Megaphone, User, Clock } from "lucide-react";
+import { ArrowLeft, Send, Users, Calendar, Megaphone, User, Clock, MessageSquare } from "lucide-react";
 import Link from "next/link";
 
 const GET_TEAMS = gql`
@@ -33,6 +33,19 @@ const GET_MEMBERS = gql`
   }
 `;
 
+const GET_SMS_USAGE = gql`
+  query GetSmsUsage($id: ID!) {
+    organization(id: $id) {
+      id
+      smsUsage {
+        month
+        sent
+        quota
+      }
+    }
+  }
+`;
+
 const CREATE_ANNOUNCEMENT = gql`
   mutation CreateAnnouncement($input: CreateAnnouncementInput!) {
     createAnnouncement(input: $input) {
@@ -62,6 +75,7 @@ export default function NewAnnouncementPage() {
   const [eventDate, setEventDate] = useState("");
   const [sendMode, setSendMode] = useState<"now" | "schedule">("now");
   const [scheduledFor, setScheduledFor] = useState("");
+  const [urgent, setUrgent] = useState(false);
   const [isSending, setIsSending] = useState(false);
 
   const needsTeams = targetType === "SPECIFIC_TEAMS" || targetType === "CUSTOM";
@@ -77,6 +91,12 @@ export default function NewAnnouncementPage() {
     skip: !selectedOrganizationId || !needsUsers,
   });
 
+  const { data: smsData } = useQuery<{ organization: { smsUsage: { sent: number; quota: number } } }>(GET_SMS_USAGE, {
+    variables: { id: selectedOrganizationId },
+    skip: !selectedOrganizationId || !urgent,
+  });
+  const smsUsage = smsData?.organization.smsUsage;
+
   const [createAnnouncement] = useMutation(CREATE_ANNOUNCEMENT);
   const [sendAnnouncement] = useMutation(SEND_ANNOUNCEMENT);
 
@@ -100,6 +120,7 @@ export default function NewAnnouncementPage() {
             userIds: needsUsers ? selectedUsers : [],
             eventDate: targetType === "EVENT_DAY" ? eventDate : null,
             scheduledFor: sendMode === "schedule" && scheduledFor ? scheduledFor : null,
+            urgent,
           },
         },
       });
@@ -367,6 +388,30 @@ export default function NewAnnouncementPage() {
             </div>
           )}
 
+          {/* Urgent */}
+          <label className="flex items-start gap-3 p-4 rounded-lg border border-white/8 bg-white/8 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={urgent}
+              onChange={(e) => setUrgent(e.target.checked)}
+              className="w-4 h-4 mt-0.5 rounded accent-[#6c5ce7]"
+            />
+            <div>
+              <div className="font-medium flex items-center gap-2">
+                <MessageSquare className="w-4 h-4" />
+                Urgent
+              </div>
+              <div className="text-sm text-white/55 mt-1">
+                Also send by text message to people who turned on texts
+              </div>
+              {urgent && smsUsage && (
+                <div className="text-xs text-white/55 mt-2">
+                  {smsUsage.sent} of {smsUsage.quota} texts used this month
+                </div>
+              )}
+            </div>
+          </label>
+
           {/* Scheduling */}
           <div>
             <label className="block text-sm font-medium mb-3">When to Send</label>
@@ -3,12 +3,12 @@
 import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation } from "@apollo/client/react";
 import { useAuth } from "@/contexts/AuthContext";
-import { GET_ORG_EXCUSE_REQUESTS } from "@/lib/graphql/queries";
-import { UPDATE_EXCUSE_REQUEST } from "@/lib/graphql/mutations";
+import { GET_ORG_ABSENCE_REQUESTS, GET_ORG_EXCUSE_REQUESTS } from "@/lib/graphql/queries";
+import { REVIEW_ABSENCE_REQUEST, UPDATE_EXCUSE_REQUEST } from "@/lib/graphql/mutations";
 import {
   FileCheck, Search, X, CheckCircle, XCircle,
   ChevronDown, ChevronUp, ChevronLeft, ChevronRight,
-  Clock, CalendarDays, User,
+  Clock, CalendarDays, Paperclip, Tag, CalendarRange, User,
 } from "lucide-react";
 
 // ─── Constants ────────────────────────────────────────────────────────────────
@@ -98,9 +98,37 @@ function DetailModal({
             <p className="text-white/50 text-xs font-medium uppercase tracking-wide mb-1.5">Reason</p>
             <p className="text-white/80 text-sm leading-relaxed">{excuse.reason || "No reason provided."}</p>
           </div>
+          {excuse.category && (
+            <div className="flex items-center gap-2 text-sm text-white/70">
+              <Tag className="w-3.5 h-3.5 text-[#a78bfa]" />
+              {excuse.category.name}
+            </div>
+          )}
+          {excuse.attachments?.length > 0 && (
+            <div>
+              <p className="text-white/50 text-xs font-medium uppercase tracking-wide mb-1.5">Supporting documents</p>
+              <div className="space-y-1.5">
+                {excuse.attachments.map((a: { id: string; fileName: string; url?: string | null }) =>
+                  a.url ? (
+                    <a key={a.id} href={a.url} target="_blank" rel="noopener noreferrer"
+                      className="flex items-center gap-2 text-sm text-[#a78bfa] hover:text-white transition-colors">
+                      <Paperclip className="w-3.5 h-3.5 shrink-0" />
+                      <span className="truncate">{a.fileName}</span>
+                    </a>
+                  ) : (
+                    <p key={a.id} className="flex items-center gap-2 text-sm text-white/40">
+                      <Paperclip className="w-3.5 h-3.5 shrink-0" />
+                      <span className="truncate">{a.fileName}</span>
+                    </p>
+                  )
+                )}
+              </div>
+            </div>
+          )}
           <div className="flex items-center gap-4 text-xs text-white/40">
             <span>Submitted {formatDate(excuse.createdAt)}</span>
             {excuse.attemptCount > 1 && <span>{excuse.attemptCount} attempts</span>}
+            {excuse.autoApproved && <span>Approved automatically by its category</span>}
           </div>
         </div>
         <div className="px-6 py-4 border-t border-white/10 flex justify-end gap-3">
@@ -126,6 +154,139 @@ function DetailModal({
   );
 }
 
+// ─── Date-range Requests ──────────────────────────────────────────────────────
+
+type AbsenceRequestStatus = "PENDING" | "APPROVED" | "DENIED";
+
+interface RangedAbsenceRequest {
+  id: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+  status: AbsenceRequestStatus;
+  createdAt: string;
+  user: { id: string; firstName: string; lastName: string; image?: string | null };
+  requestedBy: { id: string; firstName: string; lastName: string };
+  reviewedBy: { id: string; firstName: string; lastName: string } | null;
+  teams: { id: string; name: string }[];
+  events: { id: string; title: string; date: string; startTime?: string | null; endTime?: string | null; team?: { name: string } | null }[];
+}
+
+function formatRange(start: string, end: string): string {
+  const from = formatDate(start);
+  const to = formatDate(end);
+  return from === to ? from : `${from} – ${to}`;
+}
+
+function RangedRequests({ organizationId, tab }: { organizationId: string; tab: "pending" | "handled" }) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data, refetch } = useQuery<{ orgAbsenceRequests: RangedAbsenceRequest[] }>(GET_ORG_ABSENCE_REQUESTS, {
+    variables: { organizationId, status: tab === "pending" ? "PENDING" : undefined },
+    fetchPolicy: "cache-and-network",
+  });
+  const [reviewAbsence] = useMutation(REVIEW_ABSENCE_REQUEST);
+
+  const requests = (data?.orgAbsenceRequests ?? []).filter((r) => (tab === "pending") === (r.status === "PENDING"));
+  if (requests.length === 0) return null;
+
+  const handleReview = async (id: string, status: "APPROVED" | "DENIED") => {
+    setReviewingId(id);
+    setError(null);
+    try {
+      await reviewAbsence({ variables: { id, status } });
+      await refetch();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to review request");
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white/5 border border-white/8 rounded-2xl overflow-hidden">
+      <div className="flex items-center gap-2 px-5 py-3 border-b border-white/8">
+        <CalendarRange className="w-4 h-4 text-[#a78bfa]" />
+        <h2 className="text-white text-sm font-semibold">Date-range requests</h2>
+        <span className="text-white/40 text-xs">Cover every event in the range, including ones scheduled later</span>
+      </div>
+      {error && <p className="px-5 pt-3 text-red-400 text-sm">{error}</p>}
+      <div className="divide-y divide-white/5">
+        {requests.map((request) => {
+          const expanded = expandedId === request.id;
+          const isReviewing = reviewingId === request.id;
+          return (
+            <div key={request.id}>
+              <div
+                className="grid grid-cols-[1fr_1fr_100px_80px] gap-4 px-5 py-3.5 items-center hover:bg-white/4 cursor-pointer transition-colors"
+                onClick={() => setExpandedId(expanded ? null : request.id)}
+              >
+                <div className="flex items-center gap-2.5 min-w-0">
+                  <Avatar user={request.user} />
+                  <div className="min-w-0">
+                    <p className="text-white text-sm font-medium truncate">{request.user.firstName} {request.user.lastName}</p>
+                    {request.requestedBy.id !== request.user.id && (
+                      <p className="text-white/40 text-xs truncate">Filed by {request.requestedBy.firstName} {request.requestedBy.lastName}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="min-w-0">
+                  <p className="text-white/80 text-sm truncate">{formatRange(request.startDate, request.endDate)}</p>
+                  <p className="text-white/40 text-xs truncate">
+                    {request.teams.length ? request.teams.map((t) => t.name).join(", ") : "All teams"} · {request.events.length} event{request.events.length === 1 ? "" : "s"}
+                  </p>
+                </div>
+                <StatusBadge status={request.status} />
+                <div className="flex justify-end gap-1.5" onClick={(e) => e.stopPropagation()}>
+                  {request.status === "PENDING" && (
+                    <>
+                      <button onClick={() => handleReview(request.id, "APPROVED")} disabled={isReviewing} title="Approve"
+                        className="p-1.5 bg-green-600/20 text-green-500 rounded hover:bg-green-600/30 disabled:opacity-40 transition-colors">
+                        {isReviewing ? <div className="w-4 h-4 border border-green-500/50 border-t-green-500 rounded-full animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+                      </button>
+                      <button onClick={() => handleReview(request.id, "DENIED")} disabled={isReviewing} title="Deny"
+                        className="p-1.5 bg-red-600/20 text-red-500 rounded hover:bg-red-600/30 disabled:opacity-40 transition-colors">
+                        <XCircle className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+              {expanded && (
+                <div className="px-5 pb-4 space-y-3">
+                  <div>
+                    <p className="text-white/50 text-xs font-medium uppercase tracking-wide mb-1.5">Reason</p>
+                    <p className="text-white/80 text-sm leading-relaxed">{request.reason}</p>
+                  </div>
+                  {request.events.length === 0 ? (
+                    <p className="text-white/40 text-sm">No events scheduled in this range yet.</p>
+                  ) : (
+                    <div className="bg-white/5 rounded-xl divide-y divide-white/5">
+                      {request.events.map((event) => (
+                        <div key={event.id} className="flex flex-wrap items-center gap-x-4 gap-y-1 px-4 py-2 text-sm">
+                          <span className="text-white/80 font-medium">{event.title}</span>
+                          <span className="flex items-center gap-1.5 text-white/50"><CalendarDays className="w-3.5 h-3.5" />{formatDate(event.date)}</span>
+                          {event.team?.name && <span className="flex items-center gap-1.5 text-white/50"><User className="w-3.5 h-3.5" />{event.team.name}</span>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex items-center gap-4 text-xs text-white/40">
+                    <span>Submitted {formatDate(request.createdAt)}</span>
+                    {request.reviewedBy && <span>Reviewed by {request.reviewedBy.firstName} {request.reviewedBy.lastName}</span>}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 // ─── Pagination ───────────────────────────────────────────────────────────────
 
 function Pagination({ page, total, pageSize, onChange }: { page: number; total: number; pageSize: number; onChange: (p: number) => void }) {
@@ -171,6 +332,7 @@ export default function AthleteAbsenceRequestsPage() {
   const [sortKey, setSortKey] = useState<SortKey>("date");
   const [sortDir, setSortDir] = useState<SortDir>("desc");
   const [page, setPage]       = useState(1);
+  const [categoryId, setCategoryId] = useState<string | null>(null);
   const [selected, setSelected]     = useState<any | null>(null);
   const [updatingId, setUpdatingId] = useState<string | null>(null);
 
@@ -186,7 +348,7 @@ export default function AthleteAbsenceRequestsPage() {
   }, [search]);
 
   // Reset page when tab or sort changes
-  useEffect(() => { setPage(1); }, [tab, sortKey, sortDir]);
+  useEffect(() => { setPage(1); }, [tab, sortKey, sortDir, categoryId]);
 
   const status = tab === "pending" ? "PENDING" : "HANDLED";
 
@@ -196,6 +358,7 @@ export default function AthleteAbsenceRequestsPage() {
       status,
       requesterType: "ATHLETE",
       search: debouncedSearch || undefined,
+      categoryId: categoryId || undefined,
       sortBy: sortKey,
       sortDir,
       limit: PAGE_SIZE,
@@ -218,6 +381,11 @@ export default function AthleteAbsenceRequestsPage() {
 
   const excuses: any[] = data?.orgExcuseRequests?.items ?? [];
   const total: number  = data?.orgExcuseRequests?.total ?? 0;
+  // Uncategorized excuses can't be filtered on, so they only count toward "All"
+  const breakdown: { category: { id: string; name: string } | null; count: number }[] =
+    data?.orgExcuseRequests?.categoryBreakdown ?? [];
+  const categoryCounts = breakdown.filter((b) => b.category);
+  const allCount = breakdown.reduce((sum, b) => sum + b.count, 0);
 
   const toggleSort = (key: SortKey) => {
     if (sortKey === key) setSortDir((d) => (d === "asc" ? "desc" : "asc"));
@@ -282,6 +450,28 @@ export default function AthleteAbsenceRequestsPage() {
         </div>
       </div>
 
+      {selectedOrganizationId && <RangedRequests organizationId={selectedOrganizationId} tab={tab} />}
+
+      {categoryCounts.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {[{ category: null, count: allCount }, ...categoryCounts].map(({ category, count }) => {
+            const active = (category?.id ?? null) === categoryId;
+            return (
+              <button
+                key={category?.id ?? "all"}
+                onClick={() => setCategoryId(category?.id ?? null)}
+                className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                  active ? "bg-[#6c5ce7] border-[#6c5ce7] text-white" : "bg-white/5 border-white/10 text-white/60 hover:text-white"
+                }`}
+              >
+                {category?.name ?? "All categories"}
+                <span className={active ? "text-white/70" : "text-white/35"}>{count}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       {/* Table */}
       <div className="bg-white/5 border border-white/8 rounded-2xl overflow-hidden">
         {/* Column headers */}
@@ -326,7 +516,12 @@ export default function AthleteAbsenceRequestsPage() {
                   </div>
                   <div className="min-w-0">
                     <p className="text-white/80 text-sm truncate">{excuse.event.title}</p>
-                    {excuse.event.team?.name && <p className="text-white/40 text-xs truncate">{excuse.event.team.name}</p>}
+                    {(excuse.event.team?.name || excuse.category) && (
+                      <p className="text-white/40 text-xs truncate">
+                        {[excuse.event.team?.name, excuse.category?.name].filter(Boolean).join(" · ")}
+                        {excuse.attachments?.length > 0 && <Paperclip className="inline w-3 h-3 ml-1.5 -mt-0.5" />}
+                      </p>
+                    )}
                   </div>
                   <p className="text-white/60 text-sm">{formatDate(excuse.event.date)}</p>
                   <StatusBadge status={excuse.status} />
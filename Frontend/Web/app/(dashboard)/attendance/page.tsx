@@ -42,7 +42,7 @@ import {
 
 type AttendanceRecord = {
   id: string;
-  status: "ON_TIME" | "LATE" | "ABSENT" | "EXCUSED";
+  status: "ON_TIME" | "LATE" | "ABSENT" | "EXCUSED" | "LEFT_EARLY";
   checkInTime?: string;
   checkOutTime?: string;
   hoursLogged?: number;
@@ -60,6 +60,7 @@ const STATUS_CONFIG = {
   LATE: { icon: Clock, color: "text-yellow-500", bg: "bg-yellow-500/20", label: "Late" },
   ABSENT: { icon: XCircle, color: "text-red-500", bg: "bg-red-500/20", label: "Absent" },
   EXCUSED: { icon: AlertCircle, color: "text-[#6c5ce7]", bg: "bg-[#a855f7]/15", label: "Excused" },
+  LEFT_EARLY: { icon: LogOut, color: "text-orange-400", bg: "bg-orange-500/20", label: "Left Early" },
 };
 
 // ============================================
@@ -113,7 +114,7 @@ export default function Attendance() {
   // Table state
   const [searchQuery, setSearchQuery] = useState("");
   const [searchInput, setSearchInput] = useState(""); // debounced → searchQuery
-  const [statusFilter, setStatusFilter] = useState<"ALL" | "ON_TIME" | "LATE" | "ABSENT" | "EXCUSED">("ALL");
+  const [statusFilter, setStatusFilter] = useState<"ALL" | "ON_TIME" | "LATE" | "ABSENT" | "EXCUSED" | "LEFT_EARLY">("ALL");
   const [teamFilter, setTeamFilter] = useState<string>("ALL");
   const [dateFilter, setDateFilter] = useState<"ALL" | "TODAY" | "WEEK" | "MONTH" | "CUSTOM">("ALL");
   const [customStart, setCustomStart] = useState("");
@@ -435,6 +436,7 @@ export default function Attendance() {
                   <option value="LATE">Late</option>
                   <option value="ABSENT">Absent</option>
                   <option value="EXCUSED">Excused</option>
+                  <option value="LEFT_EARLY">Left Early</option>
                 </select>
                 <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/55 pointer-events-none" />
               </div>
@@ -898,6 +900,7 @@ function ModifyAttendanceModal({
     { value: "LATE", label: "Late", color: "bg-yellow-600 hover:bg-yellow-700" },
     { value: "ABSENT", label: "Absent", color: "bg-red-600 hover:bg-red-700" },
     { value: "EXCUSED", label: "Excused", color: "bg-[#6c5ce7] hover:bg-[#5a4dd4]" },
+    { value: "LEFT_EARLY", label: "Left Early", color: "bg-orange-600 hover:bg-orange-700" },
   ];
 
   return (
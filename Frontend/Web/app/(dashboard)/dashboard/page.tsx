@@ -2,11 +2,12 @@
 
 import { useQuery, useMutation } from "@apollo/client/react";
 import { useAuth } from "@/contexts/AuthContext";
-import { GET_ORGANIZATION, GET_ORGANIZATION_STATS, GET_PENDING_EXCUSE_REQUESTS, GET_PENDING_AD_HOC_CHECK_INS, GET_USER_BADGES } from "@/lib/graphql";
+import { GET_ORGANIZATION, GET_ORGANIZATION_STATS, GET_PENDING_EXCUSE_REQUESTS, GET_PENDING_AD_HOC_CHECK_INS, GET_USER_BADGES, GET_GAME_RESULTS } from "@/lib/graphql";
 import { UPDATE_EXCUSE_REQUEST } from "@/lib/graphql/mutations";
 import { Users, Calendar, TrendingUp, AlertCircle, CheckCircle, XCircle, Clock, ChevronLeft, ChevronRight, Award, X } from "lucide-react";
 import Link from "next/link";
 import { useState, useEffect } from "react";
+import { formatOpponent, formatScore, RESULT_COLORS, type GameLine } from "@/lib/utils";
 
 const PAGE_SIZE = 5;
 
@@ -35,6 +36,8 @@ function Pagination({ page, totalPages, onPrev, onNext }: { page: number; totalP
   );
 }
 
+type RecentResult = GameLine & { id: string; date: string; team?: { name: string } | null };
+
 export default function Dashboard() {
   const { selectedOrganizationId, canEdit, user: currentUser } = useAuth();
   const [rankingsPage, setRankingsPage] = useState(1);
@@ -69,6 +72,11 @@ export default function Dashboard() {
     skip: !currentUser?.id || !selectedOrganizationId,
   });
 
+  const { data: resultsData } = useQuery<{ gameResults: RecentResult[] }>(GET_GAME_RESULTS, {
+    variables: { organizationId: selectedOrganizationId, limit: 5 },
+    skip: !selectedOrganizationId,
+  });
+
   useEffect(() => {
     if (!badgesData?.getUserBadges?.badges) return;
     const newBadges = badgesData.getUserBadges.badges.filter((b: any) => b.isNew);
@@ -97,6 +105,7 @@ export default function Dashboard() {
   const teamRankings = statsData?.teamRankings || [];
   const pendingExcuses = excusesData?.pendingExcuseRequests || [];
   const pendingAdHocCheckIns = adHocData?.pendingAdHocCheckIns || [];
+  const recentResults = resultsData?.gameResults || [];
 
   const rankingsTotalPages = Math.max(1, Math.ceil(teamRankings.length / PAGE_SIZE));
   const excusesTotalPages = Math.max(1, Math.ceil(pendingExcuses.length / PAGE_SIZE));
@@ -381,6 +390,37 @@ export default function Dashboard() {
             )}
           </div>
         </div>
+
+        {/* Recent Results */}
+        {recentResults.length > 0 && (
+          <div className="bg-white/8 rounded-xl border border-white/8">
+            <div className="px-6 py-4 border-b border-white/8">
+              <h2 className="text-lg font-semibold text-white">Recent Results</h2>
+              <p className="text-white/55 text-sm">Latest scored games</p>
+            </div>
+            <div className="p-6 space-y-3">
+              {recentResults.map((game) => (
+                <Link key={game.id} href={`/events/${game.id}`} className="flex items-center justify-between group">
+                  <div>
+                    <p className="text-white font-medium group-hover:text-[#a78bfa] transition-colors">
+                      {game.team?.name} <span className="text-white/55 font-normal">{formatOpponent(game)}</span>
+                    </p>
+                    <p className="text-white/35 text-sm">
+                      {new Date(isNaN(Number(game.date)) ? game.date : Number(game.date)).toLocaleDateString("en-US", {
+                        month: "short",
+                        day: "numeric",
+                        timeZone: "UTC",
+                      })}
+                    </p>
+                  </div>
+                  <span className={`px-2 py-0.5 rounded text-sm font-medium ${RESULT_COLORS[game.result!]}`}>
+                    {formatScore(game)}
+                  </span>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -21,7 +21,12 @@ import {
   REMOVE_ATHLETE_FROM_EVENT,
   EXCLUDE_ATHLETE_FROM_EVENT,
   UNEXCLUDE_ATHLETE_FROM_EVENT,
+  GET_EVENT_CHECK_IN_QR_CODE,
+  RECORD_GAME_RESULT,
+  CLEAR_GAME_RESULT,
+  UPSERT_RSVP,
 } from "@/lib/graphql";
+import { formatOpponent, formatScore, RESULT_COLORS } from "@/lib/utils";
 import {
   ArrowLeft,
   Calendar,
@@ -30,9 +35,11 @@ import {
   Clock,
   Edit2,
   MapPin,
+  QrCode,
   Repeat,
   Search,
   Trash2,
+  Trophy,
   UserMinus,
   UserPlus,
   Users,
@@ -40,6 +47,7 @@ import {
 } from "lucide-react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
+import { QRCodeSVG } from "qrcode.react";
 
 // ============================================
 // Types
@@ -65,7 +73,7 @@ type Team = {
 
 type CheckIn = {
   id: string;
-  status: "ON_TIME" | "LATE" | "ABSENT" | "EXCUSED";
+  status: "ON_TIME" | "LATE" | "ABSENT" | "EXCUSED" | "LEFT_EARLY";
   checkInTime?: string;
   checkOutTime?: string;
   hoursLogged?: number;
@@ -80,8 +88,9 @@ type CheckIn = {
 
 type EventRsvp = {
   id: string;
-  status: "GOING" | "NOT_GOING" | "MAYBE";
+  status: "GOING" | "NOT_GOING" | "MAYBE" | "WAITLISTED";
   note?: string;
+  waitlistPosition?: number | null;
   user: {
     id: string;
     firstName: string;
@@ -99,15 +108,28 @@ type AthleteUser = {
 type EventDetail = {
   id: string;
   title: string;
-  type: "PRACTICE" | "EVENT" | "MEETING" | "REST";
+  type: "PRACTICE" | "EVENT" | "MEETING" | "REST" | "GAME";
   date: string;
   endDate?: string;
   startTime: string;
   endTime: string;
   location?: string;
   description?: string;
+  status?: "SCHEDULED" | "CANCELLED" | "POSTPONED";
   recurringEvent?: { id: string } | null;
   venue?: { id: string; name: string; address?: string; city?: string } | null;
+  opponent?: { id: string; name: string } | null;
+  homeAway?: "HOME" | "AWAY" | "NEUTRAL" | null;
+  teamScore?: number | null;
+  opponentScore?: number | null;
+  result?: "WIN" | "LOSS" | "DRAW" | null;
+  eventGroup?: { id: string; name: string } | null;
+  capacity?: number | null;
+  rsvpDeadline?: string | null;
+  rsvpClosed: boolean;
+  goingCount: number;
+  spotsRemaining?: number | null;
+  waitlistCount: number;
   team?: Team | null;
   participatingTeams: Team[];
   checkIns: CheckIn[];
@@ -121,6 +143,7 @@ const EVENT_TYPE_COLORS: Record<string, string> = {
   EVENT: "bg-red-600/20 text-red-400",
   MEETING: "bg-yellow-600/20 text-yellow-400",
   REST: "bg-white/10 text-white/55",
+  GAME: "bg-orange-600/20 text-orange-400",
 };
 
 const EVENT_TYPE_LABELS: Record<string, string> = {
@@ -128,6 +151,7 @@ const EVENT_TYPE_LABELS: Record<string, string> = {
   EVENT: "Tournament",
   MEETING: "Meeting",
   REST: "Rest Day",
+  GAME: "Game",
 };
 
 const STATUS_COLORS: Record<string, string> = {
@@ -135,6 +159,7 @@ const STATUS_COLORS: Record<string, string> = {
   LATE: "bg-yellow-600/20 text-yellow-400",
   ABSENT: "bg-red-600/20 text-red-400",
   EXCUSED: "bg-[#a855f7]/15 text-[#a78bfa]",
+  LEFT_EARLY: "bg-orange-600/20 text-orange-400",
 };
 
 const STATUS_LABELS: Record<string, string> = {
@@ -142,6 +167,7 @@ const STATUS_LABELS: Record<string, string> = {
   LATE: "Late",
   ABSENT: "Absent",
   EXCUSED: "Excused",
+  LEFT_EARLY: "Left Early",
 };
 
 function parseDate(dateStr: string) {
@@ -183,6 +209,7 @@ export default function EventDetailPage() {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [showAddAthleteModal, setShowAddAthleteModal] = useState(false);
+  const [showQrModal, setShowQrModal] = useState(false);
   const [excludedOpen, setExcludedOpen] = useState(false);
   const [modifyAthlete, setModifyAthlete] = useState<{
     userId: string;
@@ -211,6 +238,12 @@ export default function EventDetailPage() {
   const [removeAthleteFromEvent] = useMutation<any>(REMOVE_ATHLETE_FROM_EVENT);
   const [excludeAthleteFromEvent] = useMutation<any>(EXCLUDE_ATHLETE_FROM_EVENT);
   const [unexcludeAthleteFromEvent] = useMutation<any>(UNEXCLUDE_ATHLETE_FROM_EVENT);
+  const [recordGameResult] = useMutation(RECORD_GAME_RESULT);
+  const [clearGameResult] = useMutation(CLEAR_GAME_RESULT);
+  const [scoreForm, setScoreForm] = useState<{ teamScore: string; opponentScore: string } | null>(null);
+  const [scoreError, setScoreError] = useState("");
+  const [upsertRsvp] = useMutation(UPSERT_RSVP);
+  const [rsvpError, setRsvpError] = useState("");
 
   // Determine if the event has ended (past its end time)
   const eventHasEnded = useMemo(() => {
@@ -252,6 +285,8 @@ export default function EventDetailPage() {
     location: string;
     description: string;
     venueId: string;
+    capacity: string;
+    rsvpDeadline: string;
   }) => {
     if (!event) return;
     try {
@@ -267,6 +302,8 @@ export default function EventDetailPage() {
           location: formData.location || null,
           description: formData.description || null,
           venueId: formData.venueId || null,
+          capacity: formData.capacity ? parseInt(formData.capacity, 10) : null,
+          rsvpDeadline: formData.rsvpDeadline ? new Date(formData.rsvpDeadline).toISOString() : null,
         },
       });
       setIsEditModalOpen(false);
@@ -276,6 +313,47 @@ export default function EventDetailPage() {
     }
   };
 
+  const handleSaveScore = async () => {
+    if (!event || !scoreForm) return;
+    setScoreError("");
+    try {
+      await recordGameResult({
+        variables: {
+          eventId: event.id,
+          teamScore: parseInt(scoreForm.teamScore, 10),
+          opponentScore: parseInt(scoreForm.opponentScore, 10),
+        },
+      });
+      setScoreForm(null);
+      refetch();
+    } catch (err) {
+      setScoreError(err instanceof Error ? err.message : "Failed to save score");
+    }
+  };
+
+  const handleClearScore = async () => {
+    if (!event) return;
+    setScoreError("");
+    try {
+      await clearGameResult({ variables: { eventId: event.id } });
+      refetch();
+    } catch (err) {
+      setScoreError(err instanceof Error ? err.message : "Failed to clear score");
+    }
+  };
+
+  // Coach override: let a waitlisted athlete in even when the event is full
+  const handleAdmitFromWaitlist = async (userId: string) => {
+    if (!event) return;
+    setRsvpError("");
+    try {
+      await upsertRsvp({ variables: { input: { userId, eventId: event.id, status: "GOING", override: true } } });
+      refetch();
+    } catch (err) {
+      setRsvpError(err instanceof Error ? err.message : "Failed to update RSVP");
+    }
+  };
+
   const handleDeleteThisOnly = async () => {
     if (!event) return;
     try {
@@ -363,15 +441,16 @@ export default function EventDetailPage() {
 
   // RSVP counts
   const rsvpCounts = useMemo(() => {
-    if (!event) return { going: 0, maybe: 0, notGoing: 0 };
+    if (!event) return { going: 0, maybe: 0, notGoing: 0, waitlisted: 0 };
     return event.rsvps.reduce(
       (acc, r) => {
         if (r.status === "GOING") acc.going++;
         else if (r.status === "MAYBE") acc.maybe++;
         else if (r.status === "NOT_GOING") acc.notGoing++;
+        else if (r.status === "WAITLISTED") acc.waitlisted++;
         return acc;
       },
-      { going: 0, maybe: 0, notGoing: 0 }
+      { going: 0, maybe: 0, notGoing: 0, waitlisted: 0 }
     );
   }, [event]);
 
@@ -432,6 +511,11 @@ export default function EventDetailPage() {
     );
   }
 
+  // Scores can be entered once a scheduled game has started
+  const gameStart = getEventStartDateTime(event) ?? parseDate(event.date);
+  const canEnterScore =
+    event.type === "GAME" && event.status !== "CANCELLED" && event.status !== "POSTPONED" && gameStart <= new Date();
+
   // Date formatting
   const eventDate = parseDate(event.date);
   const isMultiDay = !!event.endDate;
@@ -476,12 +560,38 @@ export default function EventDetailPage() {
               Recurring
             </span>
           )}
+          {event.eventGroup && (
+            <Link
+              href={`/events/groups/${event.eventGroup.id}`}
+              className="flex items-center text-xs text-[#a78bfa] hover:text-[#c4b5fd]"
+            >
+              <Trophy className="w-3 h-3 mr-1" />
+              Part of {event.eventGroup.name}
+            </Link>
+          )}
         </div>
 
         <div className="flex items-center justify-between mb-3">
-          <h1 className="text-2xl font-bold text-white">{event.title}</h1>
+          <div>
+            <h1 className="text-2xl font-bold text-white">{event.title}</h1>
+            {event.opponent && (
+              <p className="text-white/55 text-sm mt-0.5">
+                {formatOpponent(event)}
+                {event.homeAway === "NEUTRAL" && " (neutral site)"}
+              </p>
+            )}
+          </div>
           {canEdit && (
             <div className="flex items-center gap-1">
+              {canManageAttendance && !eventHasEnded && (
+                <button
+                  onClick={() => setShowQrModal(true)}
+                  title="Show check-in QR code"
+                  className="p-2 text-white/55 hover:text-[#a78bfa] transition-colors"
+                >
+                  <QrCode className="w-4 h-4" />
+                </button>
+              )}
               {!eventHasEnded && (
                 <button
                   onClick={() => setIsEditModalOpen(true)}
@@ -550,6 +660,85 @@ export default function EventDetailPage() {
         )}
       </div>
 
+      {/* Game Score */}
+      {event.type === "GAME" && (event.result || (canEdit && canEnterScore)) && (
+        <div className="bg-white/8 backdrop-blur-xl rounded-xl border border-white/15 shadow-2xl p-6 mb-6">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-sm font-medium text-white/55 uppercase tracking-wider">Score</h2>
+            {canEdit && canEnterScore && !scoreForm && (
+              <div className="flex items-center gap-3">
+                {event.result && (
+                  <button onClick={handleClearScore} className="text-xs text-white/40 hover:text-red-400 transition-colors">
+                    Clear
+                  </button>
+                )}
+                <button
+                  onClick={() =>
+                    setScoreForm({
+                      teamScore: event.teamScore != null ? String(event.teamScore) : "",
+                      opponentScore: event.opponentScore != null ? String(event.opponentScore) : "",
+                    })
+                  }
+                  className="text-xs text-[#a78bfa] hover:text-[#c4b5fd] transition-colors"
+                >
+                  {event.result ? "Edit" : "Enter score"}
+                </button>
+              </div>
+            )}
+          </div>
+
+          {scoreForm ? (
+            <div className="flex items-end gap-3 flex-wrap">
+              <div>
+                <label className="block text-xs text-white/55 mb-1">{event.team?.name || "Us"}</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={999}
+                  value={scoreForm.teamScore}
+                  onChange={(e) => setScoreForm({ ...scoreForm, teamScore: e.target.value })}
+                  className="w-20 px-3 py-2 bg-white/15 border border-white/25 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-white/55 mb-1">{event.opponent?.name || "Opponent"}</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={999}
+                  value={scoreForm.opponentScore}
+                  onChange={(e) => setScoreForm({ ...scoreForm, opponentScore: e.target.value })}
+                  className="w-20 px-3 py-2 bg-white/15 border border-white/25 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+                />
+              </div>
+              <button
+                onClick={handleSaveScore}
+                disabled={scoreForm.teamScore === "" || scoreForm.opponentScore === ""}
+                className="px-4 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5a4dd4] disabled:opacity-50 transition-colors text-sm"
+              >
+                Save
+              </button>
+              <button
+                onClick={() => { setScoreForm(null); setScoreError(""); }}
+                className="px-4 py-2 text-white/55 hover:text-white transition-colors text-sm"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : event.result ? (
+            <div className="flex items-center gap-3">
+              <span className={`px-2 py-0.5 rounded text-sm font-medium ${RESULT_COLORS[event.result]}`}>
+                {formatScore(event)}
+              </span>
+              <span className="text-white/55 text-sm">{formatOpponent(event)}</span>
+            </div>
+          ) : (
+            <p className="text-white/40 text-sm">No score entered yet.</p>
+          )}
+          {scoreError && <p className="text-red-400 text-sm mt-2">{scoreError}</p>}
+        </div>
+      )}
+
       {/* Coaches Section */}
       {coaches.length > 0 && (
         <div className="bg-white/8 backdrop-blur-xl rounded-xl border border-white/15 shadow-2xl p-6 mb-6">
@@ -581,15 +770,31 @@ export default function EventDetailPage() {
       )}
 
       {/* RSVP Summary Card */}
-      {event.rsvps.length > 0 && (
+      {(event.rsvps.length > 0 || event.capacity != null || event.rsvpDeadline) && (
         <div className="bg-white/8 rounded-xl p-4 border border-white/8 mb-6">
-          <h2 className="text-sm font-medium text-white/55 uppercase tracking-wider mb-3">
-            Expected Headcount
-          </h2>
+          <div className="flex items-center justify-between mb-3 flex-wrap gap-2">
+            <h2 className="text-sm font-medium text-white/55 uppercase tracking-wider">
+              Expected Headcount
+            </h2>
+            {event.rsvpDeadline && (
+              <span className={`text-xs ${event.rsvpClosed ? "text-red-400" : "text-white/55"}`}>
+                {event.rsvpClosed ? "RSVPs closed" : "RSVPs close"}{" "}
+                {new Date(event.rsvpDeadline).toLocaleString("en-US", {
+                  month: "short",
+                  day: "numeric",
+                  hour: "numeric",
+                  minute: "2-digit",
+                })}
+              </span>
+            )}
+          </div>
           <div className="flex items-center gap-6 flex-wrap">
             <div className="flex items-center gap-2">
               <span className="text-green-400 font-bold text-lg">✓</span>
-              <span className="text-white text-sm">Going: <span className="font-bold">{rsvpCounts.going}</span></span>
+              <span className="text-white text-sm">
+                Going: <span className="font-bold">{rsvpCounts.going}</span>
+                {event.capacity != null && <span className="text-white/55"> / {event.capacity}</span>}
+              </span>
             </div>
             <div className="flex items-center gap-2">
               <span className="text-yellow-400 font-bold text-lg">?</span>
@@ -599,7 +804,39 @@ export default function EventDetailPage() {
               <span className="text-red-400 font-bold text-lg">✗</span>
               <span className="text-white text-sm">Not Going: <span className="font-bold">{rsvpCounts.notGoing}</span></span>
             </div>
+            {rsvpCounts.waitlisted > 0 && (
+              <div className="flex items-center gap-2">
+                <span className="text-[#a78bfa] font-bold text-lg">⋯</span>
+                <span className="text-white text-sm">Waitlisted: <span className="font-bold">{rsvpCounts.waitlisted}</span></span>
+              </div>
+            )}
           </div>
+
+          {/* Waitlist */}
+          {rsvpCounts.waitlisted > 0 && (
+            <div className="mt-4 pt-3 border-t border-white/8 space-y-2">
+              {event.rsvps
+                .filter((r) => r.status === "WAITLISTED")
+                .sort((a, b) => (a.waitlistPosition ?? 0) - (b.waitlistPosition ?? 0))
+                .map((r) => (
+                  <div key={r.id} className="flex items-center justify-between text-sm">
+                    <span className="text-white">
+                      <span className="text-white/40 mr-2">#{r.waitlistPosition}</span>
+                      {r.user.firstName} {r.user.lastName}
+                    </span>
+                    {canManageAttendance && (
+                      <button
+                        onClick={() => handleAdmitFromWaitlist(r.user.id)}
+                        className="text-xs text-[#a78bfa] hover:text-[#c4b5fd] transition-colors"
+                      >
+                        Move to going
+                      </button>
+                    )}
+                  </div>
+                ))}
+            </div>
+          )}
+          {rsvpError && <p className="text-red-400 text-sm mt-2">{rsvpError}</p>}
         </div>
       )}
 
@@ -716,10 +953,18 @@ export default function EventDetailPage() {
                           ? "bg-green-600/20 text-green-400"
                           : rsvp.status === "MAYBE"
                           ? "bg-yellow-600/20 text-yellow-400"
+                          : rsvp.status === "WAITLISTED"
+                          ? "bg-[#a855f7]/15 text-[#a78bfa]"
                           : "bg-red-600/20 text-red-400"
                       }`}
                     >
-                      {rsvp.status === "GOING" ? "Going" : rsvp.status === "MAYBE" ? "Maybe" : "Not Going"}
+                      {rsvp.status === "GOING"
+                        ? "Going"
+                        : rsvp.status === "MAYBE"
+                        ? "Maybe"
+                        : rsvp.status === "WAITLISTED"
+                        ? `Waitlist #${rsvp.waitlistPosition}`
+                        : "Not Going"}
                     </span>
                   ) : (
                     <span className="text-white/40 text-xs">—</span>
@@ -969,6 +1214,17 @@ export default function EventDetailPage() {
         />
       )}
 
+      {/* Check-In QR Code */}
+      {showQrModal && event && (
+        <CheckInQrModal
+          eventId={eventId}
+          eventTitle={event.title}
+          checkedInCount={checkedInCount}
+          onClose={() => setShowQrModal(false)}
+          onRotate={() => refetch()}
+        />
+      )}
+
       {/* Edit Event Modal */}
       {isEditModalOpen && event && selectedOrganizationId && (
         <EditEventModal
@@ -1111,6 +1367,7 @@ function ModifyAttendanceModal({
     { value: "LATE", label: "Late", color: "bg-yellow-600 hover:bg-yellow-700" },
     { value: "ABSENT", label: "Absent", color: "bg-red-600 hover:bg-red-700" },
     { value: "EXCUSED", label: "Excused", color: "bg-[#6c5ce7] hover:bg-[#5a4dd4]" },
+    { value: "LEFT_EARLY", label: "Left Early", color: "bg-orange-600 hover:bg-orange-700" },
   ];
 
   return (
@@ -1307,13 +1564,88 @@ function AddAthleteModal({
   );
 }
 
+// ============================================
+// CheckInQrModal
+// ============================================
+
+// The server rotates codes every 30s; never wait longer than that for a new one
+const QR_MAX_ROTATE_MS = 30_000;
+
+function CheckInQrModal({
+  eventId,
+  eventTitle,
+  checkedInCount,
+  onClose,
+  onRotate,
+}: {
+  eventId: string;
+  eventTitle: string;
+  checkedInCount: number;
+  onClose: () => void;
+  onRotate: () => void;
+}) {
+  const [rotation, setRotation] = useState(0);
+  const { data, error, refetch } = useQuery<{ eventCheckInQrCode: { code: string; expiresAt: string } }>(
+    GET_EVENT_CHECK_IN_QR_CODE,
+    { variables: { eventId }, fetchPolicy: "network-only" }
+  );
+  const qr = data?.eventCheckInQrCode;
+
+  // Swap in the next code as soon as this one rotates, and pick up the
+  // check-ins that came in meanwhile
+  useEffect(() => {
+    if (!qr) return;
+    const untilExpiry = new Date(qr.expiresAt).getTime() - Date.now();
+    const timeout = setTimeout(() => {
+      refetch().finally(() => setRotation((r) => r + 1));
+      onRotate();
+    }, Math.min(Math.max(untilExpiry, 1000), QR_MAX_ROTATE_MS));
+    return () => clearTimeout(timeout);
+  }, [qr?.code, rotation]);
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm flex items-center justify-center z-50 px-4">
+      <div className="bg-white/8 backdrop-blur-xl rounded-xl border border-white/15 shadow-2xl p-6 w-full max-w-lg flex flex-col items-center">
+        <div className="flex items-center justify-between w-full mb-4">
+          <h2 className="text-lg font-semibold text-white">Check In: {eventTitle}</h2>
+          <button onClick={onClose} className="text-white/55 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error ? (
+          <p className="text-red-400 text-sm text-center py-12">{error.message}</p>
+        ) : qr ? (
+          <div className="bg-white p-4 rounded-xl">
+            <QRCodeSVG value={qr.code} size={320} level="M" />
+          </div>
+        ) : (
+          <div className="flex items-center justify-center h-[352px]">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#6c5ce7]"></div>
+          </div>
+        )}
+
+        <p className="text-white text-sm mt-4 text-center">
+          Open Athletiq and tap <span className="font-semibold">Scan QR</span> to check in or out.
+        </p>
+        <p className="text-white/55 text-xs mt-1 text-center">
+          The code changes every 30 seconds, so photos of it stop working.
+        </p>
+        <p className="text-white/55 text-sm mt-4">
+          <span className="text-white font-semibold">{checkedInCount}</span> checked in
+        </p>
+      </div>
+    </div>
+  );
+}
+
 // ============================================
 // EditEventModal
 // ============================================
 
 type EditEventFormData = {
   title: string;
-  type: "PRACTICE" | "EVENT" | "MEETING";
+  type: "PRACTICE" | "EVENT" | "MEETING" | "GAME";
   date: string;
   endDate: string;
   isMultiDay: boolean;
@@ -1322,6 +1654,8 @@ type EditEventFormData = {
   location: string;
   description: string;
   venueId: string;
+  capacity: string;
+  rsvpDeadline: string;
 };
 
 function formatDateForInput(dateStr: string): string {
@@ -1352,7 +1686,7 @@ function EditEventModal({
 
   const [formData, setFormData] = useState<EditEventFormData>({
     title: event.title,
-    type: event.type as "PRACTICE" | "EVENT" | "MEETING",
+    type: event.type as "PRACTICE" | "EVENT" | "MEETING" | "GAME",
     date: formatDateForInput(event.date),
     endDate: event.endDate ? formatDateForInput(event.endDate) : "",
     isMultiDay,
@@ -1361,6 +1695,8 @@ function EditEventModal({
     location: event.location || "",
     description: event.description || "",
     venueId: event.venue?.id || "",
+    capacity: event.capacity != null ? String(event.capacity) : "",
+    rsvpDeadline: toLocalDatetimeValue(event.rsvpDeadline),
   });
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -1395,12 +1731,13 @@ function EditEventModal({
             <label className="block text-sm font-medium text-white/55 mb-1">Type</label>
             <select
               value={formData.type}
-              onChange={(e) => setFormData({ ...formData, type: e.target.value as "PRACTICE" | "EVENT" | "MEETING" })}
+              onChange={(e) => setFormData({ ...formData, type: e.target.value as "PRACTICE" | "EVENT" | "MEETING" | "GAME" })}
               className="w-full px-4 py-2 bg-white/15 border border-white/25 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
             >
               <option value="PRACTICE">Practice</option>
               <option value="EVENT">Tournament</option>
               <option value="MEETING">Meeting</option>
+              {event.type === "GAME" && <option value="GAME">Game</option>}
             </select>
           </div>
 
@@ -1533,6 +1870,30 @@ function EditEventModal({
             />
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-white/55 mb-1">Capacity</label>
+              <input
+                type="number"
+                min={1}
+                value={formData.capacity}
+                onChange={(e) => setFormData({ ...formData, capacity: e.target.value })}
+                className="w-full px-4 py-2 bg-white/15 border border-white/25 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+                placeholder="Unlimited"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-white/55 mb-1">RSVP Deadline</label>
+              <input
+                type="datetime-local"
+                value={formData.rsvpDeadline}
+                onChange={(e) => setFormData({ ...formData, rsvpDeadline: e.target.value })}
+                className="w-full px-4 py-2 bg-white/15 border border-white/25 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-white/40 -mt-2">Going responses past capacity join a waitlist and are let in as spots open.</p>
+
           <div className="flex justify-end space-x-3 mt-6">
             <button type="button" onClick={onClose} className="px-4 py-2 text-white/55 hover:text-white transition-colors">
               Cancel
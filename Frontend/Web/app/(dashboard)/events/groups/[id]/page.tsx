@@ -0,0 +1,905 @@
+"use client";
+
+import { useState, useRef } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { useQuery, useMutation } from "@apollo/client/react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  GET_EVENT_GROUP,
+  GET_EVENTS,
+  UPDATE_EVENT_GROUP,
+  DELETE_EVENT_GROUP,
+  ADD_EVENTS_TO_GROUP,
+  REMOVE_EVENT_FROM_GROUP,
+  SET_GAME_BRACKET,
+  GENERATE_EVENT_GROUP_DOCUMENT_UPLOAD_URL,
+  ADD_EVENT_GROUP_DOCUMENT,
+  DELETE_EVENT_GROUP_DOCUMENT,
+} from "@/lib/graphql";
+import { formatOpponent, formatScore, RESULT_COLORS, type GameLine } from "@/lib/utils";
+import {
+  ArrowLeft,
+  Calendar,
+  Clock,
+  Edit2,
+  FileText,
+  MapPin,
+  Plus,
+  Trash2,
+  Trophy,
+  Upload,
+  X,
+} from "lucide-react";
+import Link from "next/link";
+
+// ============================================
+// Types
+// ============================================
+
+type Session = GameLine & {
+  id: string;
+  title: string;
+  type: "PRACTICE" | "EVENT" | "MEETING" | "REST" | "GAME";
+  date: string;
+  startTime: string;
+  endTime: string;
+  location?: string | null;
+  status: "SCHEDULED" | "CANCELLED" | "POSTPONED";
+  venue?: { id: string; name: string } | null;
+  team?: { id: string; name: string } | null;
+  eventGroup?: { id: string; name: string } | null;
+  pool?: string | null;
+  bracketRound?: number | null;
+  bracketSlot?: number | null;
+};
+
+type GroupDocument = {
+  id: string;
+  fileName: string;
+  contentType: string;
+  url?: string | null;
+  uploadedBy: { id: string; firstName: string; lastName: string };
+  createdAt: string;
+};
+
+type Standing = {
+  team: { id: string; name: string };
+  record: {
+    played: number;
+    wins: number;
+    losses: number;
+    draws: number;
+    goalsFor: number;
+    goalsAgainst: number;
+    goalDifferential: number;
+  };
+};
+
+type EventGroupDetail = {
+  id: string;
+  organizationId: string;
+  name: string;
+  description?: string | null;
+  startDate: string;
+  endDate: string;
+  travelNotes?: string | null;
+  events: Session[];
+  documents: GroupDocument[];
+  pools: { name: string; standings: Standing[] }[];
+  bracket: { round: number; name: string; games: { id: string }[] }[];
+};
+
+// ============================================
+// Constants & Helpers
+// ============================================
+
+const EVENT_TYPE_COLORS: Record<string, string> = {
+  PRACTICE: "bg-green-600/20 text-green-400",
+  EVENT: "bg-red-600/20 text-red-400",
+  MEETING: "bg-yellow-600/20 text-yellow-400",
+  REST: "bg-white/10 text-white/55",
+  GAME: "bg-orange-600/20 text-orange-400",
+};
+
+const EVENT_TYPE_LABELS: Record<string, string> = {
+  PRACTICE: "Practice",
+  EVENT: "Tournament",
+  MEETING: "Meeting",
+  REST: "Rest Day",
+  GAME: "Game",
+};
+
+const DOCUMENT_TYPES = "application/pdf,image/jpeg,image/png,image/webp,image/heic";
+
+function parseDate(dateStr: string) {
+  const num = Number(dateStr);
+  return isNaN(num) ? new Date(dateStr) : new Date(num);
+}
+
+function formatDateForInput(dateStr: string): string {
+  return parseDate(dateStr).toISOString().slice(0, 10);
+}
+
+function formatDay(dateStr: string) {
+  return parseDate(dateStr).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// ============================================
+// Main Page
+// ============================================
+
+export default function EventGroupPage() {
+  const params = useParams();
+  const groupId = params.id as string;
+  const router = useRouter();
+  const { canEdit } = useAuth();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isAddingSessions, setIsAddingSessions] = useState(false);
+  const [bracketGame, setBracketGame] = useState<Session | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data, loading, refetch } = useQuery<{ eventGroup: EventGroupDetail | null }>(GET_EVENT_GROUP, {
+    variables: { id: groupId },
+  });
+  const [deleteEventGroup] = useMutation(DELETE_EVENT_GROUP);
+  const [removeEventFromGroup] = useMutation(REMOVE_EVENT_FROM_GROUP);
+  const [generateUploadUrl] = useMutation<{
+    generateEventGroupDocumentUploadUrl: { uploadUrl: string; key: string };
+  }>(GENERATE_EVENT_GROUP_DOCUMENT_UPLOAD_URL);
+  const [addDocument] = useMutation(ADD_EVENT_GROUP_DOCUMENT);
+  const [deleteDocument] = useMutation(DELETE_EVENT_GROUP_DOCUMENT);
+
+  const group = data?.eventGroup;
+
+  const handleDelete = async () => {
+    if (!group || !confirm(`Delete "${group.name}"? Its sessions are kept as standalone events.`)) return;
+    try {
+      await deleteEventGroup({ variables: { id: group.id } });
+      router.push("/events");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete tournament");
+    }
+  };
+
+  const handleRemoveSession = async (session: Session) => {
+    try {
+      await removeEventFromGroup({ variables: { eventId: session.id } });
+      refetch();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove session");
+    }
+  };
+
+  const handleUpload = async (file: File) => {
+    setUploading(true);
+    setError(null);
+    try {
+      const { data: urlData } = await generateUploadUrl({
+        variables: { eventGroupId: groupId, fileType: file.type },
+      });
+      const { uploadUrl, key } = urlData!.generateEventGroupDocumentUploadUrl;
+      const res = await fetch(uploadUrl, { method: "PUT", body: file, headers: { "Content-Type": file.type } });
+      if (!res.ok) throw new Error("Upload failed");
+      await addDocument({
+        variables: { eventGroupId: groupId, input: { key, fileName: file.name, contentType: file.type } },
+      });
+      refetch();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to upload document");
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleDeleteDocument = async (doc: GroupDocument) => {
+    if (!confirm(`Remove ${doc.fileName}?`)) return;
+    try {
+      await deleteDocument({ variables: { id: doc.id } });
+      refetch();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove document");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#6c5ce7]"></div>
+      </div>
+    );
+  }
+
+  if (!group) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-white/55">Tournament not found</p>
+        <Link href="/events" className="text-[#a78bfa] hover:text-[#c4b5fd] mt-2 inline-block">
+          Back to Events
+        </Link>
+      </div>
+    );
+  }
+
+  const sessionsById = new Map(group.events.map((e) => [e.id, e]));
+  const startLabel = formatDay(group.startDate);
+  const endLabel = formatDay(group.endDate);
+
+  return (
+    <div>
+      {/* Back Link */}
+      <Link
+        href="/events"
+        className="flex items-center text-white/55 hover:text-white transition-colors mb-4 text-sm w-fit"
+      >
+        <ArrowLeft className="w-4 h-4 mr-1" />
+        Back to Events
+      </Link>
+
+      {/* Summary */}
+      <div className="bg-white/8 backdrop-blur-xl rounded-xl border border-white/15 shadow-2xl p-6 mb-6">
+        <div className="flex items-start justify-between mb-3">
+          <div>
+            <div className="flex items-center gap-2">
+              <Trophy className="w-5 h-5 text-[#a78bfa]" />
+              <h1 className="text-2xl font-bold text-white">{group.name}</h1>
+            </div>
+            <div className="flex items-center gap-4 mt-2 text-sm text-white/55">
+              <div className="flex items-center">
+                <Calendar className="w-4 h-4 mr-1.5" />
+                {startLabel === endLabel ? startLabel : `${startLabel} - ${endLabel}`}
+              </div>
+              <span>
+                {group.events.length} {group.events.length === 1 ? "session" : "sessions"}
+              </span>
+            </div>
+          </div>
+          {canEdit && (
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setIsEditing(true)}
+                className="p-2 text-white/55 hover:text-[#a78bfa] transition-colors"
+              >
+                <Edit2 className="w-4 h-4" />
+              </button>
+              <button onClick={handleDelete} className="p-2 text-white/55 hover:text-red-500 transition-colors">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+        {group.description && <p className="text-white/70 text-sm whitespace-pre-wrap">{group.description}</p>}
+        {error && <p className="text-red-400 text-xs mt-3 bg-red-600/10 rounded-lg px-3 py-2">{error}</p>}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+        {/* Sessions */}
+        <div className="lg:col-span-2 bg-white/8 rounded-xl border border-white/8 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-white">Sessions</h2>
+            {canEdit && (
+              <button
+                onClick={() => setIsAddingSessions(true)}
+                className="flex items-center px-3 py-1.5 bg-white/8 text-white/70 rounded-lg hover:bg-white/12 hover:text-white transition-colors text-sm"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Events
+              </button>
+            )}
+          </div>
+          {group.events.length === 0 ? (
+            <p className="text-white/40 text-sm">
+              No sessions yet. Pick this tournament when creating an event, or add existing events.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {group.events.map((session) => (
+                <div
+                  key={session.id}
+                  className={`flex items-center justify-between bg-white/5 rounded-lg px-4 py-3 ${
+                    session.status === "CANCELLED" ? "opacity-60" : ""
+                  }`}
+                >
+                  <Link href={`/events/${session.id}`} className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={`px-2 py-0.5 rounded text-xs font-medium ${
+                          EVENT_TYPE_COLORS[session.type] || "bg-white/10 text-white/55"
+                        }`}
+                      >
+                        {EVENT_TYPE_LABELS[session.type] || session.type}
+                      </span>
+                      <span className="text-white font-medium truncate">{session.title}</span>
+                      {session.opponent && <span className="text-sm text-white/55">{formatOpponent(session)}</span>}
+                      {session.result && (
+                        <span className={`px-2 py-0.5 rounded text-xs font-semibold ${RESULT_COLORS[session.result]}`}>
+                          {formatScore(session)}
+                        </span>
+                      )}
+                      {session.pool && (
+                        <span className="px-2 py-0.5 rounded text-xs bg-white/10 text-white/55">{session.pool}</span>
+                      )}
+                      {session.bracketRound != null && (
+                        <span className="px-2 py-0.5 rounded text-xs bg-white/10 text-white/55">
+                          {group.bracket.find((r) => r.round === session.bracketRound)?.name ?? `Round ${session.bracketRound}`}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-4 mt-1 text-xs text-white/55">
+                      <span className="flex items-center">
+                        <Calendar className="w-3.5 h-3.5 mr-1" />
+                        {formatDay(session.date)}
+                      </span>
+                      <span className="flex items-center">
+                        <Clock className="w-3.5 h-3.5 mr-1" />
+                        {session.startTime} - {session.endTime}
+                      </span>
+                      {(session.venue || session.location) && (
+                        <span className="flex items-center">
+                          <MapPin className="w-3.5 h-3.5 mr-1" />
+                          {session.venue?.name ?? session.location}
+                        </span>
+                      )}
+                      {session.team && <span>{session.team.name}</span>}
+                    </div>
+                  </Link>
+                  {canEdit && (
+                    <div className="flex items-center gap-1 ml-3">
+                      {session.type === "GAME" && (
+                        <button
+                          onClick={() => setBracketGame(session)}
+                          className="px-2 py-1 text-xs text-white/55 hover:text-[#a78bfa] transition-colors"
+                        >
+                          Pool / Bracket
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleRemoveSession(session)}
+                        title="Remove from tournament"
+                        className="p-1.5 text-white/55 hover:text-red-500 transition-colors"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          {/* Travel Notes */}
+          <div className="bg-white/8 rounded-xl border border-white/8 p-6">
+            <h2 className="text-lg font-semibold text-white mb-3">Travel Notes</h2>
+            {group.travelNotes ? (
+              <p className="text-white/70 text-sm whitespace-pre-wrap">{group.travelNotes}</p>
+            ) : (
+              <p className="text-white/40 text-sm">No travel notes yet.</p>
+            )}
+          </div>
+
+          {/* Documents */}
+          <div className="bg-white/8 rounded-xl border border-white/8 p-6">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-lg font-semibold text-white">Documents</h2>
+              {canEdit && (
+                <>
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={uploading}
+                    className="flex items-center px-3 py-1.5 bg-white/8 text-white/70 rounded-lg hover:bg-white/12 hover:text-white transition-colors text-sm disabled:opacity-50"
+                  >
+                    <Upload className="w-4 h-4 mr-1" />
+                    {uploading ? "Uploading..." : "Upload"}
+                  </button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={DOCUMENT_TYPES}
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleUpload(file);
+                    }}
+                  />
+                </>
+              )}
+            </div>
+            {group.documents.length === 0 ? (
+              <p className="text-white/40 text-sm">Schedules, travel letters and waivers show up here.</p>
+            ) : (
+              <div className="space-y-2">
+                {group.documents.map((doc) => (
+                  <div key={doc.id} className="flex items-center justify-between text-sm">
+                    <a
+                      href={doc.url ?? undefined}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center text-white/70 hover:text-white min-w-0"
+                    >
+                      <FileText className="w-4 h-4 mr-2 shrink-0 text-[#a78bfa]" />
+                      <span className="truncate">{doc.fileName}</span>
+                    </a>
+                    {canEdit && (
+                      <button
+                        onClick={() => handleDeleteDocument(doc)}
+                        className="p-1 text-white/40 hover:text-red-500 transition-colors"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Pools */}
+      {group.pools.length > 0 && (
+        <div className="bg-white/8 rounded-xl border border-white/8 p-6 mb-6">
+          <h2 className="text-lg font-semibold text-white mb-4">Pools</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {group.pools.map((pool) => (
+              <div key={pool.name}>
+                <h3 className="text-sm font-semibold text-white/70 mb-2">{pool.name}</h3>
+                {pool.standings.length === 0 ? (
+                  <p className="text-white/40 text-xs">No teams placed yet.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-white/40 text-xs text-left">
+                        <th className="py-1 font-medium">Team</th>
+                        <th className="py-1 font-medium text-right">W-L-D</th>
+                        <th className="py-1 font-medium text-right">GD</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {pool.standings.map(({ team, record }) => (
+                        <tr key={team.id} className="border-t border-white/8 text-white/70">
+                          <td className="py-1.5">{team.name}</td>
+                          <td className="py-1.5 text-right">
+                            {record.wins}-{record.losses}-{record.draws}
+                          </td>
+                          <td className="py-1.5 text-right">
+                            {record.goalDifferential > 0 ? `+${record.goalDifferential}` : record.goalDifferential}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Bracket */}
+      {group.bracket.length > 0 && (
+        <div className="bg-white/8 rounded-xl border border-white/8 p-6 mb-6">
+          <h2 className="text-lg font-semibold text-white mb-4">Bracket</h2>
+          <div className="flex gap-4 overflow-x-auto">
+            {group.bracket.map((round) => (
+              <div key={round.round} className="min-w-[200px] flex-1">
+                <h3 className="text-xs text-white/40 uppercase tracking-wider mb-2">{round.name}</h3>
+                <div className="space-y-2">
+                  {round.games.map(({ id }) => {
+                    const game = sessionsById.get(id);
+                    if (!game) return null;
+                    return (
+                      <Link
+                        key={id}
+                        href={`/events/${id}`}
+                        className="block bg-white/5 rounded-lg px-3 py-2 hover:bg-white/10 transition-colors"
+                      >
+                        <p className="text-sm text-white truncate">
+                          {game.team?.name ?? game.title} {formatOpponent(game)}
+                        </p>
+                        <p className="text-xs text-white/40 mt-0.5">
+                          {game.result ? formatScore(game) : `${formatDay(game.date)} · ${game.startTime}`}
+                        </p>
+                      </Link>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {isEditing && (
+        <EditGroupModal
+          group={group}
+          onClose={() => setIsEditing(false)}
+          onSuccess={() => {
+            setIsEditing(false);
+            refetch();
+          }}
+        />
+      )}
+
+      {isAddingSessions && (
+        <AddSessionsModal
+          group={group}
+          onClose={() => setIsAddingSessions(false)}
+          onSuccess={() => {
+            setIsAddingSessions(false);
+            refetch();
+          }}
+        />
+      )}
+
+      {bracketGame && (
+        <BracketModal
+          game={bracketGame}
+          onClose={() => setBracketGame(null)}
+          onSuccess={() => {
+            setBracketGame(null);
+            refetch();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// ============================================
+// EditGroupModal
+// ============================================
+
+const inputClass =
+  "w-full px-4 py-2 bg-white/15 border border-white/25 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-[#6c5ce7] placeholder:text-white/35";
+
+function EditGroupModal({
+  group,
+  onClose,
+  onSuccess,
+}: {
+  group: EventGroupDetail;
+  onClose: () => void;
+  onSuccess: () => void;
+}) {
+  const [name, setName] = useState(group.name);
+  const [startDate, setStartDate] = useState(formatDateForInput(group.startDate));
+  const [endDate, setEndDate] = useState(formatDateForInput(group.endDate));
+  const [description, setDescription] = useState(group.description ?? "");
+  const [travelNotes, setTravelNotes] = useState(group.travelNotes ?? "");
+  const [error, setError] = useState<string | null>(null);
+  const [updateEventGroup, { loading }] = useMutation(UPDATE_EVENT_GROUP);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await updateEventGroup({
+        variables: {
+          id: group.id,
+          input: { name, startDate, endDate, description: description || null, travelNotes: travelNotes || null },
+        },
+      });
+      onSuccess();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update tournament");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white/8 backdrop-blur-xl rounded-xl w-full max-w-md p-6 border border-white/15 shadow-2xl">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-white">Edit Tournament</h3>
+          <button onClick={onClose} className="text-white/55 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-1">Name</label>
+            <input type="text" required value={name} onChange={(e) => setName(e.target.value)} maxLength={200} className={inputClass} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-1">Start Date</label>
+              <input type="date" required value={startDate} onChange={(e) => setStartDate(e.target.value)} className={`${inputClass} [color-scheme:dark]`} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-1">End Date</label>
+              <input
+                type="date"
+                required
+                value={endDate}
+                min={startDate || undefined}
+                onChange={(e) => setEndDate(e.target.value)}
+                className={`${inputClass} [color-scheme:dark]`}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-1">Description</label>
+            <textarea value={description} onChange={(e) => setDescription(e.target.value)} maxLength={2000} rows={2} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-1">Travel Notes</label>
+            <textarea value={travelNotes} onChange={(e) => setTravelNotes(e.target.value)} maxLength={5000} rows={4} className={inputClass} />
+          </div>
+
+          {error && <p className="text-red-400 text-xs bg-red-600/10 rounded-lg px-3 py-2">{error}</p>}
+
+          <div className="flex gap-3 pt-1">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 bg-white/8 text-white rounded-lg hover:bg-white/12 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-4 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5a4dd4] transition-colors text-sm font-medium disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// AddSessionsModal
+// ============================================
+
+function AddSessionsModal({
+  group,
+  onClose,
+  onSuccess,
+}: {
+  group: EventGroupDetail;
+  onClose: () => void;
+  onSuccess: () => void;
+}) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Event.date is noon UTC, so the tournament's own dates bound the range
+  const start = parseDate(group.startDate);
+  const end = parseDate(group.endDate);
+  const { data, loading } = useQuery<{ events: Session[] }>(GET_EVENTS, {
+    variables: {
+      organizationId: group.organizationId,
+      startDate: new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate())).toISOString(),
+      endDate: new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), end.getUTCDate(), 23, 59, 59, 999)).toISOString(),
+      limit: 100,
+    },
+    fetchPolicy: "network-only",
+  });
+  const [addEventsToGroup, { loading: saving }] = useMutation(ADD_EVENTS_TO_GROUP);
+
+  const candidates = (data?.events ?? []).filter((e) => e.eventGroup?.id !== group.id);
+
+  const toggle = (id: string) =>
+    setSelected((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]));
+
+  const handleSave = async () => {
+    setError(null);
+    try {
+      await addEventsToGroup({ variables: { eventGroupId: group.id, eventIds: selected } });
+      onSuccess();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add events");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white/8 backdrop-blur-xl rounded-xl w-full max-w-lg p-6 border border-white/15 shadow-2xl">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-bold text-white">Add Events</h3>
+          <button onClick={onClose} className="text-white/55 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-white/55 text-sm mb-4">Events scheduled during the tournament that aren&apos;t part of it yet.</p>
+        <div className="max-h-80 overflow-y-auto space-y-1 mb-4">
+          {loading ? (
+            <p className="text-white/40 text-sm">Loading...</p>
+          ) : candidates.length === 0 ? (
+            <p className="text-white/40 text-sm">No other events on these dates.</p>
+          ) : (
+            candidates.map((event) => (
+              <label
+                key={event.id}
+                className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-white/5 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(event.id)}
+                  onChange={() => toggle(event.id)}
+                  className="accent-[#6c5ce7]"
+                />
+                <div className="min-w-0">
+                  <p className="text-sm text-white truncate">
+                    {event.title}
+                    {event.eventGroup && <span className="text-white/40"> (in {event.eventGroup.name})</span>}
+                  </p>
+                  <p className="text-xs text-white/40">
+                    {formatDay(event.date)} · {event.startTime}
+                    {event.team && ` · ${event.team.name}`}
+                  </p>
+                </div>
+              </label>
+            ))
+          )}
+        </div>
+
+        {error && <p className="text-red-400 text-xs mb-4 bg-red-600/10 rounded-lg px-3 py-2">{error}</p>}
+
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-white/8 text-white rounded-lg hover:bg-white/12 transition-colors text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || selected.length === 0}
+            className="flex-1 px-4 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5a4dd4] transition-colors text-sm font-medium disabled:opacity-50"
+          >
+            Add {selected.length > 0 ? selected.length : ""}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// BracketModal
+// ============================================
+
+function BracketModal({
+  game,
+  onClose,
+  onSuccess,
+}: {
+  game: Session;
+  onClose: () => void;
+  onSuccess: () => void;
+}) {
+  const [stage, setStage] = useState<"NONE" | "POOL" | "BRACKET">(
+    game.pool ? "POOL" : game.bracketRound != null ? "BRACKET" : "NONE"
+  );
+  const [pool, setPool] = useState(game.pool ?? "");
+  const [round, setRound] = useState(game.bracketRound?.toString() ?? "1");
+  const [slot, setSlot] = useState(game.bracketSlot?.toString() ?? "");
+  const [error, setError] = useState<string | null>(null);
+  const [setGameBracket, { loading }] = useMutation(SET_GAME_BRACKET);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await setGameBracket({
+        variables: {
+          eventId: game.id,
+          input: {
+            pool: stage === "POOL" ? pool : null,
+            bracketRound: stage === "BRACKET" ? parseInt(round, 10) : null,
+            bracketSlot: stage === "BRACKET" && slot ? parseInt(slot, 10) : null,
+          },
+        },
+      });
+      onSuccess();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update game");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white/8 backdrop-blur-xl rounded-xl w-full max-w-sm p-6 border border-white/15 shadow-2xl">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-bold text-white">Pool / Bracket</h3>
+          <button onClick={onClose} className="text-white/55 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-white/55 text-sm mb-4">
+          {game.title} {formatOpponent(game)}
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="flex gap-2">
+            {(["NONE", "POOL", "BRACKET"] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setStage(option)}
+                className={`flex-1 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                  stage === option ? "bg-[#6c5ce7] text-white" : "bg-white/8 text-white/55 hover:text-white"
+                }`}
+              >
+                {option === "NONE" ? "None" : option === "POOL" ? "Pool play" : "Knockout"}
+              </button>
+            ))}
+          </div>
+          {stage === "POOL" && (
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-1">Pool</label>
+              <input
+                type="text"
+                required
+                value={pool}
+                onChange={(e) => setPool(e.target.value)}
+                maxLength={50}
+                className={inputClass}
+                placeholder="e.g., Pool A"
+              />
+            </div>
+          )}
+          {stage === "BRACKET" && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-white/70 mb-1">Round</label>
+                <input
+                  type="number"
+                  required
+                  min={1}
+                  max={10}
+                  value={round}
+                  onChange={(e) => setRound(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-white/70 mb-1">Slot</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={128}
+                  value={slot}
+                  onChange={(e) => setSlot(e.target.value)}
+                  className={inputClass}
+                  placeholder="Optional"
+                />
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-red-400 text-xs bg-red-600/10 rounded-lg px-3 py-2">{error}</p>}
+
+          <div className="flex gap-3 pt-1">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 bg-white/8 text-white rounded-lg hover:bg-white/12 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-4 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5a4dd4] transition-colors text-sm font-medium disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
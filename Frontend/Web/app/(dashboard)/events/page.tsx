@@ -2,6 +2,7 @@
 
 import { useState, useRef, useEffect, useMemo } from "react";
 import { useQuery, useMutation, useApolloClient } from "@apollo/client/react";
+import { CombinedGraphQLErrors } from "@apollo/client";
 import { useAuth } from "@/contexts/AuthContext";
 import {
   GET_EVENTS,
@@ -9,17 +10,28 @@ import {
   GET_TEAMS,
   GET_ORGANIZATION_VENUES,
   GET_ORGANIZATION_USERS,
+  GET_OPPONENTS,
+  GET_EVENT_GROUPS,
+  GET_EVENT_TEMPLATES,
   EXPORT_CALENDAR,
+  GET_MY_CALENDAR_FEEDS,
+  CREATE_CALENDAR_FEED,
+  REVOKE_CALENDAR_FEED,
   CREATE_EVENT,
   CREATE_RECURRING_EVENT,
   UPDATE_EVENT,
   DELETE_EVENT,
   DELETE_RECURRING_EVENT,
+  UPDATE_RECURRING_EVENT,
+  CANCEL_EVENT,
+  RESCHEDULE_EVENT,
   CREATE_VENUE,
   ADD_ATHLETE_TO_EVENT,
   REMOVE_ATHLETE_FROM_EVENT,
   EXCLUDE_ATHLETE_FROM_EVENT,
   UNEXCLUDE_ATHLETE_FROM_EVENT,
+  CREATE_EVENT_GROUP,
+  IMPORT_SCHEDULE,
 } from "@/lib/graphql";
 import {
   Plus,
@@ -41,8 +53,17 @@ import {
   Building2,
   UserMinus,
   UserPlus,
+  Rss,
+  Copy,
+  Check,
+  CalendarX,
+  AlertTriangle,
+  Trophy,
+  Upload,
+  FileText,
 } from "lucide-react";
 import Link from "next/link";
+import { formatOpponent, formatScore, RESULT_COLORS } from "@/lib/utils";
 
 // ============================================
 // Types
@@ -74,28 +95,82 @@ type TeamMemberBasic = {
 type Event = {
   id: string;
   title: string;
-  type: "PRACTICE" | "EVENT" | "MEETING" | "REST";
+  type: "PRACTICE" | "EVENT" | "MEETING" | "REST" | "GAME";
   date: string;
   endDate?: string;
   startTime: string;
   endTime: string;
   location?: string;
   description?: string;
+  status: EventStatus;
+  statusReason?: string | null;
   venue?: Venue | null;
   team?: { id: string; name: string };
   participatingTeams: { id: string; name: string }[];
   checkIns: { id: string; status: string }[];
   recurringEvent?: { id: string } | null;
+  opponent?: { id: string; name: string } | null;
+  homeAway?: HomeAway | null;
+  teamScore?: number | null;
+  opponentScore?: number | null;
+  result?: "WIN" | "LOSS" | "DRAW" | null;
+  eventGroup?: { id: string; name: string } | null;
   // included/excluded not fetched in list — only in detail view
   includedAthletes?: AthleteUser[];
   excludedAthletes?: AthleteUser[];
+  conflicts?: ScheduleConflict[];
 };
 
-type TabKey = "PRACTICE" | "MEETING" | "EVENT";
+type EventGroupSummary = {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  events: { id: string }[];
+};
+
+type EventTemplateOption = {
+  id: string;
+  name: string;
+  title: string;
+  type: string;
+  durationMinutes: number;
+  location?: string | null;
+  description?: string | null;
+  team?: { id: string; name: string } | null;
+  venue?: { id: string; name: string } | null;
+};
+
+type ScheduleConflict = {
+  reason: "VENUE" | "COACH";
+  event: { id: string; title: string; date: string; startTime: string; endTime: string };
+};
+
+type EventStatus = "SCHEDULED" | "CANCELLED" | "POSTPONED";
+
+type HomeAway = "HOME" | "AWAY" | "NEUTRAL";
+
+type EventUpdateData = {
+  title: string;
+  type: string;
+  date: string;
+  endDate: string;
+  isMultiDay: boolean;
+  startTime: string;
+  endTime: string;
+  location: string;
+  description: string;
+  venueId: string;
+  opponentId: string;
+  homeAway: HomeAway | "";
+};
+
+type TabKey = "PRACTICE" | "GAME" | "MEETING" | "EVENT";
 type TimeFilter = "TODAY" | "WEEK" | "MONTH" | "ALL" | "CUSTOM";
 
 const TAB_CONFIG: { key: TabKey; label: string; defaultFilter: TimeFilter }[] = [
   { key: "PRACTICE", label: "Practices", defaultFilter: "WEEK" },
+  { key: "GAME", label: "Games", defaultFilter: "MONTH" },
   { key: "MEETING", label: "Meetings", defaultFilter: "WEEK" },
   { key: "EVENT", label: "Events", defaultFilter: "WEEK" },
 ];
@@ -110,21 +185,44 @@ const TIME_FILTERS: { value: TimeFilter; label: string }[] = [
 
 const EVENT_TYPE_COLORS: Record<string, string> = {
   PRACTICE: "bg-green-600/20 text-green-400",
+  GAME: "bg-orange-600/20 text-orange-400",
   EVENT: "bg-red-600/20 text-red-400",
   MEETING: "bg-yellow-600/20 text-yellow-400",
 };
 
 const EVENT_TYPE_LABELS: Record<string, string> = {
   PRACTICE: "Practice",
+  GAME: "Game",
   EVENT: "Tournament",
   MEETING: "Meeting",
 };
 
+const EVENT_STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  CANCELLED: { label: "Cancelled", className: "bg-red-600/15 text-red-400" },
+  POSTPONED: { label: "Postponed", className: "bg-yellow-600/15 text-yellow-400" },
+};
+
+// The server rejects double-bookings with code SCHEDULE_CONFLICT; returns its
+// message so callers can ask whether to book anyway.
+function scheduleConflictMessage(err: unknown): string | null {
+  if (!CombinedGraphQLErrors.is(err)) return null;
+  const conflict = err.errors.find((e) => e.extensions?.code === "SCHEDULE_CONFLICT");
+  return conflict ? conflict.message : null;
+}
+
 function parseDate(dateStr: string) {
   const num = Number(dateStr);
   return isNaN(num) ? new Date(dateStr) : new Date(num);
 }
 
+function formatGroupDates(group: { startDate: string; endDate: string }) {
+  const fmt = (d: string) =>
+    parseDate(d).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+  const start = fmt(group.startDate);
+  const end = fmt(group.endDate);
+  return start === end ? start : `${start} - ${end}`;
+}
+
 function getDateRange(filter: TimeFilter): { start: Date; end: Date } | null {
   if (filter === "ALL" || filter === "CUSTOM") return null;
   const now = new Date();
@@ -166,11 +264,17 @@ export default function Events() {
     (m) => m.organization.id === selectedOrganizationId
   )?.organization.name ?? "athletiq";
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [isTournamentModalOpen, setIsTournamentModalOpen] = useState(false);
   const [editingEvent, setEditingEvent] = useState<Event | null>(null);
   const [isExporting, setIsExporting] = useState(false);
+  const [isSubscribeModalOpen, setIsSubscribeModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [deleteConfirmEvent, setDeleteConfirmEvent] = useState<Event | null>(null);
   const [deleteDialogEvent, setDeleteDialogEvent] = useState<Event | null>(null);
   const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [statusEvent, setStatusEvent] = useState<Event | null>(null);
+  const [pendingSeriesEdit, setPendingSeriesEdit] = useState<{ event: Event; data: EventUpdateData } | null>(null);
+  const [seriesEditError, setSeriesEditError] = useState<string | null>(null);
 
   // Tab state
   const [activeTab, setActiveTab] = useState<TabKey>("PRACTICE");
@@ -181,8 +285,9 @@ export default function Events() {
   const [customStart, setCustomStart] = useState("");
   const [customEnd, setCustomEnd] = useState("");
 
-  // Team grouping
+  // Team or tournament grouping
   const [groupByTeam, setGroupByTeam] = useState(false);
+  const [groupByTournament, setGroupByTournament] = useState(false);
   const [teamFilter, setTeamFilter] = useState<string>("ALL");
 
   // Pagination
@@ -258,6 +363,15 @@ export default function Events() {
     skip: !selectedOrganizationId,
   });
 
+  const { data: eventGroupsData, refetch: refetchEventGroups } = useQuery<{ eventGroups: EventGroupSummary[] }>(
+    GET_EVENT_GROUPS,
+    {
+      variables: { organizationId: selectedOrganizationId, upcoming: true },
+      skip: !selectedOrganizationId,
+    }
+  );
+  const upcomingGroups = eventGroupsData?.eventGroups ?? [];
+
   const apolloClient = useApolloClient();
 
   const handleExportCalendar = async () => {
@@ -290,11 +404,12 @@ export default function Events() {
   const [updateEvent] = useMutation<any>(UPDATE_EVENT);
   const [deleteEvent] = useMutation<any>(DELETE_EVENT);
   const [deleteRecurringEvent] = useMutation<any>(DELETE_RECURRING_EVENT);
+  const [updateRecurringEvent] = useMutation(UPDATE_RECURRING_EVENT);
 
   // Server returns exactly the current page, already filtered and sorted
   const paginatedEvents: Event[] = data?.events || [];
   const allTeams: { id: string; name: string; members?: TeamMemberBasic[] }[] = teamsData?.teams || [];
-  const eventCounts = countData?.eventsCount ?? { PRACTICE: 0, MEETING: 0, EVENT: 0 };
+  const eventCounts = countData?.eventsCount ?? { PRACTICE: 0, GAME: 0, MEETING: 0, EVENT: 0 };
 
   // Total count for current tab (used for pagination math)
   const totalCount = eventCounts[activeTab] ?? 0;
@@ -312,11 +427,33 @@ export default function Events() {
     .filter((e) => parseDate(e.date) < today)
     .sort((a, b) => parseDate(b.date).getTime() - parseDate(a.date).getTime());
 
-  // Grouped events by team (when groupByTeam is enabled) — operates on current page
+  // Grouped events by team or tournament — operates on current page
   const groupedEvents = useMemo(() => {
+    if (groupByTournament) {
+      const groups = new Map<string, { label: string; href?: string; events: Event[] }>();
+      for (const event of paginatedEvents) {
+        const key = event.eventGroup?.id ?? "__no_group__";
+        if (!groups.has(key)) {
+          groups.set(
+            key,
+            event.eventGroup
+              ? { label: event.eventGroup.name, href: `/events/groups/${event.eventGroup.id}`, events: [] }
+              : { label: "Not in a tournament", events: [] }
+          );
+        }
+        groups.get(key)!.events.push(event);
+      }
+      // Tournaments in order of their first session, standalone events last
+      const firstDate = (events: Event[]) => Math.min(...events.map((e) => parseDate(e.date).getTime()));
+      return Array.from(groups.entries()).sort((a, b) => {
+        if (a[0] === "__no_group__") return 1;
+        if (b[0] === "__no_group__") return -1;
+        return firstDate(a[1].events) - firstDate(b[1].events);
+      });
+    }
     if (!groupByTeam) return null;
 
-    const groups = new Map<string, { teamName: string; events: Event[] }>();
+    const groups = new Map<string, { label: string; href?: string; events: Event[] }>();
 
     for (const event of paginatedEvents) {
       // An event belongs to its primary team, or each of its participating teams
@@ -335,11 +472,11 @@ export default function Events() {
       if (teamEntries.length === 0) {
         // Organization-wide event (no team)
         const key = "__org_wide__";
-        if (!groups.has(key)) groups.set(key, { teamName: "Organization-wide", events: [] });
+        if (!groups.has(key)) groups.set(key, { label: "Organization-wide", events: [] });
         groups.get(key)!.events.push(event);
       } else {
         for (const team of teamEntries) {
-          if (!groups.has(team.id)) groups.set(team.id, { teamName: team.name, events: [] });
+          if (!groups.has(team.id)) groups.set(team.id, { label: team.name, events: [] });
           groups.get(team.id)!.events.push(event);
         }
       }
@@ -349,30 +486,31 @@ export default function Events() {
     return Array.from(groups.entries()).sort((a, b) => {
       if (a[0] === "__org_wide__") return 1;
       if (b[0] === "__org_wide__") return -1;
-      return a[1].teamName.localeCompare(b[1].teamName);
+      return a[1].label.localeCompare(b[1].label);
     });
-  }, [groupByTeam, paginatedEvents]);
+  }, [groupByTeam, groupByTournament, paginatedEvents]);
 
   // Edit handler
   const handleEditClick = (event: Event) => {
     setEditingEvent(event);
   };
 
-  const handleUpdateEvent = async (data: {
-    title: string;
-    type: string;
-    date: string;
-    endDate: string;
-    isMultiDay: boolean;
-    startTime: string;
-    endTime: string;
-    location: string;
-    description: string;
-    venueId: string;
-  }) => {
+  const handleUpdateEvent = async (data: EventUpdateData) => {
     if (!editingEvent) return;
-    try {
-      await updateEvent({
+    // Occurrences of a series ask which occurrences the edit applies to. Moving
+    // the date or type only makes sense for the one occurrence.
+    if (
+      editingEvent.recurringEvent &&
+      !data.isMultiDay &&
+      data.type === editingEvent.type &&
+      data.date === formatDateForInput(editingEvent.date)
+    ) {
+      setSeriesEditError(null);
+      setPendingSeriesEdit({ event: editingEvent, data });
+      return;
+    }
+    const save = (allowConflicts: boolean) =>
+      updateEvent({
         variables: {
           id: editingEvent.id,
           title: data.title,
@@ -384,8 +522,18 @@ export default function Events() {
           location: data.location || null,
           description: data.description || null,
           venueId: data.venueId || null,
+          ...(data.type === "GAME" && { opponentId: data.opponentId || null, homeAway: data.homeAway || null }),
+          allowConflicts,
         },
       });
+    try {
+      try {
+        await save(false);
+      } catch (error) {
+        const conflict = scheduleConflictMessage(error);
+        if (!conflict || !confirm(`${conflict}\n\nSave anyway?`)) throw error;
+        await save(true);
+      }
       setEditingEvent(null);
       refetch();
       refetchCount();
@@ -394,6 +542,44 @@ export default function Events() {
     }
   };
 
+  const handleSeriesEdit = async (scope: "THIS" | "THIS_AND_FOLLOWING" | "ALL") => {
+    if (!pendingSeriesEdit) return;
+    const { event, data } = pendingSeriesEdit;
+    setSeriesEditError(null);
+    const save = (allowConflicts: boolean) =>
+      updateRecurringEvent({
+        variables: {
+          id: event.recurringEvent!.id,
+          scope,
+          fromEventId: event.id,
+          changes: {
+            title: data.title,
+            startTime: data.startTime,
+            endTime: data.endTime,
+            location: data.location || null,
+            description: data.description || null,
+            venueId: data.venueId || null,
+          },
+          allowConflicts,
+        },
+      });
+    try {
+      try {
+        await save(false);
+      } catch (error) {
+        const conflict = scheduleConflictMessage(error);
+        if (!conflict || !confirm(`${conflict}\n\nSave anyway?`)) throw error;
+        await save(true);
+      }
+      setPendingSeriesEdit(null);
+      setEditingEvent(null);
+      refetch();
+      refetchCount();
+    } catch (err) {
+      setSeriesEditError(err instanceof Error ? err.message : "Failed to update series");
+    }
+  };
+
   // Delete handlers
   const handleDeleteClick = (event: Event) => {
     setDeleteError(null);
@@ -464,6 +650,34 @@ export default function Events() {
             <Download className="w-4 h-4 mr-1.5" />
             {isExporting ? "Exporting..." : "Export .ics"}
           </button>
+          <button
+            onClick={() => setIsSubscribeModalOpen(true)}
+            className="flex items-center px-3 py-2 bg-white/8 text-white/70 rounded-lg hover:bg-white/12 hover:text-white transition-colors text-sm"
+            title="Get a calendar URL that stays up to date"
+          >
+            <Rss className="w-4 h-4 mr-1.5" />
+            Subscribe
+          </button>
+          {canEdit && (
+            <button
+              onClick={() => setIsImportModalOpen(true)}
+              className="flex items-center px-3 py-2 bg-white/8 text-white/70 rounded-lg hover:bg-white/12 hover:text-white transition-colors text-sm"
+              title="Import a league schedule from an .ics or CSV file"
+            >
+              <Upload className="w-4 h-4 mr-1.5" />
+              Import Schedule
+            </button>
+          )}
+          {canEdit && (
+            <button
+              onClick={() => setIsTournamentModalOpen(true)}
+              className="flex items-center px-3 py-2 bg-white/8 text-white/70 rounded-lg hover:bg-white/12 hover:text-white transition-colors text-sm"
+              title="Group sessions across days and venues"
+            >
+              <Trophy className="w-4 h-4 mr-1.5" />
+              New Tournament
+            </button>
+          )}
           {canEdit && (
             <button
               onClick={() => setIsCreateModalOpen(true)}
@@ -476,6 +690,28 @@ export default function Events() {
         </div>
       </div>
 
+      {/* Upcoming tournaments */}
+      {upcomingGroups.length > 0 && (
+        <div className="flex gap-2 mb-6 overflow-x-auto">
+          {upcomingGroups.map((group) => (
+            <Link
+              key={group.id}
+              href={`/events/groups/${group.id}`}
+              className="shrink-0 bg-white/8 rounded-xl border border-white/8 hover:border-white/10 px-4 py-3 transition-colors"
+            >
+              <div className="flex items-center gap-2">
+                <Trophy className="w-4 h-4 text-[#a78bfa]" />
+                <span className="text-sm font-medium text-white">{group.name}</span>
+              </div>
+              <p className="text-xs text-white/40 mt-1">
+                {formatGroupDates(group)} &middot; {group.events.length}{" "}
+                {group.events.length === 1 ? "session" : "sessions"}
+              </p>
+            </Link>
+          ))}
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="flex gap-1 mb-4">
         {TAB_CONFIG.map(({ key, label }) => {
@@ -562,7 +798,7 @@ export default function Events() {
 
         {/* Group by Team Toggle */}
         <button
-          onClick={() => setGroupByTeam((g) => !g)}
+          onClick={() => { setGroupByTeam((g) => !g); setGroupByTournament(false); }}
           className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
             groupByTeam
               ? "bg-[#a855f7]/15 text-[#a78bfa] border border-[#6c5ce7]/30"
@@ -573,13 +809,26 @@ export default function Events() {
           Group by Team
         </button>
 
+        {/* Group by Tournament Toggle */}
+        <button
+          onClick={() => { setGroupByTournament((g) => !g); setGroupByTeam(false); }}
+          className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+            groupByTournament
+              ? "bg-[#a855f7]/15 text-[#a78bfa] border border-[#6c5ce7]/30"
+              : "bg-white/8 text-white/40 border border-white/8 hover:text-white/75"
+          }`}
+        >
+          <Trophy className="w-3.5 h-3.5" />
+          Group by Tournament
+        </button>
+
         <span className="text-white/30 text-xs ml-2">
           {totalCount} {totalCount === 1 ? "event" : "events"}
         </span>
       </div>
 
       {/* Event List */}
-      {groupByTeam && groupedEvents ? (
+      {groupedEvents ? (
         <div className="space-y-6">
           {groupedEvents.map(([teamId, group]) => {
             const groupUpcoming = group.events
@@ -593,8 +842,18 @@ export default function Events() {
               <div key={teamId}>
                 <div className="flex items-center gap-3 mb-3">
                   <div className="flex items-center gap-2">
-                    <Users className="w-4 h-4 text-[#a78bfa]" />
-                    <h2 className="text-sm font-semibold text-white">{group.teamName}</h2>
+                    {groupByTournament ? (
+                      <Trophy className="w-4 h-4 text-[#a78bfa]" />
+                    ) : (
+                      <Users className="w-4 h-4 text-[#a78bfa]" />
+                    )}
+                    {group.href ? (
+                      <Link href={group.href} className="text-sm font-semibold text-white hover:text-[#a78bfa]">
+                        {group.label}
+                      </Link>
+                    ) : (
+                      <h2 className="text-sm font-semibold text-white">{group.label}</h2>
+                    )}
                   </div>
                   <span className="text-xs text-white/40">
                     {group.events.length} {group.events.length === 1 ? "event" : "events"}
@@ -604,7 +863,7 @@ export default function Events() {
                 <div className="space-y-2">
                   {groupUpcoming.map((event) => (
                     <Link key={event.id} href={`/events/${event.id}`}>
-                      <EventCard event={event} canEdit={canEdit} onEdit={handleEditClick} onDelete={handleDeleteClick} dimmed={false} />
+                      <EventCard event={event} canEdit={canEdit} onEdit={handleEditClick} onDelete={handleDeleteClick} onChangeStatus={setStatusEvent} dimmed={false} />
                     </Link>
                   ))}
 
@@ -618,7 +877,7 @@ export default function Events() {
 
                   {groupPast.map((event) => (
                     <Link key={event.id} href={`/events/${event.id}`}>
-                      <EventCard event={event} canEdit={canEdit} onEdit={handleEditClick} onDelete={handleDeleteClick} dimmed />
+                      <EventCard event={event} canEdit={canEdit} onEdit={handleEditClick} onDelete={handleDeleteClick} onChangeStatus={setStatusEvent} dimmed />
                     </Link>
                   ))}
                 </div>
@@ -637,7 +896,7 @@ export default function Events() {
         <div className="space-y-2">
           {upcoming.map((event) => (
             <Link key={event.id} href={`/events/${event.id}`}>
-              <EventCard event={event} canEdit={canEdit} onEdit={handleEditClick} onDelete={handleDeleteClick} dimmed={false} />
+              <EventCard event={event} canEdit={canEdit} onEdit={handleEditClick} onDelete={handleDeleteClick} onChangeStatus={setStatusEvent} dimmed={false} />
             </Link>
           ))}
 
@@ -651,7 +910,7 @@ export default function Events() {
 
           {past.map((event) => (
             <Link key={event.id} href={`/events/${event.id}`}>
-              <EventCard event={event} canEdit={canEdit} onEdit={handleEditClick} onDelete={handleDeleteClick} dimmed />
+              <EventCard event={event} canEdit={canEdit} onEdit={handleEditClick} onDelete={handleDeleteClick} onChangeStatus={setStatusEvent} dimmed />
             </Link>
           ))}
 
@@ -718,6 +977,18 @@ export default function Events() {
         />
       )}
 
+      {/* Create Tournament Modal */}
+      {isTournamentModalOpen && (
+        <TournamentModal
+          organizationId={selectedOrganizationId!}
+          onClose={() => setIsTournamentModalOpen(false)}
+          onSuccess={() => {
+            setIsTournamentModalOpen(false);
+            refetchEventGroups();
+          }}
+        />
+      )}
+
       {/* Edit Event Modal */}
       {editingEvent && (
         <EventModal
@@ -729,6 +1000,41 @@ export default function Events() {
         />
       )}
 
+      {/* Cancel / Postpone / Reschedule Modal */}
+      {statusEvent && (
+        <EventStatusModal
+          event={statusEvent}
+          onClose={() => setStatusEvent(null)}
+          onSuccess={() => {
+            setStatusEvent(null);
+            refetch();
+          }}
+        />
+      )}
+
+      {/* League Schedule Import Modal */}
+      {isImportModalOpen && (
+        <ImportScheduleModal
+          organizationId={selectedOrganizationId!}
+          teams={allTeams}
+          onClose={() => setIsImportModalOpen(false)}
+          onSuccess={() => {
+            refetch();
+            refetchCount();
+            refetchVenues();
+          }}
+        />
+      )}
+
+      {/* Calendar Subscription Modal */}
+      {isSubscribeModalOpen && (
+        <SubscribeCalendarModal
+          organizationId={selectedOrganizationId!}
+          teams={allTeams}
+          onClose={() => setIsSubscribeModalOpen(false)}
+        />
+      )}
+
       {/* Delete Single Event Modal */}
       {deleteConfirmEvent && (
         <div className="fixed inset-0 backdrop-blur-sm flex items-center justify-center z-50">
@@ -769,6 +1075,60 @@ export default function Events() {
         </div>
       )}
 
+      {/* Edit Recurring Event Scope Modal */}
+      {pendingSeriesEdit && (
+        <div className="fixed inset-0 backdrop-blur-sm flex items-center justify-center z-[60]">
+          <div className="bg-white/8 backdrop-blur-xl rounded-xl w-full max-w-sm p-6 border border-white/15 shadow-2xl">
+            <div className="flex items-center gap-3 mb-3">
+              <div className="w-10 h-10 rounded-full bg-[#6c5ce7]/15 flex items-center justify-center shrink-0">
+                <Repeat className="w-5 h-5 text-[#a78bfa]" />
+              </div>
+              <h3 className="text-lg font-bold text-white">Edit Recurring Event</h3>
+            </div>
+            <p className="text-white/55 text-sm mb-6">
+              <span className="text-white font-medium">&ldquo;{pendingSeriesEdit.event.title}&rdquo;</span> is part
+              of a recurring series. Which events should change? Events that already have check-ins are left as they are.
+            </p>
+            {seriesEditError && (
+              <p className="text-red-400 text-xs mb-4 bg-red-600/10 rounded-lg px-3 py-2">{seriesEditError}</p>
+            )}
+            <div className="space-y-3">
+              <button
+                type="button"
+                onClick={() => handleSeriesEdit("THIS")}
+                className="w-full px-4 py-2 bg-white/8 text-white rounded-lg hover:bg-white/12 transition-colors text-sm text-left"
+              >
+                <span className="font-medium">This event only</span>
+                <span className="block text-white/40 text-xs mt-0.5">Later series edits won&apos;t override it</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => handleSeriesEdit("THIS_AND_FOLLOWING")}
+                className="w-full px-4 py-2 bg-white/8 text-white rounded-lg hover:bg-white/12 transition-colors text-sm text-left"
+              >
+                <span className="font-medium">This and following events</span>
+                <span className="block text-white/40 text-xs mt-0.5">Earlier events keep their current details</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => handleSeriesEdit("ALL")}
+                className="w-full px-4 py-2 bg-white/8 text-white rounded-lg hover:bg-white/12 transition-colors text-sm text-left"
+              >
+                <span className="font-medium">All events in series</span>
+                <span className="block text-white/40 text-xs mt-0.5">Every occurrence without check-ins</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => setPendingSeriesEdit(null)}
+                className="w-full px-4 py-2 text-white/55 hover:text-white transition-colors text-sm"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Delete Recurring Event Modal */}
       {deleteDialogEvent && (
         <div className="fixed inset-0 backdrop-blur-sm flex items-center justify-center z-50">
@@ -818,6 +1178,468 @@ export default function Events() {
   );
 }
 
+// ============================================
+// SubscribeCalendarModal
+// ============================================
+
+type CalendarFeed = {
+  id: string;
+  url: string;
+  lastAccessedAt?: string | null;
+  team?: { id: string; name: string } | null;
+};
+
+function SubscribeCalendarModal({
+  organizationId,
+  teams,
+  onClose,
+}: {
+  organizationId: string;
+  teams: { id: string; name: string }[];
+  onClose: () => void;
+}) {
+  const [teamId, setTeamId] = useState("");
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data, refetch } = useQuery<{ myCalendarFeeds: CalendarFeed[] }>(GET_MY_CALENDAR_FEEDS, {
+    variables: { organizationId },
+  });
+  const [createCalendarFeed, { loading: creating }] = useMutation(CREATE_CALENDAR_FEED);
+  const [revokeCalendarFeed] = useMutation(REVOKE_CALENDAR_FEED);
+
+  const feeds = data?.myCalendarFeeds || [];
+
+  const handleCreate = async () => {
+    setError(null);
+    try {
+      await createCalendarFeed({ variables: { organizationId, teamId: teamId || undefined } });
+      refetch();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create calendar link");
+    }
+  };
+
+  const handleRevoke = async (feed: CalendarFeed) => {
+    if (!confirm("Revoke this link? Calendars subscribed to it will stop updating.")) return;
+    setError(null);
+    try {
+      await revokeCalendarFeed({ variables: { id: feed.id } });
+      refetch();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke calendar link");
+    }
+  };
+
+  const handleCopy = async (feed: CalendarFeed) => {
+    await navigator.clipboard.writeText(feed.url);
+    setCopiedId(feed.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white/8 backdrop-blur-xl rounded-xl w-full max-w-lg p-6 border border-white/15 shadow-2xl">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-bold text-white">Subscribe to Calendar</h3>
+          <button onClick={onClose} className="text-white/55 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-white/55 text-sm mb-4">
+          Add a link to Google Calendar, Apple Calendar, or Outlook and it will keep itself up to date as events change.
+          Anyone with the link can see the schedule, so revoke it if it is shared by mistake.
+        </p>
+
+        <div className="flex gap-2 mb-4">
+          <select
+            value={teamId}
+            onChange={(e) => setTeamId(e.target.value)}
+            className="flex-1 px-3 py-2 bg-white/8 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+          >
+            <option value="">My schedule</option>
+            {teams.map((team) => (
+              <option key={team.id} value={team.id}>{team.name}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={creating}
+            className="flex items-center px-3 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5a4dd4] transition-colors text-sm disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4 mr-1.5" />
+            Get Link
+          </button>
+        </div>
+
+        {error && (
+          <p className="text-red-400 text-xs mb-4 bg-red-600/10 rounded-lg px-3 py-2">{error}</p>
+        )}
+
+        <div className="space-y-2">
+          {feeds.map((feed) => (
+            <div key={feed.id} className="px-3 py-2.5 bg-white/5 rounded-lg">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-white text-sm font-medium">{feed.team?.name ?? "My schedule"}</span>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => handleCopy(feed)}
+                    className="p-1.5 text-white/55 hover:text-white transition-colors"
+                    title="Copy link"
+                  >
+                    {copiedId === feed.id ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => handleRevoke(feed)}
+                    className="p-1.5 text-white/55 hover:text-red-500 transition-colors"
+                    title="Revoke link"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              <p className="text-white/40 text-xs truncate">{feed.url}</p>
+            </div>
+          ))}
+          {feeds.length === 0 && (
+            <p className="text-white/40 text-sm text-center py-4">No calendar links yet</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// ImportScheduleModal
+// ============================================
+
+type ScheduleImportRow = {
+  line: number;
+  uid: string | null;
+  title: string | null;
+  date: string | null;
+  startTime: string | null;
+  endTime: string | null;
+  team: string | null;
+  type: string | null;
+  venue: string | null;
+  newVenue: boolean;
+  opponent: string | null;
+  homeAway: HomeAway | null;
+  status: "NEW" | "UPDATED" | "UNCHANGED" | "CANCELLED" | "SKIPPED" | "ERROR";
+  eventId: string | null;
+  changes: { field: string; from: string | null; to: string | null }[];
+  errors: string[];
+};
+
+type ScheduleImportResult = {
+  committed: boolean;
+  created: number;
+  updated: number;
+  unchanged: number;
+  cancelled: number;
+  newVenues: string[];
+  newOpponents: string[];
+  errorCount: number;
+  rows: ScheduleImportRow[];
+};
+
+const SCHEDULE_IMPORT_STATUS_STYLES: Record<ScheduleImportRow["status"], { label: string; className: string }> = {
+  NEW: { label: "New", className: "bg-green-600/20 text-green-400" },
+  UPDATED: { label: "Updated", className: "bg-[#a855f7]/15 text-[#a78bfa]" },
+  UNCHANGED: { label: "Unchanged", className: "bg-white/8 text-white/55" },
+  CANCELLED: EVENT_STATUS_BADGES.CANCELLED,
+  SKIPPED: { label: "Skipped", className: "bg-white/8 text-white/40" },
+  ERROR: { label: "Error", className: "bg-red-600/20 text-red-400" },
+};
+
+const SCHEDULE_CHANGE_LABELS: Record<string, string> = {
+  title: "Title",
+  type: "Type",
+  date: "Date",
+  endDate: "End date",
+  startTime: "Start",
+  endTime: "End",
+  team: "Team",
+  venue: "Venue",
+  opponent: "Opponent",
+  homeAway: "Home/away",
+  status: "Status",
+};
+
+function ImportScheduleModal({
+  organizationId,
+  teams,
+  onClose,
+  onSuccess,
+}: {
+  organizationId: string;
+  teams: { id: string; name: string }[];
+  onClose: () => void;
+  onSuccess: () => void;
+}) {
+  const [fileName, setFileName] = useState("");
+  const [content, setContent] = useState("");
+  const [teamId, setTeamId] = useState("");
+  const [defaultType, setDefaultType] = useState("");
+  const [review, setReview] = useState<ScheduleImportResult | null>(null);
+  const [committed, setCommitted] = useState<ScheduleImportResult | null>(null);
+  const [hideUnchanged, setHideUnchanged] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const [importSchedule] = useMutation<{ importSchedule: ScheduleImportResult }>(IMPORT_SCHEDULE);
+
+  const runImport = async (dryRun: boolean) => {
+    setSubmitting(true);
+    setError("");
+    try {
+      const { data } = await importSchedule({
+        variables: {
+          organizationId,
+          input: { content, teamId: teamId || undefined, defaultType: defaultType || undefined },
+          dryRun,
+        },
+      });
+      const result = data?.importSchedule;
+      if (!result) return;
+      setReview(result);
+      if (result.committed) {
+        setCommitted(result);
+        onSuccess();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import schedule.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setReview(null);
+    setError("");
+    if (!file) return;
+    setFileName(file.name);
+    setContent(await file.text());
+  };
+
+  // Team and type choices change the preview, so it has to be checked again
+  const handleOptionChange = (update: () => void) => {
+    update();
+    setReview(null);
+  };
+
+  const rows = (review?.rows || []).filter((r) => !hideUnchanged || r.status !== "UNCHANGED");
+  const pending = review ? review.created + review.updated + review.cancelled : 0;
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white/8 backdrop-blur-xl rounded-xl w-full max-w-5xl max-h-[90vh] flex flex-col p-6 border border-white/15 shadow-2xl">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-white">Import League Schedule</h2>
+          <button onClick={onClose} className="text-white/55 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {committed ? (
+          <div className="space-y-4">
+            <div className="px-4 py-3 bg-green-600/20 border border-green-600/30 rounded-lg text-green-400 text-sm">
+              {committed.created} game{committed.created !== 1 ? "s" : ""} added, {committed.updated} updated
+              {committed.cancelled > 0 && `, ${committed.cancelled} cancelled`}.
+              {committed.newVenues.length > 0 && ` New venues: ${committed.newVenues.join(", ")}.`}
+            </div>
+            <div className="flex justify-end">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5a4dd4] transition-colors"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            {/* Upload */}
+            <label className="flex items-center gap-3 px-4 py-4 border border-dashed border-white/25 rounded-lg cursor-pointer hover:bg-white/5 transition-colors">
+              <FileText className="w-6 h-6 text-white/55 shrink-0" />
+              <div className="min-w-0">
+                <p className="text-white text-sm font-medium truncate">{fileName || "Choose an .ics or CSV file"}</p>
+                <p className="text-white/40 text-xs mt-0.5">
+                  CSV columns: date, time, end time, title, team (or home and away), opponent, venue, type, game id.
+                  Re-importing an updated file changes the games already imported instead of adding them again.
+                </p>
+              </div>
+              <input
+                type="file"
+                accept=".ics,.csv,text/calendar,text/csv"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+
+            <div className="grid grid-cols-2 gap-3 mt-4">
+              <div>
+                <label className="block text-xs text-white/55 mb-1">Team (when the file doesn&apos;t say)</label>
+                <select
+                  value={teamId}
+                  onChange={(e) => handleOptionChange(() => setTeamId(e.target.value))}
+                  className="w-full px-3 py-2 bg-white/8 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+                >
+                  <option value="">Match by name</option>
+                  {teams.map((team) => (
+                    <option key={team.id} value={team.id}>{team.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-white/55 mb-1">Type (when it can&apos;t be told)</label>
+                <select
+                  value={defaultType}
+                  onChange={(e) => handleOptionChange(() => setDefaultType(e.target.value))}
+                  className="w-full px-3 py-2 bg-white/8 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+                >
+                  <option value="">Game</option>
+                  {(["PRACTICE", "MEETING", "EVENT"] as const).map((type) => (
+                    <option key={type} value={type}>{EVENT_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Review */}
+            {review && (
+              <div className="mt-4 flex flex-col min-h-0">
+                <div className="flex flex-wrap items-center gap-4 mb-3 text-sm">
+                  <span className="text-green-400">{review.created} new</span>
+                  <span className="text-[#a78bfa]">{review.updated} updated</span>
+                  {review.cancelled > 0 && <span className="text-red-400">{review.cancelled} cancelled</span>}
+                  <span className="text-white/55">{review.unchanged} unchanged</span>
+                  <span className={review.errorCount > 0 ? "text-red-400" : "text-white/55"}>
+                    {review.errorCount} with errors
+                  </span>
+                  <label className="ml-auto flex items-center gap-2 text-white/55 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={hideUnchanged}
+                      onChange={(e) => setHideUnchanged(e.target.checked)}
+                      className="accent-[#6c5ce7]"
+                    />
+                    Hide unchanged
+                  </label>
+                </div>
+                {(review.newVenues.length > 0 || review.newOpponents.length > 0) && (
+                  <p className="mb-3 text-xs text-white/55">
+                    {review.newVenues.length > 0 && `New venues: ${review.newVenues.join(", ")}. `}
+                    {review.newOpponents.length > 0 && `New opponents: ${review.newOpponents.join(", ")}.`}
+                  </p>
+                )}
+                <div className="overflow-auto border border-white/10 rounded-lg">
+                  <table className="w-full text-sm">
+                    <thead className="bg-white/5 text-white/55 text-left sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 font-medium">Line</th>
+                        <th className="px-3 py-2 font-medium">Game</th>
+                        <th className="px-3 py-2 font-medium">When</th>
+                        <th className="px-3 py-2 font-medium">Team</th>
+                        <th className="px-3 py-2 font-medium">Venue</th>
+                        <th className="px-3 py-2 font-medium">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/5">
+                      {rows.map((row) => (
+                        <tr key={row.line} className="align-top">
+                          <td className="px-3 py-2 text-white/40">{row.line}</td>
+                          <td className="px-3 py-2 text-white">
+                            {row.title || "—"}
+                            {row.type && <p className="text-xs text-white/40">{EVENT_TYPE_LABELS[row.type] ?? row.type}</p>}
+                          </td>
+                          <td className="px-3 py-2 text-white/70 whitespace-nowrap">
+                            {row.date ? new Date(`${row.date}T12:00:00`).toLocaleDateString() : "—"}
+                            {row.startTime && (
+                              <p className="text-xs text-white/40">
+                                {row.startTime === "All Day" ? "All Day" : `${row.startTime} – ${row.endTime ?? "?"}`}
+                              </p>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-white/70">{row.team || "—"}</td>
+                          <td className="px-3 py-2 text-white/70">
+                            {row.venue || "—"}
+                            {row.newVenue && <span className="ml-1 text-xs text-green-400">new</span>}
+                          </td>
+                          <td className="px-3 py-2">
+                            <span
+                              className={`px-2 py-0.5 rounded text-xs font-medium ${SCHEDULE_IMPORT_STATUS_STYLES[row.status].className}`}
+                            >
+                              {SCHEDULE_IMPORT_STATUS_STYLES[row.status].label}
+                            </span>
+                            {row.changes.map((change) => (
+                              <p key={change.field} className="mt-1 text-xs text-white/55">
+                                {SCHEDULE_CHANGE_LABELS[change.field] ?? change.field}: {change.from || "—"} →{" "}
+                                <span className="text-white">{change.to || "—"}</span>
+                              </p>
+                            ))}
+                            {row.errors.map((message) => (
+                              <p key={message} className="mt-1 text-xs text-red-400">
+                                {message}
+                              </p>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {rows.length === 0 && (
+                    <p className="text-white/40 text-sm text-center py-4">Everything is already up to date</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {error && (
+              <div className="mt-4 px-4 py-3 bg-red-600/20 border border-red-600/30 rounded-lg text-red-400 text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="flex items-center justify-end space-x-3 mt-6">
+              {review && review.errorCount > 0 && (
+                <p className="mr-auto text-xs text-white/55">Fix the errors in your file and upload it again.</p>
+              )}
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-white/55 hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+              {review && review.errorCount === 0 ? (
+                <button
+                  onClick={() => runImport(false)}
+                  disabled={submitting || pending === 0}
+                  className="px-4 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5a4dd4] transition-colors disabled:opacity-50"
+                >
+                  {submitting ? "Importing..." : `Apply ${pending} ${pending === 1 ? "change" : "changes"}`}
+                </button>
+              ) : (
+                <button
+                  onClick={() => runImport(true)}
+                  disabled={submitting || !content}
+                  className="px-4 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5a4dd4] transition-colors disabled:opacity-50"
+                >
+                  {submitting ? "Checking..." : "Preview Import"}
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // ============================================
 // EventCard
 // ============================================
@@ -827,14 +1649,19 @@ function EventCard({
   canEdit,
   onEdit,
   onDelete,
+  onChangeStatus,
   dimmed,
 }: {
   event: Event;
   canEdit: boolean;
   onEdit: (event: Event) => void;
   onDelete: (event: Event) => void;
+  onChangeStatus: (event: Event) => void;
   dimmed: boolean;
 }) {
+  const statusBadge = EVENT_STATUS_BADGES[event.status];
+  const conflicts = event.conflicts ?? [];
+
   const eventDate = parseDate(event.date);
 
   const isMultiDay = !!event.endDate;
@@ -854,9 +1681,9 @@ function EventCard({
 
   return (
     <div
-      className={`bg-white/8 rounded-xl border border-white/8 p-4 hover:border-white/10 transition-colors cursor-pointer ${
-        dimmed ? "opacity-60" : ""
-      }`}
+      className={`bg-white/8 rounded-xl border p-4 transition-colors cursor-pointer ${
+        conflicts.length > 0 ? "border-amber-500/40 hover:border-amber-500/60" : "border-white/8 hover:border-white/10"
+      } ${dimmed ? "opacity-60" : ""}`}
     >
       <div className="flex items-start justify-between">
         <div className="flex items-start space-x-4">
@@ -869,11 +1696,36 @@ function EventCard({
           </div>
           <div>
             <div className="flex items-center">
-              <h3 className="text-white font-medium">{event.title}</h3>
+              <h3 className={`font-medium ${event.status === "CANCELLED" ? "text-white/55 line-through" : "text-white"}`}>
+                {event.title}
+              </h3>
+              {event.opponent && <span className="ml-2 text-sm text-white/55">{formatOpponent(event)}</span>}
+              {event.result && (
+                <span className={`ml-2 px-2 py-0.5 rounded text-xs font-semibold ${RESULT_COLORS[event.result]}`}>
+                  {formatScore(event)}
+                </span>
+              )}
+              {statusBadge && (
+                <span className={`ml-2 px-2 py-0.5 rounded text-xs font-medium ${statusBadge.className}`}>
+                  {statusBadge.label}
+                </span>
+              )}
               {event.recurringEvent && (
                 <span className="ml-2 flex items-center text-xs text-[#a78bfa]">
-                  <Repeat className="w-3 h-3 mr-1" />
-                  Recurring
+                  <Repeat className="w-3 h-3 mr-1" />
+                  Recurring
+                </span>
+              )}
+              {event.eventGroup && (
+                <span className="ml-2 flex items-center text-xs text-[#a78bfa]">
+                  <Trophy className="w-3 h-3 mr-1" />
+                  {event.eventGroup.name}
+                </span>
+              )}
+              {conflicts.length > 0 && (
+                <span className="ml-2 flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-500/15 text-amber-400">
+                  <AlertTriangle className="w-3 h-3 mr-1" />
+                  Double-booked
                 </span>
               )}
             </div>
@@ -915,6 +1767,18 @@ function EventCard({
                 ))}
               </div>
             )}
+            {conflicts.length > 0 && (
+              <ul className="mt-2 space-y-0.5 text-xs text-amber-400/80">
+                {conflicts.map((c) => (
+                  <li key={`${c.reason}-${c.event.id}`}>
+                    {c.reason === "VENUE" ? "Venue" : "Coach"} also booked for {c.event.title} ({c.event.startTime} - {c.event.endTime})
+                  </li>
+                ))}
+              </ul>
+            )}
+            {event.statusReason && event.status !== "SCHEDULED" && (
+              <p className="text-white/55 text-sm mt-2">{event.statusReason}</p>
+            )}
             {event.description && <p className="text-white/40 text-sm mt-2">{event.description}</p>}
           </div>
         </div>
@@ -937,6 +1801,19 @@ function EventCard({
                   <Edit2 className="w-4 h-4" />
                 </button>
               )}
+              {!dimmed && (
+                <button
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    onChangeStatus(event);
+                  }}
+                  className="p-2 text-white/55 hover:text-yellow-400 transition-colors"
+                  title={event.status === "SCHEDULED" ? "Cancel or postpone" : "Reschedule"}
+                >
+                  <CalendarX className="w-4 h-4" />
+                </button>
+              )}
               <button
                 onClick={(e) => {
                   e.preventDefault();
@@ -955,25 +1832,352 @@ function EventCard({
   );
 }
 
+// ============================================
+// EventStatusModal (Cancel / Postpone / Reschedule)
+// ============================================
+
+function EventStatusModal({
+  event,
+  onClose,
+  onSuccess,
+}: {
+  event: Event;
+  onClose: () => void;
+  onSuccess: () => void;
+}) {
+  const isMultiDay = !!event.endDate;
+  const [reason, setReason] = useState("");
+  const [date, setDate] = useState(formatDateForInput(event.date));
+  const [endDate, setEndDate] = useState(event.endDate ? formatDateForInput(event.endDate) : "");
+  const [startTime, setStartTime] = useState(isMultiDay ? "" : event.startTime);
+  const [endTime, setEndTime] = useState(isMultiDay ? "" : event.endTime);
+  const [error, setError] = useState<string | null>(null);
+
+  const [cancelEvent, { loading: cancelling }] = useMutation(CANCEL_EVENT);
+  const [rescheduleEvent, { loading: rescheduling }] = useMutation(RESCHEDULE_EVENT);
+  const busy = cancelling || rescheduling;
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setError(null);
+    try {
+      await action();
+      onSuccess();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    }
+  };
+
+  const handleCancel = () =>
+    run(() => cancelEvent({ variables: { id: event.id, reason: reason || undefined } }), "Failed to cancel event");
+
+  const handlePostpone = () =>
+    run(
+      () => rescheduleEvent({ variables: { id: event.id, input: { reason: reason || undefined } } }),
+      "Failed to postpone event"
+    );
+
+  const handleReschedule = (e: React.FormEvent) => {
+    e.preventDefault();
+    const reschedule = (allowConflicts: boolean) =>
+      rescheduleEvent({
+        variables: {
+          id: event.id,
+          input: {
+            date,
+            ...(isMultiDay
+              ? { endDate, startTime: "All Day", endTime: "All Day" }
+              : { startTime, endTime }),
+            reason: reason || undefined,
+            allowConflicts,
+          },
+        },
+      });
+    run(async () => {
+      try {
+        await reschedule(false);
+      } catch (err) {
+        const conflict = scheduleConflictMessage(err);
+        if (!conflict || !confirm(`${conflict}\n\nReschedule anyway?`)) throw err;
+        await reschedule(true);
+      }
+    }, "Failed to reschedule event");
+  };
+
+  const inputClass =
+    "w-full px-4 py-2 bg-white/15 border border-white/25 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-[#6c5ce7] placeholder:text-white/35";
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white/8 backdrop-blur-xl rounded-xl w-full max-w-md p-6 border border-white/15 shadow-2xl">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-bold text-white">
+            {event.status === "SCHEDULED" ? "Change Event Status" : "Reschedule Event"}
+          </h3>
+          <button onClick={onClose} className="text-white/55 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-white/55 text-sm mb-4">
+          Attendees and their guardians are notified of any change to{" "}
+          <span className="text-white font-medium">&ldquo;{event.title}&rdquo;</span>.
+        </p>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-white/70 mb-1">Reason (optional)</label>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={500}
+            rows={2}
+            className={inputClass}
+            placeholder="e.g., Field closed due to weather"
+          />
+        </div>
+
+        {event.status === "SCHEDULED" && (
+          <div className="flex gap-3 mb-5">
+            <button
+              type="button"
+              onClick={handlePostpone}
+              disabled={busy}
+              className="flex-1 px-4 py-2 bg-yellow-600/15 text-yellow-400 border border-yellow-600/30 rounded-lg hover:bg-yellow-600/25 transition-colors text-sm font-medium disabled:opacity-50"
+            >
+              Postpone (date TBD)
+            </button>
+            <button
+              type="button"
+              onClick={handleCancel}
+              disabled={busy}
+              className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm font-medium disabled:opacity-50"
+            >
+              Cancel Event
+            </button>
+          </div>
+        )}
+
+        <form onSubmit={handleReschedule} className="space-y-3">
+          <p className="text-xs text-white/40 uppercase tracking-wider">Move to a new date</p>
+          <div className={isMultiDay ? "grid grid-cols-2 gap-3" : ""}>
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-1">{isMultiDay ? "Start Date" : "Date"}</label>
+              <input type="date" required value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+            </div>
+            {isMultiDay && (
+              <div>
+                <label className="block text-sm font-medium text-white/70 mb-1">End Date</label>
+                <input type="date" required value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+              </div>
+            )}
+          </div>
+          {!isMultiDay && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-white/70 mb-1">Start Time</label>
+                <input
+                  type="text"
+                  required
+                  value={startTime}
+                  onChange={(e) => setStartTime(e.target.value)}
+                  className={inputClass}
+                  placeholder="6:00 PM"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-white/70 mb-1">End Time</label>
+                <input
+                  type="text"
+                  required
+                  value={endTime}
+                  onChange={(e) => setEndTime(e.target.value)}
+                  className={inputClass}
+                  placeholder="8:00 PM"
+                />
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-red-400 text-xs bg-red-600/10 rounded-lg px-3 py-2">{error}</p>}
+
+          <div className="flex gap-3 pt-1">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 bg-white/8 text-white rounded-lg hover:bg-white/12 transition-colors text-sm"
+            >
+              Close
+            </button>
+            <button
+              type="submit"
+              disabled={busy}
+              className="flex-1 px-4 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5a4dd4] transition-colors text-sm font-medium disabled:opacity-50"
+            >
+              Reschedule
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// TournamentModal
+// ============================================
+
+function TournamentModal({
+  organizationId,
+  onClose,
+  onSuccess,
+}: {
+  organizationId: string;
+  onClose: () => void;
+  onSuccess: () => void;
+}) {
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [description, setDescription] = useState("");
+  const [travelNotes, setTravelNotes] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [createEventGroup, { loading }] = useMutation(CREATE_EVENT_GROUP);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await createEventGroup({
+        variables: {
+          organizationId,
+          input: {
+            name,
+            startDate,
+            endDate: endDate || startDate,
+            description: description || null,
+            travelNotes: travelNotes || null,
+          },
+        },
+      });
+      onSuccess();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create tournament");
+    }
+  };
+
+  const inputClass =
+    "w-full px-4 py-2 bg-white/15 border border-white/25 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-[#6c5ce7] placeholder:text-white/35";
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white/8 backdrop-blur-xl rounded-xl w-full max-w-md p-6 border border-white/15 shadow-2xl">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-bold text-white">New Tournament</h3>
+          <button onClick={onClose} className="text-white/55 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-white/55 text-sm mb-4">
+          Group games and sessions across days and venues. Add events to it when creating them, or from the
+          tournament page.
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-1">Name</label>
+            <input
+              type="text"
+              required
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={200}
+              className={inputClass}
+              placeholder="e.g., Spring Invitational"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-1">Start Date</label>
+              <input type="date" required value={startDate} onChange={(e) => setStartDate(e.target.value)} className={`${inputClass} [color-scheme:dark]`} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-1">End Date</label>
+              <input
+                type="date"
+                value={endDate}
+                min={startDate || undefined}
+                onChange={(e) => setEndDate(e.target.value)}
+                className={`${inputClass} [color-scheme:dark]`}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-1">Description (optional)</label>
+            <textarea value={description} onChange={(e) => setDescription(e.target.value)} maxLength={2000} rows={2} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-1">Travel Notes (optional)</label>
+            <textarea
+              value={travelNotes}
+              onChange={(e) => setTravelNotes(e.target.value)}
+              maxLength={5000}
+              rows={3}
+              className={inputClass}
+              placeholder="Hotel, carpools, departure times..."
+            />
+          </div>
+
+          {error && <p className="text-red-400 text-xs bg-red-600/10 rounded-lg px-3 py-2">{error}</p>}
+
+          <div className="flex gap-3 pt-1">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 bg-white/8 text-white rounded-lg hover:bg-white/12 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-4 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5a4dd4] transition-colors text-sm font-medium disabled:opacity-50"
+            >
+              Create Tournament
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
 // ============================================
 // EventModal (Create & Edit)
 // ============================================
 
+type RecurrenceFrequency = "WEEKLY" | "BIWEEKLY" | "DAILY" | "CUSTOM";
+
 type EventFormData = {
   title: string;
-  type: "PRACTICE" | "EVENT" | "MEETING";
+  type: "PRACTICE" | "EVENT" | "MEETING" | "GAME";
   date: string;
   endDate: string;
   isMultiDay: boolean;
   isRecurring: boolean;
-  frequency: "WEEKLY" | "BIWEEKLY" | "DAILY";
+  frequency: RecurrenceFrequency;
   daysOfWeek: number[];
+  // Only used when frequency is CUSTOM
+  rrule: string;
+  // Comma-separated YYYY-MM-DD days to skip
+  exdates: string;
   recurringEndDate: string;
   startTime: string;
   endTime: string;
   location: string;
   description: string;
   venueId: string;
+  opponentId: string;
+  homeAway: HomeAway | "";
+  eventGroupId: string;
+  // Create only; the server fills the end time, reminder, staff and athletes from it
+  templateId: string;
 };
 
 function formatDateForInput(dateStr: string): string {
@@ -1007,19 +2211,25 @@ function EventModal({
       const isMultiDay = !!editingEvent.endDate;
       return {
         title: editingEvent.title,
-        type: editingEvent.type as "PRACTICE" | "EVENT" | "MEETING",
+        type: editingEvent.type as EventFormData["type"],
         date: formatDateForInput(editingEvent.date),
         endDate: editingEvent.endDate ? formatDateForInput(editingEvent.endDate) : "",
         isMultiDay,
         isRecurring: false,
         frequency: "WEEKLY",
         daysOfWeek: [],
+        rrule: "",
+        exdates: "",
         recurringEndDate: "",
         startTime: isMultiDay ? "" : editingEvent.startTime,
         endTime: isMultiDay ? "" : editingEvent.endTime,
         location: editingEvent.location || "",
         description: editingEvent.description || "",
         venueId: editingEvent.venue?.id || "",
+        opponentId: editingEvent.opponent?.id || "",
+        homeAway: editingEvent.homeAway || "",
+        eventGroupId: editingEvent.eventGroup?.id || "",
+        templateId: "",
       };
     }
     return {
@@ -1031,18 +2241,36 @@ function EventModal({
       isRecurring: false,
       frequency: "WEEKLY",
       daysOfWeek: [],
+      rrule: "",
+      exdates: "",
       recurringEndDate: "",
       startTime: "",
       endTime: "",
       location: "",
       description: "",
       venueId: "",
+      opponentId: "",
+      homeAway: "",
+      eventGroupId: "",
+      templateId: "",
     };
   });
 
   const { data: venuesData } = useQuery<any>(GET_ORGANIZATION_VENUES, {
     variables: { organizationId },
   });
+  const { data: opponentsData } = useQuery<{ opponents: { id: string; name: string }[] }>(GET_OPPONENTS, {
+    variables: { organizationId },
+    skip: formData.type !== "GAME",
+  });
+  const { data: eventGroupsData } = useQuery<{ eventGroups: EventGroupSummary[] }>(GET_EVENT_GROUPS, {
+    variables: { organizationId, upcoming: true },
+    skip: isEdit,
+  });
+  const { data: templatesData } = useQuery<{ eventTemplates: EventTemplateOption[] }>(GET_EVENT_TEMPLATES, {
+    variables: { organizationId },
+    skip: isEdit,
+  });
   const { data: orgUsersData, refetch: refetchOrgUsers } = useQuery<any>(GET_ORGANIZATION_USERS, {
     variables: { id: organizationId },
     skip: !isEdit,
@@ -1066,6 +2294,11 @@ function EventModal({
   const [localExcluded, setLocalExcluded] = useState<AthleteUser[]>(editingEvent?.excludedAthletes || []);
 
   const venues: Venue[] = venuesData?.organizationVenues || [];
+  const opponents = opponentsData?.opponents || [];
+  const isGame = formData.type === "GAME";
+  const eventGroups = eventGroupsData?.eventGroups ?? [];
+  const templates = templatesData?.eventTemplates ?? [];
+  const selectedTemplate = templates.find((t) => t.id === formData.templateId);
 
   const handleCreateVenue = async () => {
     if (!newVenueName.trim()) return;
@@ -1164,6 +2397,83 @@ function EventModal({
     setSelectedTeams((prev) => prev.filter((t) => t.id !== teamId));
   };
 
+  const applyTemplate = (templateId: string) => {
+    const template = templates.find((t) => t.id === templateId);
+    if (!template) {
+      setFormData({ ...formData, templateId: "" });
+      return;
+    }
+    setFormData({
+      ...formData,
+      templateId,
+      title: template.title,
+      type: template.type as EventFormData["type"],
+      endTime: "",
+      location: template.location ?? "",
+      description: template.description ?? "",
+      venueId: template.venue?.id ?? "",
+      ...(template.type !== "GAME" && { opponentId: "", homeAway: "" as const }),
+      ...(template.type === "GAME" && { isRecurring: false }),
+    });
+    if (template.team) setSelectedTeams([template.team]);
+  };
+
+  const createEvents = async (allowConflicts: boolean) => {
+    if (formData.isRecurring) {
+      await createRecurringEvent({
+        variables: {
+          input: {
+            templateId: formData.templateId || undefined,
+            title: formData.title,
+            type: formData.type,
+            startTime: formData.startTime,
+            endTime: formData.endTime || undefined,
+            ...(formData.frequency === "CUSTOM"
+              ? { rrule: formData.rrule.trim() }
+              : { frequency: formData.frequency, daysOfWeek: formData.daysOfWeek }),
+            exdates: formData.exdates.split(",").map((d) => d.trim()).filter(Boolean),
+            startDate: formData.date,
+            endDate: formData.recurringEndDate || undefined,
+            location: formData.location || undefined,
+            description: formData.description || undefined,
+            organizationId,
+            teamId: selectedTeams.length === 1 ? selectedTeams[0].id : undefined,
+            venueId: formData.venueId || undefined,
+            allowConflicts,
+          },
+        },
+      });
+    } else {
+      await createEvent({
+        variables: {
+          input: {
+            templateId: formData.templateId || undefined,
+            title: formData.title,
+            type: formData.type,
+            date: formData.date,
+            ...(formData.isMultiDay
+              ? { endDate: formData.endDate, startTime: "All Day", endTime: "All Day" }
+              : { startTime: formData.startTime, endTime: formData.endTime || undefined }),
+            location: formData.location || undefined,
+            description: formData.description || undefined,
+            organizationId,
+            // A game belongs to the one team playing it, which its score is recorded for
+            ...(isGame
+              ? {
+                  teamId: selectedTeams[0]?.id,
+                  opponentId: formData.opponentId || undefined,
+                  homeAway: formData.homeAway || undefined,
+                }
+              : { participatingTeamIds: selectedTeams.map((t) => t.id) }),
+            venueId: formData.venueId || undefined,
+            eventGroupId: formData.eventGroupId || undefined,
+            allowConflicts,
+          },
+        },
+      });
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (isEdit && onUpdate) {
@@ -1171,44 +2481,12 @@ function EventModal({
       return;
     }
     try {
-      if (formData.isRecurring) {
-        await createRecurringEvent({
-          variables: {
-            input: {
-              title: formData.title,
-              type: formData.type,
-              startTime: formData.startTime,
-              endTime: formData.endTime,
-              frequency: formData.frequency,
-              daysOfWeek: formData.daysOfWeek,
-              startDate: formData.date,
-              endDate: formData.recurringEndDate,
-              location: formData.location || undefined,
-              description: formData.description || undefined,
-              organizationId,
-              teamId: selectedTeams.length === 1 ? selectedTeams[0].id : undefined,
-              venueId: formData.venueId || undefined,
-            },
-          },
-        });
-      } else {
-        await createEvent({
-          variables: {
-            input: {
-              title: formData.title,
-              type: formData.type,
-              date: formData.date,
-              ...(formData.isMultiDay
-                ? { endDate: formData.endDate, startTime: "All Day", endTime: "All Day" }
-                : { startTime: formData.startTime, endTime: formData.endTime }),
-              location: formData.location || undefined,
-              description: formData.description || undefined,
-              organizationId,
-              participatingTeamIds: selectedTeams.map((t) => t.id),
-              venueId: formData.venueId || undefined,
-            },
-          },
-        });
+      try {
+        await createEvents(false);
+      } catch (error) {
+        const conflict = scheduleConflictMessage(error);
+        if (!conflict || !confirm(`${conflict}\n\nBook anyway?`)) throw error;
+        await createEvents(true);
       }
       onSuccess?.();
     } catch (error) {
@@ -1227,6 +2505,30 @@ function EventModal({
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-4">
+          {!isEdit && templates.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-1">Start from template</label>
+              <select
+                value={formData.templateId}
+                onChange={(e) => applyTemplate(e.target.value)}
+                className="w-full px-4 py-2 bg-white/15 border border-white/25 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+              >
+                <option value="">No template</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                    {template.team ? ` (${template.team.name})` : ""}
+                  </option>
+                ))}
+              </select>
+              {selectedTemplate && (
+                <p className="text-xs text-white/40 mt-1">
+                  The template&apos;s reminder, required staff and athlete changes are applied when the event is created.
+                </p>
+              )}
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-white/70 mb-1">Title</label>
             <input
@@ -1243,15 +2545,74 @@ function EventModal({
             <label className="block text-sm font-medium text-white/70 mb-1">Type</label>
             <select
               value={formData.type}
-              onChange={(e) => setFormData({ ...formData, type: e.target.value as "PRACTICE" | "EVENT" | "MEETING" })}
+              onChange={(e) => {
+                const type = e.target.value as EventFormData["type"];
+                setFormData({
+                  ...formData,
+                  type,
+                  ...(type !== "GAME" && { opponentId: "", homeAway: "" as const }),
+                  ...(type === "GAME" && { isRecurring: false }),
+                });
+              }}
               className="w-full px-4 py-2 bg-white/15 border border-white/25 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-[#6c5ce7] placeholder:text-white/35"
             >
               <option value="PRACTICE">Practice</option>
+              <option value="GAME">Game</option>
               <option value="EVENT">Tournament</option>
               <option value="MEETING">Meeting</option>
             </select>
           </div>
 
+          {isGame && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-white/70 mb-1">Opponent</label>
+                <select
+                  value={formData.opponentId}
+                  onChange={(e) => setFormData({ ...formData, opponentId: e.target.value })}
+                  className="w-full px-4 py-2 bg-white/15 border border-white/25 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+                >
+                  <option value="">TBD</option>
+                  {opponents.map((opponent) => (
+                    <option key={opponent.id} value={opponent.id}>{opponent.name}</option>
+                  ))}
+                </select>
+                {opponents.length === 0 && (
+                  <p className="text-xs text-white/40 mt-1">Add opponents in Settings.</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-white/70 mb-1">Home / Away</label>
+                <select
+                  value={formData.homeAway}
+                  onChange={(e) => setFormData({ ...formData, homeAway: e.target.value as HomeAway | "" })}
+                  className="w-full px-4 py-2 bg-white/15 border border-white/25 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+                >
+                  <option value="">Not set</option>
+                  <option value="HOME">Home</option>
+                  <option value="AWAY">Away</option>
+                  <option value="NEUTRAL">Neutral site</option>
+                </select>
+              </div>
+            </div>
+          )}
+
+          {!isEdit && !formData.isRecurring && eventGroups.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-1">Tournament</label>
+              <select
+                value={formData.eventGroupId}
+                onChange={(e) => setFormData({ ...formData, eventGroupId: e.target.value })}
+                className="w-full px-4 py-2 bg-white/15 border border-white/25 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+              >
+                <option value="">None</option>
+                {eventGroups.map((group) => (
+                  <option key={group.id} value={group.id}>{group.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-white/70 mb-1">
               {formData.isMultiDay || formData.isRecurring ? "Start Date" : "Date"}
@@ -1289,7 +2650,7 @@ function EventModal({
           )}
 
           {/* Recurring Event Toggle (create mode only, not multi-day) */}
-          {!isEdit && !formData.isMultiDay && (
+          {!isEdit && !formData.isMultiDay && !isGame && (
             <div className="flex items-center justify-between py-2">
               <label className="text-sm font-medium text-white/55 flex items-center">
                 <Repeat className="w-4 h-4 mr-2" />
@@ -1318,16 +2679,34 @@ function EventModal({
                 <label className="block text-sm font-medium text-white/70 mb-1">Frequency</label>
                 <select
                   value={formData.frequency}
-                  onChange={(e) => setFormData({ ...formData, frequency: e.target.value as "WEEKLY" | "BIWEEKLY" | "DAILY" })}
+                  onChange={(e) => setFormData({ ...formData, frequency: e.target.value as RecurrenceFrequency })}
                   className="w-full px-4 py-2 bg-white/15 border border-white/25 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-[#6c5ce7] placeholder:text-white/35"
                 >
                   <option value="DAILY">Daily</option>
                   <option value="WEEKLY">Weekly</option>
                   <option value="BIWEEKLY">Biweekly</option>
+                  <option value="CUSTOM">Custom (RRULE)</option>
                 </select>
               </div>
 
-              {formData.frequency !== "DAILY" && (
+              {formData.frequency === "CUSTOM" && (
+                <div>
+                  <label className="block text-sm font-medium text-white/70 mb-1">Recurrence Rule</label>
+                  <input
+                    type="text"
+                    required
+                    value={formData.rrule}
+                    onChange={(e) => setFormData({ ...formData, rrule: e.target.value })}
+                    placeholder="FREQ=MONTHLY;BYDAY=2SA"
+                    className="w-full px-4 py-2 bg-white/15 border border-white/25 rounded-lg text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-[#6c5ce7] placeholder:text-white/35"
+                  />
+                  <p className="text-xs text-white/40 mt-1">
+                    Supports DAILY, WEEKLY and MONTHLY rules with INTERVAL, BYDAY (e.g. 2SA, -1FR), BYSETPOS, COUNT and UNTIL.
+                  </p>
+                </div>
+              )}
+
+              {(formData.frequency === "WEEKLY" || formData.frequency === "BIWEEKLY") && (
                 <div>
                   <label className="block text-sm font-medium text-white/55 mb-2">Days of Week</label>
                   <div className="flex gap-2">
@@ -1355,15 +2734,29 @@ function EventModal({
               )}
 
               <div>
-                <label className="block text-sm font-medium text-white/70 mb-1">Repeat Until</label>
+                <label className="block text-sm font-medium text-white/70 mb-1">
+                  Repeat Until{formData.frequency === "CUSTOM" && " (optional with COUNT or UNTIL)"}
+                </label>
                 <input
                   type="date"
-                  required
+                  required={formData.frequency !== "CUSTOM"}
                   value={formData.recurringEndDate}
                   onChange={(e) => setFormData({ ...formData, recurringEndDate: e.target.value })}
                   className="w-full px-4 py-2 bg-white/15 border border-white/25 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-[#6c5ce7] placeholder:text-white/35"
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-white/70 mb-1">Skip Dates</label>
+                <input
+                  type="text"
+                  value={formData.exdates}
+                  onChange={(e) => setFormData({ ...formData, exdates: e.target.value })}
+                  placeholder="2026-12-24, 2026-12-31"
+                  className="w-full px-4 py-2 bg-white/15 border border-white/25 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-[#6c5ce7] placeholder:text-white/35"
+                />
+                <p className="text-xs text-white/40 mt-1">Organization blackout dates are skipped automatically.</p>
+              </div>
             </div>
           )}
 
@@ -1395,11 +2788,11 @@ function EventModal({
                 <label className="block text-sm font-medium text-white/70 mb-1">End Time</label>
                 <input
                   type="text"
-                  required
+                  required={!selectedTemplate}
                   value={formData.endTime}
                   onChange={(e) => setFormData({ ...formData, endTime: e.target.value })}
                   className="w-full px-4 py-2 bg-white/15 border border-white/25 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-[#6c5ce7] placeholder:text-white/35"
-                  placeholder="8:00 PM"
+                  placeholder={selectedTemplate ? `${selectedTemplate.durationMinutes} min after start` : "8:00 PM"}
                 />
               </div>
             </div>
@@ -1483,7 +2876,10 @@ function EventModal({
           {/* Teams Picker (create mode only — team changes not supported in edit) */}
           {!isEdit && (
             <div>
-              <label className="block text-sm font-medium text-white/70 mb-1">Teams</label>
+              <label className="block text-sm font-medium text-white/70 mb-1">{isGame ? "Team" : "Teams"}</label>
+              {isGame && selectedTeams.length > 1 && (
+                <p className="text-xs text-amber-400 mb-2">A game is played by one team. Remove the others.</p>
+              )}
 
               {selectedTeams.length > 0 && (
                 <div className="flex flex-wrap gap-2 mb-2">
@@ -1681,7 +3077,11 @@ function EventModal({
             <button type="button" onClick={onClose} className="px-4 py-2 text-white/55 hover:text-white transition-colors">
               Cancel
             </button>
-            <button type="submit" className="px-4 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5a4dd4] transition-colors">
+            <button
+              type="submit"
+              disabled={!isEdit && isGame && selectedTeams.length !== 1}
+              className="px-4 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5a4dd4] disabled:opacity-50 transition-colors"
+            >
               {isEdit ? "Save Changes" : "Create Event"}
             </button>
           </div>
@@ -0,0 +1,548 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery, useMutation } from "@apollo/client/react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  GET_MY_CONVERSATIONS,
+  GET_CONVERSATION_MESSAGES,
+  GET_ORGANIZATION_USERS,
+  START_CONVERSATION,
+  OPEN_TEAM_CHANNEL,
+  SEND_MESSAGE,
+  MARK_CONVERSATION_READ,
+  LEAVE_CONVERSATION,
+} from "@/lib/graphql";
+import { MessageSquare, Plus, Send, Users, Hash, X, Shield, LogOut, Search } from "lucide-react";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+type ChatUser = {
+  id: string;
+  firstName: string;
+  lastName: string;
+  image?: string | null;
+};
+
+type Participant = {
+  id: string;
+  role: "MEMBER" | "GUARDIAN";
+  lastReadAt: string | null;
+  user: ChatUser;
+};
+
+type Conversation = {
+  id: string;
+  type: "TEAM" | "DIRECT" | "GROUP";
+  title: string | null;
+  unreadCount: number;
+  lastMessageAt: string;
+  team: { id: string; name: string } | null;
+  participants: Participant[];
+  lastMessage: {
+    id: string;
+    body: string;
+    createdAt: string;
+    sender: { id: string; firstName: string };
+  } | null;
+};
+
+type ChatMessage = {
+  id: string;
+  conversationId: string;
+  body: string;
+  createdAt: string;
+  sender: ChatUser;
+  readBy: { id: string; firstName: string }[];
+};
+
+type OrgMember = {
+  id: string;
+  role: string;
+  user: ChatUser;
+};
+
+const PAGE_SIZE = 50;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function conversationName(conversation: Conversation, myId?: string): string {
+  if (conversation.team) return conversation.team.name;
+  if (conversation.title) return conversation.title;
+  const others = conversation.participants.filter((p) => p.user.id !== myId && p.role === "MEMBER");
+  return others.map((p) => `${p.user.firstName} ${p.user.lastName}`).join(", ") || "Just you";
+}
+
+function formatTimestamp(iso: string): string {
+  const date = new Date(iso);
+  const now = new Date();
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+  }
+  return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+function Avatar({ user, size = "w-9 h-9" }: { user: ChatUser; size?: string }) {
+  return user.image ? (
+    <img src={user.image} alt="" className={`${size} rounded-full object-cover shrink-0`} />
+  ) : (
+    <div className={`${size} rounded-full bg-[#6c5ce7]/40 flex items-center justify-center text-xs font-semibold text-white shrink-0`}>
+      {user.firstName.charAt(0)}
+      {user.lastName.charAt(0)}
+    </div>
+  );
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export default function MessagesPage() {
+  const { user, selectedOrganizationId } = useAuth();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showNewModal, setShowNewModal] = useState(false);
+
+  const { data, loading, refetch } = useQuery<{ myConversations: Conversation[] }>(GET_MY_CONVERSATIONS, {
+    variables: { organizationId: selectedOrganizationId },
+    skip: !selectedOrganizationId,
+    pollInterval: 15000,
+  });
+  const [openTeamChannel] = useMutation(OPEN_TEAM_CHANNEL);
+
+  const conversations = useMemo(() => data?.myConversations || [], [data]);
+  const selected = conversations.find((c) => c.id === selectedId) || null;
+
+  // Team channels the user can open but hasn't joined yet
+  const myTeams = useMemo(
+    () =>
+      (user?.memberships || [])
+        .filter((m) => m.team.organization.id === selectedOrganizationId)
+        .map((m) => m.team)
+        .filter((team) => !conversations.some((c) => c.team?.id === team.id)),
+    [user, selectedOrganizationId, conversations]
+  );
+
+  const handleOpenTeamChannel = async (teamId: string) => {
+    try {
+      const { data: opened } = await openTeamChannel({ variables: { teamId } });
+      await refetch();
+      setSelectedId((opened as { openTeamChannel: { id: string } }).openTeamChannel.id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to open team channel");
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Messages</h1>
+          <p className="text-white/55 mt-1">Team channels and direct conversations</p>
+        </div>
+        <button
+          onClick={() => setShowNewModal(true)}
+          className="flex items-center px-4 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5a4dd4] transition-colors"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New Message
+        </button>
+      </div>
+
+      <div className="flex h-[calc(100vh-12rem)] min-h-[480px] bg-white/8 rounded-xl border border-white/8 overflow-hidden">
+        {/* Conversation list */}
+        <div className="w-80 shrink-0 border-r border-white/8 overflow-y-auto">
+          {loading && conversations.length === 0 ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-[#a855f7]"></div>
+            </div>
+          ) : conversations.length === 0 && myTeams.length === 0 ? (
+            <div className="p-6 text-center text-white/40 text-sm">No conversations yet</div>
+          ) : (
+            <>
+              {conversations.map((conversation) => {
+                const active = conversation.id === selectedId;
+                return (
+                  <button
+                    key={conversation.id}
+                    onClick={() => setSelectedId(conversation.id)}
+                    className={`w-full text-left px-4 py-3 border-b border-white/5 transition-colors ${
+                      active ? "bg-[#6c5ce7]/25" : "hover:bg-white/5"
+                    }`}
+                  >
+                    <div className="flex items-center gap-2">
+                      {conversation.type === "TEAM" ? (
+                        <Hash className="w-4 h-4 text-[#a855f7] shrink-0" />
+                      ) : conversation.type === "GROUP" ? (
+                        <Users className="w-4 h-4 text-white/50 shrink-0" />
+                      ) : null}
+                      <span className="flex-1 text-sm font-medium text-white truncate">
+                        {conversationName(conversation, user?.id)}
+                      </span>
+                      <span className="text-[11px] text-white/40 shrink-0">
+                        {formatTimestamp(conversation.lastMessageAt)}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2 mt-1">
+                      <span className="flex-1 text-xs text-white/50 truncate">
+                        {conversation.lastMessage
+                          ? `${conversation.lastMessage.sender.id === user?.id ? "You" : conversation.lastMessage.sender.firstName}: ${conversation.lastMessage.body}`
+                          : "No messages yet"}
+                      </span>
+                      {conversation.unreadCount > 0 && (
+                        <span className="flex items-center justify-center min-w-[18px] h-[18px] px-1 text-[10px] font-bold bg-red-500 rounded-full text-white">
+                          {conversation.unreadCount}
+                        </span>
+                      )}
+                    </div>
+                  </button>
+                );
+              })}
+
+              {myTeams.length > 0 && (
+                <div className="px-4 py-3">
+                  <p className="text-xs font-medium text-white/40 uppercase tracking-wider mb-2">Team Channels</p>
+                  {myTeams.map((team) => (
+                    <button
+                      key={team.id}
+                      onClick={() => handleOpenTeamChannel(team.id)}
+                      className="w-full flex items-center gap-2 px-2 py-1.5 text-sm text-white/70 rounded-lg hover:bg-white/10 hover:text-white transition-colors"
+                    >
+                      <Hash className="w-4 h-4 shrink-0" />
+                      {team.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Thread */}
+        <div className="flex-1 flex flex-col min-w-0">
+          {selected ? (
+            <ConversationThread
+              key={selected.id}
+              conversation={selected}
+              myId={user?.id}
+              onChanged={() => refetch()}
+              onLeft={() => {
+                setSelectedId(null);
+                refetch();
+              }}
+            />
+          ) : (
+            <div className="flex-1 flex flex-col items-center justify-center text-white/40">
+              <MessageSquare className="w-10 h-10 mb-3" />
+              <p className="text-sm">Select a conversation</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showNewModal && selectedOrganizationId && (
+        <NewConversationModal
+          organizationId={selectedOrganizationId}
+          myId={user?.id}
+          onClose={() => setShowNewModal(false)}
+          onStarted={async (id) => {
+            setShowNewModal(false);
+            await refetch();
+            setSelectedId(id);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// ─── Thread ───────────────────────────────────────────────────────────────────
+
+function ConversationThread({
+  conversation,
+  myId,
+  onChanged,
+  onLeft,
+}: {
+  conversation: Conversation;
+  myId?: string;
+  onChanged: () => void;
+  onLeft: () => void;
+}) {
+  const [body, setBody] = useState("");
+  const [earlier, setEarlier] = useState<ChatMessage[]>([]);
+  const [hasEarlier, setHasEarlier] = useState(true);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const { data, fetchMore } = useQuery<{ conversationMessages: ChatMessage[] }>(GET_CONVERSATION_MESSAGES, {
+    variables: { conversationId: conversation.id, limit: PAGE_SIZE },
+    pollInterval: 5000,
+  });
+  const [sendMessage, { loading: sending }] = useMutation(SEND_MESSAGE);
+  const [markRead] = useMutation(MARK_CONVERSATION_READ);
+  const [leaveConversation] = useMutation(LEAVE_CONVERSATION);
+
+  const recent = data?.conversationMessages || [];
+  const messages = [...earlier, ...recent.filter((m) => !earlier.some((e) => e.id === m.id))];
+  const latestId = recent[recent.length - 1]?.id;
+  const guardians = conversation.participants.filter((p) => p.role === "GUARDIAN");
+
+  // Mark read and scroll down whenever a new message shows up
+  useEffect(() => {
+    if (!latestId) return;
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+    markRead({ variables: { conversationId: conversation.id } })
+      .then(onChanged)
+      .catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [latestId, conversation.id]);
+
+  const myLastMessage = [...messages].reverse().find((m) => m.sender.id === myId);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = body.trim();
+    if (!text) return;
+    try {
+      await sendMessage({
+        variables: { conversationId: conversation.id, body: text },
+        refetchQueries: ["GetConversationMessages"],
+      });
+      setBody("");
+      onChanged();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to send message");
+    }
+  };
+
+  const handleLoadEarlier = async () => {
+    const oldest = messages[0];
+    if (!oldest) return;
+    const { data: page } = await fetchMore({
+      variables: { conversationId: conversation.id, before: oldest.createdAt, limit: PAGE_SIZE },
+    });
+    const older = page?.conversationMessages || [];
+    setEarlier((prev) => [...older, ...prev]);
+    if (older.length < PAGE_SIZE) setHasEarlier(false);
+  };
+
+  const handleLeave = async () => {
+    if (!confirm("Leave this conversation?")) return;
+    try {
+      await leaveConversation({ variables: { conversationId: conversation.id } });
+      onLeft();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to leave conversation");
+    }
+  };
+
+  return (
+    <>
+      {/* Header */}
+      <div className="px-5 py-3 border-b border-white/8 flex items-center justify-between">
+        <div className="min-w-0">
+          <h2 className="text-white font-semibold truncate">{conversationName(conversation, myId)}</h2>
+          <p className="text-xs text-white/45 truncate">
+            {conversation.participants.length} participant{conversation.participants.length !== 1 ? "s" : ""}
+          </p>
+        </div>
+        {conversation.type === "GROUP" && (
+          <button
+            onClick={handleLeave}
+            className="flex items-center gap-1.5 text-xs text-white/50 hover:text-red-400 transition-colors"
+          >
+            <LogOut className="w-3.5 h-3.5" />
+            Leave
+          </button>
+        )}
+      </div>
+
+      {guardians.length > 0 && (
+        <div className="px-5 py-2 bg-[#6c5ce7]/10 border-b border-white/8 flex items-center gap-2 text-xs text-white/60">
+          <Shield className="w-3.5 h-3.5 text-[#a855f7] shrink-0" />
+          Guardians copied: {guardians.map((g) => `${g.user.firstName} ${g.user.lastName}`).join(", ")}
+        </div>
+      )}
+
+      {/* Messages */}
+      <div className="flex-1 overflow-y-auto px-5 py-4 space-y-3">
+        {recent.length >= PAGE_SIZE && hasEarlier && (
+          <div className="text-center">
+            <button onClick={handleLoadEarlier} className="text-xs text-[#a855f7] hover:underline">
+              Load earlier messages
+            </button>
+          </div>
+        )}
+        {messages.length === 0 ? (
+          <p className="text-center text-sm text-white/40 mt-8">No messages yet. Say hello!</p>
+        ) : (
+          messages.map((message) => {
+            const mine = message.sender.id === myId;
+            return (
+              <div key={message.id} className={`flex gap-2 ${mine ? "flex-row-reverse" : ""}`}>
+                {!mine && <Avatar user={message.sender} size="w-8 h-8" />}
+                <div className={`max-w-[70%] ${mine ? "items-end" : "items-start"} flex flex-col`}>
+                  {!mine && (
+                    <span className="text-[11px] text-white/45 mb-0.5">
+                      {message.sender.firstName} {message.sender.lastName}
+                    </span>
+                  )}
+                  <div
+                    className={`px-3 py-2 rounded-2xl text-sm whitespace-pre-wrap break-words ${
+                      mine ? "bg-[#6c5ce7] text-white rounded-br-sm" : "bg-white/12 text-white rounded-bl-sm"
+                    }`}
+                  >
+                    {message.body}
+                  </div>
+                  <span className="text-[10px] text-white/35 mt-0.5">
+                    {formatTimestamp(message.createdAt)}
+                    {message.id === myLastMessage?.id && message.readBy.length > 0 && (
+                      <> · Seen by {message.readBy.map((u) => u.firstName).join(", ")}</>
+                    )}
+                  </span>
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      {/* Composer */}
+      <form onSubmit={handleSend} className="px-4 py-3 border-t border-white/8 flex gap-2">
+        <input
+          type="text"
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          placeholder="Write a message..."
+          maxLength={4000}
+          className="flex-1 px-4 py-2 bg-white/15 border border-white/25 rounded-lg text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+        />
+        <button
+          type="submit"
+          disabled={sending || !body.trim()}
+          className="flex items-center px-4 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5a4dd4] transition-colors disabled:opacity-50"
+        >
+          <Send className="w-4 h-4" />
+        </button>
+      </form>
+    </>
+  );
+}
+
+// ─── New conversation ─────────────────────────────────────────────────────────
+
+function NewConversationModal({
+  organizationId,
+  myId,
+  onClose,
+  onStarted,
+}: {
+  organizationId: string;
+  myId?: string;
+  onClose: () => void;
+  onStarted: (conversationId: string) => void;
+}) {
+  const [search, setSearch] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [title, setTitle] = useState("");
+
+  const { data } = useQuery<{ organization: { members: OrgMember[] } | null }>(GET_ORGANIZATION_USERS, {
+    variables: { id: organizationId },
+  });
+  const [startConversation, { loading }] = useMutation(START_CONVERSATION);
+
+  const members = (data?.organization?.members || [])
+    .filter((m) => m.user.id !== myId)
+    .filter((m) => `${m.user.firstName} ${m.user.lastName}`.toLowerCase().includes(search.toLowerCase()))
+    .sort((a, b) => a.user.firstName.localeCompare(b.user.firstName));
+
+  const toggle = (id: string) =>
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+
+  const handleStart = async () => {
+    try {
+      const { data: started } = await startConversation({
+        variables: {
+          input: {
+            organizationId,
+            participantIds: selectedIds,
+            title: selectedIds.length > 1 && title.trim() ? title.trim() : undefined,
+          },
+        },
+      });
+      onStarted((started as { startConversation: { id: string } }).startConversation.id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to start conversation");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm flex items-center justify-center z-50 px-4">
+      <div className="bg-white/8 backdrop-blur-xl rounded-xl w-full max-w-md p-6 border border-white/15 shadow-2xl">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-white">New Message</h2>
+          <button onClick={onClose} className="text-white/55 hover:text-white"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="relative mb-3">
+          <Search className="w-4 h-4 text-white/40 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search people..."
+            autoFocus
+            className="w-full pl-9 pr-4 py-2 bg-white/15 border border-white/25 rounded-lg text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+          />
+        </div>
+
+        <div className="max-h-64 overflow-y-auto space-y-1 mb-4">
+          {members.map((member) => (
+            <label
+              key={member.id}
+              className="flex items-center gap-3 px-2 py-1.5 rounded-lg hover:bg-white/8 cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(member.user.id)}
+                onChange={() => toggle(member.user.id)}
+                className="accent-[#6c5ce7]"
+              />
+              <Avatar user={member.user} size="w-7 h-7" />
+              <span className="flex-1 text-sm text-white">
+                {member.user.firstName} {member.user.lastName}
+              </span>
+              <span className="text-[11px] text-white/40">{member.role}</span>
+            </label>
+          ))}
+        </div>
+
+        {selectedIds.length > 1 && (
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Group name (optional)"
+            maxLength={100}
+            className="w-full px-4 py-2 mb-4 bg-white/15 border border-white/25 rounded-lg text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+          />
+        )}
+
+        <p className="text-xs text-white/40 mb-4">
+          Guardians are automatically copied when staff message an athlete under 18.
+        </p>
+
+        <div className="flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-white/55 hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleStart}
+            disabled={loading || selectedIds.length === 0}
+            className="px-4 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5a4dd4] transition-colors disabled:opacity-50"
+          >
+            Start
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
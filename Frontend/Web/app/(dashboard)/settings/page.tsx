@@ -3,10 +3,11 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@apollo/client/react";
 import { useAuth } from "@/contexts/AuthContext";
-import { GET_ORG_SEASONS, CREATE_ORG_SEASON, UPDATE_ORG_SEASON, DELETE_ORG_SEASON, GET_ORGANIZATION, UPDATE_ORGANIZATION_SETTINGS, GET_ORGANIZATION_VENUES, CREATE_VENUE, UPDATE_VENUE, DELETE_VENUE, GET_CUSTOM_ROLES } from "@/lib/graphql";
-import { GET_STRIPE_CONNECT_STATUS } from "@/lib/graphql/queries";
-import { UPDATE_PAYROLL_CONFIG, CREATE_CUSTOM_ROLE, UPDATE_CUSTOM_ROLE, DELETE_CUSTOM_ROLE, CREATE_STRIPE_CONNECT_LINK, DISCONNECT_STRIPE_ACCOUNT } from "@/lib/graphql/mutations";
-import { HelpCircle, Calendar, Plus, Edit2, Trash2, X, Check, Shield, Heart, Building2, Bell, DollarSign, Percent, Users, CreditCard, ExternalLink, AlertCircle, Loader2 } from "lucide-react";
+import { GET_ORG_SEASONS, CREATE_ORG_SEASON, UPDATE_ORG_SEASON, DELETE_ORG_SEASON, GET_ORGANIZATION, UPDATE_ORGANIZATION_SETTINGS, GET_ORGANIZATION_VENUES, CREATE_VENUE, UPDATE_VENUE, DELETE_VENUE, GET_CUSTOM_ROLES, GET_BLACKOUT_DATES, CREATE_BLACKOUT_DATE, DELETE_BLACKOUT_DATE } from "@/lib/graphql";
+import { GET_STRIPE_CONNECT_STATUS, GET_KIOSK_DEVICES, GET_ATTENDANCE_POLICIES, GET_ESCALATION_RULES, GET_EXCUSE_CATEGORIES, GET_OPPONENTS, GET_TEAMS, GET_EVENT_TEMPLATES } from "@/lib/graphql/queries";
+import { SET_ATTENDANCE_POLICY, DELETE_ATTENDANCE_POLICY, CREATE_ESCALATION_RULE, UPDATE_ESCALATION_RULE, DELETE_ESCALATION_RULE, CREATE_EXCUSE_CATEGORY, UPDATE_EXCUSE_CATEGORY, DELETE_EXCUSE_CATEGORY, CREATE_OPPONENT, UPDATE_OPPONENT, DELETE_OPPONENT, CREATE_EVENT_TEMPLATE, UPDATE_EVENT_TEMPLATE, DELETE_EVENT_TEMPLATE, REGISTER_KIOSK_DEVICE, REVOKE_KIOSK_DEVICE, UPDATE_PAYROLL_CONFIG, CREATE_CUSTOM_ROLE, UPDATE_CUSTOM_ROLE, DELETE_CUSTOM_ROLE, CREATE_STRIPE_CONNECT_LINK, DISCONNECT_STRIPE_ACCOUNT } from "@/lib/graphql/mutations";
+import { HelpCircle, Calendar, Plus, Edit2, Trash2, X, Check, Shield, Heart, Building2, Bell, DollarSign, Percent, Users, CreditCard, ExternalLink, AlertCircle, Loader2, Globe, CalendarOff, Tablet, Clock, AlertTriangle, Tags, Swords, LayoutTemplate } from "lucide-react";
+import { setKioskToken } from "@/lib/kiosk";
 
 const MONTHS = [
   "January", "February", "March", "April", "May", "June",
@@ -18,6 +19,9 @@ const SHORT_MONTHS = [
   "Jul", "Aug", "Sep", "Oct", "Nov", "Dec",
 ];
 
+// "UTC" isn't always part of the runtime's canonical zone list.
+const TIME_ZONES = ["UTC", ...Intl.supportedValuesOf("timeZone").filter((tz) => tz !== "UTC")];
+
 type OrgSeason = {
   id: string;
   name: string;
@@ -34,6 +38,14 @@ type Venue = {
   state?: string | null;
   country?: string | null;
   notes?: string | null;
+  timezone?: string | null;
+};
+
+type BlackoutDate = {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
 };
 
 type CustomRole = {
@@ -58,7 +70,7 @@ const PERMISSION_LABELS: { key: keyof Omit<CustomRole, "id" | "name" | "descript
 ];
 
 export default function SettingsPage() {
-  const { selectedOrganizationId, canEdit, canManageOrg } = useAuth();
+  const { selectedOrganizationId, canEdit, canManageOrg, isManager } = useAuth();
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingSeason, setEditingSeason] = useState<OrgSeason | null>(null);
   const [formName, setFormName] = useState("");
@@ -75,6 +87,9 @@ export default function SettingsPage() {
   const [reportFrequencies, setReportFrequencies] = useState<string[]>([]);
   const [reportSaving, setReportSaving] = useState(false);
   const [reportSaved, setReportSaved] = useState(false);
+  const [timezone, setTimezone] = useState("UTC");
+  const [timezoneSaving, setTimezoneSaving] = useState(false);
+  const [timezoneSaved, setTimezoneSaved] = useState(false);
 
   // Payroll config
   type Deduction = { id: string; name: string; type: "FLAT" | "PERCENT"; value: string };
@@ -87,9 +102,13 @@ export default function SettingsPage() {
   // Venues
   const [showVenueForm, setShowVenueForm] = useState(false);
   const [editingVenue, setEditingVenue] = useState<Venue | null>(null);
-  const [venueForm, setVenueForm] = useState({ name: "", address: "", city: "", state: "", country: "", notes: "" });
+  const [venueForm, setVenueForm] = useState({ name: "", address: "", city: "", state: "", country: "", notes: "", timezone: "" });
   const [venueError, setVenueError] = useState("");
 
+  // Blackout dates
+  const [blackoutForm, setBlackoutForm] = useState({ name: "", startDate: "", endDate: "" });
+  const [blackoutError, setBlackoutError] = useState("");
+
   // Stripe Connect
   const [connectLoading, setConnectLoading] = useState(false);
   const [connectError, setConnectError] = useState("");
@@ -119,6 +138,7 @@ export default function SettingsPage() {
       if (org.coachHealthAccess) setCoachHealthAccess(org.coachHealthAccess);
       if (org.allowCoachHourEdit !== undefined) setAllowCoachHourEdit(org.allowCoachHourEdit);
       if (org.reportFrequencies) setReportFrequencies(org.reportFrequencies);
+      if (org.timezone) setTimezone(org.timezone);
       if (org.payrollConfig) {
         if (org.payrollConfig.payPeriod) setPayPeriod(org.payrollConfig.payPeriod);
         if (org.payrollConfig.defaultHourlyRate != null) setDefaultHourlyRate(String(org.payrollConfig.defaultHourlyRate));
@@ -150,6 +170,15 @@ export default function SettingsPage() {
 
   const venues: Venue[] = venuesData?.organizationVenues || [];
 
+  const { data: blackoutData, refetch: refetchBlackouts } = useQuery<{ blackoutDates: BlackoutDate[] }>(GET_BLACKOUT_DATES, {
+    variables: { organizationId: selectedOrganizationId },
+    skip: !selectedOrganizationId || !canManageOrg,
+  });
+  const [createBlackoutDate] = useMutation(CREATE_BLACKOUT_DATE);
+  const [deleteBlackoutDate] = useMutation(DELETE_BLACKOUT_DATE);
+
+  const blackoutDates: BlackoutDate[] = blackoutData?.blackoutDates || [];
+
   const { data: rolesData, refetch: refetchRoles } = useQuery<any>(GET_CUSTOM_ROLES, {
     variables: { organizationId: selectedOrganizationId },
     skip: !selectedOrganizationId || !canManageOrg,
@@ -318,6 +347,22 @@ export default function SettingsPage() {
     }
   };
 
+  const handleSaveTimezone = async () => {
+    if (!selectedOrganizationId) return;
+    setTimezoneSaving(true);
+    try {
+      await updateOrganizationSettings({
+        variables: { id: selectedOrganizationId, timezone },
+      });
+      setTimezoneSaved(true);
+      setTimeout(() => setTimezoneSaved(false), 2000);
+    } catch (err) {
+      console.error("Failed to save time zone:", err);
+    } finally {
+      setTimezoneSaving(false);
+    }
+  };
+
   const handleSaveReportFrequencies = async () => {
     if (!selectedOrganizationId) return;
     setReportSaving(true);
@@ -389,7 +434,7 @@ export default function SettingsPage() {
   const resetVenueForm = () => {
     setShowVenueForm(false);
     setEditingVenue(null);
-    setVenueForm({ name: "", address: "", city: "", state: "", country: "", notes: "" });
+    setVenueForm({ name: "", address: "", city: "", state: "", country: "", notes: "", timezone: "" });
     setVenueError("");
   };
 
@@ -402,6 +447,7 @@ export default function SettingsPage() {
       state: venue.state || "",
       country: venue.country || "",
       notes: venue.notes || "",
+      timezone: venue.timezone || "",
     });
     setShowVenueForm(false);
     setVenueError("");
@@ -420,6 +466,7 @@ export default function SettingsPage() {
             state: venueForm.state.trim() || undefined,
             country: venueForm.country.trim() || undefined,
             notes: venueForm.notes.trim() || undefined,
+            timezone: venueForm.timezone || undefined,
             organizationId: selectedOrganizationId,
           },
         },
@@ -445,6 +492,7 @@ export default function SettingsPage() {
             state: venueForm.state.trim() || undefined,
             country: venueForm.country.trim() || undefined,
             notes: venueForm.notes.trim() || undefined,
+            timezone: venueForm.timezone,
           },
         },
       });
@@ -466,6 +514,41 @@ export default function SettingsPage() {
     }
   };
 
+  const handleCreateBlackout = async () => {
+    if (!selectedOrganizationId || !blackoutForm.name.trim() || !blackoutForm.startDate) return;
+    setBlackoutError("");
+    try {
+      await createBlackoutDate({
+        variables: {
+          input: {
+            organizationId: selectedOrganizationId,
+            name: blackoutForm.name.trim(),
+            startDate: blackoutForm.startDate,
+            endDate: blackoutForm.endDate || undefined,
+          },
+        },
+      });
+      setBlackoutForm({ name: "", startDate: "", endDate: "" });
+      refetchBlackouts();
+    } catch (err) {
+      setBlackoutError(err instanceof Error ? err.message : "Failed to add blackout date");
+    }
+  };
+
+  const handleDeleteBlackout = async (blackout: BlackoutDate) => {
+    if (!confirm(`Delete "${blackout.name}"?`)) return;
+    setBlackoutError("");
+    try {
+      await deleteBlackoutDate({ variables: { id: blackout.id } });
+      refetchBlackouts();
+    } catch (err) {
+      setBlackoutError(err instanceof Error ? err.message : "Failed to delete blackout date");
+    }
+  };
+
+  const formatBlackoutDay = (iso: string) =>
+    new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+
   const SeasonForm = ({ isEditing }: { isEditing: boolean }) => (
     <div className="bg-white/5 rounded-lg p-4 space-y-3">
       <div>
@@ -775,6 +858,122 @@ export default function SettingsPage() {
         </section>
       )}
 
+      {/* Time Zone */}
+      {canManageOrg && (
+        <section className="mb-8">
+          <div className="flex items-center gap-2 mb-4">
+            <Globe className="w-5 h-5 text-[#a78bfa]" />
+            <h2 className="text-lg font-semibold text-white">Time Zone</h2>
+          </div>
+          <div className="bg-white/8 rounded-lg border border-white/8 p-4 space-y-4">
+            <p className="text-sm text-white/55">
+              Event start and end times are interpreted in this time zone for check-ins, reminders, and calendar exports. Venues can override it.
+            </p>
+            <select
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              className="w-full sm:w-80 px-3 py-2 bg-white/8 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+            >
+              {TIME_ZONES.map((tz) => (
+                <option key={tz} value={tz}>{tz}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleSaveTimezone}
+              disabled={timezoneSaving}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-[#6c5ce7] text-white rounded-lg text-sm hover:bg-[#5a4dd4] transition-colors disabled:opacity-50"
+            >
+              {timezoneSaved ? <><Check className="w-4 h-4" /> Saved</> : timezoneSaving ? "Saving..." : <><Check className="w-4 h-4" /> Save</>}
+            </button>
+          </div>
+        </section>
+      )}
+
+      {/* Blackout Dates */}
+      {canManageOrg && (
+        <section className="mb-8">
+          <div className="flex items-center gap-2 mb-4">
+            <CalendarOff className="w-5 h-5 text-[#a78bfa]" />
+            <h2 className="text-lg font-semibold text-white">Blackout Dates</h2>
+          </div>
+          <div className="bg-white/8 rounded-lg border border-white/8 p-4">
+            <p className="text-sm text-white/55 mb-4">
+              Holidays and facility closures. Recurring events skip these days when they are created or regenerated; existing events are not changed.
+            </p>
+
+            {blackoutError && (
+              <div className="mb-4 p-3 bg-red-600/10 border border-red-600/20 rounded-lg text-red-400 text-sm">
+                {blackoutError}
+              </div>
+            )}
+
+            {blackoutDates.length > 0 ? (
+              <div className="space-y-2 mb-4">
+                {blackoutDates.map((blackout) => (
+                  <div key={blackout.id} className="flex items-center justify-between px-3 py-2.5 bg-white/5 rounded-lg">
+                    <div>
+                      <span className="text-white font-medium">{blackout.name}</span>
+                      <span className="text-white/55 text-sm ml-3">
+                        {formatBlackoutDay(blackout.startDate)}
+                        {blackout.endDate.slice(0, 10) !== blackout.startDate.slice(0, 10) && ` – ${formatBlackoutDay(blackout.endDate)}`}
+                      </span>
+                    </div>
+                    <button
+                      onClick={() => handleDeleteBlackout(blackout)}
+                      className="p-1.5 text-white/55 hover:text-red-500 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-white/40 text-sm text-center py-4">No blackout dates defined.</p>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-[1fr_160px_160px_auto] gap-2 items-end">
+              <div>
+                <label className="block text-sm font-medium text-white/55 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={blackoutForm.name}
+                  onChange={(e) => setBlackoutForm({ ...blackoutForm, name: e.target.value })}
+                  placeholder="e.g. Winter Break"
+                  className="w-full px-3 py-2 bg-white/8 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#6c5ce7] placeholder:text-white/25"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-white/55 mb-1">From</label>
+                <input
+                  type="date"
+                  value={blackoutForm.startDate}
+                  onChange={(e) => setBlackoutForm({ ...blackoutForm, startDate: e.target.value })}
+                  className="w-full px-3 py-2 bg-white/8 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-white/55 mb-1">To (optional)</label>
+                <input
+                  type="date"
+                  value={blackoutForm.endDate}
+                  min={blackoutForm.startDate || undefined}
+                  onChange={(e) => setBlackoutForm({ ...blackoutForm, endDate: e.target.value })}
+                  className="w-full px-3 py-2 bg-white/8 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+                />
+              </div>
+              <button
+                onClick={handleCreateBlackout}
+                disabled={!blackoutForm.name.trim() || !blackoutForm.startDate}
+                className="flex items-center justify-center gap-1.5 px-3 py-2 bg-[#6c5ce7] text-white rounded-lg text-sm hover:bg-[#5a4dd4] transition-colors disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                Add
+              </button>
+            </div>
+          </div>
+        </section>
+      )}
+
       {/* Payroll Configuration */}
       {canManageOrg && (
         <section className="mb-8">
@@ -982,6 +1181,30 @@ export default function SettingsPage() {
         </section>
       )}
 
+      {/* Attendance Policy */}
+      {canManageOrg && selectedOrganizationId && <AttendancePolicySection organizationId={selectedOrganizationId} />}
+
+      {/* Attendance Escalations */}
+      {canManageOrg && selectedOrganizationId && <EscalationRulesSection organizationId={selectedOrganizationId} />}
+
+      {/* Excuse Categories */}
+      {canManageOrg && selectedOrganizationId && <ExcuseCategoriesSection organizationId={selectedOrganizationId} />}
+
+      {/* Opponents */}
+      {(canManageOrg || isManager) && selectedOrganizationId && (
+        <OpponentsSection organizationId={selectedOrganizationId} canDelete={canManageOrg} />
+      )}
+
+      {/* Event Templates */}
+      {(canManageOrg || isManager) && selectedOrganizationId && (
+        <EventTemplatesSection organizationId={selectedOrganizationId} venues={venues} />
+      )}
+
+      {/* Kiosk Devices */}
+      {(canManageOrg || isManager) && selectedOrganizationId && (
+        <KioskDevicesSection organizationId={selectedOrganizationId} venues={venues} />
+      )}
+
       {/* Custom Roles */}
       {canManageOrg && (
         <section className="mb-8">
@@ -1320,96 +1543,1760 @@ export default function SettingsPage() {
   );
 }
 
-type VenueFormValues = { name: string; address: string; city: string; state: string; country: string; notes: string };
+type AttendancePolicy = {
+  id: string;
+  team?: { id: string; name: string } | null;
+  eventType?: string | null;
+  checkInWindowMinutes?: number | null;
+  lateGraceMinutes?: number | null;
+  minPresencePercent?: number | null;
+};
 
-function VenueForm({
-  isEditing,
-  values,
-  onChange,
-  onCancel,
-  onSubmit,
-}: {
-  isEditing: boolean;
-  values: VenueFormValues;
-  onChange: (updater: (prev: VenueFormValues) => VenueFormValues) => void;
-  onCancel: () => void;
-  onSubmit: () => void;
-}) {
-  const inputClass = "w-full px-3 py-2 bg-white/8 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]";
+type PolicyFormValues = {
+  teamId: string;
+  eventType: string;
+  checkInWindowMinutes: string;
+  lateGraceMinutes: string;
+  minPresencePercent: string;
+};
 
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, nextId?: string) => {
-    if (e.key === "Enter") {
-      e.preventDefault();
-      if (nextId) {
-        document.getElementById(nextId)?.focus();
-      } else {
-        onSubmit();
-      }
+const POLICY_EVENT_TYPES: { value: string; label: string }[] = [
+  { value: "PRACTICE", label: "Practices" },
+  { value: "GAME", label: "Games" },
+  { value: "EVENT", label: "Events" },
+  { value: "MEETING", label: "Meetings" },
+  { value: "REST", label: "Rest days" },
+];
+
+function policyScopeLabel(policy: AttendancePolicy) {
+  const type = POLICY_EVENT_TYPES.find((t) => t.value === policy.eventType)?.label;
+  if (!policy.team && !type) return "Organization default";
+  return [policy.team?.name ?? "All teams", type ?? "all event types"].join(" · ");
+}
+
+function policyRulesLabel(policy: AttendancePolicy) {
+  const rules = [
+    policy.checkInWindowMinutes != null && `Check-in opens ${policy.checkInWindowMinutes} min early`,
+    policy.lateGraceMinutes != null && `${policy.lateGraceMinutes} min grace`,
+    policy.minPresencePercent != null && `${policy.minPresencePercent}% minimum presence`,
+  ].filter(Boolean);
+  return rules.length > 0 ? rules.join(" · ") : "Inherits everything";
+}
+
+function AttendancePolicySection({ organizationId }: { organizationId: string }) {
+  const [form, setForm] = useState<PolicyFormValues | null>(null);
+  // Editing an existing policy or the org default keeps its team / event type
+  const [scopeLocked, setScopeLocked] = useState(false);
+  const [policyError, setPolicyError] = useState("");
+
+  const { data, refetch } = useQuery<{ attendancePolicies: AttendancePolicy[] }>(GET_ATTENDANCE_POLICIES, {
+    variables: { organizationId },
+  });
+  const { data: teamsData } = useQuery<{ teams: { id: string; name: string }[] }>(GET_TEAMS, {
+    variables: { organizationId },
+  });
+  const [setAttendancePolicy, { loading: saving }] = useMutation(SET_ATTENDANCE_POLICY);
+  const [deleteAttendancePolicy] = useMutation(DELETE_ATTENDANCE_POLICY);
+
+  const policies = data?.attendancePolicies || [];
+  const teams = teamsData?.teams || [];
+  const hasDefault = policies.some((p) => !p.team && !p.eventType);
+
+  const toNumber = (value: string) => (value.trim() === "" ? null : Number(value));
+
+  const openForm = (policy?: AttendancePolicy, scope?: Partial<PolicyFormValues>) => {
+    setPolicyError("");
+    setScopeLocked(!scope);
+    setForm({
+      teamId: policy?.team?.id ?? "",
+      eventType: policy?.eventType ?? "",
+      checkInWindowMinutes: policy?.checkInWindowMinutes?.toString() ?? "",
+      lateGraceMinutes: policy?.lateGraceMinutes?.toString() ?? "",
+      minPresencePercent: policy?.minPresencePercent?.toString() ?? "",
+      ...scope,
+    });
+  };
+
+  const closeForm = () => setForm(null);
+
+  const handleSave = async () => {
+    if (!form) return;
+    setPolicyError("");
+    try {
+      await setAttendancePolicy({
+        variables: {
+          input: {
+            organizationId,
+            teamId: form.teamId || null,
+            eventType: form.eventType || null,
+            checkInWindowMinutes: toNumber(form.checkInWindowMinutes),
+            lateGraceMinutes: toNumber(form.lateGraceMinutes),
+            minPresencePercent: toNumber(form.minPresencePercent),
+          },
+        },
+      });
+      closeForm();
+      refetch();
+    } catch (err) {
+      setPolicyError(err instanceof Error ? err.message : "Failed to save attendance policy");
+    }
+  };
+
+  const handleDelete = async (policy: AttendancePolicy) => {
+    if (!confirm(`Remove the "${policyScopeLabel(policy)}" attendance rules?`)) return;
+    setPolicyError("");
+    try {
+      await deleteAttendancePolicy({ variables: { id: policy.id } });
+      refetch();
+    } catch (err) {
+      setPolicyError(err instanceof Error ? err.message : "Failed to remove attendance policy");
     }
   };
 
+  const inputClass =
+    "w-full px-3 py-2 bg-white/8 border border-white/10 rounded-lg text-white text-sm placeholder-white/30 focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]";
+
   return (
-    <div className="bg-white/5 rounded-lg p-4 space-y-3">
-      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-        <div className="sm:col-span-2">
-          <label className="block text-sm font-medium text-white/55 mb-1">Venue Name *</label>
-          <input
-            id="vf-name"
-            type="text"
-            value={values.name}
-            onChange={(e) => onChange(f => ({ ...f, name: e.target.value }))}
-            onKeyDown={(e) => handleKeyDown(e, "vf-address")}
-            placeholder="Main Gym"
-            className={inputClass}
-          />
-        </div>
-        <div>
-          <label className="block text-sm font-medium text-white/55 mb-1">Address</label>
-          <input
-            id="vf-address"
-            type="text"
-            value={values.address}
-            onChange={(e) => onChange(f => ({ ...f, address: e.target.value }))}
-            onKeyDown={(e) => handleKeyDown(e, "vf-city")}
-            placeholder="123 Main St."
-            className={inputClass}
-          />
-        </div>
-        <div>
-          <label className="block text-sm font-medium text-white/55 mb-1">City</label>
-          <input
-            id="vf-city"
-            type="text"
-            value={values.city}
-            onChange={(e) => onChange(f => ({ ...f, city: e.target.value }))}
-            onKeyDown={(e) => handleKeyDown(e, "vf-state")}
-            placeholder="Toronto"
-            className={inputClass}
-          />
+    <section className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Clock className="w-5 h-5 text-[#a78bfa]" />
+          <h2 className="text-lg font-semibold text-white">Attendance Policy</h2>
         </div>
-        <div>
-          <label className="block text-sm font-medium text-white/55 mb-1">State / Province</label>
-          <input
-            id="vf-state"
-            type="text"
-            value={values.state}
-            onChange={(e) => onChange(f => ({ ...f, state: e.target.value }))}
-            onKeyDown={(e) => handleKeyDown(e, "vf-country")}
-            placeholder="ON"
-            className={inputClass}
-          />
+        {!form && (
+          <button
+            onClick={() => openForm(undefined, { teamId: teams[0]?.id ?? "" })}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-[#6c5ce7] text-white rounded-lg text-sm hover:bg-[#5a4dd4] transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add Override
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white/8 rounded-lg border border-white/8 p-4">
+        <p className="text-sm text-white/55 mb-4">
+          When check-in opens, how late an athlete can arrive and still be on time, and how much of an event they must
+          stay for to get credit. Athletes who leave sooner are marked Left Early. Overrides for a team or event type
+          replace only the rules they set.
+        </p>
+
+        {policyError && (
+          <div className="mb-4 p-3 bg-red-600/10 border border-red-600/20 rounded-lg text-red-400 text-sm">
+            {policyError}
+          </div>
+        )}
+
+        <div className="space-y-2 mb-4">
+          {!hasDefault && (
+            <div className="flex items-center justify-between px-3 py-2.5 bg-white/5 rounded-lg">
+              <div>
+                <span className="text-white font-medium">Organization default</span>
+                <span className="text-white/40 text-xs ml-3">
+                  Check-in opens 30 min early · no grace · no minimum presence
+                </span>
+              </div>
+              {!form && (
+                <button onClick={() => openForm()} className="p-1.5 text-white/55 hover:text-white transition-colors">
+                  <Edit2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          )}
+          {policies.map((policy) => (
+            <div key={policy.id} className="flex items-center justify-between px-3 py-2.5 bg-white/5 rounded-lg">
+              <div>
+                <span className="text-white font-medium">{policyScopeLabel(policy)}</span>
+                <span className="text-white/40 text-xs ml-3">{policyRulesLabel(policy)}</span>
+              </div>
+              {!form && (
+                <div className="flex items-center gap-1 shrink-0 ml-2">
+                  <button onClick={() => openForm(policy)} className="p-1.5 text-white/55 hover:text-white transition-colors">
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(policy)}
+                    className="p-1.5 text-white/55 hover:text-red-500 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
         </div>
-        <div>
-          <label className="block text-sm font-medium text-white/55 mb-1">Country</label>
-          <input
-            id="vf-country"
-            type="text"
-            value={values.country}
-            onChange={(e) => onChange(f => ({ ...f, country: e.target.value }))}
-            onKeyDown={(e) => handleKeyDown(e, "vf-notes")}
-            placeholder="Canada"
-            className={inputClass}
-          />
+
+        {form && (
+          <div className="p-3 bg-white/5 rounded-lg space-y-3">
+            {!scopeLocked && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-white/55 mb-1">Team</label>
+                  <select
+                    value={form.teamId}
+                    onChange={(e) => setForm({ ...form, teamId: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">All teams</option>
+                    {teams.map((team) => (
+                      <option key={team.id} value={team.id}>{team.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-white/55 mb-1">Event Type</label>
+                  <select
+                    value={form.eventType}
+                    onChange={(e) => setForm({ ...form, eventType: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">All event types</option>
+                    {POLICY_EVENT_TYPES.map((type) => (
+                      <option key={type.value} value={type.value}>{type.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs text-white/55 mb-1">Check-in opens (min before)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.checkInWindowMinutes}
+                  onChange={(e) => setForm({ ...form, checkInWindowMinutes: e.target.value })}
+                  placeholder="Inherit"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-white/55 mb-1">Late after (min grace)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.lateGraceMinutes}
+                  onChange={(e) => setForm({ ...form, lateGraceMinutes: e.target.value })}
+                  placeholder="Inherit"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-white/55 mb-1">Minimum presence (%)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={form.minPresencePercent}
+                  onChange={(e) => setForm({ ...form, minPresencePercent: e.target.value })}
+                  placeholder="Inherit"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <button onClick={closeForm} className="px-3 py-1.5 text-white/55 hover:text-white text-sm transition-colors">
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-3 py-1.5 bg-[#6c5ce7] text-white rounded-lg text-sm hover:bg-[#5a4dd4] disabled:opacity-50 transition-colors"
+              >
+                {saving ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
+
+type EscalationRule = {
+  id: string;
+  team?: { id: string; name: string } | null;
+  name: string;
+  trigger: string;
+  threshold: number;
+  periodDays?: number | null;
+  notifyCoaches: boolean;
+  notifyGuardians: boolean;
+  createFollowUp: boolean;
+  proposedStatus?: string | null;
+  isActive: boolean;
+};
+
+type EscalationFormValues = {
+  name: string;
+  teamId: string;
+  trigger: string;
+  threshold: string;
+  periodDays: string;
+  notifyCoaches: boolean;
+  notifyGuardians: boolean;
+  createFollowUp: boolean;
+  proposedStatus: string;
+};
+
+const ESCALATION_TRIGGERS: { value: string; label: string; thresholdLabel: string }[] = [
+  { value: "ABSENCES_IN_PERIOD", label: "Absences within a period", thresholdLabel: "Absences" },
+  { value: "LATE_STREAK", label: "Late arrivals in a row", thresholdLabel: "Late arrivals" },
+  { value: "ATTENDANCE_BELOW", label: "Attendance rate below", thresholdLabel: "Attendance (%)" },
+];
+
+const EMPTY_ESCALATION_FORM: EscalationFormValues = {
+  name: "",
+  teamId: "",
+  trigger: "ABSENCES_IN_PERIOD",
+  threshold: "3",
+  periodDays: "30",
+  notifyCoaches: true,
+  notifyGuardians: false,
+  createFollowUp: false,
+  proposedStatus: "",
+};
+
+function escalationTriggerLabel(rule: EscalationRule) {
+  if (rule.trigger === "ABSENCES_IN_PERIOD") return `${rule.threshold} absences in ${rule.periodDays} days`;
+  if (rule.trigger === "LATE_STREAK") return `${rule.threshold} late arrivals in a row`;
+  return `Attendance under ${rule.threshold}% ${rule.periodDays ? `over ${rule.periodDays} days` : "this season"}`;
+}
+
+function escalationActionsLabel(rule: EscalationRule) {
+  return [
+    rule.notifyCoaches && "notify coaches",
+    rule.notifyGuardians && "notify guardians",
+    rule.createFollowUp && "open a follow-up",
+    rule.proposedStatus && `propose ${rule.proposedStatus.toLowerCase()}`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+function EscalationRulesSection({ organizationId }: { organizationId: string }) {
+  const [form, setForm] = useState<EscalationFormValues | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [ruleError, setRuleError] = useState("");
+
+  const { data, refetch } = useQuery<{ escalationRules: EscalationRule[] }>(GET_ESCALATION_RULES, {
+    variables: { organizationId },
+  });
+  const { data: teamsData } = useQuery<{ teams: { id: string; name: string }[] }>(GET_TEAMS, {
+    variables: { organizationId },
+  });
+  const [createEscalationRule, { loading: creating }] = useMutation(CREATE_ESCALATION_RULE);
+  const [updateEscalationRule, { loading: updating }] = useMutation(UPDATE_ESCALATION_RULE);
+  const [deleteEscalationRule] = useMutation(DELETE_ESCALATION_RULE);
+
+  const rules = data?.escalationRules || [];
+  const teams = teamsData?.teams || [];
+
+  const toInput = (values: EscalationFormValues, isActive: boolean) => ({
+    organizationId,
+    teamId: values.teamId || null,
+    name: values.name,
+    trigger: values.trigger,
+    threshold: Number(values.threshold),
+    periodDays: values.periodDays.trim() === "" ? null : Number(values.periodDays),
+    notifyCoaches: values.notifyCoaches,
+    notifyGuardians: values.notifyGuardians,
+    createFollowUp: values.createFollowUp,
+    proposedStatus: values.proposedStatus || null,
+    isActive,
+  });
+
+  const ruleToForm = (rule: EscalationRule): EscalationFormValues => ({
+    name: rule.name,
+    teamId: rule.team?.id ?? "",
+    trigger: rule.trigger,
+    threshold: rule.threshold.toString(),
+    periodDays: rule.periodDays?.toString() ?? "",
+    notifyCoaches: rule.notifyCoaches,
+    notifyGuardians: rule.notifyGuardians,
+    createFollowUp: rule.createFollowUp,
+    proposedStatus: rule.proposedStatus ?? "",
+  });
+
+  const openForm = (rule?: EscalationRule) => {
+    setRuleError("");
+    setEditingId(rule?.id ?? null);
+    setForm(rule ? ruleToForm(rule) : EMPTY_ESCALATION_FORM);
+  };
+
+  const closeForm = () => {
+    setForm(null);
+    setEditingId(null);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setRuleError("");
+    try {
+      const editing = rules.find((r) => r.id === editingId);
+      if (editing) {
+        await updateEscalationRule({ variables: { id: editing.id, input: toInput(form, editing.isActive) } });
+      } else {
+        await createEscalationRule({ variables: { input: toInput(form, true) } });
+      }
+      closeForm();
+      refetch();
+    } catch (err) {
+      setRuleError(err instanceof Error ? err.message : "Failed to save escalation rule");
+    }
+  };
+
+  const handleToggleActive = async (rule: EscalationRule) => {
+    setRuleError("");
+    try {
+      await updateEscalationRule({ variables: { id: rule.id, input: toInput(ruleToForm(rule), !rule.isActive) } });
+      refetch();
+    } catch (err) {
+      setRuleError(err instanceof Error ? err.message : "Failed to update escalation rule");
+    }
+  };
+
+  const handleDelete = async (rule: EscalationRule) => {
+    if (!confirm(`Delete the "${rule.name}" rule? Its history of alerts will be removed too.`)) return;
+    setRuleError("");
+    try {
+      await deleteEscalationRule({ variables: { id: rule.id } });
+      refetch();
+    } catch (err) {
+      setRuleError(err instanceof Error ? err.message : "Failed to delete escalation rule");
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 bg-white/8 border border-white/10 rounded-lg text-white text-sm placeholder-white/30 focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]";
+  const trigger = ESCALATION_TRIGGERS.find((t) => t.value === form?.trigger);
+
+  return (
+    <section className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-[#a78bfa]" />
+          <h2 className="text-lg font-semibold text-white">Attendance Escalations</h2>
+        </div>
+        {!form && (
+          <button
+            onClick={() => openForm()}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-[#6c5ce7] text-white rounded-lg text-sm hover:bg-[#5a4dd4] transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add Rule
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white/8 rounded-lg border border-white/8 p-4">
+        <p className="text-sm text-white/55 mb-4">
+          Rules checked after every check-in and once absences are recorded. When one fires for an athlete it can alert
+          their coaches and guardians, open a follow-up, or propose a status change for an admin or manager to approve.
+          Each rule fires again only once new attendance meets it.
+        </p>
+
+        {ruleError && (
+          <div className="mb-4 p-3 bg-red-600/10 border border-red-600/20 rounded-lg text-red-400 text-sm">
+            {ruleError}
+          </div>
+        )}
+
+        {rules.length === 0 && !form && <p className="text-white/40 text-sm">No escalation rules yet.</p>}
+
+        {rules.length > 0 && (
+          <div className="space-y-2 mb-4">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between px-3 py-2.5 bg-white/5 rounded-lg">
+                <div className={rule.isActive ? "" : "opacity-50"}>
+                  <span className="text-white font-medium">{rule.name}</span>
+                  <span className="text-white/40 text-xs ml-3">
+                    {rule.team?.name ?? "All teams"} · {escalationTriggerLabel(rule)} → {escalationActionsLabel(rule)}
+                  </span>
+                </div>
+                {!form && (
+                  <div className="flex items-center gap-1 shrink-0 ml-2">
+                    <button
+                      onClick={() => handleToggleActive(rule)}
+                      className="px-2 py-1 text-xs text-white/55 hover:text-white transition-colors"
+                    >
+                      {rule.isActive ? "Pause" : "Resume"}
+                    </button>
+                    <button onClick={() => openForm(rule)} className="p-1.5 text-white/55 hover:text-white transition-colors">
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(rule)}
+                      className="p-1.5 text-white/55 hover:text-red-500 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {form && (
+          <div className="p-3 bg-white/5 rounded-lg space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs text-white/55 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g., Three unexcused absences"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-white/55 mb-1">Team</label>
+                <select
+                  value={form.teamId}
+                  onChange={(e) => setForm({ ...form, teamId: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">All teams</option>
+                  {teams.map((team) => (
+                    <option key={team.id} value={team.id}>{team.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs text-white/55 mb-1">When</label>
+                <select
+                  value={form.trigger}
+                  onChange={(e) => setForm({ ...form, trigger: e.target.value })}
+                  className={inputClass}
+                >
+                  {ESCALATION_TRIGGERS.map((t) => (
+                    <option key={t.value} value={t.value}>{t.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-white/55 mb-1">{trigger?.thresholdLabel ?? "Threshold"}</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={form.trigger === "ATTENDANCE_BELOW" ? 100 : undefined}
+                  value={form.threshold}
+                  onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              {form.trigger !== "LATE_STREAK" && (
+                <div>
+                  <label className="block text-xs text-white/55 mb-1">Within (days)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={366}
+                    value={form.periodDays}
+                    onChange={(e) => setForm({ ...form, periodDays: e.target.value })}
+                    placeholder={form.trigger === "ATTENDANCE_BELOW" ? "This season" : ""}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-x-5 gap-y-2">
+              {(
+                [
+                  ["notifyCoaches", "Notify coaches"],
+                  ["notifyGuardians", "Notify guardians"],
+                  ["createFollowUp", "Open a follow-up"],
+                ] as const
+              ).map(([key, label]) => (
+                <label key={key} className="flex items-center gap-2 text-sm text-white/75 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={form[key]}
+                    onChange={(e) => setForm({ ...form, [key]: e.target.checked })}
+                    className="accent-[#6c5ce7]"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <div className="sm:w-1/3">
+              <label className="block text-xs text-white/55 mb-1">Propose status change</label>
+              <select
+                value={form.proposedStatus}
+                onChange={(e) => setForm({ ...form, proposedStatus: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">None</option>
+                <option value="SUSPENDED">Suspended</option>
+                <option value="QUIT">Quit</option>
+                <option value="RETIRED">Retired</option>
+              </select>
+            </div>
+            <div className="flex justify-end gap-2">
+              <button onClick={closeForm} className="px-3 py-1.5 text-white/55 hover:text-white text-sm transition-colors">
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={creating || updating || !form.name.trim()}
+                className="px-3 py-1.5 bg-[#6c5ce7] text-white rounded-lg text-sm hover:bg-[#5a4dd4] disabled:opacity-50 transition-colors"
+              >
+                {creating || updating ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
+
+type ExcuseCategory = {
+  id: string;
+  name: string;
+  autoApprove: "NEVER" | "ALWAYS" | "WITH_ATTACHMENT";
+  requiresAttachment: boolean;
+  isActive: boolean;
+};
+
+type ExcuseCategoryFormValues = Pick<ExcuseCategory, "name" | "autoApprove" | "requiresAttachment">;
+
+const EMPTY_EXCUSE_CATEGORY_FORM: ExcuseCategoryFormValues = {
+  name: "",
+  autoApprove: "NEVER",
+  requiresAttachment: false,
+};
+
+const AUTO_APPROVE_LABELS: Record<ExcuseCategory["autoApprove"], string> = {
+  NEVER: "Coach reviews",
+  ALWAYS: "Approved automatically",
+  WITH_ATTACHMENT: "Approved automatically with a document",
+};
+
+function ExcuseCategoriesSection({ organizationId }: { organizationId: string }) {
+  const [form, setForm] = useState<ExcuseCategoryFormValues | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [categoryError, setCategoryError] = useState("");
+
+  const { data, refetch } = useQuery<{ excuseCategories: ExcuseCategory[] }>(GET_EXCUSE_CATEGORIES, {
+    variables: { organizationId, includeInactive: true },
+  });
+  const [createExcuseCategory, { loading: creating }] = useMutation(CREATE_EXCUSE_CATEGORY);
+  const [updateExcuseCategory, { loading: updating }] = useMutation(UPDATE_EXCUSE_CATEGORY);
+  const [deleteExcuseCategory] = useMutation(DELETE_EXCUSE_CATEGORY);
+
+  const categories = data?.excuseCategories || [];
+
+  const toInput = (values: ExcuseCategoryFormValues, isActive: boolean) => ({
+    organizationId,
+    name: values.name.trim(),
+    autoApprove: values.autoApprove,
+    requiresAttachment: values.requiresAttachment,
+    isActive,
+  });
+
+  const openForm = (category?: ExcuseCategory) => {
+    setCategoryError("");
+    setEditingId(category?.id ?? null);
+    setForm(
+      category
+        ? { name: category.name, autoApprove: category.autoApprove, requiresAttachment: category.requiresAttachment }
+        : EMPTY_EXCUSE_CATEGORY_FORM
+    );
+  };
+
+  const closeForm = () => {
+    setForm(null);
+    setEditingId(null);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setCategoryError("");
+    try {
+      const editing = categories.find((c) => c.id === editingId);
+      if (editing) {
+        await updateExcuseCategory({ variables: { id: editing.id, input: toInput(form, editing.isActive) } });
+      } else {
+        await createExcuseCategory({ variables: { input: toInput(form, true) } });
+      }
+      closeForm();
+      refetch();
+    } catch (err) {
+      setCategoryError(err instanceof Error ? err.message : "Failed to save excuse category");
+    }
+  };
+
+  const handleToggleActive = async (category: ExcuseCategory) => {
+    setCategoryError("");
+    try {
+      await updateExcuseCategory({ variables: { id: category.id, input: toInput(category, !category.isActive) } });
+      refetch();
+    } catch (err) {
+      setCategoryError(err instanceof Error ? err.message : "Failed to update excuse category");
+    }
+  };
+
+  const handleDelete = async (category: ExcuseCategory) => {
+    if (!confirm(`Delete the "${category.name}" category? Existing excuses keep their history but lose the category.`)) return;
+    setCategoryError("");
+    try {
+      await deleteExcuseCategory({ variables: { id: category.id } });
+      refetch();
+    } catch (err) {
+      setCategoryError(err instanceof Error ? err.message : "Failed to delete excuse category");
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 bg-white/8 border border-white/10 rounded-lg text-white text-sm placeholder-white/30 focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]";
+
+  return (
+    <section className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Tags className="w-5 h-5 text-[#a78bfa]" />
+          <h2 className="text-lg font-semibold text-white">Excuse Categories</h2>
+        </div>
+        {!form && (
+          <button
+            onClick={() => openForm()}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-[#6c5ce7] text-white rounded-lg text-sm hover:bg-[#5a4dd4] transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add Category
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white/8 rounded-lg border border-white/8 p-4">
+        <p className="text-sm text-white/55 mb-4">
+          Athletes pick a category when they submit an excuse. A category can require a supporting document, such as a
+          doctor&apos;s note, and can approve its excuses without waiting for a coach.
+        </p>
+
+        {categoryError && (
+          <div className="mb-4 p-3 bg-red-600/10 border border-red-600/20 rounded-lg text-red-400 text-sm">
+            {categoryError}
+          </div>
+        )}
+
+        {categories.length === 0 && !form && <p className="text-white/40 text-sm">No excuse categories yet.</p>}
+
+        {categories.length > 0 && (
+          <div className="space-y-2 mb-4">
+            {categories.map((category) => (
+              <div key={category.id} className="flex items-center justify-between px-3 py-2.5 bg-white/5 rounded-lg">
+                <div className={category.isActive ? "" : "opacity-50"}>
+                  <span className="text-white font-medium">{category.name}</span>
+                  <span className="text-white/40 text-xs ml-3">
+                    {AUTO_APPROVE_LABELS[category.autoApprove]}
+                    {category.requiresAttachment && " · document required"}
+                  </span>
+                </div>
+                {!form && (
+                  <div className="flex items-center gap-1 shrink-0 ml-2">
+                    <button
+                      onClick={() => handleToggleActive(category)}
+                      className="px-2 py-1 text-xs text-white/55 hover:text-white transition-colors"
+                    >
+                      {category.isActive ? "Pause" : "Resume"}
+                    </button>
+                    <button onClick={() => openForm(category)} className="p-1.5 text-white/55 hover:text-white transition-colors">
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(category)}
+                      className="p-1.5 text-white/55 hover:text-red-500 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {form && (
+          <div className="p-3 bg-white/5 rounded-lg space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs text-white/55 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  maxLength={50}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g., Medical"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-white/55 mb-1">Approval</label>
+                <select
+                  value={form.autoApprove}
+                  onChange={(e) => setForm({ ...form, autoApprove: e.target.value as ExcuseCategory["autoApprove"] })}
+                  className={inputClass}
+                >
+                  {(Object.keys(AUTO_APPROVE_LABELS) as ExcuseCategory["autoApprove"][]).map((value) => (
+                    <option key={value} value={value}>{AUTO_APPROVE_LABELS[value]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-white/75 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={form.requiresAttachment}
+                onChange={(e) => setForm({ ...form, requiresAttachment: e.target.checked })}
+                className="accent-[#6c5ce7]"
+              />
+              Require a supporting document
+            </label>
+            <div className="flex justify-end gap-2">
+              <button onClick={closeForm} className="px-3 py-1.5 text-white/55 hover:text-white text-sm transition-colors">
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={creating || updating || !form.name.trim()}
+                className="px-3 py-1.5 bg-[#6c5ce7] text-white rounded-lg text-sm hover:bg-[#5a4dd4] disabled:opacity-50 transition-colors"
+              >
+                {creating || updating ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
+
+type Opponent = {
+  id: string;
+  name: string;
+  shortName?: string | null;
+  notes?: string | null;
+  archivedAt?: string | null;
+  record: { played: number; wins: number; losses: number; draws: number; goalDifferential: number };
+};
+
+type OpponentFormValues = { name: string; shortName: string; notes: string };
+
+const EMPTY_OPPONENT_FORM: OpponentFormValues = { name: "", shortName: "", notes: "" };
+
+function OpponentsSection({ organizationId, canDelete }: { organizationId: string; canDelete: boolean }) {
+  const [form, setForm] = useState<OpponentFormValues | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [opponentError, setOpponentError] = useState("");
+
+  const { data, refetch } = useQuery<{ opponents: Opponent[] }>(GET_OPPONENTS, {
+    variables: { organizationId },
+  });
+  const [createOpponent, { loading: creating }] = useMutation(CREATE_OPPONENT);
+  const [updateOpponent, { loading: updating }] = useMutation(UPDATE_OPPONENT);
+  const [deleteOpponent] = useMutation(DELETE_OPPONENT);
+
+  const opponents = data?.opponents || [];
+
+  const openForm = (opponent?: Opponent) => {
+    setOpponentError("");
+    setEditingId(opponent?.id ?? null);
+    setForm(
+      opponent
+        ? { name: opponent.name, shortName: opponent.shortName ?? "", notes: opponent.notes ?? "" }
+        : EMPTY_OPPONENT_FORM
+    );
+  };
+
+  const closeForm = () => {
+    setForm(null);
+    setEditingId(null);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setOpponentError("");
+    const input = { name: form.name.trim(), shortName: form.shortName.trim(), notes: form.notes.trim() };
+    try {
+      if (editingId) {
+        await updateOpponent({ variables: { id: editingId, input } });
+      } else {
+        await createOpponent({ variables: { organizationId, input } });
+      }
+      closeForm();
+      refetch();
+    } catch (err) {
+      setOpponentError(err instanceof Error ? err.message : "Failed to save opponent");
+    }
+  };
+
+  const handleDelete = async (opponent: Opponent) => {
+    const message = opponent.record.played > 0
+      ? `Archive ${opponent.name}? Past results keep the opponent, but it can't be picked for new games.`
+      : `Delete ${opponent.name}?`;
+    if (!confirm(message)) return;
+    setOpponentError("");
+    try {
+      await deleteOpponent({ variables: { id: opponent.id } });
+      refetch();
+    } catch (err) {
+      setOpponentError(err instanceof Error ? err.message : "Failed to delete opponent");
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 bg-white/8 border border-white/10 rounded-lg text-white text-sm placeholder-white/30 focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]";
+
+  return (
+    <section className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Swords className="w-5 h-5 text-[#a78bfa]" />
+          <h2 className="text-lg font-semibold text-white">Opponents</h2>
+        </div>
+        {!form && (
+          <button
+            onClick={() => openForm()}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-[#6c5ce7] text-white rounded-lg text-sm hover:bg-[#5a4dd4] transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add Opponent
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white/8 rounded-lg border border-white/8 p-4">
+        <p className="text-sm text-white/55 mb-4">
+          Teams and clubs you play against. Pick one when scheduling a game; scores entered afterwards build each
+          team&apos;s season record.
+        </p>
+
+        {opponentError && (
+          <div className="mb-4 p-3 bg-red-600/10 border border-red-600/20 rounded-lg text-red-400 text-sm">
+            {opponentError}
+          </div>
+        )}
+
+        {opponents.length === 0 && !form && <p className="text-white/40 text-sm">No opponents yet.</p>}
+
+        {opponents.length > 0 && (
+          <div className="space-y-2 mb-4">
+            {opponents.map((opponent) => (
+              <div key={opponent.id} className="flex items-center justify-between px-3 py-2.5 bg-white/5 rounded-lg">
+                <div>
+                  <span className="text-white font-medium">{opponent.name}</span>
+                  {opponent.shortName && <span className="text-white/40 text-xs ml-2">({opponent.shortName})</span>}
+                  <span className="text-white/40 text-xs ml-3">
+                    {opponent.record.played > 0
+                      ? `${opponent.record.wins}-${opponent.record.losses}-${opponent.record.draws} all time`
+                      : "No games played"}
+                  </span>
+                </div>
+                {!form && (
+                  <div className="flex items-center gap-1 shrink-0 ml-2">
+                    <button onClick={() => openForm(opponent)} className="p-1.5 text-white/55 hover:text-white transition-colors">
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    {canDelete && (
+                      <button
+                        onClick={() => handleDelete(opponent)}
+                        className="p-1.5 text-white/55 hover:text-red-500 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {form && (
+          <div className="p-3 bg-white/5 rounded-lg space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div className="sm:col-span-2">
+                <label className="block text-xs text-white/55 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  maxLength={100}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g., Riverside Eagles"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-white/55 mb-1">Short name</label>
+                <input
+                  type="text"
+                  value={form.shortName}
+                  maxLength={20}
+                  onChange={(e) => setForm({ ...form, shortName: e.target.value })}
+                  placeholder="e.g., RIV"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs text-white/55 mb-1">Notes</label>
+              <textarea
+                value={form.notes}
+                maxLength={1000}
+                rows={2}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <button onClick={closeForm} className="px-3 py-1.5 text-white/55 hover:text-white text-sm transition-colors">
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={creating || updating || !form.name.trim()}
+                className="px-3 py-1.5 bg-[#6c5ce7] text-white rounded-lg text-sm hover:bg-[#5a4dd4] disabled:opacity-50 transition-colors"
+              >
+                {creating || updating ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
+
+type TemplatePerson = { id: string; firstName: string; lastName: string };
+
+type EventTemplate = {
+  id: string;
+  name: string;
+  title: string;
+  type: string;
+  durationMinutes: number;
+  location?: string | null;
+  description?: string | null;
+  reminderMinutes?: number | null;
+  team?: { id: string; name: string } | null;
+  venue?: { id: string; name: string } | null;
+  includedAthletes: TemplatePerson[];
+  excludedAthletes: TemplatePerson[];
+  staff: TemplatePerson[];
+};
+
+type EventTemplateFormValues = {
+  name: string;
+  title: string;
+  type: string;
+  durationMinutes: string;
+  teamId: string;
+  venueId: string;
+  location: string;
+  description: string;
+  reminderMinutes: string;
+  includedAthleteIds: string[];
+  excludedAthleteIds: string[];
+  staffUserIds: string[];
+};
+
+const EMPTY_EVENT_TEMPLATE_FORM: EventTemplateFormValues = {
+  name: "",
+  title: "",
+  type: "PRACTICE",
+  durationMinutes: "90",
+  teamId: "",
+  venueId: "",
+  location: "",
+  description: "",
+  reminderMinutes: "",
+  includedAthleteIds: [],
+  excludedAthleteIds: [],
+  staffUserIds: [],
+};
+
+const TEMPLATE_EVENT_TYPES: { value: string; label: string }[] = [
+  { value: "PRACTICE", label: "Practice" },
+  { value: "GAME", label: "Game" },
+  { value: "EVENT", label: "Tournament" },
+  { value: "MEETING", label: "Meeting" },
+];
+
+const TEMPLATE_REMINDER_OPTIONS = [15, 30, 60, 120, 240, 1440];
+
+function formatMinutes(minutes: number) {
+  if (minutes >= 1440 && minutes % 1440 === 0) return `${minutes / 1440} day${minutes > 1440 ? "s" : ""}`;
+  if (minutes >= 60 && minutes % 60 === 0) return `${minutes / 60} hr`;
+  return `${minutes} min`;
+}
+
+function TemplatePeoplePicker({
+  label,
+  people,
+  selectedIds,
+  onChange,
+  inputClass,
+}: {
+  label: string;
+  people: TemplatePerson[];
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+  inputClass: string;
+}) {
+  const byId = new Map(people.map((person) => [person.id, person]));
+  const available = people.filter((person) => !selectedIds.includes(person.id));
+
+  return (
+    <div>
+      <label className="block text-xs text-white/55 mb-1">{label}</label>
+      {selectedIds.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-2">
+          {selectedIds.map((id) => {
+            const person = byId.get(id);
+            return (
+              <span key={id} className="flex items-center gap-1 px-2 py-0.5 bg-[#6c5ce7]/20 text-[#a78bfa] rounded-full text-xs">
+                {person ? `${person.firstName} ${person.lastName}` : "Former member"}
+                <button type="button" onClick={() => onChange(selectedIds.filter((x) => x !== id))}>
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            );
+          })}
+        </div>
+      )}
+      <select
+        value=""
+        onChange={(e) => e.target.value && onChange([...selectedIds, e.target.value])}
+        className={inputClass}
+      >
+        <option value="">Add someone...</option>
+        {available.map((person) => (
+          <option key={person.id} value={person.id}>
+            {person.firstName} {person.lastName}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+function EventTemplatesSection({ organizationId, venues }: { organizationId: string; venues: Venue[] }) {
+  const [form, setForm] = useState<EventTemplateFormValues | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [knownPeople, setKnownPeople] = useState<TemplatePerson[]>([]);
+  const [templateError, setTemplateError] = useState("");
+
+  const { data, refetch } = useQuery<{ eventTemplates: EventTemplate[] }>(GET_EVENT_TEMPLATES, {
+    variables: { organizationId },
+  });
+  const { data: teamsData } = useQuery<{
+    teams: { id: string; name: string; members: { role: string; user: TemplatePerson }[] }[];
+  }>(GET_TEAMS, {
+    variables: { organizationId },
+  });
+  const [createEventTemplate, { loading: creating }] = useMutation(CREATE_EVENT_TEMPLATE);
+  const [updateEventTemplate, { loading: updating }] = useMutation(UPDATE_EVENT_TEMPLATE);
+  const [deleteEventTemplate] = useMutation(DELETE_EVENT_TEMPLATE);
+
+  const templates = data?.eventTemplates || [];
+  const teams = teamsData?.teams || [];
+
+  // Athletes come from the template's team when it has one; staff from every team's coaches
+  const peopleWithRoles = (roles: string[], teamId?: string) => {
+    const people = new Map<string, TemplatePerson>();
+    for (const team of teams) {
+      if (teamId && team.id !== teamId) continue;
+      for (const member of team.members) {
+        if (roles.includes(member.role)) people.set(member.user.id, member.user);
+      }
+    }
+    for (const person of knownPeople) if (!people.has(person.id)) people.set(person.id, person);
+    return [...people.values()].sort((a, b) => a.lastName.localeCompare(b.lastName));
+  };
+  const allAthletes = peopleWithRoles(["MEMBER", "CAPTAIN"]);
+  const teamAthletes = peopleWithRoles(["MEMBER", "CAPTAIN"], form?.teamId || undefined);
+  const staffCandidates = peopleWithRoles(["COACH", "ADMIN"]);
+
+  const openForm = (template?: EventTemplate) => {
+    setTemplateError("");
+    setEditingId(template?.id ?? null);
+    setKnownPeople(template ? [...template.includedAthletes, ...template.excludedAthletes, ...template.staff] : []);
+    setForm(
+      template
+        ? {
+            name: template.name,
+            title: template.title,
+            type: template.type,
+            durationMinutes: String(template.durationMinutes),
+            teamId: template.team?.id ?? "",
+            venueId: template.venue?.id ?? "",
+            location: template.location ?? "",
+            description: template.description ?? "",
+            reminderMinutes: template.reminderMinutes != null ? String(template.reminderMinutes) : "",
+            includedAthleteIds: template.includedAthletes.map((u) => u.id),
+            excludedAthleteIds: template.excludedAthletes.map((u) => u.id),
+            staffUserIds: template.staff.map((u) => u.id),
+          }
+        : EMPTY_EVENT_TEMPLATE_FORM
+    );
+  };
+
+  const closeForm = () => {
+    setForm(null);
+    setEditingId(null);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setTemplateError("");
+    const input = {
+      name: form.name.trim(),
+      title: form.title.trim(),
+      type: form.type,
+      durationMinutes: Number(form.durationMinutes),
+      teamId: form.teamId || null,
+      venueId: form.venueId || null,
+      location: form.location.trim(),
+      description: form.description.trim(),
+      reminderMinutes: form.reminderMinutes ? Number(form.reminderMinutes) : null,
+      includedAthleteIds: form.includedAthleteIds,
+      excludedAthleteIds: form.excludedAthleteIds,
+      staffUserIds: form.staffUserIds,
+    };
+    try {
+      if (editingId) {
+        await updateEventTemplate({ variables: { id: editingId, input } });
+      } else {
+        await createEventTemplate({ variables: { organizationId, input } });
+      }
+      closeForm();
+      refetch();
+    } catch (err) {
+      setTemplateError(err instanceof Error ? err.message : "Failed to save template");
+    }
+  };
+
+  const handleDelete = async (template: EventTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template? Events already scheduled from it stay as they are.`)) return;
+    setTemplateError("");
+    try {
+      await deleteEventTemplate({ variables: { id: template.id } });
+      refetch();
+    } catch (err) {
+      setTemplateError(err instanceof Error ? err.message : "Failed to delete template");
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 bg-white/8 border border-white/10 rounded-lg text-white text-sm placeholder-white/30 focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]";
+
+  return (
+    <section className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <LayoutTemplate className="w-5 h-5 text-[#a78bfa]" />
+          <h2 className="text-lg font-semibold text-white">Event Templates</h2>
+        </div>
+        {!form && (
+          <button
+            onClick={() => openForm()}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-[#6c5ce7] text-white rounded-lg text-sm hover:bg-[#5a4dd4] transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add Template
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white/8 rounded-lg border border-white/8 p-4">
+        <p className="text-sm text-white/55 mb-4">
+          Defaults for events you schedule often. Pick a template when creating an event or series and only the date
+          and start time are left to fill in.
+        </p>
+
+        {templateError && (
+          <div className="mb-4 p-3 bg-red-600/10 border border-red-600/20 rounded-lg text-red-400 text-sm">
+            {templateError}
+          </div>
+        )}
+
+        {templates.length === 0 && !form && <p className="text-white/40 text-sm">No templates yet.</p>}
+
+        {templates.length > 0 && (
+          <div className="space-y-2 mb-4">
+            {templates.map((template) => (
+              <div key={template.id} className="flex items-center justify-between px-3 py-2.5 bg-white/5 rounded-lg">
+                <div className="min-w-0">
+                  <span className="text-white font-medium">{template.name}</span>
+                  <span className="text-white/40 text-xs ml-2">{template.team?.name ?? "All teams"}</span>
+                  <p className="text-white/40 text-xs mt-0.5 truncate">
+                    {[
+                      TEMPLATE_EVENT_TYPES.find((t) => t.value === template.type)?.label ?? template.type,
+                      formatMinutes(template.durationMinutes),
+                      template.venue?.name ?? template.location,
+                      template.reminderMinutes != null && `Reminder ${formatMinutes(template.reminderMinutes)} before`,
+                      template.staff.length > 0 && `${template.staff.length} staff`,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                </div>
+                {!form && (
+                  <div className="flex items-center gap-1 shrink-0 ml-2">
+                    <button onClick={() => openForm(template)} className="p-1.5 text-white/55 hover:text-white transition-colors">
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(template)}
+                      className="p-1.5 text-white/55 hover:text-red-500 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {form && (
+          <div className="p-3 bg-white/5 rounded-lg space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs text-white/55 mb-1">Template name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  maxLength={100}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g., U12 Tuesday Practice"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-white/55 mb-1">Event title</label>
+                <input
+                  type="text"
+                  value={form.title}
+                  maxLength={200}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  placeholder="e.g., Practice"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs text-white/55 mb-1">Type</label>
+                <select value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value })} className={inputClass}>
+                  {TEMPLATE_EVENT_TYPES.map((t) => (
+                    <option key={t.value} value={t.value}>
+                      {t.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-white/55 mb-1">Duration (minutes)</label>
+                <input
+                  type="number"
+                  min={5}
+                  max={1440}
+                  step={5}
+                  value={form.durationMinutes}
+                  onChange={(e) => setForm({ ...form, durationMinutes: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-white/55 mb-1">Team</label>
+                <select
+                  value={form.teamId}
+                  onChange={(e) => setForm({ ...form, teamId: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">All teams</option>
+                  {teams.map((team) => (
+                    <option key={team.id} value={team.id}>
+                      {team.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs text-white/55 mb-1">Venue</label>
+                <select
+                  value={form.venueId}
+                  onChange={(e) => setForm({ ...form, venueId: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">No venue</option>
+                  {venues.map((venue) => (
+                    <option key={venue.id} value={venue.id}>
+                      {venue.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-white/55 mb-1">Location</label>
+                <input
+                  type="text"
+                  value={form.location}
+                  maxLength={200}
+                  onChange={(e) => setForm({ ...form, location: e.target.value })}
+                  placeholder="e.g., Main Gym"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-white/55 mb-1">Reminder</label>
+                <select
+                  value={form.reminderMinutes}
+                  onChange={(e) => setForm({ ...form, reminderMinutes: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Each member&apos;s setting</option>
+                  {TEMPLATE_REMINDER_OPTIONS.map((minutes) => (
+                    <option key={minutes} value={minutes}>
+                      {formatMinutes(minutes)} before
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs text-white/55 mb-1">Description</label>
+              <textarea
+                value={form.description}
+                maxLength={1000}
+                rows={2}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <TemplatePeoplePicker
+              label="Required staff"
+              people={staffCandidates}
+              selectedIds={form.staffUserIds}
+              onChange={(staffUserIds) => setForm({ ...form, staffUserIds })}
+              inputClass={inputClass}
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <TemplatePeoplePicker
+                label="Also include athletes"
+                people={allAthletes.filter((u) => !form.excludedAthleteIds.includes(u.id))}
+                selectedIds={form.includedAthleteIds}
+                onChange={(includedAthleteIds) => setForm({ ...form, includedAthleteIds })}
+                inputClass={inputClass}
+              />
+              <TemplatePeoplePicker
+                label="Leave out athletes"
+                people={teamAthletes.filter((u) => !form.includedAthleteIds.includes(u.id))}
+                selectedIds={form.excludedAthleteIds}
+                onChange={(excludedAthleteIds) => setForm({ ...form, excludedAthleteIds })}
+                inputClass={inputClass}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <button onClick={closeForm} className="px-3 py-1.5 text-white/55 hover:text-white text-sm transition-colors">
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={creating || updating || !form.name.trim() || !form.title.trim() || !form.durationMinutes}
+                className="px-3 py-1.5 bg-[#6c5ce7] text-white rounded-lg text-sm hover:bg-[#5a4dd4] disabled:opacity-50 transition-colors"
+              >
+                {creating || updating ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
+
+type KioskDevice = {
+  id: string;
+  name: string;
+  venue?: { id: string; name: string } | null;
+  lastSeenAt?: string | null;
+  revokedAt?: string | null;
+  createdAt: string;
+};
+
+function KioskDevicesSection({ organizationId, venues }: { organizationId: string; venues: Venue[] }) {
+  const { logout } = useAuth();
+  const [showSetup, setShowSetup] = useState(false);
+  const [name, setName] = useState("");
+  const [venueId, setVenueId] = useState("");
+  const [kioskError, setKioskError] = useState("");
+
+  const { data, refetch } = useQuery<{ kioskDevices: KioskDevice[] }>(GET_KIOSK_DEVICES, {
+    variables: { organizationId },
+  });
+  const [registerKioskDevice, { loading: registering }] = useMutation<{
+    registerKioskDevice: { device: { id: string; name: string }; token: string };
+  }>(REGISTER_KIOSK_DEVICE);
+  const [revokeKioskDevice] = useMutation(REVOKE_KIOSK_DEVICE);
+
+  const devices = data?.kioskDevices || [];
+
+  const handleSetUp = async () => {
+    if (!name.trim()) return;
+    setKioskError("");
+    try {
+      const { data } = await registerKioskDevice({
+        variables: { input: { organizationId, name: name.trim(), venueId: venueId || undefined } },
+      });
+      if (!data) return;
+      // The browser becomes the kiosk: keep only the device token and sign the
+      // staff member out so their session isn't left on a shared tablet
+      setKioskToken(data.registerKioskDevice.token);
+      await logout();
+      window.location.assign("/kiosk");
+    } catch (err) {
+      setKioskError(err instanceof Error ? err.message : "Failed to set up kiosk");
+    }
+  };
+
+  const handleRevoke = async (device: KioskDevice) => {
+    if (!confirm(`Revoke "${device.name}"? It will stop accepting check-ins immediately.`)) return;
+    setKioskError("");
+    try {
+      await revokeKioskDevice({ variables: { id: device.id } });
+      refetch();
+    } catch (err) {
+      setKioskError(err instanceof Error ? err.message : "Failed to revoke kiosk");
+    }
+  };
+
+  return (
+    <section className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Tablet className="w-5 h-5 text-[#a78bfa]" />
+          <h2 className="text-lg font-semibold text-white">Kiosk Devices</h2>
+        </div>
+        {!showSetup && (
+          <button
+            onClick={() => { setShowSetup(true); setKioskError(""); }}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-[#6c5ce7] text-white rounded-lg text-sm hover:bg-[#5a4dd4] transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Set Up This Browser
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white/8 rounded-lg border border-white/8 p-4">
+        <p className="text-sm text-white/55 mb-4">
+          A kiosk is a shared front-desk tablet where athletes check themselves in with a PIN. Setting up this
+          browser signs you out and leaves it signed in as the kiosk only.
+        </p>
+
+        {kioskError && (
+          <div className="mb-4 p-3 bg-red-600/10 border border-red-600/20 rounded-lg text-red-400 text-sm">
+            {kioskError}
+          </div>
+        )}
+
+        {devices.length > 0 && (
+          <div className="space-y-2 mb-4">
+            {devices.map((device) => (
+              <div key={device.id} className="flex items-center justify-between px-3 py-2.5 bg-white/5 rounded-lg">
+                <div>
+                  <span className={`font-medium ${device.revokedAt ? "text-white/40 line-through" : "text-white"}`}>
+                    {device.name}
+                  </span>
+                  {device.venue && <span className="text-white/55 text-sm ml-3">{device.venue.name}</span>}
+                  <span className="text-white/40 text-xs ml-3">
+                    {device.revokedAt
+                      ? "Revoked"
+                      : device.lastSeenAt
+                        ? `Last used ${new Date(device.lastSeenAt).toLocaleString()}`
+                        : "Never used"}
+                  </span>
+                </div>
+                {!device.revokedAt && (
+                  <button
+                    onClick={() => handleRevoke(device)}
+                    className="p-1.5 text-white/55 hover:text-red-500 transition-colors shrink-0 ml-2"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {devices.length === 0 && !showSetup && (
+          <p className="text-white/40 text-sm text-center py-4">No kiosks set up yet.</p>
+        )}
+
+        {showSetup && (
+          <div className="p-3 bg-white/5 rounded-lg space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs text-white/55 mb-1">Kiosk Name *</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g., Front Desk iPad"
+                  className="w-full px-3 py-2 bg-white/8 border border-white/10 rounded-lg text-white text-sm placeholder-white/30 focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+                  autoFocus
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-white/55 mb-1">Venue</label>
+                <select
+                  value={venueId}
+                  onChange={(e) => setVenueId(e.target.value)}
+                  className="w-full px-3 py-2 bg-white/8 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+                >
+                  <option value="">All venues</option>
+                  {venues.map((venue) => (
+                    <option key={venue.id} value={venue.id}>{venue.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => { setShowSetup(false); setName(""); setVenueId(""); }}
+                className="px-3 py-1.5 text-white/55 hover:text-white text-sm transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSetUp}
+                disabled={!name.trim() || registering}
+                className="px-3 py-1.5 bg-[#6c5ce7] text-white rounded-lg text-sm hover:bg-[#5a4dd4] disabled:opacity-50 transition-colors"
+              >
+                {registering ? "Setting up..." : "Set Up Kiosk"}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
+
+type VenueFormValues = { name: string; address: string; city: string; state: string; country: string; notes: string; timezone: string };
+
+function VenueForm({
+  isEditing,
+  values,
+  onChange,
+  onCancel,
+  onSubmit,
+}: {
+  isEditing: boolean;
+  values: VenueFormValues;
+  onChange: (updater: (prev: VenueFormValues) => VenueFormValues) => void;
+  onCancel: () => void;
+  onSubmit: () => void;
+}) {
+  const inputClass = "w-full px-3 py-2 bg-white/8 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]";
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, nextId?: string) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      if (nextId) {
+        document.getElementById(nextId)?.focus();
+      } else {
+        onSubmit();
+      }
+    }
+  };
+
+  return (
+    <div className="bg-white/5 rounded-lg p-4 space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="sm:col-span-2">
+          <label className="block text-sm font-medium text-white/55 mb-1">Venue Name *</label>
+          <input
+            id="vf-name"
+            type="text"
+            value={values.name}
+            onChange={(e) => onChange(f => ({ ...f, name: e.target.value }))}
+            onKeyDown={(e) => handleKeyDown(e, "vf-address")}
+            placeholder="Main Gym"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-white/55 mb-1">Address</label>
+          <input
+            id="vf-address"
+            type="text"
+            value={values.address}
+            onChange={(e) => onChange(f => ({ ...f, address: e.target.value }))}
+            onKeyDown={(e) => handleKeyDown(e, "vf-city")}
+            placeholder="123 Main St."
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-white/55 mb-1">City</label>
+          <input
+            id="vf-city"
+            type="text"
+            value={values.city}
+            onChange={(e) => onChange(f => ({ ...f, city: e.target.value }))}
+            onKeyDown={(e) => handleKeyDown(e, "vf-state")}
+            placeholder="Toronto"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-white/55 mb-1">State / Province</label>
+          <input
+            id="vf-state"
+            type="text"
+            value={values.state}
+            onChange={(e) => onChange(f => ({ ...f, state: e.target.value }))}
+            onKeyDown={(e) => handleKeyDown(e, "vf-country")}
+            placeholder="ON"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-white/55 mb-1">Country</label>
+          <input
+            id="vf-country"
+            type="text"
+            value={values.country}
+            onChange={(e) => onChange(f => ({ ...f, country: e.target.value }))}
+            onKeyDown={(e) => handleKeyDown(e, "vf-notes")}
+            placeholder="Canada"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-white/55 mb-1">Time Zone</label>
+          <select
+            value={values.timezone}
+            onChange={(e) => onChange(f => ({ ...f, timezone: e.target.value }))}
+            className={inputClass}
+          >
+            <option value="">Organization default</option>
+            {TIME_ZONES.map((tz) => (
+              <option key={tz} value={tz}>{tz}</option>
+            ))}
+          </select>
         </div>
         <div className="sm:col-span-2">
           <label className="block text-sm font-medium text-white/55 mb-1">Notes</label>
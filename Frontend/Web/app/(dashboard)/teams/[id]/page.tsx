@@ -12,6 +12,7 @@ import {
   DELETE_EVENT,
   CREATE_RECURRING_EVENT,
   DELETE_RECURRING_EVENT,
+  UPDATE_RECURRING_EVENT,
   UPDATE_TEAM_MEMBER_ROLE,
   ADD_TEAM_MEMBER,
   REMOVE_TEAM_MEMBER,
@@ -21,6 +22,7 @@ import {
   REMOVE_ATHLETE_FROM_RECURRING_EVENT,
   GET_TEAM_CHALLENGES,
   GET_TEAM_RECOGNITIONS,
+  GET_GAME_RESULTS,
 } from "@/lib/graphql";
 import {
   CREATE_TEAM_CHALLENGE,
@@ -50,17 +52,23 @@ import {
   Star,
 } from "lucide-react";
 import Link from "next/link";
+import { formatOpponent, formatScore, RESULT_COLORS } from "@/lib/utils";
 
 type Event = {
   id: string;
   title: string;
-  type: "PRACTICE" | "EVENT" | "MEETING" | "REST";
+  type: "PRACTICE" | "EVENT" | "MEETING" | "REST" | "GAME";
   date: string;
   endDate?: string;
   startTime: string;
   endTime: string;
   location?: string;
   description?: string;
+  opponent?: { id: string; name: string } | null;
+  homeAway?: "HOME" | "AWAY" | "NEUTRAL" | null;
+  teamScore?: number | null;
+  opponentScore?: number | null;
+  result?: "WIN" | "LOSS" | "DRAW" | null;
   checkIns: { id: string; status: string }[];
   recurringEvent?: {
     id: string;
@@ -113,6 +121,7 @@ const EVENT_TYPE_COLORS = {
   EVENT: "bg-red-600/20 text-red-400",
   MEETING: "bg-yellow-600/20 text-yellow-400",
   REST: "bg-white/10 text-white/55",
+  GAME: "bg-orange-600/20 text-orange-400",
 };
 
 export default function TeamDetail() {
@@ -222,6 +231,12 @@ export default function TeamDetail() {
   };
 
   const team = data?.team;
+
+  const { data: resultsData } = useQuery<{ gameResults: (Event & { result: NonNullable<Event["result"]> })[] }>(GET_GAME_RESULTS, {
+    variables: { organizationId: team?.organization?.id, teamId, limit: 5 },
+    skip: !team?.organization?.id,
+  });
+  const recentResults = resultsData?.gameResults || [];
   const events: Event[] = team?.events || [];
   const allMembers: Member[] = team?.members || [];
   const coaches = allMembers.filter((m) => m.role === "COACH");
@@ -444,6 +459,16 @@ export default function TeamDetail() {
             >
               {Math.round(team.attendancePercent || 0)}% attendance
             </span>
+            {team.gameRecord?.played > 0 && (
+              <span className="flex items-center" title="Wins-losses-draws this season">
+                <Trophy className="w-4 h-4 mr-1" />
+                {team.gameRecord.wins}-{team.gameRecord.losses}-{team.gameRecord.draws}
+                <span className="ml-1 text-white/40">
+                  ({team.gameRecord.goalDifferential > 0 ? "+" : ""}
+                  {team.gameRecord.goalDifferential})
+                </span>
+              </span>
+            )}
           </div>
         </div>
         <div className="flex items-center gap-3">
@@ -504,11 +529,27 @@ export default function TeamDetail() {
       {/* Events Tab */}
       {activeTab === "events" && (
         <div>
+          {/* Recent Results */}
+          {recentResults.length > 0 && (
+            <div className="flex items-center gap-2 flex-wrap mb-4">
+              <span className="text-white/55 text-sm mr-1">Recent results</span>
+              {recentResults.map((game) => (
+                <Link
+                  key={game.id}
+                  href={`/events/${game.id}`}
+                  className={`px-2 py-1 rounded text-xs font-medium hover:opacity-80 ${RESULT_COLORS[game.result]}`}
+                >
+                  {formatScore(game)} {formatOpponent(game)}
+                </Link>
+              ))}
+            </div>
+          )}
+
           {/* Filters */}
           <div className="flex items-center justify-between mb-4">
             {/* Type Filters */}
             <div className="flex items-center space-x-2">
-              {["all", "PRACTICE", "EVENT", "MEETING", "REST"].map((type) => (
+              {["all", "PRACTICE", "GAME", "EVENT", "MEETING", "REST"].map((type) => (
                 <button
                   key={type}
                   onClick={() => {
@@ -1231,6 +1272,14 @@ function EventCard({
           <div>
             <div className="flex items-center">
               <h3 className="text-white font-medium">{event.title}</h3>
+              {event.opponent && (
+                <span className="ml-2 text-sm text-white/55">{formatOpponent(event)}</span>
+              )}
+              {event.result && (
+                <span className={`ml-2 px-2 py-0.5 rounded text-xs font-medium ${RESULT_COLORS[event.result]}`}>
+                  {formatScore(event)}
+                </span>
+              )}
               {event.recurringEvent && (
                 <span className="ml-2 flex items-center text-xs text-[#a78bfa]">
                   <Repeat className="w-3 h-3 mr-1" />
@@ -1410,6 +1459,7 @@ function ScheduleTab({
 
   const [createRecurringEvent] = useMutation<any>(CREATE_RECURRING_EVENT);
   const [deleteRecurringEvent] = useMutation<any>(DELETE_RECURRING_EVENT);
+  const [updateRecurringEvent] = useMutation(UPDATE_RECURRING_EVENT);
 
   const toggleDay = (dayIndex: number) => {
     setSchedule(prev => {
@@ -1419,12 +1469,8 @@ function ScheduleTab({
     });
   };
 
-  // Returns true if a day's schedule differs from its original saved state
-  function dayHasChanges(orig: DaySchedule, curr: DaySchedule): boolean {
-    if (orig.active !== curr.active) return true;
-    if (!orig.active && !curr.active) return false;
-    if (orig.startTime !== curr.startTime || orig.endTime !== curr.endTime) return true;
-    if (orig.venueId !== curr.venueId) return true;
+  // Returns true if a day's coaches or athletes differ from its original saved state
+  function rosterHasChanges(orig: DaySchedule, curr: DaySchedule): boolean {
     const origCoaches = orig.coaches.map(u => u.id).sort().join(",");
     const currCoaches = curr.coaches.map(u => u.id).sort().join(",");
     if (origCoaches !== currCoaches) return true;
@@ -1433,6 +1479,15 @@ function ScheduleTab({
     return origAthletes !== currAthletes;
   }
 
+  // Returns true if a day's schedule differs from its original saved state
+  function dayHasChanges(orig: DaySchedule, curr: DaySchedule): boolean {
+    if (orig.active !== curr.active) return true;
+    if (!orig.active && !curr.active) return false;
+    if (orig.startTime !== curr.startTime || orig.endTime !== curr.endTime) return true;
+    if (orig.venueId !== curr.venueId) return true;
+    return rosterHasChanges(orig, curr);
+  }
+
   const changedDays = schedule.filter((curr, i) => dayHasChanges(originalSchedule[i], curr));
   const willReplaceExisting = changedDays.some((_, idx) => {
     const i = schedule.indexOf(changedDays[idx]);
@@ -1472,6 +1527,19 @@ function ScheduleTab({
 
         if (!dayHasChanges(orig, curr)) continue; // Skip unchanged days
 
+        // Only the time or venue changed: edit the series from today on in place,
+        // which keeps its exceptions and any occurrences that already have check-ins
+        if (orig.active && curr.active && orig.recurringEventId && !rosterHasChanges(orig, curr)) {
+          await updateRecurringEvent({
+            variables: {
+              id: orig.recurringEventId,
+              scope: "THIS_AND_FOLLOWING",
+              changes: { startTime: curr.startTime, endTime: curr.endTime, venueId: curr.venueId || null },
+            },
+          });
+          continue;
+        }
+
         // Delete (or trim to future) the old series for this day
         if (orig.active && orig.recurringEventId) {
           await deleteRecurringEvent({
@@ -1702,7 +1770,7 @@ function ScheduleTab({
           <div className="bg-white/8 backdrop-blur-xl rounded-xl w-full max-w-sm p-6 border border-white/15 shadow-2xl">
             <h3 className="text-lg font-bold text-white mb-2">Update Future Events?</h3>
             <p className="text-white/55 text-sm mb-6">
-              Changed days will have their future events replaced. Past events and their attendance records are preserved.
+              Changed days will have their future events updated. Past events and events that already have check-ins are preserved.
             </p>
             <div className="space-y-3">
               <button
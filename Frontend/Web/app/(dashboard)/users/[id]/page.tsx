@@ -28,6 +28,10 @@ import {
   REMOVE_GUARDIAN,
   UPDATE_ATHLETE_STATUS,
   UPSERT_GYMNASTICS_PROFILE,
+  SET_KIOSK_PIN,
+  GET_ESCALATION_FIRINGS,
+  RESOLVE_ESCALATION,
+  DISMISS_ESCALATION,
 } from "@/lib/graphql";
 import {
   ArrowLeft,
@@ -45,6 +49,7 @@ import {
   BarChart3,
   Edit2,
   Lock,
+  LogOut,
   Phone,
   Heart,
   Mail,
@@ -188,6 +193,7 @@ const STATUS_CONFIG: Record<string, { icon: typeof CheckCircle; color: string; b
   LATE: { icon: Clock, color: "text-yellow-500", bg: "bg-yellow-500/20", label: "Late" },
   ABSENT: { icon: XCircle, color: "text-red-500", bg: "bg-red-500/20", label: "Absent" },
   EXCUSED: { icon: AlertCircle, color: "text-[#6c5ce7]", bg: "bg-[#a855f7]/15", label: "Excused" },
+  LEFT_EARLY: { icon: LogOut, color: "text-orange-400", bg: "bg-orange-500/20", label: "Left Early" },
 };
 
 export default function UserDetailPage() {
@@ -210,6 +216,8 @@ export default function UserDetailPage() {
   const [gymDiscipline, setGymDiscipline] = useState("");
   const [gymApparatus, setGymApparatus] = useState<string[]>([]);
   const [gymNotes, setGymNotes] = useState("");
+  const [kioskPin, setKioskPin] = useState("");
+  const [kioskPinMessage, setKioskPinMessage] = useState<{ ok: boolean; text: string } | null>(null);
 
   const { data, loading, refetch } = useQuery<any>(GET_ORGANIZATION_USERS, {
     variables: { id: selectedOrganizationId },
@@ -248,6 +256,7 @@ export default function UserDetailPage() {
 
   const [updateAthleteStatus] = useMutation<any>(UPDATE_ATHLETE_STATUS);
   const [upsertGymnasticsProfile] = useMutation<any>(UPSERT_GYMNASTICS_PROFILE);
+  const [setKioskPinMutation, { loading: kioskPinSaving }] = useMutation<{ setKioskPin: boolean }>(SET_KIOSK_PIN);
 
   const [updateOrgMemberRole] = useMutation<any>(UPDATE_ORG_MEMBER_ROLE);
   const [updateTeamMemberRole] = useMutation<any>(UPDATE_TEAM_MEMBER_ROLE);
@@ -275,6 +284,8 @@ export default function UserDetailPage() {
 
   const canChangeAthleteStatus = isOwner || isAdmin || viewerOrgRole === "MANAGER";
   const canEditGymnasticsProfile = isOwner || isAdmin || viewerOrgRole === "MANAGER" || viewerOrgRole === "COACH";
+  const canSetKioskPin = isOwner || isAdmin || viewerOrgRole === "MANAGER" || viewerOrgRole === "COACH";
+  const canReviewAttendanceAlerts = isOwner || isAdmin || viewerOrgRole === "MANAGER" || viewerOrgRole === "COACH";
 
   const statusHistory: AthleteStatusRecord[] = statusHistoryData?.athleteStatusHistory || [];
   const gymnProfile: GymnasticsProfile | null = gymnProfileData?.gymnasticsProfile || null;
@@ -370,6 +381,18 @@ export default function UserDetailPage() {
     }
   };
 
+  const handleSetKioskPin = async () => {
+    if (!selectedOrganizationId) return;
+    setKioskPinMessage(null);
+    try {
+      await setKioskPinMutation({ variables: { organizationId: selectedOrganizationId, userId, pin: kioskPin } });
+      setKioskPin("");
+      setKioskPinMessage({ ok: true, text: "Kiosk PIN saved" });
+    } catch (error) {
+      setKioskPinMessage({ ok: false, text: error instanceof Error ? error.message : "Failed to set kiosk PIN" });
+    }
+  };
+
   const openGymnasticsForm = () => {
     setGymLevel(gymnProfile?.level || "");
     setGymDiscipline(gymnProfile?.discipline || "");
@@ -681,6 +704,51 @@ export default function UserDetailPage() {
             </div>
           )}
 
+          {/* Attendance Alerts (only for athletes) */}
+          {member.role === "ATHLETE" && canReviewAttendanceAlerts && selectedOrganizationId && (
+            <AttendanceAlertsCard
+              userId={userId}
+              organizationId={selectedOrganizationId}
+              canChangeAthleteStatus={canChangeAthleteStatus}
+              onStatusChanged={() => { refetch(); refetchStatusHistory(); }}
+            />
+          )}
+
+          {/* Kiosk PIN (only for athletes) */}
+          {member.role === "ATHLETE" && canSetKioskPin && (
+            <div className="bg-white/8 rounded-xl border border-white/8 p-6">
+              <div className="flex items-center gap-2 mb-2">
+                <Lock className="w-5 h-5 text-[#a78bfa]" />
+                <h2 className="text-lg font-semibold text-white">Kiosk PIN</h2>
+              </div>
+              <p className="text-sm text-white/55 mb-4">
+                The 4 to 6 digit PIN this athlete enters to check in at a front-desk kiosk. Setting a new PIN replaces the old one.
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  maxLength={6}
+                  value={kioskPin}
+                  onChange={(e) => { setKioskPin(e.target.value.replace(/\D/g, "")); setKioskPinMessage(null); }}
+                  placeholder="New PIN"
+                  className="w-40 px-3 py-2 bg-white/10 border border-white/15 rounded-lg text-white text-sm placeholder-white/30 focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+                />
+                <button
+                  onClick={handleSetKioskPin}
+                  disabled={kioskPin.length < 4 || kioskPinSaving}
+                  className="px-4 py-2 bg-[#6c5ce7] text-white text-sm rounded-lg hover:bg-[#5b4dd0] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {kioskPinSaving ? "Saving..." : "Set PIN"}
+                </button>
+              </div>
+              {kioskPinMessage && (
+                <p className={`text-xs mt-2 ${kioskPinMessage.ok ? "text-green-400" : "text-red-400"}`}>{kioskPinMessage.text}</p>
+              )}
+            </div>
+          )}
+
           {/* Gymnastics Profile (only for athletes) */}
           {member.role === "ATHLETE" && (
             <div className="bg-white/8 rounded-xl border border-white/8 p-6">
@@ -1664,3 +1732,136 @@ function InviteGuardianModal({
     </div>
   );
 }
+
+type EscalationFiring = {
+  id: string;
+  rule: { id: string; name: string };
+  detail: string;
+  followUp: boolean;
+  proposedStatus?: string | null;
+  status?: "OPEN" | "RESOLVED" | "DISMISSED" | null;
+  resolvedBy?: { id: string; firstName: string; lastName: string } | null;
+  resolutionNote?: string | null;
+  createdAt: string;
+};
+
+function AttendanceAlertsCard({
+  userId,
+  organizationId,
+  canChangeAthleteStatus,
+  onStatusChanged,
+}: {
+  userId: string;
+  organizationId: string;
+  canChangeAthleteStatus: boolean;
+  onStatusChanged: () => void;
+}) {
+  const [alertError, setAlertError] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const { data, loading, refetch } = useQuery<{ escalationFirings: EscalationFiring[] }>(GET_ESCALATION_FIRINGS, {
+    variables: { organizationId, userId, limit: 20 },
+  });
+  const [resolveEscalation] = useMutation(RESOLVE_ESCALATION);
+  const [dismissEscalation] = useMutation(DISMISS_ESCALATION);
+
+  const firings = data?.escalationFirings || [];
+
+  const handleClose = async (firing: EscalationFiring, action: "resolve" | "apply" | "dismiss") => {
+    setAlertError("");
+    setBusyId(firing.id);
+    try {
+      if (action === "dismiss") {
+        await dismissEscalation({ variables: { id: firing.id } });
+      } else {
+        await resolveEscalation({ variables: { id: firing.id, applyProposedStatus: action === "apply" } });
+        if (action === "apply") onStatusChanged();
+      }
+      refetch();
+    } catch (err) {
+      setAlertError(err instanceof Error ? err.message : "Failed to update alert");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white/8 rounded-xl border border-white/8 p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <AlertCircle className="w-5 h-5 text-[#a78bfa]" />
+        <h2 className="text-lg font-semibold text-white">Attendance Alerts</h2>
+      </div>
+
+      {alertError && <p className="text-xs text-red-400 mb-3">{alertError}</p>}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-12">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-[#6c5ce7]" />
+        </div>
+      ) : firings.length > 0 ? (
+        <div className="space-y-3">
+          {firings.map((firing) => {
+            const date = new Date(isNaN(Number(firing.createdAt)) ? firing.createdAt : Number(firing.createdAt));
+            const proposed = firing.proposedStatus ? ATHLETE_STATUS_CONFIG[firing.proposedStatus] : null;
+            return (
+              <div key={firing.id} className="text-sm">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <span className="font-medium text-white">{firing.rule.name}</span>
+                    <span className="text-white/55 ml-2">— {firing.detail}</span>
+                    <p className="text-white/35 text-xs mt-0.5">
+                      {date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
+                      {firing.followUp && " · follow-up"}
+                      {proposed && ` · proposes ${proposed.label}`}
+                      {firing.status && firing.status !== "OPEN" && (
+                        <>
+                          {" · "}
+                          {firing.status === "RESOLVED" ? "resolved" : "dismissed"}
+                          {firing.resolvedBy && ` by ${firing.resolvedBy.firstName} ${firing.resolvedBy.lastName}`}
+                        </>
+                      )}
+                    </p>
+                  </div>
+                  {firing.status === "OPEN" && (
+                    <span className="shrink-0 px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-500/15 text-yellow-400">
+                      Open
+                    </span>
+                  )}
+                </div>
+                {firing.status === "OPEN" && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {proposed && canChangeAthleteStatus && (
+                      <button
+                        onClick={() => handleClose(firing, "apply")}
+                        disabled={busyId === firing.id}
+                        className="px-3 py-1 bg-[#6c5ce7] text-white text-xs rounded-lg hover:bg-[#5b4dd0] disabled:opacity-50 transition-colors"
+                      >
+                        Set {proposed.label}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleClose(firing, "resolve")}
+                      disabled={busyId === firing.id}
+                      className="px-3 py-1 bg-white/10 text-white text-xs rounded-lg hover:bg-white/15 disabled:opacity-50 transition-colors"
+                    >
+                      Mark Resolved
+                    </button>
+                    <button
+                      onClick={() => handleClose(firing, "dismiss")}
+                      disabled={busyId === firing.id}
+                      className="px-3 py-1 text-white/55 text-xs hover:text-white disabled:opacity-50 transition-colors"
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-white/35 text-xs">No escalation rules have fired for this athlete</p>
+      )}
+    </div>
+  );
+}
@@ -12,9 +12,10 @@ import {
   CANCEL_INVITE,
   RESEND_INVITE,
   GET_CUSTOM_ROLES,
+  IMPORT_ROSTER,
 } from "@/lib/graphql";
 import { ASSIGN_CUSTOM_ROLE } from "@/lib/graphql/mutations";
-import { Search, Trash2, X, UserPlus, Mail, RefreshCw, Clock, ChevronDown, Tag } from "lucide-react";
+import { Search, Trash2, X, UserPlus, Mail, RefreshCw, Clock, ChevronDown, Tag, Upload, FileText } from "lucide-react";
 
 type TeamAssignment = {
   id: string;
@@ -56,12 +57,33 @@ type Invite = {
   expiresAt: string;
 };
 
+type RosterImportRow = {
+  line: number;
+  email: string | null;
+  name: string | null;
+  status: "NEW_USER" | "EXISTING_USER" | "ERROR";
+  role: string | null;
+  teams: string[];
+  guardianEmail: string | null;
+  errors: string[];
+};
+
+type RosterImportResult = {
+  committed: boolean;
+  newUsers: number;
+  existingUsers: number;
+  guardianInvites: number;
+  errorCount: number;
+  rows: RosterImportRow[];
+};
+
 export default function UsersPage() {
   const { selectedOrganizationId, canEdit, isOwner, isAdmin, user: currentUser } = useAuth();
   const [searchQuery, setSearchQuery] = useState("");
   const [roleFilter, setRoleFilter] = useState<string>("ALL");
   const [teamFilter, setTeamFilter] = useState<string>("ALL");
   const [isInviteModalOpen, setIsInviteModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
 
   const { data, loading, refetch } = useQuery<any>(GET_ORGANIZATION_USERS, {
     variables: { id: selectedOrganizationId },
@@ -177,15 +199,26 @@ export default function UsersPage() {
           <h1 className="text-2xl font-bold text-white">Users</h1>
           <p className="text-white/55 mt-1">Manage users in your organization</p>
         </div>
-        {canEdit && (
-          <button
-            onClick={() => setIsInviteModalOpen(true)}
-            className="flex items-center px-4 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5a4dd4] transition-colors"
-          >
-            <UserPlus className="w-5 h-5 mr-2" />
-            Invite User
-          </button>
-        )}
+        <div className="flex items-center gap-3">
+          {(isOwner || isAdmin) && (
+            <button
+              onClick={() => setIsImportModalOpen(true)}
+              className="flex items-center px-4 py-2 bg-white/8 border border-white/15 text-white rounded-lg hover:bg-white/12 transition-colors"
+            >
+              <Upload className="w-5 h-5 mr-2" />
+              Import CSV
+            </button>
+          )}
+          {canEdit && (
+            <button
+              onClick={() => setIsInviteModalOpen(true)}
+              className="flex items-center px-4 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5a4dd4] transition-colors"
+            >
+              <UserPlus className="w-5 h-5 mr-2" />
+              Invite User
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Filters */}
@@ -441,6 +474,221 @@ export default function UsersPage() {
           onSuccess={() => refetch()}
         />
       )}
+
+      {/* Roster Import Modal */}
+      {isImportModalOpen && selectedOrganizationId && (
+        <ImportRosterModal
+          organizationId={selectedOrganizationId}
+          onClose={() => setIsImportModalOpen(false)}
+          onSuccess={() => refetch()}
+        />
+      )}
+    </div>
+  );
+}
+
+const IMPORT_STATUS_STYLES: Record<RosterImportRow["status"], { label: string; className: string }> = {
+  NEW_USER: { label: "New", className: "bg-green-600/20 text-green-400" },
+  EXISTING_USER: { label: "Existing", className: "bg-[#a855f7]/15 text-[#a78bfa]" },
+  ERROR: { label: "Error", className: "bg-red-600/20 text-red-400" },
+};
+
+function ImportRosterModal({
+  organizationId,
+  onClose,
+  onSuccess,
+}: {
+  organizationId: string;
+  onClose: () => void;
+  onSuccess: () => void;
+}) {
+  const [fileName, setFileName] = useState("");
+  const [csv, setCsv] = useState("");
+  const [review, setReview] = useState<RosterImportResult | null>(null);
+  const [committed, setCommitted] = useState<RosterImportResult | null>(null);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const [importRoster] = useMutation<{ importRoster: RosterImportResult }>(IMPORT_ROSTER);
+
+  const runImport = async (dryRun: boolean) => {
+    setSubmitting(true);
+    setError("");
+    try {
+      const { data } = await importRoster({ variables: { organizationId, csv, dryRun } });
+      const result = data?.importRoster;
+      if (!result) return;
+      setReview(result);
+      if (result.committed) {
+        setCommitted(result);
+        onSuccess();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import roster.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setReview(null);
+    setError("");
+    if (!file) return;
+    setFileName(file.name);
+    setCsv(await file.text());
+  };
+
+  const rows = (review?.rows || []).filter((r) => !showErrorsOnly || r.status === "ERROR");
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white/8 backdrop-blur-xl rounded-xl w-full max-w-4xl max-h-[90vh] flex flex-col p-6 border border-white/15 shadow-2xl">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-white">Import Roster</h2>
+          <button onClick={onClose} className="text-white/55 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {committed ? (
+          <div className="space-y-4">
+            <div className="px-4 py-3 bg-green-600/20 border border-green-600/30 rounded-lg text-green-400 text-sm">
+              Imported {committed.newUsers + committed.existingUsers} people: {committed.newUsers} invited,{" "}
+              {committed.existingUsers} existing users added to teams, {committed.guardianInvites} guardian invite
+              {committed.guardianInvites !== 1 ? "s" : ""} sent.
+            </div>
+            <div className="flex justify-end">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5a4dd4] transition-colors"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            {/* Upload */}
+            <label className="flex items-center gap-3 px-4 py-4 border border-dashed border-white/25 rounded-lg cursor-pointer hover:bg-white/5 transition-colors">
+              <FileText className="w-6 h-6 text-white/55 shrink-0" />
+              <div className="min-w-0">
+                <p className="text-white text-sm font-medium truncate">{fileName || "Choose a CSV file"}</p>
+                <p className="text-white/40 text-xs mt-0.5">
+                  Columns: name, email, dob (YYYY-MM-DD), teams (separate with ;), role, guardian email, emergency
+                  contact, emergency relationship, emergency phone
+                </p>
+              </div>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+
+            {/* Review */}
+            {review && (
+              <div className="mt-4 flex flex-col min-h-0">
+                <div className="flex flex-wrap items-center gap-4 mb-3 text-sm">
+                  <span className="text-green-400">{review.newUsers} new</span>
+                  <span className="text-[#a78bfa]">{review.existingUsers} existing</span>
+                  <span className="text-white/55">{review.guardianInvites} guardian invites</span>
+                  <span className={review.errorCount > 0 ? "text-red-400" : "text-white/55"}>
+                    {review.errorCount} with errors
+                  </span>
+                  {review.errorCount > 0 && (
+                    <label className="ml-auto flex items-center gap-2 text-white/55 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={showErrorsOnly}
+                        onChange={(e) => setShowErrorsOnly(e.target.checked)}
+                        className="accent-[#6c5ce7]"
+                      />
+                      Errors only
+                    </label>
+                  )}
+                </div>
+                <div className="overflow-auto border border-white/10 rounded-lg">
+                  <table className="w-full text-sm">
+                    <thead className="bg-white/5 text-white/55 text-left sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 font-medium">Line</th>
+                        <th className="px-3 py-2 font-medium">Name</th>
+                        <th className="px-3 py-2 font-medium">Email</th>
+                        <th className="px-3 py-2 font-medium">Role</th>
+                        <th className="px-3 py-2 font-medium">Teams</th>
+                        <th className="px-3 py-2 font-medium">Guardian</th>
+                        <th className="px-3 py-2 font-medium">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/5">
+                      {rows.map((row) => (
+                        <tr key={row.line} className="align-top">
+                          <td className="px-3 py-2 text-white/40">{row.line}</td>
+                          <td className="px-3 py-2 text-white">{row.name || "—"}</td>
+                          <td className="px-3 py-2 text-white/70">{row.email || "—"}</td>
+                          <td className="px-3 py-2 text-white/70">{row.role || "—"}</td>
+                          <td className="px-3 py-2 text-white/70">{row.teams.join(", ") || "—"}</td>
+                          <td className="px-3 py-2 text-white/70">{row.guardianEmail || "—"}</td>
+                          <td className="px-3 py-2">
+                            <span
+                              className={`px-2 py-0.5 rounded text-xs font-medium ${IMPORT_STATUS_STYLES[row.status].className}`}
+                            >
+                              {IMPORT_STATUS_STYLES[row.status].label}
+                            </span>
+                            {row.errors.map((message) => (
+                              <p key={message} className="mt-1 text-xs text-red-400">
+                                {message}
+                              </p>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {error && (
+              <div className="mt-4 px-4 py-3 bg-red-600/20 border border-red-600/30 rounded-lg text-red-400 text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="flex items-center justify-end space-x-3 mt-6">
+              {review && review.errorCount > 0 && (
+                <p className="mr-auto text-xs text-white/55">Fix the errors in your file and upload it again.</p>
+              )}
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-white/55 hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+              {review && review.errorCount === 0 ? (
+                <button
+                  onClick={() => runImport(false)}
+                  disabled={submitting || review.rows.length === 0}
+                  className="px-4 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5a4dd4] transition-colors disabled:opacity-50"
+                >
+                  {submitting ? "Importing..." : `Import ${review.rows.length} ${review.rows.length === 1 ? "person" : "people"}`}
+                </button>
+              ) : (
+                <button
+                  onClick={() => runImport(true)}
+                  disabled={submitting || !csv}
+                  className="px-4 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5a4dd4] transition-colors disabled:opacity-50"
+                >
+                  {submitting ? "Checking..." : "Check File"}
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,410 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery } from "@apollo/client/react";
+import { GET_KIOSK_ATHLETES, GET_KIOSK_SESSION, KIOSK_CHECK_IN } from "@/lib/graphql";
+import { clearKioskToken, getKioskToken } from "@/lib/kiosk";
+import { AlertTriangle, CalendarDays, Check, Delete, LogIn, LogOut, MapPin, Search, X } from "lucide-react";
+
+type KioskEvent = {
+  id: string;
+  title: string;
+  type: string;
+  startTime: string;
+  endTime: string;
+  teamName: string | null;
+};
+
+type KioskSession = {
+  deviceName: string;
+  organizationName: string;
+  organizationImage: string | null;
+  venueName: string | null;
+  events: KioskEvent[];
+};
+
+type KioskAthlete = {
+  id: string;
+  firstName: string;
+  lastName: string;
+  image: string | null;
+  hasPin: boolean;
+  checkedIn: boolean;
+};
+
+type KioskCheckInResult = {
+  action: "CHECKED_IN" | "CHECKED_OUT";
+  status: string;
+  eventTitle: string;
+  hoursLogged: number | null;
+};
+
+const PIN_MAX_LENGTH = 6;
+// How long the result screen stays up before the next athlete's turn
+const RESULT_DISPLAY_MS = 4000;
+
+export default function KioskPage() {
+  const [hasToken, setHasToken] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    setHasToken(!!getKioskToken());
+  }, []);
+
+  if (hasToken === null) return <KioskShell><Spinner /></KioskShell>;
+  if (!hasToken) return <KioskNotSetUp />;
+  return <KioskCheckInScreen onExit={() => { clearKioskToken(); setHasToken(false); }} />;
+}
+
+function KioskCheckInScreen({ onExit }: { onExit: () => void }) {
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<KioskAthlete | null>(null);
+  const [confirmExit, setConfirmExit] = useState(false);
+
+  const { data: sessionData, loading: sessionLoading, error: sessionError } = useQuery<{ kioskSession: KioskSession }>(
+    GET_KIOSK_SESSION,
+    { pollInterval: 5 * 60 * 1000 }
+  );
+  const { data: athletesData, refetch: refetchAthletes } = useQuery<{ kioskAthletes: KioskAthlete[] }>(
+    GET_KIOSK_ATHLETES,
+    { pollInterval: 60 * 1000 }
+  );
+
+  const closePinPad = useCallback(() => {
+    setSelected(null);
+    setSearch("");
+    refetchAthletes();
+  }, [refetchAthletes]);
+
+  // A revoked or deleted device gets "Authentication required" on every request
+  if (sessionError && !sessionData) {
+    return <KioskNotSetUp revoked onReset={onExit} />;
+  }
+  if (sessionLoading && !sessionData) return <KioskShell><Spinner /></KioskShell>;
+
+  const session = sessionData?.kioskSession;
+  const term = search.trim().toLowerCase();
+  const athletes = (athletesData?.kioskAthletes ?? []).filter(
+    (a) => !term || `${a.firstName} ${a.lastName}`.toLowerCase().includes(term)
+  );
+
+  return (
+    <KioskShell>
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4 mb-6">
+        <div className="flex items-center gap-4 min-w-0">
+          {session?.organizationImage ? (
+            <img src={session.organizationImage} alt="" className="w-14 h-14 rounded-xl object-cover" />
+          ) : (
+            <div className="w-14 h-14 rounded-xl bg-[#6c5ce7] flex items-center justify-center text-white text-xl font-bold">
+              {session?.organizationName?.[0]}
+            </div>
+          )}
+          <div className="min-w-0">
+            <h1 className="text-2xl font-bold text-white truncate">{session?.organizationName}</h1>
+            <p className="text-white/55 text-sm flex items-center gap-1">
+              {session?.venueName && (
+                <>
+                  <MapPin className="w-3.5 h-3.5" />
+                  {session.venueName}
+                  {" · "}
+                </>
+              )}
+              {session?.deviceName}
+            </p>
+          </div>
+        </div>
+        {confirmExit ? (
+          <div className="flex items-center gap-2">
+            <span className="text-white/55 text-sm">Exit kiosk mode on this device?</span>
+            <button
+              onClick={onExit}
+              className="px-3 py-1.5 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 transition-colors"
+            >
+              Exit
+            </button>
+            <button
+              onClick={() => setConfirmExit(false)}
+              className="px-3 py-1.5 text-white/55 text-sm hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setConfirmExit(true)}
+            className="text-white/40 text-sm hover:text-white/70 transition-colors"
+          >
+            Exit kiosk
+          </button>
+        )}
+      </div>
+
+      {/* Today's events */}
+      <div className="flex gap-3 overflow-x-auto pb-2 mb-6">
+        {session?.events.length ? (
+          session.events.map((event) => (
+            <div key={event.id} className="shrink-0 bg-white/8 rounded-lg border border-white/8 px-4 py-3">
+              <p className="text-white font-medium">{event.title}</p>
+              <p className="text-white/55 text-xs mt-0.5">
+                {event.startTime} – {event.endTime}
+                {event.teamName && ` · ${event.teamName}`}
+              </p>
+            </div>
+          ))
+        ) : (
+          <div className="flex items-center gap-2 text-white/55 text-sm">
+            <CalendarDays className="w-4 h-4" />
+            No events today
+          </div>
+        )}
+      </div>
+
+      {/* Athlete search */}
+      <div className="relative mb-4">
+        <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-white/40" />
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Find your name..."
+          className="w-full pl-12 pr-4 py-3 bg-white/10 border border-white/15 rounded-xl text-white text-lg placeholder-white/30 focus:outline-none focus:ring-2 focus:ring-[#6c5ce7]"
+        />
+      </div>
+
+      {/* Athlete grid */}
+      {athletes.length > 0 ? (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3">
+          {athletes.map((athlete) => (
+            <button
+              key={athlete.id}
+              onClick={() => setSelected(athlete)}
+              className="flex flex-col items-center gap-2 p-4 bg-white/8 rounded-xl border border-white/8 hover:bg-white/12 transition-colors"
+            >
+              <Avatar athlete={athlete} size="w-16 h-16 text-xl" />
+              <span className="text-white font-medium text-center leading-tight">
+                {athlete.firstName} {athlete.lastName}
+              </span>
+              {athlete.checkedIn && (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-green-600/20 text-green-400">Checked in</span>
+              )}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-white/55 text-center py-12">
+          {term ? "No athletes match that name" : "No athletes are expected today"}
+        </p>
+      )}
+
+      {selected && (
+        <PinPadModal athlete={selected} onClose={closePinPad} />
+      )}
+    </KioskShell>
+  );
+}
+
+function PinPadModal({ athlete, onClose }: { athlete: KioskAthlete; onClose: () => void }) {
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState("");
+  const [earlyEvent, setEarlyEvent] = useState<{ title: string; time: string } | null>(null);
+  const [result, setResult] = useState<KioskCheckInResult | null>(null);
+
+  const [kioskCheckIn, { loading }] = useMutation<{ kioskCheckIn: KioskCheckInResult }>(KIOSK_CHECK_IN);
+
+  useEffect(() => {
+    if (!result) return;
+    const timer = setTimeout(onClose, RESULT_DISPLAY_MS);
+    return () => clearTimeout(timer);
+  }, [result, onClose]);
+
+  const submit = async (bypassEarlyCheck = false) => {
+    setError("");
+    try {
+      const { data } = await kioskCheckIn({ variables: { userId: athlete.id, pin, bypassEarlyCheck } });
+      if (data) setResult(data.kioskCheckIn);
+    } catch (err) {
+      const message = err instanceof Error && err.message ? err.message : "Check-in failed";
+      if (message.startsWith("TOO_EARLY:")) {
+        const parts = message.split(":");
+        setEarlyEvent({ title: parts[1] || "Event", time: parts.slice(2).join(":") });
+        return;
+      }
+      setError(message);
+      setPin("");
+    }
+  };
+
+  const press = (digit: string) => {
+    setError("");
+    setPin((p) => (p.length < PIN_MAX_LENGTH ? p + digit : p));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+      <div className="bg-[#2a2550] rounded-2xl border border-white/10 w-full max-w-sm p-6 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 text-white/40 hover:text-white transition-colors">
+          <X className="w-6 h-6" />
+        </button>
+
+        <div className="flex flex-col items-center mb-6">
+          <Avatar athlete={athlete} size="w-20 h-20 text-2xl" />
+          <p className="text-white text-xl font-semibold mt-3">
+            {athlete.firstName} {athlete.lastName}
+          </p>
+        </div>
+
+        {result ? (
+          <div className="flex flex-col items-center text-center py-4">
+            <div
+              className={`w-16 h-16 rounded-full flex items-center justify-center mb-4 ${
+                result.action === "CHECKED_IN" ? "bg-green-600/20" : "bg-[#6c5ce7]/25"
+              }`}
+            >
+              {result.action === "CHECKED_IN" ? (
+                <LogIn className="w-8 h-8 text-green-400" />
+              ) : (
+                <LogOut className="w-8 h-8 text-[#a78bfa]" />
+              )}
+            </div>
+            <p className="text-white text-lg font-semibold">
+              {result.action === "CHECKED_IN" ? "Checked in" : "Checked out"}
+            </p>
+            <p className="text-white/55 mt-1">{result.eventTitle}</p>
+            {result.action === "CHECKED_IN" && result.status === "LATE" && (
+              <p className="text-yellow-400 text-sm mt-2">Marked late</p>
+            )}
+            {result.action === "CHECKED_OUT" && result.hoursLogged != null && (
+              <p className="text-white/55 text-sm mt-2">{result.hoursLogged.toFixed(2)} hours logged</p>
+            )}
+          </div>
+        ) : !athlete.hasPin ? (
+          <div className="flex flex-col items-center text-center py-4">
+            <AlertTriangle className="w-10 h-10 text-yellow-400 mb-3" />
+            <p className="text-white/70">No kiosk PIN is set up for you yet. Ask a coach to set one.</p>
+          </div>
+        ) : earlyEvent ? (
+          <div className="flex flex-col items-center text-center py-2">
+            <p className="text-white font-medium">{earlyEvent.title} hasn&apos;t started yet</p>
+            {earlyEvent.time && <p className="text-white/55 text-sm mt-1">Starts at {earlyEvent.time}</p>}
+            <div className="flex gap-3 mt-6 w-full">
+              <button
+                onClick={onClose}
+                className="flex-1 py-3 bg-white/10 text-white rounded-xl hover:bg-white/15 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => submit(true)}
+                disabled={loading}
+                className="flex-1 py-3 bg-[#6c5ce7] text-white rounded-xl hover:bg-[#5b4dd0] disabled:opacity-50 transition-colors"
+              >
+                Check in early
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="flex justify-center gap-3 mb-2">
+              {Array.from({ length: Math.max(4, pin.length) }).map((_, i) => (
+                <span
+                  key={i}
+                  className={`w-4 h-4 rounded-full ${i < pin.length ? "bg-[#a78bfa]" : "bg-white/15"}`}
+                />
+              ))}
+            </div>
+            <p className="text-red-400 text-sm text-center h-5 mb-3">{error}</p>
+            <div className="grid grid-cols-3 gap-3">
+              {["1", "2", "3", "4", "5", "6", "7", "8", "9"].map((digit) => (
+                <PinKey key={digit} onClick={() => press(digit)}>{digit}</PinKey>
+              ))}
+              <PinKey onClick={() => setPin((p) => p.slice(0, -1))}>
+                <Delete className="w-6 h-6 mx-auto" />
+              </PinKey>
+              <PinKey onClick={() => press("0")}>0</PinKey>
+              <button
+                onClick={() => submit()}
+                disabled={pin.length < 4 || loading}
+                className="h-16 rounded-xl bg-[#6c5ce7] text-white hover:bg-[#5b4dd0] disabled:opacity-50 transition-colors"
+              >
+                <Check className="w-6 h-6 mx-auto" />
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function PinKey({ onClick, children }: { onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      className="h-16 rounded-xl bg-white/10 text-white text-2xl font-medium hover:bg-white/15 active:bg-white/20 transition-colors"
+    >
+      {children}
+    </button>
+  );
+}
+
+function Avatar({ athlete, size }: { athlete: KioskAthlete; size: string }) {
+  return athlete.image ? (
+    <img src={athlete.image} alt="" className={`${size} rounded-full object-cover ring-2 ring-white/15`} />
+  ) : (
+    <div className={`${size} rounded-full bg-[#6c5ce7] flex items-center justify-center text-white font-semibold ring-2 ring-white/15`}>
+      {athlete.firstName[0]}{athlete.lastName[0]}
+    </div>
+  );
+}
+
+function KioskNotSetUp({ revoked, onReset }: { revoked?: boolean; onReset?: () => void }) {
+  return (
+    <KioskShell>
+      <div className="flex flex-col items-center justify-center text-center min-h-[70vh]">
+        <AlertTriangle className="w-12 h-12 text-yellow-400 mb-4" />
+        <h1 className="text-2xl font-bold text-white mb-2">
+          {revoked ? "This kiosk is no longer active" : "This device isn't set up as a kiosk"}
+        </h1>
+        <p className="text-white/55 max-w-md">
+          An organization admin or manager can set up a kiosk from Settings → Kiosk Devices.
+        </p>
+        <div className="flex gap-3 mt-6">
+          {revoked && onReset && (
+            <button
+              onClick={onReset}
+              className="px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/15 transition-colors"
+            >
+              Reset this device
+            </button>
+          )}
+          <Link
+            href="/signin"
+            className="px-4 py-2 bg-[#6c5ce7] text-white rounded-lg hover:bg-[#5b4dd0] transition-colors"
+          >
+            Sign in
+          </Link>
+        </div>
+      </div>
+    </KioskShell>
+  );
+}
+
+function KioskShell({ children }: { children: React.ReactNode }) {
+  return (
+    <div
+      className="min-h-screen text-white p-6"
+      style={{ background: "linear-gradient(160deg, #302b6f 10%, #4d2a69 60%, #302b6f 100%)" }}
+    >
+      {children}
+    </div>
+  );
+}
+
+function Spinner() {
+  return (
+    <div className="flex items-center justify-center min-h-[70vh]">
+      <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-[#6c5ce7]" />
+    </div>
+  );
+}
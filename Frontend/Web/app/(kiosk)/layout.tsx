@@ -0,0 +1,10 @@
+"use client";
+
+import { ApolloProvider } from "@apollo/client/react";
+import { kioskApolloClient } from "@/lib/kiosk";
+
+// Kiosk pages run on a shared front-desk device with its own device token, so
+// there is deliberately no AuthProvider: no user is ever signed in here.
+export default function KioskLayout({ children }: { children: React.ReactNode }) {
+  return <ApolloProvider client={kioskApolloClient}>{children}</ApolloProvider>;
+}
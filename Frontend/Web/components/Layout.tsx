@@ -5,7 +5,7 @@ import Image from "next/image";
 import { usePathname } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
 import { useQuery } from "@apollo/client/react";
-import { GET_PENDING_EXCUSE_REQUESTS } from "@/lib/graphql";
+import { GET_PENDING_EXCUSE_REQUESTS, GET_MY_CONVERSATIONS } from "@/lib/graphql";
 import {
   Users,
   Calendar,
@@ -26,6 +26,7 @@ import {
   Briefcase,
   FileCheck,
   Receipt,
+  MessageSquare,
 } from "lucide-react";
 import { useState, useEffect } from "react";
 
@@ -58,6 +59,7 @@ type NavEntry = NavItem | NavGroup;
 const NAV: NavEntry[] = [
   { type: "item",  name: "Dashboard",     href: "/dashboard",     icon: Home },
   { type: "item",  name: "Announcements", href: "/announcements", icon: Megaphone },
+  { type: "item",  name: "Messages",      href: "/messages",      icon: MessageSquare },
   {
     type: "group",
     name: "Organization",
@@ -116,7 +118,18 @@ export function Layout({ children }: { children: React.ReactNode }) {
   ).length;
   const athletePendingCount = pendingExcuses.length - staffPendingCount;
 
+  const { data: conversationData } = useQuery<{ myConversations: { id: string; unreadCount: number }[] }>(
+    GET_MY_CONVERSATIONS,
+    {
+      variables: { organizationId: selectedOrganizationId },
+      skip: !selectedOrganizationId,
+      pollInterval: 30000,
+    }
+  );
+  const unreadMessageCount = (conversationData?.myConversations || []).reduce((sum, c) => sum + c.unreadCount, 0);
+
   const navBadges: Record<string, number> = {
+    "/messages": unreadMessageCount,
     "/absence-requests": staffPendingCount,
     "/athlete-absence-requests": athletePendingCount,
   };
@@ -176,7 +189,12 @@ export function Layout({ children }: { children: React.ReactNode }) {
         } ${sidebarCollapsed ? "justify-center" : ""}`}
       >
         <item.icon className={`w-5 h-5 shrink-0 ${sidebarCollapsed ? "" : "mr-3"}`} />
-        {!sidebarCollapsed && item.name}
+        {!sidebarCollapsed && <span className="flex-1">{item.name}</span>}
+        {!sidebarCollapsed && (navBadges[item.href] ?? 0) > 0 && (
+          <span className="ml-1.5 flex items-center justify-center min-w-[18px] h-[18px] px-1 text-[10px] font-bold bg-red-500 rounded-full text-white">
+            {navBadges[item.href]}
+          </span>
+        )}
       </Link>
     );
   }
@@ -215,6 +215,11 @@ export const UPDATE_EVENT = gql`
     $location: String
     $description: String
     $venueId: ID
+    $opponentId: ID
+    $homeAway: HomeAway
+    $capacity: Int
+    $rsvpDeadline: String
+    $allowConflicts: Boolean
   ) {
     updateEvent(
       id: $id
@@ -227,6 +232,11 @@ export const UPDATE_EVENT = gql`
       location: $location
       description: $description
       venueId: $venueId
+      opponentId: $opponentId
+      homeAway: $homeAway
+      capacity: $capacity
+      rsvpDeadline: $rsvpDeadline
+      allowConflicts: $allowConflicts
     ) {
       ...EventFields
       venue {
@@ -246,6 +256,69 @@ export const DELETE_EVENT = gql`
   }
 `;
 
+export const CANCEL_EVENT = gql`
+  mutation CancelEvent($id: ID!, $reason: String) {
+    cancelEvent(id: $id, reason: $reason) {
+      id
+      status
+      statusReason
+      statusChangedAt
+    }
+  }
+`;
+
+export const RESCHEDULE_EVENT = gql`
+  mutation RescheduleEvent($id: ID!, $input: RescheduleEventInput!) {
+    rescheduleEvent(id: $id, input: $input) {
+      id
+      date
+      endDate
+      startTime
+      endTime
+      status
+      statusReason
+      statusChangedAt
+    }
+  }
+`;
+
+export const IMPORT_SCHEDULE = gql`
+  mutation ImportSchedule($organizationId: ID!, $input: ScheduleImportInput!, $dryRun: Boolean) {
+    importSchedule(organizationId: $organizationId, input: $input, dryRun: $dryRun) {
+      committed
+      created
+      updated
+      unchanged
+      cancelled
+      newVenues
+      newOpponents
+      errorCount
+      rows {
+        line
+        uid
+        title
+        date
+        startTime
+        endTime
+        team
+        type
+        venue
+        newVenue
+        opponent
+        homeAway
+        status
+        eventId
+        changes {
+          field
+          from
+          to
+        }
+        errors
+      }
+    }
+  }
+`;
+
 export const CREATE_RECURRING_EVENT = gql`
   mutation CreateRecurringEvent($input: CreateRecurringEventInput!) {
     createRecurringEvent(input: $input) {
@@ -271,6 +344,31 @@ export const DELETE_RECURRING_EVENT = gql`
   }
 `;
 
+export const UPDATE_RECURRING_EVENT = gql`
+  mutation UpdateRecurringEvent(
+    $id: ID!
+    $scope: RecurringEditScope!
+    $fromEventId: ID
+    $changes: RecurringEventChangesInput!
+    $allowConflicts: Boolean
+  ) {
+    updateRecurringEvent(
+      id: $id
+      scope: $scope
+      fromEventId: $fromEventId
+      changes: $changes
+      allowConflicts: $allowConflicts
+    ) {
+      id
+      startTime
+      endTime
+      daysOfWeek
+      startDate
+      endDate
+    }
+  }
+`;
+
 // ============================================
 // Invite Mutations
 // ============================================
@@ -315,6 +413,28 @@ export const RESEND_INVITE = gql`
   ${INVITE_FRAGMENT}
 `;
 
+export const IMPORT_ROSTER = gql`
+  mutation ImportRoster($organizationId: ID!, $csv: String!, $dryRun: Boolean) {
+    importRoster(organizationId: $organizationId, csv: $csv, dryRun: $dryRun) {
+      committed
+      newUsers
+      existingUsers
+      guardianInvites
+      errorCount
+      rows {
+        line
+        email
+        name
+        status
+        role
+        teams
+        guardianEmail
+        errors
+      }
+    }
+  }
+`;
+
 // ============================================
 // Organization Leave / Transfer Mutations
 // ============================================
@@ -361,6 +481,7 @@ export const CHECK_OUT = gql`
   mutation CheckOut($input: CheckOutInput!) {
     checkOut(input: $input) {
       id
+      status
       checkOutTime
       hoursLogged
     }
@@ -379,6 +500,78 @@ export const MARK_ABSENT_FOR_PAST_EVENTS = gql`
   }
 `;
 
+export const SET_ATTENDANCE_POLICY = gql`
+  mutation SetAttendancePolicy($input: AttendancePolicyInput!) {
+    setAttendancePolicy(input: $input) {
+      id
+      checkInWindowMinutes
+      lateGraceMinutes
+      minPresencePercent
+      updatedAt
+    }
+  }
+`;
+
+export const DELETE_ATTENDANCE_POLICY = gql`
+  mutation DeleteAttendancePolicy($id: ID!) {
+    deleteAttendancePolicy(id: $id)
+  }
+`;
+
+export const CREATE_ESCALATION_RULE = gql`
+  mutation CreateEscalationRule($input: EscalationRuleInput!) {
+    createEscalationRule(input: $input) {
+      id
+    }
+  }
+`;
+
+export const UPDATE_ESCALATION_RULE = gql`
+  mutation UpdateEscalationRule($id: ID!, $input: EscalationRuleInput!) {
+    updateEscalationRule(id: $id, input: $input) {
+      id
+      isActive
+    }
+  }
+`;
+
+export const DELETE_ESCALATION_RULE = gql`
+  mutation DeleteEscalationRule($id: ID!) {
+    deleteEscalationRule(id: $id)
+  }
+`;
+
+export const RESOLVE_ESCALATION = gql`
+  mutation ResolveEscalation($id: ID!, $applyProposedStatus: Boolean, $note: String) {
+    resolveEscalation(id: $id, applyProposedStatus: $applyProposedStatus, note: $note) {
+      id
+      status
+      resolvedAt
+    }
+  }
+`;
+
+export const DISMISS_ESCALATION = gql`
+  mutation DismissEscalation($id: ID!, $note: String) {
+    dismissEscalation(id: $id, note: $note) {
+      id
+      status
+      resolvedAt
+    }
+  }
+`;
+
+export const UPSERT_RSVP = gql`
+  mutation UpsertRsvp($input: UpsertRsvpInput!) {
+    upsertRsvp(input: $input) {
+      id
+      status
+      note
+      waitlistPosition
+    }
+  }
+`;
+
 // ============================================
 // Ad-Hoc Check-In Mutations
 // ============================================
@@ -464,6 +657,209 @@ export const UPDATE_EXCUSE_REQUEST = gql`
   }
 `;
 
+export const REVIEW_ABSENCE_REQUEST = gql`
+  mutation ReviewAbsenceRequest($id: ID!, $status: ExcuseRequestStatus!) {
+    reviewAbsenceRequest(id: $id, status: $status) {
+      id
+      status
+      reviewedAt
+      reviewedBy { id firstName lastName }
+    }
+  }
+`;
+
+export const CREATE_EXCUSE_CATEGORY = gql`
+  mutation CreateExcuseCategory($input: ExcuseCategoryInput!) {
+    createExcuseCategory(input: $input) {
+      id
+      name
+      autoApprove
+      requiresAttachment
+      isActive
+    }
+  }
+`;
+
+export const UPDATE_EXCUSE_CATEGORY = gql`
+  mutation UpdateExcuseCategory($id: ID!, $input: ExcuseCategoryInput!) {
+    updateExcuseCategory(id: $id, input: $input) {
+      id
+      name
+      autoApprove
+      requiresAttachment
+      isActive
+    }
+  }
+`;
+
+export const DELETE_EXCUSE_CATEGORY = gql`
+  mutation DeleteExcuseCategory($id: ID!) {
+    deleteExcuseCategory(id: $id)
+  }
+`;
+
+// ============================================
+// Game Mutations
+// ============================================
+
+export const CREATE_OPPONENT = gql`
+  mutation CreateOpponent($organizationId: ID!, $input: OpponentInput!) {
+    createOpponent(organizationId: $organizationId, input: $input) {
+      id
+      name
+      shortName
+      notes
+    }
+  }
+`;
+
+export const UPDATE_OPPONENT = gql`
+  mutation UpdateOpponent($id: ID!, $input: OpponentInput!) {
+    updateOpponent(id: $id, input: $input) {
+      id
+      name
+      shortName
+      notes
+    }
+  }
+`;
+
+export const DELETE_OPPONENT = gql`
+  mutation DeleteOpponent($id: ID!) {
+    deleteOpponent(id: $id)
+  }
+`;
+
+export const RECORD_GAME_RESULT = gql`
+  mutation RecordGameResult($eventId: ID!, $teamScore: Int!, $opponentScore: Int!) {
+    recordGameResult(eventId: $eventId, teamScore: $teamScore, opponentScore: $opponentScore) {
+      id
+      teamScore
+      opponentScore
+      result
+    }
+  }
+`;
+
+export const CLEAR_GAME_RESULT = gql`
+  mutation ClearGameResult($eventId: ID!) {
+    clearGameResult(eventId: $eventId) {
+      id
+      teamScore
+      opponentScore
+      result
+    }
+  }
+`;
+
+// ============================================
+// Tournament Mutations
+// ============================================
+
+export const CREATE_EVENT_GROUP = gql`
+  mutation CreateEventGroup($organizationId: ID!, $input: EventGroupInput!) {
+    createEventGroup(organizationId: $organizationId, input: $input) {
+      id
+      name
+    }
+  }
+`;
+
+export const UPDATE_EVENT_GROUP = gql`
+  mutation UpdateEventGroup($id: ID!, $input: EventGroupInput!) {
+    updateEventGroup(id: $id, input: $input) {
+      id
+      name
+      description
+      startDate
+      endDate
+      travelNotes
+    }
+  }
+`;
+
+export const DELETE_EVENT_GROUP = gql`
+  mutation DeleteEventGroup($id: ID!) {
+    deleteEventGroup(id: $id)
+  }
+`;
+
+export const ADD_EVENTS_TO_GROUP = gql`
+  mutation AddEventsToGroup($eventGroupId: ID!, $eventIds: [ID!]!) {
+    addEventsToGroup(eventGroupId: $eventGroupId, eventIds: $eventIds) {
+      id
+    }
+  }
+`;
+
+export const REMOVE_EVENT_FROM_GROUP = gql`
+  mutation RemoveEventFromGroup($eventId: ID!) {
+    removeEventFromGroup(eventId: $eventId) {
+      id
+    }
+  }
+`;
+
+export const SET_GAME_BRACKET = gql`
+  mutation SetGameBracket($eventId: ID!, $input: GameBracketInput!) {
+    setGameBracket(eventId: $eventId, input: $input) {
+      id
+      pool
+      bracketRound
+      bracketSlot
+    }
+  }
+`;
+
+export const GENERATE_EVENT_GROUP_DOCUMENT_UPLOAD_URL = gql`
+  mutation GenerateEventGroupDocumentUploadUrl($eventGroupId: ID!, $fileType: String!) {
+    generateEventGroupDocumentUploadUrl(eventGroupId: $eventGroupId, fileType: $fileType) {
+      uploadUrl
+      key
+    }
+  }
+`;
+
+export const ADD_EVENT_GROUP_DOCUMENT = gql`
+  mutation AddEventGroupDocument($eventGroupId: ID!, $input: EventGroupDocumentInput!) {
+    addEventGroupDocument(eventGroupId: $eventGroupId, input: $input) {
+      id
+    }
+  }
+`;
+
+export const DELETE_EVENT_GROUP_DOCUMENT = gql`
+  mutation DeleteEventGroupDocument($id: ID!) {
+    deleteEventGroupDocument(id: $id)
+  }
+`;
+
+// ============================================
+// Event Template Mutations
+// ============================================
+
+export const CREATE_EVENT_TEMPLATE = gql`
+  mutation CreateEventTemplate($organizationId: ID!, $input: EventTemplateInput!) {
+    createEventTemplate(organizationId: $organizationId, input: $input) {
+      id
+    }
+  }
+`;
+
+export const UPDATE_EVENT_TEMPLATE = gql`
+  mutation UpdateEventTemplate($id: ID!, $input: EventTemplateInput!) {
+    updateEventTemplate(id: $id, input: $input) {
+      id
+    }
+  }
+`;
+
+export const DELETE_EVENT_TEMPLATE = gql`
+  mutation DeleteEventTemplate($id: ID!) {
+    deleteEventTemplate(id: $id)
+  }
+`;
+
 // ============================================
 // Health & Safety Mutations
 // ============================================
@@ -517,13 +913,14 @@ export const UPSERT_MEDICAL_INFO = gql`
 `;
 
 export const UPDATE_ORGANIZATION_SETTINGS = gql`
-  mutation UpdateOrganizationSettings($id: ID!, $adminHealthAccess: AdminHealthAccess, $coachHealthAccess: CoachHealthAccess, $allowCoachHourEdit: Boolean, $reportFrequencies: [String!]) {
-    updateOrganizationSettings(id: $id, adminHealthAccess: $adminHealthAccess, coachHealthAccess: $coachHealthAccess, allowCoachHourEdit: $allowCoachHourEdit, reportFrequencies: $reportFrequencies) {
+  mutation UpdateOrganizationSettings($id: ID!, $adminHealthAccess: AdminHealthAccess, $coachHealthAccess: CoachHealthAccess, $allowCoachHourEdit: Boolean, $reportFrequencies: [String!], $timezone: String) {
+    updateOrganizationSettings(id: $id, adminHealthAccess: $adminHealthAccess, coachHealthAccess: $coachHealthAccess, allowCoachHourEdit: $allowCoachHourEdit, reportFrequencies: $reportFrequencies, timezone: $timezone) {
       id
       adminHealthAccess
       coachHealthAccess
       allowCoachHourEdit
       reportFrequencies
+      timezone
     }
   }
 `;
@@ -553,6 +950,7 @@ export const CREATE_VENUE = gql`
       state
       country
       notes
+      timezone
     }
   }
 `;
@@ -567,6 +965,7 @@ export const UPDATE_VENUE = gql`
       state
       country
       notes
+      timezone
     }
   }
 `;
@@ -577,6 +976,44 @@ export const DELETE_VENUE = gql`
   }
 `;
 
+export const CREATE_BLACKOUT_DATE = gql`
+  mutation CreateBlackoutDate($input: CreateBlackoutDateInput!) {
+    createBlackoutDate(input: $input) {
+      id
+      name
+      startDate
+      endDate
+    }
+  }
+`;
+
+export const DELETE_BLACKOUT_DATE = gql`
+  mutation DeleteBlackoutDate($id: ID!) {
+    deleteBlackoutDate(id: $id)
+  }
+`;
+
+export const CREATE_CALENDAR_FEED = gql`
+  mutation CreateCalendarFeed($organizationId: ID!, $teamId: ID) {
+    createCalendarFeed(organizationId: $organizationId, teamId: $teamId) {
+      id
+      url
+      lastAccessedAt
+      createdAt
+      team {
+        id
+        name
+      }
+    }
+  }
+`;
+
+export const REVOKE_CALENDAR_FEED = gql`
+  mutation RevokeCalendarFeed($id: ID!) {
+    revokeCalendarFeed(id: $id)
+  }
+`;
+
 // ============================================
 // Recurring Event Athlete Include / Exclude Mutations
 // ============================================
@@ -1007,3 +1444,91 @@ export const CREATE_STRIPE_PAYMENT_INTENT = gql`
     }
   }
 `;
+
+// ============================================
+// Messaging
+// ============================================
+
+export const START_CONVERSATION = gql`
+  mutation StartConversation($input: StartConversationInput!) {
+    startConversation(input: $input) {
+      id
+    }
+  }
+`;
+
+export const OPEN_TEAM_CHANNEL = gql`
+  mutation OpenTeamChannel($teamId: ID!) {
+    openTeamChannel(teamId: $teamId) {
+      id
+    }
+  }
+`;
+
+export const SEND_MESSAGE = gql`
+  mutation SendMessage($conversationId: ID!, $body: String!) {
+    sendMessage(conversationId: $conversationId, body: $body) {
+      id
+      conversationId
+      body
+      createdAt
+    }
+  }
+`;
+
+export const MARK_CONVERSATION_READ = gql`
+  mutation MarkConversationRead($conversationId: ID!) {
+    markConversationRead(conversationId: $conversationId) {
+      id
+      lastReadAt
+    }
+  }
+`;
+
+export const LEAVE_CONVERSATION = gql`
+  mutation LeaveConversation($conversationId: ID!) {
+    leaveConversation(conversationId: $conversationId)
+  }
+`;
+
+// ============================================
+// Kiosk
+// ============================================
+
+export const REGISTER_KIOSK_DEVICE = gql`
+  mutation RegisterKioskDevice($input: RegisterKioskDeviceInput!) {
+    registerKioskDevice(input: $input) {
+      device {
+        id
+        name
+      }
+      token
+    }
+  }
+`;
+
+export const REVOKE_KIOSK_DEVICE = gql`
+  mutation RevokeKioskDevice($id: ID!) {
+    revokeKioskDevice(id: $id) {
+      id
+      revokedAt
+    }
+  }
+`;
+
+export const SET_KIOSK_PIN = gql`
+  mutation SetKioskPin($organizationId: ID!, $userId: ID!, $pin: String!) {
+    setKioskPin(organizationId: $organizationId, userId: $userId, pin: $pin)
+  }
+`;
+
+export const KIOSK_CHECK_IN = gql`
+  mutation KioskCheckIn($userId: ID!, $pin: String!, $bypassEarlyCheck: Boolean) {
+    kioskCheckIn(userId: $userId, pin: $pin, bypassEarlyCheck: $bypassEarlyCheck) {
+      action
+      status
+      eventTitle
+      hoursLogged
+    }
+  }
+`;
@@ -65,6 +65,8 @@ export const EVENT_FRAGMENT = gql`
     endTime
     location
     description
+    status
+    statusReason
     venue {
       id
       name
@@ -74,6 +76,18 @@ export const EVENT_FRAGMENT = gql`
     recurringEvent {
       id
     }
+    opponent {
+      id
+      name
+    }
+    homeAway
+    teamScore
+    opponentScore
+    result
+    eventGroup {
+      id
+      name
+    }
   }
 `;
 
@@ -121,6 +135,7 @@ export const GET_ORGANIZATION = gql`
       coachHealthAccess
       allowCoachHourEdit
       reportFrequencies
+      timezone
       payrollConfig {
         payPeriod
         defaultHourlyRate
@@ -187,6 +202,15 @@ export const GET_TEAM = gql`
         id
         name
       }
+      gameRecord {
+        played
+        wins
+        losses
+        draws
+        goalsFor
+        goalsAgainst
+        goalDifferential
+      }
       members {
         id
         role
@@ -243,6 +267,16 @@ export const GET_EVENTS = gql`
       recurringEvent {
         id
       }
+      conflicts {
+        reason
+        event {
+          id
+          title
+          date
+          startTime
+          endTime
+        }
+      }
     }
   }
   ${EVENT_FRAGMENT}
@@ -254,6 +288,7 @@ export const GET_EVENTS_COUNT = gql`
       PRACTICE
       MEETING
       EVENT
+      GAME
     }
   }
 `;
@@ -317,6 +352,7 @@ export const GET_ORG_EXCUSE_REQUESTS = gql`
     $status: String
     $requesterType: String
     $search: String
+    $categoryId: ID
     $sortBy: String
     $sortDir: String
     $limit: Int
@@ -327,18 +363,26 @@ export const GET_ORG_EXCUSE_REQUESTS = gql`
       status: $status
       requesterType: $requesterType
       search: $search
+      categoryId: $categoryId
       sortBy: $sortBy
       sortDir: $sortDir
       limit: $limit
       offset: $offset
     ) {
       total
+      categoryBreakdown {
+        category { id name }
+        count
+      }
       items {
         id
         reason
         status
+        autoApproved
         attemptCount
         createdAt
+        category { id name }
+        attachments { id fileName contentType url }
         user {
           id
           firstName
@@ -363,6 +407,183 @@ export const GET_ORG_EXCUSE_REQUESTS = gql`
   }
 `;
 
+export const GET_ORG_ABSENCE_REQUESTS = gql`
+  query GetOrgAbsenceRequests($organizationId: ID!, $status: ExcuseRequestStatus, $limit: Int) {
+    orgAbsenceRequests(organizationId: $organizationId, status: $status, limit: $limit) {
+      id
+      startDate
+      endDate
+      reason
+      status
+      createdAt
+      reviewedAt
+      user { id firstName lastName image }
+      requestedBy { id firstName lastName }
+      reviewedBy { id firstName lastName }
+      teams { id name }
+      events { id title date startTime endTime team { id name } }
+    }
+  }
+`;
+
+export const GET_EXCUSE_CATEGORIES = gql`
+  query GetExcuseCategories($organizationId: ID!, $includeInactive: Boolean) {
+    excuseCategories(organizationId: $organizationId, includeInactive: $includeInactive) {
+      id
+      name
+      autoApprove
+      requiresAttachment
+      isActive
+    }
+  }
+`;
+
+export const GET_OPPONENTS = gql`
+  query GetOpponents($organizationId: ID!, $includeArchived: Boolean) {
+    opponents(organizationId: $organizationId, includeArchived: $includeArchived) {
+      id
+      name
+      shortName
+      notes
+      archivedAt
+      record {
+        played
+        wins
+        losses
+        draws
+        goalDifferential
+      }
+    }
+  }
+`;
+
+export const GET_GAME_RESULTS = gql`
+  query GetGameResults($organizationId: ID!, $teamId: ID, $limit: Int) {
+    gameResults(organizationId: $organizationId, teamId: $teamId, limit: $limit) {
+      ...EventFields
+      team {
+        id
+        name
+      }
+    }
+  }
+  ${EVENT_FRAGMENT}
+`;
+
+export const GET_EVENT_GROUPS = gql`
+  query GetEventGroups($organizationId: ID!, $upcoming: Boolean) {
+    eventGroups(organizationId: $organizationId, upcoming: $upcoming) {
+      id
+      name
+      startDate
+      endDate
+      events {
+        id
+      }
+    }
+  }
+`;
+
+export const GET_EVENT_GROUP = gql`
+  query GetEventGroup($id: ID!) {
+    eventGroup(id: $id) {
+      id
+      organizationId
+      name
+      description
+      startDate
+      endDate
+      travelNotes
+      events {
+        ...EventFields
+        pool
+        bracketRound
+        bracketSlot
+        team {
+          id
+          name
+        }
+      }
+      documents {
+        id
+        fileName
+        contentType
+        url
+        uploadedBy {
+          id
+          firstName
+          lastName
+        }
+        createdAt
+      }
+      pools {
+        name
+        standings {
+          team {
+            id
+            name
+          }
+          record {
+            played
+            wins
+            losses
+            draws
+            goalsFor
+            goalsAgainst
+            goalDifferential
+          }
+        }
+      }
+      bracket {
+        round
+        name
+        games {
+          id
+        }
+      }
+    }
+  }
+  ${EVENT_FRAGMENT}
+`;
+
+export const GET_EVENT_TEMPLATES = gql`
+  query GetEventTemplates($organizationId: ID!, $teamId: ID) {
+    eventTemplates(organizationId: $organizationId, teamId: $teamId) {
+      id
+      name
+      title
+      type
+      durationMinutes
+      location
+      description
+      reminderMinutes
+      team {
+        id
+        name
+      }
+      venue {
+        id
+        name
+      }
+      includedAthletes {
+        id
+        firstName
+        lastName
+      }
+      excludedAthletes {
+        id
+        firstName
+        lastName
+      }
+      staff {
+        id
+        firstName
+        lastName
+      }
+    }
+  }
+`;
+
 export const GET_TEAM_LEADERBOARD = gql`
   query GetTeamLeaderboard($teamId: ID!, $timeRange: TimeRange, $limit: Int) {
     teamLeaderboard(teamId: $teamId, timeRange: $timeRange, limit: $limit) {
@@ -578,10 +799,18 @@ export const GET_EVENT_DETAIL = gql`
           ...UserFields
         }
       }
+      capacity
+      rsvpDeadline
+      rsvpClosed
+      goingCount
+      spotsRemaining
+      waitlistCount
       rsvps {
         id
         status
         note
+        waitlistedAt
+        waitlistPosition
         user {
           id
           firstName
@@ -614,12 +843,75 @@ export const GET_ATTENDANCE_INSIGHTS = gql`
       lateCount
       absentCount
       excusedCount
+      leftEarlyCount
       attendanceRate
       eventCount
     }
   }
 `;
 
+export const GET_ATTENDANCE_POLICIES = gql`
+  query GetAttendancePolicies($organizationId: ID!) {
+    attendancePolicies(organizationId: $organizationId) {
+      id
+      team {
+        id
+        name
+      }
+      eventType
+      checkInWindowMinutes
+      lateGraceMinutes
+      minPresencePercent
+      updatedAt
+    }
+  }
+`;
+
+export const GET_ESCALATION_RULES = gql`
+  query GetEscalationRules($organizationId: ID!) {
+    escalationRules(organizationId: $organizationId) {
+      id
+      team {
+        id
+        name
+      }
+      name
+      trigger
+      threshold
+      periodDays
+      notifyCoaches
+      notifyGuardians
+      createFollowUp
+      proposedStatus
+      isActive
+    }
+  }
+`;
+
+export const GET_ESCALATION_FIRINGS = gql`
+  query GetEscalationFirings($organizationId: ID!, $userId: ID, $status: EscalationStatus, $limit: Int) {
+    escalationFirings(organizationId: $organizationId, userId: $userId, status: $status, limit: $limit) {
+      id
+      rule {
+        id
+        name
+      }
+      detail
+      followUp
+      proposedStatus
+      status
+      resolvedBy {
+        id
+        firstName
+        lastName
+      }
+      resolvedAt
+      resolutionNote
+      createdAt
+    }
+  }
+`;
+
 export const GET_USER_STATS = gql`
   query GetUserStats($userId: ID!, $organizationId: ID!, $teamId: ID, $timeRange: TimeRange) {
     userStats(userId: $userId, organizationId: $organizationId, teamId: $teamId, timeRange: $timeRange) {
@@ -764,6 +1056,18 @@ export const GET_ORGANIZATION_VENUES = gql`
       state
       country
       notes
+      timezone
+    }
+  }
+`;
+
+export const GET_BLACKOUT_DATES = gql`
+  query GetBlackoutDates($organizationId: ID!) {
+    blackoutDates(organizationId: $organizationId) {
+      id
+      name
+      startDate
+      endDate
     }
   }
 `;
@@ -774,6 +1078,21 @@ export const EXPORT_CALENDAR = gql`
   }
 `;
 
+export const GET_MY_CALENDAR_FEEDS = gql`
+  query GetMyCalendarFeeds($organizationId: ID!) {
+    myCalendarFeeds(organizationId: $organizationId) {
+      id
+      url
+      lastAccessedAt
+      createdAt
+      team {
+        id
+        name
+      }
+    }
+  }
+`;
+
 export const GET_ATHLETE_STATUS_HISTORY = gql`
   query GetAthleteStatusHistory($userId: ID!, $organizationId: ID!) {
     athleteStatusHistory(userId: $userId, organizationId: $organizationId) {
@@ -1091,3 +1410,132 @@ export const GET_STRIPE_CONNECT_STATUS = gql`
     }
   }
 `;
+
+// ============================================
+// Messaging
+// ============================================
+
+const CONVERSATION_FRAGMENT = gql`
+  fragment ConversationFields on Conversation {
+    id
+    type
+    title
+    unreadCount
+    lastMessageAt
+    team {
+      id
+      name
+    }
+    participants {
+      id
+      role
+      lastReadAt
+      user {
+        id
+        firstName
+        lastName
+        image
+      }
+    }
+    lastMessage {
+      id
+      body
+      createdAt
+      sender {
+        id
+        firstName
+      }
+    }
+  }
+`;
+
+export const GET_MY_CONVERSATIONS = gql`
+  query GetMyConversations($organizationId: ID!) {
+    myConversations(organizationId: $organizationId) {
+      ...ConversationFields
+    }
+  }
+  ${CONVERSATION_FRAGMENT}
+`;
+
+export const GET_CONVERSATION_MESSAGES = gql`
+  query GetConversationMessages($conversationId: ID!, $before: String, $limit: Int) {
+    conversationMessages(conversationId: $conversationId, before: $before, limit: $limit) {
+      id
+      conversationId
+      body
+      createdAt
+      sender {
+        id
+        firstName
+        lastName
+        image
+      }
+      readBy {
+        id
+        firstName
+      }
+    }
+  }
+`;
+
+export const GET_EVENT_CHECK_IN_QR_CODE = gql`
+  query GetEventCheckInQrCode($eventId: ID!) {
+    eventCheckInQrCode(eventId: $eventId) {
+      code
+      expiresAt
+    }
+  }
+`;
+
+// ============================================
+// Kiosk
+// ============================================
+
+export const GET_KIOSK_DEVICES = gql`
+  query GetKioskDevices($organizationId: ID!) {
+    kioskDevices(organizationId: $organizationId) {
+      id
+      name
+      venue {
+        id
+        name
+      }
+      lastSeenAt
+      revokedAt
+      createdAt
+    }
+  }
+`;
+
+export const GET_KIOSK_SESSION = gql`
+  query GetKioskSession {
+    kioskSession {
+      deviceName
+      organizationName
+      organizationImage
+      venueName
+      events {
+        id
+        title
+        type
+        startTime
+        endTime
+        teamName
+      }
+    }
+  }
+`;
+
+export const GET_KIOSK_ATHLETES = gql`
+  query GetKioskAthletes {
+    kioskAthletes {
+      id
+      firstName
+      lastName
+      image
+      hasPin
+      checkedIn
+    }
+  }
+`;
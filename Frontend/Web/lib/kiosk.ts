@@ -0,0 +1,46 @@
+"use client";
+
+import { ApolloClient, InMemoryCache } from "@apollo/client/core";
+import { createHttpLink } from "@apollo/client/link/http";
+import { setContext } from "@apollo/client/link/context";
+
+const KIOSK_TOKEN_KEY = "athletiq_kiosk_token";
+
+export function getKioskToken(): string | null {
+  if (typeof window === "undefined") return null;
+  return localStorage.getItem(KIOSK_TOKEN_KEY);
+}
+
+export function setKioskToken(token: string) {
+  localStorage.setItem(KIOSK_TOKEN_KEY, token);
+}
+
+export function clearKioskToken() {
+  localStorage.removeItem(KIOSK_TOKEN_KEY);
+  kioskApolloClient.clearStore();
+}
+
+const httpLink = createHttpLink({
+  uri: process.env.NEXT_PUBLIC_API_URL || "https://api.athletiq.fitness/graphql",
+});
+
+// Kiosks authenticate with their device token, never a user's Cognito session
+const kioskAuthLink = setContext((_, { headers }) => {
+  const token = getKioskToken();
+  return {
+    headers: {
+      ...headers,
+      ...(token ? { authorization: `Kiosk ${token}` } : {}),
+    },
+  };
+});
+
+export const kioskApolloClient = new ApolloClient({
+  link: kioskAuthLink.concat(httpLink),
+  cache: new InMemoryCache(),
+  defaultOptions: {
+    watchQuery: {
+      fetchPolicy: "network-only",
+    },
+  },
+});
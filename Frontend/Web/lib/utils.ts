@@ -22,3 +22,29 @@ export function maskPhone(value: string): string {
 export function sanitizePhone(phone: string): string {
   return phone.replace(/\D/g, "");
 }
+
+export type GameLine = {
+  opponent?: { name: string } | null;
+  homeAway?: "HOME" | "AWAY" | "NEUTRAL" | null;
+  teamScore?: number | null;
+  opponentScore?: number | null;
+  result?: "WIN" | "LOSS" | "DRAW" | null;
+};
+
+/** "vs Eagles" / "@ Hawks" for a game, or "" when it has no opponent yet. */
+export function formatOpponent(game: GameLine): string {
+  if (!game.opponent) return "";
+  return `${game.homeAway === "AWAY" ? "@" : "vs"} ${game.opponent.name}`;
+}
+
+/** "W 3-1" for a scored game, or "" before a score is entered. */
+export function formatScore(game: GameLine): string {
+  if (!game.result) return "";
+  return `${game.result[0]} ${game.teamScore}-${game.opponentScore}`;
+}
+
+export const RESULT_COLORS: Record<"WIN" | "LOSS" | "DRAW", string> = {
+  WIN: "bg-green-600/20 text-green-400",
+  LOSS: "bg-red-600/20 text-red-400",
+  DRAW: "bg-white/10 text-white/55",
+};